@@ -10,6 +10,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { OAuthButtons } from "@/components/auth/OAuthButtons";
+import { TwoFactorChallenge } from "@/components/auth/TwoFactorChallenge";
 import { cn } from "@/lib/utils";
 
 function LoginForm() {
@@ -18,6 +19,7 @@ function LoginForm() {
   const [loading, setLoading] = useState(false);
   const [magicLinkSent, setMagicLinkSent] = useState(false);
   const [error, setError] = useState("");
+  const [mfaChallenge, setMfaChallenge] = useState(false);
   const [formData, setFormData] = useState({
     email: "",
     password: "",
@@ -57,6 +59,21 @@ function LoginForm() {
 
       if (data.user) {
         const redirectTo = searchParams.get("redirect") || "/dashboard";
+
+        // Password accepted; the second factor comes next if the user has one
+        const mfaRes = await fetch("/api/auth/2fa/challenge");
+        const mfa = mfaRes.ok ? await mfaRes.json() : null;
+
+        if (mfa?.challengeRequired) {
+          setMfaChallenge(true);
+          return;
+        }
+
+        if (mfa?.enrollmentRequired) {
+          router.push(`/two-factor?enroll=1&redirect=${encodeURIComponent(redirectTo)}`);
+          return;
+        }
+
         router.push(redirectTo);
         router.refresh();
       }
@@ -67,6 +84,18 @@ function LoginForm() {
     }
   };
 
+  const handleMfaVerified = () => {
+    router.push(searchParams.get("redirect") || "/dashboard");
+    router.refresh();
+  };
+
+  const handleMfaCancel = async () => {
+    await fetch("/api/auth/2fa/challenge", { method: "DELETE" });
+    await createClient().auth.signOut();
+    setMfaChallenge(false);
+    setFormData((prev) => ({ ...prev, password: "" }));
+  };
+
   const handleMagicLink = async () => {
     if (!formData.email) {
       setError("Please enter your email address");
@@ -191,13 +220,19 @@ function LoginForm() {
           </div>
 
           <div className="text-center lg:text-left">
-            <h2 className="text-3xl font-bold tracking-tight">Welcome back</h2>
+            <h2 className="text-3xl font-bold tracking-tight">
+              {mfaChallenge ? "Two-factor authentication" : "Welcome back"}
+            </h2>
             <p className="mt-2 text-muted-foreground">
-              Sign in to your account to continue
+              {mfaChallenge
+                ? "One more step to verify it's you"
+                : "Sign in to your account to continue"}
             </p>
           </div>
 
-          {magicLinkSent ? (
+          {mfaChallenge ? (
+            <TwoFactorChallenge onVerified={handleMfaVerified} onCancel={handleMfaCancel} />
+          ) : magicLinkSent ? (
             <div className="rounded-2xl bg-emerald-500/10 border border-emerald-500/20 p-6 text-center space-y-3 animate-scale-in">
               <div className="mx-auto w-12 h-12 rounded-full bg-emerald-500/20 flex items-center justify-center">
                 <Mail className="h-6 w-6 text-emerald-500" />
@@ -278,7 +313,7 @@ function LoginForm() {
             </form>
           )}
 
-          {!magicLinkSent && (
+          {!magicLinkSent && !mfaChallenge && (
             <>
               <div className="relative">
                 <div className="absolute inset-0 flex items-center">
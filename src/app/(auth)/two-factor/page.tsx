@@ -0,0 +1,134 @@
+"use client";
+
+import { useState, useEffect, Suspense } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import Image from "next/image";
+import { Loader2, AlertCircle } from "lucide-react";
+import { createClient } from "@/lib/supabase/client";
+import { TwoFactorChallenge } from "@/components/auth/TwoFactorChallenge";
+import { TwoFactorSetup } from "@/components/settings/TwoFactorSetup";
+
+interface MfaStatus {
+  enrolled: boolean;
+  required: boolean;
+  challengeRequired: boolean;
+  enrollmentRequired: boolean;
+}
+
+function TwoFactorGate() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [status, setStatus] = useState<MfaStatus | null>(null);
+  const [error, setError] = useState("");
+
+  const redirectTo = searchParams.get("redirect") || "/dashboard";
+
+  useEffect(() => {
+    const loadStatus = async () => {
+      try {
+        const res = await fetch("/api/auth/2fa/challenge");
+        const data = await res.json();
+
+        if (!res.ok) {
+          setError(data.error || "Failed to load 2FA status");
+          return;
+        }
+
+        // Nothing left to do for this session
+        if (!data.challengeRequired && !data.enrollmentRequired) {
+          router.replace(redirectTo);
+          return;
+        }
+
+        setStatus(data);
+      } catch {
+        setError("Failed to load 2FA status");
+      }
+    };
+
+    loadStatus();
+  }, [router, redirectTo]);
+
+  const handleDone = () => {
+    router.push(redirectTo);
+    router.refresh();
+  };
+
+  const handleSignOut = async () => {
+    await fetch("/api/auth/2fa/challenge", { method: "DELETE" });
+    await createClient().auth.signOut();
+    router.push("/login");
+  };
+
+  const enrolling = status?.enrollmentRequired || (searchParams.get("enroll") === "1" && !status?.enrolled);
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-8 bg-background">
+      <div className="w-full max-w-md space-y-8 animate-fade-in">
+        <div className="flex items-center justify-center">
+          <Image
+            src="/logo.png"
+            alt="Kalyxi"
+            width={150}
+            height={45}
+            className="h-10 w-auto object-contain"
+            priority
+          />
+        </div>
+
+        <div className="text-center">
+          <h2 className="text-3xl font-bold tracking-tight">
+            {enrolling ? "Set up two-factor authentication" : "Two-factor authentication"}
+          </h2>
+          <p className="mt-2 text-muted-foreground">
+            {enrolling
+              ? "Your organization requires an authenticator app for every member"
+              : "One more step to verify it's you"}
+          </p>
+        </div>
+
+        {error ? (
+          <div className="flex items-center gap-3 rounded-xl bg-red-500/10 border border-red-500/20 p-4 text-sm text-red-600">
+            <AlertCircle className="h-5 w-5 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        ) : !status ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : enrolling ? (
+          <TwoFactorSetup enabled={false} onStatusChange={(enabled) => enabled && handleDone()} />
+        ) : (
+          <TwoFactorChallenge onVerified={handleDone} />
+        )}
+
+        <p className="text-center text-sm text-muted-foreground">
+          Not you?{" "}
+          <button
+            type="button"
+            onClick={handleSignOut}
+            className="font-semibold text-primary hover:text-primary/80 transition-colors"
+          >
+            Sign out
+          </button>
+        </p>
+      </div>
+    </div>
+  );
+}
+
+function TwoFactorFallback() {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background">
+      <Loader2 className="h-6 w-6 animate-spin text-primary" />
+    </div>
+  );
+}
+
+export default function TwoFactorPage() {
+  return (
+    <Suspense fallback={<TwoFactorFallback />}>
+      <TwoFactorGate />
+    </Suspense>
+  );
+}
@@ -30,11 +30,13 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { formatDuration, formatDateTime, getScoreColor } from "@/lib/utils";
+import { cn, formatDuration, formatDateTime, getScoreColor } from "@/lib/utils";
 import { useAuth } from "@/components/providers/auth-provider";
 import { LinkedSessionsPanel } from "@/components/calls/LinkedSessionsPanel";
 import { CreateSessionFromCallButton } from "@/components/calls/CreateSessionFromCallButton";
+import { ScriptAdherencePanel } from "@/components/calls/ScriptAdherencePanel";
 import type { Call, Analysis } from "@/types";
+import type { ComputedCallMetrics } from "@/types/database";
 
 // Score Ring Component for visual display
 function ScoreRing({ score, size = 120, strokeWidth = 10, label }: { score: number; size?: number; strokeWidth?: number; label: string }) {
@@ -160,6 +162,17 @@ export default function CallDetailPage() {
   const nextSteps = analysis?.next_steps || results?.next_steps || [];
   const criteriaScores = analysis?.criteria_scores || results?.criteria_scores || {};
 
+  // Measured from transcript timestamps; preferred over the model's estimate
+  const computedMetrics = call.metadata?.call_metrics as ComputedCallMetrics | null | undefined;
+  const talkRatio =
+    computedMetrics?.talkRatio != null
+      ? Math.round(computedMetrics.talkRatio * 100)
+      : analysis?.talk_ratio;
+
+  const scriptAdherence = Array.isArray(call.script_adherence)
+    ? call.script_adherence[0]
+    : call.script_adherence;
+
   const callTitle = call.title || call.customer_name || call.customer_company || "Call Details";
   const callDate = call.call_timestamp ? new Date(call.call_timestamp) : new Date(call.created_at);
 
@@ -188,7 +201,7 @@ export default function CallDetailPage() {
                         ? "success"
                         : call.status === "failed"
                         ? "destructive"
-                        : call.status === "processing"
+                        : call.status === "processing" || call.status === "transcribing"
                         ? "secondary"
                         : "warning"
                     }
@@ -297,7 +310,7 @@ export default function CallDetailPage() {
         </Card>
       )}
 
-      {call.status === "pending" || call.status === "processing" ? (
+      {call.status === "pending" || call.status === "transcribing" || call.status === "processing" ? (
         <Card className="border-dashed border-2">
           <CardContent className="flex flex-col items-center justify-center py-16">
             <div className="relative">
@@ -305,10 +318,16 @@ export default function CallDetailPage() {
               <Sparkles className="absolute inset-0 m-auto h-6 w-6 text-indigo-600 animate-pulse" />
             </div>
             <h3 className="mt-6 text-lg font-semibold">
-              {call.status === "pending" ? "Waiting for Analysis" : "AI Analysis in Progress"}
+              {call.status === "pending"
+                ? "Waiting for Analysis"
+                : call.status === "transcribing"
+                ? "Transcribing Recording"
+                : "AI Analysis in Progress"}
             </h3>
             <p className="mt-2 text-sm text-gray-500 text-center max-w-md">
-              Our AI is analyzing this call to extract insights, score performance, and identify opportunities.
+              {call.status === "transcribing"
+                ? "We're converting the uploaded audio into a speaker-labelled transcript. Analysis starts automatically when it's done."
+                : "Our AI is analyzing this call to extract insights, score performance, and identify opportunities."}
             </p>
           </CardContent>
         </Card>
@@ -433,6 +452,11 @@ export default function CallDetailPage() {
               <TabsTrigger value="insights" className="data-[state=active]:bg-white data-[state=active]:shadow-sm rounded-md px-6">
                 AI Insights
               </TabsTrigger>
+              {scriptAdherence && (
+                <TabsTrigger value="script" className="data-[state=active]:bg-white data-[state=active]:shadow-sm rounded-md px-6">
+                  Script
+                </TabsTrigger>
+              )}
               <TabsTrigger value="notes" className="data-[state=active]:bg-white data-[state=active]:shadow-sm rounded-md px-6">
                 Call Notes
               </TabsTrigger>
@@ -634,7 +658,7 @@ export default function CallDetailPage() {
                     </CardTitle>
                   </CardHeader>
                   <CardContent className="p-6">
-                    {analysis?.talk_ratio !== undefined ? (
+                    {talkRatio !== undefined ? (
                       <div className="space-y-4">
                         <div className="flex items-center justify-between text-sm">
                           <span className="font-medium">Sales Rep</span>
@@ -643,25 +667,25 @@ export default function CallDetailPage() {
                         <div className="relative h-4 bg-gray-100 rounded-full overflow-hidden">
                           <div
                             className="absolute inset-y-0 left-0 bg-indigo-500 rounded-l-full"
-                            style={{ width: `${analysis.talk_ratio}%` }}
+                            style={{ width: `${talkRatio}%` }}
                           />
                           <div
                             className="absolute inset-y-0 right-0 bg-emerald-500 rounded-r-full"
-                            style={{ width: `${100 - analysis.talk_ratio}%` }}
+                            style={{ width: `${100 - talkRatio}%` }}
                           />
                         </div>
                         <div className="flex items-center justify-between text-sm">
-                          <span className="text-indigo-600 font-semibold">{analysis.talk_ratio}%</span>
-                          <span className="text-emerald-600 font-semibold">{100 - analysis.talk_ratio}%</span>
+                          <span className="text-indigo-600 font-semibold">{talkRatio}%</span>
+                          <span className="text-emerald-600 font-semibold">{100 - talkRatio}%</span>
                         </div>
                         <div className={`p-3 rounded-lg text-sm ${
-                          analysis.talk_ratio > 60 ? "bg-amber-50 text-amber-700" :
-                          analysis.talk_ratio < 40 ? "bg-green-50 text-green-700" :
+                          talkRatio > 60 ? "bg-amber-50 text-amber-700" :
+                          talkRatio < 40 ? "bg-green-50 text-green-700" :
                           "bg-blue-50 text-blue-700"
                         }`}>
-                          {analysis.talk_ratio > 60
+                          {talkRatio > 60
                             ? "Tip: Consider letting the customer speak more to uncover their needs"
-                            : analysis.talk_ratio < 40
+                            : talkRatio < 40
                             ? "Great job! Customer engagement is high"
                             : "Well-balanced conversation with good engagement"}
                         </div>
@@ -672,6 +696,106 @@ export default function CallDetailPage() {
                   </CardContent>
                 </Card>
 
+                {/* Measured Call Metrics */}
+                {computedMetrics && (
+                  <Card className="lg:col-span-2 overflow-hidden">
+                    <CardHeader className="bg-gradient-to-r from-indigo-50 to-sky-50 border-b">
+                      <CardTitle className="flex items-center gap-2 text-base">
+                        <Clock className="h-5 w-5 text-indigo-600" />
+                        Call Metrics
+                        <Badge variant="outline" className="ml-2 text-xs font-normal">
+                          Measured from transcript
+                        </Badge>
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="p-6 space-y-6">
+                      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                        <div className="p-4 rounded-xl bg-gray-50 border border-gray-100">
+                          <div className="text-xs text-gray-500 mb-1">Longest Monologue</div>
+                          <div className="font-semibold">
+                            {formatDuration(Math.round(computedMetrics.longestMonologueSeconds))}
+                          </div>
+                        </div>
+                        <div className="p-4 rounded-xl bg-gray-50 border border-gray-100">
+                          <div className="text-xs text-gray-500 mb-1">Interruptions</div>
+                          <div className="font-semibold">{computedMetrics.interruptionCount}</div>
+                        </div>
+                        <div className="p-4 rounded-xl bg-gray-50 border border-gray-100">
+                          <div className="text-xs text-gray-500 mb-1">Silent Gaps</div>
+                          <div className="font-semibold">
+                            {computedMetrics.gapCount} ({formatDuration(Math.round(computedMetrics.silenceDuration))})
+                          </div>
+                        </div>
+                        <div className="p-4 rounded-xl bg-gray-50 border border-gray-100">
+                          <div className="text-xs text-gray-500 mb-1">Pace</div>
+                          <div className="font-semibold">{computedMetrics.wordsPerMinute} wpm</div>
+                        </div>
+                      </div>
+
+                      {computedMetrics.sentimentProgression && computedMetrics.sentimentProgression.length > 1 && (
+                        <div>
+                          <div className="text-xs text-gray-500 mb-2">Sentiment Over the Call</div>
+                          <div className="flex items-center gap-1 h-12">
+                            {computedMetrics.sentimentProgression.map((point) => (
+                              <div
+                                key={point.timestamp}
+                                className="flex-1 flex flex-col justify-center h-full"
+                                title={`${formatDuration(point.timestamp)}: ${point.sentiment > 0 ? "+" : ""}${point.sentiment}`}
+                              >
+                                <div
+                                  className={cn(
+                                    "rounded-sm mx-auto w-full",
+                                    point.sentiment > 0
+                                      ? "bg-green-400"
+                                      : point.sentiment < 0
+                                        ? "bg-red-400"
+                                        : "bg-gray-200"
+                                  )}
+                                  style={{ height: `${Math.max(8, Math.abs(point.sentiment) * 100)}%` }}
+                                />
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+
+                      <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr className="text-left text-xs text-gray-500 border-b">
+                              <th className="py-2 pr-4 font-medium">Speaker</th>
+                              <th className="py-2 pr-4 font-medium">Talk Time</th>
+                              <th className="py-2 pr-4 font-medium">Questions</th>
+                              <th className="py-2 pr-4 font-medium">Longest Monologue</th>
+                              <th className="py-2 pr-4 font-medium">Interruptions</th>
+                              <th className="py-2 font-medium">Pace</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {computedMetrics.speakers.map((speaker) => (
+                              <tr key={speaker.speaker} className="border-b last:border-0">
+                                <td className="py-2 pr-4 font-medium">
+                                  {speaker.name}
+                                  {speaker.isRep && (
+                                    <Badge variant="secondary" className="ml-2 text-xs">Rep</Badge>
+                                  )}
+                                </td>
+                                <td className="py-2 pr-4">
+                                  {Math.round(speaker.talkRatio * 100)}% ({formatDuration(Math.round(speaker.talkTimeSeconds))})
+                                </td>
+                                <td className="py-2 pr-4">{speaker.questionCount}</td>
+                                <td className="py-2 pr-4">{formatDuration(Math.round(speaker.longestMonologueSeconds))}</td>
+                                <td className="py-2 pr-4">{speaker.interruptions}</td>
+                                <td className="py-2">{speaker.wordsPerMinute} wpm</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
+
                 {/* Key Indicators */}
                 <Card className="overflow-hidden">
                   <CardHeader className="bg-gradient-to-r from-purple-50 to-pink-50 border-b">
@@ -739,6 +863,12 @@ export default function CallDetailPage() {
               </div>
             </TabsContent>
 
+            {scriptAdherence && (
+              <TabsContent value="script" className="animate-fade-in">
+                <ScriptAdherencePanel adherence={scriptAdherence} />
+              </TabsContent>
+            )}
+
             <TabsContent value="notes" className="animate-fade-in">
               <Card className="overflow-hidden">
                 <CardHeader className="bg-gray-50 border-b flex flex-row items-center justify-between">
@@ -780,7 +910,7 @@ export default function CallDetailPage() {
       )}
 
       {/* Show LinkedSessionsPanel even for non-analyzed calls */}
-      {(call.status === "pending" || call.status === "processing" || call.status === "failed") && (
+      {(call.status === "pending" || call.status === "transcribing" || call.status === "processing" || call.status === "failed") && (
         <LinkedSessionsPanel
           callId={call.id}
           callerId={call.caller?.id}
@@ -47,6 +47,7 @@ const statusFilters = [
   { value: "all", label: "All Calls" },
   { value: "analyzed", label: "Analyzed" },
   { value: "pending", label: "Pending" },
+  { value: "transcribing", label: "Transcribing" },
   { value: "processing", label: "Processing" },
   { value: "failed", label: "Failed" },
 ];
@@ -155,6 +156,7 @@ export default function CallsPage() {
   const getStatusColor = (status: string) => {
     switch (status) {
       case "analyzed": return "success";
+      case "transcribing":
       case "processing": return "warning";
       case "failed": return "destructive";
       default: return "secondary";
@@ -320,6 +322,7 @@ export default function CallsPage() {
                     "h-2 w-2 rounded-full",
                     status.value === "analyzed" && "bg-emerald-500",
                     status.value === "pending" && "bg-gray-400",
+                    status.value === "transcribing" && "bg-sky-500 animate-pulse",
                     status.value === "processing" && "bg-amber-500 animate-pulse",
                     status.value === "failed" && "bg-red-500"
                   )}
@@ -444,7 +447,7 @@ export default function CallsPage() {
                             )}
                           </td>
                           <td className="p-4">
-                            <Badge variant={getStatusColor(call.status) as "success" | "warning" | "destructive" | "secondary"} dot pulse={call.status === "processing"}>
+                            <Badge variant={getStatusColor(call.status) as "success" | "warning" | "destructive" | "secondary"} dot pulse={call.status === "processing" || call.status === "transcribing"}>
                               {call.status}
                             </Badge>
                           </td>
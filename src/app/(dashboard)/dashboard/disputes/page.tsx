@@ -0,0 +1,193 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { format, parseISO } from "date-fns";
+import { AlertTriangle, Loader2, Scale } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import type { DisputeSlaStatus, DisputeSlaSummary } from "@/lib/disputes";
+
+interface OpenDispute {
+  id: string;
+  disputed_at: string | null;
+  dispute_reason: string | null;
+  disputed_criteria_ids: string[] | null;
+  percentage_score: number | null;
+  templates: { id: string; name: string } | null;
+  coach: { id: string; name: string } | null;
+  agent: { id: string; name: string } | null;
+  age_hours: number;
+  sla_status: DisputeSlaStatus;
+  sla_due_at: string;
+}
+
+interface DisputesResponse {
+  disputes: OpenDispute[];
+  summary: DisputeSlaSummary;
+  sla_hours: number;
+}
+
+const SLA_BADGES: Record<
+  DisputeSlaStatus,
+  { label: string; variant: "success" | "warning" | "destructive" }
+> = {
+  on_track: { label: "On track", variant: "success" },
+  at_risk: { label: "At risk", variant: "warning" },
+  breached: { label: "SLA breached", variant: "destructive" },
+};
+
+function formatAge(hours: number): string {
+  if (hours < 1) return "under an hour";
+  if (hours < 48) return `${Math.floor(hours)}h`;
+  return `${Math.floor(hours / 24)}d ${Math.floor(hours % 24)}h`;
+}
+
+export default function DisputesPage() {
+  const [data, setData] = useState<DisputesResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchDisputes = async () => {
+      try {
+        const res = await fetch("/api/sessions/disputes");
+        const body = await res.json();
+
+        if (!res.ok) {
+          setError(body.error || "Failed to load disputes");
+          return;
+        }
+
+        setData(body.data);
+      } catch {
+        setError("Failed to load disputes");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchDisputes();
+  }, []);
+
+  const summary = data?.summary;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Disputes</h1>
+        <p className="text-gray-500">
+          Open score disputes, oldest first{data ? ` · resolve within ${data.sla_hours} hours` : ""}
+        </p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : (
+        data &&
+        summary && (
+          <>
+            <div className="grid gap-4 md:grid-cols-4">
+              {[
+                { label: "Open", value: summary.open },
+                { label: "On track", value: summary.onTrack },
+                { label: "At risk", value: summary.atRisk },
+                { label: "Breached", value: summary.breached },
+              ].map((stat) => (
+                <Card key={stat.label}>
+                  <CardContent className="p-4">
+                    <p className="text-sm text-muted-foreground">{stat.label}</p>
+                    <p className="text-2xl font-semibold">{stat.value}</p>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base">By age</CardTitle>
+                <CardDescription>
+                  {summary.oldestHours !== null
+                    ? `Oldest open dispute: ${formatAge(summary.oldestHours)}`
+                    : "No open disputes"}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+                  {summary.buckets.map((bucket) => (
+                    <div key={bucket.label} className="rounded-lg border p-3">
+                      <p className="text-xs text-muted-foreground">{bucket.label}</p>
+                      <p className="text-lg font-semibold">{bucket.count}</p>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+
+            {data.disputes.length === 0 ? (
+              <Card>
+                <CardContent className="py-12 text-center text-sm text-muted-foreground">
+                  <Scale className="h-8 w-8 mx-auto mb-3 text-muted-foreground" />
+                  Nothing is disputed right now.
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="space-y-3">
+                {data.disputes.map((dispute) => {
+                  const badge = SLA_BADGES[dispute.sla_status];
+                  const criteriaCount = dispute.disputed_criteria_ids?.length || 0;
+
+                  return (
+                    <Link key={dispute.id} href={`/dashboard/sessions/${dispute.id}`} className="block">
+                      <Card className="hover:border-primary/50 transition-colors">
+                        <CardContent className="p-4 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                          <div className="min-w-0">
+                            <p className="font-medium">
+                              {dispute.templates?.name || "Scoring session"}
+                              {dispute.agent && (
+                                <span className="text-muted-foreground font-normal"> · {dispute.agent.name}</span>
+                              )}
+                            </p>
+                            {dispute.dispute_reason && (
+                              <p className="text-sm text-muted-foreground truncate">{dispute.dispute_reason}</p>
+                            )}
+                            <p className="text-xs text-muted-foreground mt-1">
+                              Coach: {dispute.coach?.name || "Unassigned"} ·{" "}
+                              {criteriaCount > 0
+                                ? `${criteriaCount} ${criteriaCount === 1 ? "criterion" : "criteria"} disputed`
+                                : "Whole session disputed"}
+                              {dispute.percentage_score !== null &&
+                                ` · Score ${Math.round(dispute.percentage_score)}%`}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-3 flex-shrink-0">
+                            <span className="text-sm text-muted-foreground">
+                              Open {formatAge(dispute.age_hours)}
+                              {dispute.sla_status !== "breached" &&
+                                ` · due ${format(parseISO(dispute.sla_due_at), "MMM d, h:mm a")}`}
+                            </span>
+                            <Badge variant={badge.variant}>{badge.label}</Badge>
+                          </div>
+                        </CardContent>
+                      </Card>
+                    </Link>
+                  );
+                })}
+              </div>
+            )}
+          </>
+        )
+      )}
+    </div>
+  );
+}
@@ -18,7 +18,7 @@ import {
   ExternalLink,
   Chrome,
 } from "lucide-react";
-import { CalendarSyncSection } from "@/components/google";
+import { CalendarSyncSection, MicrosoftConnectionsCard, ZoomConnectionCard } from "@/components/google";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -59,6 +59,7 @@ export default function GoogleConnectionsPage() {
   const [showToken, setShowToken] = useState(false);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [microsoftConnectionCount, setMicrosoftConnectionCount] = useState(0);
 
   // Handle OAuth callback messages
   useEffect(() => {
@@ -258,9 +259,9 @@ export default function GoogleConnectionsPage() {
     <div className="animate-fade-in max-w-4xl">
       {/* Header */}
       <div className="mb-8">
-        <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">Google Integration</h1>
+        <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">Calendar &amp; Meeting Integrations</h1>
         <p className="text-muted-foreground mt-1">
-          Connect your Google account to sync calendar events and meeting transcripts
+          Connect Google, Microsoft or Zoom to sync calendar events and meeting transcripts
         </p>
       </div>
 
@@ -380,9 +381,20 @@ export default function GoogleConnectionsPage() {
         </CardContent>
       </Card>
 
+      {/* Microsoft Connections Card */}
+      <MicrosoftConnectionsCard
+        onConnectionsChange={setMicrosoftConnectionCount}
+        onSuccess={setSuccessMessage}
+        onError={setErrorMessage}
+      />
+
+      {/* Zoom Connection Card */}
+      <ZoomConnectionCard onSuccess={setSuccessMessage} onError={setErrorMessage} />
+
       {/* Calendar Sync Section */}
       <CalendarSyncSection
         hasConnection={connections.length > 0}
+        hasMicrosoftConnection={microsoftConnectionCount > 0}
         onSuccess={setSuccessMessage}
         onError={setErrorMessage}
       />
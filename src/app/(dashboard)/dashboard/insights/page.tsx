@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import Link from "next/link";
 import {
   Lightbulb,
@@ -19,6 +19,10 @@ import {
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { useAuth } from "@/components/providers/auth-provider";
+import GeneratedInsightsSection, {
+  type GeneratedInsight,
+} from "@/components/dashboard/GeneratedInsightsSection";
 import type { Insight } from "@/types";
 
 // Insight type configuration - matches API response types
@@ -68,28 +72,31 @@ const INSIGHT_CONFIG = {
 type InsightType = keyof typeof INSIGHT_CONFIG;
 
 export default function InsightsPage() {
+  const { isAdmin } = useAuth();
   const [insights, setInsights] = useState<Insight[]>([]);
+  const [generated, setGenerated] = useState<GeneratedInsight[]>([]);
   const [loading, setLoading] = useState(true);
   const [filter, setFilter] = useState<InsightType | "all">("all");
   const [sortBy, setSortBy] = useState<"recent" | "importance">("importance");
 
-  useEffect(() => {
-    async function fetchInsights() {
-      try {
-        const response = await fetch("/api/insights");
-        if (response.ok) {
-          const data = await response.json();
-          setInsights(data.insights || []);
-        }
-      } catch (error) {
-        console.error("Failed to fetch insights:", error);
-      } finally {
-        setLoading(false);
+  const fetchInsights = useCallback(async () => {
+    try {
+      const response = await fetch("/api/insights");
+      if (response.ok) {
+        const data = await response.json();
+        setInsights(data.insights || []);
+        setGenerated(data.generated || []);
       }
+    } catch (error) {
+      console.error("Failed to fetch insights:", error);
+    } finally {
+      setLoading(false);
     }
+  }, []);
 
+  useEffect(() => {
     fetchInsights();
-  }, []);
+  }, [fetchInsights]);
 
   const getImportanceColor = (importance: string) => {
     switch (importance) {
@@ -221,8 +228,14 @@ export default function InsightsPage() {
         ))}
       </div>
 
+      <GeneratedInsightsSection
+        insights={generated}
+        canRegenerate={isAdmin}
+        onRegenerated={fetchInsights}
+      />
+
       {/* Content */}
-      {insights.length === 0 ? (
+      {insights.length === 0 && generated.length === 0 ? (
         <Card className="border-dashed border-2">
           <CardContent className="flex flex-col items-center justify-center py-16">
             <div className="relative">
@@ -243,7 +256,7 @@ export default function InsightsPage() {
             </Link>
           </CardContent>
         </Card>
-      ) : filteredInsights.length === 0 ? (
+      ) : insights.length === 0 ? null : filteredInsights.length === 0 ? (
         <Card className="border-dashed border-2">
           <CardContent className="flex flex-col items-center justify-center py-12">
             <Filter className="h-12 w-12 text-gray-300" />
@@ -1,41 +1,241 @@
 "use client";
 
-import { useState } from "react";
-import { FileText, Download, Calendar, Filter } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+import { format, subDays } from "date-fns";
+import {
+  AlertTriangle,
+  Download,
+  FileSpreadsheet,
+  FileText,
+  Loader2,
+  Trash2,
+  Users,
+  User,
+  ClipboardList,
+} from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/components/providers/auth-provider";
+import { ReportSchedules } from "@/components/reports/ReportSchedules";
+import { cn } from "@/lib/utils";
+import type { ReportExport, ReportFormat, ReportType } from "@/types/database";
 
-interface Report {
+interface ReportRow extends ReportExport {
+  creator?: { id: string; name: string | null; email: string } | null;
+}
+
+interface Option {
   id: string;
   name: string;
-  type: string;
-  generatedAt: string;
-  status: "ready" | "generating";
+}
+
+const REPORT_OPTIONS: { type: ReportType; title: string; description: string; icon: typeof Users }[] = [
+  {
+    type: "team_performance",
+    title: "Team Performance",
+    description: "Scores, pass rates and auto-fails for every agent, plus AI call scores",
+    icon: Users,
+  },
+  {
+    type: "caller",
+    title: "Caller Report",
+    description: "One agent's sessions, criteria averages and AI-scored calls",
+    icon: User,
+  },
+  {
+    type: "template",
+    title: "Template Report",
+    description: "How agents perform against one scoring template, criterion by criterion",
+    icon: ClipboardList,
+  },
+];
+
+const FORMAT_LABELS: Record<ReportFormat, string> = {
+  pdf: "PDF",
+  csv: "CSV",
+  xlsx: "Excel (XLSX)",
+};
+
+function formatBytes(bytes: number | null): string {
+  if (!bytes) return "";
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 }
 
 export default function ReportsPage() {
-  const [reports] = useState<Report[]>([
-    {
-      id: "1",
-      name: "Weekly Performance Summary",
-      type: "performance",
-      generatedAt: "2024-01-15",
-      status: "ready",
-    },
-    {
-      id: "2",
-      name: "Monthly Call Analysis",
-      type: "analysis",
-      generatedAt: "2024-01-01",
-      status: "ready",
-    },
-  ]);
-
-  const handleGenerateReport = (type: string) => {
-    alert(`Generating ${type} report...`);
+  const { isAdmin } = useAuth();
+
+  const [reports, setReports] = useState<ReportRow[]>([]);
+  const [exportEnabled, setExportEnabled] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [agents, setAgents] = useState<Option[]>([]);
+  const [templates, setTemplates] = useState<Option[]>([]);
+
+  // Generator form
+  const [reportType, setReportType] = useState<ReportType>("team_performance");
+  const [reportFormat, setReportFormat] = useState<ReportFormat>("pdf");
+  const [dateFrom, setDateFrom] = useState(format(subDays(new Date(), 30), "yyyy-MM-dd"));
+  const [dateTo, setDateTo] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [agentId, setAgentId] = useState("");
+  const [templateId, setTemplateId] = useState("all");
+  const [generating, setGenerating] = useState(false);
+
+  const fetchReports = useCallback(async () => {
+    try {
+      const res = await fetch("/api/reports?pageSize=50");
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || "Failed to load reports");
+        return;
+      }
+
+      setReports(data.data || []);
+      setExportEnabled(data.exportEnabled);
+    } catch {
+      setError("Failed to load reports");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isAdmin) {
+      setLoading(false);
+      return;
+    }
+
+    fetchReports();
+
+    const fetchOptions = async () => {
+      try {
+        const [teamRes, templatesRes] = await Promise.all([
+          fetch("/api/team?pageSize=100"),
+          fetch("/api/templates?pageSize=100"),
+        ]);
+        if (teamRes.ok) {
+          const data = await teamRes.json();
+          setAgents(
+            (data.data || []).map((m: { id: string; name: string | null; email: string }) => ({
+              id: m.id,
+              name: m.name || m.email,
+            }))
+          );
+        }
+        if (templatesRes.ok) {
+          const data = await templatesRes.json();
+          setTemplates((data.data || []).map((t: Option) => ({ id: t.id, name: t.name })));
+        }
+      } catch (fetchError) {
+        console.error("Error fetching report options:", fetchError);
+      }
+    };
+
+    fetchOptions();
+  }, [isAdmin, fetchReports]);
+
+  const handleGenerateReport = async () => {
+    setGenerating(true);
+    setError(null);
+
+    try {
+      const res = await fetch("/api/reports", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          type: reportType,
+          format: reportFormat,
+          date_from: dateFrom,
+          date_to: dateTo,
+          ...(reportType === "caller" && agentId && { agent_id: agentId }),
+          ...(templateId !== "all" && { template_id: templateId }),
+        }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || "Failed to generate report");
+      }
+
+      await fetchReports();
+    } catch {
+      setError("Failed to generate report");
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleDownload = async (report: ReportRow) => {
+    setError(null);
+    try {
+      const res = await fetch(`/api/reports/${report.id}/download`);
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || "Failed to download report");
+        return;
+      }
+
+      window.location.href = data.data.url;
+    } catch {
+      setError("Failed to download report");
+    }
+  };
+
+  const handleDelete = async (report: ReportRow) => {
+    if (!confirm(`Delete "${report.name}"?`)) return;
+
+    try {
+      const res = await fetch(`/api/reports/${report.id}`, { method: "DELETE" });
+      if (!res.ok) {
+        const data = await res.json();
+        setError(data.error || "Failed to delete report");
+        return;
+      }
+      setReports((prev) => prev.filter((r) => r.id !== report.id));
+    } catch {
+      setError("Failed to delete report");
+    }
   };
 
+  const canGenerate =
+    exportEnabled &&
+    !generating &&
+    !!dateFrom &&
+    !!dateTo &&
+    (reportType !== "caller" || !!agentId) &&
+    (reportType !== "template" || templateId !== "all");
+
+  if (!isAdmin) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold">Reports</h1>
+          <p className="text-gray-500">Generate and download detailed reports</p>
+        </div>
+        <Card>
+          <CardContent className="py-12 text-center text-sm text-muted-foreground">
+            Reports are available to organization admins.
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6">
       <div>
@@ -43,110 +243,194 @@ export default function ReportsPage() {
         <p className="text-gray-500">Generate and download detailed reports</p>
       </div>
 
-      <div className="grid gap-4 md:grid-cols-3">
-        <Card className="cursor-pointer transition-shadow hover:shadow-lg">
-          <CardHeader>
-            <CardTitle className="text-lg">Performance Report</CardTitle>
-            <CardDescription>
-              Overall team performance metrics and trends
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <Button
-              className="w-full gap-2"
-              onClick={() => handleGenerateReport("performance")}
-            >
-              <FileText className="h-4 w-4 flex-shrink-0" />
-              <span>Generate Report</span>
-            </Button>
-          </CardContent>
-        </Card>
-
-        <Card className="cursor-pointer transition-shadow hover:shadow-lg">
-          <CardHeader>
-            <CardTitle className="text-lg">Call Analysis Report</CardTitle>
-            <CardDescription>
-              Detailed analysis of all calls in a period
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <Button
-              className="w-full gap-2"
-              onClick={() => handleGenerateReport("analysis")}
-            >
-              <FileText className="h-4 w-4 flex-shrink-0" />
-              <span>Generate Report</span>
-            </Button>
-          </CardContent>
-        </Card>
+      {!exportEnabled && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Report export not included</AlertTitle>
+          <AlertDescription>
+            Upgrade to the Starter plan or above to generate and download reports.
+          </AlertDescription>
+        </Alert>
+      )}
 
-        <Card className="cursor-pointer transition-shadow hover:shadow-lg">
-          <CardHeader>
-            <CardTitle className="text-lg">Insights Summary</CardTitle>
-            <CardDescription>
-              AI-generated insights and recommendations
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <Button
-              className="w-full gap-2"
-              onClick={() => handleGenerateReport("insights")}
-            >
-              <FileText className="h-4 w-4 flex-shrink-0" />
-              <span>Generate Report</span>
-            </Button>
-          </CardContent>
-        </Card>
+      <div className="grid gap-4 md:grid-cols-3">
+        {REPORT_OPTIONS.map((option) => (
+          <Card
+            key={option.type}
+            onClick={() => setReportType(option.type)}
+            className={cn(
+              "cursor-pointer transition-shadow hover:shadow-lg",
+              reportType === option.type && "ring-2 ring-primary"
+            )}
+          >
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <option.icon className="h-5 w-5 flex-shrink-0 text-primary" />
+                {option.title}
+              </CardTitle>
+              <CardDescription>{option.description}</CardDescription>
+            </CardHeader>
+          </Card>
+        ))}
       </div>
 
       <Card>
         <CardHeader>
-          <div className="flex items-center justify-between">
-            <CardTitle>Generated Reports</CardTitle>
-            <div className="flex items-center gap-2">
-              <Button variant="outline" size="sm" className="gap-2">
-                <Calendar className="h-4 w-4 flex-shrink-0" />
-                <span>Date Range</span>
-              </Button>
-              <Button variant="outline" size="sm" className="gap-2">
-                <Filter className="h-4 w-4 flex-shrink-0" />
-                <span>Filter</span>
-              </Button>
+          <CardTitle>Generate Report</CardTitle>
+          <CardDescription>Sessions are included by the date they were created</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-4">
+            <div className="space-y-2">
+              <Label htmlFor="dateFrom">From</Label>
+              <Input id="dateFrom" type="date" value={dateFrom} max={dateTo} onChange={(e) => setDateFrom(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="dateTo">To</Label>
+              <Input id="dateTo" type="date" value={dateTo} min={dateFrom} onChange={(e) => setDateTo(e.target.value)} />
+            </div>
+
+            {reportType === "caller" && (
+              <div className="space-y-2">
+                <Label>Caller</Label>
+                <Select value={agentId} onValueChange={setAgentId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a caller" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {agents.map((agent) => (
+                      <SelectItem key={agent.id} value={agent.id}>
+                        {agent.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>Template</Label>
+              <Select value={templateId} onValueChange={setTemplateId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a template" />
+                </SelectTrigger>
+                <SelectContent>
+                  {reportType !== "template" && <SelectItem value="all">All templates</SelectItem>}
+                  {templates.map((template) => (
+                    <SelectItem key={template.id} value={template.id}>
+                      {template.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
+
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <Select value={reportFormat} onValueChange={(value) => setReportFormat(value as ReportFormat)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(FORMAT_LABELS) as ReportFormat[]).map((f) => (
+                    <SelectItem key={f} value={f}>
+                      {FORMAT_LABELS[f]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {error && (
+            <div className="flex items-center gap-2 text-sm text-red-600">
+              <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <Button className="gap-2" onClick={handleGenerateReport} disabled={!canGenerate}>
+              {generating ? (
+                <Loader2 className="h-4 w-4 flex-shrink-0 animate-spin" />
+              ) : (
+                <FileText className="h-4 w-4 flex-shrink-0" />
+              )}
+              <span>{generating ? "Generating..." : "Generate Report"}</span>
+            </Button>
           </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Generated Reports</CardTitle>
         </CardHeader>
         <CardContent>
-          {reports.length > 0 ? (
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : reports.length > 0 ? (
             <div className="space-y-4">
-              {reports.map((report) => (
-                <div
-                  key={report.id}
-                  className="flex items-center justify-between rounded-lg border p-4"
-                >
-                  <div className="flex items-center gap-4">
-                    <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-indigo-100">
-                      <FileText className="h-5 w-5 text-indigo-600" />
+              {reports.map((report) => {
+                const Icon = report.format === "pdf" ? FileText : FileSpreadsheet;
+                return (
+                  <div
+                    key={report.id}
+                    className="flex items-center justify-between gap-4 rounded-lg border p-4"
+                  >
+                    <div className="flex min-w-0 items-center gap-4">
+                      <div className="flex h-10 w-10 flex-shrink-0 items-center justify-center rounded-lg bg-indigo-100">
+                        <Icon className="h-5 w-5 text-indigo-600" />
+                      </div>
+                      <div className="min-w-0">
+                        <p className="truncate font-medium">{report.name}</p>
+                        <p className="text-sm text-gray-500">
+                          {report.format.toUpperCase()}
+                          {report.file_size ? ` · ${formatBytes(report.file_size)}` : ""}
+                          {" · "}Generated {format(new Date(report.created_at), "MMM d, yyyy HH:mm")}
+                          {report.creator ? ` by ${report.creator.name || report.creator.email}` : " on schedule"}
+                        </p>
+                        {report.status === "failed" && report.error_message && (
+                          <p className="text-sm text-red-600">{report.error_message}</p>
+                        )}
+                      </div>
                     </div>
-                    <div>
-                      <p className="font-medium">{report.name}</p>
-                      <p className="text-sm text-gray-500">
-                        Generated on {report.generatedAt}
-                      </p>
+                    <div className="flex flex-shrink-0 items-center gap-3">
+                      <Badge
+                        variant={
+                          report.status === "ready"
+                            ? "success"
+                            : report.status === "failed"
+                              ? "destructive"
+                              : "secondary"
+                        }
+                      >
+                        {report.status}
+                      </Badge>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="gap-2"
+                        disabled={report.status !== "ready" || !exportEnabled}
+                        onClick={() => handleDownload(report)}
+                      >
+                        <Download className="h-4 w-4 flex-shrink-0" />
+                        <span>Download</span>
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(report)}
+                        className="text-red-500 hover:bg-red-500/10 hover:text-red-600"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
                     </div>
                   </div>
-                  <div className="flex items-center gap-3">
-                    <Badge
-                      variant={report.status === "ready" ? "success" : "secondary"}
-                    >
-                      {report.status}
-                    </Badge>
-                    <Button variant="outline" size="sm" className="gap-2" disabled={report.status !== "ready"}>
-                      <Download className="h-4 w-4 flex-shrink-0" />
-                      <span>Download</span>
-                    </Button>
-                  </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
           ) : (
             <div className="flex flex-col items-center justify-center py-12 text-center">
@@ -159,6 +443,8 @@ export default function ReportsPage() {
           )}
         </CardContent>
       </Card>
+
+      <ReportSchedules agents={agents} templates={templates} exportEnabled={exportEnabled} />
     </div>
   );
 }
@@ -37,6 +37,7 @@ import {
 import ScoringInterface from "@/components/sessions/ScoringInterface";
 import ScoreSummary from "@/components/sessions/ScoreSummary";
 import { CallContextPanel } from "@/components/sessions/CallContextPanel";
+import DisputeResolutionPanel from "@/components/sessions/DisputeResolutionPanel";
 
 interface SessionWithRelations extends Session {
   template?: Template;
@@ -87,7 +88,7 @@ export default function SessionPage() {
   const router = useRouter();
   const params = useParams();
   const sessionId = params.id as string;
-  const { user, isAdmin } = useAuth();
+  const { user, role, isAdmin } = useAuth();
 
   const [loading, setLoading] = useState(true);
   const [session, setSession] = useState<SessionWithRelations | null>(null);
@@ -216,6 +217,8 @@ export default function SessionPage() {
     (isCoach || isAdmin) &&
     (session?.status === "pending" || session?.status === "in_progress");
   const isViewOnly = !canScore;
+  const canResolveDispute =
+    (isCoach || isAdmin || role === "manager") && session?.agent_id !== user?.id;
 
   if (loading) {
     return (
@@ -395,6 +398,14 @@ export default function SessionPage() {
 
         {/* Score Summary Sidebar */}
         <div className="lg:sticky lg:top-4 self-start space-y-4">
+          <DisputeResolutionPanel
+            session={session}
+            criteria={criteria}
+            scores={scores}
+            canResolve={canResolveDispute}
+            onResolved={fetchSession}
+          />
+
           <ScoreSummary
             session={session}
             template={template!}
@@ -43,8 +43,12 @@ import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useAuth } from "@/components/providers/auth-provider";
+import { TwoFactorSetup } from "@/components/settings/TwoFactorSetup";
+import { ApiKeysManager } from "@/components/settings/ApiKeysManager";
+import { NotificationSettings } from "@/components/settings/NotificationSettings";
+import { BillingSettings } from "@/components/settings/BillingSettings";
 import { cn } from "@/lib/utils";
-import { Scorecard, Script, InsightTemplate, ScorecardCriterion, ScriptSection } from "@/types/database";
+import { Scorecard, Script, InsightTemplate, ScorecardCriterion, ScriptSection, AIProvider } from "@/types/database";
 
 type SettingsTab = "profile" | "organization" | "billing" | "team" | "scorecard" | "scripts" | "insights" | "security" | "notifications" | "api" | "developer";
 
@@ -65,11 +69,17 @@ const settingsNav: SettingsNavItem[] = [
   { id: "scripts", label: "Scripts", icon: FileText, description: "Sales call scripts", adminOnly: true },
   { id: "insights", label: "Insight Templates", icon: Lightbulb, description: "AI insight configuration", adminOnly: true },
   { id: "security", label: "Security", icon: Shield, description: "Password & security" },
-  { id: "notifications", label: "Notifications", icon: Bell, description: "Email & push notifications" },
+  { id: "notifications", label: "Notifications", icon: Bell, description: "Email alerts & digests" },
   { id: "api", label: "API & Webhooks", icon: Key, description: "Developer settings", adminOnly: true },
   { id: "developer", label: "Demo Data", icon: Database, description: "Generate test data", adminOnly: true },
 ];
 
+const aiProviderOptions: { value: AIProvider; label: string; defaultModel: string; description: string }[] = [
+  { value: "openai", label: "OpenAI", defaultModel: "gpt-4o", description: "Hosted OpenAI models" },
+  { value: "anthropic", label: "Anthropic", defaultModel: "claude-sonnet-4-5", description: "Hosted Claude models" },
+  { value: "local", label: "Self-hosted", defaultModel: "llama3.1", description: "OpenAI-compatible endpoint configured for this deployment" },
+];
+
 export default function SettingsPage() {
   const { profile, organization, isAdmin, refreshProfile } = useAuth();
   const [activeTab, setActiveTab] = useState<SettingsTab>("profile");
@@ -87,10 +97,9 @@ export default function SettingsPage() {
         autoAnalyze: true,
         webhookEnabled: true,
       },
-      notifications: {
-        emailOnAnalysis: true,
-        weeklySummary: false,
-        analysisComplete: true,
+      ai: {
+        provider: "openai" as AIProvider,
+        model: "gpt-4o",
       },
     },
   });
@@ -107,6 +116,20 @@ export default function SettingsPage() {
   const [showScriptModal, setShowScriptModal] = useState(false);
   const [showInsightModal, setShowInsightModal] = useState(false);
 
+  // Team state
+  const [teamMembers, setTeamMembers] = useState<{
+    id: string;
+    name: string | null;
+    email: string;
+    role: string;
+    mfa_enabled?: boolean;
+  }[]>([]);
+
+  // Two-factor state
+  const [mfaStatus, setMfaStatus] = useState<{ enrolled: boolean; required: boolean } | null>(null);
+  const [require2faSaving, setRequire2faSaving] = useState(false);
+  const [require2faError, setRequire2faError] = useState<string | null>(null);
+
   // Demo data state
   const [demoDataStatus, setDemoDataStatus] = useState<{
     enabled: boolean;
@@ -121,6 +144,14 @@ export default function SettingsPage() {
     counts?: Record<string, number>;
   } | null>(null);
 
+  // Deep links such as checkout returns (?tab=billing)
+  useEffect(() => {
+    const tab = new URLSearchParams(window.location.search).get("tab");
+    if (tab && settingsNav.some((item) => item.id === tab)) {
+      setActiveTab(tab as SettingsTab);
+    }
+  }, []);
+
   useEffect(() => {
     if (profile) {
       setProfileData({
@@ -137,10 +168,9 @@ export default function SettingsPage() {
             autoAnalyze: (settings?.features as Record<string, boolean> | undefined)?.autoAnalyze ?? true,
             webhookEnabled: (settings?.features as Record<string, boolean> | undefined)?.webhookEnabled ?? true,
           },
-          notifications: {
-            emailOnAnalysis: (settings?.notifications as Record<string, boolean> | undefined)?.emailOnAnalysis ?? true,
-            weeklySummary: (settings?.notifications as Record<string, boolean> | undefined)?.weeklySummary ?? false,
-            analysisComplete: true,
+          ai: {
+            provider: (settings?.ai as Record<string, string> | undefined)?.provider as AIProvider ?? "openai",
+            model: (settings?.ai as Record<string, string> | undefined)?.model ?? "gpt-4o",
           },
         },
       });
@@ -183,6 +213,42 @@ export default function SettingsPage() {
     }
   }, [isAdmin, activeTab]);
 
+  // Fetch team members
+  useEffect(() => {
+    const fetchTeam = async () => {
+      if (!isAdmin || activeTab !== "team") return;
+      try {
+        const response = await fetch("/api/team?pageSize=100");
+        if (response.ok) {
+          const data = await response.json();
+          setTeamMembers(data.data || []);
+        }
+      } catch (error) {
+        console.error("Failed to fetch team members:", error);
+      }
+    };
+
+    fetchTeam();
+  }, [isAdmin, activeTab]);
+
+  // Fetch 2FA status
+  useEffect(() => {
+    const fetchMfaStatus = async () => {
+      if (activeTab !== "security") return;
+      try {
+        const response = await fetch("/api/auth/2fa/challenge");
+        if (response.ok) {
+          const data = await response.json();
+          setMfaStatus({ enrolled: data.enrolled, required: data.required });
+        }
+      } catch (error) {
+        console.error("Failed to fetch 2FA status:", error);
+      }
+    };
+
+    fetchMfaStatus();
+  }, [activeTab]);
+
   // Fetch demo data status
   useEffect(() => {
     const fetchDemoStatus = async () => {
@@ -430,6 +496,30 @@ export default function SettingsPage() {
     }
   };
 
+  const handleRequire2faChange = async (require2fa: boolean) => {
+    setRequire2faSaving(true);
+    setRequire2faError(null);
+    try {
+      const response = await fetch("/api/organizations/settings", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ settings_json: { security: { require2fa } } }),
+      });
+      if (response.ok) {
+        setMfaStatus((prev) => (prev ? { ...prev, required: require2fa } : prev));
+        await refreshProfile();
+      } else {
+        const data = await response.json();
+        setRequire2faError(data.error || "Failed to update 2FA requirement");
+      }
+    } catch (error) {
+      console.error("Failed to update 2FA requirement:", error);
+      setRequire2faError("Failed to update 2FA requirement");
+    } finally {
+      setRequire2faSaving(false);
+    }
+  };
+
   const handleCopy = (text: string, label: string) => {
     navigator.clipboard.writeText(text);
     // Could use toast here
@@ -628,6 +718,59 @@ export default function SettingsPage() {
                       </div>
                     </div>
 
+                    <div className="space-y-4">
+                      <h3 className="font-semibold flex items-center gap-2">
+                        <Sparkles className="h-4 w-4 text-primary" />
+                        AI Provider
+                      </h3>
+
+                      <div className="grid sm:grid-cols-2 gap-4 pl-6">
+                        <div className="space-y-2">
+                          <Label htmlFor="aiProvider">Provider</Label>
+                          <select
+                            id="aiProvider"
+                            value={orgSettings.settings.ai.provider}
+                            onChange={(e) => {
+                              const option = aiProviderOptions.find((o) => o.value === e.target.value);
+                              if (!option) return;
+                              setOrgSettings((prev) => ({
+                                ...prev,
+                                settings: { ...prev.settings, ai: { provider: option.value, model: option.defaultModel } },
+                              }));
+                            }}
+                            className="w-full h-10 rounded-md border border-input bg-background px-3 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+                          >
+                            {!aiProviderOptions.some((o) => o.value === orgSettings.settings.ai.provider) && (
+                              <option value={orgSettings.settings.ai.provider}>{orgSettings.settings.ai.provider}</option>
+                            )}
+                            {aiProviderOptions.map((option) => (
+                              <option key={option.value} value={option.value}>
+                                {option.label}
+                              </option>
+                            ))}
+                          </select>
+                          <p className="text-xs text-muted-foreground">
+                            {aiProviderOptions.find((o) => o.value === orgSettings.settings.ai.provider)?.description}
+                          </p>
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="aiModel">Model</Label>
+                          <Input
+                            id="aiModel"
+                            value={orgSettings.settings.ai.model}
+                            onChange={(e) =>
+                              setOrgSettings((prev) => ({
+                                ...prev,
+                                settings: { ...prev.settings, ai: { ...prev.settings.ai, model: e.target.value } },
+                              }))
+                            }
+                            placeholder="gpt-4o"
+                          />
+                          <p className="text-xs text-muted-foreground">Used for call analysis</p>
+                        </div>
+                      </div>
+                    </div>
+
                     <Button type="submit" disabled={saving} variant="gradient" className="gap-2">
                       {saved ? <Check className="h-4 w-4 flex-shrink-0" /> : saving ? <RefreshCw className="h-4 w-4 flex-shrink-0 animate-spin" /> : <Save className="h-4 w-4 flex-shrink-0" />}
                       <span>{saved ? "Saved!" : saving ? "Saving..." : "Save Settings"}</span>
@@ -639,60 +782,9 @@ export default function SettingsPage() {
           )}
 
           {/* Billing Tab */}
-          {activeTab === "billing" && isAdmin && (
+          {activeTab === "billing" && isAdmin && organization && (
             <div className="space-y-6 animate-fade-in">
-              <Card className="overflow-hidden">
-                <div className="bg-gradient-to-r from-primary/10 via-indigo-500/10 to-purple-500/10 p-6 border-b">
-                  <div className="flex items-center justify-between">
-                    <div>
-                      <div className="flex items-center gap-2 mb-2">
-                        <Sparkles className="h-5 w-5 text-primary" />
-                        <Badge variant="gradient">Pro Plan</Badge>
-                      </div>
-                      <h3 className="text-2xl font-bold">$49/month</h3>
-                      <p className="text-sm text-muted-foreground mt-1">Unlimited calls, AI analysis, team features</p>
-                    </div>
-                    <Button variant="outline">Manage Plan</Button>
-                  </div>
-                </div>
-                <CardContent className="p-6">
-                  <div className="grid sm:grid-cols-3 gap-4">
-                    <div className="p-4 rounded-xl bg-muted/30 border">
-                      <p className="text-sm text-muted-foreground">Calls This Month</p>
-                      <p className="text-2xl font-bold mt-1">47</p>
-                    </div>
-                    <div className="p-4 rounded-xl bg-muted/30 border">
-                      <p className="text-sm text-muted-foreground">Team Members</p>
-                      <p className="text-2xl font-bold mt-1">5</p>
-                    </div>
-                    <div className="p-4 rounded-xl bg-muted/30 border">
-                      <p className="text-sm text-muted-foreground">Next Billing</p>
-                      <p className="text-2xl font-bold mt-1">Feb 15</p>
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
-
-              <Card>
-                <CardHeader>
-                  <CardTitle>Payment Method</CardTitle>
-                  <CardDescription>Manage your payment information</CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <div className="flex items-center justify-between p-4 rounded-xl border bg-card">
-                    <div className="flex items-center gap-4">
-                      <div className="h-10 w-16 rounded-lg bg-gradient-to-br from-gray-900 to-gray-700 flex items-center justify-center text-white text-xs font-bold">
-                        VISA
-                      </div>
-                      <div>
-                        <p className="font-medium">Visa ending in 4242</p>
-                        <p className="text-sm text-muted-foreground">Expires 12/2025</p>
-                      </div>
-                    </div>
-                    <Button variant="outline" size="sm">Update</Button>
-                  </div>
-                </CardContent>
-              </Card>
+              <BillingSettings orgId={organization.id} />
             </div>
           )}
 
@@ -712,10 +804,11 @@ export default function SettingsPage() {
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-3">
-                    {[
-                      { name: profile?.name || "You", email: profile?.email, role: profile?.role || "admin", avatar: null },
-                    ].map((member, index) => (
-                      <div key={index} className="flex items-center justify-between p-4 rounded-xl border bg-card hover:bg-muted/30 transition-colors">
+                    {(teamMembers.length > 0
+                      ? teamMembers
+                      : [{ id: profile?.id || "me", name: profile?.name || "You", email: profile?.email || "", role: profile?.role || "admin" }]
+                    ).map((member, index) => (
+                      <div key={member.id} className="flex items-center justify-between p-4 rounded-xl border bg-card hover:bg-muted/30 transition-colors">
                         <div className="flex items-center gap-3">
                           <Avatar className="h-10 w-10">
                             <AvatarFallback className="bg-gradient-to-br from-primary to-indigo-600 text-white text-sm">
@@ -728,6 +821,18 @@ export default function SettingsPage() {
                           </div>
                         </div>
                         <div className="flex items-center gap-3">
+                          {"mfa_enabled" in member && (
+                            <Badge
+                              variant="outline"
+                              className={cn(
+                                "gap-1",
+                                member.mfa_enabled ? "text-emerald-600 border-emerald-500/30" : "text-muted-foreground"
+                              )}
+                            >
+                              <Shield className="h-3 w-3" />
+                              {member.mfa_enabled ? "2FA" : "No 2FA"}
+                            </Badge>
+                          )}
                           <Badge variant={member.role === "admin" ? "default" : "secondary"} className="capitalize">
                             {member.role}
                           </Badge>
@@ -769,93 +874,72 @@ export default function SettingsPage() {
                 </CardContent>
               </Card>
 
-              <Card>
-                <CardHeader>
-                  <CardTitle>Two-Factor Authentication</CardTitle>
-                  <CardDescription>Add an extra layer of security to your account</CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <div className="flex items-center justify-between p-4 rounded-xl border bg-card">
-                    <div className="flex items-center gap-4">
-                      <div className="h-10 w-10 rounded-xl bg-amber-500/10 flex items-center justify-center">
-                        <Shield className="h-5 w-5 text-amber-500" />
-                      </div>
-                      <div>
-                        <p className="font-medium">Two-Factor Authentication</p>
-                        <p className="text-sm text-muted-foreground">Currently disabled</p>
+              {mfaStatus ? (
+                <TwoFactorSetup
+                  enabled={mfaStatus.enrolled}
+                  onStatusChange={(enrolled) => setMfaStatus((prev) => (prev ? { ...prev, enrolled } : prev))}
+                />
+              ) : (
+                <Card>
+                  <CardContent className="flex justify-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                  </CardContent>
+                </Card>
+              )}
+
+              {isAdmin && mfaStatus && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Organization Policy</CardTitle>
+                    <CardDescription>Security requirements for every member of your organization</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="flex items-center justify-between p-4 rounded-xl border bg-card hover:bg-muted/30 transition-colors">
+                      <div className="space-y-0.5">
+                        <p className="font-medium">Require Two-Factor Authentication</p>
+                        <p className="text-sm text-muted-foreground">
+                          Members without 2FA must set it up before they can use the dashboard or API
+                        </p>
                       </div>
+                      <Switch
+                        checked={mfaStatus.required}
+                        disabled={require2faSaving || (!mfaStatus.required && !mfaStatus.enrolled)}
+                        onCheckedChange={handleRequire2faChange}
+                      />
                     </div>
-                    <Button variant="outline">Enable</Button>
-                  </div>
-                </CardContent>
-              </Card>
+                    {!mfaStatus.enrolled && !mfaStatus.required && (
+                      <p className="text-sm text-muted-foreground">
+                        Enable two-factor authentication on your own account first.
+                      </p>
+                    )}
+                    {require2faError && (
+                      <div className="flex items-center gap-2 text-sm text-red-600">
+                        <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                        <span>{require2faError}</span>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
             </div>
           )}
 
           {/* Notifications Tab */}
           {activeTab === "notifications" && (
             <div className="space-y-6 animate-fade-in">
-              <Card>
-                <CardHeader>
-                  <CardTitle>Email Notifications</CardTitle>
-                  <CardDescription>Choose what updates you receive via email</CardDescription>
-                </CardHeader>
-                <CardContent className="space-y-4">
-                  <div className="flex items-center justify-between p-4 rounded-xl border bg-card hover:bg-muted/30 transition-colors">
-                    <div className="space-y-0.5">
-                      <p className="font-medium">Analysis Complete</p>
-                      <p className="text-sm text-muted-foreground">Get notified when call analysis is complete</p>
-                    </div>
-                    <Switch
-                      checked={orgSettings.settings.notifications.analysisComplete}
-                      onCheckedChange={(checked) =>
-                        setOrgSettings((prev) => ({
-                          ...prev,
-                          settings: { ...prev.settings, notifications: { ...prev.settings.notifications, analysisComplete: checked } },
-                        }))
-                      }
-                    />
-                  </div>
-
-                  <div className="flex items-center justify-between p-4 rounded-xl border bg-card hover:bg-muted/30 transition-colors">
-                    <div className="space-y-0.5">
-                      <p className="font-medium">Email Summaries</p>
-                      <p className="text-sm text-muted-foreground">Receive email updates about your calls</p>
-                    </div>
-                    <Switch
-                      checked={orgSettings.settings.notifications.emailOnAnalysis}
-                      onCheckedChange={(checked) =>
-                        setOrgSettings((prev) => ({
-                          ...prev,
-                          settings: { ...prev.settings, notifications: { ...prev.settings.notifications, emailOnAnalysis: checked } },
-                        }))
-                      }
-                    />
-                  </div>
-
-                  <div className="flex items-center justify-between p-4 rounded-xl border bg-card hover:bg-muted/30 transition-colors">
-                    <div className="space-y-0.5">
-                      <p className="font-medium">Weekly Summary</p>
-                      <p className="text-sm text-muted-foreground">Receive a weekly summary of your performance</p>
-                    </div>
-                    <Switch
-                      checked={orgSettings.settings.notifications.weeklySummary}
-                      onCheckedChange={(checked) =>
-                        setOrgSettings((prev) => ({
-                          ...prev,
-                          settings: { ...prev.settings, notifications: { ...prev.settings.notifications, weeklySummary: checked } },
-                        }))
-                      }
-                    />
-                  </div>
-                </CardContent>
-              </Card>
+              <NotificationSettings
+                isAdmin={isAdmin}
+                orgNotifications={organization?.settings_json?.notifications}
+                onOrgSettingsSaved={refreshProfile}
+              />
             </div>
           )}
 
           {/* API & Webhooks Tab */}
           {activeTab === "api" && isAdmin && (
             <div className="space-y-6 animate-fade-in">
+              <ApiKeysManager />
+
               <Card>
                 <CardHeader>
                   <CardTitle>Webhook Configuration</CardTitle>
@@ -941,17 +1025,18 @@ export default function SettingsPage() {
               <Card>
                 <CardHeader>
                   <CardTitle>API Reference</CardTitle>
-                  <CardDescription>Available API endpoints for integration</CardDescription>
+                  <CardDescription>Endpoints that accept API keys, with the scope each one needs</CardDescription>
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-2">
                     {[
-                      { method: "GET", path: "/api/calls", desc: "List all calls" },
-                      { method: "GET", path: "/api/calls/:id", desc: "Get call details" },
-                      { method: "POST", path: "/api/calls", desc: "Create a new call" },
-                      { method: "POST", path: "/api/calls/:id/analyze", desc: "Trigger analysis" },
-                      { method: "GET", path: "/api/callers", desc: "List all callers" },
-                      { method: "GET", path: "/api/dashboard/stats", desc: "Get dashboard statistics" },
+                      { method: "GET", path: "/api/calls", desc: "List all calls", scope: "calls:read" },
+                      { method: "POST", path: "/api/calls", desc: "Create a new call", scope: "calls:write" },
+                      { method: "GET", path: "/api/sessions", desc: "List coaching sessions", scope: "sessions:read" },
+                      { method: "GET", path: "/api/analytics", desc: "Call analytics", scope: "analytics:read" },
+                      { method: "GET", path: "/api/analytics/dashboard", desc: "Dashboard statistics", scope: "analytics:read" },
+                      { method: "GET", path: "/api/analytics/leaderboard", desc: "Agent leaderboard", scope: "analytics:read" },
+                      { method: "GET", path: "/api/analytics/team", desc: "Team performance", scope: "analytics:read" },
                     ].map((endpoint, index) => (
                       <div key={index} className="flex items-center gap-3 p-3 rounded-lg hover:bg-muted/50 transition-colors">
                         <Badge variant={endpoint.method === "GET" ? "secondary" : "default"} className="font-mono text-xs w-16 justify-center">
@@ -959,6 +1044,7 @@ export default function SettingsPage() {
                         </Badge>
                         <code className="text-sm font-mono flex-1">{endpoint.path}</code>
                         <span className="text-sm text-muted-foreground">{endpoint.desc}</span>
+                        <Badge variant="outline" className="font-mono text-xs">{endpoint.scope}</Badge>
                       </div>
                     ))}
                   </div>
@@ -15,11 +15,22 @@ import {
   Check,
   Plus,
   Download,
+  Users,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 
+interface TranscriptSpeaker {
+  name?: string;
+  email?: string;
+  participantId?: string;
+  kind?: "signed_in" | "anonymous" | "phone";
+  userId?: string;
+  callerId?: string;
+  entriesCount?: number;
+}
+
 interface MeetTranscript {
   id: string;
   meeting_code: string;
@@ -33,7 +44,7 @@ interface MeetTranscript {
   meeting_start_time: string | null;
   meeting_end_time: string | null;
   meeting_space_name: string | null;
-  participants: string[];
+  participants: TranscriptSpeaker[];
   metadata: Record<string, unknown>;
   created_at: string;
 }
@@ -270,6 +281,27 @@ export default function TranscriptDetailPage({
             </div>
           </div>
 
+          {transcript.participants?.length > 0 && (
+            <div className="mt-4">
+              <div className="flex items-center gap-2 text-muted-foreground mb-2">
+                <Users className="h-4 w-4" />
+                <span className="text-xs font-medium">Speakers</span>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {transcript.participants.map((speaker, index) => (
+                  <Badge
+                    key={speaker.participantId || index}
+                    variant={speaker.userId || speaker.callerId ? "default" : "outline"}
+                    title={speaker.email}
+                  >
+                    {speaker.name || "Unknown"}
+                    {speaker.entriesCount !== undefined && ` · ${speaker.entriesCount}`}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+
           {transcript.docs_document_id && (
             <div className="mt-4">
               <a
@@ -34,7 +34,7 @@ interface MeetTranscript {
   meeting_start_time: string | null;
   meeting_end_time: string | null;
   meeting_space_name: string | null;
-  participants: string[];
+  participants: { name?: string; email?: string }[];
   created_at: string;
 }
 
@@ -0,0 +1,200 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format, parseISO, subDays } from "date-fns";
+import { AlertTriangle, Bot, Code, HardDrive, Loader2, Phone, ClipboardCheck } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useAuth } from "@/components/providers/auth-provider";
+import { cn } from "@/lib/utils";
+import type { UsageMetric, UsageSummaryItem } from "@/lib/usage";
+
+interface UsageResponse {
+  data: UsageSummaryItem[];
+  plan: { tier: string; name: string };
+  period: { start: string; end: string };
+  warningPercent: number;
+}
+
+const METRIC_ICONS: Record<UsageMetric, typeof Phone> = {
+  calls_count: Phone,
+  sessions_count: ClipboardCheck,
+  ai_analyses_count: Bot,
+  storage_bytes_used: HardDrive,
+  api_calls_count: Code,
+};
+
+const STATUS_BADGES: Record<
+  UsageSummaryItem["status"],
+  { label: string; variant: "success" | "warning" | "destructive" | "secondary" | "info" }
+> = {
+  ok: { label: "Within limit", variant: "success" },
+  warning: { label: "Nearly used", variant: "warning" },
+  exceeded: { label: "Limit reached", variant: "destructive" },
+  unlimited: { label: "Unlimited", variant: "info" },
+  not_included: { label: "Not included", variant: "secondary" },
+};
+
+function formatValue(item: UsageSummaryItem, value: number): string {
+  if (value < 0) return "Unlimited";
+  if (item.unit === "count") return value.toLocaleString();
+
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let size = value;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? size : size.toFixed(1)} ${units[unit]}`;
+}
+
+export default function UsagePage() {
+  const { isAdmin } = useAuth();
+  const [usage, setUsage] = useState<UsageResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isAdmin) {
+      setLoading(false);
+      return;
+    }
+
+    const fetchUsage = async () => {
+      try {
+        const res = await fetch("/api/usage");
+        const data = await res.json();
+
+        if (!res.ok) {
+          setError(data.error || "Failed to load usage");
+          return;
+        }
+
+        setUsage(data);
+      } catch {
+        setError("Failed to load usage");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchUsage();
+  }, [isAdmin]);
+
+  if (!isAdmin) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold">Usage</h1>
+          <p className="text-gray-500">What your organization has used this billing period</p>
+        </div>
+        <Card>
+          <CardContent className="py-12 text-center text-sm text-muted-foreground">
+            Usage is available to organization admins.
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const limited = usage?.data.filter((item) => item.status === "exceeded" || item.status === "warning") || [];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Usage</h1>
+        <p className="text-gray-500">
+          {usage
+            ? `${usage.plan.name} plan · ${format(parseISO(usage.period.start), "MMM d")} to ${format(
+                subDays(parseISO(usage.period.end), 1),
+                "MMM d, yyyy"
+              )}`
+            : "What your organization has used this billing period"}
+        </p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {limited.length > 0 && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>
+            {limited.some((item) => item.status === "exceeded") ? "Plan limit reached" : "Approaching plan limits"}
+          </AlertTitle>
+          <AlertDescription>
+            {limited.map((item) => item.label).join(", ")}. Requests over a limit are refused until the next
+            period starts or the plan is upgraded.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : (
+        usage && (
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {usage.data.map((item) => {
+              const Icon = METRIC_ICONS[item.metric];
+              const badge = STATUS_BADGES[item.status];
+
+              return (
+                <Card key={item.metric}>
+                  <CardHeader className="pb-3">
+                    <CardTitle className="flex items-center justify-between gap-2 text-base">
+                      <span className="flex items-center gap-2">
+                        <Icon className="h-4 w-4 text-primary" />
+                        {item.label}
+                      </span>
+                      <Badge variant={badge.variant}>{badge.label}</Badge>
+                    </CardTitle>
+                    <CardDescription>
+                      {item.metric === "storage_bytes_used" ? "Stored recordings and reports" : "This period"}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    <p className="text-2xl font-semibold">
+                      {formatValue(item, item.used)}
+                      {item.limit >= 0 && (
+                        <span className="text-sm font-normal text-muted-foreground">
+                          {" "}
+                          / {formatValue(item, item.limit)}
+                        </span>
+                      )}
+                    </p>
+                    {item.limit > 0 && (
+                      <Progress
+                        value={item.used}
+                        max={item.limit}
+                        className={cn(
+                          item.status === "warning" && "[&>div]:bg-amber-500",
+                          item.status === "exceeded" && "[&>div]:bg-red-500"
+                        )}
+                      />
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      {item.percent !== null
+                        ? `${item.percent}% used · admins are emailed at ${usage.warningPercent}%`
+                        : item.status === "unlimited"
+                          ? "No limit on your plan"
+                          : "Upgrade your plan to use this"}
+                    </p>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
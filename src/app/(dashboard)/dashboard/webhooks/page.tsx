@@ -30,6 +30,8 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { useAuth } from "@/components/providers/auth-provider";
+import { WebhookSubscriptionsManager } from "@/components/webhooks/WebhookSubscriptionsManager";
+import { WebhookDeliveryLog } from "@/components/webhooks/WebhookDeliveryLog";
 
 interface WebhookLog {
   id: string;
@@ -131,7 +133,7 @@ export default function WebhooksPage() {
       <div>
         <h1 className="text-2xl font-bold">Webhooks</h1>
         <p className="text-gray-500">
-          Configure webhook integration for automatic call ingestion
+          Receive calls from your systems and send events back to them
         </p>
       </div>
 
@@ -139,6 +141,7 @@ export default function WebhooksPage() {
         <TabsList>
           <TabsTrigger value="setup">Setup</TabsTrigger>
           <TabsTrigger value="logs">Logs</TabsTrigger>
+          <TabsTrigger value="outbound">Outbound</TabsTrigger>
           <TabsTrigger value="docs">Documentation</TabsTrigger>
         </TabsList>
 
@@ -315,6 +318,11 @@ export default function WebhooksPage() {
           </Card>
         </TabsContent>
 
+        <TabsContent value="outbound" className="space-y-6">
+          <WebhookSubscriptionsManager />
+          <WebhookDeliveryLog />
+        </TabsContent>
+
         <TabsContent value="docs" className="space-y-6">
           <Card>
             <CardHeader>
@@ -395,6 +403,75 @@ export default function WebhooksPage() {
               </div>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Code className="h-5 w-5" />
+                Outbound Events
+              </CardTitle>
+              <CardDescription>What Kalyxi sends to your subscribed endpoints</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div>
+                <h4 className="font-medium">Request</h4>
+                <p className="mt-1 text-sm text-gray-600">
+                  Each event is a JSON POST with these headers:
+                </p>
+                <ul className="mt-2 space-y-1 text-sm text-gray-600">
+                  <li><code className="bg-gray-100 px-1">X-Webhook-Signature</code> - Hex HMAC-SHA256 of the raw body, keyed with the endpoint&apos;s signing secret</li>
+                  <li><code className="bg-gray-100 px-1">X-Webhook-Event</code> - Event type, e.g. <code className="bg-gray-100 px-1">call.analyzed</code></li>
+                  <li><code className="bg-gray-100 px-1">X-Webhook-Event-Id</code> - Same for every delivery and replay of an event; use it to deduplicate</li>
+                  <li><code className="bg-gray-100 px-1">X-Webhook-Delivery</code> - Unique per delivery</li>
+                </ul>
+              </div>
+
+              <div>
+                <h4 className="font-medium">Body</h4>
+                <div className="mt-2 rounded-lg bg-gray-900 p-4">
+                  <pre className="overflow-x-auto text-sm text-gray-100">
+                    <code>{`{
+  "id": "event-uuid",
+  "type": "session.completed",
+  "created_at": "2025-01-01T12:00:00.000Z",
+  "org_id": "org-uuid",
+  "data": {
+    "session_id": "session-uuid",
+    "percentage_score": 86.5,
+    "pass_status": "pass"
+  }
+}`}</code>
+                  </pre>
+                </div>
+              </div>
+
+              <div>
+                <h4 className="font-medium">Verifying</h4>
+                <div className="mt-2 rounded-lg bg-gray-900 p-4">
+                  <pre className="overflow-x-auto text-sm text-gray-100">
+                    <code>{`const expected = crypto
+  .createHmac("sha256", SIGNING_SECRET)
+  .update(rawBody)
+  .digest("hex");
+
+const valid = crypto.timingSafeEqual(
+  Buffer.from(expected),
+  Buffer.from(req.headers["x-webhook-signature"])
+);`}</code>
+                  </pre>
+                </div>
+              </div>
+
+              <div>
+                <h4 className="font-medium">Retries</h4>
+                <p className="mt-1 text-sm text-gray-600">
+                  Respond with any 2xx status within 10 seconds. Other responses, timeouts and
+                  redirects are retried after 1 minute, 5 minutes, 30 minutes, 2 hours and 6 hours,
+                  then marked failed. Any delivery can be replayed from the Outbound tab.
+                </p>
+              </div>
+            </CardContent>
+          </Card>
         </TabsContent>
       </Tabs>
 
@@ -5,15 +5,13 @@
  */
 
 import { NextResponse } from "next/server";
-import { createClient } from "@/lib/supabase/server";
-import { requireAuth, errorResponse } from "@/lib/api-utils";
+import { requireAuthOrApiKey, errorResponse } from "@/lib/api-utils";
 
 export async function GET(request: Request) {
-  const { user, orgId, response } = await requireAuth();
+  const { user, orgId, supabase, response } = await requireAuthOrApiKey("analytics:read");
   if (response) return response;
 
   try {
-    const supabase = await createClient();
     const { searchParams } = new URL(request.url);
 
     // Period filter
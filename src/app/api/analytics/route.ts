@@ -1,14 +1,12 @@
 import { NextResponse } from "next/server";
-import { createClient } from "@/lib/supabase/server";
-import { requireAuth, errorResponse } from "@/lib/api-utils";
+import { requireAuthOrApiKey, errorResponse } from "@/lib/api-utils";
 import { AnalysisResults } from "@/types/database";
 
 export async function GET(request: Request) {
-  const { user, orgId, role, response } = await requireAuth();
+  const { user, orgId, role, supabase, response } = await requireAuthOrApiKey("analytics:read");
   if (response) return response;
 
   try {
-    const supabase = await createClient();
     const { searchParams } = new URL(request.url);
 
     // Period filter
@@ -50,7 +48,9 @@ export async function GET(request: Request) {
         )
       `)
       .eq("org_id", orgId!)
-      .gte("call_timestamp", startDate.toISOString());
+      .eq("analyses.status", "completed")
+      .gte("call_timestamp", startDate.toISOString())
+      .order("created_at", { referencedTable: "analyses", ascending: false });
 
     // For callers, only show their own calls
     if (role === "caller") {
@@ -99,6 +99,7 @@ export async function GET(request: Request) {
       }> | null;
 
       if (callAnalyses && callAnalyses.length > 0) {
+        // Newest completed analysis; failed runs are filtered out above
         const analysis = callAnalyses[0];
         analyses.push({
           overallScore: analysis.overall_score,
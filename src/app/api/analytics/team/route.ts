@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
 import {
-  requireAuth,
+  requireAuthOrApiKey,
   errorResponse,
   getPaginationParams,
   getSortParams,
@@ -15,7 +15,7 @@ import type {
 
 // GET /api/analytics/team - Get team analytics with user metrics
 export async function GET(request: NextRequest) {
-  const { user, orgId, role, response } = await requireAuth();
+  const { user, orgId, role, supabase, response } = await requireAuthOrApiKey("analytics:read");
 
   if (response) return response;
   if (!user || !orgId || !role) {
@@ -27,7 +27,6 @@ export async function GET(request: NextRequest) {
     return errorResponse("Forbidden: Admin access required", 403);
   }
 
-  const supabase = await createClient();
   const searchParams = request.nextUrl.searchParams;
 
   // Parse query params
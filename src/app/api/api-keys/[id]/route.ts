@@ -0,0 +1,74 @@
+import { createClient } from "@/lib/supabase/server";
+import {
+  requireAdmin,
+  errorResponse,
+  successResponse,
+  isValidUUID,
+  createAuditLog,
+} from "@/lib/api-utils";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// DELETE /api/api-keys/[id] - Revoke an API key
+export async function DELETE(request: Request, { params }: RouteParams) {
+  const { id } = await params;
+  const { user, orgId, response } = await requireAdmin();
+  if (response) return response;
+
+  if (!isValidUUID(id)) {
+    return errorResponse("Invalid API key ID", 400);
+  }
+
+  try {
+    const supabase = await createClient();
+
+    const { data: existing, error: fetchError } = await supabase
+      .from("api_keys")
+      .select("id, name, key_prefix, is_active")
+      .eq("id", id)
+      .eq("org_id", orgId!)
+      .single();
+
+    if (fetchError || !existing) {
+      return errorResponse("API key not found", 404);
+    }
+
+    if (!existing.is_active) {
+      return errorResponse("API key is already revoked", 400);
+    }
+
+    // Revoked keys are kept so past usage stays attributable
+    const { error } = await supabase
+      .from("api_keys")
+      .update({
+        is_active: false,
+        revoked_at: new Date().toISOString(),
+        revoked_by: user!.id,
+      })
+      .eq("id", id)
+      .eq("org_id", orgId!);
+
+    if (error) {
+      console.error("Error revoking API key:", error);
+      return errorResponse("Failed to revoke API key", 500);
+    }
+
+    await createAuditLog(
+      orgId!,
+      user!.id,
+      "api_key.revoked",
+      "api_key",
+      id,
+      { name: existing.name, key_prefix: existing.key_prefix, is_active: true },
+      { is_active: false },
+      request
+    );
+
+    return successResponse({ id, revoked: true });
+  } catch (error) {
+    console.error("Error revoking API key:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
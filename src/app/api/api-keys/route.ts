@@ -0,0 +1,120 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  requireAdmin,
+  errorResponse,
+  successResponse,
+  createAuditLog,
+  sanitizeInput,
+} from "@/lib/api-utils";
+import { API_KEY_SCOPES, generateApiKey, isApiKeyScope } from "@/lib/api-keys";
+import { canUseApi } from "@/lib/plan-limits";
+import { z } from "zod";
+
+// Never return key_hash to the browser
+const API_KEY_COLUMNS =
+  "id, name, key_prefix, scopes, rate_limit_per_minute, last_used_at, expires_at, is_active, revoked_at, created_by, created_at";
+
+const createApiKeySchema = z.object({
+  name: z.string().min(1).max(255),
+  scopes: z
+    .array(z.string().refine(isApiKeyScope, { message: "Unknown scope" }))
+    .min(1, "Select at least one scope"),
+  expires_at: z.string().datetime().optional().nullable(),
+  rate_limit_per_minute: z.number().int().min(1).max(10000).optional().nullable(),
+});
+
+// GET /api/api-keys - List the organization's API keys
+export async function GET() {
+  const { orgId, response } = await requireAdmin();
+  if (response) return response;
+
+  try {
+    const supabase = await createClient();
+
+    const { data: keys, error } = await supabase
+      .from("api_keys")
+      .select(API_KEY_COLUMNS)
+      .eq("org_id", orgId!)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching API keys:", error);
+      return errorResponse("Failed to fetch API keys", 500);
+    }
+
+    return NextResponse.json({
+      data: keys || [],
+      scopes: API_KEY_SCOPES,
+      apiAccessEnabled: await canUseApi(orgId!),
+    });
+  } catch (error) {
+    console.error("Error in API keys GET:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+// POST /api/api-keys - Issue a new API key
+export async function POST(request: Request) {
+  const { user, orgId, response } = await requireAdmin();
+  if (response) return response;
+
+  try {
+    const body = await request.json();
+    const validationResult = createApiKeySchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return errorResponse(validationResult.error.issues[0]?.message || "Validation failed", 400);
+    }
+
+    const { name, scopes, expires_at, rate_limit_per_minute } = validationResult.data;
+
+    if (expires_at && new Date(expires_at) <= new Date()) {
+      return errorResponse("Expiry must be in the future", 400);
+    }
+
+    if (!(await canUseApi(orgId!))) {
+      return errorResponse("API access is not available on your plan", 403);
+    }
+
+    const { key, prefix, hash } = await generateApiKey();
+    const supabase = await createClient();
+
+    const { data: apiKey, error } = await supabase
+      .from("api_keys")
+      .insert({
+        org_id: orgId!,
+        name: sanitizeInput(name),
+        key_hash: hash,
+        key_prefix: prefix,
+        scopes: Array.from(new Set(scopes)),
+        expires_at: expires_at || null,
+        rate_limit_per_minute: rate_limit_per_minute || null,
+        created_by: user!.id,
+      })
+      .select(API_KEY_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error("Error creating API key:", error);
+      return errorResponse("Failed to create API key", 500);
+    }
+
+    await createAuditLog(
+      orgId!,
+      user!.id,
+      "api_key.created",
+      "api_key",
+      apiKey.id,
+      undefined,
+      { name: apiKey.name, key_prefix: prefix, scopes: apiKey.scopes },
+      request
+    );
+
+    // The plain key is only ever returned here
+    return successResponse({ ...apiKey, key }, 201);
+  } catch (error) {
+    console.error("Error in API keys POST:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
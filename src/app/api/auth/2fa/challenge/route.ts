@@ -0,0 +1,211 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient, createAdminClient } from "@/lib/supabase/server";
+import { checkRateLimit, RATE_LIMITS, createAuditLog } from "@/lib/api-utils";
+import { isTOTPFormat, matchTOTPStep, redeemRecoveryCode } from "@/lib/totp";
+import {
+  MFA_COOKIE_NAME,
+  createMfaToken,
+  mfaCookieOptions,
+  verifyMfaToken,
+} from "@/lib/mfa-session";
+
+// GET - Second-factor status for the current session
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: status, error } = await supabase.rpc("mfa_status");
+
+    if (error) {
+      console.error("Error fetching MFA status:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch 2FA status" },
+        { status: 500 }
+      );
+    }
+
+    const { enrolled = false, required = false } = (status || {}) as {
+      enrolled?: boolean;
+      required?: boolean;
+    };
+    const verified = await verifyMfaToken(request.cookies.get(MFA_COOKIE_NAME)?.value, user.id);
+
+    return NextResponse.json({
+      enrolled,
+      required,
+      verified,
+      // What the client has to do before reaching the dashboard
+      challengeRequired: enrolled && !verified,
+      enrollmentRequired: required && !enrolled,
+    });
+  } catch (error) {
+    console.error("Error in GET /api/auth/2fa/challenge:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Answer the challenge with a TOTP code or a recovery code
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const rateLimit = await checkRateLimit(
+      `mfa:${user.id}`,
+      RATE_LIMITS.mfaChallenge.limit,
+      RATE_LIMITS.mfaChallenge.windowMs
+    );
+
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        { error: "Too many attempts. Please wait a few minutes and try again." },
+        { status: 429 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { code, recoveryCode } = body as { code?: string; recoveryCode?: string };
+
+    if (!code && !recoveryCode) {
+      return NextResponse.json(
+        { error: "Verification code required" },
+        { status: 400 }
+      );
+    }
+
+    if (code && !isTOTPFormat(code)) {
+      return NextResponse.json(
+        { error: "Invalid code format. Must be 6 digits." },
+        { status: 400 }
+      );
+    }
+
+    const admin = createAdminClient();
+
+    const { data: mfa } = await admin
+      .from("user_mfa")
+      .select("totp_secret, enabled, recovery_codes, last_totp_step")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (!mfa?.enabled) {
+      return NextResponse.json(
+        { error: "2FA is not enabled" },
+        { status: 400 }
+      );
+    }
+
+    const now = new Date().toISOString();
+    let recoveryCodesRemaining: number | undefined;
+
+    if (code) {
+      // Codes at or before the last accepted step are replays
+      const step = matchTOTPStep(code, mfa.totp_secret, { after: mfa.last_totp_step });
+
+      if (step === null) {
+        return NextResponse.json(
+          { error: "Invalid verification code. Please try again." },
+          { status: 400 }
+        );
+      }
+
+      // Only move the step forward, so the same code sent twice at once
+      // passes just once
+      const { data: accepted } = await admin
+        .from("user_mfa")
+        .update({ last_totp_step: step, last_challenge_at: now })
+        .eq("user_id", user.id)
+        .or(`last_totp_step.is.null,last_totp_step.lt.${step}`)
+        .select("user_id");
+
+      if (!accepted?.length) {
+        return NextResponse.json(
+          { error: "Invalid verification code. Please try again." },
+          { status: 400 }
+        );
+      }
+    } else {
+      const remaining = redeemRecoveryCode(recoveryCode!, (mfa.recovery_codes as string[]) || []);
+
+      if (!remaining) {
+        return NextResponse.json(
+          { error: "Invalid recovery code" },
+          { status: 400 }
+        );
+      }
+
+      // Burn the code so it can't be used again
+      const { error: burnError } = await admin
+        .from("user_mfa")
+        .update({ recovery_codes: remaining, last_challenge_at: now })
+        .eq("user_id", user.id);
+
+      if (burnError) {
+        console.error("Error burning recovery code:", burnError);
+        return NextResponse.json(
+          { error: "Failed to verify recovery code" },
+          { status: 500 }
+        );
+      }
+
+      recoveryCodesRemaining = remaining.length;
+
+      const { data: profile } = await supabase
+        .from("users")
+        .select("org_id")
+        .eq("id", user.id)
+        .single();
+
+      if (profile) {
+        await createAuditLog(
+          profile.org_id,
+          user.id,
+          "user.mfa_recovery_code_used",
+          "user",
+          user.id,
+          undefined,
+          { recovery_codes_remaining: remaining.length },
+          request
+        );
+      }
+    }
+
+    const response = NextResponse.json({
+      success: true,
+      ...(recoveryCodesRemaining !== undefined && { recoveryCodesRemaining }),
+    });
+    response.cookies.set(MFA_COOKIE_NAME, await createMfaToken(user.id), mfaCookieOptions());
+    return response;
+  } catch (error) {
+    console.error("Error in POST /api/auth/2fa/challenge:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Drop the second-factor marker (sign-out)
+export async function DELETE() {
+  const response = NextResponse.json({ success: true });
+  response.cookies.set(MFA_COOKIE_NAME, "", mfaCookieOptions(0));
+  return response;
+}
@@ -1,28 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createClient } from "@/lib/supabase/server";
-import crypto from "crypto";
-
-// Base32 alphabet for TOTP secret encoding
-const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
-
-function generateBase32Secret(length: number = 20): string {
-  const buffer = crypto.randomBytes(length);
-  let secret = "";
-  for (let i = 0; i < buffer.length; i++) {
-    secret += BASE32_ALPHABET[buffer[i] % 32];
-  }
-  return secret;
-}
-
-function generateRecoveryCodes(count: number = 10): string[] {
-  const codes: string[] = [];
-  for (let i = 0; i < count; i++) {
-    // Generate 8-character alphanumeric codes
-    const code = crypto.randomBytes(4).toString("hex").toUpperCase();
-    codes.push(code);
-  }
-  return codes;
-}
+import { createClient, createAdminClient } from "@/lib/supabase/server";
+import { checkRateLimit, RATE_LIMITS } from "@/lib/api-utils";
+import {
+  buildOtpauthUrl,
+  generateRecoveryCodes,
+  generateTOTPSecret,
+  hashRecoveryCode,
+  redeemRecoveryCode,
+  verifyTOTP,
+} from "@/lib/totp";
+import { MFA_COOKIE_NAME, mfaCookieOptions, verifyMfaToken } from "@/lib/mfa-session";
+import type { OrgSettings } from "@/types/database";
 
 // GET - Generate a new TOTP secret and QR code URL
 export async function GET(request: NextRequest) {
@@ -40,7 +28,7 @@ export async function GET(request: NextRequest) {
     // Get user profile
     const { data: profile } = await supabase
       .from("users")
-      .select("id, email, name, totp_enabled")
+      .select("id, email, name")
       .eq("id", user.id)
       .single();
 
@@ -48,7 +36,15 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
 
-    if (profile.totp_enabled) {
+    const admin = createAdminClient();
+
+    const { data: mfa } = await admin
+      .from("user_mfa")
+      .select("enabled")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (mfa?.enabled) {
       return NextResponse.json(
         { error: "2FA is already enabled" },
         { status: 400 }
@@ -56,19 +52,23 @@ export async function GET(request: NextRequest) {
     }
 
     // Generate new TOTP secret
-    const secret = generateBase32Secret();
+    const secret = generateTOTPSecret();
 
-    // Generate recovery codes
+    // Generate recovery codes; only their digests are stored
     const recoveryCodes = generateRecoveryCodes();
 
     // Store secret temporarily (not verified yet)
-    const { error: updateError } = await supabase
-      .from("users")
-      .update({
+    const { error: updateError } = await admin.from("user_mfa").upsert(
+      {
+        user_id: user.id,
         totp_secret: secret,
-        recovery_codes: recoveryCodes,
-      })
-      .eq("id", user.id);
+        enabled: false,
+        verified_at: null,
+        recovery_codes: recoveryCodes.map(hashRecoveryCode),
+        last_totp_step: null,
+      },
+      { onConflict: "user_id" }
+    );
 
     if (updateError) {
       console.error("Error storing TOTP secret:", updateError);
@@ -79,9 +79,8 @@ export async function GET(request: NextRequest) {
     }
 
     // Generate otpauth URL for QR code
-    const issuer = "Kalyxi";
     const accountName = profile.email || profile.name || user.id;
-    const otpauthUrl = `otpauth://totp/${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}?secret=${secret}&issuer=${encodeURIComponent(issuer)}&algorithm=SHA1&digits=6&period=30`;
+    const otpauthUrl = buildOtpauthUrl(secret, accountName);
 
     return NextResponse.json({
       secret,
@@ -110,35 +109,75 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
+    // This route is reachable before the second factor (the middleware
+    // exempts /api/auth/), so a password alone mustn't be enough
+    if (!(await verifyMfaToken(request.cookies.get(MFA_COOKIE_NAME)?.value, user.id))) {
+      return NextResponse.json(
+        { error: "Two-factor authentication required", code: "MFA_REQUIRED" },
+        { status: 403 }
+      );
+    }
+
+    const rateLimit = await checkRateLimit(
+      `mfa:${user.id}`,
+      RATE_LIMITS.mfaChallenge.limit,
+      RATE_LIMITS.mfaChallenge.windowMs
+    );
+
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        { error: "Too many attempts. Please wait a few minutes and try again." },
+        { status: 429 }
+      );
+    }
+
     const body = await request.json();
     const { code } = body;
 
-    if (!code) {
+    if (!code || typeof code !== "string") {
       return NextResponse.json(
         { error: "Verification code required" },
         { status: 400 }
       );
     }
 
-    // Get user profile with TOTP secret
+    const admin = createAdminClient();
+
+    // Get TOTP secret and recovery codes
+    const { data: mfa } = await admin
+      .from("user_mfa")
+      .select("totp_secret, enabled, recovery_codes, last_totp_step")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (!mfa || !mfa.enabled) {
+      return NextResponse.json(
+        { error: "2FA is not enabled" },
+        { status: 400 }
+      );
+    }
+
+    // Members of orgs that require 2FA can't switch it off
     const { data: profile } = await supabase
       .from("users")
-      .select("id, totp_secret, totp_enabled, recovery_codes")
+      .select("organizations(settings_json)")
       .eq("id", user.id)
       .single();
 
-    if (!profile || !profile.totp_enabled) {
+    const orgSettings = (profile?.organizations as { settings_json?: OrgSettings } | null)?.settings_json;
+    if (orgSettings?.security?.require2fa) {
       return NextResponse.json(
-        { error: "2FA is not enabled" },
+        { error: "Your organization requires two-factor authentication" },
         { status: 400 }
       );
     }
 
     // Verify the code before disabling
-    const isValid = verifyTOTP(code, profile.totp_secret);
-    const isRecoveryCode = profile.recovery_codes?.includes(code);
+    const isValid =
+      verifyTOTP(code, mfa.totp_secret, { after: mfa.last_totp_step }) ||
+      redeemRecoveryCode(code, (mfa.recovery_codes as string[]) || []) !== null;
 
-    if (!isValid && !isRecoveryCode) {
+    if (!isValid) {
       return NextResponse.json(
         { error: "Invalid verification code" },
         { status: 400 }
@@ -146,25 +185,22 @@ export async function DELETE(request: NextRequest) {
     }
 
     // Disable 2FA
-    const { error: updateError } = await supabase
-      .from("users")
-      .update({
-        totp_secret: null,
-        totp_enabled: false,
-        totp_verified_at: null,
-        recovery_codes: null,
-      })
-      .eq("id", user.id);
+    const { error: deleteError } = await admin
+      .from("user_mfa")
+      .delete()
+      .eq("user_id", user.id);
 
-    if (updateError) {
-      console.error("Error disabling 2FA:", updateError);
+    if (deleteError) {
+      console.error("Error disabling 2FA:", deleteError);
       return NextResponse.json(
         { error: "Failed to disable 2FA" },
         { status: 500 }
       );
     }
 
-    return NextResponse.json({ success: true });
+    const response = NextResponse.json({ success: true });
+    response.cookies.set(MFA_COOKIE_NAME, "", mfaCookieOptions(0));
+    return response;
   } catch (error) {
     console.error("Error in DELETE /api/auth/2fa/setup:", error);
     return NextResponse.json(
@@ -173,10 +209,3 @@ export async function DELETE(request: NextRequest) {
     );
   }
 }
-
-// Simple TOTP verification (for backup, but we'll use the verify endpoint)
-function verifyTOTP(token: string, secret: string): boolean {
-  // This is a simplified check - in production, use a proper TOTP library
-  // We're checking in the verify endpoint with a proper implementation
-  return token.length === 6 && /^\d+$/.test(token);
-}
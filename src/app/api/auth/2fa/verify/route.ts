@@ -1,63 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createClient } from "@/lib/supabase/server";
-import crypto from "crypto";
-
-// TOTP verification using HMAC-SHA1
-function generateTOTP(secret: string, counter: number): string {
-  // Convert base32 secret to buffer
-  const base32Chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
-  let bits = "";
-  for (const char of secret.toUpperCase()) {
-    const val = base32Chars.indexOf(char);
-    if (val === -1) continue;
-    bits += val.toString(2).padStart(5, "0");
-  }
-
-  const secretBuffer = Buffer.alloc(Math.floor(bits.length / 8));
-  for (let i = 0; i < secretBuffer.length; i++) {
-    secretBuffer[i] = parseInt(bits.slice(i * 8, (i + 1) * 8), 2);
-  }
-
-  // Create counter buffer (8 bytes, big-endian)
-  const counterBuffer = Buffer.alloc(8);
-  counterBuffer.writeBigInt64BE(BigInt(counter));
-
-  // Generate HMAC-SHA1
-  const hmac = crypto.createHmac("sha1", secretBuffer);
-  hmac.update(counterBuffer);
-  const hash = hmac.digest();
-
-  // Dynamic truncation
-  const offset = hash[hash.length - 1] & 0x0f;
-  const code =
-    ((hash[offset] & 0x7f) << 24) |
-    ((hash[offset + 1] & 0xff) << 16) |
-    ((hash[offset + 2] & 0xff) << 8) |
-    (hash[offset + 3] & 0xff);
-
-  // Get 6 digits
-  const otp = (code % 1000000).toString().padStart(6, "0");
-  return otp;
-}
-
-function verifyTOTP(
-  token: string,
-  secret: string,
-  window: number = 1
-): boolean {
-  // Get current time step (30 seconds)
-  const timeStep = Math.floor(Date.now() / 1000 / 30);
-
-  // Check current and adjacent time steps
-  for (let i = -window; i <= window; i++) {
-    const expectedToken = generateTOTP(secret, timeStep + i);
-    if (token === expectedToken) {
-      return true;
-    }
-  }
-
-  return false;
-}
+import { createClient, createAdminClient } from "@/lib/supabase/server";
+import { isTOTPFormat, matchTOTPStep } from "@/lib/totp";
+import { MFA_COOKIE_NAME, createMfaToken, mfaCookieOptions } from "@/lib/mfa-session";
 
 // POST - Verify TOTP code and enable 2FA
 export async function POST(request: NextRequest) {
@@ -82,32 +26,30 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (code.length !== 6 || !/^\d+$/.test(code)) {
+    if (!isTOTPFormat(code)) {
       return NextResponse.json(
         { error: "Invalid code format. Must be 6 digits." },
         { status: 400 }
       );
     }
 
-    // Get user profile with TOTP secret
-    const { data: profile } = await supabase
-      .from("users")
-      .select("id, totp_secret, totp_enabled")
-      .eq("id", user.id)
-      .single();
+    const admin = createAdminClient();
 
-    if (!profile) {
-      return NextResponse.json({ error: "User not found" }, { status: 404 });
-    }
+    // Get pending TOTP secret
+    const { data: mfa } = await admin
+      .from("user_mfa")
+      .select("totp_secret, enabled")
+      .eq("user_id", user.id)
+      .maybeSingle();
 
-    if (profile.totp_enabled) {
+    if (mfa?.enabled) {
       return NextResponse.json(
         { error: "2FA is already enabled" },
         { status: 400 }
       );
     }
 
-    if (!profile.totp_secret) {
+    if (!mfa?.totp_secret) {
       return NextResponse.json(
         { error: "Please generate a 2FA secret first" },
         { status: 400 }
@@ -115,9 +57,9 @@ export async function POST(request: NextRequest) {
     }
 
     // Verify the TOTP code
-    const isValid = verifyTOTP(code, profile.totp_secret);
+    const step = matchTOTPStep(code, mfa.totp_secret);
 
-    if (!isValid) {
+    if (step === null) {
       return NextResponse.json(
         { error: "Invalid verification code. Please try again." },
         { status: 400 }
@@ -125,13 +67,17 @@ export async function POST(request: NextRequest) {
     }
 
     // Enable 2FA
-    const { error: updateError } = await supabase
-      .from("users")
+    const now = new Date().toISOString();
+    const { error: updateError } = await admin
+      .from("user_mfa")
       .update({
-        totp_enabled: true,
-        totp_verified_at: new Date().toISOString(),
+        enabled: true,
+        verified_at: now,
+        last_challenge_at: now,
+        // This code is spent; the login challenge won't take it again
+        last_totp_step: step,
       })
-      .eq("id", user.id);
+      .eq("user_id", user.id);
 
     if (updateError) {
       console.error("Error enabling 2FA:", updateError);
@@ -141,10 +87,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    return NextResponse.json({
+    // The code just entered counts as this session's second factor
+    const response = NextResponse.json({
       success: true,
       message: "2FA has been enabled successfully",
     });
+    response.cookies.set(MFA_COOKIE_NAME, await createMfaToken(user.id), mfaCookieOptions());
+    return response;
   } catch (error) {
     console.error("Error in POST /api/auth/2fa/verify:", error);
     return NextResponse.json(
@@ -0,0 +1,36 @@
+/**
+ * Local Checkout
+ *
+ * GET /api/billing/local-checkout?session_id=... - Stands in for the hosted
+ * checkout page when BILLING_PROVIDER=local: starts the subscription,
+ * applies its events and redirects back to the settings page.
+ */
+
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/api-utils";
+import { BillingProviderError, completeLocalCheckout, isLocalBillingEnabled } from "@/lib/billing";
+
+export async function GET(request: Request) {
+  if (!isLocalBillingEnabled()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const { response } = await requireAdmin();
+  if (response) return response;
+
+  const sessionId = new URL(request.url).searchParams.get("session_id");
+  if (!sessionId) {
+    return NextResponse.json({ error: "session_id is required" }, { status: 400 });
+  }
+
+  try {
+    const successUrl = await completeLocalCheckout(sessionId);
+    return NextResponse.redirect(successUrl);
+  } catch (error) {
+    if (error instanceof BillingProviderError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode || 400 });
+    }
+    console.error("Error completing local checkout:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
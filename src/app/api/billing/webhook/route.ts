@@ -0,0 +1,48 @@
+/**
+ * Billing Webhook
+ *
+ * POST /api/billing/webhook - Events from the payment provider
+ *
+ * Point the Stripe webhook endpoint here and subscribe it to
+ * customer.subscription.*, invoice.paid, invoice.payment_failed,
+ * invoice.finalized, invoice.updated, invoice.voided and
+ * invoice.marked_uncollectible. The signature is checked against
+ * STRIPE_WEBHOOK_SECRET over the raw body.
+ *
+ * Stripe retries any non-2xx answer for up to three days:
+ * - 400 for an invalid signature. That's usually a rotated or mistyped
+ *   secret, and the retries deliver the events once it's fixed.
+ * - 500 when applying the event failed, so it's tried again.
+ * - 200 for a correctly signed event we can never process (not JSON, or
+ *   missing its id, type or object). Retrying can't change the outcome.
+ */
+
+import { NextResponse } from "next/server";
+import { BillingProviderError, handleBillingWebhook, resolveBillingProvider } from "@/lib/billing";
+
+export const runtime = "nodejs";
+
+export async function POST(request: Request) {
+  // The signature covers the exact bytes sent
+  const rawBody = await request.text();
+  const signature = request.headers.get("stripe-signature") || request.headers.get("x-billing-signature");
+
+  try {
+    const result = await handleBillingWebhook(resolveBillingProvider(), rawBody, signature);
+    return NextResponse.json({ received: true, duplicate: result.duplicate });
+  } catch (error) {
+    if (error instanceof BillingProviderError && error.statusCode === 400) {
+      return NextResponse.json({ error: "Invalid webhook", message: error.message }, { status: 400 });
+    }
+    if (error instanceof BillingProviderError && error.statusCode === 422) {
+      console.warn("[Billing Webhook] Dropping unprocessable event:", error.message);
+      return NextResponse.json({ received: true, ignored: true, message: error.message });
+    }
+
+    console.error("[Billing Webhook] Error applying event:", error);
+    return NextResponse.json(
+      { error: "Webhook processing failed", message: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
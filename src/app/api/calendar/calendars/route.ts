@@ -1,59 +1,65 @@
 /**
  * List Calendars API
  *
- * GET /api/calendar/calendars - List all calendars for the authenticated user's Google account
+ * GET /api/calendar/calendars - List all calendars for the authenticated user's
+ * Google account, or their Microsoft account with ?provider=microsoft
  */
 
-import { NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
 import { requireAuth, errorResponse, successResponse } from "@/lib/api-utils";
-import { getValidAccessToken } from "@/lib/google/tokens";
-import { listCalendars } from "@/lib/google/calendar-client";
+import { getCalendarConnector } from "@/lib/connectors";
 
-export async function GET() {
-  const { user, orgId, response } = await requireAuth();
+export async function GET(request: Request) {
+  const { user, response } = await requireAuth();
   if (response) return response;
 
+  const provider = new URL(request.url).searchParams.get("provider") || "google";
+  if (provider !== "google" && provider !== "microsoft") {
+    return errorResponse("Invalid provider", 400);
+  }
+
   try {
     const supabase = await createClient();
 
-    // Get user's Google connection
-    const { data: connection, error: connError } = await supabase
-      .from("google_connections")
-      .select("id, google_email")
-      .eq("user_id", user!.id)
-      .maybeSingle();
+    // Get user's connection for the provider
+    const { data: connection, error: connError } =
+      provider === "microsoft"
+        ? await supabase
+            .from("microsoft_connections")
+            .select("id, email:microsoft_email")
+            .eq("user_id", user!.id)
+            .order("created_at", { ascending: false })
+            .limit(1)
+            .maybeSingle()
+        : await supabase
+            .from("google_connections")
+            .select("id, email:google_email")
+            .eq("user_id", user!.id)
+            .maybeSingle();
+
+    const accountName = provider === "microsoft" ? "Microsoft" : "Google";
 
     if (connError) {
-      return errorResponse("Failed to fetch Google connection", 500);
+      return errorResponse(`Failed to fetch ${accountName} connection`, 500);
     }
 
     if (!connection) {
       return errorResponse(
-        "No Google account connected. Please connect your Google account first.",
+        `No ${accountName} account connected. Please connect your ${accountName} account first.`,
         400
       );
     }
 
-    // Get valid access token
-    const accessToken = await getValidAccessToken(connection.id);
-
-    // List calendars from Google
-    const calendars = await listCalendars(accessToken);
+    const connector = getCalendarConnector(provider);
+    const accessToken = await connector.getAccessToken(connection.id);
+    const calendars = await connector.listCalendars(accessToken);
 
     // Return calendars with connection info
     return successResponse({
-      google_email: connection.google_email,
-      calendars: calendars.map((cal) => ({
-        id: cal.id,
-        name: cal.summary,
-        description: cal.description,
-        timeZone: cal.timeZone,
-        backgroundColor: cal.backgroundColor,
-        foregroundColor: cal.foregroundColor,
-        accessRole: cal.accessRole,
-        primary: cal.primary || false,
-      })),
+      provider,
+      account_email: connection.email,
+      ...(provider === "google" && { google_email: connection.email }),
+      calendars,
     });
   } catch (error) {
     console.error("Error listing calendars:", error);
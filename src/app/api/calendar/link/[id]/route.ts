@@ -16,6 +16,11 @@ import {
   isValidUUID,
 } from "@/lib/api-utils";
 import { z } from "zod";
+import {
+  registerCalendarChannel,
+  teardownCalendarChannel,
+  redactChannelToken,
+} from "@/lib/google/calendar-channels";
 
 // Validation schema for event filter
 const eventFilterSchema = z.object({
@@ -27,11 +32,24 @@ const eventFilterSchema = z.object({
   attendeeEmails: z.array(z.string().email()).optional(),
 }).optional();
 
+// Validation schema for agent mapping
+const agentMappingSchema = z
+  .object({
+    type: z.enum(["attendee_email", "organizer", "custom_field"]),
+    field: z.string().trim().max(100).default("email"),
+    fallback_to_organizer: z.boolean().default(false),
+  })
+  .refine((mapping) => mapping.type !== "custom_field" || mapping.field.length > 0, {
+    message: "A custom field mapping needs the event property name",
+  });
+
 // Validation schema for updating a calendar link
 const updateCalendarLinkSchema = z.object({
   event_filter: eventFilterSchema,
   sync_enabled: z.boolean().optional(),
   auto_create_sessions: z.boolean().optional(),
+  sync_direction: z.enum(["calendar_to_sessions", "bidirectional"]).optional(),
+  agent_mapping: agentMappingSchema.optional(),
   default_coach_id: z.string().uuid().optional().nullable(),
 });
 
@@ -58,7 +76,8 @@ export async function GET(request: Request, { params }: RouteParams) {
       .select(`
         *,
         templates (id, name),
-        google_connections (id, google_email)
+        google_connections (id, google_email),
+        microsoft_connections (id, microsoft_email)
       `)
       .eq("id", id)
       .eq("org_id", orgId!)
@@ -68,7 +87,7 @@ export async function GET(request: Request, { params }: RouteParams) {
       return errorResponse("Calendar link not found", 404);
     }
 
-    return successResponse(link);
+    return successResponse(redactChannelToken(link));
   } catch (error) {
     console.error("Error fetching calendar link:", error);
     return errorResponse("Failed to fetch calendar link", 500);
@@ -106,7 +125,7 @@ export async function PUT(request: Request, { params }: RouteParams) {
     // Verify link exists and belongs to org
     const { data: existingLink, error: fetchError } = await supabase
       .from("google_calendar_links")
-      .select("id")
+      .select("id, provider, sync_enabled")
       .eq("id", id)
       .eq("org_id", orgId!)
       .single();
@@ -115,6 +134,13 @@ export async function PUT(request: Request, { params }: RouteParams) {
       return errorResponse("Calendar link not found", 404);
     }
 
+    if (
+      validationResult.data.sync_direction === "bidirectional" &&
+      existingLink.provider !== "google"
+    ) {
+      return errorResponse("Two-way sync is only available for Google calendars", 400);
+    }
+
     // Build update data
     const updateData: Record<string, unknown> = {
       updated_at: new Date().toISOString(),
@@ -129,6 +155,12 @@ export async function PUT(request: Request, { params }: RouteParams) {
     if (validationResult.data.auto_create_sessions !== undefined) {
       updateData.auto_create_sessions = validationResult.data.auto_create_sessions;
     }
+    if (validationResult.data.sync_direction !== undefined) {
+      updateData.sync_direction = validationResult.data.sync_direction;
+    }
+    if (validationResult.data.agent_mapping !== undefined) {
+      updateData.agent_mapping = validationResult.data.agent_mapping;
+    }
     if (validationResult.data.default_coach_id !== undefined) {
       updateData.default_coach_id = validationResult.data.default_coach_id;
     }
@@ -146,7 +178,15 @@ export async function PUT(request: Request, { params }: RouteParams) {
       return errorResponse("Failed to update calendar link", 500);
     }
 
-    return successResponse(link);
+    // Pausing sync stops the push channel; resuming starts a new one
+    const syncEnabled = validationResult.data.sync_enabled;
+    if (syncEnabled === false && existingLink.sync_enabled) {
+      await teardownCalendarChannel(id);
+    } else if (syncEnabled === true && !existingLink.sync_enabled) {
+      await registerCalendarChannel(id);
+    }
+
+    return successResponse(redactChannelToken(link));
   } catch (error) {
     console.error("Error updating calendar link:", error);
     return errorResponse(
@@ -186,6 +226,9 @@ export async function DELETE(request: Request, { params }: RouteParams) {
       return errorResponse("Calendar link not found", 404);
     }
 
+    // Stop the push channel while the link still knows it
+    await teardownCalendarChannel(id);
+
     // Delete the link
     const { error: deleteError } = await supabase
       .from("google_calendar_links")
@@ -1,6 +1,7 @@
 /**
  * Calendar Link Sync API
  *
+ * GET /api/calendar/link/[id]/sync - Recent sync runs for a calendar link
  * POST /api/calendar/link/[id]/sync - Trigger a manual sync for a calendar link
  */
 
@@ -13,12 +14,52 @@ import {
   successResponse,
   isValidUUID,
 } from "@/lib/api-utils";
-import { syncCalendarLink } from "@/lib/google/calendar-sync";
+import { syncCalendarLink } from "@/lib/connectors/calendar-sync";
 
 interface RouteParams {
   params: Promise<{ id: string }>;
 }
 
+const DEFAULT_LOG_LIMIT = 20;
+const MAX_LOG_LIMIT = 100;
+
+// GET - Sync history
+export async function GET(request: Request, { params }: RouteParams) {
+  const { orgId, response } = await requireAuth();
+  if (response) return response;
+
+  try {
+    const { id } = await params;
+
+    if (!isValidUUID(id)) {
+      return errorResponse("Invalid calendar link ID", 400);
+    }
+
+    const url = new URL(request.url);
+    const requestedLimit = parseInt(url.searchParams.get("limit") || String(DEFAULT_LOG_LIMIT), 10);
+    const limit = Math.min(Math.max(1, requestedLimit || DEFAULT_LOG_LIMIT), MAX_LOG_LIMIT);
+
+    const supabase = await createClient();
+
+    const { data: logs, error } = await supabase
+      .from("calendar_sync_logs")
+      .select("*")
+      .eq("calendar_link_id", id)
+      .eq("org_id", orgId!)
+      .order("started_at", { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      return errorResponse("Failed to fetch sync history", 500);
+    }
+
+    return successResponse(logs || []);
+  } catch (error) {
+    console.error("Error fetching calendar sync history:", error);
+    return errorResponse("Failed to fetch sync history", 500);
+  }
+}
+
 // POST - Trigger a sync
 export async function POST(request: Request, { params }: RouteParams) {
   const { user, orgId, role, response } = await requireAuth();
@@ -65,9 +106,14 @@ export async function POST(request: Request, { params }: RouteParams) {
 
     return successResponse({
       success: result.errors.length === 0,
+      syncMode: result.syncMode,
+      fullSyncReason: result.fullSyncReason,
       eventsChecked: result.eventsChecked,
       sessionsCreated: result.sessionsCreated,
       sessionsSkipped: result.sessionsSkipped,
+      sessionsUpdated: result.sessionsUpdated,
+      sessionsCancelled: result.sessionsCancelled,
+      eventsQueued: result.eventsQueued,
       newSessionIds: result.newSessionIds,
       errors: result.errors,
     });
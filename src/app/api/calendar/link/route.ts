@@ -15,8 +15,8 @@ import {
   isValidUUID,
 } from "@/lib/api-utils";
 import { z } from "zod";
-import { getValidAccessToken } from "@/lib/google/tokens";
-import { getCalendar } from "@/lib/google/calendar-client";
+import { getCalendarConnector } from "@/lib/connectors";
+import { registerCalendarChannel, redactChannelToken } from "@/lib/google/calendar-channels";
 
 // Validation schema for event filter
 const eventFilterSchema = z.object({
@@ -28,15 +28,33 @@ const eventFilterSchema = z.object({
   attendeeEmails: z.array(z.string().email()).optional(),
 }).optional();
 
+// Validation schema for agent mapping
+const agentMappingSchema = z
+  .object({
+    type: z.enum(["attendee_email", "organizer", "custom_field"]),
+    field: z.string().trim().max(100).default("email"),
+    fallback_to_organizer: z.boolean().default(false),
+  })
+  .refine((mapping) => mapping.type !== "custom_field" || mapping.field.length > 0, {
+    message: "A custom field mapping needs the event property name",
+  });
+
 // Validation schema for creating a calendar link
-const createCalendarLinkSchema = z.object({
-  template_id: z.string().uuid(),
-  calendar_id: z.string().min(1),
-  event_filter: eventFilterSchema,
-  sync_enabled: z.boolean().default(true),
-  auto_create_sessions: z.boolean().default(true),
-  default_coach_id: z.string().uuid().optional().nullable(),
-});
+const createCalendarLinkSchema = z
+  .object({
+    provider: z.enum(["google", "microsoft"]).default("google"),
+    template_id: z.string().uuid(),
+    calendar_id: z.string().min(1),
+    event_filter: eventFilterSchema,
+    sync_enabled: z.boolean().default(true),
+    auto_create_sessions: z.boolean().default(true),
+    sync_direction: z.enum(["calendar_to_sessions", "bidirectional"]).default("calendar_to_sessions"),
+    agent_mapping: agentMappingSchema.optional(),
+    default_coach_id: z.string().uuid().optional().nullable(),
+  })
+  .refine((link) => link.provider === "google" || link.sync_direction !== "bidirectional", {
+    message: "Two-way sync is only available for Google calendars",
+  });
 
 // GET - List all calendar links
 export async function GET(request: Request) {
@@ -55,7 +73,8 @@ export async function GET(request: Request) {
       .select(`
         *,
         templates (id, name),
-        google_connections (id, google_email)
+        google_connections (id, google_email),
+        microsoft_connections (id, microsoft_email)
       `)
       .eq("org_id", orgId!);
 
@@ -69,7 +88,7 @@ export async function GET(request: Request) {
       return errorResponse("Failed to fetch calendar links", 500);
     }
 
-    return successResponse(links);
+    return successResponse((links || []).map(redactChannelToken));
   } catch (error) {
     console.error("Error fetching calendar links:", error);
     return errorResponse("Failed to fetch calendar links", 500);
@@ -96,8 +115,17 @@ export async function POST(request: Request) {
       );
     }
 
-    const { template_id, calendar_id, event_filter, sync_enabled, auto_create_sessions, default_coach_id } =
-      validationResult.data;
+    const {
+      provider,
+      template_id,
+      calendar_id,
+      event_filter,
+      sync_enabled,
+      auto_create_sessions,
+      sync_direction,
+      agent_mapping,
+      default_coach_id,
+    } = validationResult.data;
 
     const supabase = await createClient();
 
@@ -113,25 +141,36 @@ export async function POST(request: Request) {
       return errorResponse("Template not found", 404);
     }
 
-    // Get user's Google connection
-    const { data: connection, error: connError } = await supabase
-      .from("google_connections")
-      .select("id, google_email")
-      .eq("user_id", user!.id)
-      .maybeSingle();
+    // Get user's connection for the provider
+    const { data: connection, error: connError } =
+      provider === "microsoft"
+        ? await supabase
+            .from("microsoft_connections")
+            .select("id, email:microsoft_email")
+            .eq("user_id", user!.id)
+            .order("created_at", { ascending: false })
+            .limit(1)
+            .maybeSingle()
+        : await supabase
+            .from("google_connections")
+            .select("id, email:google_email")
+            .eq("user_id", user!.id)
+            .maybeSingle();
 
     if (connError || !connection) {
+      const accountName = provider === "microsoft" ? "Microsoft" : "Google";
       return errorResponse(
-        "No Google account connected. Please connect your Google account first.",
+        `No ${accountName} account connected. Please connect your ${accountName} account first.`,
         400
       );
     }
 
     // Verify calendar exists
-    const accessToken = await getValidAccessToken(connection.id);
+    const connector = getCalendarConnector(provider);
+    const accessToken = await connector.getAccessToken(connection.id);
     let calendarInfo;
     try {
-      calendarInfo = await getCalendar(accessToken, calendar_id);
+      calendarInfo = await connector.getCalendar(accessToken, calendar_id);
     } catch (error) {
       return errorResponse(
         "Calendar not found or not accessible. Please check the calendar ID.",
@@ -161,13 +200,17 @@ export async function POST(request: Request) {
       .insert({
         org_id: orgId!,
         template_id,
-        google_connection_id: connection.id,
+        provider,
+        google_connection_id: provider === "google" ? connection.id : null,
+        microsoft_connection_id: provider === "microsoft" ? connection.id : null,
         calendar_id,
-        calendar_name: calendarInfo.summary,
-        google_account_email: connection.google_email,
+        calendar_name: calendarInfo.name,
+        google_account_email: connection.email,
         event_filter: event_filter || null,
         sync_enabled,
         auto_create_sessions,
+        sync_direction,
+        ...(agent_mapping && { agent_mapping }),
         default_coach_id: default_coach_id || null,
       })
       .select()
@@ -178,7 +221,14 @@ export async function POST(request: Request) {
       return errorResponse("Failed to create calendar link", 500);
     }
 
-    return successResponse(link, 201);
+    // Watch Google calendars so changes sync without waiting for a manual
+    // sync; Outlook links are picked up by the calendar-sync cron
+    const channel =
+      provider === "google"
+        ? await registerCalendarChannel(link.id)
+        : { registered: false, reason: "Outlook calendars sync on a schedule" };
+
+    return successResponse({ ...redactChannelToken(link), channel }, 201);
   } catch (error) {
     console.error("Error creating calendar link:", error);
     return errorResponse(
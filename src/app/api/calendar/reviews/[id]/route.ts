@@ -0,0 +1,151 @@
+/**
+ * Calendar Event Review [ID] API
+ *
+ * POST /api/calendar/reviews/[id] - Resolve a queued calendar event
+ *   { action: "assign", agent_id } creates the event's session for the agent
+ *   { action: "dismiss" } drops the event without a session
+ */
+
+import { createClient } from "@/lib/supabase/server";
+import {
+  requireAuth,
+  checkRole,
+  errorResponse,
+  successResponse,
+  isValidUUID,
+  createAuditLog,
+} from "@/lib/api-utils";
+import { z } from "zod";
+import { assignReviewedEvent, CalendarReviewError } from "@/lib/connectors/calendar-sync";
+
+const resolveReviewSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("assign"),
+    agent_id: z.string().uuid(),
+  }),
+  z.object({
+    action: z.literal("dismiss"),
+  }),
+]);
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// POST - Assign or dismiss a queued event
+export async function POST(request: Request, { params }: RouteParams) {
+  const { user, orgId, role, response } = await requireAuth();
+  if (response) return response;
+
+  const roleResponse = checkRole(role, ["admin", "superadmin", "manager"]);
+  if (roleResponse) return roleResponse;
+
+  try {
+    const { id } = await params;
+
+    if (!isValidUUID(id)) {
+      return errorResponse("Invalid review ID", 400);
+    }
+
+    const body = await request.json();
+    const validationResult = resolveReviewSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return errorResponse(
+        `Validation error: ${validationResult.error.issues.map((e) => e.message).join(", ")}`,
+        400
+      );
+    }
+
+    const supabase = await createClient();
+
+    const { data: review, error: fetchError } = await supabase
+      .from("calendar_event_reviews")
+      .select("id, status, google_event_id, event_title")
+      .eq("id", id)
+      .eq("org_id", orgId!)
+      .single();
+
+    if (fetchError || !review) {
+      return errorResponse("Review not found", 404);
+    }
+
+    if (review.status !== "pending") {
+      return errorResponse(`This event was already ${review.status}`, 400);
+    }
+
+    const input = validationResult.data;
+
+    if (input.action === "dismiss") {
+      const { data: dismissed, error } = await supabase
+        .from("calendar_event_reviews")
+        .update({
+          status: "dismissed",
+          resolved_by: user!.id,
+          resolved_at: new Date().toISOString(),
+        })
+        .eq("id", id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error("Error dismissing calendar event review:", error);
+        return errorResponse("Failed to dismiss event", 500);
+      }
+
+      await createAuditLog(
+        orgId!,
+        user!.id,
+        "dismiss",
+        "calendar_event_review",
+        id,
+        { status: "pending" },
+        { status: "dismissed" },
+        request
+      );
+
+      return successResponse(dismissed);
+    }
+
+    // The agent must be a member of this org
+    const { data: agent } = await supabase
+      .from("users")
+      .select("id")
+      .eq("id", input.agent_id)
+      .eq("org_id", orgId!)
+      .maybeSingle();
+
+    if (!agent) {
+      return errorResponse("Agent not found", 404);
+    }
+
+    let sessionId: string;
+    try {
+      sessionId = await assignReviewedEvent(id, input.agent_id, user!.id);
+    } catch (error) {
+      if (error instanceof CalendarReviewError) {
+        return errorResponse(error.message, 400);
+      }
+      throw error;
+    }
+
+    await createAuditLog(
+      orgId!,
+      user!.id,
+      "assign",
+      "calendar_event_review",
+      id,
+      { status: "pending" },
+      { status: "assigned", agent_id: input.agent_id, session_id: sessionId },
+      request
+    );
+
+    return successResponse({ id, status: "assigned", session_id: sessionId });
+  } catch (error) {
+    console.error("Error resolving calendar event review:", error);
+    return errorResponse(
+      error instanceof Error ? error.message : "Failed to resolve event",
+      500
+    );
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Calendar Event Reviews API
+ *
+ * GET /api/calendar/reviews - List calendar events whose agent couldn't be
+ * resolved by their link's agent mapping, soonest first
+ */
+
+import { createClient } from "@/lib/supabase/server";
+import { requireAuth, checkRole, errorResponse, successResponse } from "@/lib/api-utils";
+import type { CalendarEventReviewStatus } from "@/types/database";
+
+const REVIEW_STATUSES: CalendarEventReviewStatus[] = ["pending", "assigned", "dismissed"];
+
+// GET - List queued events
+export async function GET(request: Request) {
+  const { orgId, role, response } = await requireAuth();
+  if (response) return response;
+
+  const roleResponse = checkRole(role, ["admin", "superadmin", "manager"]);
+  if (roleResponse) return roleResponse;
+
+  try {
+    const url = new URL(request.url);
+    const status = (url.searchParams.get("status") || "pending") as CalendarEventReviewStatus;
+
+    if (!REVIEW_STATUSES.includes(status)) {
+      return errorResponse(`Invalid status. Must be one of: ${REVIEW_STATUSES.join(", ")}`, 400);
+    }
+
+    const supabase = await createClient();
+
+    const { data: reviews, error } = await supabase
+      .from("calendar_event_reviews")
+      .select(`
+        *,
+        google_calendar_links (id, calendar_name, templates (id, name))
+      `)
+      .eq("org_id", orgId!)
+      .eq("status", status)
+      .order("event_start", { ascending: status === "pending" })
+      .limit(200);
+
+    if (error) {
+      return errorResponse("Failed to fetch calendar event reviews", 500);
+    }
+
+    return successResponse(reviews || []);
+  } catch (error) {
+    console.error("Error fetching calendar event reviews:", error);
+    return errorResponse("Failed to fetch calendar event reviews", 500);
+  }
+}
@@ -9,11 +9,14 @@
  * - X-Goog-Resource-ID: The ID of the watched resource
  * - X-Goog-Resource-State: The type of change (sync, exists, not_exists)
  * - X-Goog-Message-Number: The sequence number of the message
+ * - X-Goog-Channel-Token: The secret we gave the channel when registering it
+ *
+ * Notifications for unknown channels or with the wrong token are refused.
  */
 
 import { NextResponse } from "next/server";
-import { createAdminClient } from "@/lib/supabase/server";
-import { syncCalendarLink } from "@/lib/google/calendar-sync";
+import { syncCalendarLink } from "@/lib/connectors/calendar-sync";
+import { verifyCalendarNotification } from "@/lib/google/calendar-channels";
 
 export async function POST(request: Request) {
   try {
@@ -22,6 +25,7 @@ export async function POST(request: Request) {
     const resourceId = request.headers.get("X-Goog-Resource-ID");
     const resourceState = request.headers.get("X-Goog-Resource-State");
     const messageNumber = request.headers.get("X-Goog-Message-Number");
+    const channelToken = request.headers.get("X-Goog-Channel-Token");
 
     console.log("[Calendar Webhook] Received notification:", {
       channelId,
@@ -36,6 +40,22 @@ export async function POST(request: Request) {
       return new NextResponse("Missing required headers", { status: 400 });
     }
 
+    const check = await verifyCalendarNotification({
+      channelId,
+      resourceId,
+      token: channelToken,
+    });
+
+    if (!check.ok) {
+      console.warn(`[Calendar Webhook] Rejected notification (${check.reason}) for channel:`, channelId);
+      // An unknown channel is one we've since replaced or stopped; 200
+      // stops Google retrying it
+      if (check.reason === "unknown_channel") {
+        return new NextResponse("OK", { status: 200 });
+      }
+      return new NextResponse("Invalid channel token", { status: 401 });
+    }
+
     // Handle sync state (initial verification)
     if (resourceState === "sync") {
       console.log("[Calendar Webhook] Sync state received, acknowledging");
@@ -44,23 +64,8 @@ export async function POST(request: Request) {
 
     // For other states (exists, not_exists), trigger a sync
     if (resourceState === "exists" || resourceState === "not_exists") {
-      const supabase = createAdminClient();
-
-      // Find the calendar link by webhook channel ID
-      const { data: link, error } = await supabase
-        .from("google_calendar_links")
-        .select("id")
-        .eq("webhook_channel_id", channelId)
-        .single();
-
-      if (error || !link) {
-        console.warn("[Calendar Webhook] No calendar link found for channel:", channelId);
-        // Return 200 to prevent Google from retrying
-        return new NextResponse("OK", { status: 200 });
-      }
-
       // Trigger async sync (don't await to respond quickly)
-      syncCalendarLink(link.id, { windowHours: 24 }).catch((err) => {
+      syncCalendarLink(check.linkId, { windowHours: 24, trigger: "push" }).catch((err) => {
         console.error("[Calendar Webhook] Sync failed:", err);
       });
 
@@ -52,6 +52,7 @@ export async function GET(
       `)
       .eq("id", id)
       .eq("org_id", orgId!)
+      .eq("calls.analyses.status", "completed")
       .single();
 
     if (error || !caller) {
@@ -5,8 +5,12 @@ import {
   errorResponse,
   createAuditLog,
   isValidUUID,
+  planLimitResponse,
 } from "@/lib/api-utils";
 import { analyzeCall } from "@/lib/ai-engine";
+import { runInsightTemplates } from "@/lib/insight-runner";
+import { emitWebhookEvent } from "@/lib/webhooks";
+import type { CallSpeaker, ComputedCallMetrics } from "@/types/database";
 
 // POST /api/calls/[id]/analyze - Trigger analysis for a call
 export async function POST(
@@ -48,25 +52,40 @@ export async function POST(
       .eq("id", id);
 
     try {
-      // Delete existing analysis and reports
-      await supabase.from("analyses").delete().eq("call_id", id);
-      await supabase.from("reports").delete().eq("call_id", id);
-
       // Run analysis
       const content = call.transcription || call.raw_notes;
-      const result = await analyzeCall(id, content, orgId!);
+      const metadata = call.metadata as {
+        speakers?: CallSpeaker[];
+        call_metrics?: ComputedCallMetrics | null;
+      } | null;
+      const result = await analyzeCall(id, content, orgId!, {
+        speakers: metadata?.speakers,
+        callMetrics: metadata?.call_metrics,
+      });
+
+      // Over the plan's AI limit: keep the call and its current analysis as they were
+      if (result.limitExceeded) {
+        await supabase.from("calls").update({ status: call.status }).eq("id", id);
+        return planLimitResponse(result.limitExceeded);
+      }
 
       if (!result.success || !result.analysis) {
         throw new Error(result.error || "Analysis failed");
       }
 
+      // Replace the existing analysis and reports
+      await supabase.from("analyses").delete().eq("call_id", id);
+      await supabase.from("reports").delete().eq("call_id", id);
+
       // Save analysis
       const { data: analysis, error: analysisError } = await supabase
         .from("analyses")
         .insert({
           call_id: id,
-          ai_model: "gpt-4o",
+          ai_model: result.model || "unknown",
           grading_results_json: result.analysis,
+          validation_attempts: (result.validationErrors?.length || 0) + 1,
+          validation_errors: result.validationErrors || [],
           overall_score: result.analysis.overallScore,
           composite_score: result.analysis.compositeScore,
           processing_time_ms: result.processingTimeMs,
@@ -124,6 +143,20 @@ export async function POST(
         .update({ status: "analyzed" })
         .eq("id", id);
 
+      try {
+        await runInsightTemplates(id);
+      } catch (insightError) {
+        console.error("Insight generation error:", insightError);
+      }
+
+      await emitWebhookEvent(orgId!, "call.analyzed", {
+        call_id: id,
+        caller_id: call.caller_id,
+        analysis_id: analysis.id,
+        overall_score: result.analysis.overallScore,
+        composite_score: result.analysis.compositeScore,
+      });
+
       // Audit log
       await createAuditLog(
         orgId!,
@@ -160,9 +193,23 @@ export async function POST(
             report_json,
             status,
             created_at
+          ),
+          script_adherence:call_script_adherence(
+            id,
+            script_id,
+            script_name,
+            script_version,
+            overall_score,
+            coverage_score,
+            order_score,
+            sections_covered,
+            sections_total,
+            sections,
+            updated_at
           )
         `)
         .eq("id", id)
+        .eq("analyses.status", "completed")
         .single();
 
       return NextResponse.json({ data: updatedCall });
@@ -173,6 +220,11 @@ export async function POST(
         .update({ status: "failed" })
         .eq("id", id);
 
+      await emitWebhookEvent(orgId!, "call.failed", {
+        call_id: id,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+
       throw error;
     }
   } catch (error) {
@@ -0,0 +1,121 @@
+import { createClient } from "@/lib/supabase/server";
+import {
+  requireAuth,
+  requireAdmin,
+  errorResponse,
+  successResponse,
+  createAuditLog,
+  isValidUUID,
+} from "@/lib/api-utils";
+import { runInsightTemplates } from "@/lib/insight-runner";
+import { z } from "zod";
+
+const regenerateSchema = z.object({
+  template_ids: z.array(z.string().uuid()).max(50).optional(),
+});
+
+// GET /api/calls/[id]/insights - Stored insight template outputs for a call
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { orgId, response } = await requireAuth();
+  if (response) return response;
+
+  const { id } = await params;
+
+  if (!isValidUUID(id)) {
+    return errorResponse("Invalid call ID", 400);
+  }
+
+  try {
+    const supabase = await createClient();
+
+    const { data: insights, error } = await supabase
+      .from("call_insights")
+      .select("*")
+      .eq("call_id", id)
+      .eq("org_id", orgId!)
+      .order("generated_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching call insights:", error);
+      return errorResponse("Failed to fetch call insights", 500);
+    }
+
+    return successResponse(insights || []);
+  } catch (error) {
+    console.error("Error fetching call insights:", error);
+    return errorResponse("Failed to fetch call insights", 500);
+  }
+}
+
+// POST /api/calls/[id]/insights - Regenerate insights for a call
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { user, orgId, response } = await requireAdmin();
+  if (response) return response;
+
+  const { id } = await params;
+
+  if (!isValidUUID(id)) {
+    return errorResponse("Invalid call ID", 400);
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const validationResult = regenerateSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return errorResponse(
+        `Validation error: ${validationResult.error.issues.map((e) => e.message).join(", ")}`,
+        400
+      );
+    }
+
+    const supabase = await createClient();
+
+    const { data: call } = await supabase
+      .from("calls")
+      .select("id, status")
+      .eq("id", id)
+      .eq("org_id", orgId!)
+      .single();
+
+    if (!call) {
+      return errorResponse("Call not found", 404);
+    }
+
+    if (call.status !== "analyzed") {
+      return errorResponse("Call must be analyzed before generating insights", 400);
+    }
+
+    const result = await runInsightTemplates(id, {
+      templateIds: validationResult.data.template_ids,
+    });
+
+    await createAuditLog(
+      orgId!,
+      user!.id,
+      "call.insights_generated",
+      "call",
+      id,
+      undefined,
+      { generated: result.generated, failed: result.failed },
+      request
+    );
+
+    const { data: insights } = await supabase
+      .from("call_insights")
+      .select("*")
+      .eq("call_id", id)
+      .order("generated_at", { ascending: false });
+
+    return successResponse({ ...result, insights: insights || [] });
+  } catch (error) {
+    console.error("Error generating call insights:", error);
+    return errorResponse("Failed to generate call insights", 500);
+  }
+}
@@ -46,10 +46,24 @@ export async function GET(
           status,
           pdf_url,
           created_at
+        ),
+        script_adherence:call_script_adherence(
+          id,
+          script_id,
+          script_name,
+          script_version,
+          overall_score,
+          coverage_score,
+          order_score,
+          sections_covered,
+          sections_total,
+          sections,
+          updated_at
         )
       `)
       .eq("id", id)
       .eq("org_id", orgId!)
+      .eq("analyses.status", "completed")
       .single();
 
     if (error || !call) {
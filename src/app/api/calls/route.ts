@@ -1,16 +1,17 @@
-import { createClient } from "@/lib/supabase/server";
 import { NextResponse } from "next/server";
 import { z } from "zod";
 import {
-  requireAuth,
-  requireAdmin,
+  requireAuthOrApiKey,
   getPaginationParams,
   getSortParams,
   errorResponse,
   createAuditLog,
   sanitizeInput,
+  planLimitResponse,
   isValidUUID,
 } from "@/lib/api-utils";
+import { notifyNewCall } from "@/lib/notifications";
+import { consumeUsage, releaseUsage } from "@/lib/usage";
 
 const createCallSchema = z.object({
   caller_id: z.string().uuid(),
@@ -26,11 +27,10 @@ const createCallSchema = z.object({
 
 // GET /api/calls - List calls
 export async function GET(request: Request) {
-  const { user, orgId, role, response } = await requireAuth();
+  const { user, orgId, role, supabase, response } = await requireAuthOrApiKey("calls:read");
   if (response) return response;
 
   try {
-    const supabase = await createClient();
     const { searchParams } = new URL(request.url);
 
     const { page, pageSize, offset } = getPaginationParams(searchParams);
@@ -49,7 +49,8 @@ export async function GET(request: Request) {
         caller:callers(id, name, team),
         analyses(id, overall_score, composite_score, created_at)
       `, { count: "exact" })
-      .eq("org_id", orgId!);
+      .eq("org_id", orgId!)
+      .eq("analyses.status", "completed");
 
     // For callers role, only show their own calls
     if (role === "caller") {
@@ -126,17 +127,18 @@ export async function GET(request: Request) {
   }
 }
 
-// POST /api/calls - Create call (manual entry)
+// POST /api/calls - Create call (manual entry or API key)
 export async function POST(request: Request) {
-  const { user, orgId, response } = await requireAdmin();
+  const { user, orgId, apiKey, supabase, response } = await requireAuthOrApiKey("calls:write", [
+    "admin",
+    "superadmin",
+  ]);
   if (response) return response;
 
   try {
     const body = await request.json();
     const validatedData = createCallSchema.parse(body);
 
-    const supabase = await createClient();
-
     // Verify caller exists in org
     const { data: caller } = await supabase
       .from("callers")
@@ -149,6 +151,11 @@ export async function POST(request: Request) {
       return errorResponse("Caller not found", 404);
     }
 
+    const usage = await consumeUsage(orgId!, "calls_count");
+    if (!usage.allowed) {
+      return planLimitResponse(usage);
+    }
+
     // Create call
     const { data: call, error } = await supabase
       .from("calls")
@@ -156,7 +163,7 @@ export async function POST(request: Request) {
         org_id: orgId!,
         caller_id: validatedData.caller_id,
         raw_notes: sanitizeInput(validatedData.raw_notes),
-        source: "manual",
+        source: apiKey ? "api" : "manual",
         status: "pending",
         customer_name: validatedData.customer_name ? sanitizeInput(validatedData.customer_name) : null,
         customer_company: validatedData.customer_company ? sanitizeInput(validatedData.customer_company) : null,
@@ -171,6 +178,7 @@ export async function POST(request: Request) {
 
     if (error) {
       console.error("Error creating call:", error);
+      await releaseUsage(orgId!, "calls_count");
       return errorResponse("Failed to create call", 500);
     }
 
@@ -192,6 +200,8 @@ export async function POST(request: Request) {
       });
     }
 
+    await notifyNewCall(call.id);
+
     // Audit log
     await createAuditLog(
       orgId!,
@@ -200,7 +210,7 @@ export async function POST(request: Request) {
       "call",
       call.id,
       undefined,
-      { caller_id: call.caller_id, source: "manual" },
+      { caller_id: call.caller_id, source: call.source, ...(apiKey && { api_key_id: apiKey.id }) },
       request
     );
 
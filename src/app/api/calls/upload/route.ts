@@ -1,14 +1,17 @@
 import { NextResponse } from "next/server";
-import { createClient } from "@/lib/supabase/server";
-import { requireAdmin, errorResponse, createAuditLog, isValidUUID } from "@/lib/api-utils";
+import { createClient, createAdminClient } from "@/lib/supabase/server";
+import { requireAdmin, errorResponse, createAuditLog, isValidUUID, planLimitResponse } from "@/lib/api-utils";
+import { notifyNewCall } from "@/lib/notifications";
+import { consumeUsage, releaseUsage } from "@/lib/usage";
 
 /**
  * POST /api/calls/upload
  * Upload an audio file for transcription and analysis.
  *
  * NOTE: This endpoint requires Supabase Storage to be configured with a
- * 'call-recordings' bucket. Audio processing is queued and handled
- * asynchronously by a separate worker.
+ * 'call-recordings' bucket. A transcription job is queued and picked up by
+ * the queue worker (/api/cron/process-queue), which stores the transcript
+ * and then queues the call for analysis.
  */
 export async function POST(request: Request) {
   const { user, orgId, response } = await requireAdmin();
@@ -69,6 +72,23 @@ export async function POST(request: Request) {
       return errorResponse("Caller not found in your organization", 404);
     }
 
+    // The call and the recording both count against the plan
+    const callUsage = await consumeUsage(orgId!, "calls_count");
+    if (!callUsage.allowed) {
+      return planLimitResponse(callUsage);
+    }
+
+    const storageUsage = await consumeUsage(orgId!, "storage_bytes_used", file.size);
+    if (!storageUsage.allowed) {
+      await releaseUsage(orgId!, "calls_count");
+      return planLimitResponse(storageUsage);
+    }
+
+    const releaseUpload = async () => {
+      await releaseUsage(orgId!, "calls_count");
+      await releaseUsage(orgId!, "storage_bytes_used", file.size);
+    };
+
     // Generate unique filename
     const timestamp = Date.now();
     const ext = file.name.split(".").pop() || "mp3";
@@ -84,6 +104,7 @@ export async function POST(request: Request) {
 
     if (uploadError) {
       console.error("Storage upload error:", uploadError);
+      await releaseUpload();
       // Check if bucket doesn't exist
       if (uploadError.message.includes("Bucket not found")) {
         return errorResponse(
@@ -129,14 +150,18 @@ export async function POST(request: Request) {
     if (callError) {
       // Rollback: delete uploaded file
       await supabase.storage.from("call-recordings").remove([fileName]);
+      await releaseUpload();
       console.error("Call creation error:", callError);
       return errorResponse("Failed to create call record", 500);
     }
 
-    // Queue for processing (transcription + analysis)
-    const { error: queueError } = await supabase.from("processing_queue").insert({
+    // Queue for transcription; the worker queues analysis once it's done.
+    // processing_queue is only writable by the service role.
+    const adminClient = createAdminClient();
+    const { error: queueError } = await adminClient.from("processing_queue").insert({
       org_id: orgId!,
       call_id: call.id,
+      job_type: "transcription",
       status: "queued",
       priority: 1, // Higher priority for audio uploads
     });
@@ -146,6 +171,8 @@ export async function POST(request: Request) {
       // Non-fatal - call was created, just not queued
     }
 
+    await notifyNewCall(call.id);
+
     // Audit log
     await createAuditLog(
       orgId!,
@@ -0,0 +1,65 @@
+/**
+ * Cron Job: Billing Dunning
+ *
+ * Moves organizations with a failed payment along the dunning schedule:
+ * grace with the plan intact, then restricted to free-tier limits after
+ * 7 days, then the subscription is canceled after 21 days.
+ *
+ * Configure in vercel.json:
+ * { "crons": [{ "path": "/api/cron/billing-dunning", "schedule": "0 * * * *" }] }
+ *
+ * Paying the invoice clears dunning through the billing webhook, so this
+ * job only ever moves orgs forward.
+ */
+
+import { NextResponse } from "next/server";
+import { runDunning } from "@/lib/billing";
+import { verifyCronRequest } from "@/lib/cron-auth";
+
+export const runtime = "nodejs";
+export const maxDuration = 300; // Allow up to 5 minutes
+
+const TIME_BUDGET_MS = 240000;
+
+export async function GET(request: Request) {
+  // Verify the request is authorized
+  if (!verifyCronRequest(request)) {
+    return NextResponse.json(
+      { error: "Unauthorized", message: "Invalid cron authorization" },
+      { status: 401 }
+    );
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const result = await runDunning({ deadline: startTime + TIME_BUDGET_MS });
+
+    return NextResponse.json({
+      success: true,
+      stats: {
+        ...result,
+        durationMs: Date.now() - startTime,
+      },
+    });
+  } catch (error) {
+    console.error("[Cron Dunning] Fatal error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Billing Dunning Failed",
+        message: error instanceof Error ? error.message : "Unknown error",
+        stats: {
+          durationMs: Date.now() - startTime,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for manual triggering
+export async function POST(request: Request) {
+  return GET(request);
+}
@@ -0,0 +1,62 @@
+/**
+ * Cron Job: Renew Calendar Channels
+ *
+ * Re-watches the calendar of every syncing calendar link whose Google push
+ * channel expires within a day (or that has none, e.g. after a failed
+ * registration), so notifications keep arriving without a gap.
+ *
+ * Configure in vercel.json:
+ * { "crons": [{ "path": "/api/cron/calendar-channels", "schedule": "0 0/6 * * *" }] }
+ */
+
+import { NextResponse } from "next/server";
+import { renewExpiringChannels } from "@/lib/google/calendar-channels";
+import { verifyCronRequest } from "@/lib/cron-auth";
+
+export const runtime = "nodejs";
+export const maxDuration = 300; // Allow up to 5 minutes
+
+const TIME_BUDGET_MS = 240000;
+
+export async function GET(request: Request) {
+  // Verify the request is authorized
+  if (!verifyCronRequest(request)) {
+    return NextResponse.json(
+      { error: "Unauthorized", message: "Invalid cron authorization" },
+      { status: 401 }
+    );
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const result = await renewExpiringChannels({ deadline: startTime + TIME_BUDGET_MS });
+
+    return NextResponse.json({
+      success: result.failed === 0,
+      stats: {
+        ...result,
+        durationMs: Date.now() - startTime,
+      },
+    });
+  } catch (error) {
+    console.error("[Cron Calendar Channels] Fatal error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Calendar Channel Renewal Failed",
+        message: error instanceof Error ? error.message : "Unknown error",
+        stats: {
+          durationMs: Date.now() - startTime,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for manual triggering
+export async function POST(request: Request) {
+  return GET(request);
+}
@@ -0,0 +1,68 @@
+/**
+ * Cron Job: Sync Calendars Without Push
+ *
+ * Syncs every enabled calendar link that no push channel keeps current:
+ * Outlook links, which have no channels, and Google links whose channel
+ * couldn't be registered. Runs are incremental from each link's cursor.
+ *
+ * Configure in vercel.json:
+ * { "crons": [{ "path": "/api/cron/calendar-sync", "schedule": "0/15 * * * *" }] }
+ */
+
+import { NextResponse } from "next/server";
+import { syncAllCalendars } from "@/lib/connectors/calendar-sync";
+import { verifyCronRequest } from "@/lib/cron-auth";
+
+export const runtime = "nodejs";
+export const maxDuration = 300; // Allow up to 5 minutes
+
+const TIME_BUDGET_MS = 240000;
+
+export async function GET(request: Request) {
+  // Verify the request is authorized
+  if (!verifyCronRequest(request)) {
+    return NextResponse.json(
+      { error: "Unauthorized", message: "Invalid cron authorization" },
+      { status: 401 }
+    );
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const result = await syncAllCalendars({
+      withoutPushOnly: true,
+      deadline: startTime + TIME_BUDGET_MS,
+    });
+
+    return NextResponse.json({
+      success: result.errors.length === 0,
+      stats: {
+        linksSynced: result.synced,
+        sessionsCreated: result.sessionsCreated,
+        errors: result.errors.length,
+        durationMs: Date.now() - startTime,
+      },
+      errors: result.errors.length > 0 ? result.errors : undefined,
+    });
+  } catch (error) {
+    console.error("[Cron Calendar Sync] Fatal error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Calendar Sync Failed",
+        message: error instanceof Error ? error.message : "Unknown error",
+        stats: {
+          durationMs: Date.now() - startTime,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for manual triggering
+export async function POST(request: Request) {
+  return GET(request);
+}
@@ -0,0 +1,65 @@
+/**
+ * Cron Job: Criteria Insights
+ *
+ * Recalculates every org's per-criterion score distributions, trends and
+ * calibration flags (criteria_optimizations) from the last 90 days of
+ * session and AI call scores. Should be called by Vercel Cron once a day.
+ *
+ * Configure in vercel.json:
+ * { "crons": [{ "path": "/api/cron/criteria-insights", "schedule": "30 3 * * *" }] }
+ *
+ * Each org's refresh replaces its previous rows, so re-running is harmless.
+ */
+
+import { NextResponse } from "next/server";
+import { refreshAllCriteriaInsights } from "@/lib/criteria-insights";
+import { verifyCronRequest } from "@/lib/cron-auth";
+
+export const runtime = "nodejs";
+export const maxDuration = 300; // Allow up to 5 minutes
+
+// Leaves room to finish the org that's being refreshed at the deadline
+const TIME_BUDGET_MS = 240000;
+
+export async function GET(request: Request) {
+  // Verify the request is authorized
+  if (!verifyCronRequest(request)) {
+    return NextResponse.json(
+      { error: "Unauthorized", message: "Invalid cron authorization" },
+      { status: 401 }
+    );
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const result = await refreshAllCriteriaInsights({ deadline: startTime + TIME_BUDGET_MS });
+
+    return NextResponse.json({
+      success: true,
+      stats: {
+        ...result,
+        durationMs: Date.now() - startTime,
+      },
+    });
+  } catch (error) {
+    console.error("[Cron Criteria Insights] Fatal error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Criteria Insights Failed",
+        message: error instanceof Error ? error.message : "Unknown error",
+        stats: {
+          durationMs: Date.now() - startTime,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for manual triggering
+export async function POST(request: Request) {
+  return GET(request);
+}
@@ -0,0 +1,66 @@
+/**
+ * Cron Job: Daily Digest Emails
+ *
+ * Emails each org's admins and managers a summary of the last day's calls,
+ * for orgs with OrgSettings.notifications.dailyDigest turned on.
+ * Should be called by Vercel Cron once a day.
+ *
+ * Configure in vercel.json:
+ * { "crons": [{ "path": "/api/cron/daily-digest", "schedule": "0 7 * * *" }] }
+ *
+ * Digests are keyed by date in notification_log, so a second run on the
+ * same day only sends to recipients that were missed.
+ */
+
+import { NextResponse } from "next/server";
+import { sendDailyDigests } from "@/lib/notifications";
+import { verifyCronRequest } from "@/lib/cron-auth";
+
+export const runtime = "nodejs";
+export const maxDuration = 300; // Allow up to 5 minutes
+
+// SMTP sends time out after 15s, so this leaves room for the last one
+const TIME_BUDGET_MS = 240000;
+
+export async function GET(request: Request) {
+  // Verify the request is authorized
+  if (!verifyCronRequest(request)) {
+    return NextResponse.json(
+      { error: "Unauthorized", message: "Invalid cron authorization" },
+      { status: 401 }
+    );
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const result = await sendDailyDigests({ deadline: startTime + TIME_BUDGET_MS });
+
+    return NextResponse.json({
+      success: true,
+      stats: {
+        ...result,
+        durationMs: Date.now() - startTime,
+      },
+    });
+  } catch (error) {
+    console.error("[Cron Digest] Fatal error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Daily Digest Failed",
+        message: error instanceof Error ? error.message : "Unknown error",
+        stats: {
+          durationMs: Date.now() - startTime,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for manual triggering
+export async function POST(request: Request) {
+  return GET(request);
+}
@@ -0,0 +1,82 @@
+/**
+ * Cron Job: Deliver Outbound Webhooks
+ *
+ * Sends queued webhook_deliveries to subscriber endpoints and retries
+ * failed ones once their backoff has elapsed.
+ * Should be called by Vercel Cron every minute.
+ *
+ * Configure in vercel.json:
+ * { "crons": [{ "path": "/api/cron/deliver-webhooks", "schedule": "* * * * *" }] }
+ *
+ * Each run:
+ *   1. Reaps deliveries stuck in "delivering" (worker died or timed out)
+ *   2. Claims due deliveries (SKIP LOCKED)
+ *   3. Delivers claimed items until the time budget runs out
+ */
+
+import { NextResponse } from "next/server";
+import { processWebhookDeliveries, reapStuckWebhookDeliveries } from "@/lib/webhooks";
+import { verifyCronRequest } from "@/lib/cron-auth";
+
+export const runtime = "nodejs";
+export const maxDuration = 300; // Allow up to 5 minutes
+
+// Each request times out after 10s, so this leaves room for the last one
+const TIME_BUDGET_MS = 240000;
+
+export async function GET(request: Request) {
+  // Verify the request is authorized
+  if (!verifyCronRequest(request)) {
+    return NextResponse.json(
+      { error: "Unauthorized", message: "Invalid cron authorization" },
+      { status: 401 }
+    );
+  }
+
+  const startTime = Date.now();
+  const { searchParams } = new URL(request.url);
+  const maxItems = Math.min(
+    Math.max(1, parseInt(searchParams.get("maxItems") || "25", 10) || 25),
+    100
+  );
+
+  try {
+    const reaped = await reapStuckWebhookDeliveries();
+
+    const result = await processWebhookDeliveries({
+      maxItems,
+      deadline: startTime + TIME_BUDGET_MS,
+    });
+
+    return NextResponse.json({
+      success: true,
+      stats: {
+        reaped,
+        claimed: result.claimed,
+        succeeded: result.succeeded,
+        failed: result.failed,
+        released: result.released,
+        durationMs: Date.now() - startTime,
+      },
+    });
+  } catch (error) {
+    console.error("[Cron Webhooks] Fatal error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Webhook Delivery Failed",
+        message: error instanceof Error ? error.message : "Unknown error",
+        stats: {
+          durationMs: Date.now() - startTime,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for manual triggering
+export async function POST(request: Request) {
+  return GET(request);
+}
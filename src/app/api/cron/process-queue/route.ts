@@ -0,0 +1,83 @@
+/**
+ * Cron Job: Process Analysis Queue
+ *
+ * Drains processing_queue so webhook-ingested and uploaded calls get
+ * analyzed without anyone clicking "Analyze".
+ * Should be called by Vercel Cron every 1-5 minutes.
+ *
+ * Configure in vercel.json:
+ * { "crons": [{ "path": "/api/cron/process-queue", "schedule": "* * * * *" }] }
+ *
+ * Each run:
+ *   1. Reaps items stuck in "processing" (runner died or timed out)
+ *   2. Claims due items row-by-row (SKIP LOCKED), capped per org
+ *   3. Processes claimed items until the time budget runs out
+ */
+
+import { NextResponse } from "next/server";
+import { processQueue, reapStuckQueueItems } from "@/lib/ai-engine";
+import { verifyCronRequest } from "@/lib/cron-auth";
+
+export const runtime = "nodejs";
+export const maxDuration = 300; // Allow up to 5 minutes
+
+// Stop starting new items after this, leaving room for the last analysis
+const TIME_BUDGET_MS = 200000;
+
+export async function GET(request: Request) {
+  // Verify the request is authorized
+  if (!verifyCronRequest(request)) {
+    return NextResponse.json(
+      { error: "Unauthorized", message: "Invalid cron authorization" },
+      { status: 401 }
+    );
+  }
+
+  const startTime = Date.now();
+  const { searchParams } = new URL(request.url);
+  const maxItems = Math.min(
+    Math.max(1, parseInt(searchParams.get("maxItems") || "10", 10) || 10),
+    50
+  );
+
+  try {
+    const reaped = await reapStuckQueueItems();
+
+    const result = await processQueue({
+      maxItems,
+      deadline: startTime + TIME_BUDGET_MS,
+    });
+
+    return NextResponse.json({
+      success: result.failed === 0,
+      stats: {
+        reaped,
+        claimed: result.claimed,
+        processed: result.processed,
+        failed: result.failed,
+        deferred: result.deferred,
+        released: result.released,
+        durationMs: Date.now() - startTime,
+      },
+    });
+  } catch (error) {
+    console.error("[Cron Queue] Fatal error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Queue Processing Failed",
+        message: error instanceof Error ? error.message : "Unknown error",
+        stats: {
+          durationMs: Date.now() - startTime,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for manual triggering
+export async function POST(request: Request) {
+  return GET(request);
+}
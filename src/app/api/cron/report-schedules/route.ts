@@ -0,0 +1,66 @@
+/**
+ * Cron Job: Scheduled Reports
+ *
+ * Generates the reports whose schedules are due and delivers them by email
+ * or outbound webhook. Schedules use their own cron cadence in the org's
+ * timezone; this job only has to run often enough to pick them up.
+ *
+ * Configure in vercel.json:
+ * { "crons": [{ "path": "/api/cron/report-schedules", "schedule": "*\/15 * * * *" }] }
+ *
+ * Each run is claimed by (schedule, scheduled time) in report_schedule_runs,
+ * so overlapping invocations never send a report twice.
+ */
+
+import { NextResponse } from "next/server";
+import { runDueReportSchedules } from "@/lib/reports/schedules";
+import { verifyCronRequest } from "@/lib/cron-auth";
+
+export const runtime = "nodejs";
+export const maxDuration = 300; // Allow up to 5 minutes
+
+// Leaves room to finish the report that's being generated at the deadline
+const TIME_BUDGET_MS = 240000;
+
+export async function GET(request: Request) {
+  // Verify the request is authorized
+  if (!verifyCronRequest(request)) {
+    return NextResponse.json(
+      { error: "Unauthorized", message: "Invalid cron authorization" },
+      { status: 401 }
+    );
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const result = await runDueReportSchedules({ deadline: startTime + TIME_BUDGET_MS });
+
+    return NextResponse.json({
+      success: true,
+      stats: {
+        ...result,
+        durationMs: Date.now() - startTime,
+      },
+    });
+  } catch (error) {
+    console.error("[Cron Reports] Fatal error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Scheduled Reports Failed",
+        message: error instanceof Error ? error.message : "Unknown error",
+        stats: {
+          durationMs: Date.now() - startTime,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for manual triggering
+export async function POST(request: Request) {
+  return GET(request);
+}
@@ -1,7 +1,8 @@
 /**
  * Cron Job: Sync Meet Transcripts
  *
- * Automatically syncs transcripts for all Google connections.
+ * Automatically syncs transcripts for all Google connections, then retries
+ * call creation for transcripts whose calendar session appeared later.
  * Should be called by Vercel Cron every 15-30 minutes.
  *
  * Configure in vercel.json:
@@ -11,37 +12,12 @@
 import { NextResponse } from "next/server";
 import { getAllGoogleConnections } from "@/lib/google/storage";
 import { syncConnectionTranscripts } from "@/lib/google/sync-engine";
+import { reconcilePendingTranscripts } from "@/lib/google/reconcile";
+import { verifyCronRequest } from "@/lib/cron-auth";
 
 export const runtime = "nodejs";
 export const maxDuration = 300; // Allow up to 5 minutes
 
-/**
- * Verify the cron request is from Vercel.
- * Uses CRON_SECRET env var for authentication.
- */
-function verifyCronRequest(request: Request): boolean {
-  // In development, allow requests without auth
-  if (process.env.NODE_ENV === "development") {
-    return true;
-  }
-
-  // Check for Vercel cron authorization header
-  const authHeader = request.headers.get("authorization");
-  const cronSecret = process.env.CRON_SECRET;
-
-  if (cronSecret && authHeader === `Bearer ${cronSecret}`) {
-    return true;
-  }
-
-  // Also check the x-vercel-cron header (set automatically by Vercel)
-  const vercelCronHeader = request.headers.get("x-vercel-cron");
-  if (vercelCronHeader === "1") {
-    return true;
-  }
-
-  return false;
-}
-
 export async function GET(request: Request) {
   // Verify the request is authorized
   if (!verifyCronRequest(request)) {
@@ -125,6 +101,11 @@ export async function GET(request: Request) {
       }
     }
 
+    const reconciliation = await reconcilePendingTranscripts();
+    if (reconciliation.errors.length > 0) {
+      console.error("[Cron Sync] Reconciliation errors:", reconciliation.errors);
+    }
+
     const durationMs = Date.now() - startTime;
 
     return NextResponse.json({
@@ -133,6 +114,7 @@ export async function GET(request: Request) {
         connectionsProcessed: results.length,
         totalConnections: connections.length,
         transcriptsSaved: totalSaved,
+        callsCreated: reconciliation.linked,
         errors: totalErrors,
         durationMs,
       },
@@ -0,0 +1,103 @@
+/**
+ * Cron Job: Sync Teams Transcripts
+ *
+ * Syncs Teams meeting transcripts for all Microsoft connections into the
+ * shared transcript store, creating calls for the ones that match a
+ * calendar session. Transcripts whose session appears later are retried by
+ * the sync-meet cron's reconciliation pass.
+ *
+ * Configure in vercel.json:
+ * { "crons": [{ "path": "/api/cron/sync-teams", "schedule": "0/15 * * * *" }] }
+ */
+
+import { NextResponse } from "next/server";
+import { getAllMicrosoftConnections } from "@/lib/microsoft/storage";
+import { syncMicrosoftTranscripts } from "@/lib/microsoft/transcript-sync";
+import { verifyCronRequest } from "@/lib/cron-auth";
+
+export const runtime = "nodejs";
+export const maxDuration = 300; // Allow up to 5 minutes
+
+const TIME_BUDGET_MS = 240000;
+
+export async function GET(request: Request) {
+  // Verify the request is authorized
+  if (!verifyCronRequest(request)) {
+    return NextResponse.json(
+      { error: "Unauthorized", message: "Invalid cron authorization" },
+      { status: 401 }
+    );
+  }
+
+  const startTime = Date.now();
+
+  try {
+    // Least recently synced first, so a cut-short run doesn't starve anyone
+    const connections = await getAllMicrosoftConnections();
+
+    const results: {
+      connectionId: string;
+      email: string;
+      success: boolean;
+      transcriptsSaved: number;
+      errors: string[];
+    }[] = [];
+
+    let totalSaved = 0;
+    let totalErrors = 0;
+
+    for (const connection of connections) {
+      if (Date.now() - startTime > TIME_BUDGET_MS) {
+        console.warn("[Cron Teams Sync] Approaching timeout, stopping early");
+        break;
+      }
+
+      const result = await syncMicrosoftTranscripts(connection, {
+        windowHours: 24,
+        maxConferences: 20,
+      });
+
+      results.push({
+        connectionId: connection.id,
+        email: connection.microsoft_email,
+        success: result.success,
+        transcriptsSaved: result.transcriptsSaved,
+        errors: result.errors,
+      });
+
+      totalSaved += result.transcriptsSaved;
+      if (!result.success) totalErrors++;
+    }
+
+    return NextResponse.json({
+      success: totalErrors === 0,
+      stats: {
+        connectionsProcessed: results.length,
+        totalConnections: connections.length,
+        transcriptsSaved: totalSaved,
+        errors: totalErrors,
+        durationMs: Date.now() - startTime,
+      },
+      results,
+    });
+  } catch (error) {
+    console.error("[Cron Teams Sync] Fatal error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Teams Sync Failed",
+        message: error instanceof Error ? error.message : "Unknown error",
+        stats: {
+          durationMs: Date.now() - startTime,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for manual triggering
+export async function POST(request: Request) {
+  return GET(request);
+}
@@ -12,6 +12,7 @@ import {
   getGoogleConnection,
   getDecryptedRefreshToken,
 } from "@/lib/google/storage";
+import { teardownConnectionChannels } from "@/lib/google/calendar-channels";
 
 /**
  * Attempt to revoke the token with Google.
@@ -80,6 +81,9 @@ export async function POST(request: Request) {
       );
     }
 
+    // Stop calendar push channels while the connection's tokens still work
+    await teardownConnectionChannels(connectionId);
+
     // Optionally revoke the token with Google
     let revoked = false;
     if (revokeToken) {
@@ -1,7 +1,7 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
 import { requireAuth, errorResponse } from "@/lib/api-utils";
-import { AnalysisResults } from "@/types/database";
+import { AnalysisResults, InsightCategory, InsightItem, InsightOutputFormat } from "@/types/database";
 
 interface Insight {
   id: string;
@@ -15,6 +15,21 @@ interface Insight {
   customerCompany?: string;
 }
 
+interface GeneratedInsight {
+  id: string;
+  templateId: string | null;
+  templateName: string;
+  category: InsightCategory;
+  outputFormat: InsightOutputFormat;
+  content: string | null;
+  items: InsightItem[];
+  generatedAt: string;
+  callId: string;
+  callTimestamp: string;
+  customerName?: string;
+  customerCompany?: string;
+}
+
 export async function GET(request: Request) {
   const { user, orgId, role, response } = await requireAuth();
   if (response) return response;
@@ -26,6 +41,7 @@ export async function GET(request: Request) {
     // Optional filters
     const type = searchParams.get("type");
     const importance = searchParams.get("importance");
+    const category = searchParams.get("category");
     const limit = Math.min(parseInt(searchParams.get("limit") || "50", 10), 100);
 
     // Build query for calls with analyses
@@ -44,9 +60,12 @@ export async function GET(request: Request) {
       `)
       .eq("org_id", orgId!)
       .eq("status", "analyzed")
-      .order("call_timestamp", { ascending: false });
+      .eq("analyses.status", "completed")
+      .order("call_timestamp", { ascending: false })
+      .order("created_at", { referencedTable: "analyses", ascending: false });
 
     // For callers, only show their own calls
+    let callerId: string | null = null;
     if (role === "caller") {
       const { data: callerData } = await supabase
         .from("callers")
@@ -55,9 +74,10 @@ export async function GET(request: Request) {
         .single();
 
       if (callerData) {
+        callerId = callerData.id;
         query = query.eq("caller_id", callerData.id);
       } else {
-        return NextResponse.json({ insights: [] });
+        return NextResponse.json({ insights: [], generated: [] });
       }
     }
 
@@ -80,6 +100,7 @@ export async function GET(request: Request) {
 
       if (!analyses || analyses.length === 0) return;
 
+      // Newest completed analysis; failed runs are filtered out above
       const analysis = analyses[0];
       const results = analysis.grading_results_json;
 
@@ -196,8 +217,69 @@ export async function GET(request: Request) {
       return new Date(b.callTimestamp).getTime() - new Date(a.callTimestamp).getTime();
     });
 
+    // Stored outputs of the org's insight templates
+    let generatedQuery = supabase
+      .from("call_insights")
+      .select(`
+        id,
+        insight_template_id,
+        template_name,
+        category,
+        output_format,
+        content,
+        items,
+        generated_at,
+        call:calls!inner (
+          id,
+          customer_name,
+          customer_company,
+          call_timestamp,
+          caller_id
+        )
+      `)
+      .eq("org_id", orgId!)
+      .eq("status", "completed")
+      .order("generated_at", { ascending: false })
+      .limit(limit);
+
+    if (category) {
+      generatedQuery = generatedQuery.eq("category", category);
+    }
+    if (callerId) {
+      generatedQuery = generatedQuery.eq("call.caller_id", callerId);
+    }
+
+    const { data: generatedRows, error: generatedError } = await generatedQuery;
+
+    if (generatedError) {
+      console.error("Error fetching generated insights:", generatedError);
+    }
+
+    const generated: GeneratedInsight[] = (generatedRows || []).map((row) => {
+      const call = row.call as unknown as {
+        id: string;
+        customer_name: string | null;
+        customer_company: string | null;
+        call_timestamp: string;
+      };
+      return {
+        id: row.id,
+        templateId: row.insight_template_id,
+        templateName: row.template_name,
+        category: row.category,
+        outputFormat: row.output_format,
+        content: row.content,
+        items: (row.items as InsightItem[]) || [],
+        generatedAt: row.generated_at,
+        callId: call.id,
+        callTimestamp: call.call_timestamp,
+        customerName: call.customer_name || undefined,
+        customerCompany: call.customer_company || undefined,
+      };
+    });
+
     // Return limited results
-    return NextResponse.json({ insights: insights.slice(0, limit) });
+    return NextResponse.json({ insights: insights.slice(0, limit), generated });
   } catch (error) {
     console.error("Error fetching insights:", error);
     return errorResponse("Failed to fetch insights", 500);
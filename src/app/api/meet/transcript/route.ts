@@ -27,9 +27,11 @@ import { NextRequest, NextResponse } from "next/server";
 import {
   findBestTranscript,
   listTranscriptEntries,
+  listParticipants,
   entriesToPlainText,
   MeetAPIError,
 } from "@/lib/google/meet-client";
+import { buildSpeakerNameMap, matchParticipants } from "@/lib/google/participants";
 import {
   fetchTranscriptAsPlainText,
   DocsAPIError,
@@ -161,6 +163,18 @@ export async function POST(
     let text = "";
     let entriesCount = 0;
 
+    // Display names for entry speaker labels (no org directory here)
+    const speakerNames = await listParticipants(accessToken, conferenceRecord.name)
+      .then((participants) =>
+        buildSpeakerNameMap(matchParticipants(participants, { users: [], callers: [], connections: [] }))
+      )
+      .catch((participantsError) => {
+        warnings.push(
+          `Failed to fetch participants: ${participantsError instanceof Error ? participantsError.message : "Unknown error"}. Speakers are labelled by ID.`
+        );
+        return new Map<string, string>();
+      });
+
     // Try to get transcript text based on preference
     if (
       prefer === "docs" &&
@@ -184,14 +198,14 @@ export async function POST(
         );
 
         const entries = await listTranscriptEntries(accessToken, transcript.name);
-        text = entriesToPlainText(entries);
+        text = entriesToPlainText(entries, speakerNames);
         entriesCount = entries.length;
       }
     } else {
       // Fallback or explicit preference: Fetch transcript entries directly
       try {
         const entries = await listTranscriptEntries(accessToken, transcript.name);
-        text = entriesToPlainText(entries);
+        text = entriesToPlainText(entries, speakerNames);
         entriesCount = entries.length;
 
         if (entries.length === 0) {
@@ -0,0 +1,130 @@
+/**
+ * Microsoft OAuth Callback Route
+ *
+ * Handles the OAuth 2.0 callback from Microsoft after user authorization.
+ * Verifies CSRF state, exchanges code for tokens, and stores the connection.
+ */
+
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  verifyMicrosoftState,
+  exchangeMicrosoftCode,
+  getTenantIdFromIdToken,
+} from "@/lib/microsoft/oauth";
+import { getMe } from "@/lib/microsoft/graph-client";
+import { createOrUpdateMicrosoftConnection } from "@/lib/microsoft/storage";
+
+function errorRedirect(origin: string, error: string, description?: string | null) {
+  const redirectUrl = new URL("/dashboard/google", origin);
+  redirectUrl.searchParams.set("provider", "microsoft");
+  redirectUrl.searchParams.set("error", error);
+  if (description) {
+    redirectUrl.searchParams.set("error_description", description);
+  }
+  return NextResponse.redirect(redirectUrl);
+}
+
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const code = url.searchParams.get("code");
+  const state = url.searchParams.get("state");
+  const error = url.searchParams.get("error");
+  const errorDescription = url.searchParams.get("error_description");
+
+  // Handle OAuth errors from Microsoft (e.g. consent declined)
+  if (error) {
+    console.error("[Microsoft Callback] OAuth error:", error, errorDescription);
+    return errorRedirect(url.origin, error, errorDescription);
+  }
+
+  if (!code || !state) {
+    console.error("[Microsoft Callback] Missing code or state");
+    return errorRedirect(url.origin, "invalid_request", "Missing required parameters");
+  }
+
+  try {
+    // Verify CSRF state and extract payload
+    const statePayload = verifyMicrosoftState(state);
+
+    // Verify the user is authenticated and matches the state
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      console.error("[Microsoft Callback] User not authenticated");
+      const redirectUrl = new URL("/login", url.origin);
+      redirectUrl.searchParams.set("error", "session_expired");
+      return NextResponse.redirect(redirectUrl);
+    }
+
+    if (user.id !== statePayload.userId) {
+      console.error("[Microsoft Callback] User ID mismatch");
+      return errorRedirect(url.origin, "invalid_state", "Session mismatch - please try again");
+    }
+
+    const tokens = await exchangeMicrosoftCode(code);
+
+    // offline_access was requested, so a refresh token should always come back
+    if (!tokens.refresh_token) {
+      console.error("[Microsoft Callback] No refresh token received");
+      return errorRedirect(
+        url.origin,
+        "no_refresh_token",
+        "Microsoft did not provide a refresh token. Please try again."
+      );
+    }
+
+    const me = await getMe(tokens.access_token);
+    const email = me.mail || me.userPrincipalName;
+
+    const connection = await createOrUpdateMicrosoftConnection({
+      userId: user.id,
+      microsoftEmail: email,
+      microsoftUserId: me.id,
+      tenantId: getTenantIdFromIdToken(tokens.id_token),
+      accessToken: tokens.access_token,
+      refreshToken: tokens.refresh_token,
+      tokenExpiry: new Date(Date.now() + tokens.expires_in * 1000),
+      scopes: tokens.scope.split(" "),
+    });
+
+    console.log("[Microsoft Callback] Connection saved:", {
+      connectionId: connection.id,
+      email: connection.microsoft_email,
+    });
+
+    const redirectAfter = statePayload.redirectUrl || "/dashboard/google";
+    const redirectUrl = new URL(redirectAfter, url.origin);
+    redirectUrl.searchParams.set("provider", "microsoft");
+    redirectUrl.searchParams.set("success", "true");
+    redirectUrl.searchParams.set("email", email);
+
+    return NextResponse.redirect(redirectUrl);
+  } catch (err) {
+    console.error("[Microsoft Callback] Error processing callback:", err);
+
+    if (err instanceof Error) {
+      if (err.message.includes("Invalid state")) {
+        return errorRedirect(
+          url.origin,
+          "invalid_state",
+          "Security validation failed - please try again"
+        );
+      }
+      if (err.message.includes("State expired")) {
+        return errorRedirect(
+          url.origin,
+          "state_expired",
+          "Authorization request expired - please try again"
+        );
+      }
+      return errorRedirect(url.origin, "callback_error", err.message);
+    }
+
+    return errorRedirect(url.origin, "unknown_error", "An unexpected error occurred");
+  }
+}
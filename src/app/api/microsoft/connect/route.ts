@@ -0,0 +1,47 @@
+/**
+ * Microsoft OAuth Connect Route
+ *
+ * Initiates the OAuth 2.0 authorization flow by redirecting to the
+ * Microsoft identity platform. Requires authenticated session.
+ */
+
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { buildMicrosoftAuthUrl } from "@/lib/microsoft/oauth";
+
+export async function GET(request: Request) {
+  try {
+    // Get authenticated user
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized", message: "You must be logged in to connect Microsoft" },
+        { status: 401 }
+      );
+    }
+
+    // Get optional redirect URL from query params
+    const url = new URL(request.url);
+    const redirectAfter = url.searchParams.get("redirect") || undefined;
+
+    // Build the Microsoft OAuth URL with CSRF-protected state
+    const authUrl = buildMicrosoftAuthUrl(user.id, redirectAfter);
+
+    return NextResponse.redirect(authUrl);
+  } catch (error) {
+    console.error("[Microsoft Connect] Error:", error);
+
+    return NextResponse.json(
+      {
+        error: "OAuth Error",
+        message: error instanceof Error ? error.message : "Failed to initiate Microsoft OAuth",
+      },
+      { status: 500 }
+    );
+  }
+}
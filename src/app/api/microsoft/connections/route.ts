@@ -0,0 +1,45 @@
+/**
+ * Microsoft Connections API Routes
+ *
+ * List Microsoft OAuth connections for the authenticated user.
+ */
+
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { listUserMicrosoftConnections } from "@/lib/microsoft/storage";
+
+/**
+ * GET: List all Microsoft connections for the authenticated user.
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized", message: "You must be logged in" },
+        { status: 401 }
+      );
+    }
+
+    const connections = await listUserMicrosoftConnections(user.id);
+
+    return NextResponse.json({
+      success: true,
+      connections,
+    });
+  } catch (error) {
+    console.error("[Microsoft Connections] List error:", error);
+    return NextResponse.json(
+      {
+        error: "Server Error",
+        message: error instanceof Error ? error.message : "Failed to list connections",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Microsoft OAuth Disconnect Route
+ *
+ * Disconnects a Microsoft account by deleting the connection, along with
+ * its calendar links and synced Teams transcripts. Microsoft has no token
+ * revocation endpoint for delegated tokens; users remove the app's access
+ * from their account page.
+ */
+
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { deleteMicrosoftConnection, getMicrosoftConnection } from "@/lib/microsoft/storage";
+
+export async function POST(request: Request) {
+  try {
+    // Get authenticated user
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized", message: "You must be logged in" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { connectionId } = body as { connectionId?: string };
+
+    if (!connectionId) {
+      return NextResponse.json(
+        { error: "Bad Request", message: "connectionId is required" },
+        { status: 400 }
+      );
+    }
+
+    // Verify ownership before deleting
+    const connection = await getMicrosoftConnection(connectionId);
+
+    if (!connection) {
+      return NextResponse.json(
+        { error: "Not Found", message: "Connection not found" },
+        { status: 404 }
+      );
+    }
+
+    if (connection.user_id !== user.id) {
+      return NextResponse.json(
+        { error: "Forbidden", message: "You do not own this connection" },
+        { status: 403 }
+      );
+    }
+
+    const deleted = await deleteMicrosoftConnection(user.id, connectionId);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "Delete Failed", message: "Failed to delete connection" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Microsoft account disconnected successfully",
+    });
+  } catch (error) {
+    console.error("[Microsoft Disconnect] Error:", error);
+    return NextResponse.json(
+      {
+        error: "Server Error",
+        message: error instanceof Error ? error.message : "Failed to disconnect Microsoft account",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: Request) {
+  // Support DELETE method as well
+  return POST(request);
+}
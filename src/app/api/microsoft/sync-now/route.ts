@@ -0,0 +1,101 @@
+/**
+ * Manual Teams Transcript Sync Route
+ *
+ * Lets users sync Teams transcripts for their Microsoft connections now
+ * instead of waiting for the cron. Can sync a specific connection or all
+ * of them.
+ */
+
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { syncUserMicrosoftTranscripts } from "@/lib/microsoft/transcript-sync";
+import { validateAndSanitizeUUID } from "@/lib/api-utils";
+
+export const runtime = "nodejs";
+export const maxDuration = 60; // Allow up to 60 seconds for sync
+
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized", message: "You must be logged in" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { connectionId: rawConnectionId, windowHours = 24 } = body as {
+      connectionId?: string;
+      windowHours?: number;
+    };
+
+    let connectionId: string | undefined;
+    if (rawConnectionId) {
+      try {
+        connectionId = validateAndSanitizeUUID(rawConnectionId, "connectionId");
+      } catch (validationError) {
+        return NextResponse.json(
+          {
+            error: "Bad Request",
+            message: validationError instanceof Error ? validationError.message : "Invalid connectionId",
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (windowHours < 1 || windowHours > 168) {
+      return NextResponse.json(
+        { error: "Bad Request", message: "windowHours must be between 1 and 168 (1 week)" },
+        { status: 400 }
+      );
+    }
+
+    const results = await syncUserMicrosoftTranscripts(user.id, { connectionId, windowHours });
+    const allErrors = results.flatMap((r) => r.errors);
+
+    return NextResponse.json({
+      success: results.every((r) => r.success),
+      summary: {
+        connectionsProcessed: results.length,
+        conferencesChecked: results.reduce((sum, r) => sum + r.conferencesChecked, 0),
+        transcriptsFetched: results.reduce((sum, r) => sum + r.transcriptsFetched, 0),
+        transcriptsSaved: results.reduce((sum, r) => sum + r.transcriptsSaved, 0),
+        newTranscripts: results.flatMap((r) => r.newTranscripts),
+      },
+      results,
+      errors: allErrors.length > 0 ? allErrors : undefined,
+    });
+  } catch (error) {
+    console.error("[Microsoft Sync Now] Error:", error);
+
+    if (error instanceof Error) {
+      if (error.message.includes("Connection not found")) {
+        return NextResponse.json(
+          { error: "Not Found", message: "Connection not found" },
+          { status: 404 }
+        );
+      }
+      if (error.message.includes("does not belong to user")) {
+        return NextResponse.json(
+          { error: "Forbidden", message: "Connection does not belong to you" },
+          { status: 403 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      {
+        error: "Sync Failed",
+        message: error instanceof Error ? error.message : "Unknown error during sync",
+      },
+      { status: 500 }
+    );
+  }
+}
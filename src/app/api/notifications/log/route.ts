@@ -0,0 +1,76 @@
+import { createClient } from "@/lib/supabase/server";
+import { NextResponse } from "next/server";
+import { requireAuth, getPaginationParams, errorResponse } from "@/lib/api-utils";
+
+const NOTIFICATION_TYPES = [
+  "new_call",
+  "low_score",
+  "daily_digest",
+  "scheduled_report",
+  "usage_warning",
+  "dispute_resolved",
+];
+const NOTIFICATION_STATUSES = ["sending", "sent", "failed"];
+
+// GET /api/notifications/log - Sent emails (admins see the whole org, others their own)
+export async function GET(request: Request) {
+  const { user, orgId, role, response } = await requireAuth();
+  if (response) return response;
+
+  try {
+    const supabase = await createClient();
+    const { searchParams } = new URL(request.url);
+
+    const { page, pageSize, offset } = getPaginationParams(searchParams);
+
+    let query = supabase
+      .from("notification_log")
+      .select(
+        "id, user_id, type, recipient, subject, status, entity_type, entity_id, transport, error_message, sent_at, created_at",
+        { count: "exact" }
+      )
+      .eq("org_id", orgId!);
+
+    if (role !== "admin" && role !== "superadmin") {
+      query = query.eq("user_id", user!.id);
+    }
+
+    const type = searchParams.get("type");
+    if (type) {
+      if (!NOTIFICATION_TYPES.includes(type)) {
+        return errorResponse("Invalid notification type", 400);
+      }
+      query = query.eq("type", type);
+    }
+
+    const status = searchParams.get("status");
+    if (status) {
+      if (!NOTIFICATION_STATUSES.includes(status)) {
+        return errorResponse("Invalid status", 400);
+      }
+      query = query.eq("status", status);
+    }
+
+    const { data: entries, count, error } = await query
+      .order("created_at", { ascending: false })
+      .range(offset, offset + pageSize - 1);
+
+    if (error) {
+      console.error("Error fetching notification log:", error);
+      return errorResponse("Failed to fetch notification log", 500);
+    }
+
+    return NextResponse.json({
+      data: entries || [],
+      pagination: {
+        page,
+        pageSize,
+        total: count || 0,
+        totalPages: Math.ceil((count || 0) / pageSize),
+      },
+    });
+  } catch (error) {
+    console.error("Error in notification log GET:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
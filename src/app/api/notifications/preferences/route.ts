@@ -0,0 +1,95 @@
+import { createClient } from "@/lib/supabase/server";
+import { z } from "zod";
+import { requireAuth, errorResponse, successResponse } from "@/lib/api-utils";
+import type { NotificationPreferences } from "@/types/database";
+
+const updatePreferencesSchema = z.object({
+  email_new_call: z.boolean().optional(),
+  email_low_score: z.boolean().optional(),
+  email_daily_digest: z.boolean().optional(),
+});
+
+type PreferenceFlags = Pick<
+  NotificationPreferences,
+  "email_new_call" | "email_low_score" | "email_daily_digest"
+>;
+
+// Users without a row get every email their org has turned on
+const DEFAULT_PREFERENCES: PreferenceFlags = {
+  email_new_call: true,
+  email_low_score: true,
+  email_daily_digest: true,
+};
+
+// GET /api/notifications/preferences - Current user's email opt-outs
+export async function GET() {
+  const { user, response } = await requireAuth();
+  if (response) return response;
+
+  try {
+    const supabase = await createClient();
+
+    const { data: preferences, error } = await supabase
+      .from("notification_preferences")
+      .select("email_new_call, email_low_score, email_daily_digest")
+      .eq("user_id", user!.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching notification preferences:", error);
+      return errorResponse("Failed to fetch notification preferences", 500);
+    }
+
+    return successResponse({ ...DEFAULT_PREFERENCES, ...(preferences || {}) });
+  } catch (error) {
+    console.error("Error in notification preferences GET:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+// PUT /api/notifications/preferences - Update the current user's opt-outs
+export async function PUT(request: Request) {
+  const { user, orgId, response } = await requireAuth();
+  if (response) return response;
+
+  try {
+    const body = await request.json();
+    const updates = updatePreferencesSchema.parse(body);
+
+    const supabase = await createClient();
+
+    const { data: existing } = await supabase
+      .from("notification_preferences")
+      .select("email_new_call, email_low_score, email_daily_digest")
+      .eq("user_id", user!.id)
+      .maybeSingle();
+
+    const { data: preferences, error } = await supabase
+      .from("notification_preferences")
+      .upsert(
+        {
+          ...DEFAULT_PREFERENCES,
+          ...(existing || {}),
+          ...updates,
+          user_id: user!.id,
+          org_id: orgId!,
+        },
+        { onConflict: "user_id" }
+      )
+      .select("email_new_call, email_low_score, email_daily_digest")
+      .single();
+
+    if (error) {
+      console.error("Error updating notification preferences:", error);
+      return errorResponse("Failed to update notification preferences", 500);
+    }
+
+    return successResponse(preferences);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return errorResponse(error.issues[0]?.message || "Validation failed", 400);
+    }
+    console.error("Error in notification preferences PUT:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
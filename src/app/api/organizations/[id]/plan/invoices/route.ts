@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { requireAdmin, errorResponse, getPaginationParams, isValidUUID } from "@/lib/api-utils";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET - Invoice history, newest first
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { orgId, role, response } = await requireAdmin();
+  if (response) return response;
+
+  try {
+    const { id } = await params;
+
+    if (!isValidUUID(id)) {
+      return errorResponse("Invalid organization ID", 400);
+    }
+    if (role !== "superadmin" && id !== orgId) {
+      return errorResponse("Forbidden", 403);
+    }
+
+    const supabase = await createClient();
+    const { searchParams } = new URL(request.url);
+    const { page, pageSize, offset } = getPaginationParams(searchParams);
+
+    const { data: invoices, count, error } = await supabase
+      .from("billing_invoices")
+      .select(
+        "id, number, status, amount_due, amount_paid, currency, period_start, period_end, hosted_invoice_url, invoice_pdf_url, attempt_count, next_payment_attempt, issued_at, paid_at",
+        { count: "exact" }
+      )
+      .eq("org_id", id)
+      .order("issued_at", { ascending: false })
+      .range(offset, offset + pageSize - 1);
+
+    if (error) {
+      console.error("Error fetching invoices:", error);
+      return errorResponse("Failed to fetch invoices", 500);
+    }
+
+    return NextResponse.json({
+      data: invoices || [],
+      pagination: {
+        page,
+        pageSize,
+        total: count || 0,
+        totalPages: Math.ceil((count || 0) / pageSize),
+      },
+    });
+  } catch (error) {
+    console.error("Error in GET /api/organizations/[id]/plan/invoices:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin, errorResponse, isValidUUID } from "@/lib/api-utils";
+import {
+  BillingProviderError,
+  getAppUrl,
+  getOrgBilling,
+  providerForOrg,
+  resolveBillingProvider,
+} from "@/lib/billing";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// POST - Open the payment provider's page for updating the payment method
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { orgId, role, response } = await requireAdmin();
+  if (response) return response;
+
+  try {
+    const { id } = await params;
+
+    if (!isValidUUID(id)) {
+      return errorResponse("Invalid organization ID", 400);
+    }
+    if (role !== "superadmin" && id !== orgId) {
+      return errorResponse("Forbidden", 403);
+    }
+
+    const org = await getOrgBilling(id);
+    if (!org) {
+      return errorResponse("Organization not found", 404);
+    }
+    if (!org.stripe_customer_id) {
+      return errorResponse("The organization has no billing account yet", 400);
+    }
+
+    const provider = providerForOrg(org, resolveBillingProvider());
+    const { url } = await provider.createPortalSession(
+      org.stripe_customer_id,
+      `${getAppUrl()}/dashboard/settings?tab=billing`
+    );
+
+    return NextResponse.json({ data: { url } });
+  } catch (error) {
+    if (error instanceof BillingProviderError) {
+      console.error("Billing provider error opening portal:", error);
+      return errorResponse(`Payment provider error: ${error.message}`, 502);
+    }
+    console.error("Error in POST /api/organizations/[id]/plan/portal:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
@@ -1,12 +1,30 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createClient } from "@/lib/supabase/server";
+import { z } from "zod";
+import { createAdminClient, createClient } from "@/lib/supabase/server";
 import { PLAN_LIMITS } from "@/lib/plan-limits";
+import { getCurrentUsage } from "@/lib/usage";
+import { requireAdmin, errorResponse, createAuditLog, isValidUUID } from "@/lib/api-utils";
+import {
+  BillingError,
+  BillingProviderError,
+  ORG_BILLING_COLUMNS,
+  changePlan,
+  providerForOrg,
+  resolveBillingProvider,
+  type OrgBilling,
+} from "@/lib/billing";
 import type { PlanTier } from "@/types/analytics";
 
 interface RouteParams {
   params: Promise<{ id: string }>;
 }
 
+const changePlanSchema = z.object({
+  plan: z.enum(["free", "starter", "professional", "enterprise"]),
+  interval: z.enum(["month", "year"]).default("month"),
+  preview: z.boolean().default(false),
+});
+
 // PUT - Update organization plan (superadmin only)
 export async function PUT(request: NextRequest, { params }: RouteParams) {
   try {
@@ -86,111 +104,145 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
   }
 }
 
-// GET - Get organization plan details (superadmin only)
+// GET - Get organization plan, billing and usage (org admins and superadmins)
 export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { orgId, role, response } = await requireAdmin();
+  if (response) return response;
+
   try {
     const { id } = await params;
-    const supabase = await createClient();
-
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
 
-    if (!user) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    if (!isValidUUID(id)) {
+      return errorResponse("Invalid organization ID", 400);
     }
-
-    // Check if user is superadmin
-    const { data: profile } = await supabase
-      .from("users")
-      .select("id, role")
-      .eq("id", user.id)
-      .single();
-
-    if (!profile || profile.role !== "superadmin") {
-      return NextResponse.json(
-        { error: "Superadmin access required" },
-        { status: 403 }
-      );
+    if (role !== "superadmin" && id !== orgId) {
+      return errorResponse("Forbidden", 403);
     }
 
-    // Get organization plan details
+    const supabase = createAdminClient();
+
     const { data: organization, error } = await supabase
       .from("organizations")
-      .select(
-        `
-        id,
-        name,
-        plan,
-        plan_limits,
-        billing_email,
-        stripe_customer_id,
-        stripe_subscription_id,
-        subscription_status,
-        trial_ends_at,
-        current_period_start,
-        current_period_end
-      `
-      )
+      .select(`${ORG_BILLING_COLUMNS}, plan_limits, trial_ends_at`)
       .eq("id", id)
       .single();
 
     if (error || !organization) {
-      return NextResponse.json(
-        { error: "Organization not found" },
-        { status: 404 }
-      );
+      return errorResponse("Organization not found", 404);
     }
 
+    const org = organization as OrgBilling & { plan_limits: unknown; trial_ends_at: string | null };
+
     // Get current usage from org_usage table
-    const today = new Date();
-    const periodStart = new Date(today.getFullYear(), today.getMonth(), 1)
-      .toISOString()
-      .split("T")[0];
-
-    const { data: usage } = await supabase
-      .from("org_usage")
-      .select("*")
-      .eq("org_id", id)
-      .eq("period_start", periodStart)
-      .single();
+    const usage = await getCurrentUsage(id);
 
     // Get all available plans
     const { data: planDefinitions } = await supabase
       .from("plan_definitions")
-      .select("*")
+      .select("id, name, description, price_monthly, price_yearly, limits, features, sort_order")
       .eq("is_active", true)
       .order("sort_order");
 
+    // The card on file is informational; a provider outage shouldn't hide the plan
+    let paymentMethod = null;
+    if (org.stripe_customer_id && org.billing_provider) {
+      try {
+        const provider = providerForOrg(org, resolveBillingProvider());
+        paymentMethod = await provider.getPaymentMethod(org.stripe_customer_id);
+      } catch (providerError) {
+        console.error("Error fetching payment method:", providerError);
+      }
+    }
+
     return NextResponse.json({
       plan: {
-        current: organization.plan,
-        limits: organization.plan_limits,
+        current: org.plan,
+        limits: org.plan_limits,
         subscription: {
-          status: organization.subscription_status,
-          trialEndsAt: organization.trial_ends_at,
-          periodStart: organization.current_period_start,
-          periodEnd: organization.current_period_end,
+          status: org.subscription_status,
+          trialEndsAt: org.trial_ends_at,
+          periodStart: org.current_period_start,
+          periodEnd: org.current_period_end,
+          interval: org.billing_interval,
+          cancelAtPeriodEnd: org.cancel_at_period_end,
+          dunningState: org.dunning_state,
+          pastDueSince: org.past_due_since,
         },
         billing: {
-          email: organization.billing_email,
-          stripeCustomerId: organization.stripe_customer_id,
-          stripeSubscriptionId: organization.stripe_subscription_id,
+          email: org.billing_email,
+          provider: org.billing_provider,
+          hasSubscription: !!org.stripe_subscription_id && org.subscription_status !== "canceled",
+          paymentMethod,
+          ...(role === "superadmin" && {
+            stripeCustomerId: org.stripe_customer_id,
+            stripeSubscriptionId: org.stripe_subscription_id,
+          }),
         },
       },
-      usage: usage || {
-        calls_count: 0,
-        sessions_count: 0,
-        ai_analyses_count: 0,
-        storage_bytes_used: 0,
-      },
+      usage: usage.counters,
+      usagePeriod: usage.period,
       availablePlans: planDefinitions || [],
     });
   } catch (error) {
     console.error("Error in GET /api/organizations/[id]/plan:", error);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+// POST - Change plan through the payment provider (org admins and superadmins)
+// Returns a checkout URL for a first paid plan, a proration preview when
+// `preview` is set, or the updated subscription.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { user, orgId, role, response } = await requireAdmin();
+  if (response) return response;
+
+  try {
+    const { id } = await params;
+
+    if (!isValidUUID(id)) {
+      return errorResponse("Invalid organization ID", 400);
+    }
+    if (role !== "superadmin" && id !== orgId) {
+      return errorResponse("Forbidden", 403);
+    }
+
+    const validationResult = changePlanSchema.safeParse(await request.json());
+    if (!validationResult.success) {
+      return errorResponse(validationResult.error.issues[0]?.message || "Validation failed", 400);
+    }
+
+    const { plan, interval, preview } = validationResult.data;
+    const result = await changePlan({
+      orgId: id,
+      plan: plan as PlanTier,
+      interval,
+      preview,
+      provider: resolveBillingProvider(),
+    });
+
+    if (result.action !== "preview" && result.action !== "checkout") {
+      await createAuditLog(
+        id,
+        user!.id,
+        `billing.plan_${result.action}`,
+        "organization",
+        id,
+        undefined,
+        { plan, interval, subscription_id: result.subscription.id },
+        request
+      );
+    }
+
+    return NextResponse.json({ data: result });
+  } catch (error) {
+    if (error instanceof BillingError) {
+      return errorResponse(error.message, error.status);
+    }
+    if (error instanceof BillingProviderError) {
+      console.error("Billing provider error changing plan:", error);
+      return errorResponse(`Payment provider error: ${error.message}`, 502);
+    }
+    console.error("Error in POST /api/organizations/[id]/plan:", error);
+    return errorResponse("Internal server error", 500);
   }
 }
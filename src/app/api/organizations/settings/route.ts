@@ -0,0 +1,129 @@
+import { createClient, createAdminClient } from "@/lib/supabase/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  requireAdmin,
+  errorResponse,
+  createAuditLog,
+} from "@/lib/api-utils";
+import { AI_PROVIDERS, isFixtureProviderEnabled } from "@/lib/llm";
+import { AIProvider } from "@/types/database";
+
+const aiSettingsSchema = z.object({
+  provider: z.enum(AI_PROVIDERS as [AIProvider, ...AIProvider[]]).optional(),
+  model: z.string().trim().min(1).max(100).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  customPromptPrefix: z.string().max(2000).optional(),
+});
+
+const updateSettingsSchema = z.object({
+  settings_json: z.object({
+    branding: z
+      .object({
+        primaryColor: z.string().max(20).optional(),
+        logo: z.string().max(2048).optional(),
+        companyName: z.string().max(255).optional(),
+      })
+      .optional(),
+    timezone: z.string().min(1).max(64).optional(),
+    notifications: z
+      .object({
+        emailOnNewCall: z.boolean().optional(),
+        emailOnLowScore: z.boolean().optional(),
+        lowScoreThreshold: z.number().int().min(0).max(100).optional(),
+        dailyDigest: z.boolean().optional(),
+      })
+      .optional(),
+    ai: aiSettingsSchema.optional(),
+    features: z.record(z.string(), z.boolean()).optional(),
+    security: z.object({ require2fa: z.boolean().optional() }).optional(),
+  }),
+});
+
+type SettingsSection = Record<string, unknown>;
+
+// PATCH /api/organizations/settings - Update the current org's settings_json
+// Each section is merged into the stored one, so partial updates are safe.
+export async function PATCH(request: Request) {
+  const { user, orgId, response } = await requireAdmin();
+  if (response) return response;
+
+  try {
+    const body = await request.json();
+    const { settings_json: updates } = updateSettingsSchema.parse(body);
+
+    if (updates.ai?.provider === "fixture" && !isFixtureProviderEnabled()) {
+      return errorResponse("The fixture AI provider is not available", 400);
+    }
+
+    const supabase = await createClient();
+
+    // Keep admins from locking themselves into enrollment mid-session
+    if (updates.security?.require2fa) {
+      const { data: mfa } = await createAdminClient()
+        .from("user_mfa")
+        .select("enabled")
+        .eq("user_id", user!.id)
+        .maybeSingle();
+
+      if (!mfa?.enabled) {
+        return errorResponse(
+          "Enable two-factor authentication on your own account before requiring it",
+          400
+        );
+      }
+    }
+
+    const { data: org, error: fetchError } = await supabase
+      .from("organizations")
+      .select("settings_json")
+      .eq("id", orgId!)
+      .single();
+
+    if (fetchError || !org) {
+      return errorResponse("Organization not found", 404);
+    }
+
+    const existing = (org.settings_json || {}) as Record<string, unknown>;
+    const merged: Record<string, unknown> = { ...existing };
+
+    for (const [key, value] of Object.entries(updates)) {
+      if (value === undefined) continue;
+      merged[key] =
+        typeof value === "object" && value !== null
+          ? { ...((existing[key] as SettingsSection) || {}), ...value }
+          : value;
+    }
+
+    const { data: updated, error } = await supabase
+      .from("organizations")
+      .update({ settings_json: merged })
+      .eq("id", orgId!)
+      .select("settings_json")
+      .single();
+
+    if (error) {
+      console.error("Error updating organization settings:", error);
+      return errorResponse("Failed to update settings", 500);
+    }
+
+    await createAuditLog(
+      orgId!,
+      user!.id,
+      "organization.settings_updated",
+      "organization",
+      orgId!,
+      { settings_json: existing },
+      { settings_json: updated.settings_json },
+      request
+    );
+
+    return NextResponse.json({ data: updated });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return errorResponse(error.issues[0]?.message || "Validation failed", 400);
+    }
+    console.error("Error in organization settings PATCH:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
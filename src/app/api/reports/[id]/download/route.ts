@@ -0,0 +1,51 @@
+import { createClient } from "@/lib/supabase/server";
+import { requireAdmin, errorResponse, successResponse, isValidUUID } from "@/lib/api-utils";
+import { canUseExport } from "@/lib/plan-limits";
+import { getReportDownloadUrl } from "@/lib/reports";
+
+// GET /api/reports/[id]/download - Signed link to the stored report file
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { orgId, response } = await requireAdmin();
+  if (response) return response;
+
+  const { id } = await params;
+  if (!isValidUUID(id)) {
+    return errorResponse("Invalid report ID", 400);
+  }
+
+  try {
+    if (!(await canUseExport(orgId!))) {
+      return errorResponse("Report export is not available on your plan", 403);
+    }
+
+    const supabase = await createClient();
+
+    const { data: report } = await supabase
+      .from("report_exports")
+      .select("id, name, format, status, storage_path")
+      .eq("id", id)
+      .eq("org_id", orgId!)
+      .single();
+
+    if (!report) {
+      return errorResponse("Report not found", 404);
+    }
+
+    if (report.status !== "ready") {
+      return errorResponse("Report is not ready for download", 409);
+    }
+
+    const url = await getReportDownloadUrl(report);
+    if (!url) {
+      return errorResponse("Failed to create download link", 500);
+    }
+
+    return successResponse({ url });
+  } catch (error) {
+    console.error("Error in report download GET:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
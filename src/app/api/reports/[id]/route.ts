@@ -0,0 +1,48 @@
+import { createClient } from "@/lib/supabase/server";
+import { requireAdmin, errorResponse, successResponse, createAuditLog, isValidUUID } from "@/lib/api-utils";
+import { deleteReportFile } from "@/lib/reports";
+
+// DELETE /api/reports/[id] - Delete a generated report and its file
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { user, orgId, response } = await requireAdmin();
+  if (response) return response;
+
+  const { id } = await params;
+  if (!isValidUUID(id)) {
+    return errorResponse("Invalid report ID", 400);
+  }
+
+  try {
+    const supabase = await createClient();
+
+    const { data: report } = await supabase
+      .from("report_exports")
+      .select("id, org_id, name, report_type, format, storage_path, file_size")
+      .eq("id", id)
+      .eq("org_id", orgId!)
+      .single();
+
+    if (!report) {
+      return errorResponse("Report not found", 404);
+    }
+
+    const { error } = await supabase.from("report_exports").delete().eq("id", id);
+
+    if (error) {
+      console.error("Error deleting report:", error);
+      return errorResponse("Failed to delete report", 500);
+    }
+
+    await deleteReportFile(report);
+
+    await createAuditLog(orgId!, user!.id, "report.deleted", "report_export", id, report, undefined, request);
+
+    return successResponse({ deleted: true });
+  } catch (error) {
+    console.error("Error in report DELETE:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
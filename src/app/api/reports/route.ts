@@ -0,0 +1,171 @@
+import { createClient } from "@/lib/supabase/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  requireAdmin,
+  getPaginationParams,
+  errorResponse,
+  successResponse,
+  createAuditLog,
+  sanitizeInput,
+} from "@/lib/api-utils";
+import { canUseExport } from "@/lib/plan-limits";
+import { generateReport, REPORT_FORMATS, REPORT_TYPES, type ReportParameters } from "@/lib/reports";
+import type { ReportFormat, ReportType } from "@/types/database";
+
+const MAX_RANGE_DAYS = 366;
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+const createReportSchema = z
+  .object({
+    type: z.enum(REPORT_TYPES as [ReportType, ...ReportType[]]),
+    format: z.enum(REPORT_FORMATS as [ReportFormat, ...ReportFormat[]]),
+    date_from: dateSchema,
+    date_to: dateSchema,
+    agent_id: z.string().uuid().optional(),
+    template_id: z.string().uuid().optional(),
+    name: z.string().trim().min(1).max(255).optional(),
+  })
+  .refine((data) => data.type !== "caller" || !!data.agent_id, {
+    message: "Caller reports need an agent_id",
+  })
+  .refine((data) => data.type !== "template" || !!data.template_id, {
+    message: "Template reports need a template_id",
+  })
+  .refine((data) => data.date_from <= data.date_to, {
+    message: "date_from must be on or before date_to",
+  })
+  .refine(
+    (data) =>
+      (Date.parse(data.date_to) - Date.parse(data.date_from)) / 86400000 < MAX_RANGE_DAYS,
+    { message: `Reports can cover at most ${MAX_RANGE_DAYS} days` }
+  );
+
+// GET /api/reports - Generated report history
+export async function GET(request: Request) {
+  const { orgId, response } = await requireAdmin();
+  if (response) return response;
+
+  try {
+    const supabase = await createClient();
+    const { searchParams } = new URL(request.url);
+
+    const { page, pageSize, offset } = getPaginationParams(searchParams);
+
+    let query = supabase
+      .from("report_exports")
+      .select("*, creator:users!report_exports_created_by_fkey(id, name, email)", { count: "exact" })
+      .eq("org_id", orgId!);
+
+    const type = searchParams.get("type");
+    if (type) {
+      if (!REPORT_TYPES.includes(type as ReportType)) {
+        return errorResponse("Invalid report type", 400);
+      }
+      query = query.eq("report_type", type);
+    }
+
+    const { data: reports, count, error } = await query
+      .order("created_at", { ascending: false })
+      .range(offset, offset + pageSize - 1);
+
+    if (error) {
+      console.error("Error fetching reports:", error);
+      return errorResponse("Failed to fetch reports", 500);
+    }
+
+    return NextResponse.json({
+      data: reports || [],
+      exportEnabled: await canUseExport(orgId!),
+      pagination: {
+        page,
+        pageSize,
+        total: count || 0,
+        totalPages: Math.ceil((count || 0) / pageSize),
+      },
+    });
+  } catch (error) {
+    console.error("Error in reports GET:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+// POST /api/reports - Generate a report and store the export
+export async function POST(request: Request) {
+  const { user, orgId, response } = await requireAdmin();
+  if (response) return response;
+
+  try {
+    const body = await request.json();
+    const validationResult = createReportSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return errorResponse(validationResult.error.issues[0]?.message || "Validation failed", 400);
+    }
+
+    const data = validationResult.data;
+
+    if (!(await canUseExport(orgId!))) {
+      return errorResponse("Report export is not available on your plan", 403);
+    }
+
+    const supabase = await createClient();
+
+    if (data.agent_id) {
+      const { data: agent } = await supabase
+        .from("users")
+        .select("id")
+        .eq("id", data.agent_id)
+        .eq("org_id", orgId!)
+        .single();
+      if (!agent) return errorResponse("Caller not found", 404);
+    }
+
+    if (data.template_id) {
+      const { data: template } = await supabase
+        .from("templates")
+        .select("id")
+        .eq("id", data.template_id)
+        .eq("org_id", orgId!)
+        .single();
+      if (!template) return errorResponse("Template not found", 404);
+    }
+
+    const params: ReportParameters = {
+      type: data.type,
+      dateFrom: data.date_from,
+      dateTo: data.date_to,
+      ...(data.agent_id && { agentId: data.agent_id }),
+      ...(data.template_id && { templateId: data.template_id }),
+    };
+
+    const report = await generateReport(supabase, {
+      orgId: orgId!,
+      params,
+      format: data.format,
+      createdBy: user!.id,
+      name: data.name ? sanitizeInput(data.name) : undefined,
+    });
+
+    await createAuditLog(
+      orgId!,
+      user!.id,
+      "report.generated",
+      "report_export",
+      report.id,
+      undefined,
+      { report_type: report.report_type, format: report.format, parameters: params, status: report.status },
+      request
+    );
+
+    if (report.status === "failed") {
+      return errorResponse(report.error_message || "Report generation failed", 500);
+    }
+
+    return successResponse(report, 201);
+  } catch (error) {
+    console.error("Error in reports POST:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
@@ -0,0 +1,203 @@
+import { createClient, createAdminClient } from "@/lib/supabase/server";
+import { z } from "zod";
+import {
+  requireAdmin,
+  errorResponse,
+  successResponse,
+  createAuditLog,
+  isValidUUID,
+  sanitizeInput,
+} from "@/lib/api-utils";
+import { REPORT_FORMATS, REPORT_TYPES } from "@/lib/reports";
+import {
+  computeNextRunAt,
+  getOrgTimeZone,
+  isReportDateWindow,
+  validateScheduleDefinition,
+  verifyScheduleReferences,
+} from "@/lib/reports/schedules";
+import type { ReportDateWindow, ReportFormat, ReportSchedule, ReportType } from "@/types/database";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+const updateScheduleSchema = z.object({
+  name: z.string().trim().min(1).max(255).optional(),
+  report_type: z.enum(REPORT_TYPES as [ReportType, ...ReportType[]]).optional(),
+  format: z.enum(REPORT_FORMATS as [ReportFormat, ...ReportFormat[]]).optional(),
+  agent_id: z.string().uuid().nullable().optional(),
+  template_id: z.string().uuid().nullable().optional(),
+  date_window: z.string().refine(isReportDateWindow, { message: "Unknown date window" }).optional(),
+  cron_expression: z.string().trim().min(9).max(100).optional(),
+  delivery_channel: z.enum(["email", "webhook"]).optional(),
+  recipient_ids: z.array(z.string().uuid()).optional(),
+  webhook_subscription_id: z.string().uuid().nullable().optional(),
+  is_active: z.boolean().optional(),
+});
+
+// PATCH /api/reports/schedules/[id] - Update, pause or resume a schedule
+export async function PATCH(request: Request, { params }: RouteParams) {
+  const { id } = await params;
+  const { user, orgId, response } = await requireAdmin();
+  if (response) return response;
+
+  if (!isValidUUID(id)) {
+    return errorResponse("Invalid schedule ID", 400);
+  }
+
+  try {
+    const body = await request.json();
+    const validationResult = updateScheduleSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return errorResponse(validationResult.error.issues[0]?.message || "Validation failed", 400);
+    }
+
+    const changes = validationResult.data;
+    const supabase = await createClient();
+
+    const { data: existing, error: fetchError } = await supabase
+      .from("report_schedules")
+      .select("*")
+      .eq("id", id)
+      .eq("org_id", orgId!)
+      .single();
+
+    if (fetchError || !existing) {
+      return errorResponse("Schedule not found", 404);
+    }
+
+    const current = existing as ReportSchedule;
+    const reportType = changes.report_type ?? current.report_type;
+    const deliveryChannel = changes.delivery_channel ?? current.delivery_channel;
+
+    const definition = {
+      report_type: reportType,
+      agent_id: reportType === "caller" ? (changes.agent_id !== undefined ? changes.agent_id : current.agent_id) : null,
+      template_id: changes.template_id !== undefined ? changes.template_id : current.template_id,
+      cron_expression: changes.cron_expression ?? current.cron_expression,
+      delivery_channel: deliveryChannel,
+      recipient_ids:
+        deliveryChannel === "email" ? Array.from(new Set(changes.recipient_ids ?? current.recipient_ids)) : [],
+      webhook_subscription_id:
+        deliveryChannel === "webhook"
+          ? changes.webhook_subscription_id !== undefined
+            ? changes.webhook_subscription_id
+            : current.webhook_subscription_id
+          : null,
+    };
+
+    const definitionError = validateScheduleDefinition(definition);
+    if (definitionError) {
+      return errorResponse(definitionError, 400);
+    }
+
+    const referenceError = await verifyScheduleReferences(supabase, orgId!, definition);
+    if (referenceError) {
+      return errorResponse(referenceError, 404);
+    }
+
+    const isActive = changes.is_active ?? current.is_active;
+
+    // Re-plan when the cadence changes or a paused schedule resumes
+    let nextRunAt = current.next_run_at;
+    if (!isActive) {
+      nextRunAt = null;
+    } else if (!current.is_active || !nextRunAt || definition.cron_expression !== current.cron_expression) {
+      const timeZone = await getOrgTimeZone(createAdminClient(), orgId!);
+      nextRunAt = computeNextRunAt(definition.cron_expression, timeZone);
+    }
+
+    const updateData: Partial<ReportSchedule> = {
+      ...definition,
+      is_active: isActive,
+      next_run_at: nextRunAt,
+    };
+    if (changes.name !== undefined) updateData.name = sanitizeInput(changes.name);
+    if (changes.format !== undefined) updateData.format = changes.format;
+    if (changes.date_window !== undefined) updateData.date_window = changes.date_window as ReportDateWindow;
+
+    const { data: schedule, error } = await supabase
+      .from("report_schedules")
+      .update(updateData)
+      .eq("id", id)
+      .eq("org_id", orgId!)
+      .select("*")
+      .single();
+
+    if (error || !schedule) {
+      console.error("Error updating report schedule:", error);
+      return errorResponse("Failed to update report schedule", 500);
+    }
+
+    await createAuditLog(
+      orgId!,
+      user!.id,
+      "report_schedule.updated",
+      "report_schedule",
+      id,
+      existing,
+      updateData,
+      request
+    );
+
+    return successResponse(schedule);
+  } catch (error) {
+    console.error("Error in report schedule PATCH:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+// DELETE /api/reports/schedules/[id] - Remove a schedule and its run history
+export async function DELETE(request: Request, { params }: RouteParams) {
+  const { id } = await params;
+  const { user, orgId, response } = await requireAdmin();
+  if (response) return response;
+
+  if (!isValidUUID(id)) {
+    return errorResponse("Invalid schedule ID", 400);
+  }
+
+  try {
+    const supabase = await createClient();
+
+    const { data: existing, error: fetchError } = await supabase
+      .from("report_schedules")
+      .select("id, name, report_type, format, cron_expression, delivery_channel")
+      .eq("id", id)
+      .eq("org_id", orgId!)
+      .single();
+
+    if (fetchError || !existing) {
+      return errorResponse("Schedule not found", 404);
+    }
+
+    const { error } = await supabase
+      .from("report_schedules")
+      .delete()
+      .eq("id", id)
+      .eq("org_id", orgId!);
+
+    if (error) {
+      console.error("Error deleting report schedule:", error);
+      return errorResponse("Failed to delete report schedule", 500);
+    }
+
+    await createAuditLog(
+      orgId!,
+      user!.id,
+      "report_schedule.deleted",
+      "report_schedule",
+      id,
+      existing,
+      undefined,
+      request
+    );
+
+    return successResponse({ deleted: true });
+  } catch (error) {
+    console.error("Error in report schedule DELETE:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
@@ -0,0 +1,117 @@
+import { createClient } from "@/lib/supabase/server";
+import { NextResponse } from "next/server";
+import {
+  requireAdmin,
+  getPaginationParams,
+  errorResponse,
+  successResponse,
+  createAuditLog,
+  isValidUUID,
+} from "@/lib/api-utils";
+import { canUseExport } from "@/lib/plan-limits";
+import { runReportScheduleNow } from "@/lib/reports/schedules";
+import type { ReportSchedule } from "@/types/database";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/reports/schedules/[id]/runs - Run history with delivery outcomes
+export async function GET(request: Request, { params }: RouteParams) {
+  const { id } = await params;
+  const { orgId, response } = await requireAdmin();
+  if (response) return response;
+
+  if (!isValidUUID(id)) {
+    return errorResponse("Invalid schedule ID", 400);
+  }
+
+  try {
+    const supabase = await createClient();
+    const { searchParams } = new URL(request.url);
+
+    const { page, pageSize, offset } = getPaginationParams(searchParams, 10);
+
+    const { data: runs, count, error } = await supabase
+      .from("report_schedule_runs")
+      .select(
+        `*,
+        report:report_exports(id, name, format, status, file_size),
+        webhook_delivery:webhook_deliveries(id, status, attempts, response_status, error_message)`,
+        { count: "exact" }
+      )
+      .eq("schedule_id", id)
+      .eq("org_id", orgId!)
+      .order("created_at", { ascending: false })
+      .range(offset, offset + pageSize - 1);
+
+    if (error) {
+      console.error("Error fetching report schedule runs:", error);
+      return errorResponse("Failed to fetch schedule runs", 500);
+    }
+
+    return NextResponse.json({
+      data: runs || [],
+      pagination: {
+        page,
+        pageSize,
+        total: count || 0,
+        totalPages: Math.ceil((count || 0) / pageSize),
+      },
+    });
+  } catch (error) {
+    console.error("Error in report schedule runs GET:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+// POST /api/reports/schedules/[id]/runs - Run a schedule now, outside its cadence
+export async function POST(request: Request, { params }: RouteParams) {
+  const { id } = await params;
+  const { user, orgId, response } = await requireAdmin();
+  if (response) return response;
+
+  if (!isValidUUID(id)) {
+    return errorResponse("Invalid schedule ID", 400);
+  }
+
+  try {
+    if (!(await canUseExport(orgId!))) {
+      return errorResponse("Report export is not available on your plan", 403);
+    }
+
+    const supabase = await createClient();
+
+    const { data: schedule } = await supabase
+      .from("report_schedules")
+      .select("*")
+      .eq("id", id)
+      .eq("org_id", orgId!)
+      .single();
+
+    if (!schedule) {
+      return errorResponse("Schedule not found", 404);
+    }
+
+    const run = await runReportScheduleNow(schedule as ReportSchedule);
+    if (!run) {
+      return errorResponse("Failed to start the schedule run", 500);
+    }
+
+    await createAuditLog(
+      orgId!,
+      user!.id,
+      "report_schedule.run",
+      "report_schedule",
+      id,
+      undefined,
+      { run_id: run.id, status: run.status },
+      request
+    );
+
+    return successResponse(run, 201);
+  } catch (error) {
+    console.error("Error in report schedule runs POST:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
@@ -0,0 +1,164 @@
+import { createClient, createAdminClient } from "@/lib/supabase/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  requireAdmin,
+  getPaginationParams,
+  errorResponse,
+  successResponse,
+  createAuditLog,
+  sanitizeInput,
+} from "@/lib/api-utils";
+import { canUseExport } from "@/lib/plan-limits";
+import { REPORT_FORMATS, REPORT_TYPES } from "@/lib/reports";
+import {
+  computeNextRunAt,
+  getOrgTimeZone,
+  isReportDateWindow,
+  validateScheduleDefinition,
+  verifyScheduleReferences,
+} from "@/lib/reports/schedules";
+import type { ReportDateWindow, ReportFormat, ReportType } from "@/types/database";
+
+const createScheduleSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  report_type: z.enum(REPORT_TYPES as [ReportType, ...ReportType[]]),
+  format: z.enum(REPORT_FORMATS as [ReportFormat, ...ReportFormat[]]),
+  agent_id: z.string().uuid().nullable().optional(),
+  template_id: z.string().uuid().nullable().optional(),
+  date_window: z.string().refine(isReportDateWindow, { message: "Unknown date window" }),
+  cron_expression: z.string().trim().min(9).max(100),
+  delivery_channel: z.enum(["email", "webhook"]),
+  recipient_ids: z.array(z.string().uuid()).default([]),
+  webhook_subscription_id: z.string().uuid().nullable().optional(),
+  is_active: z.boolean().default(true),
+});
+
+// GET /api/reports/schedules - Report schedules with their last run
+export async function GET(request: Request) {
+  const { orgId, response } = await requireAdmin();
+  if (response) return response;
+
+  try {
+    const supabase = await createClient();
+    const { searchParams } = new URL(request.url);
+
+    const { page, pageSize, offset } = getPaginationParams(searchParams);
+
+    const { data: schedules, count, error } = await supabase
+      .from("report_schedules")
+      .select(
+        `*,
+        creator:users!report_schedules_created_by_fkey(id, name, email),
+        agent:users!report_schedules_agent_id_fkey(id, name, email),
+        template:templates(id, name),
+        webhook_subscription:webhook_subscriptions(id, name, is_active)`,
+        { count: "exact" }
+      )
+      .eq("org_id", orgId!)
+      .order("created_at", { ascending: false })
+      .range(offset, offset + pageSize - 1);
+
+    if (error) {
+      console.error("Error fetching report schedules:", error);
+      return errorResponse("Failed to fetch report schedules", 500);
+    }
+
+    return NextResponse.json({
+      data: schedules || [],
+      exportEnabled: await canUseExport(orgId!),
+      timeZone: await getOrgTimeZone(createAdminClient(), orgId!),
+      pagination: {
+        page,
+        pageSize,
+        total: count || 0,
+        totalPages: Math.ceil((count || 0) / pageSize),
+      },
+    });
+  } catch (error) {
+    console.error("Error in report schedules GET:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+// POST /api/reports/schedules - Create a report schedule
+export async function POST(request: Request) {
+  const { user, orgId, response } = await requireAdmin();
+  if (response) return response;
+
+  try {
+    const body = await request.json();
+    const validationResult = createScheduleSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return errorResponse(validationResult.error.issues[0]?.message || "Validation failed", 400);
+    }
+
+    const data = validationResult.data;
+
+    if (!(await canUseExport(orgId!))) {
+      return errorResponse("Report export is not available on your plan", 403);
+    }
+
+    const definition = {
+      report_type: data.report_type,
+      // Only caller reports are scoped to one agent
+      agent_id: data.report_type === "caller" ? data.agent_id || null : null,
+      template_id: data.template_id || null,
+      cron_expression: data.cron_expression,
+      delivery_channel: data.delivery_channel,
+      recipient_ids: data.delivery_channel === "email" ? Array.from(new Set(data.recipient_ids)) : [],
+      webhook_subscription_id: data.delivery_channel === "webhook" ? data.webhook_subscription_id || null : null,
+    };
+
+    const definitionError = validateScheduleDefinition(definition);
+    if (definitionError) {
+      return errorResponse(definitionError, 400);
+    }
+
+    const supabase = await createClient();
+
+    const referenceError = await verifyScheduleReferences(supabase, orgId!, definition);
+    if (referenceError) {
+      return errorResponse(referenceError, 404);
+    }
+
+    const timeZone = await getOrgTimeZone(createAdminClient(), orgId!);
+
+    const { data: schedule, error } = await supabase
+      .from("report_schedules")
+      .insert({
+        org_id: orgId!,
+        name: sanitizeInput(data.name),
+        format: data.format,
+        date_window: data.date_window as ReportDateWindow,
+        ...definition,
+        is_active: data.is_active,
+        next_run_at: data.is_active ? computeNextRunAt(data.cron_expression, timeZone) : null,
+        created_by: user!.id,
+      })
+      .select("*")
+      .single();
+
+    if (error || !schedule) {
+      console.error("Error creating report schedule:", error);
+      return errorResponse("Failed to create report schedule", 500);
+    }
+
+    await createAuditLog(
+      orgId!,
+      user!.id,
+      "report_schedule.created",
+      "report_schedule",
+      schedule.id,
+      undefined,
+      schedule,
+      request
+    );
+
+    return successResponse(schedule, 201);
+  } catch (error) {
+    console.error("Error in report schedules POST:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
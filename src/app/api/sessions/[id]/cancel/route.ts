@@ -15,6 +15,7 @@ import {
   createAuditLog,
 } from "@/lib/api-utils";
 import { z } from "zod";
+import { writeSessionToCalendar } from "@/lib/google/calendar-writeback";
 
 const cancelSchema = z.object({
   reason: z.string().max(1000).optional(),
@@ -145,6 +146,8 @@ export async function POST(request: Request, { params }: RouteParams) {
       request
     );
 
+    await writeSessionToCalendar(id);
+
     return successResponse(sessionWithUsers);
   } catch (error) {
     console.error("Error cancelling session:", error);
@@ -12,11 +12,15 @@ import {
   calculateSessionScore,
   ScoreInput,
 } from "@/lib/scoring-engine";
+import { getSnapshotFormula } from "@/lib/scoring-formula";
+import { emitWebhookEvent } from "@/lib/webhooks";
 import {
   Criteria,
+  CriteriaGroup,
   Template,
   ScoreValue,
 } from "@/types/database";
+import { writeSessionToCalendar } from "@/lib/google/calendar-writeback";
 
 const completeSchema = z.object({
   coach_notes: z.string().max(5000).optional(),
@@ -104,6 +108,7 @@ export async function POST(request: Request, { params }: RouteParams) {
     // Fetch template criteria to check for required items
     const templateSnapshot = session.template_snapshot as Record<string, unknown>;
     const templateCriteria = (templateSnapshot?.criteria || []) as Criteria[];
+    const templateGroups = (templateSnapshot?.groups || []) as CriteriaGroup[];
     const template = session.templates as Template;
 
     // Check if all required criteria have been scored
@@ -136,6 +141,8 @@ export async function POST(request: Request, { params }: RouteParams) {
       template: template,
       criteria: templateCriteria,
       scores: scoreInputs,
+      groups: templateGroups,
+      formula: getSnapshotFormula(templateSnapshot),
     });
 
     // Update session with final scores
@@ -197,6 +204,22 @@ export async function POST(request: Request, { params }: RouteParams) {
       request
     );
 
+    await emitWebhookEvent(orgId!, "session.completed", {
+      session_id: id,
+      template_id: updatedSession.template_id,
+      coach_id: updatedSession.coach_id,
+      agent_id: updatedSession.agent_id,
+      call_id: updatedSession.call_id,
+      total_score: scoreResult.total_score,
+      total_possible: scoreResult.total_possible,
+      percentage_score: scoreResult.percentage_score,
+      pass_status: scoreResult.pass_status,
+      has_auto_fail: scoreResult.has_auto_fail,
+      completed_at: updatedSession.completed_at,
+    });
+
+    await writeSessionToCalendar(id);
+
     return successResponse({
       ...updatedSession,
       score_result: scoreResult,
@@ -0,0 +1,285 @@
+/**
+ * Session Dispute Resolution API
+ *
+ * POST /api/sessions/[id]/dispute/resolve - Coach or manager resolves a dispute
+ */
+
+import { createClient } from "@/lib/supabase/server";
+import {
+  requireAuth,
+  errorResponse,
+  successResponse,
+  isValidUUID,
+  createAuditLog,
+} from "@/lib/api-utils";
+import { z } from "zod";
+import {
+  resolveDispute,
+  DisputeResolutionError,
+  type DisputeDecision,
+  type DisputedScore,
+} from "@/lib/disputes";
+import { getSnapshotFormula } from "@/lib/scoring-formula";
+import { notifyDisputeResolved } from "@/lib/notifications";
+import { emitWebhookEvent } from "@/lib/webhooks";
+import { Criteria, CriteriaGroup, Template } from "@/types/database";
+import { writeSessionToCalendar } from "@/lib/google/calendar-writeback";
+
+const decisionSchema = z.object({
+  criteria_id: z.string().uuid(),
+  action: z.enum(["uphold", "amend"]),
+  value: z.record(z.string(), z.unknown()).optional(),
+  is_na: z.boolean().optional(),
+  comment: z.string().max(2000).optional().nullable(),
+});
+
+const resolveSchema = z.object({
+  rationale: z.string().min(10).max(5000),
+  decisions: z.array(decisionSchema).default([]),
+});
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/sessions/[id]/dispute/resolve - Resolve a disputed session
+export async function POST(request: Request, { params }: RouteParams) {
+  const { user, orgId, role, response } = await requireAuth();
+  if (response) return response;
+
+  try {
+    const { id } = await params;
+
+    if (!isValidUUID(id)) {
+      return errorResponse("Invalid session ID", 400);
+    }
+
+    const body = await request.json();
+    const validationResult = resolveSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return errorResponse(
+        `Validation error: ${validationResult.error.issues.map((e) => e.message).join(", ")}`,
+        400
+      );
+    }
+
+    const { rationale } = validationResult.data;
+    const decisions = validationResult.data.decisions as DisputeDecision[];
+
+    const supabase = await createClient();
+
+    // Fetch session with template
+    const { data: session, error: fetchError } = await supabase
+      .from("sessions")
+      .select(
+        `
+        *,
+        templates!template_id (*)
+      `
+      )
+      .eq("id", id)
+      .eq("org_id", orgId!)
+      .single();
+
+    if (fetchError || !session) {
+      return errorResponse("Session not found", 404);
+    }
+
+    // Only the session's coach or a manager/admin can resolve
+    const isAdmin = role === "admin" || role === "superadmin" || role === "manager";
+    const isCoach = session.coach_id === user!.id;
+
+    if (!isAdmin && !isCoach) {
+      return errorResponse("Only the coach or a manager can resolve a dispute", 403);
+    }
+
+    if (session.agent_id === user!.id) {
+      return errorResponse("You can't resolve your own dispute", 403);
+    }
+
+    if (session.status !== "disputed") {
+      return errorResponse("Only disputed sessions can be resolved", 400);
+    }
+
+    const { data: scores, error: scoresError } = await supabase
+      .from("scores")
+      .select("criteria_id, value, is_na, comment, normalized_score")
+      .eq("session_id", id);
+
+    if (scoresError) {
+      console.error("Error fetching scores:", scoresError);
+      return errorResponse("Failed to fetch scores", 500);
+    }
+
+    const templateSnapshot = session.template_snapshot as Record<string, unknown>;
+    const template = session.templates as Template;
+
+    let resolution;
+    try {
+      resolution = resolveDispute({
+        template,
+        criteria: (templateSnapshot?.criteria || []) as Criteria[],
+        groups: (templateSnapshot?.groups || []) as CriteriaGroup[],
+        formula: getSnapshotFormula(templateSnapshot),
+        scores: (scores || []) as DisputedScore[],
+        disputedCriteriaIds: (session.disputed_criteria_ids || []) as string[],
+        decisions,
+      });
+    } catch (error) {
+      if (error instanceof DisputeResolutionError) {
+        return errorResponse(error.message, 400);
+      }
+      throw error;
+    }
+
+    const { outcome, amendedScores, changes, scoreResult } = resolution;
+    const now = new Date().toISOString();
+
+    if (amendedScores.length > 0) {
+      const { error: upsertError } = await supabase.from("scores").upsert(
+        amendedScores.map((score) => ({
+          ...score,
+          session_id: id,
+          scored_by: user!.id,
+          scored_at: now,
+        })),
+        { onConflict: "session_id,criteria_id", ignoreDuplicates: false }
+      );
+
+      if (upsertError) {
+        console.error("Error amending scores:", upsertError);
+        return errorResponse("Failed to amend scores", 500);
+      }
+    }
+
+    const { data: updatedSession, error } = await supabase
+      .from("sessions")
+      .update({
+        status: "reviewed",
+        reviewed_at: now,
+        reviewed_by: user!.id,
+        dispute_resolved_at: now,
+        dispute_resolved_by: user!.id,
+        dispute_resolution: rationale,
+        dispute_outcome: outcome,
+        total_score: scoreResult.total_score,
+        total_possible: scoreResult.total_possible,
+        percentage_score: scoreResult.percentage_score,
+        pass_status: scoreResult.pass_status,
+        has_auto_fail: scoreResult.has_auto_fail,
+        auto_fail_criteria_ids: scoreResult.auto_fail_criteria_ids,
+      })
+      .eq("id", id)
+      .select(
+        `
+        *,
+        templates (id, name, use_case, scoring_method)
+      `
+      )
+      .single();
+
+    if (error) {
+      console.error("Error resolving dispute:", error);
+      return errorResponse("Failed to resolve dispute", 500);
+    }
+
+    // Fetch user data for coach, agent and resolver
+    const userIds = [updatedSession.coach_id, updatedSession.agent_id, user!.id].filter(Boolean) as string[];
+    const userMap = new Map<string, { id: string; name: string; email: string }>();
+
+    const { data: users } = await supabase
+      .from("users")
+      .select("id, name, email")
+      .in("id", userIds);
+
+    for (const u of users || []) {
+      userMap.set(u.id, u);
+    }
+
+    const sessionWithUsers = {
+      ...updatedSession,
+      coach: updatedSession.coach_id ? userMap.get(updatedSession.coach_id) || null : null,
+      agent: updatedSession.agent_id ? userMap.get(updatedSession.agent_id) || null : null,
+      score_result: scoreResult,
+    };
+
+    // Session audit log
+    await supabase.from("session_audit_log").insert({
+      session_id: id,
+      user_id: user!.id,
+      action: "dispute_resolved",
+      details: {
+        previous_status: session.status,
+        outcome,
+        rationale,
+        decisions: changes,
+        previous_percentage_score: session.percentage_score ?? null,
+        percentage_score: scoreResult.percentage_score,
+        pass_status: scoreResult.pass_status,
+      },
+    });
+
+    // Audit log
+    await createAuditLog(
+      orgId!,
+      user!.id,
+      "resolve_dispute",
+      "session",
+      id,
+      { status: session.status, percentage_score: session.percentage_score ?? null },
+      {
+        status: "reviewed",
+        dispute_outcome: outcome,
+        percentage_score: scoreResult.percentage_score,
+      },
+      request
+    );
+
+    await emitWebhookEvent(orgId!, "session.dispute_resolved", {
+      session_id: id,
+      template_id: updatedSession.template_id,
+      coach_id: updatedSession.coach_id,
+      agent_id: updatedSession.agent_id,
+      resolved_by: user!.id,
+      outcome,
+      rationale,
+      decisions: changes,
+      previous_percentage_score: session.percentage_score ?? null,
+      percentage_score: scoreResult.percentage_score,
+      pass_status: scoreResult.pass_status,
+      resolved_at: now,
+    });
+
+    if (updatedSession.agent_id) {
+      await notifyDisputeResolved({
+        orgId: orgId!,
+        sessionId: id,
+        agentId: updatedSession.agent_id,
+        disputedAt: session.disputed_at || now,
+        templateName: template?.name || "Scoring session",
+        resolverName: userMap.get(user!.id)?.name || "Your coach",
+        outcome,
+        rationale,
+        previousScore: session.percentage_score ?? null,
+        newScore: scoreResult.percentage_score,
+        changes: changes.map((c) =>
+          c.action === "uphold"
+            ? `${c.criteria_name}: upheld`
+            : `${c.criteria_name}: ${formatScore(c.previous_score)} -> ${formatScore(c.new_score)}`
+        ),
+      });
+    }
+
+    await writeSessionToCalendar(id);
+
+    return successResponse(sessionWithUsers);
+  } catch (error) {
+    console.error("Error resolving dispute:", error);
+    return errorResponse("Failed to resolve dispute", 500);
+  }
+}
+
+function formatScore(score: number | null): string {
+  return score === null ? "N/A" : `${Math.round(score)}%`;
+}
@@ -14,6 +14,8 @@ import {
   createAuditLog,
 } from "@/lib/api-utils";
 import { z } from "zod";
+import { emitWebhookEvent } from "@/lib/webhooks";
+import { writeSessionToCalendar } from "@/lib/google/calendar-writeback";
 
 const disputeSchema = z.object({
   reason: z.string().min(10).max(2000),
@@ -148,6 +150,19 @@ export async function POST(request: Request, { params }: RouteParams) {
       request
     );
 
+    await emitWebhookEvent(orgId!, "session.disputed", {
+      session_id: id,
+      template_id: updatedSession.template_id,
+      coach_id: updatedSession.coach_id,
+      agent_id: updatedSession.agent_id,
+      disputed_by: user!.id,
+      reason,
+      disputed_criteria_ids: disputed_criteria_ids || [],
+      disputed_at: updatedSession.disputed_at,
+    });
+
+    await writeSessionToCalendar(id);
+
     return successResponse(sessionWithUsers);
   } catch (error) {
     console.error("Error disputing session:", error);
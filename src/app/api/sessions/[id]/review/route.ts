@@ -15,6 +15,8 @@ import {
   createAuditLog,
 } from "@/lib/api-utils";
 import { z } from "zod";
+import { emitWebhookEvent } from "@/lib/webhooks";
+import { writeSessionToCalendar } from "@/lib/google/calendar-writeback";
 
 const reviewSchema = z.object({
   reviewer_notes: z.string().max(5000).optional(),
@@ -146,6 +148,20 @@ export async function POST(request: Request, { params }: RouteParams) {
       request
     );
 
+    await emitWebhookEvent(orgId!, "session.reviewed", {
+      session_id: id,
+      template_id: updatedSession.template_id,
+      coach_id: updatedSession.coach_id,
+      agent_id: updatedSession.agent_id,
+      reviewed_by: user!.id,
+      reviewer_rating: updatedSession.reviewer_rating,
+      percentage_score: updatedSession.percentage_score,
+      pass_status: updatedSession.pass_status,
+      reviewed_at: updatedSession.reviewed_at,
+    });
+
+    await writeSessionToCalendar(id);
+
     return successResponse(sessionWithUsers);
   } catch (error) {
     console.error("Error reviewing session:", error);
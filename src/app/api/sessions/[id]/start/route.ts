@@ -7,6 +7,7 @@ import {
   isValidUUID,
   createAuditLog,
 } from "@/lib/api-utils";
+import { writeSessionToCalendar } from "@/lib/google/calendar-writeback";
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -121,6 +122,8 @@ export async function POST(request: Request, { params }: RouteParams) {
       request
     );
 
+    await writeSessionToCalendar(id);
+
     // Return session with template criteria for scoring interface
     const result: Record<string, unknown> = { ...sessionWithUsers };
 
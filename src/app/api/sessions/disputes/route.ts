@@ -0,0 +1,84 @@
+/**
+ * Open Disputes API
+ *
+ * GET /api/sessions/disputes - Open disputes, oldest first, with their age
+ * against the resolution SLA
+ */
+
+import { createClient } from "@/lib/supabase/server";
+import { requireAuth, errorResponse, successResponse } from "@/lib/api-utils";
+import { getDisputeAge, summarizeDisputeSla, DISPUTE_SLA_HOURS } from "@/lib/disputes";
+
+// GET /api/sessions/disputes - List open disputes with SLA status
+export async function GET() {
+  const { user, orgId, role, response } = await requireAuth();
+  if (response) return response;
+
+  try {
+    const supabase = await createClient();
+
+    let query = supabase
+      .from("sessions")
+      .select(
+        "id, template_id, call_id, coach_id, agent_id, disputed_at, disputed_by, dispute_reason, disputed_criteria_ids, percentage_score, pass_status, templates (id, name)"
+      )
+      .eq("org_id", orgId!)
+      .eq("status", "disputed")
+      .order("disputed_at", { ascending: true });
+
+    // Coaches and agents only see disputes on their own sessions
+    if (role !== "admin" && role !== "superadmin" && role !== "manager") {
+      query = query.or(`coach_id.eq.${user!.id},agent_id.eq.${user!.id}`);
+    }
+
+    const { data: sessions, error } = await query;
+
+    if (error) {
+      console.error("Error fetching disputes:", error);
+      return errorResponse("Failed to fetch disputes", 500);
+    }
+
+    const userIds = new Set<string>();
+    for (const session of sessions || []) {
+      if (session.coach_id) userIds.add(session.coach_id);
+      if (session.agent_id) userIds.add(session.agent_id);
+    }
+
+    const userMap = new Map<string, { id: string; name: string; email: string }>();
+    if (userIds.size > 0) {
+      const { data: users } = await supabase
+        .from("users")
+        .select("id, name, email")
+        .in("id", Array.from(userIds));
+
+      for (const u of users || []) {
+        userMap.set(u.id, u);
+      }
+    }
+
+    const now = new Date();
+    // Sessions disputed before disputed_at was reliably set count from now
+    const disputedAt = (sessions || []).map((s) => s.disputed_at || now.toISOString());
+
+    const disputes = (sessions || []).map((session, i) => {
+      const age = getDisputeAge(disputedAt[i], now);
+      return {
+        ...session,
+        coach: session.coach_id ? userMap.get(session.coach_id) || null : null,
+        agent: session.agent_id ? userMap.get(session.agent_id) || null : null,
+        age_hours: age.ageHours,
+        sla_status: age.slaStatus,
+        sla_due_at: age.dueAt,
+      };
+    });
+
+    return successResponse({
+      disputes,
+      summary: summarizeDisputeSla(disputedAt, now),
+      sla_hours: DISPUTE_SLA_HOURS,
+    });
+  } catch (error) {
+    console.error("Error fetching disputes:", error);
+    return errorResponse("Failed to fetch disputes", 500);
+  }
+}
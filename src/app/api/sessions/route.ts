@@ -1,7 +1,7 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
 import {
-  requireAuth,
+  requireAuthOrApiKey,
   requireRole,
   errorResponse,
   successResponse,
@@ -30,11 +30,10 @@ interface RouteParams {
 
 // GET /api/sessions - List sessions
 export async function GET(request: Request) {
-  const { user, orgId, role, response } = await requireAuth();
+  const { user, orgId, role, supabase, response } = await requireAuthOrApiKey("sessions:read");
   if (response) return response;
 
   try {
-    const supabase = await createClient();
     const { searchParams } = new URL(request.url);
 
     const { page, pageSize, offset } = getPaginationParams(searchParams);
@@ -210,7 +209,7 @@ export async function POST(request: Request) {
     // Verify template exists and is active
     const { data: template, error: templateError } = await supabase
       .from("templates")
-      .select("id, status, version, name, scoring_method, use_case, pass_threshold, settings")
+      .select("id, status, version, name, scoring_method, scoring_formula, use_case, pass_threshold, settings")
       .eq("id", sessionData.template_id)
       .eq("org_id", orgId!)
       .single();
@@ -278,6 +277,7 @@ export async function POST(request: Request) {
         id: template.id,
         name: template.name,
         scoring_method: template.scoring_method,
+        scoring_formula: template.scoring_formula ?? null,
         use_case: template.use_case,
         pass_threshold: template.pass_threshold,
         settings: template.settings,
@@ -74,6 +74,7 @@ export async function GET() {
       const { data: analyses } = await supabase
         .from("analyses")
         .select("call_id, overall_score, created_at")
+        .eq("status", "completed")
         .in("call_id", callIds);
 
       if (analyses && analyses.length > 0) {
@@ -1,5 +1,5 @@
 import { NextResponse } from "next/server";
-import { createClient } from "@/lib/supabase/server";
+import { createClient, createAdminClient } from "@/lib/supabase/server";
 import {
   requireAuth,
   errorResponse,
@@ -58,8 +58,21 @@ export async function GET(request: Request) {
       return errorResponse("Failed to fetch team members", 500);
     }
 
+    // Admins also see who has enrolled in 2FA; user_mfa is service-role only
+    let members: Array<(typeof users)[number] & { mfa_enabled?: boolean }> = users || [];
+    if ((role === "admin" || role === "superadmin") && members.length > 0) {
+      const { data: mfaRows } = await createAdminClient()
+        .from("user_mfa")
+        .select("user_id")
+        .in("user_id", members.map((m) => m.id))
+        .eq("enabled", true);
+
+      const enrolled = new Set((mfaRows || []).map((r: { user_id: string }) => r.user_id));
+      members = members.map((m) => ({ ...m, mfa_enabled: enrolled.has(m.id) }));
+    }
+
     return NextResponse.json({
-      data: users,
+      data: members,
       pagination: {
         page,
         pageSize,
@@ -0,0 +1,107 @@
+/**
+ * Template Criteria Insights API
+ *
+ * GET /api/templates/[id]/insights - Score distribution, trend and calibration flags per criterion
+ * POST /api/templates/[id]/insights - Recalculate them now
+ */
+
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { requireAdmin, errorResponse, isValidUUID } from "@/lib/api-utils";
+import {
+  AI_DISAGREEMENT_POINTS,
+  EXTREME_SCORE_RATE,
+  INSIGHT_WINDOW_DAYS,
+  MIN_AI_COMPARISONS,
+  MIN_EVALUATIONS_FOR_FLAGS,
+  getTemplateCriteriaInsights,
+  refreshCriteriaInsights,
+} from "@/lib/criteria-insights";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+async function insightsResponse(supabase: Awaited<ReturnType<typeof createClient>>, orgId: string, templateId: string) {
+  const insights = await getTemplateCriteriaInsights(supabase, orgId, templateId);
+
+  return NextResponse.json({
+    data: insights,
+    period: insights[0]
+      ? { start: insights[0].period_start, end: insights[0].period_end, calculatedAt: insights[0].last_calculated_at }
+      : null,
+    thresholds: {
+      windowDays: INSIGHT_WINDOW_DAYS,
+      minEvaluations: MIN_EVALUATIONS_FOR_FLAGS,
+      extremeRate: EXTREME_SCORE_RATE,
+      minAiComparisons: MIN_AI_COMPARISONS,
+      aiDisagreementPoints: AI_DISAGREEMENT_POINTS,
+    },
+  });
+}
+
+// GET /api/templates/[id]/insights - Latest criteria insights for a template
+export async function GET(request: Request, { params }: RouteParams) {
+  const { orgId, response } = await requireAdmin();
+  if (response) return response;
+
+  try {
+    const { id } = await params;
+
+    if (!isValidUUID(id)) {
+      return errorResponse("Invalid template ID", 400);
+    }
+
+    const supabase = await createClient();
+
+    const { data: template } = await supabase
+      .from("templates")
+      .select("id")
+      .eq("id", id)
+      .eq("org_id", orgId!)
+      .single();
+
+    if (!template) {
+      return errorResponse("Template not found", 404);
+    }
+
+    return await insightsResponse(supabase, orgId!, id);
+  } catch (error) {
+    console.error("Error fetching criteria insights:", error);
+    return errorResponse("Failed to fetch criteria insights", 500);
+  }
+}
+
+// POST /api/templates/[id]/insights - Recalculate a template's criteria insights
+export async function POST(request: Request, { params }: RouteParams) {
+  const { orgId, response } = await requireAdmin();
+  if (response) return response;
+
+  try {
+    const { id } = await params;
+
+    if (!isValidUUID(id)) {
+      return errorResponse("Invalid template ID", 400);
+    }
+
+    const supabase = await createClient();
+
+    const { data: template } = await supabase
+      .from("templates")
+      .select("id")
+      .eq("id", id)
+      .eq("org_id", orgId!)
+      .single();
+
+    if (!template) {
+      return errorResponse("Template not found", 404);
+    }
+
+    await refreshCriteriaInsights(orgId!, { templateId: id });
+
+    return await insightsResponse(supabase, orgId!, id);
+  } catch (error) {
+    console.error("Error refreshing criteria insights:", error);
+    return errorResponse("Failed to refresh criteria insights", 500);
+  }
+}
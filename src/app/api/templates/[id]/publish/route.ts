@@ -8,6 +8,8 @@ import {
   createAuditLog,
 } from "@/lib/api-utils";
 import { z } from "zod";
+import { getFormulaVariables, validateFormula } from "@/lib/scoring-formula";
+import { emitWebhookEvent } from "@/lib/webhooks";
 
 const publishSchema = z.object({
   change_summary: z.string().max(500).optional(),
@@ -91,6 +93,20 @@ export async function POST(request: Request, { params }: RouteParams) {
       }
     }
 
+    // Validate the formula against the criteria it will be scored with
+    if (template.scoring_method === "custom_formula") {
+      if (!template.scoring_formula?.trim()) {
+        return errorResponse("A scoring formula is required for custom formula scoring", 400);
+      }
+      const formulaResult = validateFormula(
+        template.scoring_formula,
+        getFormulaVariables(groups || [], criteria)
+      );
+      if (!formulaResult.valid) {
+        return errorResponse(`Invalid scoring formula: ${formulaResult.errors.join(", ")}`, 400);
+      }
+    }
+
     // Get next version number
     const { data: latestVersion } = await supabase
       .from("template_versions")
@@ -174,6 +190,15 @@ export async function POST(request: Request, { params }: RouteParams) {
       request
     );
 
+    await emitWebhookEvent(orgId!, "template.published", {
+      template_id: id,
+      name: updatedTemplate.name,
+      version: nextVersion,
+      version_id: version.id,
+      is_default: updatedTemplate.is_default,
+      change_summary: change_summary || null,
+    });
+
     return successResponse({
       template: updatedTemplate,
       version,
@@ -10,6 +10,7 @@ import {
 } from "@/lib/api-utils";
 import { z } from "zod";
 import { TemplateSettings, Criteria, CriteriaGroup } from "@/types/database";
+import { getFormulaSyntaxError, MAX_FORMULA_LENGTH } from "@/lib/scoring-formula";
 
 // Validation schema for updating templates
 const updateTemplateSchema = z.object({
@@ -18,6 +19,7 @@ const updateTemplateSchema = z.object({
   scoring_method: z
     .enum(["weighted", "simple_average", "pass_fail", "points", "custom_formula"])
     .optional(),
+  scoring_formula: z.string().max(MAX_FORMULA_LENGTH).optional().nullable(),
   use_case: z
     .enum(["sales_call", "onboarding", "qa_review", "training", "custom"])
     .optional(),
@@ -153,6 +155,14 @@ export async function PUT(request: Request, { params }: RouteParams) {
 
     const updates = validationResult.data;
 
+    // Names are checked on publish, when the criteria are final
+    const formulaError = updates.scoring_formula
+      ? getFormulaSyntaxError(updates.scoring_formula)
+      : null;
+    if (formulaError) {
+      return errorResponse(`Invalid scoring formula: ${formulaError}`, 400);
+    }
+
     // Handle default flag changes
     if (updates.is_default === true && updates.status === "active") {
       // Unset other defaults
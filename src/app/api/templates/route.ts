@@ -16,6 +16,7 @@ import {
   TemplateUseCase,
   TemplateStatus,
 } from "@/types/database";
+import { getFormulaSyntaxError, MAX_FORMULA_LENGTH } from "@/lib/scoring-formula";
 
 // Default template settings
 const defaultSettings: TemplateSettings = {
@@ -34,6 +35,7 @@ const templateSchema = z.object({
   scoring_method: z
     .enum(["weighted", "simple_average", "pass_fail", "points", "custom_formula"])
     .default("weighted"),
+  scoring_formula: z.string().max(MAX_FORMULA_LENGTH).optional().nullable(),
   use_case: z
     .enum(["sales_call", "onboarding", "qa_review", "training", "custom"])
     .default("sales_call"),
@@ -155,8 +157,16 @@ export async function POST(request: Request) {
       settings,
       status,
       is_default,
+      scoring_formula,
     } = validationResult.data;
 
+    // Criteria may not exist yet, so only the syntax is checked here; names
+    // are checked on publish
+    const formulaError = scoring_formula ? getFormulaSyntaxError(scoring_formula) : null;
+    if (formulaError) {
+      return errorResponse(`Invalid scoring formula: ${formulaError}`, 400);
+    }
+
     const supabase = await createClient();
 
     // If setting as default and active, unset other defaults first
@@ -181,6 +191,7 @@ export async function POST(request: Request) {
         name,
         description,
         scoring_method,
+        scoring_formula,
         use_case,
         pass_threshold,
         max_total_score,
@@ -0,0 +1,40 @@
+/**
+ * Usage API
+ *
+ * GET /api/usage - This period's metered usage against the org's plan limits
+ */
+
+import { NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/server";
+import { requireAdmin, errorResponse } from "@/lib/api-utils";
+import { getOrgPlanLimits, getPlanDisplayName } from "@/lib/plan-limits";
+import { USAGE_WARNING_PERCENT, getCurrentUsage, summarizeUsage } from "@/lib/usage";
+import type { PlanTier } from "@/types/analytics";
+
+// GET /api/usage - Current usage vs. limit per metered feature
+export async function GET() {
+  const { orgId, response } = await requireAdmin();
+  if (response) return response;
+
+  try {
+    const admin = createAdminClient();
+
+    const [{ data: org }, limits, usage] = await Promise.all([
+      admin.from("organizations").select("plan").eq("id", orgId!).single(),
+      getOrgPlanLimits(orgId!, admin),
+      getCurrentUsage(orgId!),
+    ]);
+
+    const plan = (org?.plan || "free") as PlanTier;
+
+    return NextResponse.json({
+      data: summarizeUsage(usage.counters, limits),
+      plan: { tier: plan, name: getPlanDisplayName(plan) },
+      period: usage.period,
+      warningPercent: USAGE_WARNING_PERCENT,
+    });
+  } catch (error) {
+    console.error("Error fetching usage:", error);
+    return errorResponse("Failed to fetch usage", 500);
+  }
+}
@@ -3,6 +3,10 @@ import { NextResponse } from "next/server";
 import { z } from "zod";
 import crypto from "crypto";
 import { checkRateLimit, RATE_LIMITS, addRateLimitHeaders } from "@/lib/rate-limiter";
+import { signWebhookPayload } from "@/lib/webhooks";
+import { notifyNewCall } from "@/lib/notifications";
+import { planLimitResponse } from "@/lib/api-utils";
+import { consumeUsage, releaseUsage } from "@/lib/usage";
 
 // Webhook payload schema
 const webhookPayloadSchema = z.object({
@@ -38,10 +42,8 @@ function verifySignature(
 ): boolean {
   if (!signature) return false;
 
-  const expectedSignature = crypto
-    .createHmac("sha256", secret)
-    .update(payload)
-    .digest("hex");
+  // Same scheme outbound deliveries are signed with
+  const expectedSignature = signWebhookPayload(payload, secret);
 
   return timingSafeCompare(signature, expectedSignature);
 }
@@ -217,6 +219,12 @@ export async function POST(
       );
     }
 
+    const usage = await consumeUsage(org.id, "calls_count");
+    if (!usage.allowed) {
+      await logWebhook(supabase, org.id, request, body, 402, usage.error || "Plan limit exceeded", startTime);
+      return planLimitResponse(usage);
+    }
+
     // Create call
     const { data: call, error: callError } = await supabase
       .from("calls")
@@ -239,6 +247,17 @@ export async function POST(
       .single();
 
     if (callError) {
+      await releaseUsage(org.id, "calls_count");
+
+      // A concurrent request with the same external_id won
+      if (callError.code === "23505") {
+        await logWebhook(supabase, org.id, request, body, 409, "Duplicate call", startTime);
+        return NextResponse.json(
+          { error: "Call with this external_id already exists" },
+          { status: 409 }
+        );
+      }
+
       await logWebhook(supabase, org.id, request, body, 500, "Failed to create call", startTime);
       return NextResponse.json(
         { error: "Failed to create call" },
@@ -257,6 +276,8 @@ export async function POST(
       });
     }
 
+    await notifyNewCall(call.id);
+
     // Log successful webhook
     await logWebhook(supabase, org.id, request, body, 201, null, startTime, { call_id: call.id });
 
@@ -0,0 +1,47 @@
+import {
+  requireAdmin,
+  errorResponse,
+  successResponse,
+  isValidUUID,
+  createAuditLog,
+} from "@/lib/api-utils";
+import { replayWebhookDelivery } from "@/lib/webhooks";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/webhooks/deliveries/[id]/replay - Re-send a delivery's payload now
+export async function POST(request: Request, { params }: RouteParams) {
+  const { id } = await params;
+  const { user, orgId, response } = await requireAdmin();
+  if (response) return response;
+
+  if (!isValidUUID(id)) {
+    return errorResponse("Invalid delivery ID", 400);
+  }
+
+  try {
+    const replay = await replayWebhookDelivery(id, orgId!);
+
+    if (!replay) {
+      return errorResponse("Delivery not found", 404);
+    }
+
+    await createAuditLog(
+      orgId!,
+      user!.id,
+      "webhook_delivery.replayed",
+      "webhook_delivery",
+      replay.id,
+      undefined,
+      { replay_of: id, event_type: replay.event_type, status: replay.status },
+      request
+    );
+
+    return successResponse(replay, 201);
+  } catch (error) {
+    console.error("Error replaying webhook delivery:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
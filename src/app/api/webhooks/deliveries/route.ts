@@ -0,0 +1,71 @@
+import { createClient } from "@/lib/supabase/server";
+import { NextResponse } from "next/server";
+import {
+  requireAdmin,
+  getPaginationParams,
+  errorResponse,
+  isValidUUID,
+} from "@/lib/api-utils";
+
+const DELIVERY_STATUSES = ["pending", "delivering", "succeeded", "failed"];
+
+// GET /api/webhooks/deliveries - Outbound delivery log
+export async function GET(request: Request) {
+  const { orgId, response } = await requireAdmin();
+  if (response) return response;
+
+  try {
+    const supabase = await createClient();
+    const { searchParams } = new URL(request.url);
+
+    const { page, pageSize, offset } = getPaginationParams(searchParams);
+
+    let query = supabase
+      .from("webhook_deliveries")
+      .select("*, subscription:webhook_subscriptions(id, name, url)", { count: "exact" })
+      .eq("org_id", orgId!);
+
+    const subscriptionId = searchParams.get("subscription_id");
+    if (subscriptionId) {
+      if (!isValidUUID(subscriptionId)) {
+        return errorResponse("Invalid subscription ID", 400);
+      }
+      query = query.eq("subscription_id", subscriptionId);
+    }
+
+    const status = searchParams.get("status");
+    if (status) {
+      if (!DELIVERY_STATUSES.includes(status)) {
+        return errorResponse("Invalid status", 400);
+      }
+      query = query.eq("status", status);
+    }
+
+    const eventType = searchParams.get("event_type");
+    if (eventType) {
+      query = query.eq("event_type", eventType);
+    }
+
+    const { data: deliveries, count, error } = await query
+      .order("created_at", { ascending: false })
+      .range(offset, offset + pageSize - 1);
+
+    if (error) {
+      console.error("Error fetching webhook deliveries:", error);
+      return errorResponse("Failed to fetch webhook deliveries", 500);
+    }
+
+    return NextResponse.json({
+      data: deliveries || [],
+      pagination: {
+        page,
+        pageSize,
+        total: count || 0,
+        totalPages: Math.ceil((count || 0) / pageSize),
+      },
+    });
+  } catch (error) {
+    console.error("Error in webhook deliveries GET:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
@@ -0,0 +1,168 @@
+import { createClient } from "@/lib/supabase/server";
+import {
+  requireAdmin,
+  errorResponse,
+  successResponse,
+  isValidUUID,
+  createAuditLog,
+  sanitizeInput,
+} from "@/lib/api-utils";
+import {
+  generateWebhookSecret,
+  isWebhookEventType,
+  maskWebhookSubscription,
+  validateWebhookUrl,
+} from "@/lib/webhooks";
+import type { WebhookSubscription } from "@/types/database";
+import { z } from "zod";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+const updateSubscriptionSchema = z.object({
+  name: z.string().min(1).max(255).optional(),
+  url: z.string().max(2048).optional(),
+  events: z
+    .array(z.string().refine(isWebhookEventType, { message: "Unknown event type" }))
+    .min(1, "Select at least one event")
+    .optional(),
+  is_active: z.boolean().optional(),
+  rotate_secret: z.boolean().optional(),
+});
+
+// PATCH /api/webhooks/subscriptions/[id] - Update, pause or rotate the secret
+export async function PATCH(request: Request, { params }: RouteParams) {
+  const { id } = await params;
+  const { user, orgId, response } = await requireAdmin();
+  if (response) return response;
+
+  if (!isValidUUID(id)) {
+    return errorResponse("Invalid subscription ID", 400);
+  }
+
+  try {
+    const body = await request.json();
+    const validationResult = updateSubscriptionSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return errorResponse(validationResult.error.issues[0]?.message || "Validation failed", 400);
+    }
+
+    const { name, url, events, is_active, rotate_secret } = validationResult.data;
+
+    if (url !== undefined) {
+      const urlError = validateWebhookUrl(url);
+      if (urlError) {
+        return errorResponse(urlError, 400);
+      }
+    }
+
+    const supabase = await createClient();
+
+    const { data: existing, error: fetchError } = await supabase
+      .from("webhook_subscriptions")
+      .select("id, name, url, events, is_active")
+      .eq("id", id)
+      .eq("org_id", orgId!)
+      .single();
+
+    if (fetchError || !existing) {
+      return errorResponse("Subscription not found", 404);
+    }
+
+    const updateData: Partial<WebhookSubscription> = {};
+    if (name !== undefined) updateData.name = sanitizeInput(name);
+    if (url !== undefined) updateData.url = url;
+    if (events !== undefined) updateData.events = Array.from(new Set(events));
+    if (is_active !== undefined) updateData.is_active = is_active;
+    if (rotate_secret) updateData.secret = generateWebhookSecret();
+
+    const { data: subscription, error } = await supabase
+      .from("webhook_subscriptions")
+      .update(updateData)
+      .eq("id", id)
+      .eq("org_id", orgId!)
+      .select("*")
+      .single();
+
+    if (error || !subscription) {
+      console.error("Error updating webhook subscription:", error);
+      return errorResponse("Failed to update webhook subscription", 500);
+    }
+
+    // Never write the secret itself to the audit log
+    const auditedChanges = { ...updateData, ...(rotate_secret && { secret: "[rotated]" }) };
+    await createAuditLog(
+      orgId!,
+      user!.id,
+      rotate_secret ? "webhook_subscription.secret_rotated" : "webhook_subscription.updated",
+      "webhook_subscription",
+      id,
+      existing,
+      auditedChanges,
+      request
+    );
+
+    // Show the new secret once after rotating
+    return successResponse(
+      rotate_secret ? subscription : maskWebhookSubscription(subscription as WebhookSubscription)
+    );
+  } catch (error) {
+    console.error("Error in webhook subscription PATCH:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+// DELETE /api/webhooks/subscriptions/[id] - Remove a subscription and its delivery log
+export async function DELETE(request: Request, { params }: RouteParams) {
+  const { id } = await params;
+  const { user, orgId, response } = await requireAdmin();
+  if (response) return response;
+
+  if (!isValidUUID(id)) {
+    return errorResponse("Invalid subscription ID", 400);
+  }
+
+  try {
+    const supabase = await createClient();
+
+    const { data: existing, error: fetchError } = await supabase
+      .from("webhook_subscriptions")
+      .select("id, name, url, events")
+      .eq("id", id)
+      .eq("org_id", orgId!)
+      .single();
+
+    if (fetchError || !existing) {
+      return errorResponse("Subscription not found", 404);
+    }
+
+    const { error } = await supabase
+      .from("webhook_subscriptions")
+      .delete()
+      .eq("id", id)
+      .eq("org_id", orgId!);
+
+    if (error) {
+      console.error("Error deleting webhook subscription:", error);
+      return errorResponse("Failed to delete webhook subscription", 500);
+    }
+
+    await createAuditLog(
+      orgId!,
+      user!.id,
+      "webhook_subscription.deleted",
+      "webhook_subscription",
+      id,
+      existing,
+      undefined,
+      request
+    );
+
+    return successResponse({ id, deleted: true });
+  } catch (error) {
+    console.error("Error deleting webhook subscription:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
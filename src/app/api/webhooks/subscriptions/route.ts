@@ -0,0 +1,116 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  requireAdmin,
+  errorResponse,
+  successResponse,
+  createAuditLog,
+  sanitizeInput,
+} from "@/lib/api-utils";
+import {
+  WEBHOOK_EVENTS,
+  generateWebhookSecret,
+  isWebhookEventType,
+  maskWebhookSubscription,
+  validateWebhookUrl,
+} from "@/lib/webhooks";
+import type { WebhookSubscription } from "@/types/database";
+import { z } from "zod";
+
+const createSubscriptionSchema = z.object({
+  name: z.string().min(1).max(255),
+  url: z.string().max(2048),
+  events: z
+    .array(z.string().refine(isWebhookEventType, { message: "Unknown event type" }))
+    .min(1, "Select at least one event"),
+  is_active: z.boolean().optional(),
+});
+
+// GET /api/webhooks/subscriptions - List outbound webhook subscriptions
+export async function GET() {
+  const { orgId, response } = await requireAdmin();
+  if (response) return response;
+
+  try {
+    const supabase = await createClient();
+
+    const { data: subscriptions, error } = await supabase
+      .from("webhook_subscriptions")
+      .select("*")
+      .eq("org_id", orgId!)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching webhook subscriptions:", error);
+      return errorResponse("Failed to fetch webhook subscriptions", 500);
+    }
+
+    return NextResponse.json({
+      data: ((subscriptions || []) as WebhookSubscription[]).map(maskWebhookSubscription),
+      events: WEBHOOK_EVENTS,
+    });
+  } catch (error) {
+    console.error("Error in webhook subscriptions GET:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+// POST /api/webhooks/subscriptions - Subscribe an endpoint to events
+export async function POST(request: Request) {
+  const { user, orgId, response } = await requireAdmin();
+  if (response) return response;
+
+  try {
+    const body = await request.json();
+    const validationResult = createSubscriptionSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return errorResponse(validationResult.error.issues[0]?.message || "Validation failed", 400);
+    }
+
+    const { name, url, events, is_active } = validationResult.data;
+
+    const urlError = validateWebhookUrl(url);
+    if (urlError) {
+      return errorResponse(urlError, 400);
+    }
+
+    const supabase = await createClient();
+
+    const { data: subscription, error } = await supabase
+      .from("webhook_subscriptions")
+      .insert({
+        org_id: orgId!,
+        name: sanitizeInput(name),
+        url,
+        secret: generateWebhookSecret(),
+        events: Array.from(new Set(events)),
+        is_active: is_active ?? true,
+        created_by: user!.id,
+      })
+      .select("*")
+      .single();
+
+    if (error) {
+      console.error("Error creating webhook subscription:", error);
+      return errorResponse("Failed to create webhook subscription", 500);
+    }
+
+    await createAuditLog(
+      orgId!,
+      user!.id,
+      "webhook_subscription.created",
+      "webhook_subscription",
+      subscription.id,
+      undefined,
+      { name: subscription.name, url, events: subscription.events },
+      request
+    );
+
+    // The full secret is only returned on create and rotate
+    return successResponse(subscription, 201);
+  } catch (error) {
+    console.error("Error in webhook subscriptions POST:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
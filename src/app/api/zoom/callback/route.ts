@@ -0,0 +1,125 @@
+/**
+ * Zoom OAuth Callback Route
+ *
+ * Handles the OAuth 2.0 callback from Zoom after an admin authorizes the
+ * app. Verifies CSRF state, exchanges code for tokens, and stores the
+ * connection for the admin's org.
+ */
+
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/api-utils";
+import { verifyZoomState, exchangeZoomCode } from "@/lib/zoom/oauth";
+import { getZoomMe } from "@/lib/zoom/api-client";
+import { createOrUpdateZoomConnection } from "@/lib/zoom/storage";
+
+function errorRedirect(origin: string, error: string, description?: string | null) {
+  const redirectUrl = new URL("/dashboard/google", origin);
+  redirectUrl.searchParams.set("provider", "zoom");
+  redirectUrl.searchParams.set("error", error);
+  if (description) {
+    redirectUrl.searchParams.set("error_description", description);
+  }
+  return NextResponse.redirect(redirectUrl);
+}
+
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const code = url.searchParams.get("code");
+  const state = url.searchParams.get("state");
+  const error = url.searchParams.get("error");
+
+  // Handle OAuth errors from Zoom (e.g. authorization declined)
+  if (error) {
+    console.error("[Zoom Callback] OAuth error:", error);
+    return errorRedirect(url.origin, error, url.searchParams.get("error_description"));
+  }
+
+  if (!code || !state) {
+    console.error("[Zoom Callback] Missing code or state");
+    return errorRedirect(url.origin, "invalid_request", "Missing required parameters");
+  }
+
+  try {
+    // Verify CSRF state and extract payload
+    const statePayload = verifyZoomState(state);
+
+    // Verify the user is authenticated and matches the state
+    const { user, orgId, role } = await getCurrentUser();
+
+    if (!user || !orgId) {
+      console.error("[Zoom Callback] User not authenticated");
+      const redirectUrl = new URL("/login", url.origin);
+      redirectUrl.searchParams.set("error", "session_expired");
+      return NextResponse.redirect(redirectUrl);
+    }
+
+    if (user.id !== statePayload.userId) {
+      console.error("[Zoom Callback] User ID mismatch");
+      return errorRedirect(url.origin, "invalid_state", "Session mismatch - please try again");
+    }
+
+    if (role !== "admin" && role !== "superadmin") {
+      return errorRedirect(url.origin, "forbidden", "Only admins can connect Zoom");
+    }
+
+    const tokens = await exchangeZoomCode(code);
+
+    if (!tokens.refresh_token) {
+      console.error("[Zoom Callback] No refresh token received");
+      return errorRedirect(
+        url.origin,
+        "no_refresh_token",
+        "Zoom did not provide a refresh token. Please try again."
+      );
+    }
+
+    const me = await getZoomMe(tokens.access_token);
+
+    const connection = await createOrUpdateZoomConnection({
+      orgId,
+      connectedBy: user.id,
+      zoomAccountId: me.account_id,
+      zoomUserId: me.id,
+      zoomEmail: me.email,
+      accessToken: tokens.access_token,
+      refreshToken: tokens.refresh_token,
+      tokenExpiry: new Date(Date.now() + tokens.expires_in * 1000),
+      scopes: tokens.scope ? tokens.scope.split(/[\s,]+/) : [],
+    });
+
+    console.log("[Zoom Callback] Connection saved:", {
+      connectionId: connection.id,
+      email: connection.zoom_email,
+    });
+
+    const redirectAfter = statePayload.redirectUrl || "/dashboard/google";
+    const redirectUrl = new URL(redirectAfter, url.origin);
+    redirectUrl.searchParams.set("provider", "zoom");
+    redirectUrl.searchParams.set("success", "true");
+    redirectUrl.searchParams.set("email", me.email);
+
+    return NextResponse.redirect(redirectUrl);
+  } catch (err) {
+    console.error("[Zoom Callback] Error processing callback:", err);
+
+    if (err instanceof Error) {
+      if (err.message.includes("Invalid state")) {
+        return errorRedirect(
+          url.origin,
+          "invalid_state",
+          "Security validation failed - please try again"
+        );
+      }
+      if (err.message.includes("State expired")) {
+        return errorRedirect(
+          url.origin,
+          "state_expired",
+          "Authorization request expired - please try again"
+        );
+      }
+      return errorRedirect(url.origin, "callback_error", err.message);
+    }
+
+    return errorRedirect(url.origin, "unknown_error", "An unexpected error occurred");
+  }
+}
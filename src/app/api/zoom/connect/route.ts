@@ -0,0 +1,36 @@
+/**
+ * Zoom OAuth Connect Route
+ *
+ * Initiates the OAuth 2.0 authorization flow by redirecting to Zoom. The
+ * connection belongs to the org, so only admins can start it.
+ */
+
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/api-utils";
+import { buildZoomAuthUrl } from "@/lib/zoom/oauth";
+
+export async function GET(request: Request) {
+  const { user, response } = await requireAdmin();
+  if (response) return response;
+
+  try {
+    // Get optional redirect URL from query params
+    const url = new URL(request.url);
+    const redirectAfter = url.searchParams.get("redirect") || undefined;
+
+    // Build the Zoom OAuth URL with CSRF-protected state
+    const authUrl = buildZoomAuthUrl(user!.id, redirectAfter);
+
+    return NextResponse.redirect(authUrl);
+  } catch (error) {
+    console.error("[Zoom Connect] Error:", error);
+
+    return NextResponse.json(
+      {
+        error: "OAuth Error",
+        message: error instanceof Error ? error.message : "Failed to initiate Zoom OAuth",
+      },
+      { status: 500 }
+    );
+  }
+}
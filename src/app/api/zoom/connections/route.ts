@@ -0,0 +1,61 @@
+/**
+ * Zoom Connections API Routes
+ *
+ * GET /api/zoom/connections - List the org's Zoom connections
+ * PATCH /api/zoom/connections - Turn analysis queueing on or off for a
+ * connection (admin only)
+ */
+
+import { z } from "zod";
+import { requireAuth, requireAdmin, errorResponse, successResponse } from "@/lib/api-utils";
+import { listOrgZoomConnections, updateZoomConnectionSettings } from "@/lib/zoom/storage";
+
+const updateConnectionSchema = z.object({
+  connectionId: z.string().uuid(),
+  auto_analyze: z.boolean(),
+});
+
+export async function GET() {
+  const { orgId, response } = await requireAuth();
+  if (response) return response;
+
+  try {
+    const connections = await listOrgZoomConnections(orgId!);
+    return successResponse({ connections });
+  } catch (error) {
+    console.error("[Zoom Connections] List error:", error);
+    return errorResponse("Failed to list Zoom connections", 500);
+  }
+}
+
+export async function PATCH(request: Request) {
+  const { orgId, response } = await requireAdmin();
+  if (response) return response;
+
+  try {
+    const body = await request.json();
+    const validationResult = updateConnectionSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return errorResponse(
+        `Validation error: ${validationResult.error.issues.map((e) => e.message).join(", ")}`,
+        400
+      );
+    }
+
+    const { connectionId, auto_analyze } = validationResult.data;
+
+    const connection = await updateZoomConnectionSettings(orgId!, connectionId, {
+      autoAnalyze: auto_analyze,
+    });
+
+    if (!connection) {
+      return errorResponse("Connection not found", 404);
+    }
+
+    return successResponse(connection);
+  } catch (error) {
+    console.error("[Zoom Connections] Update error:", error);
+    return errorResponse("Failed to update Zoom connection", 500);
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Zoom OAuth Disconnect Route
+ *
+ * Disconnects the org's Zoom account: revokes the token (which uninstalls
+ * the app from the account, stopping its webhooks) and deletes the
+ * connection. Calls already created from recordings are kept.
+ */
+
+import { requireAdmin, errorResponse, successResponse, isValidUUID } from "@/lib/api-utils";
+import { revokeZoomToken } from "@/lib/zoom/oauth";
+import {
+  deleteZoomConnection,
+  getDecryptedZoomRefreshToken,
+  getZoomConnection,
+} from "@/lib/zoom/storage";
+
+export async function POST(request: Request) {
+  const { orgId, response } = await requireAdmin();
+  if (response) return response;
+
+  try {
+    const body = await request.json();
+    const { connectionId } = body as { connectionId?: string };
+
+    if (!connectionId || !isValidUUID(connectionId)) {
+      return errorResponse("connectionId is required", 400);
+    }
+
+    const connection = await getZoomConnection(connectionId);
+
+    if (!connection || connection.org_id !== orgId) {
+      return errorResponse("Connection not found", 404);
+    }
+
+    let revoked = false;
+    try {
+      revoked = await revokeZoomToken(getDecryptedZoomRefreshToken(connection));
+    } catch (error) {
+      console.warn("[Zoom Disconnect] Failed to decrypt/revoke token:", error);
+    }
+
+    const deleted = await deleteZoomConnection(orgId!, connectionId);
+
+    if (!deleted) {
+      return errorResponse("Failed to delete connection", 500);
+    }
+
+    return successResponse({
+      message: "Zoom account disconnected successfully",
+      tokenRevoked: revoked,
+    });
+  } catch (error) {
+    console.error("[Zoom Disconnect] Error:", error);
+    return errorResponse(
+      error instanceof Error ? error.message : "Failed to disconnect Zoom account",
+      500
+    );
+  }
+}
+
+export async function DELETE(request: Request) {
+  // Support DELETE method as well
+  return POST(request);
+}
@@ -0,0 +1,87 @@
+/**
+ * Zoom Webhook API
+ *
+ * POST /api/zoom/webhook - Event notification endpoint for the Zoom app
+ *
+ * Every request must carry a valid x-zm-signature for its
+ * x-zm-request-timestamp. Handles:
+ * - endpoint.url_validation: answered with the HMAC'd plain token
+ * - recording.completed / recording.transcript_completed: the recording's
+ *   transcript becomes a call (see lib/zoom/ingest)
+ * - app_deauthorized: the account's connection is deleted
+ *
+ * Other events are acknowledged and ignored. Errors return 500 so Zoom
+ * retries the delivery.
+ */
+
+import { NextResponse } from "next/server";
+import { ingestZoomRecording } from "@/lib/zoom/ingest";
+import { deleteZoomConnectionByAccountId } from "@/lib/zoom/storage";
+import {
+  buildUrlValidationResponse,
+  getZoomWebhookSecret,
+  isRecordingEvent,
+  isUrlValidationEvent,
+  verifyZoomWebhook,
+} from "@/lib/zoom/webhook";
+import type { ZoomWebhookEvent } from "@/lib/zoom/types";
+
+export async function POST(request: Request) {
+  let secret: string;
+  try {
+    secret = getZoomWebhookSecret();
+  } catch (error) {
+    console.error("[Zoom Webhook] Not configured:", error);
+    return NextResponse.json({ error: "Zoom webhooks are not configured" }, { status: 500 });
+  }
+
+  const rawBody = await request.text();
+
+  const verified = verifyZoomWebhook(
+    rawBody,
+    request.headers.get("x-zm-request-timestamp"),
+    request.headers.get("x-zm-signature"),
+    secret
+  );
+
+  if (!verified) {
+    console.warn("[Zoom Webhook] Rejected request with invalid signature");
+    return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+  }
+
+  let event: ZoomWebhookEvent;
+  try {
+    event = JSON.parse(rawBody) as ZoomWebhookEvent;
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  if (isUrlValidationEvent(event)) {
+    return NextResponse.json(buildUrlValidationResponse(event.payload.plainToken, secret));
+  }
+
+  try {
+    if (isRecordingEvent(event)) {
+      const result = await ingestZoomRecording(event);
+
+      console.log("[Zoom Webhook] Recording handled:", {
+        event: event.event,
+        meetingUuid: event.payload.object.uuid,
+        ...result,
+      });
+
+      return NextResponse.json({ success: true, ...result });
+    }
+
+    if (event.event === "app_deauthorized" && typeof event.payload?.account_id === "string") {
+      await deleteZoomConnectionByAccountId(event.payload.account_id);
+      console.log("[Zoom Webhook] App deauthorized by account:", event.payload.account_id);
+      return NextResponse.json({ success: true });
+    }
+
+    return NextResponse.json({ success: true, ignored: event.event });
+  } catch (error) {
+    console.error("[Zoom Webhook] Error handling event:", event.event, error);
+    return NextResponse.json({ error: "Failed to process event" }, { status: 500 });
+  }
+}
@@ -0,0 +1,127 @@
+"use client";
+
+import { useState } from "react";
+import { AlertCircle, KeyRound, ShieldCheck, Smartphone } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface TwoFactorChallengeProps {
+  onVerified: (result: { recoveryCodesRemaining?: number }) => void;
+  onCancel?: () => void;
+}
+
+export function TwoFactorChallenge({ onVerified, onCancel }: TwoFactorChallengeProps) {
+  const [mode, setMode] = useState<"totp" | "recovery">("totp");
+  const [code, setCode] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError("");
+
+    try {
+      const res = await fetch("/api/auth/2fa/challenge", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(mode === "totp" ? { code } : { recoveryCode: code }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || "Verification failed");
+        setCode("");
+        return;
+      }
+
+      onVerified({ recoveryCodesRemaining: data.recoveryCodesRemaining });
+    } catch {
+      setError("Something went wrong. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const switchMode = () => {
+    setMode(mode === "totp" ? "recovery" : "totp");
+    setCode("");
+    setError("");
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="flex items-center gap-3 rounded-xl border bg-card p-4">
+        <div className="h-10 w-10 rounded-xl bg-primary/10 flex items-center justify-center flex-shrink-0">
+          <ShieldCheck className="h-5 w-5 text-primary" />
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {mode === "totp"
+            ? "Enter the 6-digit code from your authenticator app."
+            : "Enter one of the recovery codes you saved when you set up 2FA. Each code works once."}
+        </p>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-3 rounded-xl bg-red-500/10 border border-red-500/20 p-4 text-sm text-red-600 animate-shake">
+          <AlertCircle className="h-5 w-5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="mfa-code" className="text-sm font-medium">
+          {mode === "totp" ? "Authentication code" : "Recovery code"}
+        </Label>
+        <Input
+          id="mfa-code"
+          value={code}
+          onChange={(e) =>
+            setCode(
+              mode === "totp"
+                ? e.target.value.replace(/\D/g, "").slice(0, 6)
+                : e.target.value.slice(0, 32)
+            )
+          }
+          placeholder={mode === "totp" ? "000000" : "XXXXXXXX"}
+          inputMode={mode === "totp" ? "numeric" : "text"}
+          autoComplete="one-time-code"
+          autoFocus
+          required
+          icon={mode === "totp" ? <Smartphone className="h-4 w-4" /> : <KeyRound className="h-4 w-4" />}
+          className="h-12 font-mono tracking-widest"
+        />
+      </div>
+
+      <Button
+        type="submit"
+        variant="gradient"
+        className="w-full h-12 text-base"
+        disabled={loading || (mode === "totp" ? code.length !== 6 : code.length === 0)}
+        loading={loading}
+      >
+        {loading ? "Verifying..." : "Verify"}
+      </Button>
+
+      <div className="flex items-center justify-between text-sm">
+        <button
+          type="button"
+          onClick={switchMode}
+          className="text-primary hover:text-primary/80 transition-colors"
+        >
+          {mode === "totp" ? "Use a recovery code" : "Use your authenticator app"}
+        </button>
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="text-muted-foreground hover:text-foreground transition-colors"
+          >
+            Sign in as someone else
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,118 @@
+"use client";
+
+import { ArrowDownUp, CheckCircle, FileText, Quote, XCircle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { getScoreColor } from "@/lib/utils";
+import type { CallScriptAdherence } from "@/types/database";
+
+interface ScriptAdherencePanelProps {
+  adherence: CallScriptAdherence;
+}
+
+export function ScriptAdherencePanel({ adherence }: ScriptAdherencePanelProps) {
+  const sections = [...adherence.sections].sort((a, b) => a.order - b.order);
+
+  return (
+    <div className="space-y-6">
+      <Card className="overflow-hidden">
+        <CardHeader className="bg-gradient-to-r from-indigo-50 to-purple-50 border-b">
+          <CardTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5 text-indigo-600" />
+            Script Adherence
+            <Badge variant="outline" className="ml-2 text-xs font-normal">
+              {adherence.script_name} v{adherence.script_version}
+            </Badge>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-6">
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="rounded-lg bg-gray-50 p-4">
+              <p className="text-sm text-gray-500">Overall</p>
+              <p className={`text-2xl font-bold ${getScoreColor(adherence.overall_score)}`}>
+                {adherence.overall_score}%
+              </p>
+            </div>
+            <div className="rounded-lg bg-gray-50 p-4">
+              <p className="text-sm text-gray-500">Sections Covered</p>
+              <p className="text-2xl font-bold text-gray-900">
+                {adherence.sections_covered}/{adherence.sections_total}
+              </p>
+            </div>
+            <div className="rounded-lg bg-gray-50 p-4">
+              <p className="text-sm text-gray-500">Order Followed</p>
+              <p className={`text-2xl font-bold ${getScoreColor(adherence.order_score)}`}>
+                {adherence.order_score}%
+              </p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="space-y-4">
+        {sections.map((section, index) => (
+          <Card key={section.section_id} className="overflow-hidden">
+            <CardContent className="p-5 space-y-3">
+              <div className="flex items-start justify-between gap-3">
+                <div className="flex items-center gap-3">
+                  <span className="flex h-7 w-7 items-center justify-center rounded-full bg-indigo-100 text-sm font-semibold text-indigo-700 flex-shrink-0">
+                    {index + 1}
+                  </span>
+                  <div>
+                    <h4 className="font-semibold text-gray-900">{section.section_name}</h4>
+                    <p className="text-xs text-gray-500">
+                      {section.phrases_matched} of {section.phrases_total} key phrases matched
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  {section.in_order === false && (
+                    <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">
+                      <ArrowDownUp className="mr-1 h-3 w-3" />
+                      Out of order
+                    </Badge>
+                  )}
+                  {section.covered ? (
+                    <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
+                      <CheckCircle className="mr-1 h-3 w-3" />
+                      Covered
+                    </Badge>
+                  ) : (
+                    <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200">
+                      <XCircle className="mr-1 h-3 w-3" />
+                      Missed
+                    </Badge>
+                  )}
+                </div>
+              </div>
+
+              <div className="flex items-center gap-3">
+                <Progress value={section.score} className="h-2 flex-1" />
+                <span className={`text-sm font-semibold ${getScoreColor(section.score)}`}>
+                  {section.score}%
+                </span>
+              </div>
+
+              {section.excerpts.length > 0 && (
+                <ul className="space-y-2">
+                  {section.excerpts.map((excerpt, i) => (
+                    <li key={i} className="rounded-lg bg-gray-50 p-3 text-sm">
+                      <p className="text-xs text-gray-500 mb-1">
+                        Script: &ldquo;{excerpt.phrase}&rdquo; &middot; {excerpt.similarity}% match
+                      </p>
+                      <p className="flex items-start gap-2 text-gray-700">
+                        <Quote className="h-3.5 w-3.5 mt-0.5 text-gray-400 flex-shrink-0" />
+                        {excerpt.excerpt}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -14,6 +14,7 @@ interface CallCardProps {
 export function CallCard({ call }: CallCardProps) {
   const statusColors = {
     pending: "warning",
+    transcribing: "secondary",
     processing: "secondary",
     analyzed: "success",
     failed: "destructive",
@@ -21,6 +22,7 @@ export function CallCard({ call }: CallCardProps) {
 
   const statusLabels = {
     pending: "Pending",
+    transcribing: "Transcribing",
     processing: "Processing",
     analyzed: "Analyzed",
     failed: "Failed",
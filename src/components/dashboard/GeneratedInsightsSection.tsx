@@ -0,0 +1,201 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Clock, FileText, RefreshCw, Wand2 } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type { InsightCategory, InsightItem, InsightOutputFormat } from "@/types/database";
+
+export interface GeneratedInsight {
+  id: string;
+  templateId: string | null;
+  templateName: string;
+  category: InsightCategory;
+  outputFormat: InsightOutputFormat;
+  content: string | null;
+  items: InsightItem[];
+  generatedAt: string;
+  callId: string;
+  callTimestamp: string;
+  customerName?: string;
+  customerCompany?: string;
+}
+
+const CATEGORY_LABELS: Record<InsightCategory, string> = {
+  general: "General",
+  coaching: "Coaching",
+  performance: "Performance",
+  compliance: "Compliance",
+  custom: "Custom",
+};
+
+interface GeneratedInsightsSectionProps {
+  insights: GeneratedInsight[];
+  canRegenerate: boolean;
+  onRegenerated: () => void;
+}
+
+function InsightBody({ insight }: { insight: GeneratedInsight }) {
+  if (insight.outputFormat === "text" || insight.items.length === 0) {
+    return (
+      <p className="text-sm text-gray-600 whitespace-pre-line line-clamp-6">
+        {insight.content}
+      </p>
+    );
+  }
+
+  const ListTag = insight.outputFormat === "numbered" ? "ol" : "ul";
+
+  return (
+    <ListTag
+      className={`text-sm text-gray-600 space-y-1 pl-5 ${
+        insight.outputFormat === "numbered" ? "list-decimal" : "list-disc"
+      }`}
+    >
+      {insight.items.map((item, i) => {
+        if (typeof item === "string") {
+          return <li key={i}>{item}</li>;
+        }
+        const title = typeof item.title === "string" ? item.title : null;
+        const detail = typeof item.detail === "string" ? item.detail : null;
+        return (
+          <li key={i}>
+            {title && <span className="font-medium text-gray-900">{title}</span>}
+            {title && detail && ": "}
+            {detail ?? (!title && JSON.stringify(item))}
+          </li>
+        );
+      })}
+    </ListTag>
+  );
+}
+
+export default function GeneratedInsightsSection({
+  insights,
+  canRegenerate,
+  onRegenerated,
+}: GeneratedInsightsSectionProps) {
+  const [category, setCategory] = useState<InsightCategory | "all">("all");
+  const [regenerating, setRegenerating] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const categories = (Object.keys(CATEGORY_LABELS) as InsightCategory[]).filter((c) =>
+    insights.some((i) => i.category === c)
+  );
+  const filtered = insights.filter((i) => category === "all" || i.category === category);
+
+  const regenerate = async (callId: string) => {
+    setRegenerating(callId);
+    setError(null);
+    try {
+      const response = await fetch(`/api/calls/${callId}/insights`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || "Failed to regenerate insights");
+        return;
+      }
+      onRegenerated();
+    } catch (err) {
+      console.error("Failed to regenerate insights:", err);
+      setError("Failed to regenerate insights");
+    } finally {
+      setRegenerating(null);
+    }
+  };
+
+  if (insights.length === 0) return null;
+
+  return (
+    <div className="space-y-4 animate-fade-in-up">
+      <div className="flex items-center gap-3">
+        <div className="flex h-10 w-10 items-center justify-center rounded-xl bg-gradient-to-br from-violet-500 to-fuchsia-500">
+          <Wand2 className="h-5 w-5 text-white" />
+        </div>
+        <div>
+          <h2 className="text-lg font-semibold text-violet-600">Template Insights</h2>
+          <p className="text-sm text-gray-500">
+            Generated by your organization&apos;s insight templates
+          </p>
+        </div>
+      </div>
+
+      {/* Category Filter */}
+      <div className="flex flex-wrap items-center gap-2">
+        {(["all", ...categories] as const).map((c) => (
+          <button
+            key={c}
+            type="button"
+            onClick={() => setCategory(c)}
+            className={`px-3 py-1.5 rounded-full text-sm font-medium transition-all ${
+              category === c
+                ? "bg-violet-600 text-white shadow-md"
+                : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+            }`}
+          >
+            {c === "all" ? "All Categories" : CATEGORY_LABELS[c]}
+            <span className="ml-2 px-1.5 py-0.5 rounded-full bg-white/20 text-xs">
+              {c === "all" ? insights.length : insights.filter((i) => i.category === c).length}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {filtered.map((insight) => (
+          <Card key={insight.id} className="overflow-hidden border-l-4 border-violet-200">
+            <CardContent className="p-4 space-y-3">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <h4 className="font-semibold text-gray-900 flex items-center gap-1.5">
+                    <FileText className="h-4 w-4 text-violet-500 flex-shrink-0" />
+                    <span className="truncate">{insight.templateName}</span>
+                  </h4>
+                  <Link
+                    href={`/dashboard/calls/${insight.callId}`}
+                    className="text-xs text-gray-500 hover:text-indigo-600"
+                  >
+                    {insight.customerName || insight.customerCompany || "Call"} &middot;{" "}
+                    {new Date(insight.callTimestamp).toLocaleDateString()}
+                  </Link>
+                </div>
+                <Badge variant="outline" className="bg-violet-50 text-violet-700 border-violet-200">
+                  {CATEGORY_LABELS[insight.category]}
+                </Badge>
+              </div>
+
+              <InsightBody insight={insight} />
+
+              <div className="flex items-center justify-between">
+                <span className="flex items-center gap-1 text-xs text-gray-400">
+                  <Clock className="h-3 w-3" />
+                  {new Date(insight.generatedAt).toLocaleString()}
+                </span>
+                {canRegenerate && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={regenerating !== null}
+                    onClick={() => regenerate(insight.callId)}
+                  >
+                    <RefreshCw
+                      className={`mr-1 h-3 w-3 ${regenerating === insight.callId ? "animate-spin" : ""}`}
+                    />
+                    Regenerate
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
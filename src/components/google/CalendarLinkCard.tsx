@@ -10,20 +10,35 @@ import {
   Check,
   Clock,
   Loader2,
+  Radio,
+  ArrowLeftRight,
+  History,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
+import { CalendarSyncHistory } from "./CalendarSyncHistory";
 
 export interface CalendarLink {
   id: string;
+  provider?: "google" | "microsoft";
   calendar_id: string;
   calendar_name: string;
   google_account_email: string;
   sync_enabled: boolean;
   auto_create_sessions: boolean;
+  sync_direction?: "calendar_to_sessions" | "bidirectional";
+  agent_mapping?: {
+    type: "attendee_email" | "organizer" | "custom_field";
+    field: string;
+    fallback_to_organizer: boolean;
+  } | null;
   last_sync_at: string | null;
   last_sync_error: string | null;
+  webhook_channel_id?: string | null;
+  webhook_expiration?: string | null;
+  webhook_last_notification_at?: string | null;
+  webhook_error?: string | null;
   event_filter: {
     keywords?: string[];
     minDurationMinutes?: number;
@@ -52,6 +67,7 @@ export function CalendarLinkCard({
 }: CalendarLinkCardProps) {
   const [syncing, setSyncing] = useState(false);
   const [deleting, setDeleting] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
 
   const handleSync = async () => {
     setSyncing(true);
@@ -107,6 +123,49 @@ export function CalendarLinkCard({
 
   const filterSummary = getFilterSummary();
 
+  const getAgentMappingSummary = () => {
+    const mapping = link.agent_mapping;
+    if (!mapping) return "Agent: first member attendee";
+    const source =
+      mapping.type === "organizer"
+        ? "organizer"
+        : mapping.type === "custom_field"
+          ? `event property "${mapping.field}"`
+          : "first member attendee";
+    return `Agent: ${source}${mapping.fallback_to_organizer && mapping.type !== "organizer" ? ", else organizer" : ""}`;
+  };
+
+  // Push channel health: whether Google is notifying us of changes
+  const getChannelHealth = (): {
+    label: string;
+    variant: "success" | "warning" | "outline";
+    detail: string | null;
+  } | null => {
+    if (!link.sync_enabled) return null;
+    if (link.provider === "microsoft") {
+      return { label: "Scheduled", variant: "outline", detail: "Syncs every 15 minutes" };
+    }
+    if (link.webhook_error && !link.webhook_channel_id) {
+      return { label: "Push failed", variant: "warning", detail: link.webhook_error };
+    }
+    if (!link.webhook_channel_id || !link.webhook_expiration) {
+      return { label: "Push off", variant: "outline", detail: "Syncs on demand only" };
+    }
+
+    const expiresAt = new Date(link.webhook_expiration);
+    if (expiresAt.getTime() <= Date.now()) {
+      return { label: "Push expired", variant: "warning", detail: link.webhook_error || "Waiting for renewal" };
+    }
+
+    return {
+      label: "Push active",
+      variant: "success",
+      detail: `Expires ${expiresAt.toLocaleDateString()}`,
+    };
+  };
+
+  const channelHealth = getChannelHealth();
+
   return (
     <div
       className={cn(
@@ -122,6 +181,7 @@ export function CalendarLinkCard({
             <div className="flex items-center gap-2">
               <Calendar className="h-4 w-4 text-primary flex-shrink-0" />
               <span className="font-medium truncate">{link.calendar_name}</span>
+              {link.provider === "microsoft" && <Badge variant="outline">Outlook</Badge>}
             </div>
             <ArrowRight className="h-4 w-4 text-muted-foreground flex-shrink-0" />
             <Badge variant="secondary" className="truncate max-w-[200px]">
@@ -139,9 +199,25 @@ export function CalendarLinkCard({
             ) : (
               <Badge variant="outline">Manual sessions</Badge>
             )}
+            {link.sync_direction === "bidirectional" && (
+              <Badge variant="info" className="gap-1">
+                <ArrowLeftRight className="h-3 w-3" />
+                Two-way
+              </Badge>
+            )}
             {!link.sync_enabled && (
               <Badge variant="secondary">Sync paused</Badge>
             )}
+            {channelHealth && (
+              <Badge
+                variant={channelHealth.variant}
+                className="gap-1"
+                title={channelHealth.detail || undefined}
+              >
+                <Radio className="h-3 w-3" />
+                {channelHealth.label}
+              </Badge>
+            )}
           </div>
 
           {/* Filter summary */}
@@ -150,6 +226,9 @@ export function CalendarLinkCard({
               Filters: {filterSummary}
             </p>
           )}
+          <p className="text-xs text-muted-foreground mb-2 truncate">
+            {getAgentMappingSummary()}
+          </p>
 
           {/* Last sync info */}
           <div className="flex items-center gap-4 text-xs text-muted-foreground">
@@ -157,6 +236,22 @@ export function CalendarLinkCard({
               <Clock className="h-3 w-3" />
               Last sync: {getRelativeTime(link.last_sync_at)}
             </span>
+            {link.webhook_channel_id && (
+              <span className="flex items-center gap-1">
+                <Radio className="h-3 w-3" />
+                Last notification: {getRelativeTime(link.webhook_last_notification_at ?? null)}
+              </span>
+            )}
+            {channelHealth?.detail && (
+              <span
+                className={cn(
+                  "truncate max-w-[200px]",
+                  channelHealth.variant === "warning" && "text-amber-500"
+                )}
+              >
+                {channelHealth.detail}
+              </span>
+            )}
             {link.last_sync_error && (
               <span className="text-amber-500 truncate max-w-[200px]">
                 Error: {link.last_sync_error}
@@ -181,6 +276,14 @@ export function CalendarLinkCard({
             )}
             <span className="hidden sm:inline">Sync</span>
           </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            title="Sync history"
+            onClick={() => setShowHistory((show) => !show)}
+          >
+            <History className="h-4 w-4" />
+          </Button>
           <Button
             variant="ghost"
             size="icon"
@@ -203,6 +306,12 @@ export function CalendarLinkCard({
           </Button>
         </div>
       </div>
+
+      {showHistory && (
+        <div className="mt-3 border-t pt-2">
+          <CalendarSyncHistory key={link.last_sync_at || "never"} linkId={link.id} />
+        </div>
+      )}
     </div>
   );
 }
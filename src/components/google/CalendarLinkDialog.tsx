@@ -23,10 +23,14 @@ import {
 } from "@/components/ui/select";
 import { CalendarLink } from "./CalendarLinkCard";
 
+type SyncDirection = NonNullable<CalendarLink["sync_direction"]>;
+type AgentMapping = NonNullable<CalendarLink["agent_mapping"]>;
+
 interface Calendar {
   id: string;
   name: string;
   primary: boolean;
+  provider: "google" | "microsoft";
 }
 
 interface Template {
@@ -41,6 +45,7 @@ interface CalendarLinkDialogProps {
   templates: Template[];
   editingLink: CalendarLink | null;
   onSave: (data: {
+    provider?: Calendar["provider"];
     calendar_id?: string;
     template_id?: string;
     event_filter?: {
@@ -52,6 +57,8 @@ interface CalendarLinkDialogProps {
     };
     sync_enabled?: boolean;
     auto_create_sessions?: boolean;
+    sync_direction?: SyncDirection;
+    agent_mapping?: AgentMapping;
   }) => Promise<void>;
   existingCalendarIds: string[];
 }
@@ -70,6 +77,12 @@ export function CalendarLinkDialog({
   const [templateId, setTemplateId] = useState("");
   const [syncEnabled, setSyncEnabled] = useState(true);
   const [autoCreateSessions, setAutoCreateSessions] = useState(true);
+  const [syncDirection, setSyncDirection] = useState<SyncDirection>("calendar_to_sessions");
+
+  // Agent mapping
+  const [mappingType, setMappingType] = useState<AgentMapping["type"]>("attendee_email");
+  const [mappingField, setMappingField] = useState("");
+  const [fallbackToOrganizer, setFallbackToOrganizer] = useState(false);
 
   // Filter options
   const [keywords, setKeywords] = useState("");
@@ -87,6 +100,12 @@ export function CalendarLinkDialog({
         setTemplateId(editingLink.templates?.id || "");
         setSyncEnabled(editingLink.sync_enabled);
         setAutoCreateSessions(editingLink.auto_create_sessions);
+        setSyncDirection(editingLink.sync_direction || "calendar_to_sessions");
+        setMappingType(editingLink.agent_mapping?.type || "attendee_email");
+        setMappingField(
+          editingLink.agent_mapping?.type === "custom_field" ? editingLink.agent_mapping.field : ""
+        );
+        setFallbackToOrganizer(editingLink.agent_mapping?.fallback_to_organizer || false);
         setKeywords(editingLink.event_filter?.keywords?.join(", ") || "");
         setMinDuration(editingLink.event_filter?.minDurationMinutes?.toString() || "");
         setMaxDuration(editingLink.event_filter?.maxDurationMinutes?.toString() || "");
@@ -98,6 +117,10 @@ export function CalendarLinkDialog({
         setTemplateId("");
         setSyncEnabled(true);
         setAutoCreateSessions(true);
+        setSyncDirection("calendar_to_sessions");
+        setMappingType("attendee_email");
+        setMappingField("");
+        setFallbackToOrganizer(false);
         setKeywords("");
         setMinDuration("");
         setMaxDuration("");
@@ -137,19 +160,29 @@ export function CalendarLinkDialog({
       }
 
       const data: {
+        provider?: Calendar["provider"];
         calendar_id?: string;
         template_id?: string;
         event_filter?: typeof eventFilter;
         sync_enabled?: boolean;
         auto_create_sessions?: boolean;
+        sync_direction?: SyncDirection;
+        agent_mapping?: AgentMapping;
       } = {
         event_filter: Object.keys(eventFilter).length > 0 ? eventFilter : undefined,
         sync_enabled: syncEnabled,
         auto_create_sessions: autoCreateSessions,
+        sync_direction: syncDirection,
+        agent_mapping: {
+          type: mappingType,
+          field: mappingType === "custom_field" ? mappingField.trim() : "email",
+          fallback_to_organizer: mappingType !== "organizer" && fallbackToOrganizer,
+        },
       };
 
       // Only include these for new links
       if (!editingLink) {
+        data.provider = selectedCalendar?.provider;
         data.calendar_id = calendarId;
         data.template_id = templateId;
       }
@@ -168,9 +201,13 @@ export function CalendarLinkDialog({
     (cal) => !existingCalendarIds.includes(cal.id) || cal.id === editingLink?.calendar_id
   );
 
-  const isValid = editingLink
-    ? true
-    : calendarId && templateId;
+  const selectedCalendar = calendars.find((cal) => cal.id === calendarId);
+  // Outlook connections only read calendars, so nothing can be written back
+  const isOutlook = (editingLink ? editingLink.provider : selectedCalendar?.provider) === "microsoft";
+
+  const mappingValid = mappingType !== "custom_field" || mappingField.trim().length > 0;
+
+  const isValid = mappingValid && (editingLink ? true : calendarId && templateId);
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -183,7 +220,7 @@ export function CalendarLinkDialog({
             <DialogDescription>
               {editingLink
                 ? "Update the sync settings and filters for this calendar link."
-                : "Connect a Google Calendar to a coaching template. Events matching your filters will automatically create coaching sessions."}
+                : "Connect a Google or Outlook calendar to a coaching template. Events matching your filters will automatically create coaching sessions."}
             </DialogDescription>
           </DialogHeader>
 
@@ -191,15 +228,24 @@ export function CalendarLinkDialog({
             {/* Calendar Selection (only for new links) */}
             {!editingLink && (
               <div className="grid gap-2">
-                <Label htmlFor="calendar">Google Calendar</Label>
-                <Select value={calendarId} onValueChange={setCalendarId}>
+                <Label htmlFor="calendar">Calendar</Label>
+                <Select
+                  value={calendarId}
+                  onValueChange={(value) => {
+                    setCalendarId(value);
+                    if (calendars.find((cal) => cal.id === value)?.provider === "microsoft") {
+                      setSyncDirection("calendar_to_sessions");
+                    }
+                  }}
+                >
                   <SelectTrigger>
                     <SelectValue placeholder="Select a calendar" />
                   </SelectTrigger>
                   <SelectContent>
                     {availableCalendars.map((cal) => (
                       <SelectItem key={cal.id} value={cal.id}>
-                        {cal.name} {cal.primary && "(Primary)"}
+                        {cal.name} {cal.primary && "(Primary)"}{" "}
+                        {cal.provider === "microsoft" && "· Outlook"}
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -259,6 +305,80 @@ export function CalendarLinkDialog({
                     Auto-create coaching sessions from events
                   </Label>
                 </div>
+
+                <div className="grid gap-2">
+                  <Label htmlFor="syncDirection">Sync direction</Label>
+                  <Select
+                    value={syncDirection}
+                    onValueChange={(value) => setSyncDirection(value as SyncDirection)}
+                  >
+                    <SelectTrigger id="syncDirection">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="calendar_to_sessions">Calendar to sessions</SelectItem>
+                      <SelectItem value="bidirectional" disabled={isOutlook}>
+                        Two-way{isOutlook && " (Google only)"}
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    {syncDirection === "bidirectional"
+                      ? "Session status and a link are added to each event; the score is only stored privately on your copy"
+                      : "Sessions follow their events; nothing is written to the calendar"}
+                  </p>
+                </div>
+              </div>
+            </div>
+
+            <div className="border-t pt-4">
+              <h4 className="font-medium mb-3">Agent Mapping</h4>
+              <p className="text-xs text-muted-foreground mb-3">
+                How the agent is found for each event. Events without one wait in the review queue.
+              </p>
+
+              <div className="space-y-3">
+                <Select
+                  value={mappingType}
+                  onValueChange={(value) => setMappingType(value as AgentMapping["type"])}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="attendee_email">First attendee who is a member</SelectItem>
+                    <SelectItem value="organizer">Event organizer</SelectItem>
+                    <SelectItem value="custom_field">Custom event property</SelectItem>
+                  </SelectContent>
+                </Select>
+
+                {mappingType === "custom_field" && (
+                  <div className="grid gap-2">
+                    <Label htmlFor="mappingField">Property name</Label>
+                    <Input
+                      id="mappingField"
+                      placeholder="e.g., agent_email"
+                      value={mappingField}
+                      onChange={(e) => setMappingField(e.target.value)}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Extended property holding the agent&apos;s email or user ID
+                    </p>
+                  </div>
+                )}
+
+                {mappingType !== "organizer" && (
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="fallbackToOrganizer"
+                      checked={fallbackToOrganizer}
+                      onCheckedChange={(checked) => setFallbackToOrganizer(checked === true)}
+                    />
+                    <Label htmlFor="fallbackToOrganizer" className="font-normal">
+                      Fall back to the organizer
+                    </Label>
+                  </div>
+                )}
               </div>
             </div>
 
@@ -0,0 +1,194 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { format, parseISO } from "date-fns";
+import { CalendarX2, Loader2, UserPlus, X } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface CalendarEventReview {
+  id: string;
+  google_event_id: string;
+  event_title: string | null;
+  event_start: string | null;
+  organizer_email: string | null;
+  attendee_emails: string[];
+  reason: string;
+  google_calendar_links: {
+    id: string;
+    calendar_name: string;
+    templates: { id: string; name: string } | null;
+  } | null;
+}
+
+interface TeamMember {
+  id: string;
+  name: string;
+  email: string;
+}
+
+interface CalendarReviewQueueProps {
+  /** Bumped by the parent after a sync, so newly queued events show up */
+  refreshKey: number;
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+export function CalendarReviewQueue({ refreshKey, onSuccess, onError }: CalendarReviewQueueProps) {
+  const [reviews, setReviews] = useState<CalendarEventReview[]>([]);
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [selectedAgents, setSelectedAgents] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchReviews = useCallback(async () => {
+    try {
+      const response = await fetch("/api/calendar/reviews");
+      if (response.ok) {
+        const data = await response.json();
+        setReviews(data.data || []);
+      }
+    } catch (error) {
+      console.error("Failed to fetch calendar event reviews:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchReviews();
+  }, [fetchReviews, refreshKey]);
+
+  useEffect(() => {
+    const fetchMembers = async () => {
+      try {
+        const response = await fetch("/api/team?pageSize=100");
+        if (response.ok) {
+          const data = await response.json();
+          setMembers(data.data || []);
+        }
+      } catch (error) {
+        console.error("Failed to fetch team members:", error);
+      }
+    };
+    fetchMembers();
+  }, []);
+
+  const resolve = async (review: CalendarEventReview, action: "assign" | "dismiss") => {
+    setBusyId(review.id);
+    try {
+      const response = await fetch(`/api/calendar/reviews/${review.id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          action === "assign" ? { action, agent_id: selectedAgents[review.id] } : { action }
+        ),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        onError(data.error || data.message || "Failed to update event");
+        return;
+      }
+
+      setReviews((prev) => prev.filter((r) => r.id !== review.id));
+      onSuccess(action === "assign" ? "Session created" : "Event dismissed");
+    } catch {
+      onError("Failed to update event");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  // Nothing to show until something is queued
+  if (loading || reviews.length === 0) return null;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarX2 className="h-5 w-5 text-amber-500" />
+          Events Needing an Agent
+          <Badge variant="warning">{reviews.length}</Badge>
+        </CardTitle>
+        <CardDescription>
+          These events matched a calendar link, but its agent mapping couldn&apos;t find the agent.
+          Assign one to create the session, or dismiss the event.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {reviews.map((review) => (
+          <div
+            key={review.id}
+            className="p-4 rounded-xl border flex flex-col md:flex-row md:items-center md:justify-between gap-3"
+          >
+            <div className="min-w-0">
+              <p className="font-medium truncate">{review.event_title || "Untitled Event"}</p>
+              <p className="text-xs text-muted-foreground">
+                {review.event_start && format(parseISO(review.event_start), "MMM d, h:mm a")}
+                {review.google_calendar_links &&
+                  ` · ${review.google_calendar_links.calendar_name} → ${review.google_calendar_links.templates?.name || "Unknown Template"}`}
+              </p>
+              <p className="text-xs text-amber-500 mt-1">{review.reason}</p>
+              {review.attendee_emails.length > 0 && (
+                <p className="text-xs text-muted-foreground truncate">
+                  Attendees: {review.attendee_emails.join(", ")}
+                </p>
+              )}
+            </div>
+
+            <div className="flex items-center gap-2 flex-shrink-0">
+              <Select
+                value={selectedAgents[review.id] || ""}
+                onValueChange={(value) =>
+                  setSelectedAgents((prev) => ({ ...prev, [review.id]: value }))
+                }
+              >
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue placeholder="Choose agent" />
+                </SelectTrigger>
+                <SelectContent>
+                  {members.map((member) => (
+                    <SelectItem key={member.id} value={member.id}>
+                      {member.name || member.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                size="sm"
+                className="gap-1"
+                onClick={() => resolve(review, "assign")}
+                disabled={!selectedAgents[review.id] || busyId === review.id}
+              >
+                {busyId === review.id ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <UserPlus className="h-4 w-4" />
+                )}
+                Assign
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                title="Dismiss"
+                onClick={() => resolve(review, "dismiss")}
+                disabled={busyId === review.id}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
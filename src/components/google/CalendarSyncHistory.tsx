@@ -0,0 +1,105 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { formatDistanceToNow, parseISO } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+
+interface CalendarSyncLog {
+  id: string;
+  sync_type: "cron" | "manual" | "push";
+  sync_mode: "full" | "incremental" | null;
+  full_sync_reason: string | null;
+  status: "started" | "completed" | "failed";
+  events_checked: number;
+  sessions_created: number;
+  sessions_updated: number;
+  sessions_cancelled: number;
+  events_queued: number;
+  error_message: string | null;
+  started_at: string;
+  duration_ms: number | null;
+}
+
+const TRIGGER_LABELS: Record<CalendarSyncLog["sync_type"], string> = {
+  cron: "Scheduled",
+  manual: "Manual",
+  push: "Push",
+};
+
+const FULL_SYNC_REASONS: Record<string, string> = {
+  initial: "first sync",
+  forced: "forced",
+  token_expired: "sync token expired",
+};
+
+function summarize(log: CalendarSyncLog): string {
+  const parts = [`${log.events_checked} event(s)`];
+  if (log.sessions_created) parts.push(`${log.sessions_created} created`);
+  if (log.sessions_updated) parts.push(`${log.sessions_updated} rescheduled`);
+  if (log.sessions_cancelled) parts.push(`${log.sessions_cancelled} cancelled`);
+  if (log.events_queued) parts.push(`${log.events_queued} need an agent`);
+  return parts.join(" · ");
+}
+
+export function CalendarSyncHistory({ linkId }: { linkId: string }) {
+  const [logs, setLogs] = useState<CalendarSyncLog[] | null>(null);
+
+  useEffect(() => {
+    const fetchLogs = async () => {
+      try {
+        const response = await fetch(`/api/calendar/link/${linkId}/sync?limit=10`);
+        const data = await response.json();
+        setLogs(response.ok ? data.data || [] : []);
+      } catch {
+        setLogs([]);
+      }
+    };
+    fetchLogs();
+  }, [linkId]);
+
+  if (!logs) {
+    return (
+      <div className="flex justify-center py-3">
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (logs.length === 0) {
+    return <p className="text-xs text-muted-foreground py-2">No sync runs yet</p>;
+  }
+
+  return (
+    <ul className="space-y-1.5 py-2">
+      {logs.map((log) => (
+        <li key={log.id} className="flex items-center gap-2 text-xs">
+          <Badge
+            variant={log.status === "failed" ? "destructive" : log.status === "started" ? "outline" : "secondary"}
+            className="text-[10px]"
+          >
+            {TRIGGER_LABELS[log.sync_type]}
+            {log.sync_mode === "full" && " · full"}
+          </Badge>
+          <span className="text-muted-foreground whitespace-nowrap">
+            {formatDistanceToNow(parseISO(log.started_at), { addSuffix: true })}
+          </span>
+          <span
+            className={cn("truncate", log.status === "failed" ? "text-destructive" : "text-muted-foreground")}
+            title={log.error_message || undefined}
+          >
+            {log.status === "failed"
+              ? log.error_message || "Failed"
+              : log.status === "started"
+                ? "Running"
+                : summarize(log)}
+            {log.sync_mode === "full" &&
+              log.full_sync_reason &&
+              ` (${FULL_SYNC_REASONS[log.full_sync_reason] || log.full_sync_reason})`}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -6,11 +6,13 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/com
 import { Button } from "@/components/ui/button";
 import { CalendarLinkCard, CalendarLink } from "./CalendarLinkCard";
 import { CalendarLinkDialog } from "./CalendarLinkDialog";
+import { CalendarReviewQueue } from "./CalendarReviewQueue";
 
 interface Calendar {
   id: string;
   name: string;
   primary: boolean;
+  provider: "google" | "microsoft";
 }
 
 interface Template {
@@ -20,12 +22,14 @@ interface Template {
 
 interface CalendarSyncSectionProps {
   hasConnection: boolean;
+  hasMicrosoftConnection?: boolean;
   onSuccess: (message: string) => void;
   onError: (message: string) => void;
 }
 
 export function CalendarSyncSection({
-  hasConnection,
+  hasConnection: hasGoogleConnection,
+  hasMicrosoftConnection = false,
   onSuccess,
   onError,
 }: CalendarSyncSectionProps) {
@@ -35,6 +39,9 @@ export function CalendarSyncSection({
   const [loading, setLoading] = useState(true);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingLink, setEditingLink] = useState<CalendarLink | null>(null);
+  const [reviewRefreshKey, setReviewRefreshKey] = useState(0);
+
+  const hasConnection = hasGoogleConnection || hasMicrosoftConnection;
 
   // Fetch calendar links
   const fetchLinks = useCallback(async () => {
@@ -49,19 +56,32 @@ export function CalendarSyncSection({
     }
   }, []);
 
-  // Fetch user's Google calendars
+  // Fetch user's calendars from each connected provider
   const fetchCalendars = useCallback(async () => {
-    if (!hasConnection) return;
-    try {
-      const response = await fetch("/api/calendar/calendars");
-      if (response.ok) {
-        const data = await response.json();
-        setCalendars(data.data?.calendars || []);
-      }
-    } catch (error) {
-      console.error("Failed to fetch calendars:", error);
-    }
-  }, [hasConnection]);
+    const providers = [
+      ...(hasGoogleConnection ? (["google"] as const) : []),
+      ...(hasMicrosoftConnection ? (["microsoft"] as const) : []),
+    ];
+    if (providers.length === 0) return;
+
+    const lists = await Promise.all(
+      providers.map(async (provider) => {
+        try {
+          const response = await fetch(`/api/calendar/calendars?provider=${provider}`);
+          if (!response.ok) return [];
+          const data = await response.json();
+          return ((data.data?.calendars || []) as Omit<Calendar, "provider">[]).map((cal) => ({
+            ...cal,
+            provider,
+          }));
+        } catch (error) {
+          console.error(`Failed to fetch ${provider} calendars:`, error);
+          return [];
+        }
+      })
+    );
+    setCalendars(lists.flat());
+  }, [hasGoogleConnection, hasMicrosoftConnection]);
 
   // Fetch templates
   const fetchTemplates = useCallback(async () => {
@@ -102,12 +122,21 @@ export function CalendarSyncSection({
 
       if (response.ok) {
         const created = data.data?.sessionsCreated || 0;
+        const changes = [
+          [data.data?.sessionsUpdated, "rescheduled"],
+          [data.data?.sessionsCancelled, "cancelled"],
+          [data.data?.eventsQueued, "event(s) need an agent"],
+        ]
+          .filter(([count]) => count > 0)
+          .map(([count, label]) => `${count} ${label}`);
         onSuccess(
-          created > 0
+          (created > 0
             ? `Sync complete - ${created} session(s) created`
-            : "Sync complete - no new sessions"
+            : "Sync complete - no new sessions") +
+            (changes.length > 0 ? `, ${changes.join(", ")}` : "")
         );
         fetchLinks();
+        setReviewRefreshKey((key) => key + 1);
       } else {
         onError(data.message || "Sync failed");
       }
@@ -145,11 +174,14 @@ export function CalendarSyncSection({
   };
 
   const handleSave = async (data: {
+    provider?: Calendar["provider"];
     calendar_id?: string;
     template_id?: string;
     event_filter?: Record<string, unknown>;
     sync_enabled?: boolean;
     auto_create_sessions?: boolean;
+    sync_direction?: CalendarLink["sync_direction"];
+    agent_mapping?: CalendarLink["agent_mapping"];
   }) => {
     try {
       if (editingLink) {
@@ -201,7 +233,7 @@ export function CalendarSyncSection({
               Calendar Sync Settings
             </CardTitle>
             <CardDescription>
-              Link your Google calendars to coaching templates for automated session creation
+              Link your Google or Outlook calendars to coaching templates for automated session creation
             </CardDescription>
           </div>
           <Button
@@ -222,9 +254,9 @@ export function CalendarSyncSection({
           ) : !hasConnection ? (
             <div className="text-center py-12 text-muted-foreground">
               <AlertCircle className="h-12 w-12 mx-auto mb-4 opacity-50" />
-              <p className="font-medium">No Google account connected</p>
+              <p className="font-medium">No calendar account connected</p>
               <p className="text-sm mt-1">
-                Connect your Google account above to set up calendar sync
+                Connect a Google or Microsoft account above to set up calendar sync
               </p>
             </div>
           ) : links.length === 0 ? (
@@ -236,7 +268,7 @@ export function CalendarSyncSection({
               </p>
               {calendars.length === 0 && (
                 <p className="text-xs text-amber-500 mt-2">
-                  No calendars found. Make sure you have calendars in your Google account.
+                  No calendars found. Make sure you have calendars in your connected account.
                 </p>
               )}
               {templates.length === 0 && (
@@ -261,6 +293,14 @@ export function CalendarSyncSection({
         </CardContent>
       </Card>
 
+      {hasConnection && (
+        <CalendarReviewQueue
+          refreshKey={reviewRefreshKey}
+          onSuccess={onSuccess}
+          onError={onError}
+        />
+      )}
+
       <CalendarLinkDialog
         open={dialogOpen}
         onOpenChange={setDialogOpen}
@@ -0,0 +1,235 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Plus, Trash2, RefreshCw, Check, AlertCircle, Clock, Loader2, Mail } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+
+interface MicrosoftConnection {
+  id: string;
+  microsoft_email: string;
+  last_sync_at: string | null;
+  last_sync_error: string | null;
+  created_at: string;
+  is_token_valid: boolean;
+}
+
+interface MicrosoftConnectionsCardProps {
+  onConnectionsChange: (count: number) => void;
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+export function MicrosoftConnectionsCard({
+  onConnectionsChange,
+  onSuccess,
+  onError,
+}: MicrosoftConnectionsCardProps) {
+  const [connections, setConnections] = useState<MicrosoftConnection[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [syncing, setSyncing] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState<string | null>(null);
+
+  const fetchConnections = useCallback(async () => {
+    try {
+      const response = await fetch("/api/microsoft/connections");
+      if (response.ok) {
+        const data = await response.json();
+        setConnections(data.connections || []);
+      }
+    } catch (error) {
+      console.error("Failed to fetch Microsoft connections:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchConnections();
+  }, [fetchConnections]);
+
+  useEffect(() => {
+    onConnectionsChange(connections.length);
+  }, [connections.length, onConnectionsChange]);
+
+  const handleConnect = () => {
+    window.location.href = "/api/microsoft/connect";
+  };
+
+  const handleDisconnect = async (connectionId: string) => {
+    if (
+      !confirm(
+        "Are you sure you want to disconnect this Microsoft account? Its Outlook calendar links will be removed."
+      )
+    ) {
+      return;
+    }
+
+    setDeleting(connectionId);
+    try {
+      const response = await fetch("/api/microsoft/disconnect", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ connectionId }),
+      });
+
+      if (response.ok) {
+        setConnections((prev) => prev.filter((c) => c.id !== connectionId));
+        onSuccess("Microsoft account disconnected successfully");
+      } else {
+        const data = await response.json();
+        onError(data.message || "Failed to disconnect account");
+      }
+    } catch {
+      onError("Failed to disconnect account");
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  const handleSync = async (connectionId: string) => {
+    setSyncing(connectionId);
+    try {
+      const response = await fetch("/api/microsoft/sync-now", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ connectionId }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        const saved = data.summary?.transcriptsSaved || 0;
+        onSuccess(
+          saved > 0
+            ? `Synced ${saved} new Teams transcript(s)`
+            : "Sync complete - no new Teams transcripts found"
+        );
+        fetchConnections();
+      } else {
+        onError(data.message || "Sync failed");
+      }
+    } catch {
+      onError("Sync failed");
+    } finally {
+      setSyncing(null);
+    }
+  };
+
+  const getRelativeTime = (dateStr: string | null) => {
+    if (!dateStr) return "Never";
+    const diffMins = Math.floor((Date.now() - new Date(dateStr).getTime()) / 60000);
+    const diffHours = Math.floor(diffMins / 60);
+
+    if (diffMins < 1) return "Just now";
+    if (diffMins < 60) return `${diffMins}m ago`;
+    if (diffHours < 24) return `${diffHours}h ago`;
+    return `${Math.floor(diffHours / 24)}d ago`;
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Connected Microsoft Accounts</CardTitle>
+          <CardDescription>
+            Link your Microsoft 365 account to sync Outlook calendars and Teams transcripts
+          </CardDescription>
+        </div>
+        <Button onClick={handleConnect} variant="outline" className="gap-2">
+          <Plus className="h-4 w-4" />
+          Connect Account
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : connections.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <Mail className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p className="font-medium">No Microsoft accounts connected</p>
+            <p className="text-sm mt-1">
+              Teams transcripts are synced for meetings you organize
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {connections.map((connection) => (
+              <div
+                key={connection.id}
+                className={cn(
+                  "p-4 rounded-xl border bg-card hover:bg-muted/30 transition-colors",
+                  !connection.is_token_valid && "border-amber-500/30 bg-amber-500/5"
+                )}
+              >
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-1">
+                      <Mail className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                      <span className="font-medium truncate">{connection.microsoft_email}</span>
+                      {connection.is_token_valid || !connection.last_sync_error ? (
+                        <Badge variant="default" className="gap-1">
+                          <Check className="h-3 w-3" />
+                          Connected
+                        </Badge>
+                      ) : (
+                        <Badge variant="destructive" className="gap-1">
+                          <AlertCircle className="h-3 w-3" />
+                          Reconnect Required
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-4 mt-2 text-xs text-muted-foreground">
+                      <span className="flex items-center gap-1">
+                        <Clock className="h-3 w-3" />
+                        Last sync: {getRelativeTime(connection.last_sync_at)}
+                      </span>
+                      {connection.last_sync_error && (
+                        <span className="text-amber-500 truncate max-w-[200px]">
+                          Error: {connection.last_sync_error}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleSync(connection.id)}
+                      disabled={syncing === connection.id}
+                      className="gap-1"
+                    >
+                      {syncing === connection.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <RefreshCw className="h-4 w-4" />
+                      )}
+                      Sync Now
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="text-destructive hover:text-destructive"
+                      onClick={() => handleDisconnect(connection.id)}
+                      disabled={deleting === connection.id}
+                    >
+                      {deleting === connection.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <Trash2 className="h-4 w-4" />
+                      )}
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,230 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Plus, Trash2, Check, AlertCircle, Clock, Loader2, Video } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { useAuth } from "@/components/providers/auth-provider";
+import { cn } from "@/lib/utils";
+
+interface ZoomConnection {
+  id: string;
+  zoom_email: string;
+  zoom_account_id: string;
+  auto_analyze: boolean;
+  last_event_at: string | null;
+  last_error: string | null;
+  created_at: string;
+  is_token_valid: boolean;
+}
+
+interface ZoomConnectionCardProps {
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+export function ZoomConnectionCard({ onSuccess, onError }: ZoomConnectionCardProps) {
+  const { isAdmin } = useAuth();
+  const [connections, setConnections] = useState<ZoomConnection[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState<string | null>(null);
+
+  const fetchConnections = useCallback(async () => {
+    try {
+      const response = await fetch("/api/zoom/connections");
+      if (response.ok) {
+        const { data } = await response.json();
+        setConnections(data.connections || []);
+      }
+    } catch (error) {
+      console.error("Failed to fetch Zoom connections:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchConnections();
+  }, [fetchConnections]);
+
+  const handleConnect = () => {
+    window.location.href = "/api/zoom/connect";
+  };
+
+  const handleDisconnect = async (connectionId: string) => {
+    if (
+      !confirm(
+        "Are you sure you want to disconnect Zoom? New recordings will no longer become calls."
+      )
+    ) {
+      return;
+    }
+
+    setDeleting(connectionId);
+    try {
+      const response = await fetch("/api/zoom/disconnect", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ connectionId }),
+      });
+
+      if (response.ok) {
+        setConnections((prev) => prev.filter((c) => c.id !== connectionId));
+        onSuccess("Zoom account disconnected successfully");
+      } else {
+        const data = await response.json();
+        onError(data.error || "Failed to disconnect Zoom");
+      }
+    } catch {
+      onError("Failed to disconnect Zoom");
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  const handleAutoAnalyzeChange = async (connectionId: string, autoAnalyze: boolean) => {
+    setUpdating(connectionId);
+    try {
+      const response = await fetch("/api/zoom/connections", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ connectionId, auto_analyze: autoAnalyze }),
+      });
+
+      if (response.ok) {
+        setConnections((prev) =>
+          prev.map((c) => (c.id === connectionId ? { ...c, auto_analyze: autoAnalyze } : c))
+        );
+      } else {
+        const data = await response.json();
+        onError(data.error || "Failed to update Zoom settings");
+      }
+    } catch {
+      onError("Failed to update Zoom settings");
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  const getRelativeTime = (dateStr: string | null) => {
+    if (!dateStr) return "Never";
+    const diffMins = Math.floor((Date.now() - new Date(dateStr).getTime()) / 60000);
+    const diffHours = Math.floor(diffMins / 60);
+
+    if (diffMins < 1) return "Just now";
+    if (diffMins < 60) return `${diffMins}m ago`;
+    if (diffHours < 24) return `${diffHours}h ago`;
+    return `${Math.floor(diffHours / 24)}d ago`;
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Zoom</CardTitle>
+          <CardDescription>
+            Cloud recording transcripts become calls for the host, matched by email
+          </CardDescription>
+        </div>
+        {isAdmin && connections.length === 0 && (
+          <Button onClick={handleConnect} variant="outline" className="gap-2">
+            <Plus className="h-4 w-4" />
+            Connect Zoom
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : connections.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <Video className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p className="font-medium">Zoom is not connected</p>
+            <p className="text-sm mt-1">
+              {isAdmin
+                ? "Connect your organization's Zoom account to import recorded meetings"
+                : "Ask an admin to connect your organization's Zoom account"}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {connections.map((connection) => (
+              <div
+                key={connection.id}
+                className={cn(
+                  "p-4 rounded-xl border bg-card hover:bg-muted/30 transition-colors",
+                  connection.last_error && "border-amber-500/30 bg-amber-500/5"
+                )}
+              >
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-1">
+                      <Video className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                      <span className="font-medium truncate">{connection.zoom_email}</span>
+                      {connection.last_error ? (
+                        <Badge variant="warning" className="gap-1">
+                          <AlertCircle className="h-3 w-3" />
+                          Needs Attention
+                        </Badge>
+                      ) : (
+                        <Badge variant="default" className="gap-1">
+                          <Check className="h-3 w-3" />
+                          Connected
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-4 mt-2 text-xs text-muted-foreground">
+                      <span className="flex items-center gap-1">
+                        <Clock className="h-3 w-3" />
+                        Last recording: {getRelativeTime(connection.last_event_at)}
+                      </span>
+                      {connection.last_error && (
+                        <span className="text-amber-500 truncate max-w-[200px]">
+                          Error: {connection.last_error}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2 mt-3">
+                      <Switch
+                        id={`zoom-auto-analyze-${connection.id}`}
+                        checked={connection.auto_analyze}
+                        disabled={!isAdmin || updating === connection.id}
+                        onCheckedChange={(checked) =>
+                          handleAutoAnalyzeChange(connection.id, checked)
+                        }
+                      />
+                      <Label htmlFor={`zoom-auto-analyze-${connection.id}`} className="text-sm">
+                        Analyze new Zoom calls automatically
+                      </Label>
+                    </div>
+                  </div>
+                  {isAdmin && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="text-destructive hover:text-destructive"
+                      onClick={() => handleDisconnect(connection.id)}
+                      disabled={deleting === connection.id}
+                    >
+                      {deleting === connection.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <Trash2 className="h-4 w-4" />
+                      )}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
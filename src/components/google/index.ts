@@ -1,4 +1,8 @@
 export { CalendarSyncSection } from "./CalendarSyncSection";
 export { CalendarLinkCard } from "./CalendarLinkCard";
 export { CalendarLinkDialog } from "./CalendarLinkDialog";
+export { CalendarReviewQueue } from "./CalendarReviewQueue";
+export { CalendarSyncHistory } from "./CalendarSyncHistory";
+export { MicrosoftConnectionsCard } from "./MicrosoftConnectionsCard";
+export { ZoomConnectionCard } from "./ZoomConnectionCard";
 export type { CalendarLink } from "./CalendarLinkCard";
@@ -26,6 +26,8 @@ import {
   PanelLeft,
   UsersRound,
   Calendar,
+  Gauge,
+  Scale,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/components/providers/auth-provider";
@@ -59,7 +61,12 @@ const navigation: NavItem[] = [
   },
   { name: "Analytics", href: "/dashboard/analytics", icon: BarChart3 },
   { name: "Insights", href: "/dashboard/insights", icon: TrendingUp },
-  { name: "Reports", href: "/dashboard/reports", icon: FileText },
+  {
+    name: "Reports",
+    href: "/dashboard/reports",
+    icon: FileText,
+    roles: ["admin", "superadmin"],
+  },
   // Coaching Platform
   {
     name: "Templates",
@@ -72,6 +79,12 @@ const navigation: NavItem[] = [
     href: "/dashboard/sessions",
     icon: ClipboardCheck,
   },
+  {
+    name: "Disputes",
+    href: "/dashboard/disputes",
+    icon: Scale,
+    roles: ["admin", "superadmin", "manager", "coach"],
+  },
   {
     name: "Team Analytics",
     href: "/dashboard/team/analytics",
@@ -96,6 +109,12 @@ const navigation: NavItem[] = [
     icon: Webhook,
     roles: ["admin", "superadmin"],
   },
+  {
+    name: "Usage",
+    href: "/dashboard/usage",
+    icon: Gauge,
+    roles: ["admin", "superadmin"],
+  },
   {
     name: "Google Calendar",
     href: "/dashboard/google",
@@ -187,7 +187,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       setProfile(null);
       setOrganization(null);
 
-      // Sign out from Supabase
+      // Drop the second-factor marker, then sign out from Supabase
+      await fetch("/api/auth/2fa/challenge", { method: "DELETE" }).catch(() => undefined);
       const { error } = await supabase.auth.signOut();
 
       if (error) {
@@ -0,0 +1,810 @@
+"use client";
+
+import { Fragment, useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  AlertTriangle,
+  CalendarClock,
+  ChevronDown,
+  ChevronUp,
+  Loader2,
+  Pencil,
+  Plus,
+  Send,
+  Trash2,
+} from "lucide-react";
+import type {
+  ReportDateWindow,
+  ReportDeliveryChannel,
+  ReportFormat,
+  ReportSchedule,
+  ReportScheduleRun,
+  ReportType,
+  WebhookDeliveryStatus,
+} from "@/types/database";
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+interface ScheduleRow extends ReportSchedule {
+  agent?: { id: string; name: string | null; email: string } | null;
+  template?: { id: string; name: string } | null;
+  webhook_subscription?: { id: string; name: string; is_active: boolean } | null;
+}
+
+interface RunRow extends ReportScheduleRun {
+  report?: { id: string; name: string; format: ReportFormat; status: string; file_size: number | null } | null;
+  webhook_delivery?: {
+    id: string;
+    status: WebhookDeliveryStatus;
+    attempts: number;
+    response_status: number | null;
+    error_message: string | null;
+  } | null;
+}
+
+interface ReportSchedulesProps {
+  agents: Option[];
+  templates: Option[];
+  exportEnabled: boolean;
+}
+
+const TYPE_LABELS: Record<ReportType, string> = {
+  team_performance: "Team Performance",
+  caller: "Caller Report",
+  template: "Template Report",
+};
+
+const FORMAT_LABELS: Record<ReportFormat, string> = {
+  pdf: "PDF",
+  csv: "CSV",
+  xlsx: "Excel (XLSX)",
+};
+
+const WINDOW_LABELS: Record<ReportDateWindow, string> = {
+  yesterday: "Yesterday",
+  last_7_days: "Last 7 days",
+  last_30_days: "Last 30 days",
+  previous_week: "Previous week (Mon-Sun)",
+  previous_month: "Previous month",
+  month_to_date: "Month to date",
+};
+
+const WEEKDAY_LABELS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// ============================================================================
+// CADENCE
+// ============================================================================
+
+type CadenceKind = "daily" | "weekdays" | "weekly" | "monthly" | "custom";
+
+interface Cadence {
+  kind: CadenceKind;
+  time: string; // HH:mm
+  weekday: string; // 0-6
+  custom: string;
+}
+
+const DEFAULT_CADENCE: Cadence = { kind: "weekly", time: "08:00", weekday: "1", custom: "0 8 * * 1" };
+
+function buildCron(cadence: Cadence): string {
+  if (cadence.kind === "custom") return cadence.custom.trim();
+
+  const [hour, minute] = cadence.time.split(":").map((part) => parseInt(part, 10) || 0);
+  switch (cadence.kind) {
+    case "daily":
+      return `${minute} ${hour} * * *`;
+    case "weekdays":
+      return `${minute} ${hour} * * 1-5`;
+    case "weekly":
+      return `${minute} ${hour} * * ${cadence.weekday}`;
+    case "monthly":
+      return `${minute} ${hour} 1 * *`;
+  }
+}
+
+// Recognise the expressions buildCron makes; anything else is shown as custom
+function parseCadence(cron: string): Cadence {
+  const match = cron.trim().match(/^(\d{1,2}) (\d{1,2}) (\*|1) \* (\*|1-5|[0-6])$/);
+  if (!match) return { ...DEFAULT_CADENCE, kind: "custom", custom: cron };
+
+  const [, minute, hour, dayOfMonth, dayOfWeek] = match;
+  const time = `${hour.padStart(2, "0")}:${minute.padStart(2, "0")}`;
+
+  if (dayOfMonth === "1" && dayOfWeek === "*") return { ...DEFAULT_CADENCE, kind: "monthly", time, custom: cron };
+  if (dayOfMonth !== "*") return { ...DEFAULT_CADENCE, kind: "custom", custom: cron };
+  if (dayOfWeek === "*") return { ...DEFAULT_CADENCE, kind: "daily", time, custom: cron };
+  if (dayOfWeek === "1-5") return { ...DEFAULT_CADENCE, kind: "weekdays", time, custom: cron };
+  return { ...DEFAULT_CADENCE, kind: "weekly", time, weekday: dayOfWeek, custom: cron };
+}
+
+function describeCadence(cron: string): string {
+  const cadence = parseCadence(cron);
+  switch (cadence.kind) {
+    case "daily":
+      return `Daily at ${cadence.time}`;
+    case "weekdays":
+      return `Weekdays at ${cadence.time}`;
+    case "weekly":
+      return `${WEEKDAY_LABELS[parseInt(cadence.weekday, 10)]}s at ${cadence.time}`;
+    case "monthly":
+      return `Monthly on the 1st at ${cadence.time}`;
+    case "custom":
+      return `Cron ${cron}`;
+  }
+}
+
+export function ReportSchedules({ agents, templates, exportEnabled }: ReportSchedulesProps) {
+  const [schedules, setSchedules] = useState<ScheduleRow[]>([]);
+  const [subscriptions, setSubscriptions] = useState<Option[]>([]);
+  const [timeZone, setTimeZone] = useState("UTC");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [runningId, setRunningId] = useState<string | null>(null);
+
+  // Run history for the expanded schedule
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [runs, setRuns] = useState<RunRow[]>([]);
+  const [runsLoading, setRunsLoading] = useState(false);
+
+  // Create / edit dialog state
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<ScheduleRow | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState("");
+  const [reportType, setReportType] = useState<ReportType>("team_performance");
+  const [reportFormat, setReportFormat] = useState<ReportFormat>("pdf");
+  const [agentId, setAgentId] = useState("");
+  const [templateId, setTemplateId] = useState("all");
+  const [dateWindow, setDateWindow] = useState<ReportDateWindow>("last_7_days");
+  const [cadence, setCadence] = useState<Cadence>(DEFAULT_CADENCE);
+  const [channel, setChannel] = useState<ReportDeliveryChannel>("email");
+  const [recipientIds, setRecipientIds] = useState<string[]>([]);
+  const [subscriptionId, setSubscriptionId] = useState("");
+
+  const fetchSchedules = useCallback(async () => {
+    try {
+      const res = await fetch("/api/reports/schedules?pageSize=50");
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || "Failed to load report schedules");
+        return;
+      }
+
+      setSchedules(data.data || []);
+      setTimeZone(data.timeZone || "UTC");
+    } catch {
+      setError("Failed to load report schedules");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const fetchRuns = useCallback(async (scheduleId: string) => {
+    setRunsLoading(true);
+    try {
+      const res = await fetch(`/api/reports/schedules/${scheduleId}/runs?pageSize=10`);
+      const data = await res.json();
+      setRuns(res.ok ? data.data || [] : []);
+    } catch {
+      setRuns([]);
+    } finally {
+      setRunsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSchedules();
+
+    const fetchSubscriptions = async () => {
+      try {
+        const res = await fetch("/api/webhooks/subscriptions");
+        if (res.ok) {
+          const data = await res.json();
+          setSubscriptions((data.data || []).map((s: Option) => ({ id: s.id, name: s.name })));
+        }
+      } catch (fetchError) {
+        console.error("Error fetching webhook subscriptions:", fetchError);
+      }
+    };
+
+    fetchSubscriptions();
+  }, [fetchSchedules]);
+
+  const openCreate = () => {
+    setEditing(null);
+    setName("");
+    setReportType("team_performance");
+    setReportFormat("pdf");
+    setAgentId("");
+    setTemplateId("all");
+    setDateWindow("last_7_days");
+    setCadence(DEFAULT_CADENCE);
+    setChannel("email");
+    setRecipientIds([]);
+    setSubscriptionId("");
+    setError(null);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (schedule: ScheduleRow) => {
+    setEditing(schedule);
+    setName(schedule.name);
+    setReportType(schedule.report_type);
+    setReportFormat(schedule.format);
+    setAgentId(schedule.agent_id || "");
+    setTemplateId(schedule.template_id || "all");
+    setDateWindow(schedule.date_window);
+    setCadence(parseCadence(schedule.cron_expression));
+    setChannel(schedule.delivery_channel);
+    setRecipientIds(schedule.recipient_ids || []);
+    setSubscriptionId(schedule.webhook_subscription_id || "");
+    setError(null);
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const res = await fetch(editing ? `/api/reports/schedules/${editing.id}` : "/api/reports/schedules", {
+        method: editing ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          report_type: reportType,
+          format: reportFormat,
+          agent_id: reportType === "caller" && agentId ? agentId : null,
+          template_id: templateId !== "all" ? templateId : null,
+          date_window: dateWindow,
+          cron_expression: buildCron(cadence),
+          delivery_channel: channel,
+          recipient_ids: channel === "email" ? recipientIds : [],
+          webhook_subscription_id: channel === "webhook" && subscriptionId ? subscriptionId : null,
+        }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || "Failed to save schedule");
+        return;
+      }
+
+      setDialogOpen(false);
+      await fetchSchedules();
+    } catch {
+      setError("Failed to save schedule");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateSchedule = async (schedule: ScheduleRow, changes: Partial<ReportSchedule>) => {
+    setError(null);
+    try {
+      const res = await fetch(`/api/reports/schedules/${schedule.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || "Failed to update schedule");
+        return;
+      }
+
+      await fetchSchedules();
+    } catch {
+      setError("Failed to update schedule");
+    }
+  };
+
+  const handleRunNow = async (schedule: ScheduleRow) => {
+    setRunningId(schedule.id);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/reports/schedules/${schedule.id}/runs`, { method: "POST" });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || "Failed to run schedule");
+      } else if (data.data?.status === "failed") {
+        setError(data.data.error_message || "Scheduled report failed");
+      }
+
+      await fetchSchedules();
+      if (expandedId === schedule.id) await fetchRuns(schedule.id);
+    } catch {
+      setError("Failed to run schedule");
+    } finally {
+      setRunningId(null);
+    }
+  };
+
+  const handleDelete = async (schedule: ScheduleRow) => {
+    if (!confirm(`Delete the "${schedule.name}" schedule and its run history?`)) return;
+
+    try {
+      const res = await fetch(`/api/reports/schedules/${schedule.id}`, { method: "DELETE" });
+      if (!res.ok) {
+        const data = await res.json();
+        setError(data.error || "Failed to delete schedule");
+        return;
+      }
+      await fetchSchedules();
+    } catch {
+      setError("Failed to delete schedule");
+    }
+  };
+
+  const toggleHistory = async (schedule: ScheduleRow) => {
+    if (expandedId === schedule.id) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(schedule.id);
+    setRuns([]);
+    await fetchRuns(schedule.id);
+  };
+
+  const toggleRecipient = (id: string, checked: boolean) => {
+    setRecipientIds((prev) => (checked ? [...prev, id] : prev.filter((r) => r !== id)));
+  };
+
+  const runVariant = (status: string | null): "success" | "destructive" | "secondary" => {
+    if (status === "succeeded") return "success";
+    if (status === "failed") return "destructive";
+    return "secondary";
+  };
+
+  const canSave =
+    !saving &&
+    !!name.trim() &&
+    (reportType !== "caller" || !!agentId) &&
+    (reportType !== "template" || templateId !== "all") &&
+    (cadence.kind !== "custom" || !!cadence.custom.trim()) &&
+    (channel === "email" ? recipientIds.length > 0 : !!subscriptionId);
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarClock className="h-5 w-5 text-indigo-600" />
+              Scheduled Reports
+            </CardTitle>
+            <CardDescription>
+              Generated on a cadence and sent by email or webhook. Times are in {timeZone}.
+            </CardDescription>
+          </div>
+          <Button variant="gradient" className="gap-2" onClick={openCreate} disabled={!exportEnabled}>
+            <Plus className="h-4 w-4" />
+            New Schedule
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && !dialogOpen && (
+            <div className="flex items-center gap-2 text-sm text-red-600">
+              <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : schedules.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No scheduled reports yet</p>
+          ) : (
+            <div className="space-y-3">
+              {schedules.map((schedule) => (
+                <Fragment key={schedule.id}>
+                  <div className="flex items-center justify-between gap-4 p-4 rounded-xl border bg-card">
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium truncate">{schedule.name}</p>
+                        <Badge variant={schedule.is_active ? "default" : "secondary"}>
+                          {schedule.is_active ? "Active" : "Paused"}
+                        </Badge>
+                        {schedule.last_run_status && (
+                          <Badge variant={runVariant(schedule.last_run_status)}>
+                            Last run {schedule.last_run_status}
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {TYPE_LABELS[schedule.report_type]}
+                        {schedule.agent ? ` · ${schedule.agent.name || schedule.agent.email}` : ""}
+                        {schedule.template ? ` · ${schedule.template.name}` : ""}
+                        {" · "}
+                        {WINDOW_LABELS[schedule.date_window]} · {schedule.format.toUpperCase()}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {describeCadence(schedule.cron_expression)}
+                        {" · "}
+                        {schedule.delivery_channel === "email"
+                          ? `Email to ${schedule.recipient_ids.length} recipient${schedule.recipient_ids.length === 1 ? "" : "s"}`
+                          : `Webhook to ${schedule.webhook_subscription?.name || "a deleted endpoint"}`}
+                        {schedule.is_active && schedule.next_run_at
+                          ? ` · Next ${format(new Date(schedule.next_run_at), "MMM d, yyyy HH:mm")}`
+                          : ""}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <Switch
+                        checked={schedule.is_active}
+                        onCheckedChange={(checked) => updateSchedule(schedule, { is_active: checked })}
+                        aria-label="Active"
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleRunNow(schedule)}
+                        disabled={!exportEnabled || runningId === schedule.id}
+                        title="Send now"
+                      >
+                        {runningId === schedule.id ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <Send className="h-4 w-4" />
+                        )}
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => openEdit(schedule)} title="Edit">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => toggleHistory(schedule)} title="Run history">
+                        {expandedId === schedule.id ? (
+                          <ChevronUp className="h-4 w-4" />
+                        ) : (
+                          <ChevronDown className="h-4 w-4" />
+                        )}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDelete(schedule)}
+                        className="text-red-500 hover:text-red-600 hover:bg-red-500/10"
+                        title="Delete"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  {expandedId === schedule.id && (
+                    <div className="ml-4 space-y-2 border-l pl-4">
+                      {runsLoading ? (
+                        <div className="flex justify-center py-4">
+                          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+                        </div>
+                      ) : runs.length === 0 ? (
+                        <p className="text-sm text-muted-foreground py-2">No runs yet</p>
+                      ) : (
+                        runs.map((run) => (
+                          <div key={run.id} className="flex items-start justify-between gap-4 rounded-lg border p-3">
+                            <div className="min-w-0 space-y-0.5">
+                              <p className="text-sm font-medium">
+                                {format(new Date(run.started_at), "MMM d, yyyy HH:mm")}
+                                {run.trigger === "manual" ? " (sent manually)" : ""}
+                              </p>
+                              <p className="text-xs text-muted-foreground">
+                                {run.date_from && run.date_to ? `${run.date_from} to ${run.date_to}` : "No date range"}
+                                {run.status === "succeeded" && run.delivery_channel === "email"
+                                  ? ` · Emailed ${run.recipients_count} recipient${run.recipients_count === 1 ? "" : "s"}`
+                                  : ""}
+                                {run.webhook_delivery
+                                  ? ` · Webhook ${run.webhook_delivery.status}` +
+                                    (run.webhook_delivery.response_status
+                                      ? ` (${run.webhook_delivery.response_status})`
+                                      : "")
+                                  : ""}
+                              </p>
+                              {run.error_message && <p className="text-xs text-red-600">{run.error_message}</p>}
+                              {run.webhook_delivery?.error_message && (
+                                <p className="text-xs text-red-600">{run.webhook_delivery.error_message}</p>
+                              )}
+                            </div>
+                            <Badge variant={runVariant(run.status)} className="capitalize">
+                              {run.status}
+                            </Badge>
+                          </div>
+                        ))
+                      )}
+                    </div>
+                  )}
+                </Fragment>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Schedule" : "New Schedule"}</DialogTitle>
+            <DialogDescription>Which report to build, when, and who gets it</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="scheduleName">Name</Label>
+              <Input
+                id="scheduleName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Weekly sales team scores"
+              />
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Report</Label>
+                <Select
+                  value={reportType}
+                  onValueChange={(value) => {
+                    setReportType(value as ReportType);
+                    if (value === "template" && templateId === "all") setTemplateId("");
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(TYPE_LABELS) as ReportType[]).map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {TYPE_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Format</Label>
+                <Select value={reportFormat} onValueChange={(value) => setReportFormat(value as ReportFormat)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(FORMAT_LABELS) as ReportFormat[]).map((f) => (
+                      <SelectItem key={f} value={f}>
+                        {FORMAT_LABELS[f]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {reportType === "caller" && (
+                <div className="space-y-2">
+                  <Label>Caller</Label>
+                  <Select value={agentId} onValueChange={setAgentId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a caller" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {agents.map((agent) => (
+                        <SelectItem key={agent.id} value={agent.id}>
+                          {agent.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label>Template</Label>
+                <Select value={templateId} onValueChange={setTemplateId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a template" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {reportType !== "template" && <SelectItem value="all">All templates</SelectItem>}
+                    {templates.map((template) => (
+                      <SelectItem key={template.id} value={template.id}>
+                        {template.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Covers</Label>
+                <Select value={dateWindow} onValueChange={(value) => setDateWindow(value as ReportDateWindow)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(WINDOW_LABELS) as ReportDateWindow[]).map((window) => (
+                      <SelectItem key={window} value={window}>
+                        {WINDOW_LABELS[window]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Send</Label>
+                <Select
+                  value={cadence.kind}
+                  onValueChange={(value) =>
+                    setCadence((prev) => ({ ...prev, kind: value as CadenceKind, custom: buildCron(prev) }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="daily">Every day</SelectItem>
+                    <SelectItem value="weekdays">Every weekday</SelectItem>
+                    <SelectItem value="weekly">Every week</SelectItem>
+                    <SelectItem value="monthly">On the 1st of the month</SelectItem>
+                    <SelectItem value="custom">Custom (cron)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {cadence.kind === "custom" ? (
+                <div className="space-y-2">
+                  <Label htmlFor="scheduleCron">Cron expression</Label>
+                  <Input
+                    id="scheduleCron"
+                    value={cadence.custom}
+                    onChange={(e) => setCadence((prev) => ({ ...prev, custom: e.target.value }))}
+                    placeholder="0 8 * * 1"
+                    className="font-mono text-sm"
+                  />
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Label htmlFor="scheduleTime">At ({timeZone})</Label>
+                  <Input
+                    id="scheduleTime"
+                    type="time"
+                    value={cadence.time}
+                    onChange={(e) => setCadence((prev) => ({ ...prev, time: e.target.value || "08:00" }))}
+                  />
+                </div>
+              )}
+
+              {cadence.kind === "weekly" && (
+                <div className="space-y-2">
+                  <Label>On</Label>
+                  <Select
+                    value={cadence.weekday}
+                    onValueChange={(value) => setCadence((prev) => ({ ...prev, weekday: value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WEEKDAY_LABELS.map((label, day) => (
+                        <SelectItem key={label} value={String(day)}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Deliver by</Label>
+              <Select value={channel} onValueChange={(value) => setChannel(value as ReportDeliveryChannel)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="email">Email (report attached)</SelectItem>
+                  <SelectItem value="webhook">Webhook (download link)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {channel === "email" ? (
+              <div className="space-y-2">
+                <Label>Recipients</Label>
+                <div className="max-h-48 space-y-1 overflow-y-auto rounded-lg border p-2">
+                  {agents.map((member) => (
+                    <label key={member.id} className="flex items-center gap-3 rounded px-2 py-1.5 cursor-pointer hover:bg-muted/50">
+                      <Checkbox
+                        checked={recipientIds.includes(member.id)}
+                        onCheckedChange={(checked) => toggleRecipient(member.id, checked === true)}
+                      />
+                      <span className="text-sm">{member.name}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label>Endpoint</Label>
+                {subscriptions.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    Add an outbound endpoint under Webhooks first
+                  </p>
+                ) : (
+                  <Select value={subscriptionId} onValueChange={setSubscriptionId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose an endpoint" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {subscriptions.map((subscription) => (
+                        <SelectItem key={subscription.id} value={subscription.id}>
+                          {subscription.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  Sends a signed report.scheduled event with a link that works for 7 days
+                </p>
+              </div>
+            )}
+
+            {error && (
+              <div className="flex items-center gap-2 text-sm text-red-600">
+                <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                <span>{error}</span>
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={!canSave}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {editing ? "Save" : "Create Schedule"}
+              </Button>
+            </DialogFooter>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
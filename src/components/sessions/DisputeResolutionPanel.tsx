@@ -0,0 +1,251 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { AlertTriangle, CheckCircle2, Loader2, Scale } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import type { Criteria, Score, ScoreValue, Session } from "@/types/database";
+import { CriterionScoreInput } from "./score-inputs";
+
+interface DisputeResolutionPanelProps {
+  session: Session;
+  criteria: Criteria[];
+  scores: Score[];
+  /** The viewer is the session's coach or a manager/admin */
+  canResolve: boolean;
+  onResolved: () => void;
+}
+
+interface DraftDecision {
+  action: "uphold" | "amend";
+  value: ScoreValue | null;
+  isNa: boolean;
+  comment: string;
+}
+
+function formatScore(score: number | null | undefined): string {
+  return score === null || score === undefined ? "N/A" : `${Math.round(score)}%`;
+}
+
+/**
+ * Shows an open dispute and lets the coach or a manager resolve it one
+ * disputed criterion at a time; once resolved, shows the outcome.
+ */
+export default function DisputeResolutionPanel({
+  session,
+  criteria,
+  scores,
+  canResolve,
+  onResolved,
+}: DisputeResolutionPanelProps) {
+  const scoreMap = new Map(scores.map((s) => [s.criteria_id, s]));
+  const disputedIds = session.disputed_criteria_ids || [];
+  const disputedCriteria = criteria.filter((c) => disputedIds.includes(c.id));
+
+  const [decisions, setDecisions] = useState<Record<string, DraftDecision>>({});
+  const [rationale, setRationale] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (session.status !== "disputed") {
+    if (!session.dispute_resolved_at) return null;
+
+    return (
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base flex items-center gap-2">
+            <CheckCircle2 className="h-4 w-4 text-emerald-500" />
+            Dispute resolved
+            {session.dispute_outcome && (
+              <Badge variant={session.dispute_outcome === "amended" ? "info" : "secondary"}>
+                {session.dispute_outcome === "amended" ? "Scores amended" : "Scores upheld"}
+              </Badge>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2 text-sm">
+          {session.dispute_reason && (
+            <p className="text-muted-foreground">
+              <span className="font-medium text-foreground">Dispute:</span> {session.dispute_reason}
+            </p>
+          )}
+          {session.dispute_resolution && (
+            <p>
+              <span className="font-medium">Resolution:</span> {session.dispute_resolution}
+            </p>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Resolved {format(new Date(session.dispute_resolved_at), "MMM d, yyyy h:mm a")}
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const decisionFor = (criteriaId: string): DraftDecision =>
+    decisions[criteriaId] || { action: "uphold", value: null, isNa: false, comment: "" };
+
+  const updateDecision = (criteriaId: string, patch: Partial<DraftDecision>) => {
+    setDecisions((prev) => ({ ...prev, [criteriaId]: { ...decisionFor(criteriaId), ...patch } }));
+  };
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/sessions/${session.id}/dispute/resolve`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          rationale,
+          decisions: disputedCriteria.map((c) => {
+            const decision = decisionFor(c.id);
+            return decision.action === "uphold"
+              ? { criteria_id: c.id, action: "uphold" }
+              : {
+                  criteria_id: c.id,
+                  action: "amend",
+                  value: decision.isNa ? undefined : decision.value ?? scoreMap.get(c.id)?.value,
+                  is_na: decision.isNa,
+                  comment: decision.comment || undefined,
+                };
+          }),
+        }),
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error || "Failed to resolve dispute");
+      }
+
+      onResolved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to resolve dispute");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="border-amber-500/30">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Scale className="h-4 w-4 text-amber-500" />
+          Disputed
+          {session.disputed_at && (
+            <span className="text-xs font-normal text-muted-foreground">
+              {format(new Date(session.disputed_at), "MMM d, yyyy h:mm a")}
+            </span>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {session.dispute_reason && <p className="text-sm">{session.dispute_reason}</p>}
+
+        {disputedCriteria.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            The agent disputed the session as a whole rather than specific criteria.
+          </p>
+        )}
+
+        {disputedCriteria.map((criterion) => {
+          const decision = decisionFor(criterion.id);
+          const current = scoreMap.get(criterion.id);
+
+          return (
+            <div key={criterion.id} className="rounded-lg border p-3 space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <div>
+                  <p className="font-medium text-sm">{criterion.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Current score: {formatScore(current?.is_na ? null : current?.normalized_score)}
+                  </p>
+                </div>
+                {canResolve && (
+                  <div className="flex gap-1">
+                    {(["uphold", "amend"] as const).map((action) => (
+                      <Button
+                        key={action}
+                        size="sm"
+                        variant={decision.action === action ? "default" : "outline"}
+                        onClick={() => updateDecision(criterion.id, { action })}
+                        disabled={submitting}
+                      >
+                        {action === "uphold" ? "Uphold" : "Amend"}
+                      </Button>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {canResolve && decision.action === "amend" && (
+                <div className="space-y-3">
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id={`na-${criterion.id}`}
+                      checked={decision.isNa}
+                      onCheckedChange={(isNa) => updateDecision(criterion.id, { isNa })}
+                      disabled={submitting}
+                    />
+                    <Label htmlFor={`na-${criterion.id}`} className="text-sm">
+                      Not applicable
+                    </Label>
+                  </div>
+                  {!decision.isNa && (
+                    <CriterionScoreInput
+                      criterion={criterion}
+                      value={decision.value ?? current?.value}
+                      onChange={(value) => updateDecision(criterion.id, { value })}
+                      disabled={submitting}
+                    />
+                  )}
+                  <Textarea
+                    placeholder="Comment on the amended score (optional)"
+                    value={decision.comment}
+                    onChange={(e) => updateDecision(criterion.id, { comment: e.target.value })}
+                    disabled={submitting}
+                    rows={2}
+                  />
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {canResolve ? (
+          <div className="space-y-3">
+            <Textarea
+              placeholder="Explain the decision to the agent"
+              value={rationale}
+              onChange={(e) => setRationale(e.target.value)}
+              disabled={submitting}
+              rows={3}
+            />
+            {error && (
+              <div className="flex items-center gap-2 text-sm text-red-600">
+                <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                <span>{error}</span>
+              </div>
+            )}
+            <Button
+              className="w-full gap-2"
+              onClick={handleSubmit}
+              disabled={submitting || rationale.trim().length < 10}
+            >
+              {submitting && <Loader2 className="h-4 w-4 animate-spin" />}
+              Resolve dispute
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">Waiting for the coach or a manager to respond.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
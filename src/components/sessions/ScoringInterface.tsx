@@ -13,6 +13,7 @@ import {
   X,
 } from "lucide-react";
 import { useScoringState } from "@/hooks/use-scoring-state";
+import { getSnapshotFormula } from "@/lib/scoring-formula";
 import { ScoringProgressHeader } from "./scoring-progress";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -39,34 +40,9 @@ import {
   CriteriaGroup,
   Score,
   ScoreValue,
-  CriteriaConfig,
-  ScaleCriteriaConfig,
-  PassFailCriteriaConfig,
-  ChecklistCriteriaConfig,
-  DropdownCriteriaConfig,
-  MultiSelectCriteriaConfig,
-  StarsCriteriaConfig,
-  PercentageCriteriaConfig,
-  TextCriteriaConfig,
   ScaleScoreValue,
-  PassFailScoreValue,
-  ChecklistScoreValue,
-  DropdownScoreValue,
-  MultiSelectScoreValue,
-  StarsScoreValue,
-  PercentageScoreValue,
-  TextScoreValue,
 } from "@/types/database";
-import {
-  ScaleInput,
-  PassFailInput,
-  ChecklistInput,
-  DropdownInput,
-  MultiSelectInput,
-  StarsInput,
-  PercentageInput,
-  TextInput,
-} from "./score-inputs";
+import { CriterionScoreInput } from "./score-inputs";
 
 interface ScoringInterfaceProps {
   session: Session;
@@ -113,6 +89,8 @@ export default function ScoringInterface({
     template,
     criteria,
     localScores,
+    groups,
+    formula: getSnapshotFormula(session.template_snapshot),
   });
 
   // Scroll to a specific criteria card
@@ -313,7 +291,6 @@ export default function ScoringInterface({
     const localScore = localScores.get(criterion.id);
     const isNa = localScore?.is_na || false;
     const value = localScore?.value;
-    const config = criterion.config as CriteriaConfig;
 
     if (isNa) {
       return (
@@ -323,104 +300,14 @@ export default function ScoringInterface({
       );
     }
 
-    const commonProps = {
-      disabled: disabled || isNa,
-    };
-
-    switch (criterion.criteria_type) {
-      case "scale":
-        return (
-          <ScaleInput
-            value={(value as ScaleScoreValue)?.value ?? null}
-            onChange={(v) => handleScoreChange(criterion.id, { value: v } as ScaleScoreValue)}
-            config={config as ScaleCriteriaConfig}
-            {...commonProps}
-          />
-        );
-
-      case "pass_fail":
-        return (
-          <PassFailInput
-            value={(value as PassFailScoreValue)?.passed ?? null}
-            onChange={(v) => handleScoreChange(criterion.id, { passed: v } as PassFailScoreValue)}
-            config={config as PassFailCriteriaConfig}
-            {...commonProps}
-          />
-        );
-
-      case "checklist": {
-        const checklistConfig = config as ChecklistCriteriaConfig;
-        const allItemIds = checklistConfig.items?.map(i => i.id) || [];
-        return (
-          <ChecklistInput
-            value={(value as ChecklistScoreValue)?.checked ?? []}
-            onChange={(checked) => {
-              const unchecked = allItemIds.filter(id => !checked.includes(id));
-              handleScoreChange(criterion.id, { checked, unchecked } as ChecklistScoreValue);
-            }}
-            config={checklistConfig}
-            {...commonProps}
-          />
-        );
-      }
-
-      case "dropdown":
-        return (
-          <DropdownInput
-            value={(value as DropdownScoreValue)?.selected ?? null}
-            onChange={(v) => handleScoreChange(criterion.id, { selected: v } as DropdownScoreValue)}
-            config={config as DropdownCriteriaConfig}
-            {...commonProps}
-          />
-        );
-
-      case "multi_select":
-        return (
-          <MultiSelectInput
-            value={(value as MultiSelectScoreValue)?.selected ?? []}
-            onChange={(v) => handleScoreChange(criterion.id, { selected: v } as MultiSelectScoreValue)}
-            config={config as MultiSelectCriteriaConfig}
-            {...commonProps}
-          />
-        );
-
-      case "rating_stars":
-        return (
-          <StarsInput
-            value={(value as StarsScoreValue)?.stars ?? null}
-            onChange={(v) => handleScoreChange(criterion.id, { stars: v } as StarsScoreValue)}
-            config={config as StarsCriteriaConfig}
-            {...commonProps}
-          />
-        );
-
-      case "percentage":
-        return (
-          <PercentageInput
-            value={(value as PercentageScoreValue)?.value ?? null}
-            onChange={(v) => handleScoreChange(criterion.id, { value: v } as PercentageScoreValue)}
-            config={config as PercentageCriteriaConfig}
-            {...commonProps}
-          />
-        );
-
-      case "text":
-        return (
-          <TextInput
-            value={(value as TextScoreValue)?.response ?? ""}
-            onChange={(v) => handleScoreChange(criterion.id, { response: v } as TextScoreValue)}
-            config={config as TextCriteriaConfig}
-            {...commonProps}
-          />
-        );
-
-      default:
-        return (
-          <div className="p-4 bg-muted/30 rounded-lg text-center text-muted-foreground">
-            Unknown criteria type: {criterion.criteria_type}
-          </div>
-        );
-    }
+    return (
+      <CriterionScoreInput
+        criterion={criterion}
+        value={value}
+        onChange={(v) => handleScoreChange(criterion.id, v)}
+        disabled={disabled}
+      />
+    );
   };
 
   // Render a single criterion card
@@ -601,6 +488,7 @@ export default function ScoringInterface({
             projectedScore={scoringState.projectedScore}
             isPassing={scoringState.isPassing}
             passThreshold={scoringState.passThreshold}
+            scoringMethod={scoringState.scoringMethod}
             autoFailTriggered={scoringState.autoFailTriggered}
             autoFailCriteriaIds={scoringState.autoFailCriteriaIds}
             autoFailCriteriaNames={scoringState.autoFailCriteriaNames}
@@ -0,0 +1,145 @@
+"use client";
+
+import {
+  Criteria,
+  ScoreValue,
+  CriteriaConfig,
+  ScaleCriteriaConfig,
+  PassFailCriteriaConfig,
+  ChecklistCriteriaConfig,
+  DropdownCriteriaConfig,
+  MultiSelectCriteriaConfig,
+  StarsCriteriaConfig,
+  PercentageCriteriaConfig,
+  TextCriteriaConfig,
+  ScaleScoreValue,
+  PassFailScoreValue,
+  ChecklistScoreValue,
+  DropdownScoreValue,
+  MultiSelectScoreValue,
+  StarsScoreValue,
+  PercentageScoreValue,
+  TextScoreValue,
+} from "@/types/database";
+import ScaleInput from "./ScaleInput";
+import PassFailInput from "./PassFailInput";
+import ChecklistInput from "./ChecklistInput";
+import DropdownInput from "./DropdownInput";
+import MultiSelectInput from "./MultiSelectInput";
+import StarsInput from "./StarsInput";
+import PercentageInput from "./PercentageInput";
+import TextInput from "./TextInput";
+
+interface CriterionScoreInputProps {
+  criterion: Criteria;
+  value: ScoreValue | null | undefined;
+  onChange: (value: ScoreValue) => void;
+  disabled?: boolean;
+}
+
+/**
+ * The score input matching a criterion's type
+ */
+export default function CriterionScoreInput({
+  criterion,
+  value,
+  onChange,
+  disabled = false,
+}: CriterionScoreInputProps) {
+  const config = criterion.config as CriteriaConfig;
+
+  switch (criterion.criteria_type) {
+    case "scale":
+      return (
+        <ScaleInput
+          value={(value as ScaleScoreValue)?.value ?? null}
+          onChange={(v) => onChange({ value: v } as ScaleScoreValue)}
+          config={config as ScaleCriteriaConfig}
+          disabled={disabled}
+        />
+      );
+
+    case "pass_fail":
+      return (
+        <PassFailInput
+          value={(value as PassFailScoreValue)?.passed ?? null}
+          onChange={(v) => onChange({ passed: v } as PassFailScoreValue)}
+          config={config as PassFailCriteriaConfig}
+          disabled={disabled}
+        />
+      );
+
+    case "checklist": {
+      const checklistConfig = config as ChecklistCriteriaConfig;
+      const allItemIds = checklistConfig.items?.map(i => i.id) || [];
+      return (
+        <ChecklistInput
+          value={(value as ChecklistScoreValue)?.checked ?? []}
+          onChange={(checked) => {
+            const unchecked = allItemIds.filter(id => !checked.includes(id));
+            onChange({ checked, unchecked } as ChecklistScoreValue);
+          }}
+          config={checklistConfig}
+          disabled={disabled}
+        />
+      );
+    }
+
+    case "dropdown":
+      return (
+        <DropdownInput
+          value={(value as DropdownScoreValue)?.selected ?? null}
+          onChange={(v) => onChange({ selected: v } as DropdownScoreValue)}
+          config={config as DropdownCriteriaConfig}
+          disabled={disabled}
+        />
+      );
+
+    case "multi_select":
+      return (
+        <MultiSelectInput
+          value={(value as MultiSelectScoreValue)?.selected ?? []}
+          onChange={(v) => onChange({ selected: v } as MultiSelectScoreValue)}
+          config={config as MultiSelectCriteriaConfig}
+          disabled={disabled}
+        />
+      );
+
+    case "rating_stars":
+      return (
+        <StarsInput
+          value={(value as StarsScoreValue)?.stars ?? null}
+          onChange={(v) => onChange({ stars: v } as StarsScoreValue)}
+          config={config as StarsCriteriaConfig}
+          disabled={disabled}
+        />
+      );
+
+    case "percentage":
+      return (
+        <PercentageInput
+          value={(value as PercentageScoreValue)?.value ?? null}
+          onChange={(v) => onChange({ value: v } as PercentageScoreValue)}
+          config={config as PercentageCriteriaConfig}
+          disabled={disabled}
+        />
+      );
+
+    case "text":
+      return (
+        <TextInput
+          value={(value as TextScoreValue)?.response ?? ""}
+          onChange={(v) => onChange({ response: v } as TextScoreValue)}
+          config={config as TextCriteriaConfig}
+          disabled={disabled}
+        />
+      );
+
+    default:
+      return (
+        <div className="p-4 bg-muted/30 rounded-lg text-center text-muted-foreground">
+          Unknown criteria type: {criterion.criteria_type}
+        </div>
+      );
+  }
+}
@@ -6,3 +6,4 @@ export { default as MultiSelectInput } from "./MultiSelectInput";
 export { default as StarsInput } from "./StarsInput";
 export { default as PercentageInput } from "./PercentageInput";
 export { default as TextInput } from "./TextInput";
+export { default as CriterionScoreInput } from "./CriterionScoreInput";
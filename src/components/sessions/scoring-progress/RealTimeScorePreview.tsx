@@ -1,14 +1,15 @@
 "use client";
 
-import { CheckCircle2, XCircle, AlertTriangle, Minus } from "lucide-react";
+import { CheckCircle2, XCircle, AlertTriangle, Minus, Sigma } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
-import { SessionScoreResult } from "@/types/database";
+import { ScoringMethod, SessionScoreResult } from "@/types/database";
 import { cn } from "@/lib/utils";
 
 interface RealTimeScorePreviewProps {
   projectedScore: SessionScoreResult | null;
   isPassing: boolean;
   passThreshold: number;
+  scoringMethod?: ScoringMethod;
   autoFailTriggered: boolean;
   scoredCriteria: number;
   totalCriteria: number;
@@ -19,6 +20,7 @@ export function RealTimeScorePreview({
   projectedScore,
   isPassing,
   passThreshold,
+  scoringMethod,
   autoFailTriggered,
   scoredCriteria,
   totalCriteria,
@@ -26,6 +28,8 @@ export function RealTimeScorePreview({
 }: RealTimeScorePreviewProps) {
   const hasScore = projectedScore !== null && scoredCriteria > 0;
   const percentage = projectedScore?.percentage_score ?? 0;
+  const isFormula = scoringMethod === "custom_formula";
+  const formulaError = projectedScore?.formula_error;
 
   // Determine status
   let status: "passing" | "failing" | "auto-fail" | "pending" = "pending";
@@ -90,6 +94,11 @@ export function RealTimeScorePreview({
           <Icon className="h-3 w-3" />
           {status === "auto-fail" ? "Auto-Fail" : config.label}
         </Badge>
+        {isFormula && hasScore && formulaError && (
+          <span title={formulaError}>
+            <AlertTriangle className="h-3.5 w-3.5 text-amber-500" />
+          </span>
+        )}
       </div>
     );
   }
@@ -104,7 +113,10 @@ export function RealTimeScorePreview({
     >
       <div className="flex items-center justify-between">
         <div className="space-y-1">
-          <p className="text-sm text-muted-foreground">Projected Score</p>
+          <p className="text-sm text-muted-foreground flex items-center gap-1">
+            {isFormula && <Sigma className="h-3.5 w-3.5" />}
+            {isFormula ? "Projected Score (custom formula)" : "Projected Score"}
+          </p>
           <div className="flex items-baseline gap-2">
             <span className={cn("text-3xl font-bold", config.color)}>
               {hasScore ? `${Math.round(percentage)}%` : "—"}
@@ -160,6 +172,13 @@ export function RealTimeScorePreview({
           </div>
         </div>
       )}
+
+      {isFormula && hasScore && formulaError && (
+        <p className="mt-2 text-xs text-amber-500 flex items-start gap-1">
+          <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+          {formulaError}
+        </p>
+      )}
     </div>
   );
 }
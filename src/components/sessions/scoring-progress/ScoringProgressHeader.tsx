@@ -3,7 +3,7 @@
 import { useState, useEffect, useRef } from "react";
 import { ChevronDown, ArrowRight, AlertTriangle } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { SessionScoreResult } from "@/types/database";
+import { ScoringMethod, SessionScoreResult } from "@/types/database";
 import { ScoringProgressBar } from "./ScoringProgressBar";
 import { RealTimeScorePreview } from "./RealTimeScorePreview";
 import { AutoFailAlert } from "./AutoFailAlert";
@@ -20,6 +20,7 @@ interface ScoringProgressHeaderProps {
   projectedScore: SessionScoreResult | null;
   isPassing: boolean;
   passThreshold: number;
+  scoringMethod?: ScoringMethod;
 
   // Auto-fail data
   autoFailTriggered: boolean;
@@ -43,6 +44,7 @@ export function ScoringProgressHeader({
   projectedScore,
   isPassing,
   passThreshold,
+  scoringMethod,
   autoFailTriggered,
   autoFailCriteriaIds,
   autoFailCriteriaNames,
@@ -96,6 +98,7 @@ export function ScoringProgressHeader({
           projectedScore={projectedScore}
           isPassing={isPassing}
           passThreshold={passThreshold}
+          scoringMethod={scoringMethod}
           autoFailTriggered={autoFailTriggered}
           scoredCriteria={scoredCriteria}
           totalCriteria={totalCriteria}
@@ -170,6 +173,7 @@ export function ScoringProgressHeader({
             projectedScore={projectedScore}
             isPassing={isPassing}
             passThreshold={passThreshold}
+            scoringMethod={scoringMethod}
             autoFailTriggered={autoFailTriggered}
             scoredCriteria={scoredCriteria}
             totalCriteria={totalCriteria}
@@ -0,0 +1,353 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { AlertTriangle, Check, Copy, Key, Loader2, Plus, Trash2 } from "lucide-react";
+import type { ApiKey } from "@/types/database";
+
+interface ScopeOption {
+  scope: string;
+  label: string;
+  description: string;
+}
+
+export function ApiKeysManager() {
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [scopeOptions, setScopeOptions] = useState<ScopeOption[]>([]);
+  const [apiAccessEnabled, setApiAccessEnabled] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Create dialog state
+  const [createOpen, setCreateOpen] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<string[]>([]);
+  const [expiresAt, setExpiresAt] = useState("");
+  const [rateLimit, setRateLimit] = useState("");
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const fetchKeys = useCallback(async () => {
+    try {
+      const res = await fetch("/api/api-keys");
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || "Failed to load API keys");
+        return;
+      }
+
+      setKeys(data.data || []);
+      setScopeOptions(data.scopes || []);
+      setApiAccessEnabled(data.apiAccessEnabled);
+    } catch {
+      setError("Failed to load API keys");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchKeys();
+  }, [fetchKeys]);
+
+  const resetCreateForm = () => {
+    setName("");
+    setScopes([]);
+    setExpiresAt("");
+    setRateLimit("");
+    setNewKey(null);
+    setCopied(false);
+    setError(null);
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    setError(null);
+
+    try {
+      const res = await fetch("/api/api-keys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          scopes,
+          expires_at: expiresAt ? new Date(`${expiresAt}T23:59:59`).toISOString() : null,
+          rate_limit_per_minute: rateLimit ? parseInt(rateLimit, 10) : null,
+        }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || "Failed to create API key");
+        return;
+      }
+
+      setNewKey(data.data.key);
+      await fetchKeys();
+    } catch {
+      setError("Failed to create API key");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (key: ApiKey) => {
+    if (!confirm(`Revoke "${key.name}"? Integrations using it will stop working immediately.`)) return;
+
+    try {
+      const res = await fetch(`/api/api-keys/${key.id}`, { method: "DELETE" });
+      if (!res.ok) {
+        const data = await res.json();
+        setError(data.error || "Failed to revoke API key");
+        return;
+      }
+      await fetchKeys();
+    } catch {
+      setError("Failed to revoke API key");
+    }
+  };
+
+  const copyKey = async () => {
+    if (!newKey) return;
+    await navigator.clipboard.writeText(newKey);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const toggleScope = (scope: string, checked: boolean) => {
+    setScopes((prev) => (checked ? [...prev, scope] : prev.filter((s) => s !== scope)));
+  };
+
+  const keyStatus = (key: ApiKey): { label: string; variant: "default" | "secondary" | "destructive" } => {
+    if (!key.is_active) return { label: "Revoked", variant: "destructive" };
+    if (key.expires_at && new Date(key.expires_at) <= new Date()) return { label: "Expired", variant: "secondary" };
+    return { label: "Active", variant: "default" };
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>API Keys</CardTitle>
+            <CardDescription>Keys for CRM and other integrations to call the Kalyxi API</CardDescription>
+          </div>
+          <Button
+            variant="gradient"
+            className="gap-2"
+            disabled={!apiAccessEnabled}
+            onClick={() => {
+              resetCreateForm();
+              setCreateOpen(true);
+            }}
+          >
+            <Plus className="h-4 w-4" />
+            New Key
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!apiAccessEnabled && (
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>API access not included</AlertTitle>
+              <AlertDescription>
+                Upgrade to the Professional plan to issue API keys. Existing keys are rejected until then.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {error && !createOpen && (
+            <div className="flex items-center gap-2 text-sm text-red-600">
+              <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : keys.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No API keys yet</p>
+          ) : (
+            <div className="space-y-3">
+              {keys.map((key) => {
+                const status = keyStatus(key);
+                return (
+                  <div
+                    key={key.id}
+                    className="flex items-center justify-between gap-4 p-4 rounded-xl border bg-card"
+                  >
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <Key className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                        <p className="font-medium truncate">{key.name}</p>
+                        <Badge variant={status.variant}>{status.label}</Badge>
+                      </div>
+                      <p className="text-xs font-mono text-muted-foreground">{key.key_prefix}…</p>
+                      <div className="flex flex-wrap gap-1">
+                        {(key.scopes || []).map((scope) => (
+                          <Badge key={scope} variant="outline" className="font-mono text-xs">
+                            {scope}
+                          </Badge>
+                        ))}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Created {format(new Date(key.created_at), "MMM d, yyyy")}
+                        {" · "}
+                        {key.last_used_at
+                          ? `Last used ${format(new Date(key.last_used_at), "MMM d, yyyy HH:mm")}`
+                          : "Never used"}
+                        {key.expires_at && ` · Expires ${format(new Date(key.expires_at), "MMM d, yyyy")}`}
+                        {key.rate_limit_per_minute && ` · ${key.rate_limit_per_minute} req/min`}
+                      </p>
+                    </div>
+                    {key.is_active && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRevoke(key)}
+                        className="text-red-500 hover:text-red-600 hover:bg-red-500/10 gap-1"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        Revoke
+                      </Button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="rounded-xl bg-muted/30 border p-4 text-sm text-muted-foreground">
+            Send the key as{" "}
+            <code className="bg-muted px-1.5 py-0.5 rounded text-xs">Authorization: Bearer klx_…</code>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{newKey ? "Copy Your API Key" : "New API Key"}</DialogTitle>
+            <DialogDescription>
+              {newKey
+                ? "This is the only time the key is shown. Store it somewhere safe."
+                : "Grant only the scopes the integration needs"}
+            </DialogDescription>
+          </DialogHeader>
+
+          {newKey ? (
+            <div className="space-y-4">
+              <div className="flex items-center gap-2">
+                <code className="flex-1 rounded bg-muted px-3 py-2 font-mono text-xs break-all">{newKey}</code>
+                <Button variant="outline" size="icon" onClick={copyKey}>
+                  {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                </Button>
+              </div>
+              <DialogFooter>
+                <Button onClick={() => setCreateOpen(false)}>Done</Button>
+              </DialogFooter>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="apiKeyName">Name</Label>
+                <Input
+                  id="apiKeyName"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g. Salesforce sync"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Scopes</Label>
+                {scopeOptions.map((option) => (
+                  <label key={option.scope} className="flex items-start gap-3 rounded-lg border p-3 cursor-pointer">
+                    <Checkbox
+                      checked={scopes.includes(option.scope)}
+                      onCheckedChange={(checked) => toggleScope(option.scope, checked === true)}
+                    />
+                    <div className="space-y-0.5">
+                      <p className="text-sm font-medium">
+                        {option.label} <code className="text-xs text-muted-foreground">{option.scope}</code>
+                      </p>
+                      <p className="text-xs text-muted-foreground">{option.description}</p>
+                    </div>
+                  </label>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="apiKeyExpires">Expires (optional)</Label>
+                  <Input
+                    id="apiKeyExpires"
+                    type="date"
+                    value={expiresAt}
+                    onChange={(e) => setExpiresAt(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="apiKeyRateLimit">Requests / min</Label>
+                  <Input
+                    id="apiKeyRateLimit"
+                    type="number"
+                    min={1}
+                    value={rateLimit}
+                    onChange={(e) => setRateLimit(e.target.value)}
+                    placeholder="120"
+                  />
+                </div>
+              </div>
+
+              {error && (
+                <div className="flex items-center gap-2 text-sm text-red-600">
+                  <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                  <span>{error}</span>
+                </div>
+              )}
+
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setCreateOpen(false)}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleCreate}
+                  disabled={creating || !name.trim() || scopes.length === 0}
+                >
+                  {creating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Create Key
+                </Button>
+              </DialogFooter>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,543 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AlertTriangle, Check, CreditCard, ExternalLink, FileText, Loader2, Sparkles } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { PlanTier } from "@/types/analytics";
+import type { BillingInterval, BillingInvoice, DunningState, SubscriptionStatus } from "@/types/database";
+
+interface PlanDefinition {
+  id: PlanTier;
+  name: string;
+  description: string | null;
+  price_monthly: number | null;
+  price_yearly: number | null;
+  features: string[];
+}
+
+interface PaymentMethod {
+  brand: string;
+  last4: string;
+  expMonth: number | null;
+  expYear: number | null;
+}
+
+interface PlanDetails {
+  current: PlanTier;
+  subscription: {
+    status: SubscriptionStatus | null;
+    periodEnd: string | null;
+    interval: BillingInterval | null;
+    cancelAtPeriodEnd: boolean;
+    dunningState: DunningState;
+    pastDueSince: string | null;
+  };
+  billing: {
+    hasSubscription: boolean;
+    paymentMethod: PaymentMethod | null;
+  };
+}
+
+interface ProrationPreview {
+  charge: number;
+  credit: number;
+  amountDue: number;
+  currency: string;
+}
+
+interface PendingChange {
+  plan: PlanDefinition;
+  interval: BillingInterval;
+  price: { amount: number; currency: string };
+  proration: ProrationPreview | null;
+}
+
+type InvoiceEntry = Pick<
+  BillingInvoice,
+  "id" | "number" | "status" | "amount_due" | "amount_paid" | "currency" | "hosted_invoice_url" | "invoice_pdf_url" | "issued_at"
+>;
+
+// Matches DUNNING_RESTRICT_DAYS in the billing engine
+const DUNNING_RESTRICT_DAYS = 7;
+
+const PLAN_ORDER: PlanTier[] = ["free", "starter", "professional", "enterprise"];
+
+function formatMoney(cents: number, currency: string = "usd"): string {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency: currency.toUpperCase() }).format(cents / 100);
+}
+
+function planPrice(plan: PlanDefinition, interval: BillingInterval): number | null {
+  const price = interval === "year" ? plan.price_yearly : plan.price_monthly;
+  return price === null || price === undefined ? null : Number(price);
+}
+
+const invoiceVariant = (status: InvoiceEntry["status"]): "success" | "warning" | "destructive" | "secondary" => {
+  if (status === "paid") return "success";
+  if (status === "open") return "warning";
+  if (status === "uncollectible") return "destructive";
+  return "secondary";
+};
+
+interface BillingSettingsProps {
+  orgId: string;
+}
+
+export function BillingSettings({ orgId }: BillingSettingsProps) {
+  const [plan, setPlan] = useState<PlanDetails | null>(null);
+  const [plans, setPlans] = useState<PlanDefinition[]>([]);
+  const [invoices, setInvoices] = useState<InvoiceEntry[]>([]);
+  const [billingInterval, setBillingInterval] = useState<BillingInterval>("month");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [pending, setPending] = useState<PendingChange | null>(null);
+  const [working, setWorking] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [planRes, invoicesRes] = await Promise.all([
+        fetch(`/api/organizations/${orgId}/plan`),
+        fetch(`/api/organizations/${orgId}/plan/invoices?pageSize=12`),
+      ]);
+      const [planData, invoicesData] = await Promise.all([planRes.json(), invoicesRes.json()]);
+
+      if (!planRes.ok) {
+        setError(planData.error || "Failed to load billing");
+        return;
+      }
+
+      setPlan(planData.plan);
+      setPlans(planData.availablePlans || []);
+      if (planData.plan.subscription.interval) setBillingInterval(planData.plan.subscription.interval);
+      if (invoicesRes.ok) setInvoices(invoicesData.data || []);
+    } catch {
+      setError("Failed to load billing");
+    } finally {
+      setLoading(false);
+    }
+  }, [orgId]);
+
+  useEffect(() => {
+    fetchData();
+
+    const checkout = new URLSearchParams(window.location.search).get("checkout");
+    if (checkout === "success") setNotice("Thanks! Your subscription is active.");
+    if (checkout === "canceled") setNotice("Checkout was canceled. Your plan hasn't changed.");
+  }, [fetchData]);
+
+  const requestChange = async (body: { plan: PlanTier; interval: BillingInterval; preview: boolean }) => {
+    const res = await fetch(`/api/organizations/${orgId}/plan`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || "Failed to change plan");
+    return data.data;
+  };
+
+  const handleSelectPlan = async (target: PlanDefinition) => {
+    setWorking(target.id);
+    setError(null);
+
+    try {
+      const result = await requestChange({ plan: target.id, interval: billingInterval, preview: true });
+      setPending({ plan: target, interval: billingInterval, price: result.price, proration: result.proration });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to change plan");
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!pending) return;
+    setWorking("confirm");
+    setError(null);
+
+    try {
+      const result = await requestChange({ plan: pending.plan.id, interval: pending.interval, preview: false });
+      if (result.action === "checkout") {
+        window.location.href = result.url;
+        return;
+      }
+
+      setPending(null);
+      setNotice(
+        result.action === "canceled"
+          ? "Your subscription will end at the close of the billing period."
+          : `You're now on the ${pending.plan.name} plan.`
+      );
+      await fetchData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to change plan");
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const handleUpdatePaymentMethod = async () => {
+    setWorking("portal");
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/organizations/${orgId}/plan/portal`, { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to open the payment page");
+        return;
+      }
+      window.location.href = data.data.url;
+    } catch {
+      setError("Failed to open the payment page");
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!plan) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-red-600">
+        <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+        <span>{error || "Failed to load billing"}</span>
+      </div>
+    );
+  }
+
+  const currentDefinition = plans.find((p) => p.id === plan.current);
+  const currentInterval = plan.subscription.interval || "month";
+  const currentPrice = currentDefinition ? planPrice(currentDefinition, currentInterval) : null;
+  const { subscription, billing } = plan;
+  const pastDue = subscription.status === "past_due";
+
+  const actionLabel = (target: PlanDefinition): string | null => {
+    const isCurrent = target.id === plan.current && (!billing.hasSubscription || billingInterval === currentInterval);
+    if (isCurrent) return billing.hasSubscription && subscription.cancelAtPeriodEnd ? "Keep plan" : null;
+    if (target.id === "free") return billing.hasSubscription ? "Downgrade" : null;
+    return PLAN_ORDER.indexOf(target.id) > PLAN_ORDER.indexOf(plan.current) ? "Upgrade" : "Switch";
+  };
+
+  return (
+    <>
+      {error && (
+        <div className="flex items-center gap-2 text-sm text-red-600">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {notice && (
+        <div className="flex items-center gap-2 text-sm text-emerald-600">
+          <Check className="h-4 w-4 flex-shrink-0" />
+          <span>{notice}</span>
+        </div>
+      )}
+
+      {pastDue && (
+        <div className="flex items-start gap-3 p-4 rounded-xl border border-red-200 bg-red-50 text-red-800 dark:border-red-900 dark:bg-red-950/40 dark:text-red-200">
+          <AlertTriangle className="h-5 w-5 flex-shrink-0 mt-0.5" />
+          <div className="space-y-1 text-sm">
+            <p className="font-medium">
+              {subscription.dunningState === "restricted"
+                ? "Your account is limited to Free plan features"
+                : "Your last payment failed"}
+            </p>
+            <p>
+              {subscription.dunningState === "restricted"
+                ? "Update your payment method to restore your plan. Unpaid subscriptions are canceled after three weeks."
+                : subscription.pastDueSince
+                  ? `Update your payment method by ${format(
+                      new Date(new Date(subscription.pastDueSince).getTime() + DUNNING_RESTRICT_DAYS * 24 * 60 * 60 * 1000),
+                      "MMM d"
+                    )} to keep your plan's features.`
+                  : "Update your payment method to keep your plan's features."}
+            </p>
+          </div>
+        </div>
+      )}
+
+      <Card className="overflow-hidden">
+        <div className="bg-gradient-to-r from-primary/10 via-indigo-500/10 to-purple-500/10 p-6 border-b">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <div className="flex items-center gap-2 mb-2">
+                <Sparkles className="h-5 w-5 text-primary" />
+                <Badge variant="gradient">{currentDefinition?.name || plan.current} Plan</Badge>
+                {subscription.status && subscription.status !== "active" && (
+                  <Badge variant={pastDue ? "destructive" : "secondary"} className="capitalize">
+                    {subscription.status.replace("_", " ")}
+                  </Badge>
+                )}
+              </div>
+              <h3 className="text-2xl font-bold">
+                {currentPrice === null || currentPrice === 0
+                  ? "Free"
+                  : `${formatMoney(currentPrice * 100)}/${currentInterval}`}
+              </h3>
+              {currentDefinition?.description && (
+                <p className="text-sm text-muted-foreground mt-1">{currentDefinition.description}</p>
+              )}
+            </div>
+            {billing.hasSubscription && subscription.periodEnd && (
+              <div className="text-right">
+                <p className="text-sm text-muted-foreground">
+                  {subscription.cancelAtPeriodEnd ? "Ends" : "Renews"}
+                </p>
+                <p className="text-lg font-semibold">{format(new Date(subscription.periodEnd), "MMM d, yyyy")}</p>
+              </div>
+            )}
+          </div>
+        </div>
+        <CardContent className="p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="font-medium">Plans</p>
+              <p className="text-sm text-muted-foreground">
+                Upgrades take effect immediately; you&apos;re charged the prorated difference.
+              </p>
+            </div>
+            <div className="flex rounded-lg border p-1">
+              {(["month", "year"] as BillingInterval[]).map((option) => (
+                <Button
+                  key={option}
+                  size="sm"
+                  variant={billingInterval === option ? "default" : "ghost"}
+                  onClick={() => setBillingInterval(option)}
+                >
+                  {option === "month" ? "Monthly" : "Yearly"}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            {plans.map((target) => {
+              const price = planPrice(target, billingInterval);
+              const label = actionLabel(target);
+              const isCurrent = target.id === plan.current;
+
+              return (
+                <div
+                  key={target.id}
+                  className={cn(
+                    "flex flex-col p-4 rounded-xl border bg-card",
+                    isCurrent && "border-primary ring-1 ring-primary/30"
+                  )}
+                >
+                  <p className="font-semibold">{target.name}</p>
+                  <p className="text-2xl font-bold mt-1">
+                    {price === null ? "Custom" : price === 0 ? "Free" : formatMoney(price * 100)}
+                    {price !== null && price > 0 && (
+                      <span className="text-sm font-normal text-muted-foreground">/{billingInterval}</span>
+                    )}
+                  </p>
+                  <ul className="mt-3 space-y-1 text-sm text-muted-foreground flex-1">
+                    {(target.features || []).map((feature) => (
+                      <li key={feature} className="flex items-start gap-2">
+                        <Check className="h-4 w-4 text-primary flex-shrink-0 mt-0.5" />
+                        <span>{feature}</span>
+                      </li>
+                    ))}
+                  </ul>
+                  <Button
+                    className="mt-4"
+                    size="sm"
+                    variant={label === "Upgrade" ? "gradient" : "outline"}
+                    disabled={!label || price === null || working !== null || (pastDue && label !== null)}
+                    onClick={() => handleSelectPlan(target)}
+                  >
+                    {working === target.id && <Loader2 className="h-4 w-4 animate-spin" />}
+                    {label || (isCurrent ? "Current plan" : "Included")}
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Payment Method</CardTitle>
+          <CardDescription>Manage your payment information</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center justify-between p-4 rounded-xl border bg-card">
+            <div className="flex items-center gap-4">
+              <div className="h-10 w-16 rounded-lg bg-gradient-to-br from-gray-900 to-gray-700 flex items-center justify-center text-white text-xs font-bold uppercase">
+                {billing.paymentMethod ? billing.paymentMethod.brand : <CreditCard className="h-4 w-4" />}
+              </div>
+              {billing.paymentMethod ? (
+                <div>
+                  <p className="font-medium capitalize">
+                    {billing.paymentMethod.brand} ending in {billing.paymentMethod.last4}
+                  </p>
+                  {billing.paymentMethod.expMonth && billing.paymentMethod.expYear && (
+                    <p className="text-sm text-muted-foreground">
+                      Expires {String(billing.paymentMethod.expMonth).padStart(2, "0")}/{billing.paymentMethod.expYear}
+                    </p>
+                  )}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  {billing.hasSubscription ? "No card on file" : "Added when you upgrade to a paid plan"}
+                </p>
+              )}
+            </div>
+            <Button
+              variant={pastDue ? "gradient" : "outline"}
+              size="sm"
+              disabled={!billing.hasSubscription || working !== null}
+              onClick={handleUpdatePaymentMethod}
+            >
+              {working === "portal" && <Loader2 className="h-4 w-4 animate-spin" />}
+              Update
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Invoices</CardTitle>
+          <CardDescription>Your billing history</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {invoices.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No invoices yet</p>
+          ) : (
+            <div className="space-y-3">
+              {invoices.map((invoice) => {
+                const link = invoice.hosted_invoice_url || invoice.invoice_pdf_url;
+                return (
+                  <div key={invoice.id} className="flex items-center justify-between gap-4 p-4 rounded-xl border bg-card">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <FileText className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">{invoice.number || "Invoice"}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {format(new Date(invoice.issued_at), "MMM d, yyyy")}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <span className="font-medium">{formatMoney(invoice.amount_due, invoice.currency)}</span>
+                      <Badge variant={invoiceVariant(invoice.status)} className="capitalize">
+                        {invoice.status}
+                      </Badge>
+                      {link && (
+                        <a
+                          href={link}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-muted-foreground hover:text-foreground"
+                          aria-label="View invoice"
+                        >
+                          <ExternalLink className="h-4 w-4" />
+                        </a>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={pending !== null} onOpenChange={(open) => !open && setPending(null)}>
+        <DialogContent className="sm:max-w-md">
+          {pending && (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  {pending.plan.id === "free"
+                    ? "Downgrade to Free"
+                    : pending.plan.id === plan.current && subscription.cancelAtPeriodEnd
+                      ? `Keep the ${pending.plan.name} plan`
+                      : `Switch to ${pending.plan.name}`}
+                </DialogTitle>
+                <DialogDescription>
+                  {pending.plan.id === "free"
+                    ? "Your subscription stays active until the end of the billing period, then moves to the Free plan."
+                    : pending.proration
+                      ? "You're charged the prorated difference for the rest of this billing period now."
+                      : billing.hasSubscription
+                        ? "Your subscription will continue to renew."
+                        : "You'll be taken to checkout to enter your payment details."}
+                </DialogDescription>
+              </DialogHeader>
+
+              {pending.plan.id !== "free" && (
+                <div className="space-y-2 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">New price</span>
+                    <span>
+                      {formatMoney(pending.price.amount, pending.price.currency)}/{pending.interval}
+                    </span>
+                  </div>
+                  {pending.proration && (
+                    <>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Remaining time on {pending.plan.name}</span>
+                        <span>{formatMoney(pending.proration.charge, pending.proration.currency)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Credit for unused time</span>
+                        <span>-{formatMoney(pending.proration.credit, pending.proration.currency)}</span>
+                      </div>
+                      <div className="flex justify-between border-t pt-2 font-medium">
+                        <span>Due today</span>
+                        <span>{formatMoney(pending.proration.amountDue, pending.proration.currency)}</span>
+                      </div>
+                    </>
+                  )}
+                </div>
+              )}
+
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setPending(null)} disabled={working === "confirm"}>
+                  Cancel
+                </Button>
+                <Button
+                  variant={pending.plan.id === "free" ? "destructive" : "gradient"}
+                  onClick={handleConfirm}
+                  disabled={working === "confirm"}
+                >
+                  {working === "confirm" && <Loader2 className="h-4 w-4 animate-spin" />}
+                  {!billing.hasSubscription && pending.plan.id !== "free" ? "Continue to checkout" : "Confirm"}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
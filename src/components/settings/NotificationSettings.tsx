@@ -0,0 +1,336 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { AlertTriangle, Check, Loader2, Mail, Save } from "lucide-react";
+import type { NotificationLog, NotificationType, OrgSettings } from "@/types/database";
+
+type OrgNotificationSettings = OrgSettings["notifications"];
+
+interface Preferences {
+  email_new_call: boolean;
+  email_low_score: boolean;
+  email_daily_digest: boolean;
+}
+
+interface NotificationSettingsProps {
+  isAdmin: boolean;
+  /** The org's current settings_json.notifications */
+  orgNotifications?: Partial<OrgNotificationSettings>;
+  onOrgSettingsSaved?: () => Promise<void> | void;
+}
+
+const DEFAULT_ORG_SETTINGS: OrgNotificationSettings = {
+  emailOnNewCall: true,
+  emailOnLowScore: true,
+  lowScoreThreshold: 60,
+  dailyDigest: false,
+};
+
+const TYPE_LABELS: Record<NotificationType, string> = {
+  new_call: "New call",
+  low_score: "Low score",
+  daily_digest: "Daily digest",
+  scheduled_report: "Scheduled report",
+  usage_warning: "Usage warning",
+  dispute_resolved: "Dispute resolved",
+};
+
+const PREFERENCE_OPTIONS: {
+  key: keyof Preferences;
+  orgKey: keyof Omit<OrgNotificationSettings, "lowScoreThreshold">;
+  label: string;
+  description: string;
+}[] = [
+  {
+    key: "email_new_call",
+    orgKey: "emailOnNewCall",
+    label: "New calls",
+    description: "An email for every call that comes in",
+  },
+  {
+    key: "email_low_score",
+    orgKey: "emailOnLowScore",
+    label: "Low score alerts",
+    description: "An email when an analyzed call scores below the alert threshold",
+  },
+  {
+    key: "email_daily_digest",
+    orgKey: "dailyDigest",
+    label: "Daily digest",
+    description: "A summary of the last day's calls each morning",
+  },
+];
+
+type LogEntry = Pick<
+  NotificationLog,
+  "id" | "type" | "recipient" | "subject" | "status" | "error_message" | "created_at"
+>;
+
+export function NotificationSettings({
+  isAdmin,
+  orgNotifications,
+  onOrgSettingsSaved,
+}: NotificationSettingsProps) {
+  const [orgSettings, setOrgSettings] = useState<OrgNotificationSettings>({
+    ...DEFAULT_ORG_SETTINGS,
+    ...orgNotifications,
+  });
+  const [preferences, setPreferences] = useState<Preferences | null>(null);
+  const [log, setLog] = useState<LogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingOrg, setSavingOrg] = useState(false);
+  const [savedOrg, setSavedOrg] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setOrgSettings({ ...DEFAULT_ORG_SETTINGS, ...orgNotifications });
+  }, [orgNotifications]);
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [preferencesRes, logRes] = await Promise.all([
+        fetch("/api/notifications/preferences"),
+        fetch("/api/notifications/log?pageSize=10"),
+      ]);
+      const [preferencesData, logData] = await Promise.all([preferencesRes.json(), logRes.json()]);
+
+      if (!preferencesRes.ok) {
+        setError(preferencesData.error || "Failed to load notification preferences");
+        return;
+      }
+
+      setPreferences(preferencesData.data);
+      if (logRes.ok) setLog(logData.data || []);
+    } catch {
+      setError("Failed to load notification preferences");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const handlePreferenceChange = async (key: keyof Preferences, checked: boolean) => {
+    if (!preferences) return;
+    const previous = preferences;
+    setPreferences({ ...preferences, [key]: checked });
+    setError(null);
+
+    try {
+      const res = await fetch("/api/notifications/preferences", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ [key]: checked }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setPreferences(previous);
+        setError(data.error || "Failed to update notification preferences");
+        return;
+      }
+
+      setPreferences(data.data);
+    } catch {
+      setPreferences(previous);
+      setError("Failed to update notification preferences");
+    }
+  };
+
+  const handleSaveOrgSettings = async () => {
+    setSavingOrg(true);
+    setError(null);
+
+    try {
+      const res = await fetch("/api/organizations/settings", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ settings_json: { notifications: orgSettings } }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || "Failed to save organization notifications");
+        return;
+      }
+
+      await onOrgSettingsSaved?.();
+      setSavedOrg(true);
+      setTimeout(() => setSavedOrg(false), 2000);
+    } catch {
+      setError("Failed to save organization notifications");
+    } finally {
+      setSavingOrg(false);
+    }
+  };
+
+  const statusVariant = (status: LogEntry["status"]): "default" | "secondary" | "destructive" => {
+    if (status === "failed") return "destructive";
+    if (status === "sending") return "secondary";
+    return "default";
+  };
+
+  return (
+    <>
+      {error && (
+        <div className="flex items-center gap-2 text-sm text-red-600">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {isAdmin && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Organization Emails</CardTitle>
+            <CardDescription>
+              Which emails admins and managers in your organization are sent
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {PREFERENCE_OPTIONS.map((option) => (
+              <div
+                key={option.orgKey}
+                className="flex items-center justify-between p-4 rounded-xl border bg-card hover:bg-muted/30 transition-colors"
+              >
+                <div className="space-y-0.5">
+                  <p className="font-medium">{option.label}</p>
+                  <p className="text-sm text-muted-foreground">{option.description}</p>
+                </div>
+                <Switch
+                  checked={orgSettings[option.orgKey]}
+                  onCheckedChange={(checked) =>
+                    setOrgSettings((prev) => ({ ...prev, [option.orgKey]: checked }))
+                  }
+                />
+              </div>
+            ))}
+
+            <div className="space-y-2">
+              <Label htmlFor="lowScoreThreshold">Low score alert threshold</Label>
+              <Input
+                id="lowScoreThreshold"
+                type="number"
+                min={0}
+                max={100}
+                className="max-w-[120px]"
+                value={orgSettings.lowScoreThreshold}
+                disabled={!orgSettings.emailOnLowScore}
+                onChange={(e) =>
+                  setOrgSettings((prev) => ({
+                    ...prev,
+                    lowScoreThreshold: Math.min(100, Math.max(0, parseInt(e.target.value, 10) || 0)),
+                  }))
+                }
+              />
+              <p className="text-xs text-muted-foreground">
+                Calls scoring below this send an alert
+              </p>
+            </div>
+
+            <div className="flex justify-end">
+              <Button variant="gradient" className="gap-2" onClick={handleSaveOrgSettings} disabled={savingOrg}>
+                {savingOrg ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : savedOrg ? (
+                  <Check className="h-4 w-4" />
+                ) : (
+                  <Save className="h-4 w-4" />
+                )}
+                {savedOrg ? "Saved" : "Save"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>My Email Notifications</CardTitle>
+          <CardDescription>
+            Opt out of emails your organization sends. Only admins and managers receive them.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {loading || !preferences ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : (
+            PREFERENCE_OPTIONS.map((option) => (
+              <div
+                key={option.key}
+                className="flex items-center justify-between p-4 rounded-xl border bg-card hover:bg-muted/30 transition-colors"
+              >
+                <div className="space-y-0.5">
+                  <p className="font-medium">{option.label}</p>
+                  <p className="text-sm text-muted-foreground">{option.description}</p>
+                </div>
+                <Switch
+                  checked={preferences[option.key]}
+                  onCheckedChange={(checked) => handlePreferenceChange(option.key, checked)}
+                />
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Emails</CardTitle>
+          <CardDescription>
+            {isAdmin ? "The last emails sent to your organization" : "The last emails sent to you"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : log.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No emails sent yet</p>
+          ) : (
+            <div className="space-y-3">
+              {log.map((entry) => (
+                <div key={entry.id} className="flex items-start justify-between gap-4 p-4 rounded-xl border bg-card">
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <Mail className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                      <p className="font-medium truncate">{entry.subject}</p>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {TYPE_LABELS[entry.type]} · {entry.recipient} ·{" "}
+                      {format(new Date(entry.created_at), "MMM d, yyyy HH:mm")}
+                    </p>
+                    {entry.error_message && (
+                      <p className="text-xs text-red-600">{entry.error_message}</p>
+                    )}
+                  </div>
+                  <Badge variant={statusVariant(entry.status)} className="capitalize">
+                    {entry.status}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
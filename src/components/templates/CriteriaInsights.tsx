@@ -0,0 +1,298 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Activity, AlertTriangle, ChevronDown, ChevronUp, Loader2, RefreshCw } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { useTemplateBuilderStore } from "@/stores/template-builder-store";
+import type { CriteriaOptimization, CriterionInsightFlag } from "@/types/database";
+
+interface InsightThresholds {
+  windowDays: number;
+  minEvaluations: number;
+  extremeRate: number;
+  minAiComparisons: number;
+  aiDisagreementPoints: number;
+}
+
+const flagLabels: Record<CriterionInsightFlag, string> = {
+  always_max: "Always full marks",
+  always_min: "Never earned",
+  ai_disagreement: "AI disagrees",
+};
+
+const DISTRIBUTION_RANGES = ["0-20", "21-40", "41-60", "61-80", "81-100"];
+
+function flagAdvice(flag: CriterionInsightFlag, insight: CriteriaOptimization): string {
+  switch (flag) {
+    case "always_max":
+      return `${insight.max_score_rate}% of evaluations give full marks, so it doesn't separate strong calls from weak ones. Raise the bar or split it into stricter checks.`;
+    case "always_min":
+      return `${insight.min_score_rate}% of evaluations score zero. Check it's achievable and that the scoring guide says what earns credit.`;
+    case "ai_disagreement":
+      return `Coaches and the AI are ${insight.ai_mean_abs_diff} points apart on average over ${insight.ai_comparisons} calls. Tighten the description and scoring guide so both read it the same way.`;
+  }
+}
+
+export default function CriteriaInsights() {
+  const { template, criteria } = useTemplateBuilderStore();
+  const [insights, setInsights] = useState<CriteriaOptimization[]>([]);
+  const [calculatedAt, setCalculatedAt] = useState<string | null>(null);
+  const [thresholds, setThresholds] = useState<InsightThresholds | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const applyResponse = (data: {
+    data?: CriteriaOptimization[];
+    period?: { calculatedAt: string } | null;
+    thresholds?: InsightThresholds;
+  }) => {
+    setInsights(data.data || []);
+    setCalculatedAt(data.period?.calculatedAt || null);
+    setThresholds(data.thresholds || null);
+  };
+
+  const fetchInsights = useCallback(async () => {
+    if (!template.id) return;
+
+    try {
+      const res = await fetch(`/api/templates/${template.id}/insights`);
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || "Failed to load criteria insights");
+        return;
+      }
+
+      applyResponse(data);
+    } catch {
+      setError("Failed to load criteria insights");
+    } finally {
+      setLoading(false);
+    }
+  }, [template.id]);
+
+  useEffect(() => {
+    fetchInsights();
+  }, [fetchInsights]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/templates/${template.id}/insights`, { method: "POST" });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || "Failed to recalculate criteria insights");
+        return;
+      }
+
+      applyResponse(data);
+    } catch {
+      setError("Failed to recalculate criteria insights");
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  // Flagged criteria first, the widest coach/AI gap leading
+  const rows = useMemo(() => {
+    const names = new Map(criteria.map((c) => [c.id, c.name]));
+    return insights
+      .map((insight) => ({ insight, name: names.get(insight.criterion_id) || insight.criterion_name }))
+      .sort(
+        (a, b) =>
+          b.insight.flags.length - a.insight.flags.length ||
+          (b.insight.ai_mean_abs_diff ?? -1) - (a.insight.ai_mean_abs_diff ?? -1) ||
+          a.name.localeCompare(b.name)
+      );
+  }, [insights, criteria]);
+
+  const flaggedCount = rows.filter((row) => row.insight.flags.length > 0).length;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <Activity className="h-4 w-4 text-primary" />
+            Criterion Calibration
+          </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={handleRefresh}
+            disabled={refreshing}
+            title="Recalculate"
+          >
+            <RefreshCw className={cn("h-4 w-4", refreshing && "animate-spin")} />
+          </Button>
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">
+          Last {thresholds?.windowDays ?? 90} days of completed sessions
+          {calculatedAt && ` · updated ${formatDistanceToNow(new Date(calculatedAt), { addSuffix: true })}`}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && (
+          <p className="text-xs text-red-500 flex items-center gap-1">
+            <AlertTriangle className="h-3 w-3" />
+            {error}
+          </p>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No scored sessions yet. Insights appear once coaches start using this template.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm">
+              {flaggedCount === 0
+                ? "Every criterion with enough scores is spreading agents out."
+                : `${flaggedCount} of ${rows.length} criteria may need rewriting.`}
+            </p>
+            <div className="space-y-2">
+              {rows.map(({ insight, name }) => {
+                const expanded = expandedId === insight.id;
+                const peak = Math.max(1, ...Object.values(insight.score_distribution || {}));
+                const trend = insight.trend_data.slice(-8);
+
+                return (
+                  <div key={insight.id} className="rounded-lg border p-2">
+                    <button
+                      type="button"
+                      className="flex w-full items-start justify-between gap-2 text-left"
+                      onClick={() => setExpandedId(expanded ? null : insight.id)}
+                    >
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium truncate">{name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {insight.total_evaluations} scored · avg {Number(insight.average_score).toFixed(1)}%
+                          {insight.ai_average_score !== null && ` · AI ${insight.ai_average_score}%`}
+                        </p>
+                        {insight.flags.length > 0 && (
+                          <div className="mt-1 flex flex-wrap gap-1">
+                            {insight.flags.map((flag) => (
+                              <Badge key={flag} variant={flag === "ai_disagreement" ? "info" : "warning"}>
+                                {flagLabels[flag]}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                      {expanded ? (
+                        <ChevronUp className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                      ) : (
+                        <ChevronDown className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                      )}
+                    </button>
+
+                    {expanded && (
+                      <div className="mt-3 space-y-3 border-t pt-3">
+                        {insight.flags.map((flag) => (
+                          <p key={flag} className="text-xs text-amber-600 dark:text-amber-400">
+                            {flagAdvice(flag, insight)}
+                          </p>
+                        ))}
+
+                        <div>
+                          <p className="text-xs font-medium mb-1">Score distribution</p>
+                          <div className="space-y-1">
+                            {DISTRIBUTION_RANGES.map((range) => {
+                              const count = insight.score_distribution?.[range] || 0;
+                              return (
+                                <div key={range} className="flex items-center gap-2 text-xs">
+                                  <span className="w-12 text-muted-foreground">{range}</span>
+                                  <div className="h-2 flex-1 rounded bg-muted">
+                                    <div
+                                      className="h-2 rounded bg-primary"
+                                      style={{ width: `${(count / peak) * 100}%` }}
+                                    />
+                                  </div>
+                                  <span className="w-8 text-right">{count}</span>
+                                </div>
+                              );
+                            })}
+                          </div>
+                        </div>
+
+                        {trend.length > 1 && (
+                          <div>
+                            <p className="text-xs font-medium mb-1">Weekly average</p>
+                            <div className="flex h-12 items-end gap-1">
+                              {trend.map((point) => (
+                                <div
+                                  key={point.date}
+                                  className="flex-1 rounded-t bg-primary/70"
+                                  style={{ height: `${Math.max(4, point.avg)}%` }}
+                                  title={`Week of ${point.date}: ${point.avg}% (${point.count})`}
+                                />
+                              ))}
+                            </div>
+                          </div>
+                        )}
+
+                        <div className="grid grid-cols-2 gap-2 text-xs">
+                          <div>
+                            <span className="text-muted-foreground">Full marks</span>
+                            <p className="font-medium">{insight.max_score_rate ?? 0}%</p>
+                          </div>
+                          <div>
+                            <span className="text-muted-foreground">Zero</span>
+                            <p className="font-medium">{insight.min_score_rate ?? 0}%</p>
+                          </div>
+                          <div>
+                            <span className="text-muted-foreground">Spread (std dev)</span>
+                            <p className="font-medium">{insight.score_stddev ?? 0}</p>
+                          </div>
+                          <div>
+                            <span className="text-muted-foreground">Coach vs AI gap</span>
+                            <p className="font-medium">
+                              {insight.ai_mean_abs_diff !== null
+                                ? `${insight.ai_mean_abs_diff} pts (${insight.ai_comparisons} calls)`
+                                : "No AI-scored calls"}
+                            </p>
+                          </div>
+                        </div>
+
+                        {insight.common_improvements.length > 0 && (
+                          <div>
+                            <p className="text-xs font-medium mb-1">Common AI feedback</p>
+                            <ul className="list-disc list-inside text-xs text-muted-foreground">
+                              {insight.common_improvements.map((item) => (
+                                <li key={item}>{item}</li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            {thresholds && (
+              <p className="text-xs text-muted-foreground">
+                Flags need at least {thresholds.minEvaluations} scores, or {thresholds.minAiComparisons} AI-scored
+                calls for disagreement.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
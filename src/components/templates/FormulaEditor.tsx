@@ -0,0 +1,105 @@
+"use client";
+
+import { useMemo } from "react";
+import { AlertTriangle, Check, Sigma } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { useTemplateBuilderStore } from "@/stores/template-builder-store";
+import {
+  FORMULA_FUNCTIONS,
+  MAX_FORMULA_LENGTH,
+  getFormulaVariables,
+  validateFormula,
+} from "@/lib/scoring-formula";
+
+const kindLabels = {
+  builtin: "Built-in",
+  group: "Group subtotal",
+  criteria: "Criterion",
+} as const;
+
+export default function FormulaEditor() {
+  const { template, groups, criteria, updateTemplate } = useTemplateBuilderStore();
+
+  const variables = useMemo(
+    () => getFormulaVariables(groups, criteria),
+    [groups, criteria]
+  );
+
+  const validation = useMemo(
+    () =>
+      template.scoring_formula.trim()
+        ? validateFormula(template.scoring_formula, variables)
+        : null,
+    [template.scoring_formula, variables]
+  );
+
+  const insertKey = (key: string) => {
+    const current = template.scoring_formula;
+    const separator = current && !/[\s(,]$/.test(current) ? " " : "";
+    updateTemplate({ scoring_formula: `${current}${separator}${key}` });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label htmlFor="scoring_formula" className="flex items-center gap-1">
+          <Sigma className="h-4 w-4" />
+          Scoring Formula *
+        </Label>
+        <Textarea
+          id="scoring_formula"
+          value={template.scoring_formula}
+          onChange={(e) => updateTemplate({ scoring_formula: e.target.value })}
+          placeholder="e.g. if(compliance < 50, min(weighted, 60), weighted)"
+          maxLength={MAX_FORMULA_LENGTH}
+          rows={3}
+          className={cn(
+            "font-mono text-sm",
+            validation && !validation.valid && "border-red-500/50"
+          )}
+        />
+        {validation && !validation.valid && (
+          <ul className="text-xs text-red-500 space-y-0.5">
+            {validation.errors.map((error, i) => (
+              <li key={i} className="flex items-start gap-1">
+                <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                {error}
+              </li>
+            ))}
+          </ul>
+        )}
+        {validation?.valid && (
+          <p className="text-xs text-emerald-500 flex items-center gap-1">
+            <Check className="h-3 w-3" />
+            Formula is valid
+          </p>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Scores are 0-100 and the result is clamped to 0-100. N/A criteria are
+          empty: min, max, avg and sum skip them; use coalesce(key, 0) to count
+          them as zero. Functions: {FORMULA_FUNCTIONS.join(", ")}.
+        </p>
+      </div>
+
+      <div className="space-y-1.5">
+        <p className="text-xs font-medium text-muted-foreground">Available keys</p>
+        <div className="flex flex-wrap gap-1.5">
+          {variables.map((variable) => (
+            <Badge
+              key={`${variable.kind}-${variable.key}`}
+              variant="outline"
+              className="cursor-pointer font-mono text-xs hover:bg-muted"
+              title={`${kindLabels[variable.kind]}: ${variable.name}`}
+              onClick={() => insertKey(variable.key)}
+            >
+              {variable.key}
+            </Badge>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -58,6 +58,8 @@ import { useTemplateBuilderStore } from "@/stores/template-builder-store";
 import type { ScoringMethod, TemplateUseCase } from "@/types/database";
 import CriteriaGroup from "./CriteriaGroup";
 import CriterionCard from "./CriterionCard";
+import CriteriaInsights from "./CriteriaInsights";
+import FormulaEditor from "./FormulaEditor";
 
 interface TemplateBuilderProps {
   isNew: boolean;
@@ -163,6 +165,8 @@ export default function TemplateBuilder({ isNew }: TemplateBuilderProps) {
         name: template.name,
         description: template.description,
         scoring_method: template.scoring_method,
+        scoring_formula:
+          template.scoring_method === "custom_formula" ? template.scoring_formula : null,
         use_case: template.use_case,
         pass_threshold: template.pass_threshold,
         max_total_score: template.max_total_score,
@@ -608,6 +612,7 @@ export default function TemplateBuilder({ isNew }: TemplateBuilderProps) {
                       <SelectItem value="simple_average">Simple Average</SelectItem>
                       <SelectItem value="pass_fail">Pass/Fail</SelectItem>
                       <SelectItem value="points">Points</SelectItem>
+                      <SelectItem value="custom_formula">Custom Formula</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -637,6 +642,7 @@ export default function TemplateBuilder({ isNew }: TemplateBuilderProps) {
                   />
                 </div>
               </div>
+              {template.scoring_method === "custom_formula" && <FormulaEditor />}
             </CardContent>
           </Card>
 
@@ -826,6 +832,9 @@ export default function TemplateBuilder({ isNew }: TemplateBuilderProps) {
               </div>
             </CardContent>
           </Card>
+
+          {/* Calibration of saved criteria against real scores */}
+          {!isNew && template.id && <CriteriaInsights />}
         </div>
       </div>
     </div>
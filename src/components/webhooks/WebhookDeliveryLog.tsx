@@ -0,0 +1,282 @@
+"use client";
+
+import { Fragment, useCallback, useEffect, useState } from "react";
+import { format, formatDistanceToNow } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertTriangle,
+  ChevronDown,
+  ChevronRight,
+  Clock,
+  Loader2,
+  RefreshCw,
+  RotateCcw,
+} from "lucide-react";
+import type { WebhookDelivery, WebhookDeliveryStatus } from "@/types/database";
+
+type DeliveryWithSubscription = WebhookDelivery & {
+  subscription: { id: string; name: string; url: string } | null;
+};
+
+const STATUS_BADGES: Record<WebhookDeliveryStatus, { label: string; className: string }> = {
+  pending: { label: "Retrying", className: "bg-yellow-100 text-yellow-700" },
+  delivering: { label: "Delivering", className: "bg-blue-100 text-blue-700" },
+  succeeded: { label: "Delivered", className: "bg-green-100 text-green-700" },
+  failed: { label: "Failed", className: "bg-red-100 text-red-700" },
+};
+
+const PAGE_SIZE = 25;
+
+export function WebhookDeliveryLog() {
+  const [deliveries, setDeliveries] = useState<DeliveryWithSubscription[]>([]);
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+
+  const fetchDeliveries = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+      if (statusFilter !== "all") params.set("status", statusFilter);
+
+      const res = await fetch(`/api/webhooks/deliveries?${params}`);
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || "Failed to load deliveries");
+        return;
+      }
+
+      setDeliveries(data.data || []);
+      setTotalPages(Math.max(1, data.pagination?.totalPages || 1));
+      setError(null);
+    } catch {
+      setError("Failed to load deliveries");
+    } finally {
+      setLoading(false);
+    }
+  }, [page, statusFilter]);
+
+  useEffect(() => {
+    fetchDeliveries();
+  }, [fetchDeliveries]);
+
+  const handleReplay = async (delivery: DeliveryWithSubscription) => {
+    setReplayingId(delivery.id);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/webhooks/deliveries/${delivery.id}/replay`, { method: "POST" });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || "Failed to replay delivery");
+        return;
+      }
+
+      // The replay is the newest delivery, so show the first page
+      if (page === 1) {
+        await fetchDeliveries();
+      } else {
+        setPage(1);
+      }
+    } catch {
+      setError("Failed to replay delivery");
+    } finally {
+      setReplayingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Delivery Log</CardTitle>
+          <CardDescription>
+            Failed deliveries are retried after 1m, 5m, 30m, 2h and 6h
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Select
+            value={statusFilter}
+            onValueChange={(value) => {
+              setStatusFilter(value);
+              setPage(1);
+            }}
+          >
+            <SelectTrigger className="w-[140px]">
+              <SelectValue placeholder="Status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Status</SelectItem>
+              <SelectItem value="succeeded">Delivered</SelectItem>
+              <SelectItem value="pending">Retrying</SelectItem>
+              <SelectItem value="failed">Failed</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="icon" onClick={fetchDeliveries} title="Refresh">
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="flex items-center gap-2 text-sm text-red-600">
+            <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+          </div>
+        ) : deliveries.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12">
+            <Clock className="h-12 w-12 text-gray-300" />
+            <h3 className="mt-4 text-lg font-medium">No deliveries yet</h3>
+            <p className="mt-1 text-gray-500">
+              Events sent to your endpoints will appear here
+            </p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b text-left text-sm text-gray-500">
+                  <th className="pb-3 font-medium" />
+                  <th className="pb-3 font-medium">Status</th>
+                  <th className="pb-3 font-medium">Event</th>
+                  <th className="pb-3 font-medium">Endpoint</th>
+                  <th className="pb-3 font-medium">Response</th>
+                  <th className="pb-3 font-medium">Attempts</th>
+                  <th className="pb-3 font-medium">Time</th>
+                  <th className="pb-3 font-medium" />
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {deliveries.map((delivery) => {
+                  const badge = STATUS_BADGES[delivery.status];
+                  const expanded = expandedId === delivery.id;
+                  return (
+                    <Fragment key={delivery.id}>
+                      <tr className="hover:bg-gray-50">
+                        <td className="py-3 pr-2">
+                          <button
+                            type="button"
+                            onClick={() => setExpandedId(expanded ? null : delivery.id)}
+                            className="text-gray-400 hover:text-gray-600"
+                          >
+                            {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          </button>
+                        </td>
+                        <td className="py-3">
+                          <Badge className={badge.className}>{badge.label}</Badge>
+                        </td>
+                        <td className="py-3 font-mono text-sm">
+                          {delivery.event_type}
+                          {delivery.replay_of && (
+                            <Badge variant="outline" className="ml-2 text-xs">Replay</Badge>
+                          )}
+                        </td>
+                        <td className="py-3 text-sm">{delivery.subscription?.name || "-"}</td>
+                        <td className="py-3 text-sm">
+                          {delivery.response_status ?? "-"}
+                          {delivery.duration_ms !== null && (
+                            <span className="text-gray-500"> · {delivery.duration_ms}ms</span>
+                          )}
+                        </td>
+                        <td className="py-3 text-sm">
+                          {delivery.attempts}/{delivery.max_attempts}
+                          {delivery.status === "pending" && delivery.attempts > 0 && (
+                            <span className="block text-xs text-gray-500">
+                              next {formatDistanceToNow(new Date(delivery.next_attempt_at), { addSuffix: true })}
+                            </span>
+                          )}
+                        </td>
+                        <td className="py-3 text-sm text-gray-500">
+                          {format(new Date(delivery.created_at), "MMM d, HH:mm:ss")}
+                        </td>
+                        <td className="py-3 text-right">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="gap-1"
+                            disabled={replayingId !== null || delivery.status === "delivering"}
+                            onClick={() => handleReplay(delivery)}
+                          >
+                            {replayingId === delivery.id ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <RotateCcw className="h-4 w-4" />
+                            )}
+                            Replay
+                          </Button>
+                        </td>
+                      </tr>
+                      {expanded && (
+                        <tr>
+                          <td colSpan={8} className="pb-4">
+                            <div className="grid gap-3 md:grid-cols-2">
+                              <div>
+                                <p className="mb-1 text-xs font-medium text-gray-500">Payload</p>
+                                <pre className="max-h-64 overflow-auto rounded-lg bg-gray-900 p-3 text-xs text-gray-100">
+                                  {JSON.stringify(delivery.payload, null, 2)}
+                                </pre>
+                              </div>
+                              <div>
+                                <p className="mb-1 text-xs font-medium text-gray-500">
+                                  Response{delivery.error_message && ` · ${delivery.error_message}`}
+                                </p>
+                                <pre className="max-h-64 overflow-auto rounded-lg bg-gray-100 p-3 text-xs">
+                                  {delivery.response_body || "(empty)"}
+                                </pre>
+                              </div>
+                            </div>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {totalPages > 1 && (
+          <div className="flex items-center justify-end gap-2">
+            <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+              Previous
+            </Button>
+            <span className="text-sm text-gray-500">
+              Page {page} of {totalPages}
+            </span>
+            <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+              Next
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,388 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  AlertTriangle,
+  Check,
+  Copy,
+  Loader2,
+  Pencil,
+  Plus,
+  RefreshCw,
+  Send,
+  Trash2,
+} from "lucide-react";
+import type { WebhookSubscription } from "@/types/database";
+
+interface EventOption {
+  type: string;
+  description: string;
+}
+
+export function WebhookSubscriptionsManager() {
+  const [subscriptions, setSubscriptions] = useState<WebhookSubscription[]>([]);
+  const [eventOptions, setEventOptions] = useState<EventOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Create / edit dialog state
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<WebhookSubscription | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState("");
+  const [url, setUrl] = useState("");
+  const [events, setEvents] = useState<string[]>([]);
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const fetchSubscriptions = useCallback(async () => {
+    try {
+      const res = await fetch("/api/webhooks/subscriptions");
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || "Failed to load subscriptions");
+        return;
+      }
+
+      setSubscriptions(data.data || []);
+      setEventOptions(data.events || []);
+    } catch {
+      setError("Failed to load subscriptions");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSubscriptions();
+  }, [fetchSubscriptions]);
+
+  const openCreate = () => {
+    setEditing(null);
+    setName("");
+    setUrl("");
+    setEvents([]);
+    setNewSecret(null);
+    setCopied(false);
+    setError(null);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (subscription: WebhookSubscription) => {
+    setEditing(subscription);
+    setName(subscription.name);
+    setUrl(subscription.url);
+    setEvents(subscription.events || []);
+    setNewSecret(null);
+    setCopied(false);
+    setError(null);
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const res = await fetch(
+        editing ? `/api/webhooks/subscriptions/${editing.id}` : "/api/webhooks/subscriptions",
+        {
+          method: editing ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ name, url, events }),
+        }
+      );
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || "Failed to save subscription");
+        return;
+      }
+
+      await fetchSubscriptions();
+
+      if (editing) {
+        setDialogOpen(false);
+      } else {
+        setNewSecret(data.data.secret);
+      }
+    } catch {
+      setError("Failed to save subscription");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateSubscription = async (
+    subscription: WebhookSubscription,
+    changes: { is_active?: boolean; rotate_secret?: boolean }
+  ) => {
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/webhooks/subscriptions/${subscription.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || "Failed to update subscription");
+        return;
+      }
+
+      if (changes.rotate_secret) {
+        setEditing(subscription);
+        setNewSecret(data.data.secret);
+        setCopied(false);
+        setDialogOpen(true);
+      }
+
+      await fetchSubscriptions();
+    } catch {
+      setError("Failed to update subscription");
+    }
+  };
+
+  const handleRotate = (subscription: WebhookSubscription) => {
+    if (!confirm(`Rotate the signing secret for "${subscription.name}"? The endpoint must be updated to verify with the new secret.`)) return;
+    updateSubscription(subscription, { rotate_secret: true });
+  };
+
+  const handleDelete = async (subscription: WebhookSubscription) => {
+    if (!confirm(`Delete "${subscription.name}"? Its delivery history is deleted too.`)) return;
+
+    try {
+      const res = await fetch(`/api/webhooks/subscriptions/${subscription.id}`, { method: "DELETE" });
+      if (!res.ok) {
+        const data = await res.json();
+        setError(data.error || "Failed to delete subscription");
+        return;
+      }
+      await fetchSubscriptions();
+    } catch {
+      setError("Failed to delete subscription");
+    }
+  };
+
+  const copySecret = async () => {
+    if (!newSecret) return;
+    await navigator.clipboard.writeText(newSecret);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const toggleEvent = (type: string, checked: boolean) => {
+    setEvents((prev) => (checked ? [...prev, type] : prev.filter((e) => e !== type)));
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Send className="h-5 w-5 text-indigo-600" />
+              Outbound Subscriptions
+            </CardTitle>
+            <CardDescription>Kalyxi POSTs signed events to these endpoints as they happen</CardDescription>
+          </div>
+          <Button variant="gradient" className="gap-2" onClick={openCreate}>
+            <Plus className="h-4 w-4" />
+            Add Endpoint
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && !dialogOpen && (
+            <div className="flex items-center gap-2 text-sm text-red-600">
+              <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : subscriptions.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No endpoints subscribed yet</p>
+          ) : (
+            <div className="space-y-3">
+              {subscriptions.map((subscription) => (
+                <div
+                  key={subscription.id}
+                  className="flex items-center justify-between gap-4 p-4 rounded-xl border bg-card"
+                >
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium truncate">{subscription.name}</p>
+                      <Badge variant={subscription.is_active ? "default" : "secondary"}>
+                        {subscription.is_active ? "Active" : "Paused"}
+                      </Badge>
+                      {subscription.last_delivery_status && (
+                        <Badge
+                          variant={subscription.last_delivery_status === "succeeded" ? "outline" : "destructive"}
+                        >
+                          Last delivery {subscription.last_delivery_status}
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-xs font-mono text-muted-foreground truncate">{subscription.url}</p>
+                    <div className="flex flex-wrap gap-1">
+                      {(subscription.events || []).map((event) => (
+                        <Badge key={event} variant="outline" className="font-mono text-xs">
+                          {event}
+                        </Badge>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Secret <span className="font-mono">{subscription.secret}</span>
+                      {" · "}
+                      {subscription.last_delivery_at
+                        ? `Last delivery ${format(new Date(subscription.last_delivery_at), "MMM d, yyyy HH:mm")}`
+                        : "No deliveries yet"}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <Switch
+                      checked={subscription.is_active}
+                      onCheckedChange={(checked) => updateSubscription(subscription, { is_active: checked })}
+                      aria-label="Active"
+                    />
+                    <Button variant="ghost" size="icon" onClick={() => openEdit(subscription)} title="Edit">
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => handleRotate(subscription)} title="Rotate secret">
+                      <RefreshCw className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleDelete(subscription)}
+                      className="text-red-500 hover:text-red-600 hover:bg-red-500/10"
+                      title="Delete"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {newSecret ? "Copy Your Signing Secret" : editing ? "Edit Endpoint" : "Add Endpoint"}
+            </DialogTitle>
+            <DialogDescription>
+              {newSecret
+                ? "This is the only time the secret is shown. Use it to verify X-Webhook-Signature."
+                : "Choose where events are sent and which ones"}
+            </DialogDescription>
+          </DialogHeader>
+
+          {newSecret ? (
+            <div className="space-y-4">
+              <div className="flex items-center gap-2">
+                <code className="flex-1 rounded bg-muted px-3 py-2 font-mono text-xs break-all">{newSecret}</code>
+                <Button variant="outline" size="icon" onClick={copySecret}>
+                  {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                </Button>
+              </div>
+              <DialogFooter>
+                <Button onClick={() => setDialogOpen(false)}>Done</Button>
+              </DialogFooter>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="webhookName">Name</Label>
+                <Input
+                  id="webhookName"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g. CRM score sync"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="webhookUrl">Endpoint URL</Label>
+                <Input
+                  id="webhookUrl"
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                  placeholder="https://example.com/webhooks/kalyxi"
+                  className="font-mono text-sm"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Events</Label>
+                {eventOptions.map((option) => (
+                  <label key={option.type} className="flex items-start gap-3 rounded-lg border p-3 cursor-pointer">
+                    <Checkbox
+                      checked={events.includes(option.type)}
+                      onCheckedChange={(checked) => toggleEvent(option.type, checked === true)}
+                    />
+                    <div className="space-y-0.5">
+                      <p className="text-sm font-medium font-mono">{option.type}</p>
+                      <p className="text-xs text-muted-foreground">{option.description}</p>
+                    </div>
+                  </label>
+                ))}
+              </div>
+
+              {error && (
+                <div className="flex items-center gap-2 text-sm text-red-600">
+                  <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                  <span>{error}</span>
+                </div>
+              )}
+
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleSave}
+                  disabled={saving || !name.trim() || !url.trim() || events.length === 0}
+                >
+                  {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {editing ? "Save" : "Add Endpoint"}
+                </Button>
+              </DialogFooter>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -3,8 +3,10 @@
 import { useMemo } from "react";
 import {
   Criteria,
+  CriteriaGroup,
   Template,
   ScoreValue,
+  ScoringMethod,
   SessionScoreResult,
 } from "@/types/database";
 import {
@@ -25,6 +27,9 @@ interface UseScoringStateInput {
   template: Template;
   criteria: Criteria[];
   localScores: Map<string, LocalScore>;
+  groups?: CriteriaGroup[];
+  // Formula from the session's template snapshot (custom_formula templates)
+  formula?: string | null;
 }
 
 interface UseScoringStateReturn {
@@ -38,6 +43,7 @@ interface UseScoringStateReturn {
 
   // Real-time score preview
   projectedScore: SessionScoreResult | null;
+  scoringMethod: ScoringMethod;
   isPassing: boolean;
   passThreshold: number;
 
@@ -60,6 +66,8 @@ export function useScoringState({
   template,
   criteria,
   localScores,
+  groups,
+  formula,
 }: UseScoringStateInput): UseScoringStateReturn {
   return useMemo(() => {
     // Basic counts
@@ -128,6 +136,8 @@ export function useScoringState({
         template,
         criteria,
         scores: scoreInputs,
+        groups,
+        formula,
       });
     }
 
@@ -178,6 +188,7 @@ export function useScoringState({
 
       // Score preview
       projectedScore,
+      scoringMethod: template.scoring_method,
       isPassing,
       passThreshold,
 
@@ -195,5 +206,5 @@ export function useScoringState({
       nextUnscoredId,
       nextUnscoredRequiredId,
     };
-  }, [template, criteria, localScores]);
+  }, [template, criteria, localScores, groups, formula]);
 }
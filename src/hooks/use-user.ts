@@ -123,6 +123,7 @@ export function useUser(): UseUserReturn {
   }, [supabase, fetchUserData]);
 
   const signOut = async () => {
+    await fetch("/api/auth/2fa/challenge", { method: "DELETE" }).catch(() => undefined);
     await supabase.auth.signOut();
     setUser(null);
     setProfile(null);
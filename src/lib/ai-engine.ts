@@ -1,5 +1,18 @@
-import OpenAI from "openai";
 import { createAdminClient } from "@/lib/supabase/server";
+import { resolveLLMProvider, type LLMMessage, type LLMProvider } from "@/lib/llm";
+import {
+  buildLegacyAnalysisSchema,
+  buildRepairPrompt,
+  buildScorecardAnalysisSchema,
+  validateAnalysisOutput,
+} from "@/lib/analysis-schema";
+import { processTranscriptionJob } from "@/lib/transcription";
+import { applyComputedMetrics, describeCallMetrics } from "@/lib/call-metrics";
+import { runInsightTemplates } from "@/lib/insight-runner";
+import { emitWebhookEvent } from "@/lib/webhooks";
+import { notifyLowScore } from "@/lib/notifications";
+import { consumeUsage, releaseUsage, type UsageCheck } from "@/lib/usage";
+import { computeScriptAdherence, describeScript } from "@/lib/script-adherence";
 import {
   GradingCriterion,
   AnalysisResults,
@@ -8,19 +21,19 @@ import {
   ScorecardCriterion,
   Scorecard,
   CriterionScoreResult,
+  ProcessingQueueItem,
+  AnalysisValidationFailure,
+  CallSpeaker,
+  ComputedCallMetrics,
+  ScriptAdherenceResult,
+  ScriptSection,
 } from "@/types/database";
 
-// Lazy initialization to avoid build-time errors when OPENAI_API_KEY is not set
-let openaiClient: OpenAI | null = null;
+// First response plus up to two repair attempts
+const MAX_ANALYSIS_ATTEMPTS = 3;
 
-function getOpenAIClient(): OpenAI {
-  if (!openaiClient) {
-    openaiClient = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-  }
-  return openaiClient;
-}
+// Cap on the raw model output kept on failed analyses
+const MAX_STORED_RAW_RESPONSE = 20000;
 
 // Build dynamic prompt from grading criteria (legacy support)
 function buildAnalysisPrompt(criteria: GradingCriterion[]): string {
@@ -185,21 +198,88 @@ Return a JSON object with the following structure:
 Be thorough, specific, and constructive in your feedback. Focus on actionable insights.`;
 }
 
+// Tell the model who is who when the transcript has named speakers
+function buildSpeakerContext(speakers: CallSpeaker[] | undefined): string {
+  if (!speakers || speakers.length === 0) {
+    return "";
+  }
+
+  const rep = speakers.find((s) => s.is_rep);
+  const lines = speakers.map(
+    (s) => `- ${s.name}${s.is_rep ? " (rep being evaluated)" : ""}`
+  );
+
+  return `## Participants:
+${lines.join("\n")}
+${rep ? `\nEvaluate ${rep.name}'s performance. In callMetrics, talkRatio is ${rep.name}'s share of the talk time.\n` : ""}
+`;
+}
+
+export interface AnalyzeCallOptions {
+  // Use this provider instead of the org's configured one (tests)
+  provider?: LLMProvider;
+  model?: string;
+  // Named speakers from the transcript (calls.metadata.speakers)
+  speakers?: CallSpeaker[];
+  // Metrics computed from transcript timestamps (calls.metadata.call_metrics)
+  callMetrics?: ComputedCallMetrics | null;
+}
+
+// Replace a call's stored script adherence (removed when there's no script
+// or nothing to score)
+async function saveScriptAdherence(
+  supabase: ReturnType<typeof createAdminClient>,
+  callId: string,
+  orgId: string,
+  script: { id: string; name: string; version: number } | null,
+  adherence: ScriptAdherenceResult | null
+): Promise<void> {
+  if (!script || !adherence) {
+    await supabase.from("call_script_adherence").delete().eq("call_id", callId);
+    return;
+  }
+
+  const { error } = await supabase.from("call_script_adherence").upsert(
+    {
+      org_id: orgId,
+      call_id: callId,
+      script_id: script.id,
+      script_name: script.name,
+      script_version: script.version,
+      ...adherence,
+    },
+    { onConflict: "call_id" }
+  );
+
+  if (error) {
+    console.error("Failed to save script adherence:", error);
+  }
+}
+
 // Analyze a single call
 export async function analyzeCall(
   callId: string,
   rawNotes: string,
-  orgId: string
+  orgId: string,
+  options: AnalyzeCallOptions = {}
 ): Promise<{
   success: boolean;
   analysis?: AnalysisResults;
+  model?: string;
   scorecard?: Scorecard;
+  scriptAdherence?: ScriptAdherenceResult | null;
   processingTimeMs?: number;
   tokenUsage?: { prompt: number; completion: number; total: number };
+  // Responses rejected before a valid one (or all of them, on failure)
+  validationErrors?: AnalysisValidationFailure[];
+  // Set when the org's plan has no AI analyses left
+  limitExceeded?: UsageCheck;
   error?: string;
 }> {
   const startTime = Date.now();
   const supabase = createAdminClient();
+  // Set once an analysis is counted, so a run that produces none gives it back
+  let metered = false;
 
   try {
     // Get organization settings
@@ -210,7 +290,9 @@ export async function analyzeCall(
       .single();
 
     const settings = org?.settings_json as OrgSettings | null;
-    const model = settings?.ai?.model || "gpt-4o";
+    const resolved = options.provider
+      ? { provider: options.provider, model: options.model || settings?.ai?.model || "gpt-4o" }
+      : resolveLLMProvider(settings?.ai);
     const temperature = settings?.ai?.temperature || 0.3;
     const customPrefix = settings?.ai?.customPromptPrefix || "";
 
@@ -223,6 +305,16 @@ export async function analyzeCall(
       .eq("is_default", true)
       .single();
 
+    // Default active script, scored for adherence after analysis
+    const { data: script } = await supabase
+      .from("scripts")
+      .select("id, name, version, sections")
+      .eq("org_id", orgId)
+      .eq("status", "active")
+      .eq("is_default", true)
+      .maybeSingle();
+    const scriptSections = (script?.sections as ScriptSection[] | undefined) || [];
+
     let systemPrompt: string;
     let scorecardCriteria: ScorecardCriterion[] | null = null;
     let legacyCriteria: GradingCriterion[] | null = null;
@@ -249,27 +341,97 @@ export async function analyzeCall(
       systemPrompt = buildAnalysisPrompt(legacyCriteria);
     }
 
-    // Call OpenAI
-    const response = await getOpenAIClient().chat.completions.create({
-      model,
-      messages: [
-        { role: "system", content: systemPrompt },
-        {
-          role: "user",
-          content: `${customPrefix ? customPrefix + "\n\n" : ""}## Call Notes/Transcription:\n${rawNotes}`,
-        },
-      ],
-      response_format: { type: "json_object" },
-      temperature,
-      max_tokens: 4096,
-    });
+    const schema = scorecardCriteria
+      ? buildScorecardAnalysisSchema(scorecardCriteria)
+      : buildLegacyAnalysisSchema(legacyCriteria!);
+    const criterionIds = (scorecardCriteria || legacyCriteria!).map((c) => c.id);
 
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      return { success: false, error: "No response from AI" };
+    // One analysis however many repair attempts it takes
+    const usage = await consumeUsage(orgId, "ai_analyses_count");
+    if (!usage.allowed) {
+      return { success: false, error: usage.error, limitExceeded: usage };
     }
+    metered = true;
+
+    const messages: LLMMessage[] = [
+      { role: "system", content: systemPrompt },
+      {
+        role: "user",
+        content: `${customPrefix ? customPrefix + "\n\n" : ""}${buildSpeakerContext(options.speakers)}${script ? describeScript(script.name, scriptSections) : ""}${options.callMetrics ? describeCallMetrics(options.callMetrics) + "\n" : ""}## Call Notes/Transcription:\n${rawNotes}`,
+      },
+    ];
+
+    let analysisResults: AnalysisResults | null = null;
+    let model = resolved.model;
+    let lastContent = "";
+    const tokenUsage = { prompt: 0, completion: 0, total: 0 };
+    const validationErrors: AnalysisValidationFailure[] = [];
+
+    // Call the org's configured LLM provider, asking it to repair invalid output
+    for (let attempt = 1; attempt <= MAX_ANALYSIS_ATTEMPTS; attempt++) {
+      const response = await resolved.provider.complete({
+        model: resolved.model,
+        messages,
+        jsonMode: true,
+        temperature,
+        maxTokens: 4096,
+      });
+
+      model = response.model;
+      lastContent = response.content;
+      tokenUsage.prompt += response.usage.prompt;
+      tokenUsage.completion += response.usage.completion;
+      tokenUsage.total += response.usage.total;
+
+      const validation = validateAnalysisOutput(response.content, schema);
+      if (validation.success) {
+        // Measured metrics win over the model's estimates
+        analysisResults = applyComputedMetrics(validation.data, options.callMetrics);
+        break;
+      }
 
-    const analysisResults = JSON.parse(content) as AnalysisResults;
+      console.warn(
+        `[AI Engine] Invalid analysis output for call ${callId} (attempt ${attempt}/${MAX_ANALYSIS_ATTEMPTS}):`,
+        validation.issues
+      );
+      validationErrors.push({
+        attempt,
+        model: response.model,
+        issues: validation.issues,
+        at: new Date().toISOString(),
+      });
+
+      messages.push(
+        { role: "assistant", content: response.content },
+        { role: "user", content: buildRepairPrompt(validation.issues, criterionIds) }
+      );
+    }
+
+    if (!analysisResults) {
+      const lastIssues = validationErrors[validationErrors.length - 1]?.issues || [];
+      const error = `AI output failed validation after ${MAX_ANALYSIS_ATTEMPTS} attempts: ${lastIssues.slice(0, 3).join("; ")}`;
+
+      // Keep the failed run so model drift shows up in analyses
+      const { error: recordError } = await supabase.from("analyses").insert({
+        call_id: callId,
+        ai_model: model,
+        status: "failed",
+        grading_results_json: { rawResponse: lastContent.slice(0, MAX_STORED_RAW_RESPONSE) },
+        overall_score: null,
+        composite_score: null,
+        processing_time_ms: Date.now() - startTime,
+        token_usage: tokenUsage,
+        error_message: error,
+        validation_attempts: validationErrors.length,
+        validation_errors: validationErrors,
+      });
+      if (recordError) {
+        console.error("Failed to record failed analysis:", recordError);
+      }
+
+      await releaseUsage(orgId, "ai_analyses_count");
+      return { success: false, error, model, tokenUsage, validationErrors };
+    }
 
     // Calculate composite score from weighted criteria
     let weightedSum = 0;
@@ -313,22 +475,30 @@ export async function analyzeCall(
       analysisResults.compositeScore = Math.round(weightedSum / totalWeight);
     }
 
+    const scriptAdherence = script
+      ? computeScriptAdherence(scriptSections, rawNotes, {
+          repName: options.speakers?.find((s) => s.is_rep)?.name,
+        })
+      : null;
+    await saveScriptAdherence(supabase, callId, orgId, script, scriptAdherence);
+
     const processingTimeMs = Date.now() - startTime;
-    const tokenUsage = {
-      prompt: response.usage?.prompt_tokens || 0,
-      completion: response.usage?.completion_tokens || 0,
-      total: response.usage?.total_tokens || 0,
-    };
 
     return {
       success: true,
       analysis: analysisResults,
+      model,
       scorecard: scorecard || undefined,
+      scriptAdherence,
       processingTimeMs,
       tokenUsage,
+      validationErrors,
     };
   } catch (error) {
     console.error("AI analysis error:", error);
+    if (metered) {
+      await releaseUsage(orgId, "ai_analyses_count");
+    }
     return {
       success: false,
       error: error instanceof Error ? error.message : "Analysis failed",
@@ -336,8 +506,14 @@ export async function analyzeCall(
   }
 }
 
+// How long a call held back by the org's plan waits before it's tried again,
+// so an upgrade or a new usage period picks it up
+const PLAN_LIMIT_RECHECK_MS = 60 * 60 * 1000;
+
+export type QueuedCallOutcome = "analyzed" | "failed" | "deferred";
+
 // Process a call from the queue
-export async function processQueuedCall(queueItemId: string): Promise<boolean> {
+export async function processQueuedCall(queueItemId: string): Promise<QueuedCallOutcome> {
   const supabase = createAdminClient();
 
   // Get queue item
@@ -349,7 +525,7 @@ export async function processQueuedCall(queueItemId: string): Promise<boolean> {
 
   if (queueError || !queueItem) {
     console.error("Queue item not found:", queueItemId);
-    return false;
+    return "failed";
   }
 
   // Update status to processing
@@ -365,10 +541,42 @@ export async function processQueuedCall(queueItemId: string): Promise<boolean> {
     .eq("id", queueItem.call_id);
 
   try {
-    const call = queueItem.call as { id: string; raw_notes: string; org_id: string };
+    const call = queueItem.call as {
+      id: string;
+      raw_notes: string;
+      transcription?: string;
+      org_id: string;
+      caller_id: string | null;
+      metadata?: { speakers?: CallSpeaker[]; call_metrics?: ComputedCallMetrics | null } | null;
+    };
+
+    // Run analysis (transcripts of uploaded recordings take precedence over notes)
+    const result = await analyzeCall(call.id, call.transcription || call.raw_notes, call.org_id, {
+      speakers: call.metadata?.speakers,
+      callMetrics: call.metadata?.call_metrics,
+    });
+
+    // Out of analyses on the plan: not the call's fault, so hold it back
+    // without spending an attempt or failing it
+    if (result.limitExceeded) {
+      await supabase
+        .from("processing_queue")
+        .update({
+          status: "queued",
+          started_at: null,
+          locked_by: null,
+          last_error: result.error || "Plan limit reached",
+          scheduled_at: new Date(Date.now() + PLAN_LIMIT_RECHECK_MS).toISOString(),
+        })
+        .eq("id", queueItemId);
 
-    // Run analysis
-    const result = await analyzeCall(call.id, call.raw_notes, call.org_id);
+      await supabase
+        .from("calls")
+        .update({ status: "pending" })
+        .eq("id", call.id);
+
+      return "deferred";
+    }
 
     if (!result.success || !result.analysis) {
       throw new Error(result.error || "Analysis failed");
@@ -379,8 +587,10 @@ export async function processQueuedCall(queueItemId: string): Promise<boolean> {
       .from("analyses")
       .insert({
         call_id: call.id,
-        ai_model: "gpt-4o",
+        ai_model: result.model || "unknown",
         grading_results_json: result.analysis,
+        validation_attempts: (result.validationErrors?.length || 0) + 1,
+        validation_errors: result.validationErrors || [],
         overall_score: result.analysis.overallScore,
         composite_score: result.analysis.compositeScore,
         processing_time_ms: result.processingTimeMs,
@@ -390,6 +600,8 @@ export async function processQueuedCall(queueItemId: string): Promise<boolean> {
       .single();
 
     if (analysisError) {
+      // The retry will count it again
+      await releaseUsage(call.org_id, "ai_analyses_count");
       throw new Error("Failed to save analysis");
     }
 
@@ -453,15 +665,40 @@ export async function processQueuedCall(queueItemId: string): Promise<boolean> {
       .update({ status: "analyzed" })
       .eq("id", call.id);
 
+    // Insight templates run on the finished analysis; a failure here
+    // shouldn't send the call back through the queue
+    try {
+      await runInsightTemplates(call.id);
+    } catch (insightError) {
+      console.error("Insight generation error:", insightError);
+    }
+
+    await emitWebhookEvent(call.org_id, "call.analyzed", {
+      call_id: call.id,
+      caller_id: call.caller_id,
+      analysis_id: analysis.id,
+      overall_score: result.analysis.overallScore,
+      composite_score: result.analysis.compositeScore,
+    });
+
+    await notifyLowScore({
+      callId: call.id,
+      analysisId: analysis.id,
+      score: result.analysis.overallScore,
+      summary: result.analysis.executiveSummary,
+      improvements: result.analysis.improvements,
+    });
+
     await supabase
       .from("processing_queue")
       .update({
         status: "completed",
         completed_at: new Date().toISOString(),
+        locked_by: null,
       })
       .eq("id", queueItemId);
 
-    return true;
+    return "analyzed";
   } catch (error) {
     console.error("Queue processing error:", error);
 
@@ -475,6 +712,7 @@ export async function processQueuedCall(queueItemId: string): Promise<boolean> {
         .update({
           status: "failed",
           attempts: newAttempts,
+          locked_by: null,
           last_error: error instanceof Error ? error.message : "Unknown error",
         })
         .eq("id", queueItemId);
@@ -483,6 +721,12 @@ export async function processQueuedCall(queueItemId: string): Promise<boolean> {
         .from("calls")
         .update({ status: "failed" })
         .eq("id", queueItem.call_id);
+
+      await emitWebhookEvent(queueItem.org_id, "call.failed", {
+        call_id: queueItem.call_id,
+        error: error instanceof Error ? error.message : "Unknown error",
+        attempts: newAttempts,
+      });
     } else {
       // Schedule retry with exponential backoff
       const retryDelay = Math.pow(2, newAttempts) * 60000; // 2^n minutes
@@ -491,6 +735,7 @@ export async function processQueuedCall(queueItemId: string): Promise<boolean> {
         .update({
           status: "queued",
           attempts: newAttempts,
+          locked_by: null,
           last_error: error instanceof Error ? error.message : "Unknown error",
           scheduled_at: new Date(Date.now() + retryDelay).toISOString(),
         })
@@ -502,7 +747,7 @@ export async function processQueuedCall(queueItemId: string): Promise<boolean> {
         .eq("id", queueItem.call_id);
     }
 
-    return false;
+    return "failed";
   }
 }
 
@@ -568,29 +813,127 @@ function generateReport(
   };
 }
 
+export interface ProcessQueueOptions {
+  maxItems?: number;
+  maxPerOrg?: number;
+  workerId?: string;
+  deadline?: number; // Epoch ms after which no new items are started
+}
+
+export interface ProcessQueueResult {
+  claimed: number;
+  processed: number;
+  failed: number;
+  // Held back by the org's plan limits, not failed
+  deferred: number;
+  released: number;
+}
+
+// Default cap on concurrently processing items per organization
+const DEFAULT_MAX_PER_ORG = parseInt(process.env.QUEUE_MAX_CONCURRENT_PER_ORG || "2", 10);
+
+// Items left in "processing" longer than this are considered abandoned
+const STUCK_ITEM_TIMEOUT_SECONDS = 15 * 60;
+
 // Process pending queue items (called by cron or background job)
-export async function processQueue(maxItems: number = 10): Promise<number> {
+export async function processQueue(
+  options: ProcessQueueOptions = {}
+): Promise<ProcessQueueResult> {
+  const {
+    maxItems = 10,
+    maxPerOrg = DEFAULT_MAX_PER_ORG,
+    workerId = `worker-${crypto.randomUUID()}`,
+    deadline,
+  } = options;
   const supabase = createAdminClient();
+  const result: ProcessQueueResult = { claimed: 0, processed: 0, failed: 0, deferred: 0, released: 0 };
+
+  // Claim due items; rows are locked and moved to "processing" in one statement
+  const { data: items, error } = await supabase.rpc("claim_processing_queue_items", {
+    p_worker_id: workerId,
+    p_max_items: maxItems,
+    p_max_per_org: maxPerOrg,
+  });
+
+  if (error) {
+    console.error("Queue claim error:", error);
+    return result;
+  }
 
-  // Get pending items
-  const { data: items, error } = await supabase
-    .from("processing_queue")
-    .select("id")
-    .eq("status", "queued")
-    .lte("scheduled_at", new Date().toISOString())
-    .order("priority", { ascending: false })
-    .order("scheduled_at", { ascending: true })
-    .limit(maxItems);
-
-  if (error || !items || items.length === 0) {
-    return 0;
+  const claimedItems = (items || []) as ProcessingQueueItem[];
+  result.claimed = claimedItems.length;
+
+  for (const item of claimedItems) {
+    // Out of time: hand the item back instead of leaving it for the reaper
+    if (deadline && Date.now() > deadline) {
+      await supabase
+        .from("processing_queue")
+        .update({ status: "queued", started_at: null, locked_by: null })
+        .eq("id", item.id)
+        .eq("locked_by", workerId);
+      result.released++;
+      continue;
+    }
+
+    if (item.job_type === "transcription") {
+      if (await processTranscriptionJob(item.id)) {
+        result.processed++;
+      } else {
+        result.failed++;
+      }
+      continue;
+    }
+
+    const outcome = await processQueuedCall(item.id);
+    if (outcome === "analyzed") {
+      result.processed++;
+    } else if (outcome === "deferred") {
+      result.deferred++;
+    } else {
+      result.failed++;
+    }
   }
 
-  let processed = 0;
-  for (const item of items) {
-    const success = await processQueuedCall(item.id);
-    if (success) processed++;
+  return result;
+}
+
+// Requeue (or fail) items whose runner died mid-processing
+export async function reapStuckQueueItems(
+  staleAfterSeconds: number = STUCK_ITEM_TIMEOUT_SECONDS
+): Promise<{ requeued: number; failed: number }> {
+  const supabase = createAdminClient();
+
+  const { data: reaped, error } = await supabase.rpc("reap_stuck_processing_queue_items", {
+    p_stale_after_seconds: staleAfterSeconds,
+  });
+
+  if (error) {
+    console.error("Queue reaper error:", error);
+    return { requeued: 0, failed: 0 };
+  }
+
+  const rows = (reaped || []) as { id: string; call_id: string; status: "queued" | "failed" }[];
+  const failedCallIds = rows.filter((r) => r.status === "failed").map((r) => r.call_id);
+  const requeuedCallIds = rows.filter((r) => r.status === "queued").map((r) => r.call_id);
+
+  // Keep call status in step with the queue
+  if (failedCallIds.length > 0) {
+    const { data: failedCalls } = await supabase
+      .from("calls")
+      .update({ status: "failed" })
+      .in("id", failedCallIds)
+      .select("id, org_id");
+
+    for (const call of (failedCalls || []) as { id: string; org_id: string }[]) {
+      await emitWebhookEvent(call.org_id, "call.failed", {
+        call_id: call.id,
+        error: "Processing timed out",
+      });
+    }
+  }
+  if (requeuedCallIds.length > 0) {
+    await supabase.from("calls").update({ status: "pending" }).in("id", requeuedCallIds);
   }
 
-  return processed;
+  return { requeued: requeuedCallIds.length, failed: failedCallIds.length };
 }
@@ -0,0 +1,199 @@
+/**
+ * Analysis Output Schemas
+ *
+ * Builds zod schemas for model output from the criteria the model was asked
+ * to score, so missing criteria, out-of-range scores and invented criterion
+ * IDs are caught before they reach compositeScore or call_score_results.
+ */
+
+import { z } from "zod";
+import type {
+  AnalysisResults,
+  CriterionScoreResult,
+  GradingCriterion,
+  ScorecardCriterion,
+} from "@/types/database";
+
+// Keeps repair prompts short when a response is badly off
+const MAX_REPORTED_ISSUES = 15;
+
+const stringList = z.array(z.string()).default([]);
+
+/**
+ * Fields shared by scorecard and legacy analysis output
+ */
+const baseAnalysisShape = {
+  overallScore: z.number().min(0).max(100),
+  compositeScore: z.number().min(0).max(100).optional(),
+  strengths: z.array(z.string()),
+  improvements: z.array(z.string()),
+  executiveSummary: z.string().min(1),
+  actionItems: stringList,
+  objections: z
+    .array(
+      z.object({
+        objection: z.string(),
+        response: z.string(),
+        effectiveness: z.number().min(1).max(10),
+      })
+    )
+    .default([]),
+  gatekeeperDetected: z.boolean().optional(),
+  gatekeeperHandling: z.string().optional(),
+  competitorMentions: stringList,
+  sentiment: z
+    .object({
+      overall: z.enum(["positive", "neutral", "negative"]),
+      score: z.number().min(-1).max(1),
+      progression: z
+        .array(z.object({ timestamp: z.number(), sentiment: z.number() }))
+        .default([]),
+    })
+    .default({ overall: "neutral", score: 0, progression: [] }),
+  callMetrics: z
+    .object({
+      talkRatio: z.number().min(0).max(1),
+      questionCount: z.number().min(0),
+      interruptionCount: z.number().min(0),
+      silenceDuration: z.number().min(0),
+    })
+    .default({ talkRatio: 0, questionCount: 0, interruptionCount: 0, silenceDuration: 0 }),
+  recommendations: stringList,
+};
+
+/**
+ * Schema for one gradingResults entry restricted to known criterion IDs
+ */
+function gradingResultSchema(criterionIds: string[]) {
+  return z.object({
+    criterionId: z.string().refine((id) => criterionIds.includes(id), {
+      message: `Unknown criterion ID (expected one of: ${criterionIds.join(", ")})`,
+    }),
+    criterionName: z.string(),
+    type: z.enum(["score", "text", "checklist", "boolean", "percentage"]).default("score"),
+    value: z.union([z.number(), z.string(), z.boolean(), z.array(z.string())]),
+    score: z.number().min(0).max(100).optional(),
+    feedback: z.string().optional(),
+    confidence: z.number().min(0).max(1).optional(),
+  });
+}
+
+/**
+ * Schema for a single scorecard criterion's result. Name, max_score and
+ * weight come from the scorecard, not the model, and weighted_score is
+ * recomputed from them.
+ */
+export function buildCriterionScoreSchema(criterion: ScorecardCriterion) {
+  return z
+    .object({
+      name: z.string().optional(),
+      score: z.number().min(0).max(criterion.max_score),
+      max_score: z.number().optional(),
+      weight: z.number().optional(),
+      weighted_score: z.number().optional(),
+      feedback: z.string().optional(),
+      highlights: z.array(z.string()).optional(),
+      improvements: z.array(z.string()).optional(),
+    })
+    .transform(
+      (result): CriterionScoreResult => ({
+        ...result,
+        name: criterion.name,
+        max_score: criterion.max_score,
+        weight: criterion.weight,
+        weighted_score:
+          criterion.max_score > 0 ? (result.score / criterion.max_score) * criterion.weight : 0,
+      })
+    );
+}
+
+/**
+ * Schema for analysis output scored against a scorecard. Every criterion
+ * must be present in criteriaScores and no other keys are allowed.
+ */
+export function buildScorecardAnalysisSchema(criteria: ScorecardCriterion[]) {
+  const criteriaShape: Record<string, ReturnType<typeof buildCriterionScoreSchema>> = {};
+  for (const criterion of criteria) {
+    criteriaShape[criterion.id] = buildCriterionScoreSchema(criterion);
+  }
+
+  return z.object({
+    ...baseAnalysisShape,
+    criteriaScores: z.strictObject(criteriaShape),
+    gradingResults: z.array(gradingResultSchema(criteria.map((c) => c.id))).default([]),
+  });
+}
+
+/**
+ * Schema for analysis output scored against a legacy grading template.
+ * Required criteria must appear in gradingResults.
+ */
+export function buildLegacyAnalysisSchema(criteria: GradingCriterion[]) {
+  const requiredIds = criteria.filter((c) => c.isRequired).map((c) => c.id);
+
+  return z.object({
+    ...baseAnalysisShape,
+    gradingResults: z
+      .array(gradingResultSchema(criteria.map((c) => c.id)))
+      .superRefine((results, ctx) => {
+        const seen = new Set(results.map((r) => r.criterionId));
+        for (const id of requiredIds) {
+          if (!seen.has(id)) {
+            ctx.addIssue({ code: "custom", message: `Missing result for required criterion "${id}"` });
+          }
+        }
+      }),
+  });
+}
+
+export type AnalysisSchema =
+  | ReturnType<typeof buildScorecardAnalysisSchema>
+  | ReturnType<typeof buildLegacyAnalysisSchema>;
+
+/**
+ * Parse and validate raw model output.
+ *
+ * @returns The validated analysis, or a list of human-readable issues
+ */
+export function validateAnalysisOutput(
+  content: string,
+  schema: AnalysisSchema
+): { success: true; data: AnalysisResults } | { success: false; issues: string[] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return { success: false, issues: ["Response is not valid JSON"] };
+  }
+
+  const result = schema.safeParse(parsed);
+  if (!result.success) {
+    const issues = result.error.issues.slice(0, MAX_REPORTED_ISSUES).map((issue) => {
+      const path = issue.path.map(String).join(".");
+      return path ? `${path}: ${issue.message}` : issue.message;
+    });
+    return { success: false, issues };
+  }
+
+  return {
+    success: true,
+    data: {
+      ...result.data,
+      compositeScore: result.data.compositeScore ?? result.data.overallScore,
+    } as AnalysisResults,
+  };
+}
+
+/**
+ * Follow-up prompt asking the model to fix only what failed validation
+ *
+ * @param issues - Issues returned by validateAnalysisOutput
+ * @param criterionIds - The criterion IDs the response must use
+ */
+export function buildRepairPrompt(issues: string[], criterionIds: string[]): string {
+  return `Your previous response did not match the required JSON structure. Fix these problems:
+${issues.map((issue) => `- ${issue}`).join("\n")}
+
+Use exactly these criterion IDs and no others: ${criterionIds.join(", ")}.
+Keep every score within its criterion's range. Return the complete corrected JSON object only.`;
+}
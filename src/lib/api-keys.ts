@@ -0,0 +1,85 @@
+/**
+ * Org API Keys
+ *
+ * Keys look like `klx_<43 base64url chars>`. Only a SHA-256 digest and the
+ * first characters (for display) are stored. Uses Web Crypto so middleware
+ * can recognise keys as well as route handlers.
+ */
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const API_KEY_PREFIX = "klx_";
+
+// Stored in api_keys.key_prefix (VARCHAR(10)) so admins can tell keys apart
+const DISPLAY_PREFIX_LENGTH = 10;
+
+export const API_KEY_SCOPES = [
+  { scope: "calls:read", label: "Read calls", description: "List calls and their analyses" },
+  { scope: "calls:write", label: "Create calls", description: "Submit calls for analysis" },
+  { scope: "sessions:read", label: "Read sessions", description: "List coaching sessions and scores" },
+  { scope: "analytics:read", label: "Read analytics", description: "Dashboard, team and leaderboard analytics" },
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number]["scope"];
+
+// Keys issued before scopes existed carry the old ["read", "write"] default
+const LEGACY_SCOPES = ["read", "write"];
+
+// ============================================================================
+// KEYS
+// ============================================================================
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/**
+ * Whether a bearer token is an org API key rather than a Supabase JWT
+ */
+export function isApiKeyFormat(token: string | null | undefined): token is string {
+  return typeof token === "string" && /^klx_[A-Za-z0-9_-]{43}$/.test(token);
+}
+
+export async function hashApiKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(key));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * New key. The plain key is shown to the admin once and never stored.
+ */
+export async function generateApiKey(): Promise<{ key: string; prefix: string; hash: string }> {
+  const key = `${API_KEY_PREFIX}${toBase64Url(crypto.getRandomValues(new Uint8Array(32)))}`;
+  return {
+    key,
+    prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    hash: await hashApiKey(key),
+  };
+}
+
+// ============================================================================
+// SCOPES
+// ============================================================================
+
+export function isApiKeyScope(scope: string): scope is ApiKeyScope {
+  return API_KEY_SCOPES.some((s) => s.scope === scope);
+}
+
+/**
+ * Whether granted scopes cover the required one. Legacy "read"/"write"
+ * grants cover that action on every resource.
+ */
+export function hasScope(granted: unknown, required: ApiKeyScope): boolean {
+  if (!Array.isArray(granted)) return false;
+
+  const action = required.split(":")[1];
+  return granted.some(
+    (scope) => scope === required || (LEGACY_SCOPES.includes(scope) && scope === action)
+  );
+}
@@ -1,6 +1,11 @@
-import { createClient, createClientWithToken } from "@/lib/supabase/server";
+import { createClient, createClientWithToken, createAdminClient } from "@/lib/supabase/server";
 import { NextResponse } from "next/server";
+import { headers } from "next/headers";
 import { User, UserRole } from "@/types/database";
+import { hashApiKey, hasScope, isApiKeyFormat, type ApiKeyScope } from "@/lib/api-keys";
+import { getOrgPlanLimits } from "@/lib/plan-limits";
+import { consumeUsage, type UsageCheck } from "@/lib/usage";
+import { checkRateLimit, addRateLimitHeaders, RATE_LIMITS } from "@/lib/rate-limiter";
 
 // Standard API response types
 export interface ApiResponse<T = unknown> {
@@ -129,6 +134,140 @@ export async function requireSuperadmin() {
   return requireRole(["superadmin"]);
 }
 
+// API key used for the current request
+export interface ApiKeyContext {
+  id: string;
+  name: string;
+  scopes: string[];
+}
+
+function apiKeyError(status: number, error: string, message: string, code: string) {
+  return NextResponse.json({ error, message, code }, { status });
+}
+
+/**
+ * 402 for a request refused by consumeUsage
+ */
+export function planLimitResponse(check: UsageCheck) {
+  return NextResponse.json(
+    {
+      error: "Payment Required",
+      message: check.error,
+      code: "PLAN_LIMIT_EXCEEDED",
+      metric: check.metric,
+      limit: check.limit,
+      used: check.used,
+    },
+    { status: 402 }
+  );
+}
+
+/**
+ * Authenticate a session user or an org API key.
+ *
+ * Session users get the normal cookie/JWT client. API keys must carry the
+ * given scope and act as the admin who issued them, through a service-role
+ * client, so routes using this must filter every query by orgId.
+ */
+export async function requireAuthOrApiKey(scope: ApiKeyScope, allowedRoles?: UserRole[]) {
+  const headerStore = await headers();
+  const token = headerStore.get("authorization")?.replace(/^Bearer /, "");
+
+  if (!isApiKeyFormat(token)) {
+    const { user, orgId, role, response } = allowedRoles
+      ? await requireRole(allowedRoles)
+      : await requireAuth();
+    if (response) {
+      return { user: null, orgId: null, role: null, apiKey: null, supabase: null, response };
+    }
+    return { user, orgId, role, apiKey: null, supabase: await createClient(), response: null };
+  }
+
+  const fail = (response: NextResponse) => ({
+    user: null,
+    orgId: null,
+    role: null,
+    apiKey: null,
+    supabase: null,
+    response,
+  });
+
+  const admin = createAdminClient();
+
+  const { data: key } = await admin
+    .from("api_keys")
+    .select("id, org_id, name, scopes, expires_at, is_active, created_by, rate_limit_per_minute")
+    .eq("key_hash", await hashApiKey(token))
+    .maybeSingle();
+
+  if (!key || !key.is_active || (key.expires_at && new Date(key.expires_at) <= new Date())) {
+    return fail(apiKeyError(401, "Unauthorized", "Invalid, revoked or expired API key", "INVALID_API_KEY"));
+  }
+
+  const limits = await getOrgPlanLimits(key.org_id, admin);
+  if (!limits.api_access_enabled) {
+    return fail(
+      apiKeyError(403, "Forbidden", "API access is not available on your plan", "API_ACCESS_DISABLED")
+    );
+  }
+
+  if (!hasScope(key.scopes, scope)) {
+    return fail(apiKeyError(403, "Forbidden", `API key is missing the ${scope} scope`, "INSUFFICIENT_SCOPE"));
+  }
+
+  const rateLimit = await checkRateLimit(
+    `apikey:${key.id}`,
+    key.rate_limit_per_minute ?? RATE_LIMITS.apiKey.limit,
+    RATE_LIMITS.apiKey.windowMs
+  );
+
+  if (!rateLimit.allowed) {
+    const response = apiKeyError(429, "Too Many Requests", "API key rate limit exceeded", "RATE_LIMITED");
+    addRateLimitHeaders(response.headers, rateLimit);
+    return fail(response);
+  }
+
+  // The key acts as its issuer; keys stop working when the issuer leaves
+  const { data: issuer } = await admin
+    .from("users")
+    .select("*")
+    .eq("id", key.created_by)
+    .maybeSingle();
+
+  if (!issuer || issuer.org_id !== key.org_id || issuer.is_active === false) {
+    return fail(apiKeyError(401, "Unauthorized", "API key issuer is no longer active", "INVALID_API_KEY"));
+  }
+
+  // Keys are org-scoped even when a superadmin issued them
+  const keyRole: UserRole = issuer.role === "superadmin" ? "admin" : (issuer.role as UserRole);
+
+  if (allowedRoles && !allowedRoles.includes(keyRole)) {
+    return fail(NextResponse.json({ error: "Forbidden" }, { status: 403 }));
+  }
+
+  const usage = await consumeUsage(key.org_id, "api_calls_count");
+  if (!usage.allowed) {
+    return fail(planLimitResponse(usage));
+  }
+
+  const { error: touchError } = await admin
+    .from("api_keys")
+    .update({ last_used_at: new Date().toISOString() })
+    .eq("id", key.id);
+  if (touchError) {
+    console.error("Failed to record API key usage:", touchError);
+  }
+
+  return {
+    user: issuer as User,
+    orgId: key.org_id as string,
+    role: keyRole,
+    apiKey: { id: key.id, name: key.name, scopes: (key.scopes as string[]) || [] } as ApiKeyContext,
+    supabase: admin,
+    response: null,
+  };
+}
+
 // Re-export rate limiting from dedicated module
 // Uses Redis if REDIS_URL is configured, otherwise falls back to in-memory
 export {
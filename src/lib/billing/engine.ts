@@ -0,0 +1,632 @@
+/**
+ * Billing Engine
+ *
+ * Ties the payment provider to organizations:
+ * - Plan changes: a first paid plan goes through hosted checkout; an org
+ *   with a subscription is moved to the new price straight away and
+ *   invoiced the prorated difference; choosing Free cancels at period end
+ * - Webhooks: every event is recorded in billing_events (so a redelivery is
+ *   applied once) and mirrored onto the org: plan, status, period, and
+ *   plan_limits from PLAN_LIMITS. Invoices are kept in billing_invoices.
+ * - Dunning: a failed payment puts the org in "grace" with its plan intact;
+ *   after DUNNING_RESTRICT_DAYS it is restricted to free-tier limits, and
+ *   after DUNNING_CANCEL_DAYS the subscription is canceled. Paying the
+ *   invoice restores the plan at any point before that.
+ *
+ * The current_period_* columns set here are also the usage period that
+ * org_usage counts against (see migration 025).
+ */
+
+import { createAdminClient } from "@/lib/supabase/server";
+import { PLAN_LIMITS } from "@/lib/plan-limits";
+import type { PlanLimits, PlanTier } from "@/types/analytics";
+import type { DunningState, SubscriptionStatus } from "@/types/database";
+import { createBillingProvider, getAppUrl } from "./provider";
+import { LocalBillingProvider } from "./local";
+import type {
+  BillingEvent,
+  BillingInterval,
+  BillingInvoiceData,
+  BillingPrice,
+  BillingProvider,
+  BillingProviderName,
+  BillingSubscription,
+  ProrationPreview,
+} from "./types";
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+export const DUNNING_RESTRICT_DAYS = 7;
+export const DUNNING_CANCEL_DAYS = 21;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A plan change the org can't make; `status` is the HTTP status to answer with
+ */
+export class BillingError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number = 400
+  ) {
+    super(message);
+    this.name = "BillingError";
+  }
+}
+
+// ============================================================================
+// PLAN STATE
+// ============================================================================
+
+/**
+ * The limits an org gets for its plan in its current billing state. Without
+ * a paying subscription (canceled, paused, or restricted by dunning) that is
+ * the free tier, whatever plan it is on.
+ */
+export function resolveBillingLimits(
+  plan: PlanTier,
+  status: SubscriptionStatus | null,
+  dunningState: DunningState
+): PlanLimits {
+  if (status === "canceled" || status === "paused" || dunningState === "restricted") {
+    return PLAN_LIMITS.free;
+  }
+  return PLAN_LIMITS[plan] || PLAN_LIMITS.free;
+}
+
+/**
+ * Where an org in arrears should be, given when its payment first failed
+ */
+export function nextDunningState(pastDueSince: Date, now: Date = new Date()): { state: DunningState; cancel: boolean } {
+  const days = (now.getTime() - pastDueSince.getTime()) / DAY_MS;
+  return {
+    state: days >= DUNNING_RESTRICT_DAYS ? "restricted" : "grace",
+    cancel: days >= DUNNING_CANCEL_DAYS,
+  };
+}
+
+export interface OrgBilling {
+  id: string;
+  name: string;
+  plan: PlanTier;
+  billing_email: string | null;
+  billing_provider: BillingProviderName | null;
+  billing_interval: BillingInterval | null;
+  stripe_customer_id: string | null;
+  stripe_subscription_id: string | null;
+  subscription_status: SubscriptionStatus | null;
+  cancel_at_period_end: boolean;
+  dunning_state: DunningState;
+  past_due_since: string | null;
+  current_period_start: string | null;
+  current_period_end: string | null;
+}
+
+export const ORG_BILLING_COLUMNS =
+  "id, name, plan, billing_email, billing_provider, billing_interval, stripe_customer_id, stripe_subscription_id, subscription_status, cancel_at_period_end, dunning_state, past_due_since, current_period_start, current_period_end";
+
+export async function getOrgBilling(orgId: string, client?: AdminClient): Promise<OrgBilling | null> {
+  const supabase = client ?? createAdminClient();
+  const { data } = await supabase.from("organizations").select(ORG_BILLING_COLUMNS).eq("id", orgId).single();
+  return (data as OrgBilling | null) || null;
+}
+
+function hasSubscription(org: OrgBilling): boolean {
+  return !!org.stripe_subscription_id && org.subscription_status !== "canceled";
+}
+
+/**
+ * The provider that holds this org's customer record. Orgs that have never
+ * paid use the configured provider.
+ */
+export function providerForOrg(org: Pick<OrgBilling, "billing_provider">, fallback: BillingProvider): BillingProvider {
+  return org.billing_provider && org.billing_provider !== fallback.name
+    ? createBillingProvider(org.billing_provider)
+    : fallback;
+}
+
+// ============================================================================
+// PRICES
+// ============================================================================
+
+/**
+ * A plan's price on an interval from plan_definitions, or null when it
+ * can't be bought self-serve
+ */
+export async function getPlanPrice(
+  plan: PlanTier,
+  interval: BillingInterval,
+  client?: AdminClient
+): Promise<BillingPrice | null> {
+  const supabase = client ?? createAdminClient();
+  const { data: definition } = await supabase
+    .from("plan_definitions")
+    .select("id, price_monthly, price_yearly, stripe_price_id_monthly, stripe_price_id_yearly, is_active")
+    .eq("id", plan)
+    .single();
+
+  if (!definition || definition.is_active === false) return null;
+
+  const price = interval === "year" ? definition.price_yearly : definition.price_monthly;
+  if (price === null || price === undefined) return null;
+
+  return {
+    plan,
+    interval,
+    amount: Math.round(Number(price) * 100),
+    currency: "usd",
+    providerPriceId: interval === "year" ? definition.stripe_price_id_yearly : definition.stripe_price_id_monthly,
+  };
+}
+
+// ============================================================================
+// PLAN CHANGES
+// ============================================================================
+
+export type ChangePlanResult =
+  | { action: "preview"; price: BillingPrice; proration: ProrationPreview | null }
+  | { action: "checkout"; url: string }
+  | { action: "changed" | "canceled" | "resumed"; subscription: BillingSubscription };
+
+export interface ChangePlanInput {
+  orgId: string;
+  plan: PlanTier;
+  interval: BillingInterval;
+  /** Only price the change */
+  preview?: boolean;
+  provider: BillingProvider;
+}
+
+async function ensureCustomer(supabase: AdminClient, provider: BillingProvider, org: OrgBilling): Promise<string> {
+  if (org.stripe_customer_id && org.billing_provider === provider.name) {
+    return org.stripe_customer_id;
+  }
+
+  const { customerId } = await provider.createCustomer({ orgId: org.id, name: org.name, email: org.billing_email });
+  await supabase
+    .from("organizations")
+    .update({ billing_provider: provider.name, stripe_customer_id: customerId, updated_at: new Date().toISOString() })
+    .eq("id", org.id);
+  return customerId;
+}
+
+/**
+ * Move an org to a plan, or price the move when `preview` is set
+ */
+export async function changePlan(input: ChangePlanInput): Promise<ChangePlanResult> {
+  const supabase = createAdminClient();
+  const org = await getOrgBilling(input.orgId, supabase);
+  if (!org) throw new BillingError("Organization not found", 404);
+
+  const provider = providerForOrg(org, input.provider);
+  const subscribed = hasSubscription(org);
+  const returnUrl = `${getAppUrl()}/dashboard/settings?tab=billing`;
+
+  if (subscribed && org.subscription_status === "past_due") {
+    throw new BillingError("Update your payment method before changing plans", 409);
+  }
+
+  // Free: cancel the subscription at the end of the paid period
+  if (input.plan === "free") {
+    if (!subscribed) throw new BillingError("The organization has no subscription to cancel");
+
+    const price: BillingPrice = { plan: "free", interval: input.interval, amount: 0, currency: "usd" };
+    if (input.preview) return { action: "preview", price, proration: null };
+
+    const subscription = await provider.cancelSubscription(org.stripe_subscription_id!);
+    await syncSubscription(supabase, provider.name, subscription, org);
+    await deliverLocalEvents(provider);
+    return { action: "canceled", subscription };
+  }
+
+  const price = await getPlanPrice(input.plan, input.interval, supabase);
+  if (!price) {
+    throw new BillingError("This plan isn't available for self-serve purchase. Contact sales to upgrade.");
+  }
+
+  if (!subscribed) {
+    if (input.preview) return { action: "preview", price, proration: null };
+
+    const customerId = await ensureCustomer(supabase, provider, org);
+    const session = await provider.createCheckoutSession({
+      customerId,
+      orgId: org.id,
+      price,
+      successUrl: `${returnUrl}&checkout=success`,
+      cancelUrl: `${returnUrl}&checkout=canceled`,
+    });
+    return { action: "checkout", url: session.url };
+  }
+
+  const subscriptionId = org.stripe_subscription_id!;
+
+  if (input.plan === org.plan && input.interval === (org.billing_interval || "month")) {
+    if (!org.cancel_at_period_end) throw new BillingError("The organization is already on this plan");
+    if (input.preview) return { action: "preview", price, proration: null };
+
+    const subscription = await provider.resumeSubscription(subscriptionId);
+    await syncSubscription(supabase, provider.name, subscription, org);
+    await deliverLocalEvents(provider);
+    return { action: "resumed", subscription };
+  }
+
+  const currentPrice = (await getPlanPrice(org.plan, org.billing_interval || "month", supabase)) || undefined;
+  const request = { subscriptionId, orgId: org.id, price, currentPrice };
+
+  if (input.preview) {
+    return { action: "preview", price, proration: await provider.previewChange(request) };
+  }
+
+  const subscription = await provider.changeSubscription(request);
+  await syncSubscription(supabase, provider.name, subscription, org);
+  await deliverLocalEvents(provider);
+  return { action: "changed", subscription };
+}
+
+// ============================================================================
+// WEBHOOK EVENTS
+// ============================================================================
+
+async function findOrgByCustomer(
+  supabase: AdminClient,
+  provider: BillingProviderName,
+  customerId: string
+): Promise<OrgBilling | null> {
+  if (!customerId) return null;
+  const { data } = await supabase
+    .from("organizations")
+    .select(ORG_BILLING_COLUMNS)
+    .eq("billing_provider", provider)
+    .eq("stripe_customer_id", customerId)
+    .maybeSingle();
+  return (data as OrgBilling | null) || null;
+}
+
+/**
+ * Mirror a subscription onto its org
+ */
+async function syncSubscription(
+  supabase: AdminClient,
+  provider: BillingProviderName,
+  subscription: BillingSubscription,
+  org: OrgBilling
+): Promise<void> {
+  const plan = subscription.plan || org.plan;
+  const pastDue = subscription.status === "past_due";
+  const dunningState: DunningState = pastDue ? (org.dunning_state === "none" ? "grace" : org.dunning_state) : "none";
+
+  const { error } = await supabase
+    .from("organizations")
+    .update({
+      plan,
+      plan_limits: resolveBillingLimits(plan, subscription.status, dunningState),
+      billing_provider: provider,
+      billing_interval: subscription.interval,
+      stripe_customer_id: subscription.customerId,
+      stripe_subscription_id: subscription.id,
+      subscription_status: subscription.status,
+      cancel_at_period_end: subscription.cancelAtPeriodEnd,
+      current_period_start: subscription.currentPeriodStart,
+      current_period_end: subscription.currentPeriodEnd,
+      dunning_state: dunningState,
+      past_due_since: pastDue ? org.past_due_since || new Date().toISOString() : null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", org.id);
+
+  if (error) throw new Error(`Failed to update organization billing: ${error.message}`);
+}
+
+/**
+ * The subscription has ended: back to the free plan, counting usage by
+ * calendar month again
+ */
+async function endSubscription(supabase: AdminClient, org: OrgBilling): Promise<void> {
+  const { error } = await supabase
+    .from("organizations")
+    .update({
+      plan: "free",
+      plan_limits: PLAN_LIMITS.free,
+      billing_interval: null,
+      stripe_subscription_id: null,
+      subscription_status: "canceled",
+      cancel_at_period_end: false,
+      current_period_start: null,
+      current_period_end: null,
+      dunning_state: "none",
+      past_due_since: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", org.id);
+
+  if (error) throw new Error(`Failed to downgrade organization: ${error.message}`);
+}
+
+async function upsertInvoice(
+  supabase: AdminClient,
+  provider: BillingProviderName,
+  orgId: string,
+  invoice: BillingInvoiceData
+): Promise<void> {
+  const { error } = await supabase.from("billing_invoices").upsert(
+    {
+      org_id: orgId,
+      provider,
+      provider_invoice_id: invoice.id,
+      number: invoice.number,
+      status: invoice.status,
+      amount_due: invoice.amountDue,
+      amount_paid: invoice.amountPaid,
+      currency: invoice.currency,
+      period_start: invoice.periodStart,
+      period_end: invoice.periodEnd,
+      hosted_invoice_url: invoice.hostedUrl,
+      invoice_pdf_url: invoice.pdfUrl,
+      attempt_count: invoice.attemptCount,
+      next_payment_attempt: invoice.nextPaymentAttempt,
+      issued_at: invoice.issuedAt,
+      paid_at: invoice.paidAt,
+    },
+    { onConflict: "provider,provider_invoice_id" }
+  );
+
+  if (error) throw new Error(`Failed to save invoice: ${error.message}`);
+}
+
+async function applyToOrg(
+  supabase: AdminClient,
+  provider: BillingProviderName,
+  event: BillingEvent,
+  org: OrgBilling
+): Promise<void> {
+  switch (event.type) {
+    case "subscription.updated":
+      // A late event for a subscription the org has since replaced
+      if (org.stripe_subscription_id && org.stripe_subscription_id !== event.subscription.id && hasSubscription(org)) {
+        return;
+      }
+      await syncSubscription(supabase, provider, event.subscription, org);
+      return;
+
+    case "subscription.deleted":
+      if (org.stripe_subscription_id && org.stripe_subscription_id !== event.subscription.id) return;
+      await endSubscription(supabase, org);
+      return;
+
+    case "invoice.updated":
+      await upsertInvoice(supabase, provider, org.id, event.invoice);
+      return;
+
+    case "invoice.paid": {
+      await upsertInvoice(supabase, provider, org.id, event.invoice);
+
+      const current = event.invoice.subscriptionId === org.stripe_subscription_id;
+      if (current && org.subscription_status === "past_due") {
+        await supabase
+          .from("organizations")
+          .update({
+            subscription_status: "active",
+            dunning_state: "none",
+            past_due_since: null,
+            plan_limits: resolveBillingLimits(org.plan, "active", "none"),
+            updated_at: new Date().toISOString(),
+          })
+          .eq("id", org.id);
+      }
+      return;
+    }
+
+    case "invoice.payment_failed": {
+      await upsertInvoice(supabase, provider, org.id, event.invoice);
+
+      if (event.invoice.subscriptionId !== org.stripe_subscription_id || !hasSubscription(org)) return;
+      const dunningState: DunningState = org.dunning_state === "none" ? "grace" : org.dunning_state;
+      await supabase
+        .from("organizations")
+        .update({
+          subscription_status: "past_due",
+          dunning_state: dunningState,
+          past_due_since: org.past_due_since || event.createdAt,
+          plan_limits: resolveBillingLimits(org.plan, "past_due", dunningState),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", org.id);
+      return;
+    }
+  }
+}
+
+export interface ApplyBillingEventResult {
+  duplicate: boolean;
+  orgId: string | null;
+}
+
+/**
+ * Apply a verified webhook event. Events already processed are skipped;
+ * one that failed part-way is applied again on redelivery.
+ */
+export async function applyBillingEvent(
+  provider: BillingProviderName,
+  event: BillingEvent,
+  client?: AdminClient
+): Promise<ApplyBillingEventResult> {
+  const supabase = client ?? createAdminClient();
+
+  const { error: claimError } = await supabase.from("billing_events").insert({
+    provider,
+    event_id: event.id,
+    type: event.type === "ignored" ? event.providerType : event.type,
+    payload: event,
+  });
+
+  if (claimError) {
+    if (claimError.code !== "23505") {
+      throw new Error(`Failed to record billing event: ${claimError.message}`);
+    }
+    const { data: existing } = await supabase
+      .from("billing_events")
+      .select("processed_at, org_id")
+      .eq("provider", provider)
+      .eq("event_id", event.id)
+      .single();
+    if (existing?.processed_at) {
+      return { duplicate: true, orgId: existing.org_id };
+    }
+  }
+
+  let org: OrgBilling | null = null;
+  try {
+    if (event.type === "subscription.updated" || event.type === "subscription.deleted") {
+      org = event.subscription.orgId
+        ? await getOrgBilling(event.subscription.orgId, supabase)
+        : await findOrgByCustomer(supabase, provider, event.subscription.customerId);
+    } else if ("invoice" in event) {
+      org = await findOrgByCustomer(supabase, provider, event.invoice.customerId);
+    }
+
+    if (org) {
+      await applyToOrg(supabase, provider, event, org);
+    } else if (event.type !== "ignored") {
+      console.warn(`Billing event ${event.id} (${event.type}) matches no organization`);
+    }
+
+    await supabase
+      .from("billing_events")
+      .update({ org_id: org?.id || null, processed_at: new Date().toISOString(), error_message: null })
+      .eq("provider", provider)
+      .eq("event_id", event.id);
+
+    return { duplicate: false, orgId: org?.id || null };
+  } catch (error) {
+    await supabase
+      .from("billing_events")
+      .update({ org_id: org?.id || null, error_message: error instanceof Error ? error.message : String(error) })
+      .eq("provider", provider)
+      .eq("event_id", event.id);
+    throw error;
+  }
+}
+
+/**
+ * Verify and apply a raw webhook request. Throws BillingProviderError
+ * when the signature or payload is invalid.
+ */
+export async function handleBillingWebhook(
+  provider: BillingProvider,
+  rawBody: string,
+  signature: string | null
+): Promise<ApplyBillingEventResult> {
+  const event = provider.parseWebhookEvent(rawBody, signature);
+  return applyBillingEvent(provider.name, event);
+}
+
+/**
+ * The local provider has nowhere to post its webhooks, so its queued events
+ * are applied in-process, signature check included
+ */
+export async function deliverLocalEvents(provider: BillingProvider): Promise<number> {
+  if (!(provider instanceof LocalBillingProvider)) return 0;
+
+  const envelopes = provider.takeEvents();
+  for (const envelope of envelopes) {
+    await handleBillingWebhook(provider, envelope.body, envelope.signature);
+  }
+  return envelopes.length;
+}
+
+// ============================================================================
+// DUNNING
+// ============================================================================
+
+export interface RunDunningOptions {
+  now?: Date;
+  maxOrgs?: number;
+  deadline?: number; // Epoch ms after which no more orgs are processed
+}
+
+export interface RunDunningResult {
+  pastDue: number;
+  restricted: number;
+  canceled: number;
+  failed: number;
+}
+
+/**
+ * Move past-due orgs along the dunning schedule (called by cron)
+ */
+export async function runDunning(options: RunDunningOptions = {}): Promise<RunDunningResult> {
+  const { now = new Date(), maxOrgs = 100, deadline } = options;
+  const supabase = createAdminClient();
+  const result: RunDunningResult = { pastDue: 0, restricted: 0, canceled: 0, failed: 0 };
+
+  const { data: orgs, error } = await supabase
+    .from("organizations")
+    .select(ORG_BILLING_COLUMNS)
+    .eq("subscription_status", "past_due")
+    .order("past_due_since", { ascending: true })
+    .limit(maxOrgs);
+
+  if (error) {
+    console.error("Error loading past-due organizations:", error);
+    return result;
+  }
+
+  result.pastDue = orgs?.length || 0;
+  const providers = new Map<BillingProviderName, BillingProvider>();
+
+  for (const org of (orgs || []) as OrgBilling[]) {
+    if (deadline && Date.now() > deadline) break;
+
+    try {
+      const since = org.past_due_since ? new Date(org.past_due_since) : now;
+      const { state, cancel } = nextDunningState(since, now);
+
+      if (cancel && org.stripe_subscription_id && org.billing_provider) {
+        let provider = providers.get(org.billing_provider);
+        if (!provider) {
+          provider = createBillingProvider(org.billing_provider);
+          providers.set(org.billing_provider, provider);
+        }
+
+        await provider.cancelSubscription(org.stripe_subscription_id, { immediately: true });
+        await endSubscription(supabase, org);
+        await deliverLocalEvents(provider);
+        result.canceled++;
+        continue;
+      }
+
+      if (state !== org.dunning_state || !org.past_due_since) {
+        await supabase
+          .from("organizations")
+          .update({
+            dunning_state: state,
+            past_due_since: since.toISOString(),
+            plan_limits: resolveBillingLimits(org.plan, "past_due", state),
+            updated_at: new Date().toISOString(),
+          })
+          .eq("id", org.id);
+        if (state === "restricted") result.restricted++;
+      }
+    } catch (orgError) {
+      console.error(`Error running dunning for organization ${org.id}:`, orgError);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
+
+// ============================================================================
+// LOCAL CHECKOUT
+// ============================================================================
+
+/**
+ * Finish a local checkout session and apply its events; returns where to
+ * send the browser
+ */
+export async function completeLocalCheckout(sessionId: string): Promise<string> {
+  const provider = createBillingProvider("local") as LocalBillingProvider;
+  const { successUrl } = provider.completeCheckout(sessionId);
+  await deliverLocalEvents(provider);
+  return successUrl;
+}
@@ -0,0 +1,29 @@
+/**
+ * Billing Provider Layer
+ *
+ * Resolves the configured payment provider and exposes the billing engine
+ * (checkout and plan changes, webhook events, dunning).
+ *
+ * Usage:
+ *   import { resolveBillingProvider } from '@/lib/billing';
+ *   const provider = resolveBillingProvider();
+ *   const { url } = await provider.createCheckoutSession({ ... });
+ *
+ * Environment:
+ *   BILLING_PROVIDER       - stripe | local (default: stripe when
+ *                            STRIPE_SECRET_KEY is set, otherwise local)
+ *   STRIPE_SECRET_KEY      - stripe provider
+ *   STRIPE_WEBHOOK_SECRET  - signing secret of the Stripe webhook endpoint
+ *   LOCAL_BILLING_WEBHOOK_SECRET - signing secret for local events
+ *   BILLING_ENABLE_LOCAL_PROVIDER - allow the local provider in production
+ *   NEXT_PUBLIC_APP_URL    - base for checkout return URLs
+ */
+
+export * from "./types";
+export * from "./provider";
+export * from "./engine";
+export { StripeProvider, encodeStripeForm, normalizeStripeInvoice, normalizeStripeSubscription } from "./stripe";
+export type { StripeProviderConfig } from "./stripe";
+export { LocalBillingProvider, calculateProration, createLocalBillingStore } from "./local";
+export type { LocalBillingEventEnvelope, LocalBillingProviderConfig, LocalBillingStore } from "./local";
+export { signBillingPayload, verifyBillingSignature, SIGNATURE_TOLERANCE_SECONDS } from "./signature";
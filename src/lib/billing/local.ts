@@ -0,0 +1,430 @@
+/**
+ * Local Billing Provider
+ *
+ * For development and tests: keeps customers, subscriptions and invoices in
+ * memory and never charges anything. Checkout "completes" when the browser
+ * hits /api/billing/local-checkout. Every state change queues a webhook
+ * event signed with the same scheme as Stripe, so events go through the
+ * same verification and engine code as real ones (see takeEvents()).
+ */
+
+import crypto from "crypto";
+import { signBillingPayload, verifyBillingSignature } from "./signature";
+import {
+  BillingProviderError,
+  type BillingEvent,
+  type BillingInvoiceData,
+  type BillingPaymentMethod,
+  type BillingPrice,
+  type BillingProvider,
+  type BillingSubscription,
+  type CheckoutRequest,
+  type ProrationPreview,
+  type SubscriptionChangeRequest,
+} from "./types";
+
+// ============================================================================
+// PRORATION
+// ============================================================================
+
+/**
+ * Prorate a price change at `at` within the current period: the unused part
+ * of the old price is credited, the remaining part of the new price charged.
+ */
+export function calculateProration(input: {
+  fromAmount: number;
+  toAmount: number;
+  periodStart: Date;
+  periodEnd: Date;
+  at: Date;
+}): { charge: number; credit: number; amountDue: number } {
+  const total = input.periodEnd.getTime() - input.periodStart.getTime();
+  const remaining = Math.min(Math.max(input.periodEnd.getTime() - input.at.getTime(), 0), total);
+  const fraction = total > 0 ? remaining / total : 0;
+
+  const charge = Math.round(input.toAmount * fraction);
+  const credit = Math.round(input.fromAmount * fraction);
+  return { charge, credit, amountDue: Math.max(0, charge - credit) };
+}
+
+function addInterval(date: Date, interval: BillingPrice["interval"]): Date {
+  const next = new Date(date);
+  if (interval === "year") next.setUTCFullYear(next.getUTCFullYear() + 1);
+  else next.setUTCMonth(next.getUTCMonth() + 1);
+  return next;
+}
+
+// ============================================================================
+// STORE
+// ============================================================================
+
+interface LocalCustomer {
+  orgId: string;
+  name: string;
+  email: string | null;
+  paymentMethod: BillingPaymentMethod;
+  /** Make the next charge fail, to exercise dunning */
+  failNextPayment: boolean;
+}
+
+interface LocalCheckoutSession {
+  request: CheckoutRequest;
+  subscriptionId: string | null;
+}
+
+interface LocalSubscription {
+  subscription: BillingSubscription;
+  price: BillingPrice;
+}
+
+export interface LocalBillingEventEnvelope {
+  body: string;
+  signature: string;
+}
+
+export interface LocalBillingStore {
+  customers: Map<string, LocalCustomer>;
+  sessions: Map<string, LocalCheckoutSession>;
+  subscriptions: Map<string, LocalSubscription>;
+  invoices: Map<string, BillingInvoiceData>;
+  outbox: LocalBillingEventEnvelope[];
+}
+
+export function createLocalBillingStore(): LocalBillingStore {
+  return {
+    customers: new Map(),
+    sessions: new Map(),
+    subscriptions: new Map(),
+    invoices: new Map(),
+    outbox: [],
+  };
+}
+
+// Shared by every provider instance in the process, like a real account
+const defaultStore = createLocalBillingStore();
+
+type UnsignedEvent = BillingEvent extends infer E ? (E extends BillingEvent ? Omit<E, "id" | "createdAt"> : never) : never;
+
+const localId = (prefix: string) => `${prefix}_local_${crypto.randomBytes(8).toString("hex")}`;
+
+// ============================================================================
+// PROVIDER
+// ============================================================================
+
+export interface LocalBillingProviderConfig {
+  /** Signs queued webhook events; the webhook route verifies with the same secret */
+  webhookSecret: string;
+  /** App origin, for the local checkout URL */
+  appUrl: string;
+  store?: LocalBillingStore;
+  now?: () => Date;
+}
+
+export class LocalBillingProvider implements BillingProvider {
+  readonly name = "local" as const;
+  private readonly store: LocalBillingStore;
+  private readonly now: () => Date;
+
+  constructor(private readonly config: LocalBillingProviderConfig) {
+    this.store = config.store || defaultStore;
+    this.now = config.now || (() => new Date());
+  }
+
+  private customer(customerId: string): LocalCustomer {
+    const customer = this.store.customers.get(customerId);
+    if (!customer) throw new BillingProviderError(`No such customer: ${customerId}`, "local", 404);
+    return customer;
+  }
+
+  private entry(subscriptionId: string): LocalSubscription {
+    const entry = this.store.subscriptions.get(subscriptionId);
+    if (!entry) throw new BillingProviderError(`No such subscription: ${subscriptionId}`, "local", 404);
+    return entry;
+  }
+
+  private emit(event: UnsignedEvent): void {
+    const body = JSON.stringify({ id: localId("evt"), createdAt: this.now().toISOString(), ...event });
+    this.store.outbox.push({
+      body,
+      signature: signBillingPayload(body, this.config.webhookSecret, Math.floor(this.now().getTime() / 1000)),
+    });
+  }
+
+  /**
+   * Charge the customer's card. The invoice is paid unless the customer was
+   * set to fail, in which case it stays open and the subscription goes past due.
+   */
+  private charge(entry: LocalSubscription, amount: number, periodStart: Date, periodEnd: Date): BillingInvoiceData {
+    const customer = this.customer(entry.subscription.customerId);
+    const failed = customer.failNextPayment && amount > 0;
+    customer.failNextPayment = false;
+
+    const issuedAt = this.now().toISOString();
+    const invoice: BillingInvoiceData = {
+      id: localId("in"),
+      customerId: entry.subscription.customerId,
+      subscriptionId: entry.subscription.id,
+      number: `LOCAL-${String(this.store.invoices.size + 1).padStart(4, "0")}`,
+      status: failed ? "open" : "paid",
+      amountDue: amount,
+      amountPaid: failed ? 0 : amount,
+      currency: entry.price.currency,
+      periodStart: periodStart.toISOString(),
+      periodEnd: periodEnd.toISOString(),
+      hostedUrl: null,
+      pdfUrl: null,
+      attemptCount: 1,
+      nextPaymentAttempt: failed ? new Date(this.now().getTime() + 3 * 24 * 60 * 60 * 1000).toISOString() : null,
+      issuedAt,
+      paidAt: failed ? null : issuedAt,
+    };
+    this.store.invoices.set(invoice.id, invoice);
+
+    if (failed) {
+      entry.subscription.status = "past_due";
+      this.emit({ type: "invoice.payment_failed", invoice: { ...invoice } });
+    } else {
+      this.emit({ type: "invoice.paid", invoice: { ...invoice } });
+    }
+    return invoice;
+  }
+
+  async createCustomer(input: { orgId: string; name: string; email?: string | null }) {
+    const customerId = localId("cus");
+    this.store.customers.set(customerId, {
+      orgId: input.orgId,
+      name: input.name,
+      email: input.email || null,
+      paymentMethod: { brand: "visa", last4: "4242", expMonth: 12, expYear: this.now().getUTCFullYear() + 3 },
+      failNextPayment: false,
+    });
+    return { customerId };
+  }
+
+  async createCheckoutSession(input: CheckoutRequest) {
+    this.customer(input.customerId);
+    const id = localId("cs");
+    this.store.sessions.set(id, { request: input, subscriptionId: null });
+
+    const url = `${this.config.appUrl.replace(/\/$/, "")}/api/billing/local-checkout?session_id=${id}`;
+    return { id, url };
+  }
+
+  /**
+   * What the hosted checkout page would do once the customer pays: start
+   * the subscription and invoice the first period. Completing twice is a no-op.
+   */
+  completeCheckout(sessionId: string): { subscription: BillingSubscription; successUrl: string } {
+    const session = this.store.sessions.get(sessionId);
+    if (!session) throw new BillingProviderError(`No such checkout session: ${sessionId}`, "local", 404);
+
+    if (session.subscriptionId) {
+      return { subscription: { ...this.entry(session.subscriptionId).subscription }, successUrl: session.request.successUrl };
+    }
+
+    const { request } = session;
+    const start = this.now();
+    const end = addInterval(start, request.price.interval);
+    const entry: LocalSubscription = {
+      price: request.price,
+      subscription: {
+        id: localId("sub"),
+        customerId: request.customerId,
+        status: "active",
+        plan: request.price.plan,
+        orgId: request.orgId,
+        interval: request.price.interval,
+        currentPeriodStart: start.toISOString(),
+        currentPeriodEnd: end.toISOString(),
+        cancelAtPeriodEnd: false,
+      },
+    };
+    this.store.subscriptions.set(entry.subscription.id, entry);
+    session.subscriptionId = entry.subscription.id;
+
+    this.charge(entry, request.price.amount, start, end);
+    this.emit({ type: "subscription.updated", subscription: { ...entry.subscription } });
+
+    return { subscription: { ...entry.subscription }, successUrl: request.successUrl };
+  }
+
+  private prorate(entry: LocalSubscription, price: BillingPrice, currentPrice?: BillingPrice) {
+    const at = this.now();
+    const from = currentPrice?.amount ?? entry.price.amount;
+
+    // Switching interval starts a new period now, crediting what's left of the old one
+    if (price.interval !== entry.price.interval) {
+      const { credit } = calculateProration({
+        fromAmount: from,
+        toAmount: 0,
+        periodStart: new Date(entry.subscription.currentPeriodStart),
+        periodEnd: new Date(entry.subscription.currentPeriodEnd),
+        at,
+      });
+      return {
+        at,
+        charge: price.amount,
+        credit,
+        amountDue: Math.max(0, price.amount - credit),
+        periodStart: at,
+        periodEnd: addInterval(at, price.interval),
+      };
+    }
+
+    return {
+      at,
+      ...calculateProration({
+        fromAmount: from,
+        toAmount: price.amount,
+        periodStart: new Date(entry.subscription.currentPeriodStart),
+        periodEnd: new Date(entry.subscription.currentPeriodEnd),
+        at,
+      }),
+      periodStart: new Date(entry.subscription.currentPeriodStart),
+      periodEnd: new Date(entry.subscription.currentPeriodEnd),
+    };
+  }
+
+  async changeSubscription(input: SubscriptionChangeRequest) {
+    const entry = this.entry(input.subscriptionId);
+    if (entry.subscription.status === "canceled") {
+      throw new BillingProviderError("Subscription is canceled", "local", 400);
+    }
+
+    const proration = this.prorate(entry, input.price, input.currentPrice);
+    entry.price = input.price;
+    Object.assign(entry.subscription, {
+      plan: input.price.plan,
+      interval: input.price.interval,
+      cancelAtPeriodEnd: false,
+      currentPeriodStart: proration.periodStart.toISOString(),
+      currentPeriodEnd: proration.periodEnd.toISOString(),
+    });
+
+    this.charge(entry, proration.amountDue, proration.at, proration.periodEnd);
+    this.emit({ type: "subscription.updated", subscription: { ...entry.subscription } });
+    return { ...entry.subscription };
+  }
+
+  async previewChange(input: SubscriptionChangeRequest): Promise<ProrationPreview> {
+    const proration = this.prorate(this.entry(input.subscriptionId), input.price, input.currentPrice);
+    return {
+      charge: proration.charge,
+      credit: proration.credit,
+      amountDue: proration.amountDue,
+      currency: input.price.currency,
+      prorationDate: proration.at.toISOString(),
+    };
+  }
+
+  async cancelSubscription(subscriptionId: string, options: { immediately?: boolean } = {}) {
+    const entry = this.entry(subscriptionId);
+
+    if (options.immediately) {
+      entry.subscription.status = "canceled";
+      entry.subscription.currentPeriodEnd = this.now().toISOString();
+      this.emit({ type: "subscription.deleted", subscription: { ...entry.subscription } });
+    } else {
+      entry.subscription.cancelAtPeriodEnd = true;
+      this.emit({ type: "subscription.updated", subscription: { ...entry.subscription } });
+    }
+    return { ...entry.subscription };
+  }
+
+  async resumeSubscription(subscriptionId: string) {
+    const entry = this.entry(subscriptionId);
+    entry.subscription.cancelAtPeriodEnd = false;
+    this.emit({ type: "subscription.updated", subscription: { ...entry.subscription } });
+    return { ...entry.subscription };
+  }
+
+  async getPaymentMethod(customerId: string) {
+    return { ...this.customer(customerId).paymentMethod };
+  }
+
+  async createPortalSession(customerId: string, returnUrl: string) {
+    // No hosted portal locally; the card on file is always the test card
+    this.customer(customerId);
+    return { url: returnUrl };
+  }
+
+  parseWebhookEvent(rawBody: string, signature: string | null): BillingEvent {
+    const check = verifyBillingSignature(
+      rawBody,
+      signature,
+      this.config.webhookSecret,
+      Math.floor(this.now().getTime() / 1000)
+    );
+    if (!check.valid) {
+      throw new BillingProviderError(check.reason, "local", 400);
+    }
+
+    let event: BillingEvent | null;
+    try {
+      event = JSON.parse(rawBody) as BillingEvent | null;
+    } catch {
+      throw new BillingProviderError("Event body is not valid JSON", "local", 422);
+    }
+    if (!event?.id || !event.type) {
+      throw new BillingProviderError("Malformed event", "local", 422);
+    }
+    return event;
+  }
+
+  // --------------------------------------------------------------------------
+  // Test and development controls
+  // --------------------------------------------------------------------------
+
+  /** Queued webhook events, oldest first; clears the queue */
+  takeEvents(): LocalBillingEventEnvelope[] {
+    return this.store.outbox.splice(0, this.store.outbox.length);
+  }
+
+  failNextPayment(customerId: string): void {
+    this.customer(customerId).failNextPayment = true;
+  }
+
+  /** Start the next period and invoice it, as the provider would at renewal */
+  renewSubscription(subscriptionId: string): BillingInvoiceData {
+    const entry = this.entry(subscriptionId);
+
+    if (entry.subscription.cancelAtPeriodEnd) {
+      entry.subscription.status = "canceled";
+      this.emit({ type: "subscription.deleted", subscription: { ...entry.subscription } });
+      throw new BillingProviderError("Subscription ended at period end", "local", 400);
+    }
+
+    const start = new Date(entry.subscription.currentPeriodEnd);
+    const end = addInterval(start, entry.price.interval);
+    entry.subscription.currentPeriodStart = start.toISOString();
+    entry.subscription.currentPeriodEnd = end.toISOString();
+
+    const invoice = this.charge(entry, entry.price.amount, start, end);
+    this.emit({ type: "subscription.updated", subscription: { ...entry.subscription } });
+    return { ...invoice };
+  }
+
+  /** Settle an open invoice, e.g. after the card was updated */
+  payInvoice(invoiceId: string): BillingInvoiceData {
+    const invoice = this.store.invoices.get(invoiceId);
+    if (!invoice) throw new BillingProviderError(`No such invoice: ${invoiceId}`, "local", 404);
+    if (invoice.status === "paid") return { ...invoice };
+
+    const paidAt = this.now().toISOString();
+    Object.assign(invoice, {
+      status: "paid",
+      amountPaid: invoice.amountDue,
+      attemptCount: invoice.attemptCount + 1,
+      nextPaymentAttempt: null,
+      paidAt,
+    });
+    this.emit({ type: "invoice.paid", invoice: { ...invoice } });
+
+    const entry = invoice.subscriptionId ? this.store.subscriptions.get(invoice.subscriptionId) : undefined;
+    if (entry && entry.subscription.status === "past_due") {
+      entry.subscription.status = "active";
+      this.emit({ type: "subscription.updated", subscription: { ...entry.subscription } });
+    }
+    return { ...invoice };
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Billing Provider Resolution
+ *
+ * Creates the provider named by BILLING_PROVIDER (see index.ts for the
+ * environment variables).
+ */
+
+import { LocalBillingProvider } from "./local";
+import { StripeProvider } from "./stripe";
+import { BillingProviderError, type BillingProvider, type BillingProviderName } from "./types";
+
+export const BILLING_PROVIDERS: BillingProviderName[] = ["stripe", "local"];
+
+const DEFAULT_LOCAL_WEBHOOK_SECRET = "whsec_local_development";
+
+export function getAppUrl(): string {
+  return (process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000").replace(/\/$/, "");
+}
+
+/**
+ * The local provider hands out free subscriptions, so it must not be
+ * reachable in production unless explicitly enabled.
+ */
+export function isLocalBillingEnabled(): boolean {
+  return process.env.NODE_ENV !== "production" || process.env.BILLING_ENABLE_LOCAL_PROVIDER === "true";
+}
+
+/**
+ * Create a provider client by name
+ */
+export function createBillingProvider(name: BillingProviderName): BillingProvider {
+  switch (name) {
+    case "stripe":
+      return new StripeProvider({
+        secretKey: process.env.STRIPE_SECRET_KEY,
+        webhookSecret: process.env.STRIPE_WEBHOOK_SECRET,
+      });
+
+    case "local":
+      if (!isLocalBillingEnabled()) {
+        throw new BillingProviderError("Local billing provider is disabled in production", "local");
+      }
+      return new LocalBillingProvider({
+        webhookSecret: process.env.LOCAL_BILLING_WEBHOOK_SECRET || DEFAULT_LOCAL_WEBHOOK_SECRET,
+        appUrl: getAppUrl(),
+      });
+
+    default:
+      throw new BillingProviderError(`Unknown billing provider: ${name}`, name);
+  }
+}
+
+/**
+ * The provider configured for this deployment
+ */
+export function resolveBillingProvider(): BillingProvider {
+  const configured = process.env.BILLING_PROVIDER as BillingProviderName | undefined;
+  if (configured && BILLING_PROVIDERS.includes(configured)) {
+    return createBillingProvider(configured);
+  }
+  return createBillingProvider(process.env.STRIPE_SECRET_KEY ? "stripe" : "local");
+}
@@ -0,0 +1,53 @@
+/**
+ * Billing Webhook Signatures
+ *
+ * Stripe's scheme, which the local provider also signs with: the header is
+ * "t=<unix seconds>,v1=<hex hmac>", where the HMAC-SHA256 covers
+ * "<t>.<raw body>". Old timestamps are refused so a captured request
+ * can't be replayed later.
+ */
+
+import crypto from "crypto";
+
+export const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export function signBillingPayload(body: string, secret: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+  const digest = crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${digest}`;
+}
+
+export type SignatureCheck = { valid: true } | { valid: false; reason: string };
+
+export function verifyBillingSignature(
+  body: string,
+  header: string | null,
+  secret: string,
+  now: number = Math.floor(Date.now() / 1000)
+): SignatureCheck {
+  if (!header) return { valid: false, reason: "Missing signature" };
+
+  let timestamp: number | null = null;
+  const signatures: string[] = [];
+
+  for (const part of header.split(",")) {
+    const [key, value] = part.split("=", 2);
+    if (key === "t") timestamp = Number(value);
+    else if (key === "v1" && value) signatures.push(value);
+  }
+
+  if (timestamp === null || !Number.isFinite(timestamp) || signatures.length === 0) {
+    return { valid: false, reason: "Malformed signature" };
+  }
+
+  if (Math.abs(now - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+    return { valid: false, reason: "Signature timestamp outside tolerance" };
+  }
+
+  const expected = Buffer.from(signBillingPayload(body, secret, timestamp).split("v1=")[1], "hex");
+  const matches = signatures.some((signature) => {
+    const given = Buffer.from(signature, "hex");
+    return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+  });
+
+  return matches ? { valid: true } : { valid: false, reason: "Signature mismatch" };
+}
@@ -0,0 +1,440 @@
+/**
+ * Stripe Billing Provider
+ *
+ * Talks to the Stripe REST API directly (form-encoded requests, JSON
+ * responses). Plan changes invoice the prorated difference straight away
+ * (proration_behavior=always_invoice), and our plan/org ids travel in the
+ * subscription's metadata so webhooks can be mapped back.
+ */
+
+import type { PlanTier } from "@/types/analytics";
+import type { BillingInvoiceStatus, SubscriptionStatus } from "@/types/database";
+import { verifyBillingSignature } from "./signature";
+import {
+  BillingProviderError,
+  type BillingEvent,
+  type BillingInterval,
+  type BillingInvoiceData,
+  type BillingPaymentMethod,
+  type BillingProvider,
+  type BillingSubscription,
+  type CheckoutRequest,
+  type ProrationPreview,
+  type SubscriptionChangeRequest,
+} from "./types";
+
+export interface StripeProviderConfig {
+  secretKey?: string;
+  webhookSecret?: string;
+  baseURL?: string;
+}
+
+type FormValue = string | number | boolean | null | undefined | FormObject | FormValue[];
+interface FormObject {
+  [key: string]: FormValue;
+}
+
+/**
+ * Stripe's bracket notation: { items: [{ price: "p" }] } -> items[0][price]=p
+ */
+export function encodeStripeForm(params: FormObject): string {
+  const pairs: string[] = [];
+
+  const add = (key: string, value: FormValue) => {
+    if (value === undefined || value === null) return;
+    if (Array.isArray(value)) {
+      value.forEach((item, i) => add(`${key}[${i}]`, item));
+    } else if (typeof value === "object") {
+      for (const [child, childValue] of Object.entries(value)) add(`${key}[${child}]`, childValue);
+    } else {
+      pairs.push(`${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`);
+    }
+  };
+
+  for (const [key, value] of Object.entries(params)) add(key, value);
+  return pairs.join("&");
+}
+
+// Stripe statuses that organizations.subscription_status doesn't have
+const STATUS_MAP: Record<string, SubscriptionStatus> = {
+  active: "active",
+  trialing: "trialing",
+  past_due: "past_due",
+  unpaid: "past_due",
+  incomplete: "past_due",
+  canceled: "canceled",
+  incomplete_expired: "canceled",
+  paused: "paused",
+};
+
+const INVOICE_STATUSES: BillingInvoiceStatus[] = ["draft", "open", "paid", "void", "uncollectible"];
+
+const PLAN_TIERS: PlanTier[] = ["free", "starter", "professional", "enterprise"];
+
+// ============================================================================
+// STRIPE OBJECTS
+// ============================================================================
+// Only the fields we read. Apart from ids, every one is optional: webhook
+// payloads arrive as untrusted JSON and fields move between API versions.
+
+type StripeExpandable<T> = string | (T & { id?: string }) | null;
+
+interface StripeList<T> {
+  data?: T[];
+}
+
+interface StripeSubscriptionItem {
+  id?: string;
+  price?: { recurring?: { interval?: string } | null } | null;
+  current_period_start?: number;
+  current_period_end?: number;
+}
+
+export interface StripeSubscription {
+  id: string;
+  customer?: StripeExpandable<object>;
+  status?: string;
+  metadata?: Record<string, string> | null;
+  items?: StripeList<StripeSubscriptionItem>;
+  current_period_start?: number;
+  current_period_end?: number;
+  cancel_at_period_end?: boolean;
+}
+
+export interface StripeInvoice {
+  id: string;
+  customer?: StripeExpandable<object>;
+  subscription?: StripeExpandable<object>;
+  parent?: { subscription_details?: { subscription?: StripeExpandable<object> } | null } | null;
+  number?: string | null;
+  status?: string | null;
+  amount_due?: number;
+  amount_paid?: number;
+  currency?: string;
+  period_start?: number;
+  period_end?: number;
+  hosted_invoice_url?: string | null;
+  invoice_pdf?: string | null;
+  attempt_count?: number;
+  next_payment_attempt?: number | null;
+  created?: number;
+  status_transitions?: { paid_at?: number | null } | null;
+}
+
+interface StripeInvoiceLine {
+  amount?: number;
+  proration?: boolean;
+  parent?: { subscription_item_details?: { proration?: boolean } | null } | null;
+}
+
+interface StripeInvoicePreview {
+  currency?: string;
+  lines?: StripeList<StripeInvoiceLine>;
+}
+
+interface StripeCard {
+  brand?: string;
+  last4?: string;
+  exp_month?: number;
+  exp_year?: number;
+}
+
+interface StripeCustomer {
+  id: string;
+  invoice_settings?: { default_payment_method?: StripeExpandable<{ card?: StripeCard | null }> } | null;
+}
+
+interface StripeRedirectSession {
+  id: string;
+  url: string;
+}
+
+interface StripeEvent {
+  id: string;
+  type: string;
+  created?: number;
+  data?: { object?: unknown } | null;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const toIso = (seconds: unknown): string | null =>
+  typeof seconds === "number" ? new Date(seconds * 1000).toISOString() : null;
+
+const idOf = (value: StripeExpandable<object> | undefined): string | null =>
+  typeof value === "string" ? value : value?.id || null;
+
+const isPlanTier = (value: unknown): value is PlanTier => PLAN_TIERS.some((tier) => tier === value);
+
+const isInvoiceStatus = (value: unknown): value is BillingInvoiceStatus =>
+  INVOICE_STATUSES.some((status) => status === value);
+
+/**
+ * A signed payload still has to look like a Stripe event before any field
+ * of it is trusted
+ */
+function parseStripeEvent(rawBody: string): StripeEvent {
+  let event: unknown;
+  try {
+    event = JSON.parse(rawBody);
+  } catch {
+    throw new BillingProviderError("Event body is not valid JSON", "stripe", 422);
+  }
+
+  if (!isRecord(event) || typeof event.id !== "string" || typeof event.type !== "string") {
+    throw new BillingProviderError("Malformed event", "stripe", 422);
+  }
+  return event as unknown as StripeEvent;
+}
+
+export function normalizeStripeSubscription(sub: StripeSubscription): BillingSubscription {
+  const item = sub.items?.data?.[0];
+  const plan = sub.metadata?.plan;
+
+  return {
+    id: sub.id,
+    customerId: idOf(sub.customer) || "",
+    status: (sub.status && STATUS_MAP[sub.status]) || "past_due",
+    plan: isPlanTier(plan) ? plan : null,
+    orgId: sub.metadata?.org_id || null,
+    interval: (item?.price?.recurring?.interval === "year" ? "year" : "month") as BillingInterval,
+    // Newer API versions keep the period on the item
+    currentPeriodStart: toIso(sub.current_period_start ?? item?.current_period_start) || new Date().toISOString(),
+    currentPeriodEnd: toIso(sub.current_period_end ?? item?.current_period_end) || new Date().toISOString(),
+    cancelAtPeriodEnd: !!sub.cancel_at_period_end,
+  };
+}
+
+export function normalizeStripeInvoice(invoice: StripeInvoice): BillingInvoiceData {
+  return {
+    id: invoice.id,
+    customerId: idOf(invoice.customer) || "",
+    subscriptionId: idOf(invoice.subscription) || idOf(invoice.parent?.subscription_details?.subscription),
+    number: invoice.number || null,
+    status: isInvoiceStatus(invoice.status) ? invoice.status : "open",
+    amountDue: invoice.amount_due || 0,
+    amountPaid: invoice.amount_paid || 0,
+    currency: invoice.currency || "usd",
+    periodStart: toIso(invoice.period_start),
+    periodEnd: toIso(invoice.period_end),
+    hostedUrl: invoice.hosted_invoice_url || null,
+    pdfUrl: invoice.invoice_pdf || null,
+    attemptCount: invoice.attempt_count || 0,
+    nextPaymentAttempt: toIso(invoice.next_payment_attempt),
+    issuedAt: toIso(invoice.created) || new Date().toISOString(),
+    paidAt: toIso(invoice.status_transitions?.paid_at),
+  };
+}
+
+export class StripeProvider implements BillingProvider {
+  readonly name = "stripe" as const;
+  private readonly secretKey?: string;
+  private readonly webhookSecret?: string;
+  private readonly baseURL: string;
+
+  constructor(config: StripeProviderConfig = {}) {
+    this.secretKey = config.secretKey;
+    this.webhookSecret = config.webhookSecret;
+    this.baseURL = (config.baseURL || "https://api.stripe.com").replace(/\/$/, "");
+  }
+
+  private async request<T>(method: "GET" | "POST" | "DELETE", path: string, params: FormObject = {}): Promise<T> {
+    if (!this.secretKey) {
+      throw new BillingProviderError("STRIPE_SECRET_KEY is not configured", "stripe");
+    }
+
+    const query = method === "GET" ? encodeStripeForm(params) : "";
+    const response = await fetch(`${this.baseURL}${path}${query ? `?${query}` : ""}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.secretKey}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: method === "POST" ? encodeStripeForm(params) : undefined,
+    });
+
+    const data: unknown = await response.json().catch(() => null);
+    if (!response.ok) {
+      const error = isRecord(data) && isRecord(data.error) ? data.error : null;
+      throw new BillingProviderError(
+        (typeof error?.message === "string" && error.message) || `Stripe request failed with status ${response.status}`,
+        "stripe",
+        response.status
+      );
+    }
+    if (!isRecord(data)) {
+      throw new BillingProviderError(`Stripe ${method} ${path} returned no object`, "stripe", response.status);
+    }
+    return data as T;
+  }
+
+  private priceId(request: { price: CheckoutRequest["price"] }): string {
+    if (!request.price.providerPriceId) {
+      throw new BillingProviderError(
+        `No Stripe price configured for ${request.price.plan} (${request.price.interval})`,
+        "stripe"
+      );
+    }
+    return request.price.providerPriceId;
+  }
+
+  async createCustomer(input: { orgId: string; name: string; email?: string | null }) {
+    const customer = await this.request<StripeCustomer>("POST", "/v1/customers", {
+      name: input.name,
+      email: input.email,
+      metadata: { org_id: input.orgId },
+    });
+    return { customerId: customer.id };
+  }
+
+  async createCheckoutSession(input: CheckoutRequest) {
+    const session = await this.request<StripeRedirectSession>("POST", "/v1/checkout/sessions", {
+      mode: "subscription",
+      customer: input.customerId,
+      client_reference_id: input.orgId,
+      line_items: [{ price: this.priceId(input), quantity: 1 }],
+      success_url: input.successUrl,
+      cancel_url: input.cancelUrl,
+      subscription_data: {
+        metadata: { org_id: input.orgId, plan: input.price.plan },
+      },
+    });
+    return { id: session.id, url: session.url };
+  }
+
+  private async subscriptionItemId(subscriptionId: string): Promise<string> {
+    const subscription = await this.request<StripeSubscription>("GET", `/v1/subscriptions/${subscriptionId}`);
+    const itemId = subscription.items?.data?.[0]?.id;
+    if (!itemId) {
+      throw new BillingProviderError(`Subscription ${subscriptionId} has no items`, "stripe");
+    }
+    return itemId;
+  }
+
+  async changeSubscription(input: SubscriptionChangeRequest) {
+    const itemId = await this.subscriptionItemId(input.subscriptionId);
+    const subscription = await this.request<StripeSubscription>("POST", `/v1/subscriptions/${input.subscriptionId}`, {
+      items: [{ id: itemId, price: this.priceId(input) }],
+      proration_behavior: "always_invoice",
+      cancel_at_period_end: false,
+      metadata: { org_id: input.orgId, plan: input.price.plan },
+    });
+    return normalizeStripeSubscription(subscription);
+  }
+
+  async previewChange(input: SubscriptionChangeRequest): Promise<ProrationPreview> {
+    const itemId = await this.subscriptionItemId(input.subscriptionId);
+    const prorationDate = Math.floor(Date.now() / 1000);
+
+    const preview = await this.request<StripeInvoicePreview>("POST", "/v1/invoices/create_preview", {
+      subscription: input.subscriptionId,
+      subscription_details: {
+        items: [{ id: itemId, price: this.priceId(input) }],
+        proration_behavior: "always_invoice",
+        proration_date: prorationDate,
+      },
+    });
+
+    let charge = 0;
+    let credit = 0;
+    for (const line of preview.lines?.data || []) {
+      const isProration = line.proration ?? line.parent?.subscription_item_details?.proration;
+      if (!isProration || typeof line.amount !== "number") continue;
+      if (line.amount >= 0) charge += line.amount;
+      else credit += -line.amount;
+    }
+
+    return {
+      charge,
+      credit,
+      amountDue: Math.max(0, charge - credit),
+      currency: preview.currency || input.price.currency,
+      prorationDate: new Date(prorationDate * 1000).toISOString(),
+    };
+  }
+
+  async cancelSubscription(subscriptionId: string, options: { immediately?: boolean } = {}) {
+    const subscription = options.immediately
+      ? await this.request<StripeSubscription>("DELETE", `/v1/subscriptions/${subscriptionId}`)
+      : await this.request<StripeSubscription>("POST", `/v1/subscriptions/${subscriptionId}`, {
+          cancel_at_period_end: true,
+        });
+    return normalizeStripeSubscription(subscription);
+  }
+
+  async resumeSubscription(subscriptionId: string) {
+    const subscription = await this.request<StripeSubscription>("POST", `/v1/subscriptions/${subscriptionId}`, {
+      cancel_at_period_end: false,
+    });
+    return normalizeStripeSubscription(subscription);
+  }
+
+  async getPaymentMethod(customerId: string): Promise<BillingPaymentMethod | null> {
+    const customer = await this.request<StripeCustomer>("GET", `/v1/customers/${customerId}`, {
+      expand: ["invoice_settings.default_payment_method"],
+    });
+    const paymentMethod = customer.invoice_settings?.default_payment_method;
+    const card = typeof paymentMethod === "object" ? paymentMethod?.card : null;
+    if (!card) return null;
+
+    return {
+      brand: card.brand || "card",
+      last4: card.last4 || "",
+      expMonth: card.exp_month ?? null,
+      expYear: card.exp_year ?? null,
+    };
+  }
+
+  async createPortalSession(customerId: string, returnUrl: string) {
+    const session = await this.request<StripeRedirectSession>("POST", "/v1/billing_portal/sessions", {
+      customer: customerId,
+      return_url: returnUrl,
+    });
+    return { url: session.url };
+  }
+
+  parseWebhookEvent(rawBody: string, signature: string | null): BillingEvent {
+    if (!this.webhookSecret) {
+      throw new BillingProviderError("STRIPE_WEBHOOK_SECRET is not configured", "stripe");
+    }
+
+    const check = verifyBillingSignature(rawBody, signature, this.webhookSecret);
+    if (!check.valid) {
+      throw new BillingProviderError(check.reason, "stripe", 400);
+    }
+
+    const event = parseStripeEvent(rawBody);
+    const base = { id: event.id, createdAt: toIso(event.created) || new Date().toISOString() };
+
+    // Subscription and invoice events need their object to act on
+    const object = event.data?.object;
+    const objectOf = <T>(): T => {
+      if (!isRecord(object) || typeof object.id !== "string") {
+        throw new BillingProviderError(`Event ${event.id} (${event.type}) has no object`, "stripe", 422);
+      }
+      return object as T;
+    };
+
+    switch (event.type) {
+      case "customer.subscription.created":
+      case "customer.subscription.updated":
+      case "customer.subscription.paused":
+      case "customer.subscription.resumed":
+        return { ...base, type: "subscription.updated", subscription: normalizeStripeSubscription(objectOf<StripeSubscription>()) };
+      case "customer.subscription.deleted":
+        return { ...base, type: "subscription.deleted", subscription: normalizeStripeSubscription(objectOf<StripeSubscription>()) };
+      case "invoice.paid":
+        return { ...base, type: "invoice.paid", invoice: normalizeStripeInvoice(objectOf<StripeInvoice>()) };
+      case "invoice.payment_failed":
+        return { ...base, type: "invoice.payment_failed", invoice: normalizeStripeInvoice(objectOf<StripeInvoice>()) };
+      case "invoice.finalized":
+      case "invoice.updated":
+      case "invoice.voided":
+      case "invoice.marked_uncollectible":
+        return { ...base, type: "invoice.updated", invoice: normalizeStripeInvoice(objectOf<StripeInvoice>()) };
+      default:
+        return { ...base, type: "ignored", providerType: event.type };
+    }
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Billing Provider Types
+ * Provider-neutral shapes used by the billing engine and API routes.
+ * Amounts are in minor units (cents).
+ */
+
+import type {
+  BillingInterval,
+  BillingInvoiceStatus,
+  BillingProviderName,
+  SubscriptionStatus,
+} from "@/types/database";
+import type { PlanTier } from "@/types/analytics";
+
+export type { BillingInterval, BillingProviderName };
+
+/**
+ * What a plan costs on one interval. providerPriceId is the provider's own
+ * price (plan_definitions.stripe_price_id_*); the local provider only needs
+ * the amount.
+ */
+export interface BillingPrice {
+  plan: PlanTier;
+  interval: BillingInterval;
+  amount: number;
+  currency: string;
+  providerPriceId?: string | null;
+}
+
+export interface BillingSubscription {
+  id: string;
+  customerId: string;
+  status: SubscriptionStatus;
+  /** From the subscription's metadata, set whenever we create or change it */
+  plan: PlanTier | null;
+  orgId: string | null;
+  interval: BillingInterval;
+  currentPeriodStart: string;
+  currentPeriodEnd: string;
+  cancelAtPeriodEnd: boolean;
+}
+
+export interface BillingInvoiceData {
+  id: string;
+  customerId: string;
+  subscriptionId: string | null;
+  number: string | null;
+  status: BillingInvoiceStatus;
+  amountDue: number;
+  amountPaid: number;
+  currency: string;
+  periodStart: string | null;
+  periodEnd: string | null;
+  hostedUrl: string | null;
+  pdfUrl: string | null;
+  attemptCount: number;
+  nextPaymentAttempt: string | null;
+  issuedAt: string;
+  paidAt: string | null;
+}
+
+export interface BillingPaymentMethod {
+  brand: string;
+  last4: string;
+  expMonth: number | null;
+  expYear: number | null;
+}
+
+export interface ProrationPreview {
+  /** Charged now for the rest of the period on the new plan */
+  charge: number;
+  /** Credited for the unused part of the current plan */
+  credit: number;
+  /** charge - credit, never below zero (extra credit carries forward) */
+  amountDue: number;
+  currency: string;
+  /** When the proration applies from */
+  prorationDate: string;
+}
+
+export interface CheckoutRequest {
+  customerId: string;
+  orgId: string;
+  price: BillingPrice;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+export interface SubscriptionChangeRequest {
+  subscriptionId: string;
+  orgId: string;
+  price: BillingPrice;
+  /** The current price, which the local provider prorates from */
+  currentPrice?: BillingPrice;
+}
+
+/**
+ * Webhook events, normalized. Anything the engine doesn't act on comes
+ * through as "ignored" so it's still recorded.
+ */
+export type BillingEvent =
+  | { id: string; type: "subscription.updated" | "subscription.deleted"; createdAt: string; subscription: BillingSubscription }
+  | { id: string; type: "invoice.paid" | "invoice.payment_failed" | "invoice.updated"; createdAt: string; invoice: BillingInvoiceData }
+  | { id: string; type: "ignored"; createdAt: string; providerType: string };
+
+export interface BillingProvider {
+  readonly name: BillingProviderName;
+  createCustomer(input: { orgId: string; name: string; email?: string | null }): Promise<{ customerId: string }>;
+  /** Hosted checkout for a first subscription */
+  createCheckoutSession(input: CheckoutRequest): Promise<{ id: string; url: string }>;
+  /** Move an existing subscription to another price, invoicing the difference now */
+  changeSubscription(input: SubscriptionChangeRequest): Promise<BillingSubscription>;
+  previewChange(input: SubscriptionChangeRequest): Promise<ProrationPreview>;
+  /** Cancel at the end of the period, or straight away */
+  cancelSubscription(subscriptionId: string, options?: { immediately?: boolean }): Promise<BillingSubscription>;
+  /** Undo a pending cancellation */
+  resumeSubscription(subscriptionId: string): Promise<BillingSubscription>;
+  getPaymentMethod(customerId: string): Promise<BillingPaymentMethod | null>;
+  /** Provider-hosted page for updating the payment method */
+  createPortalSession(customerId: string, returnUrl: string): Promise<{ url: string }>;
+  /**
+   * Verify the signature and normalize the event. Throws BillingProviderError
+   * with status 400 for a bad signature and 422 for a signed payload that
+   * isn't a usable event.
+   */
+  parseWebhookEvent(rawBody: string, signature: string | null): BillingEvent;
+}
+
+/**
+ * Error raised by any provider. `statusCode` is the provider's HTTP status
+ * when it rejected a request.
+ */
+export class BillingProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: BillingProviderName,
+    public readonly statusCode?: number
+  ) {
+    super(message);
+    this.name = "BillingProviderError";
+  }
+}
@@ -0,0 +1,378 @@
+/**
+ * Deterministic Call Metrics
+ *
+ * Computes talk ratio, monologues, interruptions, gaps, questions,
+ * speaking pace and a sentiment progression from timestamped transcript
+ * turns (Meet transcript entries or diarized recording segments). When
+ * available these replace the model's estimates in
+ * AnalysisResults.callMetrics and sentiment.progression.
+ */
+
+import type { AnalysisResults, ComputedCallMetrics, SpeakerMetrics } from "@/types/database";
+
+// Silences shorter than this are normal turn-taking, not gaps
+export const DEFAULT_MIN_GAP_SECONDS = 2;
+
+// An overlap shorter than this is crosstalk ("mm-hm"), not an interruption
+export const DEFAULT_MIN_INTERRUPTION_OVERLAP_SECONDS = 0.5;
+
+// Sentiment progression points per call; short calls get fewer so each
+// point still covers at least MIN_SENTIMENT_WINDOW_SECONDS of talk
+export const SENTIMENT_PROGRESSION_POINTS = 10;
+const MIN_SENTIMENT_WINDOW_SECONDS = 30;
+
+// Small sales-call lexicon; a word after a negation counts the other way
+const POSITIVE_WORDS = new Set([
+  "agree", "amazing", "appreciate", "awesome", "absolutely", "benefit", "definitely", "excellent",
+  "excited", "fantastic", "glad", "good", "great", "happy", "helpful", "interested", "like", "love",
+  "nice", "perfect", "pleased", "sure", "thanks", "thank", "useful", "valuable", "works", "yes",
+]);
+const NEGATIVE_WORDS = new Set([
+  "annoyed", "bad", "broken", "cancel", "complicated", "concern", "concerned", "confusing",
+  "disappointed", "difficult", "expensive", "frustrated", "frustrating", "hate", "issue", "issues",
+  "problem", "problems", "unfortunately", "unhappy", "worried", "worse", "worst", "wrong",
+]);
+const NEGATIONS = new Set([
+  "not", "no", "never", "don't", "doesn't", "didn't", "isn't", "wasn't", "aren't", "can't", "won't",
+]);
+
+/**
+ * One timestamped piece of speech, in seconds from the start of the call
+ */
+export interface TimedUtterance {
+  speaker: string;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface CallMetricsOptions {
+  // Speaker key of the rep being evaluated, if known
+  repSpeaker?: string | null;
+  // Speaker key -> display name
+  speakerNames?: Map<string, string>;
+  minGapSeconds?: number;
+  minInterruptionOverlapSeconds?: number;
+}
+
+// ============================================================================
+// INPUT CONVERSION
+// ============================================================================
+
+/**
+ * Convert Meet transcript entries (absolute RFC 3339 times) into utterances
+ * relative to the first entry. Entries with unparseable times are dropped.
+ */
+export function meetEntriesToUtterances(
+  entries: { participant: string; text: string; startTime: string; endTime: string }[]
+): TimedUtterance[] {
+  const parsed = entries
+    .map((entry) => ({
+      speaker: entry.participant,
+      start: Date.parse(entry.startTime),
+      end: Date.parse(entry.endTime),
+      text: entry.text,
+    }))
+    .filter((u) => !Number.isNaN(u.start) && !Number.isNaN(u.end));
+
+  if (parsed.length === 0) {
+    return [];
+  }
+
+  const origin = Math.min(...parsed.map((u) => u.start));
+
+  return parsed.map((u) => ({
+    ...u,
+    start: (u.start - origin) / 1000,
+    end: (Math.max(u.start, u.end) - origin) / 1000,
+  }));
+}
+
+// ============================================================================
+// COMPUTATION
+// ============================================================================
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function countQuestions(text: string): number {
+  return (text.match(/\?+/g) || []).length;
+}
+
+function round(value: number, places: number = 2): number {
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Count positive and negative lexicon words, flipping words that follow a
+ * negation ("not happy").
+ */
+function countSentimentWords(text: string): { positive: number; negative: number } {
+  const words = text.toLowerCase().replace(/’/g, "'").match(/[a-z']+/g) || [];
+  let positive = 0;
+  let negative = 0;
+
+  words.forEach((word, i) => {
+    const polarity = POSITIVE_WORDS.has(word) ? 1 : NEGATIVE_WORDS.has(word) ? -1 : 0;
+    if (polarity === 0) return;
+
+    const negated = NEGATIONS.has(words[i - 1]) || NEGATIONS.has(words[i - 2]);
+    if ((polarity > 0) !== negated) positive++;
+    else negative++;
+  });
+
+  return { positive, negative };
+}
+
+/**
+ * Sentiment over the call in equal windows, -1 (negative) to 1 (positive),
+ * from lexicon words. Follows the other party when the rep is known (how
+ * the customer felt), everyone otherwise. Windows without sentiment words
+ * are neutral.
+ *
+ * @param turns - Utterances sorted by start time
+ * @param repSpeaker - Speaker key of the rep, if known
+ * @returns Points with timestamps in seconds from the first utterance
+ */
+export function computeSentimentProgression(
+  turns: TimedUtterance[],
+  repSpeaker: string | null = null
+): Array<{ timestamp: number; sentiment: number }> {
+  if (turns.length === 0) {
+    return [];
+  }
+
+  const origin = turns[0].start;
+  const duration = Math.max(...turns.map((t) => t.end)) - origin;
+  const points = Math.max(
+    1,
+    Math.min(SENTIMENT_PROGRESSION_POINTS, Math.floor(duration / MIN_SENTIMENT_WINDOW_SECONDS))
+  );
+  const windowSeconds = duration / points || 1;
+
+  const windows = Array.from({ length: points }, () => ({ positive: 0, negative: 0 }));
+  const followed = repSpeaker && turns.some((t) => t.speaker !== repSpeaker)
+    ? turns.filter((t) => t.speaker !== repSpeaker)
+    : turns;
+
+  for (const turn of followed) {
+    const index = Math.min(points - 1, Math.floor((turn.start - origin) / windowSeconds));
+    const counts = countSentimentWords(turn.text);
+    windows[index].positive += counts.positive;
+    windows[index].negative += counts.negative;
+  }
+
+  return windows.map((w, i) => ({
+    timestamp: Math.round(i * windowSeconds),
+    sentiment:
+      w.positive + w.negative > 0 ? round((w.positive - w.negative) / (w.positive + w.negative)) : 0,
+  }));
+}
+
+/**
+ * Compute call metrics from timestamped utterances.
+ *
+ * - Talk time is summed per speaker; overlapping speech counts for both.
+ * - A monologue is a run of consecutive utterances by one speaker.
+ * - An interruption is an utterance that starts while another speaker's is
+ *   still going, by at least the overlap threshold.
+ * - Gaps are stretches where nobody is speaking.
+ *
+ * @param utterances - Timestamped speech, any order
+ * @param options - Rep speaker, display names and thresholds
+ * @returns Metrics, or null if there is no timed speech
+ */
+export function computeCallMetrics(
+  utterances: TimedUtterance[],
+  options: CallMetricsOptions = {}
+): ComputedCallMetrics | null {
+  const {
+    repSpeaker = null,
+    speakerNames = new Map<string, string>(),
+    minGapSeconds = DEFAULT_MIN_GAP_SECONDS,
+    minInterruptionOverlapSeconds = DEFAULT_MIN_INTERRUPTION_OVERLAP_SECONDS,
+  } = options;
+
+  const turns = utterances
+    .filter((u) => u.end >= u.start && u.text.trim())
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+
+  if (turns.length === 0) {
+    return null;
+  }
+
+  const bySpeaker = new Map<string, SpeakerMetrics>();
+  const statsFor = (speaker: string): SpeakerMetrics => {
+    let stats = bySpeaker.get(speaker);
+    if (!stats) {
+      stats = {
+        speaker,
+        name: speakerNames.get(speaker) || speaker,
+        isRep: speaker === repSpeaker,
+        talkTimeSeconds: 0,
+        talkRatio: 0,
+        turns: 0,
+        words: 0,
+        wordsPerMinute: 0,
+        questionCount: 0,
+        longestMonologueSeconds: 0,
+        interruptions: 0,
+      };
+      bySpeaker.set(speaker, stats);
+    }
+    return stats;
+  };
+
+  let gapCount = 0;
+  let silenceDuration = 0;
+  let longestGapSeconds = 0;
+  let coveredUntil = turns[0].start;
+
+  let runSpeaker: string | null = null;
+  let runStart = 0;
+  let runEnd = 0;
+
+  for (let i = 0; i < turns.length; i++) {
+    const turn = turns[i];
+    const stats = statsFor(turn.speaker);
+
+    stats.talkTimeSeconds += turn.end - turn.start;
+    stats.words += countWords(turn.text);
+    stats.questionCount += countQuestions(turn.text);
+
+    // Interruption: another speaker is still talking when this one starts
+    for (let j = i - 1; j >= 0; j--) {
+      const previous = turns[j];
+      if (
+        previous.speaker !== turn.speaker &&
+        previous.end - turn.start >= minInterruptionOverlapSeconds &&
+        previous.start < turn.start
+      ) {
+        stats.interruptions++;
+        break;
+      }
+    }
+
+    // Gaps: time nobody covered since the last speech ended
+    if (turn.start > coveredUntil) {
+      const gap = turn.start - coveredUntil;
+      if (gap >= minGapSeconds) {
+        gapCount++;
+        silenceDuration += gap;
+        longestGapSeconds = Math.max(longestGapSeconds, gap);
+      }
+    }
+    coveredUntil = Math.max(coveredUntil, turn.end);
+
+    // Monologues: consecutive utterances by the same speaker
+    if (turn.speaker !== runSpeaker) {
+      if (runSpeaker !== null) {
+        const runStats = statsFor(runSpeaker);
+        runStats.longestMonologueSeconds = Math.max(runStats.longestMonologueSeconds, runEnd - runStart);
+      }
+      runSpeaker = turn.speaker;
+      runStart = turn.start;
+      runEnd = turn.end;
+      stats.turns++;
+    } else {
+      runEnd = Math.max(runEnd, turn.end);
+    }
+  }
+
+  if (runSpeaker !== null) {
+    const runStats = statsFor(runSpeaker);
+    runStats.longestMonologueSeconds = Math.max(runStats.longestMonologueSeconds, runEnd - runStart);
+  }
+
+  const speakers = [...bySpeaker.values()];
+  const totalTalk = speakers.reduce((sum, s) => sum + s.talkTimeSeconds, 0);
+
+  for (const s of speakers) {
+    s.talkRatio = totalTalk > 0 ? round(s.talkTimeSeconds / totalTalk, 3) : 0;
+    s.wordsPerMinute = s.talkTimeSeconds > 0 ? Math.round(s.words / (s.talkTimeSeconds / 60)) : 0;
+    s.talkTimeSeconds = round(s.talkTimeSeconds, 1);
+    s.longestMonologueSeconds = round(s.longestMonologueSeconds, 1);
+  }
+
+  speakers.sort((a, b) => b.talkTimeSeconds - a.talkTimeSeconds);
+
+  const rep = speakers.find((s) => s.isRep) || null;
+  const longest = speakers.reduce((a, b) => (b.longestMonologueSeconds > a.longestMonologueSeconds ? b : a));
+  const totalWords = speakers.reduce((sum, s) => sum + s.words, 0);
+  const durationSeconds = coveredUntil - turns[0].start;
+
+  return {
+    source: "transcript_timestamps",
+    durationSeconds: round(durationSeconds, 1),
+    talkTimeSeconds: round(totalTalk, 1),
+    repSpeaker: rep?.speaker || null,
+    talkRatio: rep ? rep.talkRatio : null,
+    questionCount: rep ? rep.questionCount : speakers.reduce((sum, s) => sum + s.questionCount, 0),
+    interruptionCount: rep ? rep.interruptions : speakers.reduce((sum, s) => sum + s.interruptions, 0),
+    longestMonologueSeconds: longest.longestMonologueSeconds,
+    longestMonologueSpeaker: longest.speaker,
+    gapCount,
+    silenceDuration: round(silenceDuration, 1),
+    longestGapSeconds: round(longestGapSeconds, 1),
+    wordsPerMinute: rep
+      ? rep.wordsPerMinute
+      : totalTalk > 0
+        ? Math.round(totalWords / (totalTalk / 60))
+        : 0,
+    sentimentProgression: computeSentimentProgression(turns, rep?.speaker || null),
+    speakers,
+  };
+}
+
+/**
+ * Replace the model's estimated callMetrics and sentiment progression with
+ * computed values. Talk ratio is only replaced when the rep is known;
+ * otherwise the model's reading of who the rep is stands. The overall
+ * sentiment stays the model's.
+ */
+export function applyComputedMetrics(
+  analysis: AnalysisResults,
+  metrics: ComputedCallMetrics | null | undefined
+): AnalysisResults {
+  if (!metrics) {
+    return analysis;
+  }
+
+  return {
+    ...analysis,
+    sentiment: metrics.sentimentProgression?.length
+      ? { ...analysis.sentiment, progression: metrics.sentimentProgression }
+      : analysis.sentiment,
+    callMetrics: {
+      ...analysis.callMetrics,
+      talkRatio: metrics.talkRatio ?? analysis.callMetrics.talkRatio,
+      questionCount: metrics.questionCount,
+      interruptionCount: metrics.interruptionCount,
+      silenceDuration: metrics.silenceDuration,
+      longestMonologueSeconds: metrics.longestMonologueSeconds,
+      wordsPerMinute: metrics.wordsPerMinute,
+      gapCount: metrics.gapCount,
+      computed: true,
+    },
+  };
+}
+
+/**
+ * Summary of measured metrics for the analysis prompt, so written feedback
+ * agrees with the numbers shown next to it.
+ */
+export function describeCallMetrics(metrics: ComputedCallMetrics): string {
+  const lines = metrics.speakers.map(
+    (s) =>
+      `- ${s.name}${s.isRep ? " (rep)" : ""}: ${Math.round(s.talkRatio * 100)}% of talk time, ` +
+      `${s.questionCount} questions, longest monologue ${Math.round(s.longestMonologueSeconds)}s, ` +
+      `${s.wordsPerMinute} wpm, ${s.interruptions} interruptions`
+  );
+
+  return `## Measured Call Metrics (from transcript timestamps, do not re-estimate):
+${lines.join("\n")}
+- Gaps of silence: ${metrics.gapCount} (${Math.round(metrics.silenceDuration)}s total)
+`;
+}
@@ -0,0 +1,100 @@
+/**
+ * Calendar Agent Mapping
+ *
+ * Resolves which org member a calendar event's session is for, following
+ * the calendar link's agent_mapping:
+ * - attendee_email: the first non-organizer attendee who is a member
+ * - organizer: the event organizer
+ * - custom_field: an event property named by `field` (Google extended
+ *   properties, private over shared), holding a member's email or user ID
+ *
+ * With fallback_to_organizer, an unresolved attendee or custom field falls
+ * back to the organizer. Events that still have no agent go to the review
+ * queue instead of creating an agentless session.
+ *
+ * Uses no credentials or database access, so it isn't marked server-only
+ * and can run under the test runner.
+ */
+
+import type { AgentMapping } from "@/types/database";
+import type { ConnectorCalendarEvent } from "./types";
+
+export const DEFAULT_AGENT_MAPPING: AgentMapping = {
+  type: "attendee_email",
+  field: "email",
+  fallback_to_organizer: false,
+};
+
+export type AgentResolution =
+  | { agentId: string; source: AgentMapping["type"] | "organizer_fallback" }
+  | { agentId: null; reason: string };
+
+/**
+ * Resolve an event's agent. `userMapping` maps lowercased member emails to
+ * user IDs.
+ */
+export function resolveEventAgent(
+  event: ConnectorCalendarEvent,
+  mapping: AgentMapping | null,
+  userMapping: Map<string, string>
+): AgentResolution {
+  const { type, field, fallback_to_organizer } = { ...DEFAULT_AGENT_MAPPING, ...mapping };
+
+  const organizerId = event.organizerEmail
+    ? userMapping.get(event.organizerEmail.toLowerCase()) || null
+    : null;
+
+  let reason: string;
+
+  switch (type) {
+    case "organizer":
+      if (organizerId) return { agentId: organizerId, source: "organizer" };
+      return {
+        agentId: null,
+        reason: event.organizerEmail
+          ? `Organizer ${event.organizerEmail} is not a member`
+          : "Event has no organizer",
+      };
+
+    case "custom_field": {
+      const value = event.properties[field];
+      const agentId = value ? resolveMemberReference(value, userMapping) : null;
+      if (agentId) return { agentId, source: "custom_field" };
+      reason = value
+        ? `Property "${field}" (${value}) doesn't match a member`
+        : `Event has no "${field}" property`;
+      break;
+    }
+
+    case "attendee_email":
+    default: {
+      for (const attendee of event.attendees) {
+        if (attendee.organizer) continue;
+        const agentId = userMapping.get(attendee.email.toLowerCase());
+        if (agentId) return { agentId, source: "attendee_email" };
+      }
+      reason = "No attendee matches a member";
+      break;
+    }
+  }
+
+  if (fallback_to_organizer && organizerId) {
+    return { agentId: organizerId, source: "organizer_fallback" };
+  }
+
+  return { agentId: null, reason };
+}
+
+/**
+ * A custom property may hold a member's email or their user ID
+ */
+function resolveMemberReference(value: string, userMapping: Map<string, string>): string | null {
+  const trimmed = value.trim();
+  const byEmail = userMapping.get(trimmed.toLowerCase());
+  if (byEmail) return byEmail;
+
+  for (const userId of userMapping.values()) {
+    if (userId === trimmed) return userId;
+  }
+  return null;
+}
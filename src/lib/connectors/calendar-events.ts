@@ -0,0 +1,159 @@
+/**
+ * Calendar Event Helpers
+ *
+ * Filtering, timing and fetching for provider-neutral calendar events.
+ */
+
+import {
+  SyncCursorExpiredError,
+  type CalendarConnector,
+  type CalendarEventChanges,
+  type ConnectorCalendarEvent,
+  type EventFilter,
+} from "./types";
+import type { CalendarSyncMode } from "@/types/database";
+
+// Sessions are only created for events starting within this many hours;
+// later ones are picked up by the windowed listing as they come into range
+export const SESSION_HORIZON_HOURS = 24;
+
+/**
+ * Check if an event matches the given filter criteria
+ */
+export function matchesEventFilter(event: ConnectorCalendarEvent, filter: EventFilter): boolean {
+  // Skip cancelled events
+  if (event.status === "cancelled") {
+    return false;
+  }
+
+  // Check all-day events
+  if (filter.excludeAllDayEvents && event.allDay) {
+    return false;
+  }
+
+  // Check keywords
+  if (filter.keywords && filter.keywords.length > 0) {
+    const searchText = `${event.title || ""} ${event.description || ""}`.toLowerCase();
+    const hasKeyword = filter.keywords.some((keyword) =>
+      searchText.includes(keyword.toLowerCase())
+    );
+    if (!hasKeyword) {
+      return false;
+    }
+  }
+
+  // Check duration (all-day events have no meaningful duration)
+  if ((filter.minDurationMinutes || filter.maxDurationMinutes) && !event.allDay) {
+    const durationMinutes =
+      (new Date(event.end).getTime() - new Date(event.start).getTime()) / 1000 / 60;
+
+    if (!Number.isNaN(durationMinutes)) {
+      if (filter.minDurationMinutes && durationMinutes < filter.minDurationMinutes) {
+        return false;
+      }
+      if (filter.maxDurationMinutes && durationMinutes > filter.maxDurationMinutes) {
+        return false;
+      }
+    }
+  }
+
+  // Check video conference
+  if (filter.hasVideoConference && !event.hasVideoConference) {
+    return false;
+  }
+
+  // Check attendees
+  if (filter.attendeeEmails && filter.attendeeEmails.length > 0) {
+    const eventAttendees = event.attendees.map((a) => a.email.toLowerCase());
+    const hasAttendee = filter.attendeeEmails.some((email) =>
+      eventAttendees.includes(email.toLowerCase())
+    );
+    if (!hasAttendee) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Get the end time of an event as a Date
+ */
+export function getEventEndTime(event: ConnectorCalendarEvent): Date {
+  return new Date(event.end);
+}
+
+/**
+ * Get the start time of an event as a Date
+ */
+export function getEventStartTime(event: ConnectorCalendarEvent): Date {
+  return new Date(event.start);
+}
+
+/**
+ * Whether an event may get a session: it hasn't ended before the sync
+ * window and starts no later than the horizon. Later events get theirs once
+ * the windowed listing brings them into range.
+ */
+export function isInSessionRange(event: ConnectorCalendarEvent, windowStart: Date, horizon: Date): boolean {
+  return !(getEventEndTime(event) < windowStart) && !(getEventStartTime(event) > horizon);
+}
+
+/**
+ * Combine incremental changes with a window listing. The changes win for
+ * events in both, since they carry cancellations the listing leaves out.
+ */
+export function mergeEventLists(
+  changes: ConnectorCalendarEvent[],
+  windowEvents: ConnectorCalendarEvent[]
+): ConnectorCalendarEvent[] {
+  const changedIds = new Set(changes.map((event) => event.id));
+  return [...changes, ...windowEvents.filter((event) => !changedIds.has(event.id))];
+}
+
+export interface EventFetchResult {
+  changes: CalendarEventChanges;
+  syncMode: CalendarSyncMode;
+  /** Why a full sync ran instead of an incremental one */
+  fullSyncReason: "initial" | "forced" | "token_expired" | null;
+}
+
+/**
+ * Fetch a link's events for a sync run: changes since the cursor plus
+ * everything up to the session horizon, or a full sync from `windowStart`
+ * when there's no usable cursor.
+ */
+export async function fetchEventChanges(
+  connector: Pick<CalendarConnector, "listEventChanges" | "listEventsInWindow">,
+  accessToken: string,
+  calendarId: string,
+  options: { cursor: string | null; forceFullSync: boolean; windowStart: Date; horizon: Date }
+): Promise<EventFetchResult> {
+  const { cursor, forceFullSync, windowStart, horizon } = options;
+  let fullSyncReason: EventFetchResult["fullSyncReason"] = forceFullSync ? "forced" : "initial";
+
+  if (cursor && !forceFullSync) {
+    let changes: CalendarEventChanges | null = null;
+    try {
+      changes = await connector.listEventChanges(accessToken, calendarId, { cursor });
+    } catch (error) {
+      if (!(error instanceof SyncCursorExpiredError)) throw error;
+      fullSyncReason = "token_expired";
+    }
+
+    if (changes) {
+      const windowEvents = await connector.listEventsInWindow(accessToken, calendarId, windowStart, horizon);
+      return {
+        changes: { events: mergeEventLists(changes.events, windowEvents), cursor: changes.cursor },
+        syncMode: "incremental",
+        fullSyncReason: null,
+      };
+    }
+  }
+
+  return {
+    changes: await connector.listEventChanges(accessToken, calendarId, { windowStart }),
+    syncMode: "full",
+    fullSyncReason,
+  };
+}
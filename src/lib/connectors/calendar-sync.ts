@@ -0,0 +1,814 @@
+/**
+ * Calendar Sync Library
+ *
+ * Handles syncing Google and Outlook calendar events to scoring sessions
+ * through the link's calendar connector.
+ * Creates sessions automatically from calendar events based on filter criteria,
+ * with the agent resolved through the link's agent_mapping. Events whose
+ * agent can't be resolved are queued in calendar_event_reviews.
+ *
+ * Syncs are incremental (from the connector's cursor: a Google sync token
+ * or a Graph delta link), and sessions follow their events: they're
+ * rescheduled when an event moves and cancelled when it's cancelled.
+ * Bidirectional links also write session status back to the event (see
+ * google/calendar-writeback.ts); only Google supports that.
+ */
+
+import "server-only";
+import { createAdminClient } from "@/lib/supabase/server";
+import { normalizeMeetCode } from "@/lib/google/session-match";
+import { verifyCalendarNotification } from "@/lib/google/calendar-channels";
+import { writeSessionToCalendar } from "@/lib/google/calendar-writeback";
+import { getCalendarConnector } from "./index";
+import {
+  SESSION_HORIZON_HOURS,
+  fetchEventChanges,
+  isInSessionRange,
+  matchesEventFilter,
+} from "./calendar-events";
+import { resolveEventAgent } from "./agent-mapping";
+import type { ConnectorCalendarEvent, EventFilter } from "./types";
+import type {
+  AgentMapping,
+  CalendarSyncMode,
+  CalendarSyncType,
+  ConnectorProvider,
+  SessionStatus,
+  SyncDirection,
+} from "@/types/database";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CalendarLink {
+  id: string;
+  org_id: string;
+  template_id: string;
+  provider: ConnectorProvider;
+  google_connection_id: string | null;
+  microsoft_connection_id: string | null;
+  calendar_id: string;
+  calendar_name: string;
+  google_account_email: string;
+  event_filter: EventFilter | null;
+  sync_enabled: boolean;
+  auto_create_sessions: boolean;
+  sync_direction: SyncDirection;
+  agent_mapping: AgentMapping | null;
+  default_coach_id: string | null;
+  last_sync_at: string | null;
+  last_sync_error: string | null;
+  sync_cursor: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CalendarSyncResult {
+  linkId: string;
+  calendarId: string;
+  syncMode: CalendarSyncMode | null;
+  /** Why a full sync ran instead of an incremental one */
+  fullSyncReason: "initial" | "forced" | "token_expired" | null;
+  eventsChecked: number;
+  sessionsCreated: number;
+  sessionsSkipped: number;
+  sessionsUpdated: number;
+  sessionsCancelled: number;
+  eventsQueued: number;
+  errors: string[];
+  newSessionIds: string[];
+}
+
+export interface UserMapping {
+  email: string;
+  userId: string;
+}
+
+interface EventSession {
+  id: string;
+  status: SessionStatus;
+  google_event_title: string | null;
+  google_event_start: string | null;
+  google_event_end: string | null;
+}
+
+const EVENT_SESSION_COLUMNS = "id, status, google_event_title, google_event_start, google_event_end";
+
+// Sessions that haven't been scored yet follow their event when it's cancelled
+const CANCELLABLE_STATUSES: SessionStatus[] = ["pending", "in_progress"];
+
+export class CalendarReviewError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CalendarReviewError";
+  }
+}
+
+// ============================================================================
+// SYNC FUNCTIONS
+// ============================================================================
+
+/**
+ * Sync a single calendar link.
+ *
+ * Runs incrementally from the link's sync cursor when it has one, fetching
+ * events changed since the last run plus those in the window up to the
+ * session horizon. Otherwise (or when forced, or when the provider rejects
+ * an expired cursor) it runs a full sync of events from `windowHours` ago
+ * onwards. Sessions are only created for events starting within
+ * SESSION_HORIZON_HOURS. Every run is recorded in calendar_sync_logs.
+ */
+export async function syncCalendarLink(
+  linkId: string,
+  options: {
+    windowHours?: number;
+    forceFullSync?: boolean;
+    trigger?: CalendarSyncType;
+  } = {}
+): Promise<CalendarSyncResult> {
+  const { windowHours = 168, forceFullSync = false, trigger = "manual" } = options; // Default 7 days
+
+  const result: CalendarSyncResult = {
+    linkId,
+    calendarId: "",
+    syncMode: null,
+    fullSyncReason: null,
+    eventsChecked: 0,
+    sessionsCreated: 0,
+    sessionsSkipped: 0,
+    sessionsUpdated: 0,
+    sessionsCancelled: 0,
+    eventsQueued: 0,
+    errors: [],
+    newSessionIds: [],
+  };
+
+  const supabase = createAdminClient();
+  const startTime = new Date();
+  let logId: string | null = null;
+
+  try {
+    // Fetch the calendar link
+    const { data: link, error: linkError } = await supabase
+      .from("google_calendar_links")
+      .select("*")
+      .eq("id", linkId)
+      .single();
+
+    if (linkError || !link) {
+      throw new Error(`Calendar link not found: ${linkId}`);
+    }
+
+    const calendarLink = link as CalendarLink;
+    result.calendarId = calendarLink.calendar_id;
+
+    // Check if sync is enabled
+    if (!calendarLink.sync_enabled) {
+      result.errors.push("Sync is disabled for this calendar link");
+      return result;
+    }
+
+    logId = await createCalendarSyncLog(calendarLink, trigger);
+
+    const connector = getCalendarConnector(calendarLink.provider);
+    const accessToken = await connector.getAccessToken(getLinkConnectionId(calendarLink));
+
+    const now = new Date();
+    const windowStart = new Date(now.getTime() - windowHours * 60 * 60 * 1000);
+
+    const horizon = new Date(now.getTime() + SESSION_HORIZON_HOURS * 60 * 60 * 1000);
+
+    // Fetch changed events, falling back to a full sync without a usable cursor
+    const { changes, syncMode, fullSyncReason } = await fetchEventChanges(
+      connector,
+      accessToken,
+      calendarLink.calendar_id,
+      { cursor: calendarLink.sync_cursor, forceFullSync, windowStart, horizon }
+    );
+    result.syncMode = syncMode;
+    result.fullSyncReason = fullSyncReason;
+
+    const allEvents = changes.events;
+    result.eventsChecked = allEvents.length;
+
+    // Get event filter
+    const eventFilter = calendarLink.event_filter || {};
+
+    // Build user mapping for attendees
+    const userMapping = await buildUserMapping(calendarLink.org_id);
+
+    const bidirectional =
+      connector.supportsWriteback && calendarLink.sync_direction === "bidirectional";
+
+    // Process each event
+    for (const event of allEvents) {
+      try {
+        // Check if session already exists for this event
+        const { data: existingSession } = await supabase
+          .from("sessions")
+          .select(EVENT_SESSION_COLUMNS)
+          .eq("google_event_id", event.id)
+          .eq("template_id", calendarLink.template_id)
+          .maybeSingle();
+
+        if (existingSession) {
+          const change = await applyEventChange(existingSession as EventSession, event);
+
+          if (change === "cancelled") result.sessionsCancelled++;
+          else if (change === "rescheduled") result.sessionsUpdated++;
+          else result.sessionsSkipped++;
+          continue;
+        }
+
+        if (event.status === "cancelled") {
+          await dismissCancelledReview(calendarLink.id, event.id);
+          result.sessionsSkipped++;
+          continue;
+        }
+
+        // Incremental runs also see edits to long-past events, and full syncs
+        // list events well beyond the horizon; neither gets a session yet
+        if (!isInSessionRange(event, windowStart, horizon)) {
+          result.sessionsSkipped++;
+          continue;
+        }
+
+        // Check if event matches filter
+        if (!matchesEventFilter(event, eventFilter)) {
+          result.sessionsSkipped++;
+          continue;
+        }
+
+        // Only create session if auto_create_sessions is enabled
+        if (!calendarLink.auto_create_sessions) {
+          result.sessionsSkipped++;
+          continue;
+        }
+
+        const resolution = resolveEventAgent(event, calendarLink.agent_mapping, userMapping);
+
+        if (resolution.agentId === null) {
+          if (await queueEventForReview(event, calendarLink, resolution.reason)) {
+            result.eventsQueued++;
+          } else {
+            result.sessionsSkipped++;
+          }
+          continue;
+        }
+
+        // Create session
+        const sessionId = await createSessionFromEvent(
+          event,
+          calendarLink,
+          userMapping,
+          resolution.agentId
+        );
+
+        if (sessionId) {
+          result.sessionsCreated++;
+          result.newSessionIds.push(sessionId);
+
+          if (bidirectional) {
+            await writeSessionToCalendar(sessionId);
+          }
+        }
+      } catch (error) {
+        result.errors.push(
+          `Event ${event.id}: ${error instanceof Error ? error.message : "Unknown error"}`
+        );
+      }
+    }
+
+    // Save the cursor for the next incremental run, and update last sync time
+    await supabase
+      .from("google_calendar_links")
+      .update({
+        sync_cursor: changes.cursor,
+        last_sync_at: now.toISOString(),
+        last_sync_error: result.errors.length > 0 ? result.errors.join("; ") : null,
+        ...(result.syncMode === "full" && { last_full_sync_at: now.toISOString() }),
+      })
+      .eq("id", linkId);
+
+    if (logId) {
+      await updateCalendarSyncLog(logId, "completed", result, startTime);
+    }
+
+    return result;
+  } catch (error) {
+    result.errors.push(error instanceof Error ? error.message : "Unknown error");
+
+    // Update error status
+    await supabase
+      .from("google_calendar_links")
+      .update({
+        last_sync_error: result.errors.join("; "),
+      })
+      .eq("id", linkId);
+
+    if (logId) {
+      await updateCalendarSyncLog(logId, "failed", result, startTime);
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Sync all calendar links for an organization
+ */
+export async function syncOrgCalendars(
+  orgId: string,
+  options: {
+    windowHours?: number;
+    forceFullSync?: boolean;
+  } = {}
+): Promise<CalendarSyncResult[]> {
+  const supabase = createAdminClient();
+
+  // Get all enabled calendar links for the org
+  const { data: links, error } = await supabase
+    .from("google_calendar_links")
+    .select("id")
+    .eq("org_id", orgId)
+    .eq("sync_enabled", true);
+
+  if (error || !links) {
+    return [];
+  }
+
+  // Sync each link
+  const results: CalendarSyncResult[] = [];
+  for (const link of links) {
+    const result = await syncCalendarLink(link.id, options);
+    results.push(result);
+  }
+
+  return results;
+}
+
+/**
+ * Sync all enabled calendar links (for cron job). With `withoutPushOnly`,
+ * only links no push channel keeps current: Outlook links, and Google links
+ * whose channel couldn't be registered.
+ */
+export async function syncAllCalendars(
+  options: {
+    windowHours?: number;
+    maxLinks?: number;
+    withoutPushOnly?: boolean;
+    /** Stop starting new links after this time (ms since epoch) */
+    deadline?: number;
+  } = {}
+): Promise<{
+  synced: number;
+  sessionsCreated: number;
+  errors: string[];
+}> {
+  const { windowHours = 24, maxLinks = 100, withoutPushOnly = false, deadline } = options;
+  const supabase = createAdminClient();
+
+  // Get all enabled calendar links, least recently synced first
+  let query = supabase
+    .from("google_calendar_links")
+    .select("id")
+    .eq("sync_enabled", true)
+    .order("last_sync_at", { ascending: true, nullsFirst: true })
+    .limit(maxLinks);
+
+  if (withoutPushOnly) {
+    query = query.is("webhook_channel_id", null);
+  }
+
+  const { data: links, error } = await query;
+
+  if (error || !links) {
+    return { synced: 0, sessionsCreated: 0, errors: [error?.message || "No links found"] };
+  }
+
+  let synced = 0;
+  let totalSessionsCreated = 0;
+  const allErrors: string[] = [];
+
+  for (const link of links) {
+    if (deadline && Date.now() > deadline) break;
+
+    synced++;
+    try {
+      const result = await syncCalendarLink(link.id, { windowHours, trigger: "cron" });
+      totalSessionsCreated += result.sessionsCreated;
+      allErrors.push(...result.errors);
+    } catch (error) {
+      allErrors.push(`Link ${link.id}: ${error instanceof Error ? error.message : "Unknown"}`);
+    }
+  }
+
+  return {
+    synced,
+    sessionsCreated: totalSessionsCreated,
+    errors: allErrors,
+  };
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * The connection a link syncs through, for its provider
+ */
+function getLinkConnectionId(link: CalendarLink): string {
+  const connectionId =
+    link.provider === "microsoft" ? link.microsoft_connection_id : link.google_connection_id;
+
+  if (!connectionId) {
+    throw new Error(`Calendar link ${link.id} has no ${link.provider} connection`);
+  }
+
+  return connectionId;
+}
+
+/**
+ * Start a calendar_sync_logs entry for a run. Logging never fails a sync.
+ */
+async function createCalendarSyncLog(
+  link: CalendarLink,
+  syncType: CalendarSyncType
+): Promise<string | null> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from("calendar_sync_logs")
+    .insert({
+      org_id: link.org_id,
+      calendar_link_id: link.id,
+      sync_type: syncType,
+      status: "started",
+    })
+    .select("id")
+    .single();
+
+  if (error) {
+    console.error(`[Calendar Sync] Failed to create sync log for link ${link.id}:`, error);
+    return null;
+  }
+
+  return data.id;
+}
+
+/**
+ * Record a run's outcome on its sync log
+ */
+async function updateCalendarSyncLog(
+  logId: string,
+  status: "completed" | "failed",
+  result: CalendarSyncResult,
+  startTime: Date
+): Promise<void> {
+  const supabase = createAdminClient();
+  const completedAt = new Date();
+
+  await supabase
+    .from("calendar_sync_logs")
+    .update({
+      status,
+      sync_mode: result.syncMode || undefined,
+      full_sync_reason: result.fullSyncReason || undefined,
+      events_checked: result.eventsChecked,
+      sessions_created: result.sessionsCreated,
+      sessions_updated: result.sessionsUpdated,
+      sessions_cancelled: result.sessionsCancelled,
+      sessions_skipped: result.sessionsSkipped,
+      events_queued: result.eventsQueued,
+      error_message: result.errors.length > 0 ? result.errors[result.errors.length - 1] : null,
+      error_details: result.errors.length > 1 ? { errors: result.errors } : null,
+      completed_at: completedAt.toISOString(),
+      duration_ms: completedAt.getTime() - startTime.getTime(),
+    })
+    .eq("id", logId);
+}
+
+/**
+ * Build a mapping of email -> userId for an organization
+ */
+async function buildUserMapping(orgId: string): Promise<Map<string, string>> {
+  const supabase = createAdminClient();
+  const mapping = new Map<string, string>();
+
+  const { data: profiles } = await supabase
+    .from("users")
+    .select("id, email")
+    .eq("org_id", orgId);
+
+  if (profiles) {
+    for (const profile of profiles) {
+      if (profile.email) {
+        mapping.set(profile.email.toLowerCase(), profile.id);
+      }
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Create a session from a calendar event for an already resolved agent
+ */
+async function createSessionFromEvent(
+  event: ConnectorCalendarEvent,
+  link: CalendarLink,
+  userMapping: Map<string, string>,
+  agentId: string
+): Promise<string | null> {
+  const supabase = createAdminClient();
+
+  // Use default coach or organizer
+  let coachId = link.default_coach_id;
+  if (!coachId && event.organizerEmail) {
+    coachId = userMapping.get(event.organizerEmail.toLowerCase()) || null;
+  }
+
+  // Get template snapshot
+  const { data: template } = await supabase
+    .from("templates")
+    .select("*")
+    .eq("id", link.template_id)
+    .single();
+
+  if (!template) {
+    throw new Error("Template not found");
+  }
+
+  // Get groups and criteria for snapshot
+  const { data: groups } = await supabase
+    .from("criteria_groups")
+    .select("*")
+    .eq("template_id", link.template_id)
+    .order("sort_order");
+
+  const { data: criteria } = await supabase
+    .from("criteria")
+    .select("*")
+    .eq("template_id", link.template_id)
+    .order("sort_order");
+
+  // Build template snapshot
+  const templateSnapshot = {
+    ...template,
+    groups: groups || [],
+    criteria: criteria || [],
+  };
+
+  // Meet code or Teams meeting key (normalized so transcripts can be matched)
+  const meetCode = normalizeMeetCode(event.meetingCode);
+
+  // Create session
+  const { data: session, error } = await supabase
+    .from("sessions")
+    .insert({
+      org_id: link.org_id,
+      template_id: link.template_id,
+      template_snapshot: templateSnapshot,
+      coach_id: coachId,
+      agent_id: agentId,
+      status: "pending",
+      google_event_id: event.id,
+      google_event_title: event.title || "Untitled Event",
+      google_event_start: event.start,
+      google_event_end: event.end,
+      google_calendar_link_id: link.id,
+      google_meet_code: meetCode,
+    })
+    .select("id")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create session: ${error.message}`);
+  }
+
+  return session?.id || null;
+}
+
+/**
+ * Follow a moved or cancelled event. Returns what changed, or null when
+ * the session already matches the event.
+ */
+async function applyEventChange(
+  session: EventSession,
+  event: ConnectorCalendarEvent
+): Promise<"cancelled" | "rescheduled" | null> {
+  const supabase = createAdminClient();
+
+  if (event.status === "cancelled") {
+    // Scored sessions outlive their event
+    if (!CANCELLABLE_STATUSES.includes(session.status)) return null;
+
+    await supabase
+      .from("sessions")
+      .update({
+        status: "cancelled",
+        cancelled_at: new Date().toISOString(),
+        cancellation_reason: "Calendar event was cancelled",
+      })
+      .eq("id", session.id);
+
+    await supabase.from("session_audit_log").insert({
+      session_id: session.id,
+      action: "cancelled",
+      details: { previous_status: session.status, source: "calendar" },
+    });
+
+    return "cancelled";
+  }
+
+  const start = event.start || null;
+  const end = event.end || null;
+  const title = event.title || "Untitled Event";
+
+  const moved =
+    !sameInstant(start, session.google_event_start) || !sameInstant(end, session.google_event_end);
+
+  if (!moved && title === session.google_event_title) return null;
+
+  await supabase
+    .from("sessions")
+    .update({
+      google_event_title: title,
+      google_event_start: start,
+      google_event_end: end,
+    })
+    .eq("id", session.id);
+
+  if (!moved) return null;
+
+  await supabase.from("session_audit_log").insert({
+    session_id: session.id,
+    action: "rescheduled",
+    details: {
+      previous_start: session.google_event_start,
+      previous_end: session.google_event_end,
+      start,
+      end,
+      source: "calendar",
+    },
+  });
+
+  return "rescheduled";
+}
+
+/**
+ * Providers and Postgres format the same timestamp differently
+ */
+function sameInstant(a: string | null, b: string | null): boolean {
+  if (!a || !b) return a === b;
+  return new Date(a).getTime() === new Date(b).getTime();
+}
+
+/**
+ * Queue an event whose agent couldn't be resolved. Returns false when the
+ * event was already assigned or dismissed from the queue.
+ */
+async function queueEventForReview(
+  event: ConnectorCalendarEvent,
+  link: CalendarLink,
+  reason: string
+): Promise<boolean> {
+  const supabase = createAdminClient();
+
+  const { data: existing } = await supabase
+    .from("calendar_event_reviews")
+    .select("id, status")
+    .eq("calendar_link_id", link.id)
+    .eq("google_event_id", event.id)
+    .maybeSingle();
+
+  if (existing && existing.status !== "pending") return false;
+
+  const details = {
+    event_title: event.title || "Untitled Event",
+    event_start: event.start,
+    event_end: event.end,
+    organizer_email: event.organizerEmail,
+    attendee_emails: event.attendees.map((attendee) => attendee.email),
+    reason,
+  };
+
+  const { error } = existing
+    ? await supabase.from("calendar_event_reviews").update(details).eq("id", existing.id)
+    : await supabase.from("calendar_event_reviews").insert({
+        org_id: link.org_id,
+        calendar_link_id: link.id,
+        google_event_id: event.id,
+        ...details,
+      });
+
+  if (error) {
+    throw new Error(`Failed to queue event for review: ${error.message}`);
+  }
+
+  return true;
+}
+
+/**
+ * A cancelled event no longer needs an agent
+ */
+async function dismissCancelledReview(linkId: string, eventId: string): Promise<void> {
+  const supabase = createAdminClient();
+
+  await supabase
+    .from("calendar_event_reviews")
+    .update({ status: "dismissed", reason: "Calendar event was cancelled" })
+    .eq("calendar_link_id", linkId)
+    .eq("google_event_id", eventId)
+    .eq("status", "pending");
+}
+
+/**
+ * Resolve a queued event by creating its session for the chosen agent.
+ * The event is re-read from the calendar so the session reflects it as it
+ * is now.
+ */
+export async function assignReviewedEvent(
+  reviewId: string,
+  agentId: string,
+  resolvedBy: string
+): Promise<string> {
+  const supabase = createAdminClient();
+
+  const { data: review } = await supabase
+    .from("calendar_event_reviews")
+    .select("id, status, calendar_link_id, google_event_id")
+    .eq("id", reviewId)
+    .single();
+
+  if (!review) throw new CalendarReviewError("Review not found");
+  if (review.status !== "pending") {
+    throw new CalendarReviewError(`This event was already ${review.status}`);
+  }
+
+  const { data: link } = await supabase
+    .from("google_calendar_links")
+    .select("*")
+    .eq("id", review.calendar_link_id)
+    .single();
+
+  if (!link) throw new CalendarReviewError("Calendar link not found");
+  const calendarLink = link as CalendarLink;
+
+  const connector = getCalendarConnector(calendarLink.provider);
+  const accessToken = await connector.getAccessToken(getLinkConnectionId(calendarLink));
+  const event = await connector.getEvent(accessToken, calendarLink.calendar_id, review.google_event_id);
+
+  if (event.status === "cancelled") {
+    await dismissCancelledReview(calendarLink.id, event.id);
+    throw new CalendarReviewError("The calendar event was cancelled");
+  }
+
+  const { data: existingSession } = await supabase
+    .from("sessions")
+    .select("id")
+    .eq("google_event_id", event.id)
+    .eq("template_id", calendarLink.template_id)
+    .maybeSingle();
+
+  if (existingSession) {
+    throw new CalendarReviewError("A session already exists for this event");
+  }
+
+  const userMapping = await buildUserMapping(calendarLink.org_id);
+  const sessionId = await createSessionFromEvent(event, calendarLink, userMapping, agentId);
+
+  if (!sessionId) throw new Error("Failed to create session");
+
+  await supabase
+    .from("calendar_event_reviews")
+    .update({
+      status: "assigned",
+      session_id: sessionId,
+      resolved_by: resolvedBy,
+      resolved_at: new Date().toISOString(),
+    })
+    .eq("id", review.id);
+
+  await writeSessionToCalendar(sessionId);
+
+  return sessionId;
+}
+
+/**
+ * Handle a calendar webhook notification, syncing the link it belongs to
+ * when the channel token checks out
+ */
+export async function handleCalendarWebhook(
+  channelId: string,
+  resourceId: string,
+  token: string | null
+): Promise<void> {
+  const check = await verifyCalendarNotification({ channelId, resourceId, token });
+
+  if (check.ok) {
+    // Trigger a sync for this link
+    await syncCalendarLink(check.linkId, { windowHours: 24, trigger: "push" });
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * Google Calendar Connector
+ *
+ * CalendarConnector over the Google Calendar API. Incremental syncs use
+ * Google sync tokens as the cursor.
+ */
+
+import "server-only";
+import { getValidAccessToken } from "@/lib/google/tokens";
+import {
+  listCalendars,
+  getCalendar,
+  listEvents,
+  getEvent,
+  extractMeetCode,
+  CalendarAPIError,
+  type GoogleCalendar,
+  type GoogleCalendarEvent,
+} from "@/lib/google/calendar-client";
+import {
+  SyncCursorExpiredError,
+  type CalendarConnector,
+  type CalendarEventChanges,
+  type ConnectorCalendar,
+  type ConnectorCalendarEvent,
+} from "./types";
+
+function toConnectorCalendar(calendar: GoogleCalendar): ConnectorCalendar {
+  return {
+    id: calendar.id,
+    name: calendar.summary,
+    description: calendar.description || null,
+    timeZone: calendar.timeZone || null,
+    backgroundColor: calendar.backgroundColor || null,
+    foregroundColor: calendar.foregroundColor || null,
+    accessRole: calendar.accessRole,
+    primary: calendar.primary || false,
+  };
+}
+
+/**
+ * Map a Google event onto the neutral shape. Private extended properties
+ * win over shared ones of the same name.
+ */
+export function toConnectorEvent(event: GoogleCalendarEvent): ConnectorCalendarEvent {
+  const organizerEmail = event.organizer?.email || null;
+
+  return {
+    id: event.id,
+    status: event.status,
+    title: event.summary || null,
+    description: event.description || null,
+    start: event.start?.dateTime || event.start?.date || "",
+    end: event.end?.dateTime || event.end?.date || "",
+    allDay: !!event.start?.date && !event.start.dateTime,
+    organizerEmail,
+    attendees: (event.attendees || [])
+      .filter((attendee) => !!attendee.email)
+      .map((attendee) => ({ email: attendee.email!, organizer: !!attendee.organizer })),
+    meetingCode: extractMeetCode(event),
+    hasVideoConference: !!(
+      event.hangoutLink ||
+      event.conferenceData?.entryPoints?.some((ep) => ["video", "more"].includes(ep.entryPointType))
+    ),
+    properties: {
+      ...event.extendedProperties?.shared,
+      ...event.extendedProperties?.private,
+    },
+  };
+}
+
+/**
+ * List every page of events, either changed since a sync token or from
+ * timeMin onwards. Google only hands out the next sync token on the last
+ * page, and can't combine it with time bounds or ordering.
+ */
+async function listEventChanges(
+  accessToken: string,
+  calendarId: string,
+  from: { cursor: string } | { windowStart: Date }
+): Promise<CalendarEventChanges> {
+  const range = "cursor" in from ? { syncToken: from.cursor } : { timeMin: from.windowStart.toISOString() };
+  const events: ConnectorCalendarEvent[] = [];
+  let pageToken: string | undefined;
+  let cursor: string | null = null;
+
+  do {
+    let response;
+    try {
+      response = await listEvents(accessToken, calendarId, {
+        ...range,
+        singleEvents: true,
+        // Cancelled events are needed to cancel their sessions
+        showDeleted: true,
+        maxResults: 250,
+        pageToken,
+      });
+    } catch (error) {
+      if (error instanceof CalendarAPIError && error.statusCode === 410) {
+        throw new SyncCursorExpiredError(error.message);
+      }
+      throw error;
+    }
+
+    events.push(...(response.items || []).map(toConnectorEvent));
+    pageToken = response.nextPageToken;
+    cursor = response.nextSyncToken || cursor;
+  } while (pageToken);
+
+  return { events, cursor };
+}
+
+/**
+ * List every page of events overlapping a window
+ */
+async function listEventsInWindow(
+  accessToken: string,
+  calendarId: string,
+  windowStart: Date,
+  windowEnd: Date
+): Promise<ConnectorCalendarEvent[]> {
+  const events: ConnectorCalendarEvent[] = [];
+  let pageToken: string | undefined;
+
+  do {
+    const response = await listEvents(accessToken, calendarId, {
+      timeMin: windowStart.toISOString(),
+      timeMax: windowEnd.toISOString(),
+      singleEvents: true,
+      maxResults: 250,
+      pageToken,
+    });
+
+    events.push(...(response.items || []).map(toConnectorEvent));
+    pageToken = response.nextPageToken;
+  } while (pageToken);
+
+  return events;
+}
+
+export const googleCalendarConnector: CalendarConnector = {
+  provider: "google",
+  supportsWriteback: true,
+  getAccessToken: getValidAccessToken,
+  listCalendars: async (accessToken) => (await listCalendars(accessToken)).map(toConnectorCalendar),
+  getCalendar: async (accessToken, calendarId) =>
+    toConnectorCalendar(await getCalendar(accessToken, calendarId)),
+  listEventChanges,
+  listEventsInWindow,
+  getEvent: async (accessToken, calendarId, eventId) =>
+    toConnectorEvent(await getEvent(accessToken, calendarId, eventId)),
+};
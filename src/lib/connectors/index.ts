@@ -0,0 +1,35 @@
+/**
+ * Calendar Connectors
+ *
+ * Server-only registry of calendar connectors by provider. Calendar sync
+ * and the calendar routes go through these rather than a provider's API
+ * client.
+ *
+ * Usage:
+ *   import { getCalendarConnector } from '@/lib/connectors';
+ */
+
+import "server-only";
+import { googleCalendarConnector } from "./google";
+import { microsoftCalendarConnector } from "./microsoft";
+import type { CalendarConnector, ConnectorProvider } from "./types";
+
+const connectors: Record<ConnectorProvider, CalendarConnector> = {
+  google: googleCalendarConnector,
+  microsoft: microsoftCalendarConnector,
+};
+
+export function getCalendarConnector(provider: ConnectorProvider): CalendarConnector {
+  return connectors[provider];
+}
+
+export { SyncCursorExpiredError } from "./types";
+
+export type {
+  CalendarConnector,
+  CalendarEventChanges,
+  ConnectorCalendar,
+  ConnectorCalendarEvent,
+  ConnectorProvider,
+  EventFilter,
+} from "./types";
@@ -0,0 +1,30 @@
+/**
+ * Microsoft Calendar Connector
+ *
+ * CalendarConnector over Outlook calendars in Microsoft Graph. Incremental
+ * syncs use calendar view delta links as the cursor. Sessions aren't
+ * written back: the connection only has read access to calendars.
+ */
+
+import "server-only";
+import { getValidMicrosoftAccessToken } from "@/lib/microsoft/tokens";
+import { listCalendars, getCalendar } from "@/lib/microsoft/graph-client";
+import {
+  toConnectorCalendar,
+  listOutlookEventChanges,
+  listOutlookEventsInWindow,
+  getOutlookEvent,
+} from "@/lib/microsoft/calendar";
+import type { CalendarConnector } from "./types";
+
+export const microsoftCalendarConnector: CalendarConnector = {
+  provider: "microsoft",
+  supportsWriteback: false,
+  getAccessToken: getValidMicrosoftAccessToken,
+  listCalendars: async (accessToken) => (await listCalendars(accessToken)).map(toConnectorCalendar),
+  getCalendar: async (accessToken, calendarId) =>
+    toConnectorCalendar(await getCalendar(accessToken, calendarId)),
+  listEventChanges: listOutlookEventChanges,
+  listEventsInWindow: listOutlookEventsInWindow,
+  getEvent: (accessToken, _calendarId, eventId) => getOutlookEvent(accessToken, eventId),
+};
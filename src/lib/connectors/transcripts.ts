@@ -0,0 +1,70 @@
+/**
+ * VTT Transcript Conversion
+ *
+ * Turns speaker turns parsed from a WebVTT transcript (Teams, Zoom) into
+ * the shape the transcript store and calls use: entries with absolute
+ * times, one participant per speaker, and the labelled plain text calls are
+ * created from. Speakers are keyed by their display name, which is all a
+ * VTT carries.
+ */
+
+import type { VttCue } from "@/lib/vtt";
+import type { Participant, StoredTranscriptEntry } from "@/lib/google/types";
+
+export interface TranscriptContent {
+  entries: StoredTranscriptEntry[];
+  participants: Participant[];
+  textContent: string;
+}
+
+export const UNKNOWN_SPEAKER = "Unknown speaker";
+
+function formatOffset(seconds: number): string {
+  const total = Math.floor(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60)
+    .toString()
+    .padStart(2, "0");
+  const secs = (total % 60).toString().padStart(2, "0");
+  return hours > 0 ? `${hours}:${minutes}:${secs}` : `${minutes}:${secs}`;
+}
+
+/**
+ * Convert speaker turns into stored transcript content.
+ *
+ * @param turns - Merged speaker turns, times in seconds from recordingStart
+ * @param recordingStart - When the recording started
+ * @param emailsByName - Known emails by lowercased display name
+ */
+export function buildTranscriptContent(
+  turns: VttCue[],
+  recordingStart: string,
+  emailsByName: Map<string, string> = new Map()
+): TranscriptContent {
+  const origin = new Date(recordingStart).getTime();
+
+  const entries: StoredTranscriptEntry[] = turns.map((turn) => ({
+    participant: turn.speaker || UNKNOWN_SPEAKER,
+    text: turn.text,
+    startTime: new Date(origin + turn.start * 1000).toISOString(),
+    endTime: new Date(origin + turn.end * 1000).toISOString(),
+  }));
+
+  const counts = new Map<string, number>();
+  for (const entry of entries) {
+    counts.set(entry.participant, (counts.get(entry.participant) || 0) + 1);
+  }
+
+  const participants: Participant[] = Array.from(counts, ([name, entriesCount]) => ({
+    name,
+    participantId: name,
+    email: emailsByName.get(name.toLowerCase()),
+    entriesCount,
+  }));
+
+  const textContent = turns
+    .map((turn) => `[${formatOffset(turn.start)}] ${turn.speaker || UNKNOWN_SPEAKER}: ${turn.text}`)
+    .join("\n");
+
+  return { entries, participants, textContent };
+}
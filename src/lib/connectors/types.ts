@@ -0,0 +1,116 @@
+/**
+ * Calendar Connector Types
+ *
+ * Provider-neutral shapes for calendars and events. Each provider (Google,
+ * Microsoft) implements CalendarConnector by mapping its own API onto these,
+ * so calendar sync, event filters and agent mapping work the same for both.
+ */
+
+import type { ConnectorProvider } from "@/types/database";
+
+export type { ConnectorProvider };
+
+// ============================================================================
+// CALENDARS AND EVENTS
+// ============================================================================
+
+export interface ConnectorCalendar {
+  id: string;
+  name: string;
+  description: string | null;
+  timeZone: string | null;
+  backgroundColor: string | null;
+  foregroundColor: string | null;
+  accessRole: "owner" | "writer" | "reader" | "freeBusyReader";
+  primary: boolean;
+}
+
+export interface ConnectorEventAttendee {
+  email: string;
+  organizer: boolean;
+}
+
+export interface ConnectorCalendarEvent {
+  id: string;
+  status: "confirmed" | "tentative" | "cancelled";
+  title: string | null;
+  description: string | null;
+  /**
+   * RFC 3339 date-time, or a date for all-day events. Empty for events a
+   * provider only reports as removed.
+   */
+  start: string;
+  end: string;
+  allDay: boolean;
+  organizerEmail: string | null;
+  attendees: ConnectorEventAttendee[];
+  /** Code of the event's video meeting, as transcripts are matched on it */
+  meetingCode: string | null;
+  hasVideoConference: boolean;
+  /** Custom event properties, read by the custom_field agent mapping */
+  properties: Record<string, string>;
+}
+
+export interface EventFilter {
+  keywords?: string[];
+  minDurationMinutes?: number;
+  maxDurationMinutes?: number;
+  hasVideoConference?: boolean;
+  excludeAllDayEvents?: boolean;
+  attendeeEmails?: string[];
+}
+
+/**
+ * Events changed since a cursor (or in a window), and the cursor for the
+ * next incremental run
+ */
+export interface CalendarEventChanges {
+  events: ConnectorCalendarEvent[];
+  cursor: string | null;
+}
+
+// ============================================================================
+// CONNECTOR
+// ============================================================================
+
+export interface CalendarConnector {
+  provider: ConnectorProvider;
+  /** Whether session status can be written back to events */
+  supportsWriteback: boolean;
+  getAccessToken(connectionId: string): Promise<string>;
+  listCalendars(accessToken: string): Promise<ConnectorCalendar[]>;
+  getCalendar(accessToken: string, calendarId: string): Promise<ConnectorCalendar>;
+  /**
+   * Every event changed since `cursor`, or every event from `windowStart`
+   * onwards for a full sync. Cancelled events are included.
+   *
+   * @throws SyncCursorExpiredError when the cursor can no longer be used
+   */
+  listEventChanges(
+    accessToken: string,
+    calendarId: string,
+    from: { cursor: string } | { windowStart: Date }
+  ): Promise<CalendarEventChanges>;
+  /**
+   * Every event overlapping [windowStart, windowEnd), recurring events
+   * expanded. Incremental syncs use it to find events coming into the
+   * session horizon, which the changes don't include unless they were edited.
+   */
+  listEventsInWindow(
+    accessToken: string,
+    calendarId: string,
+    windowStart: Date,
+    windowEnd: Date
+  ): Promise<ConnectorCalendarEvent[]>;
+  getEvent(accessToken: string, calendarId: string, eventId: string): Promise<ConnectorCalendarEvent>;
+}
+
+/**
+ * The provider rejected an incremental sync cursor; a full sync is needed
+ */
+export class SyncCursorExpiredError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SyncCursorExpiredError";
+  }
+}
@@ -0,0 +1,540 @@
+/**
+ * Criteria Insights
+ *
+ * Aggregates how each scoring criterion is actually scored into
+ * criteria_optimizations, over a trailing INSIGHT_WINDOW_DAYS window:
+ * template criteria from coaching session scores, scorecard criteria from
+ * AI call scores (call_score_results). Scores are normalized to 0-100.
+ *
+ * Each row carries calibration flags for the template builder:
+ * - always_max / always_min: nearly every evaluation lands on the same
+ *   extreme, so the criterion doesn't tell agents apart
+ * - ai_disagreement: on sessions that review an AI-scored call, coaches and
+ *   the AI score the same-named criterion far apart
+ *
+ * Refreshed daily by /api/cron/criteria-insights, and for one template on
+ * demand from the builder. A refresh replaces everything in its scope, so
+ * criteria that drop out of the window don't leave stale rows behind.
+ */
+
+import { createAdminClient, createClient } from "@/lib/supabase/server";
+import { scoreDistribution } from "@/lib/reports/data";
+import type {
+  CriteriaOptimization,
+  CriterionInsightFlag,
+  CriterionInsightSource,
+  CriterionScoreResult,
+  SessionStatus,
+} from "@/types/database";
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+type Client = Awaited<ReturnType<typeof createClient>>;
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Days of scores each refresh covers, ending yesterday
+export const INSIGHT_WINDOW_DAYS = 90;
+
+// Fewer evaluations than this are too few to call a criterion miscalibrated
+export const MIN_EVALUATIONS_FOR_FLAGS = 10;
+
+// Share of evaluations (%) on one extreme that counts as "always"
+export const EXTREME_SCORE_RATE = 95;
+
+// Coach and AI need this many paired scores before their gap means anything
+export const MIN_AI_COMPARISONS = 5;
+
+// Average coach/AI gap (0-100 points) that counts as disagreement
+export const AI_DISAGREEMENT_POINTS = 25;
+
+const MAX_THEMES = 5;
+
+// Sessions whose scores are final, matching the reports
+const SCORED_STATUSES: SessionStatus[] = ["completed", "reviewed", "disputed"];
+
+// PostgREST caps responses at 1000 rows
+const PAGE_SIZE = 1000;
+
+// Ids per `in` filter, to keep the URL a sane size
+const ID_CHUNK_SIZE = 200;
+
+// ============================================================================
+// AGGREGATION
+// ============================================================================
+
+export interface CriterionObservation {
+  /** Normalized 0-100 */
+  score: number;
+  /** ISO timestamp the score was given */
+  scoredAt: string;
+  /** The AI's normalized score for the same criterion on the same call */
+  aiScore?: number | null;
+  strengths?: string[];
+  improvements?: string[];
+}
+
+export type CriterionSummary = Pick<
+  CriteriaOptimization,
+  | "total_evaluations"
+  | "total_score"
+  | "score_distribution"
+  | "trend_data"
+  | "common_strengths"
+  | "common_improvements"
+  | "max_score_rate"
+  | "min_score_rate"
+  | "score_stddev"
+  | "ai_comparisons"
+  | "ai_average_score"
+  | "ai_mean_abs_diff"
+  | "flags"
+>;
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** Monday (UTC) of the week a timestamp falls in, as YYYY-MM-DD */
+export function weekStart(timestamp: string): string {
+  const date = new Date(timestamp);
+  date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Feedback phrases given at least twice, most frequent first. Phrases are
+ * matched ignoring case and trailing punctuation; the first spelling seen
+ * is the one returned.
+ */
+export function commonThemes(phrases: string[], limit: number = MAX_THEMES): string[] {
+  const themes = new Map<string, { text: string; count: number }>();
+
+  for (const phrase of phrases) {
+    const text = phrase.trim();
+    const key = text.toLowerCase().replace(/[\s.!,;:]+$/, "");
+    if (!key) continue;
+
+    const theme = themes.get(key);
+    if (theme) theme.count++;
+    else themes.set(key, { text, count: 1 });
+  }
+
+  return [...themes.values()]
+    .filter((theme) => theme.count >= 2)
+    .sort((a, b) => b.count - a.count || a.text.localeCompare(b.text))
+    .slice(0, limit)
+    .map((theme) => theme.text);
+}
+
+export function calibrationFlags(
+  summary: Pick<CriterionSummary, "total_evaluations" | "max_score_rate" | "min_score_rate" | "ai_comparisons" | "ai_mean_abs_diff">
+): CriterionInsightFlag[] {
+  const flags: CriterionInsightFlag[] = [];
+
+  if (summary.total_evaluations >= MIN_EVALUATIONS_FOR_FLAGS) {
+    if ((summary.max_score_rate ?? 0) >= EXTREME_SCORE_RATE) flags.push("always_max");
+    if ((summary.min_score_rate ?? 0) >= EXTREME_SCORE_RATE) flags.push("always_min");
+  }
+  if (summary.ai_comparisons >= MIN_AI_COMPARISONS && (summary.ai_mean_abs_diff ?? 0) >= AI_DISAGREEMENT_POINTS) {
+    flags.push("ai_disagreement");
+  }
+
+  return flags;
+}
+
+/**
+ * Distribution, weekly trend, spread and coach/AI agreement for one
+ * criterion's scores
+ */
+export function summarizeCriterion(observations: CriterionObservation[]): CriterionSummary {
+  const scores = observations.map((o) => Math.min(100, Math.max(0, o.score)));
+  const count = scores.length;
+  const total = scores.reduce((sum, score) => sum + score, 0);
+  const mean = count > 0 ? total / count : 0;
+
+  const weeks = new Map<string, { sum: number; count: number }>();
+  observations.forEach((observation, i) => {
+    const week = weekStart(observation.scoredAt);
+    const bucket = weeks.get(week) || { sum: 0, count: 0 };
+    bucket.sum += scores[i];
+    bucket.count++;
+    weeks.set(week, bucket);
+  });
+
+  const paired = observations.filter((o) => typeof o.aiScore === "number");
+  const aiScores = paired.map((o) => Math.min(100, Math.max(0, o.aiScore as number)));
+  const gaps = paired.map((o, i) => Math.abs(Math.min(100, Math.max(0, o.score)) - aiScores[i]));
+
+  const summary = {
+    total_evaluations: count,
+    total_score: round2(total),
+    score_distribution: Object.fromEntries(scoreDistribution(scores).map((b) => [b.range, b.count])),
+    trend_data: [...weeks.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, bucket]) => ({ date, avg: round2(bucket.sum / bucket.count), count: bucket.count })),
+    common_strengths: commonThemes(observations.flatMap((o) => o.strengths || [])),
+    common_improvements: commonThemes(observations.flatMap((o) => o.improvements || [])),
+    max_score_rate: count > 0 ? round2((scores.filter((s) => s >= 99.5).length / count) * 100) : null,
+    min_score_rate: count > 0 ? round2((scores.filter((s) => s <= 0.5).length / count) * 100) : null,
+    score_stddev:
+      count > 0 ? round2(Math.sqrt(scores.reduce((sum, s) => sum + (s - mean) ** 2, 0) / count)) : null,
+    ai_comparisons: paired.length,
+    ai_average_score:
+      paired.length > 0 ? round2(aiScores.reduce((sum, s) => sum + s, 0) / paired.length) : null,
+    ai_mean_abs_diff:
+      paired.length > 0 ? round2(gaps.reduce((sum, gap) => sum + gap, 0) / paired.length) : null,
+  };
+
+  return { ...summary, flags: calibrationFlags(summary) };
+}
+
+/** An AI criterion score as 0-100, or null if it can't be normalized */
+export function normalizeAiScore(result: Pick<CriterionScoreResult, "score" | "max_score">): number | null {
+  const score = Number(result.score);
+  const max = Number(result.max_score);
+  if (!Number.isFinite(score) || !Number.isFinite(max) || max <= 0) return null;
+  return Math.min(100, Math.max(0, (score / max) * 100));
+}
+
+function nameKey(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+interface InsightWindow {
+  periodStart: string;
+  periodEnd: string;
+  from: string;
+  to: string;
+}
+
+export function getInsightWindow(now: Date = new Date()): InsightWindow {
+  const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const start = new Date(today);
+  start.setUTCDate(start.getUTCDate() - INSIGHT_WINDOW_DAYS);
+  const end = new Date(today);
+  end.setUTCDate(end.getUTCDate() - 1);
+
+  return {
+    periodStart: start.toISOString().slice(0, 10),
+    periodEnd: end.toISOString().slice(0, 10),
+    from: start.toISOString(),
+    to: today.toISOString(),
+  };
+}
+
+async function fetchAllRows<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+function chunks<T>(items: T[], size: number = ID_CHUNK_SIZE): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < items.length; i += size) result.push(items.slice(i, i + size));
+  return result;
+}
+
+interface SessionRow {
+  id: string;
+  template_id: string;
+  call_id: string | null;
+  created_at: string;
+}
+
+interface ScoreRow {
+  session_id: string;
+  criteria_id: string;
+  normalized_score: number | null;
+  is_na: boolean | null;
+}
+
+interface CallScoreRow {
+  call_id: string;
+  scorecard_id: string;
+  scored_at: string;
+  criteria_scores: Record<string, CriterionScoreResult> | null;
+}
+
+type InsightRow = Omit<CriteriaOptimization, "id" | "average_score" | "created_at" | "updated_at">;
+
+async function templateInsightRows(
+  supabase: AdminClient,
+  orgId: string,
+  window: InsightWindow,
+  templateId?: string
+): Promise<Omit<InsightRow, "org_id" | "period_start" | "period_end" | "last_calculated_at">[]> {
+  const sessions = await fetchAllRows<SessionRow>((from, to) => {
+    let query = supabase
+      .from("sessions")
+      .select("id, template_id, call_id, created_at")
+      .eq("org_id", orgId)
+      .in("status", SCORED_STATUSES)
+      .gte("created_at", window.from)
+      .lt("created_at", window.to)
+      .order("created_at", { ascending: true })
+      .range(from, to);
+    if (templateId) query = query.eq("template_id", templateId);
+    return query;
+  });
+  if (sessions.length === 0) return [];
+
+  const sessionsById = new Map(sessions.map((s) => [s.id, s]));
+
+  const scores: ScoreRow[] = [];
+  for (const ids of chunks(sessions.map((s) => s.id))) {
+    scores.push(
+      ...(await fetchAllRows<ScoreRow>((from, to) =>
+        supabase
+          .from("scores")
+          .select("session_id, criteria_id, normalized_score, is_na")
+          .in("session_id", ids)
+          .order("id", { ascending: true })
+          .range(from, to)
+      ))
+    );
+  }
+
+  const criteriaIds = [...new Set(scores.map((s) => s.criteria_id))];
+  const criteria = new Map<string, { name: string; template_id: string }>();
+  for (const ids of chunks(criteriaIds)) {
+    const { data, error } = await supabase.from("criteria").select("id, name, template_id").in("id", ids);
+    if (error) throw new Error(error.message);
+    for (const row of data || []) criteria.set(row.id, { name: row.name, template_id: row.template_id });
+  }
+
+  // The AI's per-criterion scores for the calls these sessions review,
+  // keyed by call then criterion name
+  const aiByCall = new Map<string, Map<string, CriterionScoreResult>>();
+  const callIds = [...new Set(sessions.map((s) => s.call_id).filter((id): id is string => !!id))];
+  for (const ids of chunks(callIds)) {
+    const { data, error } = await supabase
+      .from("call_score_results")
+      .select("call_id, criteria_scores")
+      .in("call_id", ids);
+    if (error) throw new Error(error.message);
+
+    for (const row of (data || []) as Pick<CallScoreRow, "call_id" | "criteria_scores">[]) {
+      const byName = new Map<string, CriterionScoreResult>();
+      for (const result of Object.values(row.criteria_scores || {})) {
+        if (result?.name) byName.set(nameKey(result.name), result);
+      }
+      aiByCall.set(row.call_id, byName);
+    }
+  }
+
+  const observations = new Map<string, CriterionObservation[]>();
+  for (const score of scores) {
+    const session = sessionsById.get(score.session_id);
+    const criterion = criteria.get(score.criteria_id);
+    // Deleted criteria can't be edited in the builder, so they're skipped
+    if (!session || !criterion || score.is_na || score.normalized_score === null) continue;
+
+    const ai = session.call_id ? aiByCall.get(session.call_id)?.get(nameKey(criterion.name)) : undefined;
+    const list = observations.get(score.criteria_id) || [];
+    list.push({
+      score: Number(score.normalized_score),
+      scoredAt: session.created_at,
+      aiScore: ai ? normalizeAiScore(ai) : null,
+      strengths: ai?.highlights,
+      improvements: ai?.improvements,
+    });
+    observations.set(score.criteria_id, list);
+  }
+
+  return [...observations.entries()].map(([criterionId, list]) => {
+    const criterion = criteria.get(criterionId)!;
+    return {
+      criterion_id: criterionId,
+      criterion_name: criterion.name,
+      source: "template" as CriterionInsightSource,
+      source_id: criterion.template_id,
+      ...summarizeCriterion(list),
+    };
+  });
+}
+
+async function scorecardInsightRows(
+  supabase: AdminClient,
+  orgId: string,
+  window: InsightWindow
+): Promise<Omit<InsightRow, "org_id" | "period_start" | "period_end" | "last_calculated_at">[]> {
+  const results = await fetchAllRows<CallScoreRow>((from, to) =>
+    supabase
+      .from("call_score_results")
+      .select("call_id, scorecard_id, scored_at, criteria_scores")
+      .eq("org_id", orgId)
+      .gte("scored_at", window.from)
+      .lt("scored_at", window.to)
+      .order("scored_at", { ascending: true })
+      .range(from, to)
+  );
+
+  const groups = new Map<string, { scorecardId: string; criterionId: string; name: string; list: CriterionObservation[] }>();
+  for (const result of results) {
+    for (const [criterionId, criterion] of Object.entries(result.criteria_scores || {})) {
+      const score = criterion ? normalizeAiScore(criterion) : null;
+      if (score === null) continue;
+
+      const key = `${result.scorecard_id}:${criterionId}`;
+      const group = groups.get(key) || {
+        scorecardId: result.scorecard_id,
+        criterionId,
+        name: criterion.name || criterionId,
+        list: [],
+      };
+      group.list.push({
+        score,
+        scoredAt: result.scored_at,
+        strengths: criterion.highlights,
+        improvements: criterion.improvements,
+      });
+      groups.set(key, group);
+    }
+  }
+
+  return [...groups.values()].map((group) => ({
+    criterion_id: group.criterionId,
+    criterion_name: group.name,
+    source: "scorecard" as CriterionInsightSource,
+    source_id: group.scorecardId,
+    ...summarizeCriterion(group.list),
+  }));
+}
+
+// ============================================================================
+// REFRESH
+// ============================================================================
+
+export interface CriteriaInsightsResult {
+  criteria: number;
+  flagged: number;
+}
+
+/**
+ * Recalculate an org's criteria insights, or just one template's
+ *
+ * @throws Error if scores can't be loaded or the rows can't be saved
+ */
+export async function refreshCriteriaInsights(
+  orgId: string,
+  options: { templateId?: string; now?: Date } = {}
+): Promise<CriteriaInsightsResult> {
+  const supabase = createAdminClient();
+  const window = getInsightWindow(options.now);
+  const calculatedAt = new Date().toISOString();
+
+  const computed = [
+    ...(await templateInsightRows(supabase, orgId, window, options.templateId)),
+    ...(options.templateId ? [] : await scorecardInsightRows(supabase, orgId, window)),
+  ];
+
+  const rows: InsightRow[] = computed.map((row) => ({
+    ...row,
+    org_id: orgId,
+    period_start: window.periodStart,
+    period_end: window.periodEnd,
+    last_calculated_at: calculatedAt,
+  }));
+
+  for (const batch of chunks(rows, 500)) {
+    const { error } = await supabase
+      .from("criteria_optimizations")
+      .upsert(batch, { onConflict: "org_id,source_id,criterion_id,period_start,period_end" });
+    if (error) throw new Error(`Failed to save criteria insights: ${error.message}`);
+  }
+
+  // Anything this refresh didn't write is from an older window or for a
+  // criterion that's no longer scored
+  let stale = supabase
+    .from("criteria_optimizations")
+    .delete()
+    .eq("org_id", orgId)
+    .neq("last_calculated_at", calculatedAt);
+  if (options.templateId) stale = stale.eq("source", "template").eq("source_id", options.templateId);
+
+  const { error: deleteError } = await stale;
+  if (deleteError) {
+    console.error(`Error removing stale criteria insights for org ${orgId}:`, deleteError);
+  }
+
+  return {
+    criteria: rows.length,
+    flagged: rows.filter((row) => row.flags.length > 0).length,
+  };
+}
+
+export interface RefreshAllCriteriaInsightsResult extends CriteriaInsightsResult {
+  orgs: number;
+  failed: number;
+}
+
+/**
+ * Recalculate every org's criteria insights, stopping at `deadline`
+ */
+export async function refreshAllCriteriaInsights(
+  options: { deadline?: number; now?: Date } = {}
+): Promise<RefreshAllCriteriaInsightsResult> {
+  const result: RefreshAllCriteriaInsightsResult = { orgs: 0, criteria: 0, flagged: 0, failed: 0 };
+  const supabase = createAdminClient();
+
+  const { data: orgs, error } = await supabase.from("organizations").select("id").order("created_at");
+  if (error) {
+    console.error("Error loading organizations for criteria insights:", error);
+    return result;
+  }
+
+  for (const org of orgs || []) {
+    if (options.deadline && Date.now() > options.deadline) break;
+
+    try {
+      const refreshed = await refreshCriteriaInsights(org.id, { now: options.now });
+      result.orgs++;
+      result.criteria += refreshed.criteria;
+      result.flagged += refreshed.flagged;
+    } catch (orgError) {
+      console.error(`Error refreshing criteria insights for org ${org.id}:`, orgError);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
+
+// ============================================================================
+// READING
+// ============================================================================
+
+/**
+ * The latest insights for a template's criteria
+ */
+export async function getTemplateCriteriaInsights(
+  supabase: Client,
+  orgId: string,
+  templateId: string
+): Promise<CriteriaOptimization[]> {
+  const { data, error } = await supabase
+    .from("criteria_optimizations")
+    .select("*")
+    .eq("org_id", orgId)
+    .eq("source", "template")
+    .eq("source_id", templateId)
+    .order("period_end", { ascending: false });
+
+  if (error) throw new Error(error.message);
+
+  const rows = (data || []) as CriteriaOptimization[];
+  const latest = rows[0]?.period_end;
+  return rows.filter((row) => row.period_end === latest);
+}
@@ -0,0 +1,33 @@
+/**
+ * Cron Request Authentication
+ *
+ * Shared guard for /api/cron/* routes. Accepts Vercel Cron invocations
+ * and manual triggers that present the CRON_SECRET as a Bearer token.
+ */
+
+/**
+ * Verify the cron request is from Vercel.
+ * Uses CRON_SECRET env var for authentication.
+ */
+export function verifyCronRequest(request: Request): boolean {
+  // In development, allow requests without auth
+  if (process.env.NODE_ENV === "development") {
+    return true;
+  }
+
+  // Check for Vercel cron authorization header
+  const authHeader = request.headers.get("authorization");
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (cronSecret && authHeader === `Bearer ${cronSecret}`) {
+    return true;
+  }
+
+  // Also check the x-vercel-cron header (set automatically by Vercel)
+  const vercelCronHeader = request.headers.get("x-vercel-cron");
+  if (vercelCronHeader === "1") {
+    return true;
+  }
+
+  return false;
+}
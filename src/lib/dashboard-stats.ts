@@ -0,0 +1,230 @@
+/**
+ * Dashboard Statistics
+ *
+ * Call and session stats behind the dashboard home page. Shared by
+ * GET /api/dashboard/stats and the daily digest email.
+ */
+
+import { createClient } from "@/lib/supabase/server";
+
+type Client = Awaited<ReturnType<typeof createClient>>;
+
+export interface DashboardStats {
+  totalCalls: number;
+  analyzedCalls: number;
+  averageScore: number;
+  topScore: number;
+  callsByStatus: Record<string, number>;
+  scoreDistribution: { range: string; count: number }[];
+  callsOverTime: { date: string; count: number; avgScore: number }[];
+  recentScores: { callerId: string; callerName: string; score: number; date: string }[];
+  period: string;
+  pendingSessionsCount: number;
+  inProgressSessionsCount: number;
+  completedSessionsCount: number;
+  totalActiveSessionsCount: number;
+}
+
+export interface DashboardStatsOptions {
+  period: string; // day | week | month | quarter (anything else is treated as week)
+  /** Only this caller's calls */
+  callerId?: string;
+  /** Top recent scores across callers, for the leaderboard snippet */
+  includeRecentScores?: boolean;
+}
+
+export function getPeriodStartDate(period: string, now: Date = new Date()): Date {
+  const date = new Date(now);
+
+  switch (period) {
+    case "day":
+      date.setDate(date.getDate() - 1);
+      break;
+    case "month":
+      date.setMonth(date.getMonth() - 1);
+      break;
+    case "quarter":
+      date.setMonth(date.getMonth() - 3);
+      break;
+    case "week":
+    default:
+      date.setDate(date.getDate() - 7);
+  }
+
+  return date;
+}
+
+/**
+ * @returns The stats, or null if calls couldn't be loaded
+ */
+export async function getDashboardStats(
+  supabase: Client,
+  orgId: string,
+  options: DashboardStatsOptions
+): Promise<DashboardStats | null> {
+  const { period, callerId, includeRecentScores = false } = options;
+  const startDate = getPeriodStartDate(period);
+
+  // Base query filters
+  let callsQuery = supabase
+    .from("calls")
+    .select("id, status, call_timestamp, analyses(overall_score, composite_score)")
+    .eq("org_id", orgId)
+    .eq("analyses.status", "completed")
+    .gte("call_timestamp", startDate.toISOString());
+
+  if (callerId) {
+    callsQuery = callsQuery.eq("caller_id", callerId);
+  }
+
+  const { data: calls, error: callsError } = await callsQuery;
+
+  if (callsError) {
+    console.error("Error fetching calls:", callsError);
+    return null;
+  }
+
+  // Calculate statistics
+  const totalCalls = calls?.length || 0;
+  const analyzedCalls = calls?.filter((c: { status: string }) => c.status === "analyzed").length || 0;
+
+  const scores: number[] = (calls || [])
+    .filter((c: { analyses: unknown[] | null }) => c.analyses && c.analyses.length > 0)
+    .map((c: { analyses: Array<{ overall_score: number; composite_score: number }> }) => {
+      return c.analyses[0]?.overall_score || 0;
+    })
+    .filter((s: number) => s > 0);
+
+  const averageScore = scores.length > 0
+    ? Math.round(scores.reduce((a, b) => a + b, 0) / scores.length)
+    : 0;
+  const topScore = scores.length > 0 ? Math.max(...scores) : 0;
+
+  // Calls by status
+  const callsByStatus: Record<string, number> = {};
+  calls?.forEach((c: { status: string }) => {
+    callsByStatus[c.status] = (callsByStatus[c.status] || 0) + 1;
+  });
+
+  // Score distribution
+  const scoreRanges = [
+    { range: "0-20", min: 0, max: 20, count: 0 },
+    { range: "21-40", min: 21, max: 40, count: 0 },
+    { range: "41-60", min: 41, max: 60, count: 0 },
+    { range: "61-80", min: 61, max: 80, count: 0 },
+    { range: "81-100", min: 81, max: 100, count: 0 },
+  ];
+
+  scores.forEach((score) => {
+    const range = scoreRanges.find((r) => score >= r.min && score <= r.max);
+    if (range) range.count++;
+  });
+
+  // Calls over time (daily counts for the period)
+  const callsOverTime: { date: string; count: number; avgScore: number }[] = [];
+  const callsByDate = new Map<string, { count: number; scores: number[] }>();
+
+  calls?.forEach((c: { call_timestamp: string; analyses: Array<{ overall_score: number }> | null }) => {
+    const date = new Date(c.call_timestamp).toISOString().split("T")[0];
+    const existing = callsByDate.get(date) || { count: 0, scores: [] };
+    existing.count++;
+
+    const analysisArray = c.analyses;
+    if (analysisArray && analysisArray.length > 0 && analysisArray[0]?.overall_score) {
+      existing.scores.push(analysisArray[0].overall_score);
+    }
+
+    callsByDate.set(date, existing);
+  });
+
+  callsByDate.forEach((value, date) => {
+    callsOverTime.push({
+      date,
+      count: value.count,
+      avgScore: value.scores.length > 0
+        ? Math.round(value.scores.reduce((a, b) => a + b, 0) / value.scores.length)
+        : 0,
+    });
+  });
+
+  callsOverTime.sort((a, b) => a.date.localeCompare(b.date));
+
+  // Get session counts for coaching platform
+  let pendingSessionsCount = 0;
+  let inProgressSessionsCount = 0;
+  let completedSessionsCount = 0;
+
+  const { data: sessionCounts } = await supabase
+    .from("sessions")
+    .select("status")
+    .eq("org_id", orgId);
+
+  if (sessionCounts) {
+    sessionCounts.forEach((s: { status: string }) => {
+      if (s.status === "pending") pendingSessionsCount++;
+      else if (s.status === "in_progress") inProgressSessionsCount++;
+      else if (s.status === "completed" || s.status === "reviewed") completedSessionsCount++;
+    });
+  }
+
+  // Get recent high scores for leaderboard snippet
+  let recentScores: DashboardStats["recentScores"] = [];
+
+  if (includeRecentScores) {
+    const { data: topCalls } = await supabase
+      .from("calls")
+      .select(`
+        id,
+        call_timestamp,
+        caller:callers(id, name),
+        analyses(overall_score)
+      `)
+      .eq("org_id", orgId)
+      .eq("analyses.status", "completed")
+      .eq("status", "analyzed")
+      .gte("call_timestamp", startDate.toISOString())
+      .order("call_timestamp", { ascending: false })
+      .limit(10);
+
+    recentScores = (topCalls || [])
+      .filter((c: { analyses: Array<{ overall_score: number }> | null }) => {
+        return c.analyses && c.analyses.length > 0;
+      })
+      .map((c: {
+        call_timestamp: string;
+        caller: { id: string; name: string } | { id: string; name: string }[] | null;
+        analyses: Array<{ overall_score: number }>;
+      }) => {
+        // Handle both single object and array results from Supabase join
+        const caller = Array.isArray(c.caller) ? c.caller[0] : c.caller;
+        return {
+          callerId: caller?.id || "",
+          callerName: caller?.name || "Unknown",
+          score: c.analyses[0]?.overall_score || 0,
+          date: c.call_timestamp,
+        };
+      })
+      .sort((a: { score: number }, b: { score: number }) => b.score - a.score)
+      .slice(0, 5);
+  }
+
+  return {
+    totalCalls,
+    analyzedCalls,
+    averageScore,
+    topScore,
+    callsByStatus,
+    scoreDistribution: scoreRanges.map((r) => ({
+      range: r.range,
+      count: r.count,
+    })),
+    callsOverTime,
+    recentScores,
+    period,
+    // Session counts for coaching platform
+    pendingSessionsCount,
+    inProgressSessionsCount,
+    completedSessionsCount,
+    totalActiveSessionsCount: pendingSessionsCount + inProgressSessionsCount,
+  };
+}
@@ -0,0 +1,308 @@
+/**
+ * Session Disputes
+ *
+ * An agent disputes a completed or reviewed session, optionally naming the
+ * criteria they disagree with. A coach or manager then resolves it: each
+ * disputed criterion is either upheld (the score stands) or amended (a new
+ * value, or N/A), the session total is recomputed the same way completion
+ * computes it, and the session goes back to reviewed.
+ *
+ * Open disputes are tracked against DISPUTE_SLA_HOURS from when they were
+ * raised.
+ */
+
+import {
+  calculateCriteriaScore,
+  calculateSessionScore,
+  validateScoreValue,
+  type ScoreInput,
+} from "@/lib/scoring-engine";
+import type { FormulaGroupInput } from "@/lib/scoring-formula";
+import type {
+  Criteria,
+  CriteriaConfig,
+  DisputeOutcome,
+  ScoreValue,
+  SessionScoreResult,
+  Template,
+} from "@/types/database";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Hours a dispute may stay open before it breaches the SLA
+export const DISPUTE_SLA_HOURS = 72;
+
+// Hours after which an open dispute is flagged as at risk
+export const DISPUTE_AT_RISK_HOURS = 48;
+
+// Upper bounds (hours) of the age buckets in the SLA view
+export const DISPUTE_AGE_BUCKETS = [
+  { label: "< 24h", maxHours: 24 },
+  { label: "24-48h", maxHours: 48 },
+  { label: "48-72h", maxHours: 72 },
+  { label: "> 72h", maxHours: Infinity },
+] as const;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DisputeDecisionAction = "uphold" | "amend";
+
+export interface DisputeDecision {
+  criteria_id: string;
+  action: DisputeDecisionAction;
+  /** New value when amending; ignored when upholding */
+  value?: ScoreValue;
+  /** Amend to N/A */
+  is_na?: boolean;
+  /** Replaces the score's comment when given */
+  comment?: string | null;
+}
+
+/**
+ * A score as stored on the session
+ */
+export interface DisputedScore {
+  criteria_id: string;
+  value: ScoreValue | null;
+  is_na: boolean;
+  comment: string | null;
+  normalized_score: number | null;
+}
+
+/**
+ * A scores row to upsert for an amended criterion
+ */
+export interface AmendedScore {
+  criteria_id: string;
+  criteria_group_id: string | null;
+  value: ScoreValue;
+  is_na: boolean;
+  comment: string | null;
+  raw_score: number;
+  normalized_score: number;
+  weighted_score: number;
+  is_auto_fail_triggered: boolean;
+  criteria_snapshot: CriteriaConfig;
+}
+
+export interface DisputeCriterionChange {
+  criteria_id: string;
+  criteria_name: string;
+  action: DisputeDecisionAction;
+  /** Normalized 0-100 score before and after, null when N/A or unscored */
+  previous_score: number | null;
+  new_score: number | null;
+}
+
+export interface DisputeResolutionInput {
+  template: Template;
+  /** Criteria and groups from the session's template snapshot */
+  criteria: Criteria[];
+  groups?: FormulaGroupInput[];
+  formula?: string | null;
+  scores: DisputedScore[];
+  /** Criteria the agent disputed; empty means the session as a whole */
+  disputedCriteriaIds: string[];
+  decisions: DisputeDecision[];
+}
+
+export interface DisputeResolution {
+  outcome: DisputeOutcome;
+  amendedScores: AmendedScore[];
+  changes: DisputeCriterionChange[];
+  scoreResult: SessionScoreResult;
+}
+
+export class DisputeResolutionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DisputeResolutionError";
+  }
+}
+
+// ============================================================================
+// RESOLUTION
+// ============================================================================
+
+/**
+ * Apply the resolver's per-criterion decisions and recompute the session.
+ *
+ * When the agent named criteria, every one of them needs a decision and no
+ * other criterion may be touched. A whole-session dispute may be resolved
+ * with decisions on any criteria in the snapshot, or none (upheld).
+ */
+export function resolveDispute(input: DisputeResolutionInput): DisputeResolution {
+  const criteriaMap = new Map(input.criteria.map((c) => [c.id, c]));
+  const disputed = new Set(input.disputedCriteriaIds);
+  const decided = new Set<string>();
+
+  for (const decision of input.decisions) {
+    if (decided.has(decision.criteria_id)) {
+      throw new DisputeResolutionError(`More than one decision for criterion ${decision.criteria_id}`);
+    }
+    decided.add(decision.criteria_id);
+
+    if (!criteriaMap.has(decision.criteria_id)) {
+      throw new DisputeResolutionError(`Criterion not found: ${decision.criteria_id}`);
+    }
+    if (disputed.size > 0 && !disputed.has(decision.criteria_id)) {
+      throw new DisputeResolutionError(
+        `"${criteriaMap.get(decision.criteria_id)!.name}" was not disputed`
+      );
+    }
+  }
+
+  const undecided = [...disputed].filter((id) => !decided.has(id));
+  if (undecided.length > 0) {
+    const names = undecided.map((id) => criteriaMap.get(id)?.name || id);
+    throw new DisputeResolutionError(`Missing decisions for disputed criteria: ${names.join(", ")}`);
+  }
+
+  const existing = new Map(input.scores.map((s) => [s.criteria_id, s]));
+  const amendedScores: AmendedScore[] = [];
+  const changes: DisputeCriterionChange[] = [];
+
+  for (const decision of input.decisions) {
+    const criteria = criteriaMap.get(decision.criteria_id)!;
+    const current = existing.get(decision.criteria_id);
+    const previousScore = current && !current.is_na ? current.normalized_score : null;
+
+    if (decision.action === "uphold") {
+      changes.push({
+        criteria_id: criteria.id,
+        criteria_name: criteria.name,
+        action: "uphold",
+        previous_score: previousScore,
+        new_score: previousScore,
+      });
+      continue;
+    }
+
+    const isNa = decision.is_na ?? false;
+    if (!isNa && !decision.value) {
+      throw new DisputeResolutionError(`Amending "${criteria.name}" needs a value or N/A`);
+    }
+
+    const value = (isNa ? current?.value || {} : decision.value) as ScoreValue;
+    if (!isNa) {
+      const validation = validateScoreValue(criteria.criteria_type, value, criteria.config);
+      if (!validation.valid) {
+        throw new DisputeResolutionError(`Invalid score for "${criteria.name}": ${validation.error}`);
+      }
+    }
+
+    const result = calculateCriteriaScore({ criteria, value, isNa });
+
+    amendedScores.push({
+      criteria_id: criteria.id,
+      criteria_group_id: criteria.group_id || null,
+      value,
+      is_na: isNa,
+      comment: decision.comment !== undefined ? decision.comment : current?.comment ?? null,
+      raw_score: result.rawScore,
+      normalized_score: result.normalizedScore,
+      weighted_score: result.weightedScore,
+      is_auto_fail_triggered: result.isAutoFailTriggered,
+      criteria_snapshot: criteria.config,
+    });
+
+    changes.push({
+      criteria_id: criteria.id,
+      criteria_name: criteria.name,
+      action: "amend",
+      previous_score: previousScore,
+      new_score: isNa ? null : result.normalizedScore,
+    });
+  }
+
+  // Recompute over the stored scores with the amendments swapped in
+  const amended = new Map(amendedScores.map((s) => [s.criteria_id, s]));
+  const scoreInputs: ScoreInput[] = [];
+  for (const score of input.scores) {
+    if (amended.has(score.criteria_id)) continue;
+    const criteria = criteriaMap.get(score.criteria_id);
+    if (!criteria || !score.value) continue;
+    scoreInputs.push({ criteria, value: score.value, isNa: score.is_na });
+  }
+  for (const score of amendedScores) {
+    scoreInputs.push({ criteria: criteriaMap.get(score.criteria_id)!, value: score.value, isNa: score.is_na });
+  }
+
+  const scoreResult = calculateSessionScore({
+    template: input.template,
+    criteria: input.criteria,
+    scores: scoreInputs,
+    groups: input.groups,
+    formula: input.formula,
+  });
+
+  return {
+    outcome: amendedScores.length > 0 ? "amended" : "upheld",
+    amendedScores,
+    changes,
+    scoreResult,
+  };
+}
+
+// ============================================================================
+// SLA
+// ============================================================================
+
+export type DisputeSlaStatus = "on_track" | "at_risk" | "breached";
+
+export interface DisputeAge {
+  ageHours: number;
+  slaStatus: DisputeSlaStatus;
+  /** When the dispute breaches (or breached) the SLA */
+  dueAt: string;
+}
+
+export function getDisputeAge(disputedAt: string, now: Date = new Date()): DisputeAge {
+  const raisedAt = new Date(disputedAt).getTime();
+  const ageHours = Math.max(0, (now.getTime() - raisedAt) / HOUR_MS);
+
+  let slaStatus: DisputeSlaStatus = "on_track";
+  if (ageHours >= DISPUTE_SLA_HOURS) slaStatus = "breached";
+  else if (ageHours >= DISPUTE_AT_RISK_HOURS) slaStatus = "at_risk";
+
+  return {
+    ageHours: Math.round(ageHours * 10) / 10,
+    slaStatus,
+    dueAt: new Date(raisedAt + DISPUTE_SLA_HOURS * HOUR_MS).toISOString(),
+  };
+}
+
+export interface DisputeSlaSummary {
+  open: number;
+  onTrack: number;
+  atRisk: number;
+  breached: number;
+  /** Age of the oldest open dispute, null when there are none */
+  oldestHours: number | null;
+  buckets: { label: string; count: number }[];
+}
+
+export function summarizeDisputeSla(disputedAt: string[], now: Date = new Date()): DisputeSlaSummary {
+  const ages = disputedAt.map((at) => getDisputeAge(at, now));
+  const buckets = DISPUTE_AGE_BUCKETS.map((b) => ({ label: b.label, count: 0 }));
+
+  for (const age of ages) {
+    const index = DISPUTE_AGE_BUCKETS.findIndex((b) => age.ageHours < b.maxHours);
+    buckets[index === -1 ? buckets.length - 1 : index].count++;
+  }
+
+  return {
+    open: ages.length,
+    onTrack: ages.filter((a) => a.slaStatus === "on_track").length,
+    atRisk: ages.filter((a) => a.slaStatus === "at_risk").length,
+    breached: ages.filter((a) => a.slaStatus === "breached").length,
+    oldestHours: ages.length > 0 ? Math.max(...ages.map((a) => a.ageHours)) : null,
+    buckets,
+  };
+}
@@ -0,0 +1,309 @@
+/**
+ * Calendar Push Channels
+ *
+ * Manages the Google Calendar watch channel behind each calendar link, so
+ * event changes reach /api/calendar/webhook instead of waiting for a
+ * manual sync:
+ * - registerCalendarChannel() when a link is created or sync is resumed
+ * - renewExpiringChannels() from cron, re-watching before `expiration`
+ * - teardownCalendarChannel() when a link is deleted or paused, and
+ *   teardownConnectionChannels() when its Google account is disconnected
+ *
+ * Every channel carries a random token that Google echoes back as
+ * X-Goog-Channel-Token; notifications without it are refused (see
+ * channel-tokens.ts).
+ *
+ * Google only delivers to HTTPS addresses, so nothing is registered when
+ * NEXT_PUBLIC_APP_URL isn't HTTPS (local development keeps manual sync).
+ */
+
+import "server-only";
+import crypto from "crypto";
+import { createAdminClient } from "@/lib/supabase/server";
+import { getValidAccessToken } from "./tokens";
+import { watchCalendar, stopWatch } from "./calendar-client";
+import {
+  checkChannelNotification,
+  generateChannelToken,
+  type CalendarNotificationCheck,
+} from "./channel-tokens";
+
+export {
+  generateChannelToken,
+  verifyChannelToken,
+  redactChannelToken,
+  type CalendarNotificationCheck,
+} from "./channel-tokens";
+import type { ConnectorProvider } from "@/types/database";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Lifetime requested for new channels; Google may grant less
+export const CHANNEL_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Channels expiring within this window are renewed by the cron job
+export const CHANNEL_RENEW_BEFORE_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+// Only Google links get channels, so google_connection_id is always set
+interface ChannelLink {
+  id: string;
+  provider: ConnectorProvider;
+  calendar_id: string;
+  google_connection_id: string;
+  sync_enabled: boolean;
+  webhook_channel_id: string | null;
+  webhook_resource_id: string | null;
+  webhook_expiration: string | null;
+  webhook_channel_token: string | null;
+}
+
+const CHANNEL_LINK_COLUMNS =
+  "id, provider, calendar_id, google_connection_id, sync_enabled, webhook_channel_id, webhook_resource_id, webhook_expiration, webhook_channel_token";
+
+export interface ChannelRegistration {
+  registered: boolean;
+  channelId?: string;
+  expiration?: string;
+  /** Why no channel was registered */
+  reason?: string;
+}
+
+export interface ChannelRenewalResult {
+  checked: number;
+  renewed: number;
+  failed: number;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Where Google should deliver notifications, or null when it can't
+ */
+export function getCalendarWebhookUrl(): string | null {
+  const appUrl = (process.env.NEXT_PUBLIC_APP_URL || "").replace(/\/$/, "");
+  if (!appUrl.startsWith("https://")) return null;
+  return `${appUrl}/api/calendar/webhook`;
+}
+
+async function loadLink(supabase: AdminClient, linkId: string): Promise<ChannelLink | null> {
+  const { data } = await supabase
+    .from("google_calendar_links")
+    .select(CHANNEL_LINK_COLUMNS)
+    .eq("id", linkId)
+    .single();
+
+  return (data as ChannelLink | null) || null;
+}
+
+/**
+ * Ask Google to stop a channel. Best-effort: an already expired or unknown
+ * channel is gone either way.
+ */
+async function stopChannel(link: ChannelLink, accessToken?: string): Promise<void> {
+  if (!link.webhook_channel_id || !link.webhook_resource_id) return;
+
+  try {
+    const token = accessToken || (await getValidAccessToken(link.google_connection_id));
+    await stopWatch(token, link.webhook_channel_id, link.webhook_resource_id);
+  } catch (error) {
+    console.warn(`[Calendar Channels] Failed to stop channel ${link.webhook_channel_id}:`, error);
+  }
+}
+
+const CLEARED_CHANNEL = {
+  webhook_channel_id: null,
+  webhook_resource_id: null,
+  webhook_expiration: null,
+  webhook_channel_token: null,
+};
+
+// ============================================================================
+// LIFECYCLE
+// ============================================================================
+
+/**
+ * Watch a link's calendar, replacing any channel it already has. Failures
+ * are recorded on the link rather than thrown, so they never block the
+ * link itself from being saved.
+ */
+export async function registerCalendarChannel(linkId: string): Promise<ChannelRegistration> {
+  const supabase = createAdminClient();
+  const link = await loadLink(supabase, linkId);
+
+  if (!link) return { registered: false, reason: "Calendar link not found" };
+  if (link.provider !== "google") {
+    return { registered: false, reason: "Push notifications are only available for Google calendars" };
+  }
+  if (!link.sync_enabled) return { registered: false, reason: "Sync is paused" };
+
+  const webhookUrl = getCalendarWebhookUrl();
+  if (!webhookUrl) return { registered: false, reason: "Push notifications need an HTTPS app URL" };
+
+  try {
+    const accessToken = await getValidAccessToken(link.google_connection_id);
+    const channelId = crypto.randomUUID();
+    const channelToken = generateChannelToken();
+
+    const channel = await watchCalendar(
+      accessToken,
+      link.calendar_id,
+      channelId,
+      webhookUrl,
+      Date.now() + CHANNEL_TTL_MS,
+      channelToken
+    );
+
+    // Google reports expiration in milliseconds since the epoch
+    const expiration = new Date(Number(channel.expiration)).toISOString();
+
+    await supabase
+      .from("google_calendar_links")
+      .update({
+        webhook_channel_id: channelId,
+        webhook_resource_id: channel.resourceId,
+        webhook_expiration: expiration,
+        webhook_channel_token: channelToken,
+        webhook_error: null,
+      })
+      .eq("id", link.id);
+
+    // Only stop the old channel once the new one is saved, so no
+    // notifications fall in between
+    await stopChannel(link, accessToken);
+
+    return { registered: true, channelId, expiration };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to watch calendar";
+    console.error(`[Calendar Channels] Failed to register channel for link ${link.id}:`, error);
+
+    await supabase.from("google_calendar_links").update({ webhook_error: message }).eq("id", link.id);
+
+    return { registered: false, reason: message };
+  }
+}
+
+/**
+ * Stop a link's channel and forget it
+ */
+export async function teardownCalendarChannel(linkId: string): Promise<void> {
+  const supabase = createAdminClient();
+  const link = await loadLink(supabase, linkId);
+  if (!link || !link.webhook_channel_id) return;
+
+  await stopChannel(link);
+  await supabase
+    .from("google_calendar_links")
+    .update({ ...CLEARED_CHANNEL, webhook_error: null })
+    .eq("id", link.id);
+}
+
+/**
+ * Stop the channels of every link on a Google connection. Must run before
+ * the connection is deleted, while its tokens can still be used.
+ */
+export async function teardownConnectionChannels(connectionId: string): Promise<number> {
+  const supabase = createAdminClient();
+  const { data: links } = await supabase
+    .from("google_calendar_links")
+    .select(CHANNEL_LINK_COLUMNS)
+    .eq("google_connection_id", connectionId)
+    .not("webhook_channel_id", "is", null);
+
+  const channelLinks = (links || []) as ChannelLink[];
+  if (channelLinks.length === 0) return 0;
+
+  let accessToken: string | undefined;
+  try {
+    accessToken = await getValidAccessToken(connectionId);
+  } catch (error) {
+    console.warn(`[Calendar Channels] No access token for connection ${connectionId}:`, error);
+  }
+
+  for (const link of channelLinks) {
+    if (accessToken) await stopChannel(link, accessToken);
+    await supabase.from("google_calendar_links").update(CLEARED_CHANNEL).eq("id", link.id);
+  }
+
+  return channelLinks.length;
+}
+
+/**
+ * Re-watch every syncing link whose channel is missing or expires within
+ * CHANNEL_RENEW_BEFORE_MS, soonest first
+ */
+export async function renewExpiringChannels(
+  options: { now?: Date; deadline?: number } = {}
+): Promise<ChannelRenewalResult> {
+  const now = options.now || new Date();
+  const result: ChannelRenewalResult = { checked: 0, renewed: 0, failed: 0 };
+
+  if (!getCalendarWebhookUrl()) return result;
+
+  const supabase = createAdminClient();
+  const renewBefore = new Date(now.getTime() + CHANNEL_RENEW_BEFORE_MS).toISOString();
+
+  const { data: links, error } = await supabase
+    .from("google_calendar_links")
+    .select("id")
+    .eq("provider", "google")
+    .eq("sync_enabled", true)
+    .or(`webhook_expiration.is.null,webhook_expiration.lt.${renewBefore}`)
+    .order("webhook_expiration", { ascending: true, nullsFirst: true });
+
+  if (error) {
+    throw new Error(`Failed to load calendar links: ${error.message}`);
+  }
+
+  for (const link of links || []) {
+    if (options.deadline && Date.now() > options.deadline) break;
+
+    result.checked++;
+    const registration = await registerCalendarChannel(link.id);
+    if (registration.registered) result.renewed++;
+    else result.failed++;
+  }
+
+  return result;
+}
+
+// ============================================================================
+// NOTIFICATIONS
+// ============================================================================
+
+/**
+ * Match an incoming notification to its link, checking the channel token
+ * and watched resource, and record that the channel is alive
+ */
+export async function verifyCalendarNotification(notification: {
+  channelId: string;
+  resourceId: string;
+  token: string | null;
+}): Promise<CalendarNotificationCheck> {
+  const supabase = createAdminClient();
+
+  const { data: link } = await supabase
+    .from("google_calendar_links")
+    .select("id, webhook_resource_id, webhook_channel_token")
+    .eq("webhook_channel_id", notification.channelId)
+    .maybeSingle();
+
+  const check = checkChannelNotification(link, notification);
+  if (!check.ok) return check;
+
+  await supabase
+    .from("google_calendar_links")
+    .update({ webhook_last_notification_at: new Date().toISOString() })
+    .eq("id", check.linkId);
+
+  return check;
+}
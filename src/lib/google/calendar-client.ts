@@ -89,6 +89,10 @@ export interface GoogleCalendarEvent {
       meetingCode?: string;
     }>;
   };
+  extendedProperties?: {
+    private?: Record<string, string>;
+    shared?: Record<string, string>;
+  };
   iCalUID: string;
   eventType?: "default" | "outOfOffice" | "focusTime" | "workingLocation";
 }
@@ -106,13 +110,18 @@ export interface EventListResponse {
   items?: GoogleCalendarEvent[];
 }
 
-export interface EventFilter {
-  keywords?: string[];
-  minDurationMinutes?: number;
-  maxDurationMinutes?: number;
-  hasVideoConference?: boolean;
-  excludeAllDayEvents?: boolean;
-  attendeeEmails?: string[];
+/**
+ * A failed Calendar API request. 410 from events.list means the sync token
+ * expired and a full sync is needed.
+ */
+export class CalendarAPIError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number
+  ) {
+    super(message);
+    this.name = "CalendarAPIError";
+  }
 }
 
 // ============================================================================
@@ -178,6 +187,7 @@ export async function listEvents(
     pageToken?: string;
     syncToken?: string;
     singleEvents?: boolean;
+    showDeleted?: boolean;
     orderBy?: "startTime" | "updated";
     q?: string;
   } = {}
@@ -192,6 +202,9 @@ export async function listEvents(
   if (options.singleEvents !== undefined) {
     params.set("singleEvents", options.singleEvents.toString());
   }
+  if (options.showDeleted !== undefined) {
+    params.set("showDeleted", options.showDeleted.toString());
+  }
   if (options.orderBy) params.set("orderBy", options.orderBy);
   if (options.q) params.set("q", options.q);
 
@@ -205,7 +218,7 @@ export async function listEvents(
 
   if (!response.ok) {
     const error = await response.text();
-    throw new Error(`Failed to list events: ${response.status} - ${error}`);
+    throw new CalendarAPIError(`Failed to list events: ${response.status} - ${error}`, response.status);
   }
 
   return (await response.json()) as EventListResponse;
@@ -229,21 +242,52 @@ export async function getEvent(
 
   if (!response.ok) {
     const error = await response.text();
-    throw new Error(`Failed to get event: ${response.status} - ${error}`);
+    throw new CalendarAPIError(`Failed to get event: ${response.status} - ${error}`, response.status);
+  }
+
+  return (await response.json()) as GoogleCalendarEvent;
+}
+
+/**
+ * Patch an event's description and/or extended properties. Extended
+ * properties are merged by Google, so only the given keys change.
+ */
+export async function patchEvent(
+  accessToken: string,
+  calendarId: string,
+  eventId: string,
+  patch: Pick<GoogleCalendarEvent, "description" | "extendedProperties">
+): Promise<GoogleCalendarEvent> {
+  const url = `${CALENDAR_API_BASE}/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(eventId)}?sendUpdates=none`;
+
+  const response = await fetch(url, {
+    method: "PATCH",
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(patch),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Failed to patch event: ${response.status} - ${error}`);
   }
 
   return (await response.json()) as GoogleCalendarEvent;
 }
 
 /**
- * Set up a watch channel for push notifications on a calendar
+ * Set up a watch channel for push notifications on a calendar. The token,
+ * if given, comes back as X-Goog-Channel-Token on every notification.
  */
 export async function watchCalendar(
   accessToken: string,
   calendarId: string,
   channelId: string,
   webhookUrl: string,
-  expirationTime?: number
+  expirationTime?: number,
+  token?: string
 ): Promise<{
   kind: string;
   id: string;
@@ -263,6 +307,10 @@ export async function watchCalendar(
     body.expiration = expirationTime.toString();
   }
 
+  if (token) {
+    body.token = token;
+  }
+
   const response = await fetch(url, {
     method: "POST",
     headers: {
@@ -312,87 +360,6 @@ export async function stopWatch(
 // HELPER FUNCTIONS
 // ============================================================================
 
-/**
- * Check if an event matches the given filter criteria
- */
-export function matchesEventFilter(
-  event: GoogleCalendarEvent,
-  filter: EventFilter
-): boolean {
-  // Skip cancelled events
-  if (event.status === "cancelled") {
-    return false;
-  }
-
-  // Check all-day events
-  if (filter.excludeAllDayEvents && event.start.date && !event.start.dateTime) {
-    return false;
-  }
-
-  // Check keywords
-  if (filter.keywords && filter.keywords.length > 0) {
-    const searchText = `${event.summary || ""} ${event.description || ""}`.toLowerCase();
-    const hasKeyword = filter.keywords.some((keyword) =>
-      searchText.includes(keyword.toLowerCase())
-    );
-    if (!hasKeyword) {
-      return false;
-    }
-  }
-
-  // Check duration
-  if (filter.minDurationMinutes || filter.maxDurationMinutes) {
-    const startTime = event.start.dateTime
-      ? new Date(event.start.dateTime)
-      : null;
-    const endTime = event.end.dateTime ? new Date(event.end.dateTime) : null;
-
-    if (startTime && endTime) {
-      const durationMinutes =
-        (endTime.getTime() - startTime.getTime()) / 1000 / 60;
-
-      if (
-        filter.minDurationMinutes &&
-        durationMinutes < filter.minDurationMinutes
-      ) {
-        return false;
-      }
-      if (
-        filter.maxDurationMinutes &&
-        durationMinutes > filter.maxDurationMinutes
-      ) {
-        return false;
-      }
-    }
-  }
-
-  // Check video conference
-  if (filter.hasVideoConference) {
-    const hasConference = !!(
-      event.hangoutLink ||
-      event.conferenceData?.entryPoints?.some((ep) =>
-        ["video", "more"].includes(ep.entryPointType)
-      )
-    );
-    if (!hasConference) {
-      return false;
-    }
-  }
-
-  // Check attendees
-  if (filter.attendeeEmails && filter.attendeeEmails.length > 0) {
-    const eventAttendees = event.attendees?.map((a) => a.email?.toLowerCase()) || [];
-    const hasAttendee = filter.attendeeEmails.some((email) =>
-      eventAttendees.includes(email.toLowerCase())
-    );
-    if (!hasAttendee) {
-      return false;
-    }
-  }
-
-  return true;
-}
-
 /**
  * Extract a Google Meet code from an event
  */
@@ -422,25 +389,3 @@ export function extractMeetCode(event: GoogleCalendarEvent): string | null {
 
   return null;
 }
-
-/**
- * Get the start time of an event as a Date
- */
-export function getEventStartTime(event: GoogleCalendarEvent): Date {
-  if (event.start.dateTime) {
-    return new Date(event.start.dateTime);
-  }
-  // All-day event
-  return new Date(event.start.date!);
-}
-
-/**
- * Get the end time of an event as a Date
- */
-export function getEventEndTime(event: GoogleCalendarEvent): Date {
-  if (event.end.dateTime) {
-    return new Date(event.end.dateTime);
-  }
-  // All-day event
-  return new Date(event.end.date!);
-}
@@ -0,0 +1,88 @@
+/**
+ * Calendar Write-Back
+ *
+ * For Google calendar links with sync_direction = 'bidirectional', keeps each
+ * session's calendar event up to date with the session:
+ * - a marked block at the end of the event description with the status
+ *   and a link to the session (replaced on every write; see session-block.ts)
+ * - private extended properties (kalyxi_session_id, kalyxi_session_status,
+ *   kalyxi_score, kalyxi_session_url), which only the calendar owner's
+ *   copy of the event carries, so the score isn't shown to attendees
+ *
+ * writeSessionToCalendar() is called after every session status change.
+ * It never throws; failures are recorded on the session as
+ * google_event_writeback_error.
+ */
+
+import "server-only";
+import { createAdminClient } from "@/lib/supabase/server";
+import { getValidAccessToken } from "./tokens";
+import { getEvent, patchEvent } from "./calendar-client";
+import { formatScore, getSessionUrl, withSessionBlock, type WritebackSession } from "./session-block";
+
+// ============================================================================
+// WRITE-BACK
+// ============================================================================
+
+/**
+ * Write a session's status and score to its calendar event, when the
+ * session came from a bidirectional calendar link
+ */
+export async function writeSessionToCalendar(sessionId: string): Promise<void> {
+  const supabase = createAdminClient();
+
+  const { data: session } = await supabase
+    .from("sessions")
+    .select("id, status, percentage_score, pass_status, google_event_id, google_calendar_link_id")
+    .eq("id", sessionId)
+    .maybeSingle();
+
+  if (!session?.google_event_id || !session.google_calendar_link_id) return;
+
+  const { data: link } = await supabase
+    .from("google_calendar_links")
+    .select("id, provider, calendar_id, google_connection_id, sync_direction")
+    .eq("id", session.google_calendar_link_id)
+    .maybeSingle();
+
+  if (!link || link.provider !== "google" || link.sync_direction !== "bidirectional") return;
+
+  try {
+    const accessToken = await getValidAccessToken(link.google_connection_id);
+    const event = await getEvent(accessToken, link.calendar_id, session.google_event_id);
+
+    // Nothing to annotate once the event is gone
+    if (event.status === "cancelled") return;
+
+    const writeback = session as WritebackSession;
+    const score = formatScore(writeback);
+
+    await patchEvent(accessToken, link.calendar_id, session.google_event_id, {
+      description: withSessionBlock(event.description, writeback),
+      extendedProperties: {
+        private: {
+          kalyxi_session_id: session.id,
+          kalyxi_session_status: session.status,
+          kalyxi_score: score || "",
+          kalyxi_session_url: getSessionUrl(session.id),
+        },
+      },
+    });
+
+    await supabase
+      .from("sessions")
+      .update({
+        google_event_writeback_at: new Date().toISOString(),
+        google_event_writeback_error: null,
+      })
+      .eq("id", session.id);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to update calendar event";
+    console.error(`[Calendar Write-Back] Failed for session ${session.id}:`, error);
+
+    await supabase
+      .from("sessions")
+      .update({ google_event_writeback_error: message })
+      .eq("id", session.id);
+  }
+}
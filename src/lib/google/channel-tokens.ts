@@ -0,0 +1,62 @@
+/**
+ * Calendar Channel Tokens
+ *
+ * The shared secret behind each calendar watch channel: generated when the
+ * channel is registered, echoed back by Google as X-Goog-Channel-Token, and
+ * never sent to the browser. calendar-channels.ts does the lookups.
+ *
+ * Uses no credentials or database access, so it isn't marked server-only
+ * and can run under the test runner.
+ */
+
+import crypto from "crypto";
+
+export type CalendarNotificationCheck =
+  | { ok: true; linkId: string }
+  | { ok: false; reason: "unknown_channel" | "invalid_token" | "resource_mismatch" };
+
+export function generateChannelToken(): string {
+  return crypto.randomBytes(32).toString("hex");
+}
+
+/**
+ * Constant-time comparison of the stored and received channel tokens
+ */
+export function verifyChannelToken(expected: string | null, received: string | null): boolean {
+  if (!expected || !received) return false;
+  const a = Buffer.from(expected);
+  const b = Buffer.from(received);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Check a notification against the link registered for its channel (null
+ * when no link has that channel)
+ */
+export function checkChannelNotification(
+  link: { id: string; webhook_resource_id: string | null; webhook_channel_token: string | null } | null,
+  notification: { resourceId: string; token: string | null }
+): CalendarNotificationCheck {
+  if (!link) return { ok: false, reason: "unknown_channel" };
+
+  if (!verifyChannelToken(link.webhook_channel_token, notification.token)) {
+    return { ok: false, reason: "invalid_token" };
+  }
+
+  if (link.webhook_resource_id && link.webhook_resource_id !== notification.resourceId) {
+    return { ok: false, reason: "resource_mismatch" };
+  }
+
+  return { ok: true, linkId: link.id };
+}
+
+/**
+ * Drop the channel token from a link before it goes to the browser
+ */
+export function redactChannelToken<T extends { webhook_channel_token?: unknown }>(
+  link: T
+): Omit<T, "webhook_channel_token"> {
+  const rest = { ...link };
+  delete rest.webhook_channel_token;
+  return rest;
+}
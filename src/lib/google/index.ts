@@ -34,6 +34,7 @@ export {
   listConferenceRecordsByMeetingCode,
   listTranscripts,
   listTranscriptEntries,
+  listParticipants,
   getTranscript,
   getConferenceRecord,
   findBestTranscript,
@@ -62,6 +63,28 @@ export {
   syncMeetingByCode,
 } from "./sync-engine";
 
+// Re-export participant resolution
+export {
+  resolveConferenceParticipants,
+  matchParticipants,
+  matchNamedParticipants,
+  resolveNamedParticipants,
+  buildSpeakerNameMap,
+  withEntryCounts,
+} from "./participants";
+
+export { getParticipantDisplayName } from "./participant-matching";
+
+// Re-export transcript -> call reconciliation
+export {
+  reconcileTranscript,
+  reconcilePendingTranscripts,
+  buildCallSpeakers,
+  resolveCallerForUser,
+} from "./reconcile";
+
+export { normalizeMeetCode, selectSessionForMeeting } from "./session-match";
+
 // Re-export storage utilities
 export {
   // Connections
@@ -115,6 +138,10 @@ export type {
   ListTranscriptsResponse,
   TranscriptEntry,
   ListTranscriptEntriesResponse,
+  ConferenceParticipant,
+  ListParticipantsResponse,
+  Participant,
+  ParticipantKind,
   // Docs API types
   GoogleDocsDocument,
   StructuralElement,
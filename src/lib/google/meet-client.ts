@@ -9,8 +9,10 @@
 
 import "server-only";
 import type {
+  ConferenceParticipant,
   ConferenceRecord,
   ListConferenceRecordsResponse,
+  ListParticipantsResponse,
   ListTranscriptEntriesResponse,
   ListTranscriptsResponse,
   Transcript,
@@ -313,6 +315,49 @@ export async function listTranscriptEntries(
   return entries;
 }
 
+/**
+ * List all participants of a conference.
+ *
+ * @param accessToken - OAuth access token
+ * @param conferenceRecordName - The conference record name
+ * @returns Array of participants (one per person, not per join)
+ */
+export async function listParticipants(
+  accessToken: string,
+  conferenceRecordName: string
+): Promise<ConferenceParticipant[]> {
+  const participants: ConferenceParticipant[] = [];
+  let pageToken: string | undefined;
+
+  // Ensure proper format
+  const name = conferenceRecordName.startsWith("conferenceRecords/")
+    ? conferenceRecordName
+    : `conferenceRecords/${conferenceRecordName}`;
+
+  do {
+    const params = new URLSearchParams({
+      pageSize: "250", // Maximum allowed page size
+    });
+
+    if (pageToken) {
+      params.set("pageToken", pageToken);
+    }
+
+    const response = await meetFetch<ListParticipantsResponse>(
+      accessToken,
+      `/${name}/participants?${params.toString()}`
+    );
+
+    if (response.participants) {
+      participants.push(...response.participants);
+    }
+
+    pageToken = response.nextPageToken;
+  } while (pageToken);
+
+  return participants;
+}
+
 /**
  * Get a single transcript by name.
  *
@@ -475,9 +520,13 @@ export async function findBestTranscript(
  * Convert transcript entries to plain text format.
  *
  * @param entries - Array of transcript entries
+ * @param speakerNames - Participant resource name -> display name
  * @returns Formatted transcript text with speaker labels and timestamps
  */
-export function entriesToPlainText(entries: TranscriptEntry[]): string {
+export function entriesToPlainText(
+  entries: TranscriptEntry[],
+  speakerNames: Map<string, string> = new Map()
+): string {
   if (entries.length === 0) {
     return "";
   }
@@ -485,14 +534,15 @@ export function entriesToPlainText(entries: TranscriptEntry[]): string {
   const lines: string[] = [];
 
   for (const entry of entries) {
-    // Extract participant name from resource name
-    const participantId = entry.participant.split("/").pop() || "Unknown";
+    // Prefer the resolved name, falling back to the participant ID
+    const speaker =
+      speakerNames.get(entry.participant) || entry.participant.split("/").pop() || "Unknown";
 
     // Format timestamp
     const timestamp = formatTimestamp(entry.startTime);
 
     // Add formatted line
-    lines.push(`[${timestamp}] ${participantId}: ${entry.text}`);
+    lines.push(`[${timestamp}] ${speaker}: ${entry.text}`);
   }
 
   return lines.join("\n");
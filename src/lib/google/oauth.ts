@@ -12,8 +12,13 @@
  */
 
 import "server-only";
-import { createHmac, randomBytes } from "crypto";
-import type { GoogleTokenResponse, GoogleUserInfo, OAuthStatePayload } from "./types";
+import {
+  createStatePayload,
+  signOAuthState,
+  verifyOAuthState,
+  type OAuthStatePayload,
+} from "@/lib/oauth-state";
+import type { GoogleTokenResponse, GoogleUserInfo } from "./types";
 
 // Google OAuth endpoints
 const GOOGLE_AUTH_URL = "https://accounts.google.com/o/oauth2/v2/auth";
@@ -27,6 +32,8 @@ export const GOOGLE_OAUTH_SCOPES = [
   "https://www.googleapis.com/auth/drive.readonly",
   "https://www.googleapis.com/auth/documents.readonly",
   "https://www.googleapis.com/auth/calendar.readonly",
+  // Bidirectional calendar links write session status back to their events
+  "https://www.googleapis.com/auth/calendar.events",
   "https://www.googleapis.com/auth/userinfo.email",
   "https://www.googleapis.com/auth/userinfo.profile",
 ];
@@ -70,16 +77,7 @@ export function getOAuthConfig() {
  * @returns Signed state string (base64 JSON + signature)
  */
 export function signState(payload: OAuthStatePayload): string {
-  const { hmacSecret } = getOAuthConfig();
-
-  const payloadJson = JSON.stringify(payload);
-  const payloadBase64 = Buffer.from(payloadJson).toString("base64url");
-
-  const hmac = createHmac("sha256", hmacSecret);
-  hmac.update(payloadBase64);
-  const signature = hmac.digest("base64url");
-
-  return `${payloadBase64}.${signature}`;
+  return signOAuthState(payload, getOAuthConfig().hmacSecret);
 }
 
 /**
@@ -90,48 +88,7 @@ export function signState(payload: OAuthStatePayload): string {
  * @throws Error if signature is invalid or state is malformed
  */
 export function verifySignedState(state: string): OAuthStatePayload {
-  const { hmacSecret } = getOAuthConfig();
-
-  const parts = state.split(".");
-  if (parts.length !== 2) {
-    throw new Error("Invalid state format: expected 2 parts separated by dot");
-  }
-
-  const [payloadBase64, providedSignature] = parts;
-
-  // Verify signature
-  const hmac = createHmac("sha256", hmacSecret);
-  hmac.update(payloadBase64);
-  const expectedSignature = hmac.digest("base64url");
-
-  if (providedSignature !== expectedSignature) {
-    throw new Error("Invalid state signature: CSRF protection failed");
-  }
-
-  // Decode payload
-  try {
-    const payloadJson = Buffer.from(payloadBase64, "base64url").toString("utf8");
-    const payload = JSON.parse(payloadJson) as OAuthStatePayload;
-
-    // Validate required fields
-    if (!payload.userId || !payload.nonce || !payload.timestamp) {
-      throw new Error("Invalid state payload: missing required fields");
-    }
-
-    // Check timestamp (reject if older than 10 minutes)
-    const ageMs = Date.now() - payload.timestamp;
-    const maxAgeMs = 10 * 60 * 1000; // 10 minutes
-    if (ageMs > maxAgeMs) {
-      throw new Error("State expired: OAuth flow took too long");
-    }
-
-    return payload;
-  } catch (error) {
-    if (error instanceof Error && error.message.includes("State")) {
-      throw error;
-    }
-    throw new Error("Invalid state payload: failed to parse JSON");
-  }
+  return verifyOAuthState(state, getOAuthConfig().hmacSecret);
 }
 
 /**
@@ -148,13 +105,7 @@ export function buildGoogleAuthUrl(
   const config = getOAuthConfig();
 
   // Create signed state for CSRF protection
-  const statePayload: OAuthStatePayload = {
-    userId,
-    nonce: randomBytes(16).toString("hex"),
-    timestamp: Date.now(),
-    redirectUrl,
-  };
-  const state = signState(statePayload);
+  const state = signState(createStatePayload(userId, redirectUrl));
 
   // Build URL with query params
   const params = new URLSearchParams({
@@ -0,0 +1,180 @@
+/**
+ * Meet Participant Matching
+ *
+ * Pure rules for matching transcript speakers to org users and callers.
+ * participants.ts loads the org directory and applies them.
+ *
+ * Uses no credentials or database access, so it isn't marked server-only
+ * and can run under the test runner.
+ */
+
+import type { ConferenceParticipant, Participant, TranscriptEntry } from "./types";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * People a participant can be matched against, all within one org
+ */
+export interface ParticipantDirectory {
+  connections: { googleUserId: string; userId: string; email: string }[];
+  users: { id: string; name: string | null; email: string }[];
+  callers: { id: string; name: string; email: string | null; userId: string | null }[];
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+/**
+ * Get the display name shown in Meet for a participant.
+ */
+export function getParticipantDisplayName(participant: ConferenceParticipant): string {
+  return (
+    participant.signedinUser?.displayName ||
+    participant.anonymousUser?.displayName ||
+    participant.phoneUser?.displayName ||
+    "Unknown"
+  );
+}
+
+function sameName(a: string | null | undefined, b: string | null | undefined): boolean {
+  return !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Return the only item matching a predicate, or undefined when there are
+ * none or several (two "Alex"es shouldn't be guessed between).
+ */
+function findUnique<T>(items: T[], predicate: (item: T) => boolean): T | undefined {
+  const matches = items.filter(predicate);
+  return matches.length === 1 ? matches[0] : undefined;
+}
+
+/**
+ * Match Meet participants to org users and callers.
+ *
+ * Signed-in participants are matched by Google user ID to a connected
+ * account; everyone else by exact display name.
+ *
+ * @param participants - Participants from the Meet API
+ * @param directory - Org users, callers and connected Google accounts
+ * @returns Speaker list to store on the transcript
+ */
+export function matchParticipants(
+  participants: ConferenceParticipant[],
+  directory: ParticipantDirectory
+): Participant[] {
+  return participants.map((participant) => {
+    const name = getParticipantDisplayName(participant);
+    const googleUserId = participant.signedinUser?.user.replace(/^users\//, "");
+
+    const resolved: Participant = {
+      name,
+      participantId: participant.name,
+      kind: participant.signedinUser
+        ? "signed_in"
+        : participant.phoneUser
+          ? "phone"
+          : "anonymous",
+      googleUserId,
+    };
+
+    const connection = googleUserId
+      ? directory.connections.find((c) => c.googleUserId === googleUserId)
+      : undefined;
+
+    const user = connection
+      ? directory.users.find((u) => u.id === connection.userId)
+      : findUnique(directory.users, (u) => sameName(u.name, name));
+
+    if (user) {
+      resolved.userId = user.id;
+      resolved.email = connection?.email || user.email;
+    }
+
+    const caller =
+      (user && directory.callers.find((c) => c.userId === user.id)) ||
+      (resolved.email && findUnique(directory.callers, (c) => sameName(c.email, resolved.email))) ||
+      findUnique(directory.callers, (c) => sameName(c.name, name));
+
+    if (caller) {
+      resolved.callerId = caller.id;
+      resolved.email = resolved.email || caller.email || undefined;
+    }
+
+    return resolved;
+  });
+}
+
+/**
+ * Match speakers that only carry a name (and maybe an email), as Teams and
+ * Zoom transcripts do, to org users and callers: by email first, then by
+ * exact name.
+ *
+ * @param participants - Speakers from the transcript
+ * @param directory - Org users and callers
+ * @returns The speakers with user/caller IDs filled in where matched
+ */
+export function matchNamedParticipants(
+  participants: Participant[],
+  directory: ParticipantDirectory
+): Participant[] {
+  return participants.map((participant) => {
+    const resolved: Participant = { ...participant };
+
+    const user =
+      (participant.email &&
+        findUnique(directory.users, (u) => sameName(u.email, participant.email))) ||
+      findUnique(directory.users, (u) => sameName(u.name, participant.name));
+
+    if (user) {
+      resolved.userId = user.id;
+      resolved.email = resolved.email || user.email;
+    }
+
+    const caller =
+      (user && directory.callers.find((c) => c.userId === user.id)) ||
+      (resolved.email && findUnique(directory.callers, (c) => sameName(c.email, resolved.email))) ||
+      findUnique(directory.callers, (c) => sameName(c.name, participant.name));
+
+    if (caller) {
+      resolved.callerId = caller.id;
+      resolved.email = resolved.email || caller.email || undefined;
+    }
+
+    return resolved;
+  });
+}
+
+/**
+ * Build the participant -> display name map used for transcript labels.
+ */
+export function buildSpeakerNameMap(participants: Participant[]): Map<string, string> {
+  const names = new Map<string, string>();
+  for (const participant of participants) {
+    if (participant.participantId && participant.name) {
+      names.set(participant.participantId, participant.name);
+    }
+  }
+  return names;
+}
+
+/**
+ * Record how many transcript entries each participant spoke.
+ */
+export function withEntryCounts(
+  participants: Participant[],
+  entries: TranscriptEntry[]
+): Participant[] {
+  const counts = new Map<string, number>();
+  for (const entry of entries) {
+    counts.set(entry.participant, (counts.get(entry.participant) || 0) + 1);
+  }
+
+  return participants.map((participant) => ({
+    ...participant,
+    entriesCount: participant.participantId ? counts.get(participant.participantId) || 0 : 0,
+  }));
+}
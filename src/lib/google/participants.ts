@@ -0,0 +1,137 @@
+/**
+ * Meet Participant Resolution
+ *
+ * Server-only module that turns Meet participant resources into named
+ * speakers and matches them to org users and callers. The Meet API only
+ * exposes display names and Google user IDs, so emails come from users who
+ * have connected their own Google account. The matching rules themselves
+ * are in participant-matching.ts.
+ */
+
+import "server-only";
+import { createAdminClient } from "@/lib/supabase/server";
+import { listParticipants } from "./meet-client";
+import {
+  matchParticipants,
+  matchNamedParticipants,
+  type ParticipantDirectory,
+} from "./participant-matching";
+import type { Participant } from "./types";
+
+export {
+  matchParticipants,
+  matchNamedParticipants,
+  buildSpeakerNameMap,
+  withEntryCounts,
+  type ParticipantDirectory,
+} from "./participant-matching";
+
+// ============================================================================
+// DIRECTORY
+// ============================================================================
+
+/**
+ * Load the org directory for the user who owns a connection.
+ *
+ * @param ownerUserId - User whose connection synced the transcript
+ * @returns Directory, or null if the user has no org
+ */
+async function loadParticipantDirectory(ownerUserId: string): Promise<ParticipantDirectory | null> {
+  const supabase = createAdminClient();
+
+  const { data: owner } = await supabase
+    .from("users")
+    .select("org_id")
+    .eq("id", ownerUserId)
+    .maybeSingle();
+
+  if (!owner?.org_id) {
+    return null;
+  }
+
+  const { data: users } = await supabase
+    .from("users")
+    .select("id, name, email")
+    .eq("org_id", owner.org_id);
+
+  const { data: callers } = await supabase
+    .from("callers")
+    .select("id, name, email, user_id")
+    .eq("org_id", owner.org_id)
+    .eq("is_active", true);
+
+  const userIds = (users || []).map((u: { id: string }) => u.id);
+  const { data: connections } = userIds.length
+    ? await supabase
+        .from("google_connections")
+        .select("user_id, google_email, google_user_id")
+        .in("user_id", userIds)
+        .not("google_user_id", "is", null)
+    : { data: [] };
+
+  return {
+    users: users || [],
+    callers: (callers || []).map(
+      (c: { id: string; name: string; email: string | null; user_id: string | null }) => ({
+        id: c.id,
+        name: c.name,
+        email: c.email,
+        userId: c.user_id,
+      })
+    ),
+    connections: (connections || []).map(
+      (c: { user_id: string; google_email: string; google_user_id: string }) => ({
+        googleUserId: c.google_user_id,
+        userId: c.user_id,
+        email: c.google_email,
+      })
+    ),
+  };
+}
+
+/**
+ * Fetch a conference's participants and match them to the connection
+ * owner's org.
+ *
+ * @param accessToken - OAuth access token
+ * @param conferenceRecordName - The conference record name
+ * @param ownerUserId - User whose connection is syncing
+ * @returns Speaker list (unmatched participants keep just their name)
+ */
+export async function resolveConferenceParticipants(
+  accessToken: string,
+  conferenceRecordName: string,
+  ownerUserId: string
+): Promise<Participant[]> {
+  const participants = await listParticipants(accessToken, conferenceRecordName);
+  if (participants.length === 0) {
+    return [];
+  }
+
+  const directory = (await loadParticipantDirectory(ownerUserId)) || {
+    users: [],
+    callers: [],
+    connections: [],
+  };
+
+  return matchParticipants(participants, directory);
+}
+
+/**
+ * Match named transcript speakers to the connection owner's org.
+ *
+ * @param participants - Speakers from the transcript
+ * @param ownerUserId - User whose connection synced the transcript
+ * @returns Speaker list (unmatched speakers are returned unchanged)
+ */
+export async function resolveNamedParticipants(
+  participants: Participant[],
+  ownerUserId: string
+): Promise<Participant[]> {
+  if (participants.length === 0) {
+    return [];
+  }
+
+  const directory = await loadParticipantDirectory(ownerUserId);
+  return directory ? matchNamedParticipants(participants, directory) : participants;
+}
@@ -0,0 +1,416 @@
+/**
+ * Meet Transcript Reconciliation
+ *
+ * Server-only module that turns synced Meet and Teams transcripts into
+ * calls. A transcript is matched to the calendar-created session in its
+ * owner's org with the same meeting code (Meet code or Teams meeting key)
+ * whose event time overlaps the meeting (see session-match.ts), a
+ * `google_notes` or `microsoft_teams` call is created for the session's
+ * agent, and the call is attached to the session.
+ *
+ * AI analysis is queued by the auto_queue_call trigger when the org has
+ * features.autoAnalyze enabled.
+ */
+
+import "server-only";
+import { createAdminClient } from "@/lib/supabase/server";
+import { computeCallMetrics, meetEntriesToUtterances } from "@/lib/call-metrics";
+import { notifyNewCall } from "@/lib/notifications";
+import { consumeUsage, releaseUsage } from "@/lib/usage";
+import type { CallSpeaker } from "@/types/database";
+import { buildSpeakerNameMap } from "./participants";
+import { normalizeMeetCode, selectSessionForMeeting, type SessionCandidate } from "./session-match";
+import type { MeetTranscript, Participant } from "./types";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ReconcileStatus = "linked" | "already_linked" | "no_session" | "no_caller" | "over_limit";
+
+export interface ReconcileResult {
+  transcriptId: string;
+  status: ReconcileStatus;
+  callId?: string;
+  sessionId?: string;
+}
+
+// ============================================================================
+// RECONCILIATION
+// ============================================================================
+
+/**
+ * Find or create the caller record for an org user.
+ *
+ * @param orgId - Organization of the session
+ * @param userId - User being scored
+ * @returns Caller ID, or null if the user isn't in the org
+ */
+export async function resolveCallerForUser(orgId: string, userId: string): Promise<string | null> {
+  const supabase = createAdminClient();
+
+  const { data: linked } = await supabase
+    .from("callers")
+    .select("id")
+    .eq("org_id", orgId)
+    .eq("user_id", userId)
+    .limit(1)
+    .maybeSingle();
+
+  if (linked) {
+    return linked.id;
+  }
+
+  const { data: user } = await supabase
+    .from("users")
+    .select("id, email, name")
+    .eq("id", userId)
+    .eq("org_id", orgId)
+    .maybeSingle();
+
+  if (!user) {
+    return null;
+  }
+
+  // Link an existing caller with the same email rather than duplicating it
+  const { data: byEmail } = await supabase
+    .from("callers")
+    .select("id")
+    .eq("org_id", orgId)
+    .is("user_id", null)
+    .ilike("email", user.email)
+    .limit(1)
+    .maybeSingle();
+
+  if (byEmail) {
+    await supabase.from("callers").update({ user_id: user.id }).eq("id", byEmail.id);
+    return byEmail.id;
+  }
+
+  const { data: created, error } = await supabase
+    .from("callers")
+    .insert({
+      org_id: orgId,
+      user_id: user.id,
+      name: user.name || user.email.split("@")[0],
+      email: user.email,
+      is_active: true,
+    })
+    .select("id")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create caller: ${error.message}`);
+  }
+
+  return created.id;
+}
+
+/**
+ * Work out who was being coached in a session. Falls back to matched
+ * transcript speakers and then the transcript owner when the calendar event
+ * had no attendee mapped to an org user.
+ */
+function resolveAgentUserId(session: SessionCandidate, transcript: MeetTranscript): string | null {
+  if (session.agent_id) {
+    return session.agent_id;
+  }
+
+  const speaker = (transcript.participants || []).find(
+    (p) => p.userId && p.userId !== session.coach_id
+  );
+  if (speaker?.userId) {
+    return speaker.userId;
+  }
+
+  return transcript.user_id !== session.coach_id ? transcript.user_id : null;
+}
+
+/**
+ * Build the call's speaker list from the transcript participants, flagging
+ * the rep being evaluated.
+ */
+export function buildCallSpeakers(
+  participants: Participant[],
+  repUserId: string | null,
+  repCallerId: string
+): CallSpeaker[] {
+  return participants
+    .filter((p) => p.name)
+    .map((p) => {
+      const isRep = (!!repUserId && p.userId === repUserId) || p.callerId === repCallerId;
+      return {
+        name: p.name!,
+        email: p.email || null,
+        user_id: p.userId || null,
+        caller_id: isRep ? repCallerId : p.callerId || null,
+        is_rep: isRep,
+        entries_count: p.entriesCount,
+      };
+    });
+}
+
+/**
+ * Record the call/session a transcript was reconciled to.
+ */
+async function markTranscriptReconciled(
+  transcriptId: string,
+  callId: string,
+  sessionId: string | null
+): Promise<void> {
+  const supabase = createAdminClient();
+
+  const { error } = await supabase
+    .from("meet_transcripts")
+    .update({
+      call_id: callId,
+      session_id: sessionId,
+      reconciled_at: new Date().toISOString(),
+    })
+    .eq("id", transcriptId);
+
+  if (error) {
+    throw new Error(`Failed to link transcript: ${error.message}`);
+  }
+}
+
+/**
+ * Give the call to every template's session for the event, not just the
+ * matched one
+ */
+async function attachCallToSessions(
+  session: Pick<SessionCandidate, "id" | "org_id" | "google_event_id">,
+  callId: string
+): Promise<void> {
+  const supabase = createAdminClient();
+
+  const sessionUpdate = supabase
+    .from("sessions")
+    .update({ call_id: callId })
+    .eq("org_id", session.org_id)
+    .is("call_id", null);
+
+  const { error } = session.google_event_id
+    ? await sessionUpdate.eq("google_event_id", session.google_event_id)
+    : await sessionUpdate.eq("id", session.id);
+
+  if (error) {
+    throw new Error(`Failed to attach call to session: ${error.message}`);
+  }
+}
+
+/**
+ * Create a call for a synced transcript and attach it to its calendar
+ * session. Safe to call repeatedly: a transcript already linked, or a
+ * conference already turned into a call via another participant's
+ * connection, is not duplicated.
+ *
+ * @param transcript - Saved meet_transcripts row
+ * @returns What happened to the transcript
+ */
+export async function reconcileTranscript(transcript: MeetTranscript): Promise<ReconcileResult> {
+  const supabase = createAdminClient();
+  const result: ReconcileResult = { transcriptId: transcript.id, status: "no_session" };
+
+  if (transcript.call_id) {
+    return {
+      ...result,
+      status: "already_linked",
+      callId: transcript.call_id,
+      sessionId: transcript.session_id || undefined,
+    };
+  }
+
+  // Meeting codes and conferences can be shared with other orgs' users, so
+  // everything below stays within the org of the user who synced this
+  const { data: owner } = await supabase
+    .from("users")
+    .select("org_id")
+    .eq("id", transcript.user_id)
+    .maybeSingle();
+
+  if (!owner?.org_id) {
+    return result;
+  }
+
+  const ownerOrgId: string = owner.org_id;
+
+  // Same conference synced through another connection in the org
+  const { data: sibling } = await supabase
+    .from("meet_transcripts")
+    .select("call_id, session_id, call:calls!inner(org_id)")
+    .eq("conference_record_name", transcript.conference_record_name)
+    .eq("call.org_id", ownerOrgId)
+    .not("call_id", "is", null)
+    .limit(1)
+    .maybeSingle();
+
+  if (sibling?.call_id) {
+    await markTranscriptReconciled(transcript.id, sibling.call_id, sibling.session_id);
+    return {
+      ...result,
+      status: "already_linked",
+      callId: sibling.call_id,
+      sessionId: sibling.session_id || undefined,
+    };
+  }
+
+  const meetCode = normalizeMeetCode(transcript.meeting_code);
+  if (!meetCode || !transcript.meeting_start_time) {
+    return result;
+  }
+
+  const { data: sessions, error: sessionsError } = await supabase
+    .from("sessions")
+    .select(
+      "id, org_id, call_id, agent_id, coach_id, google_event_id, google_event_title, google_event_start, google_event_end"
+    )
+    .eq("org_id", ownerOrgId)
+    .eq("google_meet_code", meetCode)
+    .is("call_id", null)
+    .neq("status", "cancelled");
+
+  if (sessionsError) {
+    throw new Error(`Failed to find sessions: ${sessionsError.message}`);
+  }
+
+  const session = selectSessionForMeeting(
+    (sessions || []) as SessionCandidate[],
+    ownerOrgId,
+    transcript.meeting_start_time,
+    transcript.meeting_end_time
+  );
+
+  if (!session) {
+    return result;
+  }
+
+  const agentUserId = resolveAgentUserId(session, transcript);
+  const callerId = agentUserId ? await resolveCallerForUser(session.org_id, agentUserId) : null;
+
+  if (!callerId) {
+    return { ...result, status: "no_caller", sessionId: session.id };
+  }
+
+  // Exact talk ratio etc. from entry timestamps, keyed by participant
+  const participants = transcript.participants || [];
+  const repParticipant = participants.find(
+    (p) => (!!agentUserId && p.userId === agentUserId) || p.callerId === callerId
+  );
+  const callMetrics = computeCallMetrics(meetEntriesToUtterances(transcript.entries || []), {
+    repSpeaker: repParticipant?.participantId,
+    speakerNames: buildSpeakerNameMap(participants),
+  });
+
+  const durationSeconds = transcript.meeting_end_time
+    ? Math.max(
+        0,
+        Math.round(
+          (new Date(transcript.meeting_end_time).getTime() -
+            new Date(transcript.meeting_start_time).getTime()) /
+            1000
+        )
+      )
+    : null;
+
+  // Left unreconciled, so the retry picks it up once the plan allows
+  const usage = await consumeUsage(session.org_id, "calls_count");
+  if (!usage.allowed) {
+    return { ...result, status: "over_limit", sessionId: session.id };
+  }
+
+  const { data: call, error: callError } = await supabase
+    .from("calls")
+    .insert({
+      org_id: session.org_id,
+      caller_id: callerId,
+      raw_notes: transcript.text_content,
+      source: transcript.provider === "microsoft" ? "microsoft_teams" : "google_notes",
+      status: "pending",
+      external_id: transcript.conference_record_name,
+      duration: durationSeconds,
+      call_timestamp: transcript.meeting_start_time,
+      metadata: {
+        meet_transcript_id: transcript.id,
+        meeting_code: meetCode,
+        conference_record_name: transcript.conference_record_name,
+        session_id: session.id,
+        google_event_id: session.google_event_id,
+        google_event_title: session.google_event_title,
+        speakers: buildCallSpeakers(participants, agentUserId, callerId),
+        call_metrics: callMetrics,
+      },
+    })
+    .select("id")
+    .single();
+
+  if (callError || !call) {
+    await releaseUsage(session.org_id, "calls_count");
+
+    // A transcript of the same conference got there first; join its call
+    if (callError?.code === "23505") {
+      const { data: winner } = await supabase
+        .from("calls")
+        .select("id")
+        .eq("org_id", session.org_id)
+        .eq("external_id", transcript.conference_record_name)
+        .maybeSingle();
+
+      if (winner) {
+        await attachCallToSessions(session, winner.id);
+        await markTranscriptReconciled(transcript.id, winner.id, session.id);
+        return { ...result, status: "already_linked", callId: winner.id, sessionId: session.id };
+      }
+    }
+
+    throw new Error(`Failed to create call: ${callError?.message || "no row returned"}`);
+  }
+
+  await attachCallToSessions(session, call.id);
+  await markTranscriptReconciled(transcript.id, call.id, session.id);
+  await notifyNewCall(call.id);
+
+  return { ...result, status: "linked", callId: call.id, sessionId: session.id };
+}
+
+/**
+ * Retry reconciliation for recent transcripts that haven't produced a call,
+ * e.g. because the calendar session was created after the transcript synced.
+ *
+ * @param options - Lookback window and batch size
+ * @returns Count of calls created and any per-transcript errors
+ */
+export async function reconcilePendingTranscripts(
+  options: { sinceHours?: number; limit?: number } = {}
+): Promise<{ checked: number; linked: number; errors: string[] }> {
+  const { sinceHours = 72, limit = 100 } = options;
+  const supabase = createAdminClient();
+
+  const since = new Date(Date.now() - sinceHours * 60 * 60 * 1000).toISOString();
+
+  const { data: transcripts, error } = await supabase
+    .from("meet_transcripts")
+    .select("*")
+    .is("reconciled_at", null)
+    .gte("created_at", since)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    return { checked: 0, linked: 0, errors: [error.message] };
+  }
+
+  let linked = 0;
+  const errors: string[] = [];
+
+  for (const transcript of (transcripts || []) as MeetTranscript[]) {
+    try {
+      const result = await reconcileTranscript(transcript);
+      if (result.status === "linked") linked++;
+    } catch (err) {
+      errors.push(`Transcript ${transcript.id}: ${err instanceof Error ? err.message : "Unknown error"}`);
+    }
+  }
+
+  return { checked: transcripts?.length || 0, linked, errors };
+}
@@ -0,0 +1,70 @@
+/**
+ * Calendar Session Block
+ *
+ * The marked block calendar write-back (calendar-writeback.ts) keeps at the
+ * end of a session's event description. Every attendee can read the
+ * description, so the block only carries the session status and a link;
+ * scores stay in private extended properties.
+ *
+ * Uses no credentials or database access, so it isn't marked server-only
+ * and can run under the test runner.
+ */
+
+import type { PassStatus, SessionStatus } from "@/types/database";
+
+const BLOCK_START = "--- Kalyxi session ---";
+const BLOCK_END = "--- end Kalyxi session ---";
+
+const STATUS_LABELS: Record<SessionStatus, string> = {
+  pending: "Pending",
+  in_progress: "In progress",
+  completed: "Completed",
+  reviewed: "Reviewed",
+  disputed: "Disputed",
+  cancelled: "Cancelled",
+};
+
+export interface WritebackSession {
+  id: string;
+  status: SessionStatus;
+  percentage_score: number | null;
+  pass_status: PassStatus | null;
+}
+
+export function getSessionUrl(sessionId: string): string {
+  const appUrl = (process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000").replace(/\/$/, "");
+  return `${appUrl}/dashboard/sessions/${sessionId}`;
+}
+
+export function formatScore(session: WritebackSession): string | null {
+  if (session.percentage_score === null || session.percentage_score === undefined) return null;
+  const score = `${Math.round(session.percentage_score)}%`;
+  return session.pass_status && session.pass_status !== "pending"
+    ? `${score} (${session.pass_status})`
+    : score;
+}
+
+/**
+ * Replace (or append) the session block in an event description, leaving
+ * whatever the organizer wrote untouched
+ */
+export function withSessionBlock(description: string | undefined, session: WritebackSession): string {
+  const block = [
+    BLOCK_START,
+    `Status: ${STATUS_LABELS[session.status] || session.status}`,
+    getSessionUrl(session.id),
+    BLOCK_END,
+  ].join("\n");
+
+  const current = description || "";
+  const start = current.indexOf(BLOCK_START);
+  const end = current.indexOf(BLOCK_END);
+
+  const base =
+    start !== -1 && end > start
+      ? current.slice(0, start) + current.slice(end + BLOCK_END.length)
+      : current;
+
+  const trimmed = base.trimEnd();
+  return trimmed ? `${trimmed}\n\n${block}` : block;
+}
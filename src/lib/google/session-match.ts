@@ -0,0 +1,107 @@
+/**
+ * Transcript Session Matching
+ *
+ * Pure matching rules for attaching a synced transcript to a calendar
+ * session: meeting code normalization and picking the session whose event
+ * overlaps the meeting. Reconciliation (reconcile.ts) does the lookups.
+ *
+ * Uses no credentials or database access, so it isn't marked server-only
+ * and can run under the test runner.
+ */
+
+// How far outside the scheduled event a meeting may start or end and still
+// count as that event (people join early and overrun)
+export const SESSION_MATCH_TOLERANCE_MINUTES = 60;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Calendar-created session that may receive a transcript
+ */
+export interface SessionCandidate {
+  id: string;
+  org_id: string;
+  call_id: string | null;
+  agent_id: string | null;
+  coach_id: string | null;
+  google_event_id: string | null;
+  google_event_title: string | null;
+  google_event_start: string | null;
+  google_event_end: string | null;
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+/**
+ * Normalize a Meet code to the "abc-mnop-xyz" form. Calendar entry points
+ * and the Meet API don't agree on case or hyphenation.
+ *
+ * @param code - Meet code in any format
+ * @returns Normalized code, or null if empty
+ */
+export function normalizeMeetCode(code: string | null | undefined): string | null {
+  if (!code) return null;
+
+  const letters = code.toLowerCase().replace(/[^a-z]/g, "");
+  if (letters.length === 10) {
+    return `${letters.slice(0, 3)}-${letters.slice(3, 7)}-${letters.slice(7)}`;
+  }
+
+  return code.trim().toLowerCase() || null;
+}
+
+/**
+ * Pick the session a meeting belongs to. Meeting codes aren't unique to an
+ * org (two customers can share a meeting), so only sessions in the
+ * transcript owner's org are considered. Recurring events reuse one Meet
+ * code, so candidates are narrowed to events overlapping the meeting and
+ * the one scheduled closest to the actual start wins.
+ *
+ * @param sessions - Sessions with the transcript's Meet code
+ * @param orgId - Org of the user who synced the transcript
+ * @param meetingStart - Conference start time
+ * @param meetingEnd - Conference end time
+ * @param toleranceMinutes - Slack around the scheduled event
+ * @returns The best session without a call, or null
+ */
+export function selectSessionForMeeting(
+  sessions: SessionCandidate[],
+  orgId: string,
+  meetingStart: string | null,
+  meetingEnd: string | null,
+  toleranceMinutes: number = SESSION_MATCH_TOLERANCE_MINUTES
+): SessionCandidate | null {
+  if (!meetingStart) return null;
+
+  const start = new Date(meetingStart).getTime();
+  const end = meetingEnd ? new Date(meetingEnd).getTime() : start;
+  const tolerance = toleranceMinutes * 60 * 1000;
+
+  let best: SessionCandidate | null = null;
+  let bestDistance = Infinity;
+
+  for (const session of sessions) {
+    if (session.org_id !== orgId || session.call_id || !session.google_event_start) continue;
+
+    const eventStart = new Date(session.google_event_start).getTime();
+    const eventEnd = session.google_event_end
+      ? new Date(session.google_event_end).getTime()
+      : eventStart;
+
+    if (start > eventEnd + tolerance || end < eventStart - tolerance) {
+      continue;
+    }
+
+    const distance = Math.abs(start - eventStart);
+    if (distance < bestDistance) {
+      best = session;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+}
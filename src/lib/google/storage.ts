@@ -338,6 +338,7 @@ export async function saveTranscript(
     meeting_end_time: input.meetingEndTime || null,
     meeting_space_name: input.meetingSpaceName || null,
     participants: input.participants || [],
+    entries: input.entries || [],
     metadata: input.metadata || {},
   };
 
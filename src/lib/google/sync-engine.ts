@@ -26,9 +26,17 @@ import {
   createSyncLog,
   updateSyncLog,
 } from "./storage";
+import { reconcileTranscript } from "./reconcile";
+import {
+  resolveConferenceParticipants,
+  buildSpeakerNameMap,
+  withEntryCounts,
+} from "./participants";
 import type {
   GoogleConnection,
   ConferenceRecord,
+  Participant,
+  TranscriptEntry,
   SyncResult,
   SyncOptions,
 } from "./types";
@@ -127,6 +135,21 @@ export async function syncConnectionTranscripts(
         const transcript = transcriptResult.transcript;
         result.transcriptsFetched++;
 
+        // Resolve speakers to names (and org users/callers where possible)
+        let participants: Participant[] = [];
+        try {
+          participants = await resolveConferenceParticipants(
+            accessToken,
+            conference.name,
+            connection.user_id
+          );
+        } catch (participantsError) {
+          // Labels fall back to participant IDs
+          result.errors.push(
+            `Participants fetch failed for ${conference.name}: ${participantsError instanceof Error ? participantsError.message : "Unknown"}`
+          );
+        }
+
         // Fetch transcript content
         let textContent = "";
         let textSource: "docs" | "entries" = "entries";
@@ -154,24 +177,30 @@ export async function syncConnectionTranscripts(
           }
         }
 
-        // If no docs content, try transcript entries
-        if (!textContent) {
-          try {
-            const entries = await listTranscriptEntries(
-              accessToken,
-              transcript.name
-            );
-            textContent = entriesToPlainText(entries);
-            textSource = "entries";
-            entriesCount = entries.length;
-          } catch (entriesError) {
-            result.errors.push(
-              `Entries fetch failed for ${conference.name}: ${entriesError instanceof Error ? entriesError.message : "Unknown"}`
-            );
+        // Timestamped entries are the text fallback when there's no Docs
+        // export, and the source of call metrics either way
+        let entries: TranscriptEntry[] = [];
+        try {
+          entries = await listTranscriptEntries(
+            accessToken,
+            transcript.name
+          );
+          participants = withEntryCounts(participants, entries);
+        } catch (entriesError) {
+          result.errors.push(
+            `Entries fetch failed for ${conference.name}: ${entriesError instanceof Error ? entriesError.message : "Unknown"}`
+          );
+          if (!textContent) {
             continue;
           }
         }
 
+        if (!textContent) {
+          textContent = entriesToPlainText(entries, buildSpeakerNameMap(participants));
+          textSource = "entries";
+          entriesCount = entries.length;
+        }
+
         // Skip if no content
         if (!textContent.trim()) {
           continue;
@@ -180,7 +209,7 @@ export async function syncConnectionTranscripts(
         // Save transcript
         const meetCode = getMeetingCode(conference) || "unknown";
 
-        await saveTranscript({
+        const saved = await saveTranscript({
           userId: connection.user_id,
           connectionId: connection.id,
           meetingCode: meetCode,
@@ -194,10 +223,27 @@ export async function syncConnectionTranscripts(
           meetingStartTime: conference.startTime,
           meetingEndTime: conference.endTime,
           meetingSpaceName: conference.space?.name,
+          participants,
+          entries: entries.map(({ participant, text, startTime, endTime }) => ({
+            participant,
+            text,
+            startTime,
+            endTime,
+          })),
         });
 
         result.transcriptsSaved++;
         result.newTranscripts.push(conference.name);
+
+        // Turn the transcript into a call on its calendar session, if any.
+        // Failures here don't fail the sync; the cron sweep retries.
+        try {
+          await reconcileTranscript(saved);
+        } catch (reconcileError) {
+          result.errors.push(
+            `Reconcile failed for ${conference.name}: ${reconcileError instanceof Error ? reconcileError.message : "Unknown"}`
+          );
+        }
       } catch (conferenceError) {
         result.errors.push(
           `Conference ${conference.name}: ${conferenceError instanceof Error ? conferenceError.message : "Unknown error"}`
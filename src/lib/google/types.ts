@@ -60,12 +60,15 @@ export interface GoogleConnectionPublic {
 }
 
 /**
- * Meet transcript stored in database
+ * Meet transcript stored in database. Teams transcripts share the table,
+ * with microsoft_connection_id set instead of connection_id.
  */
 export interface MeetTranscript {
   id: string;
   user_id: string;
-  connection_id: string;
+  provider: "google" | "microsoft";
+  connection_id: string | null;
+  microsoft_connection_id: string | null;
   meeting_code: string;
   conference_record_name: string;
   transcript_name: string;
@@ -78,7 +81,11 @@ export interface MeetTranscript {
   meeting_end_time: string | null;
   meeting_space_name: string | null;
   participants: Participant[];
+  entries: StoredTranscriptEntry[];
   metadata: Record<string, unknown>;
+  call_id: string | null;
+  session_id: string | null;
+  reconciled_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -139,22 +146,21 @@ export interface SyncLog {
 export interface Participant {
   name?: string;
   email?: string;
-  participantId?: string;
+  participantId?: string; // e.g., "conferenceRecords/abc123/participants/def456"
+  kind?: ParticipantKind;
+  googleUserId?: string;
+  userId?: string; // Org user matched to this participant
+  callerId?: string; // Caller record matched to this participant
+  entriesCount?: number; // Transcript entries spoken (entries source only)
 }
 
+export type ParticipantKind = "signed_in" | "anonymous" | "phone";
+
 // ============================================================================
 // OAUTH TYPES
 // ============================================================================
 
-/**
- * OAuth state payload (signed with HMAC)
- */
-export interface OAuthStatePayload {
-  userId: string;
-  nonce: string;
-  timestamp: number;
-  redirectUrl?: string;
-}
+export type { OAuthStatePayload } from "@/lib/oauth-state";
 
 /**
  * Google OAuth token response
@@ -228,6 +234,7 @@ export interface SaveTranscriptInput {
   meetingEndTime?: string;
   meetingSpaceName?: string;
   participants?: Participant[];
+  entries?: StoredTranscriptEntry[];
   metadata?: Record<string, unknown>;
 }
 
@@ -308,11 +315,38 @@ export interface TranscriptEntry {
   endTime: string;
 }
 
+/**
+ * Transcript entry as stored on meet_transcripts.entries
+ */
+export type StoredTranscriptEntry = Pick<TranscriptEntry, "participant" | "text" | "startTime" | "endTime">;
+
 export interface ListTranscriptEntriesResponse {
   transcriptEntries?: TranscriptEntry[];
   nextPageToken?: string;
 }
 
+export interface ConferenceParticipant {
+  name: string; // e.g., "conferenceRecords/abc123/participants/def456"
+  earliestStartTime?: string;
+  latestEndTime?: string;
+  signedinUser?: {
+    user: string; // e.g., "users/1234567890"
+    displayName: string;
+  };
+  anonymousUser?: {
+    displayName: string;
+  };
+  phoneUser?: {
+    displayName: string;
+  };
+}
+
+export interface ListParticipantsResponse {
+  participants?: ConferenceParticipant[];
+  nextPageToken?: string;
+  totalSize?: number;
+}
+
 // ===== Docs API Types =====
 
 export interface GoogleDocsDocument {
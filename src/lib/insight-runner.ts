@@ -0,0 +1,440 @@
+/**
+ * Insight Template Runner
+ *
+ * Executes an org's active insight templates against an analyzed call. Each
+ * template's prompt has its {variables} filled from the call, caller and
+ * analysis, is sent to the org's LLM with instructions for the template's
+ * output format, and the parsed result is stored in call_insights (one row
+ * per template per call, replaced on regeneration).
+ */
+
+import { createAdminClient } from "@/lib/supabase/server";
+import { resolveLLMProvider, type LLMMessage, type LLMProvider } from "@/lib/llm";
+import type {
+  AnalysisResults,
+  InsightItem,
+  InsightOutputFormat,
+  InsightTemplate,
+  OrgSettings,
+} from "@/types/database";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Call data available to insight prompts
+ */
+export interface InsightContext {
+  call: {
+    id: string;
+    customer_name?: string | null;
+    customer_company?: string | null;
+    call_timestamp: string;
+    duration?: number | null;
+    source?: string | null;
+  };
+  caller: {
+    name: string;
+    team?: string | null;
+    department?: string | null;
+  } | null;
+  analysis: AnalysisResults | null;
+}
+
+export interface ParsedInsightOutput {
+  content: string;
+  items: InsightItem[];
+}
+
+export interface RunInsightsOptions {
+  // Only run these templates (still limited to the org's active templates)
+  templateIds?: string[];
+  // Use this provider instead of the org's configured one (tests)
+  provider?: LLMProvider;
+  model?: string;
+}
+
+export interface RunInsightsResult {
+  generated: number;
+  failed: number;
+  errors: string[];
+}
+
+/**
+ * Model output that doesn't match the template's declared format
+ */
+export class InsightOutputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InsightOutputError";
+  }
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Transcripts beyond this are truncated in insight prompts
+const MAX_TRANSCRIPT_CHARS = 60000;
+
+const DEFAULT_MAX_INSIGHTS = 5;
+
+/**
+ * Variables a prompt_template can use, e.g. "{caller_name}"
+ */
+export const INSIGHT_TEMPLATE_VARIABLES: Record<string, string> = {
+  caller_name: "Name of the rep on the call",
+  caller_team: "Rep's team",
+  caller_department: "Rep's department",
+  customer_name: "Customer contact name",
+  customer_company: "Customer company",
+  call_date: "Date of the call (YYYY-MM-DD)",
+  call_duration: "Call length in minutes",
+  call_source: "Where the call came from",
+  overall_score: "Overall analysis score (0-100)",
+  composite_score: "Composite analysis score (0-100)",
+  executive_summary: "Analysis summary",
+  strengths: "Strengths found in the analysis",
+  improvements: "Improvement areas found in the analysis",
+  recommendations: "Analysis recommendations",
+  action_items: "Follow-up action items",
+  objections: "Customer objections and how they were handled",
+  competitors: "Competitors mentioned",
+  sentiment: "Overall customer sentiment",
+  talk_ratio: "Rep's share of talk time (%)",
+  max_insights: "The template's max_insights",
+};
+
+// ============================================================================
+// PROMPT RENDERING
+// ============================================================================
+
+function joinList(items: string[] | undefined): string {
+  return items && items.length > 0 ? items.join("; ") : "none";
+}
+
+/**
+ * Values for every INSIGHT_TEMPLATE_VARIABLES entry
+ */
+export function buildInsightVariables(
+  context: InsightContext,
+  maxInsights: number = DEFAULT_MAX_INSIGHTS
+): Record<string, string> {
+  const { call, caller, analysis } = context;
+  const talkRatio = analysis?.callMetrics?.talkRatio;
+
+  return {
+    caller_name: caller?.name || "the rep",
+    caller_team: caller?.team || "",
+    caller_department: caller?.department || "",
+    customer_name: call.customer_name || "the customer",
+    customer_company: call.customer_company || "",
+    call_date: call.call_timestamp ? call.call_timestamp.slice(0, 10) : "",
+    call_duration: call.duration ? String(Math.round(call.duration / 60)) : "",
+    call_source: call.source || "",
+    overall_score: analysis ? String(analysis.overallScore) : "",
+    composite_score: analysis ? String(analysis.compositeScore) : "",
+    executive_summary: analysis?.executiveSummary || "",
+    strengths: joinList(analysis?.strengths),
+    improvements: joinList(analysis?.improvements),
+    recommendations: joinList(analysis?.recommendations),
+    action_items: joinList(analysis?.actionItems),
+    objections: joinList(
+      analysis?.objections?.map((o) => (o.response ? `${o.objection} (response: ${o.response})` : o.objection))
+    ),
+    competitors: joinList(analysis?.competitorMentions),
+    sentiment: analysis?.sentiment?.overall || "",
+    talk_ratio: typeof talkRatio === "number" ? String(Math.round(talkRatio * 100)) : "",
+    max_insights: String(maxInsights),
+  };
+}
+
+/**
+ * Fill {variable} placeholders. Unknown placeholders are left as written so
+ * literal braces in a prompt survive.
+ */
+export function renderInsightPrompt(
+  promptTemplate: string,
+  variables: Record<string, string>
+): string {
+  return promptTemplate.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in variables ? variables[name] : match
+  );
+}
+
+/**
+ * Output instructions for a template's declared format
+ */
+function formatInstructions(format: InsightOutputFormat, maxInsights: number): string {
+  switch (format) {
+    case "bullets":
+      return `Respond with at most ${maxInsights} bullet points, one per line, each starting with "- ". No introduction or closing text.`;
+    case "numbered":
+      return `Respond with a numbered list of at most ${maxInsights} items, one per line ("1. ", "2. ", ...). No introduction or closing text.`;
+    case "json":
+      return `Respond with a JSON object of the form {"insights": [{"title": string, "detail": string, "importance": "high" | "medium" | "low"}]} containing at most ${maxInsights} insights.`;
+    default:
+      return maxInsights > 1
+        ? `Respond in plain prose (at most ${maxInsights} short paragraphs), without lists or headings.`
+        : "Respond with one short paragraph of plain prose, without lists or headings.";
+  }
+}
+
+/**
+ * Messages for one insight template run
+ */
+export function buildInsightMessages(
+  template: Pick<InsightTemplate, "prompt_template" | "output_format" | "max_insights">,
+  context: InsightContext,
+  transcript: string
+): { prompt: string; messages: LLMMessage[] } {
+  const maxInsights = template.max_insights || DEFAULT_MAX_INSIGHTS;
+  const prompt = renderInsightPrompt(
+    template.prompt_template,
+    buildInsightVariables(context, maxInsights)
+  );
+
+  const analysis = context.analysis;
+  const analysisSection = analysis
+    ? `## Call Analysis:
+Overall score: ${analysis.overallScore}/100
+Summary: ${analysis.executiveSummary || "n/a"}
+Strengths: ${joinList(analysis.strengths)}
+Improvements: ${joinList(analysis.improvements)}
+
+`
+    : "";
+
+  const clipped =
+    transcript.length > MAX_TRANSCRIPT_CHARS
+      ? `${transcript.slice(0, MAX_TRANSCRIPT_CHARS)}\n[transcript truncated]`
+      : transcript;
+
+  return {
+    prompt,
+    messages: [
+      {
+        role: "system",
+        content: `You are a sales coaching assistant generating insights about a single sales call. Base every insight on the call below; do not invent details.\n\n${formatInstructions(template.output_format, maxInsights)}`,
+      },
+      {
+        role: "user",
+        content: `${prompt}\n\n${analysisSection}## Call Notes/Transcription:\n${clipped}`,
+      },
+    ],
+  };
+}
+
+// ============================================================================
+// OUTPUT PARSING
+// ============================================================================
+
+const LIST_ITEM = /^\s*(?:[-*•]|\d+[.)])\s+(.+)$/;
+
+/**
+ * Pull the JSON payload out of a response that may be wrapped in a code fence
+ */
+function extractJson(text: string): string {
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/.exec(text);
+  const body = (fenced ? fenced[1] : text).trim();
+  const start = body.search(/[[{]/);
+  return start >= 0 ? body.slice(start) : body;
+}
+
+/**
+ * Parse model output according to the template's output format.
+ *
+ * @throws InsightOutputError for empty output or unparseable JSON
+ */
+export function parseInsightOutput(
+  raw: string,
+  format: InsightOutputFormat,
+  maxInsights: number = DEFAULT_MAX_INSIGHTS
+): ParsedInsightOutput {
+  const content = raw.trim();
+  if (!content) {
+    throw new InsightOutputError("Model returned an empty response");
+  }
+
+  switch (format) {
+    case "bullets":
+    case "numbered": {
+      const lines = content.split("\n").map((l) => l.trim()).filter(Boolean);
+      const listed = lines
+        .map((line) => LIST_ITEM.exec(line)?.[1]?.trim())
+        .filter((item): item is string => !!item);
+      // A model that ignored the list format still gets one item per line
+      const items = (listed.length > 0 ? listed : lines).slice(0, maxInsights);
+      return { content, items };
+    }
+
+    case "json": {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(extractJson(content));
+      } catch {
+        throw new InsightOutputError("Model response is not valid JSON");
+      }
+
+      const list = Array.isArray(parsed)
+        ? parsed
+        : parsed && typeof parsed === "object" && Array.isArray((parsed as { insights?: unknown }).insights)
+          ? (parsed as { insights: unknown[] }).insights
+          : null;
+
+      if (!list) {
+        throw new InsightOutputError('JSON response has no "insights" array');
+      }
+
+      const items = list
+        .filter((item): item is string | Record<string, unknown> =>
+          typeof item === "string" || (!!item && typeof item === "object" && !Array.isArray(item))
+        )
+        .slice(0, maxInsights);
+      return { content: JSON.stringify(items), items };
+    }
+
+    default:
+      return { content, items: [] };
+  }
+}
+
+// ============================================================================
+// RUNNER
+// ============================================================================
+
+/**
+ * Run an org's active insight templates against a call and store the
+ * results. A failing template is stored with status 'failed' and doesn't stop
+ * the others.
+ *
+ * @param callId - Analyzed call to generate insights for
+ * @param options - Template subset and provider override
+ */
+export async function runInsightTemplates(
+  callId: string,
+  options: RunInsightsOptions = {}
+): Promise<RunInsightsResult> {
+  const supabase = createAdminClient();
+  const result: RunInsightsResult = { generated: 0, failed: 0, errors: [] };
+
+  const { data: call, error: callError } = await supabase
+    .from("calls")
+    .select("id, org_id, caller_id, customer_name, customer_company, call_timestamp, duration, source, raw_notes, transcription")
+    .eq("id", callId)
+    .single();
+
+  if (callError || !call) {
+    throw new Error(`Call not found: ${callId}`);
+  }
+
+  let templateQuery = supabase
+    .from("insight_templates")
+    .select("*")
+    .eq("org_id", call.org_id)
+    .eq("is_active", true)
+    .order("display_order", { ascending: true });
+
+  if (options.templateIds && options.templateIds.length > 0) {
+    templateQuery = templateQuery.in("id", options.templateIds);
+  }
+
+  const { data: templates } = await templateQuery;
+  if (!templates || templates.length === 0) {
+    return result;
+  }
+
+  const { data: caller } = await supabase
+    .from("callers")
+    .select("name, team, department")
+    .eq("id", call.caller_id)
+    .maybeSingle();
+
+  // Failed runs only hold the raw model output; use the last good analysis
+  const { data: analysis } = await supabase
+    .from("analyses")
+    .select("id, grading_results_json")
+    .eq("call_id", callId)
+    .eq("status", "completed")
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const { data: org } = await supabase
+    .from("organizations")
+    .select("settings_json")
+    .eq("id", call.org_id)
+    .single();
+
+  const settings = org?.settings_json as OrgSettings | null;
+  const resolved = options.provider
+    ? { provider: options.provider, model: options.model || settings?.ai?.model || "gpt-4o" }
+    : resolveLLMProvider(settings?.ai);
+  const temperature = settings?.ai?.temperature || 0.3;
+
+  const context: InsightContext = {
+    call,
+    caller: caller || null,
+    analysis: (analysis?.grading_results_json as AnalysisResults | undefined) || null,
+  };
+  const transcript: string = call.transcription || call.raw_notes || "";
+
+  for (const template of templates as InsightTemplate[]) {
+    const maxInsights = template.max_insights || DEFAULT_MAX_INSIGHTS;
+    const { prompt, messages } = buildInsightMessages(template, context, transcript);
+
+    const row = {
+      org_id: call.org_id,
+      call_id: callId,
+      analysis_id: analysis?.id || null,
+      insight_template_id: template.id,
+      template_name: template.name,
+      category: template.category,
+      output_format: template.output_format,
+      prompt,
+      generated_at: new Date().toISOString(),
+    };
+
+    try {
+      const response = await resolved.provider.complete({
+        model: resolved.model,
+        messages,
+        temperature,
+        jsonMode: template.output_format === "json",
+      });
+
+      const parsed = parseInsightOutput(response.content, template.output_format, maxInsights);
+
+      await supabase.from("call_insights").upsert(
+        {
+          ...row,
+          content: parsed.content,
+          items: parsed.items,
+          status: "completed",
+          error: null,
+          ai_model: response.model,
+          token_usage: response.usage,
+        },
+        { onConflict: "call_id,insight_template_id" }
+      );
+      result.generated++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      await supabase.from("call_insights").upsert(
+        {
+          ...row,
+          content: null,
+          items: [],
+          status: "failed",
+          error: message,
+        },
+        { onConflict: "call_id,insight_template_id" }
+      );
+      result.failed++;
+      result.errors.push(`${template.name}: ${message}`);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,144 @@
+/**
+ * Anthropic Messages API Provider
+ *
+ * Uses fetch directly so no extra SDK is needed.
+ *
+ * API Reference: https://docs.anthropic.com/en/api/messages
+ */
+
+import {
+  LLMProviderError,
+  isRetryableStatus,
+  type LLMCompletionRequest,
+  type LLMCompletionResponse,
+  type LLMProvider,
+} from "./types";
+
+const ANTHROPIC_API_BASE = "https://api.anthropic.com/v1";
+const ANTHROPIC_VERSION = "2023-06-01";
+
+// The Messages API requires max_tokens on every request
+const DEFAULT_MAX_TOKENS = 4096;
+
+const JSON_MODE_INSTRUCTION =
+  "Respond with a single valid JSON object only. Do not wrap it in markdown or add any text before or after it.";
+
+interface AnthropicMessagesResponse {
+  model: string;
+  content: Array<{ type: string; text?: string }>;
+  stop_reason: string | null;
+  usage: { input_tokens: number; output_tokens: number };
+}
+
+/**
+ * There is no native JSON mode, so strip any markdown fence or stray prose
+ * the model put around the object.
+ */
+function extractJsonObject(text: string): string {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end <= start) return text.trim();
+  return text.slice(start, end + 1);
+}
+
+export interface AnthropicProviderOptions {
+  apiKey?: string;
+  /** Override for proxies and tests */
+  baseURL?: string;
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = "anthropic" as const;
+  private apiKey: string;
+  private baseURL: string;
+
+  constructor(options: AnthropicProviderOptions = {}) {
+    this.apiKey = options.apiKey || process.env.ANTHROPIC_API_KEY || "";
+    this.baseURL = (options.baseURL || ANTHROPIC_API_BASE).replace(/\/+$/, "");
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse> {
+    if (!this.apiKey) {
+      throw new LLMProviderError("ANTHROPIC_API_KEY is not configured", this.name, 401);
+    }
+
+    // System prompts are a top-level field rather than a message role
+    const systemParts = request.messages
+      .filter((m) => m.role === "system")
+      .map((m) => m.content);
+    if (request.jsonMode) {
+      systemParts.push(JSON_MODE_INSTRUCTION);
+    }
+
+    const messages = request.messages
+      .filter((m) => m.role !== "system")
+      .map((m) => ({ role: m.role, content: m.content }));
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseURL}/messages`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": this.apiKey,
+          "anthropic-version": ANTHROPIC_VERSION,
+        },
+        body: JSON.stringify({
+          model: request.model,
+          system: systemParts.length ? systemParts.join("\n\n") : undefined,
+          messages,
+          temperature: request.temperature,
+          max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+        }),
+      });
+    } catch (error) {
+      throw new LLMProviderError(
+        error instanceof Error ? error.message : "Completion request failed",
+        this.name,
+        undefined,
+        true
+      );
+    }
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      let errorMessage: string;
+      try {
+        const errorJson = JSON.parse(errorBody);
+        errorMessage = errorJson.error?.message || errorBody;
+      } catch {
+        errorMessage = errorBody || response.statusText;
+      }
+      throw new LLMProviderError(
+        errorMessage,
+        this.name,
+        response.status,
+        isRetryableStatus(response.status)
+      );
+    }
+
+    const data = (await response.json()) as AnthropicMessagesResponse;
+    const text = data.content
+      .filter((block) => block.type === "text")
+      .map((block) => block.text || "")
+      .join("");
+
+    if (!text) {
+      throw new LLMProviderError("No response from AI", this.name);
+    }
+
+    const promptTokens = data.usage?.input_tokens || 0;
+    const completionTokens = data.usage?.output_tokens || 0;
+
+    return {
+      content: request.jsonMode ? extractJsonObject(text) : text,
+      model: data.model || request.model,
+      usage: {
+        prompt: promptTokens,
+        completion: completionTokens,
+        total: promptTokens + completionTokens,
+      },
+      finishReason: data.stop_reason || undefined,
+    };
+  }
+}
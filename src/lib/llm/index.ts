@@ -0,0 +1,103 @@
+/**
+ * LLM Provider Layer
+ *
+ * Resolves the provider configured for an organization (settings_json.ai)
+ * into a ready-to-use client.
+ *
+ * Usage:
+ *   import { resolveLLMProvider } from '@/lib/llm';
+ *   const { provider, model } = resolveLLMProvider(settings?.ai);
+ *   const response = await provider.complete({ model, messages, jsonMode: true });
+ *
+ * Environment:
+ *   OPENAI_API_KEY        - openai provider
+ *   ANTHROPIC_API_KEY     - anthropic provider
+ *   LOCAL_LLM_BASE_URL    - OpenAI-compatible endpoint for the local provider
+ *   LOCAL_LLM_API_KEY     - optional key for the local endpoint
+ *   LOCAL_LLM_MODEL       - default model for the local provider
+ *   LLM_ENABLE_FIXTURE_PROVIDER - allow the fixture provider in production
+ */
+
+import type { OrgSettings } from "@/types/database";
+import { AnthropicProvider } from "./anthropic";
+import { FixtureProvider, FIXTURE_MODEL } from "./fixture";
+import { OpenAIProvider } from "./openai";
+import { LLMProviderError, type AIProvider, type LLMProvider } from "./types";
+
+export * from "./types";
+export { OpenAIProvider } from "./openai";
+export { AnthropicProvider } from "./anthropic";
+export { FixtureProvider, FIXTURE_MODEL } from "./fixture";
+export type { LLMFixture } from "./fixture";
+
+export const AI_PROVIDERS: AIProvider[] = ["openai", "anthropic", "local", "fixture"];
+
+export const DEFAULT_MODELS: Record<AIProvider, string> = {
+  openai: "gpt-4o",
+  anthropic: "claude-sonnet-4-5",
+  local: process.env.LOCAL_LLM_MODEL || "llama3.1",
+  fixture: FIXTURE_MODEL,
+};
+
+/**
+ * The fixture provider returns canned scores, so customers must not be able
+ * to switch a production org onto it unless explicitly enabled.
+ */
+export function isFixtureProviderEnabled(): boolean {
+  return (
+    process.env.NODE_ENV !== "production" ||
+    process.env.LLM_ENABLE_FIXTURE_PROVIDER === "true"
+  );
+}
+
+/**
+ * Create a provider client by name
+ */
+export function createLLMProvider(name: AIProvider): LLMProvider {
+  switch (name) {
+    case "openai":
+      return new OpenAIProvider({ apiKey: process.env.OPENAI_API_KEY });
+
+    case "anthropic":
+      return new AnthropicProvider({ apiKey: process.env.ANTHROPIC_API_KEY });
+
+    case "local": {
+      const baseURL = process.env.LOCAL_LLM_BASE_URL;
+      if (!baseURL) {
+        throw new LLMProviderError("LOCAL_LLM_BASE_URL is not configured", "local");
+      }
+      return new OpenAIProvider({
+        name: "local",
+        baseURL,
+        // Most self-hosted servers ignore the key but the SDK requires one
+        apiKey: process.env.LOCAL_LLM_API_KEY || "not-needed",
+      });
+    }
+
+    case "fixture":
+      if (!isFixtureProviderEnabled()) {
+        throw new LLMProviderError("Fixture provider is disabled in production", "fixture");
+      }
+      return new FixtureProvider();
+
+    default:
+      throw new LLMProviderError(`Unknown AI provider: ${name}`, name);
+  }
+}
+
+/**
+ * Resolve an organization's AI settings to a provider and model.
+ * Orgs saved before providers existed have no `provider` and use OpenAI.
+ *
+ * @param aiSettings - settings_json.ai for the organization
+ */
+export function resolveLLMProvider(aiSettings?: Partial<OrgSettings["ai"]> | null): {
+  provider: LLMProvider;
+  model: string;
+} {
+  const name = aiSettings?.provider || "openai";
+  const provider = createLLMProvider(name);
+  const model = name === "fixture" ? FIXTURE_MODEL : aiSettings?.model || DEFAULT_MODELS[name];
+
+  return { provider, model };
+}
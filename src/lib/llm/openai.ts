@@ -0,0 +1,96 @@
+/**
+ * OpenAI Chat Completions Provider
+ *
+ * Also serves OpenAI-compatible self-hosted endpoints (vLLM, Ollama,
+ * LM Studio, llama.cpp server) by pointing the SDK at a different base URL.
+ */
+
+import OpenAI from "openai";
+import {
+  LLMProviderError,
+  isRetryableStatus,
+  type AIProvider,
+  type LLMCompletionRequest,
+  type LLMCompletionResponse,
+  type LLMProvider,
+} from "./types";
+
+export interface OpenAIProviderOptions {
+  apiKey?: string;
+  /** Override for OpenAI-compatible servers, e.g. http://localhost:11434/v1 */
+  baseURL?: string;
+  /** Reported provider name ("local" for self-hosted endpoints) */
+  name?: Extract<AIProvider, "openai" | "local">;
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name: Extract<AIProvider, "openai" | "local">;
+  private options: OpenAIProviderOptions;
+  private client: OpenAI | null = null;
+
+  constructor(options: OpenAIProviderOptions = {}) {
+    this.name = options.name || "openai";
+    this.options = options;
+  }
+
+  // Lazy initialization so a missing key surfaces as an LLMProviderError
+  private getClient(): OpenAI {
+    if (!this.options.apiKey) {
+      throw new LLMProviderError("OPENAI_API_KEY is not configured", this.name, 401);
+    }
+    if (!this.client) {
+      this.client = new OpenAI({
+        apiKey: this.options.apiKey,
+        baseURL: this.options.baseURL,
+      });
+    }
+    return this.client;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse> {
+    try {
+      const response = await this.getClient().chat.completions.create({
+        model: request.model,
+        messages: request.messages,
+        response_format: request.jsonMode ? { type: "json_object" } : undefined,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+      });
+
+      const choice = response.choices[0];
+      const content = choice?.message?.content;
+      if (!content) {
+        throw new LLMProviderError("No response from AI", this.name);
+      }
+
+      return {
+        content,
+        model: response.model || request.model,
+        usage: {
+          prompt: response.usage?.prompt_tokens || 0,
+          completion: response.usage?.completion_tokens || 0,
+          total: response.usage?.total_tokens || 0,
+        },
+        finishReason: choice.finish_reason || undefined,
+      };
+    } catch (error) {
+      if (error instanceof LLMProviderError) throw error;
+
+      if (error instanceof OpenAI.APIError) {
+        throw new LLMProviderError(
+          error.message,
+          this.name,
+          error.status,
+          isRetryableStatus(error.status)
+        );
+      }
+
+      throw new LLMProviderError(
+        error instanceof Error ? error.message : "Completion request failed",
+        this.name,
+        undefined,
+        true
+      );
+    }
+  }
+}
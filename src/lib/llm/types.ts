@@ -0,0 +1,68 @@
+/**
+ * LLM Provider Types
+ * Provider-neutral request/response shapes used by the analysis pipeline.
+ */
+
+import type { AIProvider } from "@/types/database";
+
+export type { AIProvider };
+
+export interface LLMMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  model: string;
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  /** Ask the model to return a single JSON object */
+  jsonMode?: boolean;
+}
+
+/**
+ * Token usage in the shape stored on analyses.token_usage
+ */
+export interface LLMTokenUsage {
+  prompt: number;
+  completion: number;
+  total: number;
+}
+
+export interface LLMCompletionResponse {
+  content: string;
+  /** Model name reported by the provider (may differ from the requested alias) */
+  model: string;
+  usage: LLMTokenUsage;
+  finishReason?: string;
+}
+
+export interface LLMProvider {
+  readonly name: AIProvider;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse>;
+}
+
+/**
+ * Error raised by any provider. `retryable` is true for rate limits,
+ * overload and transient server/network failures.
+ */
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: AIProvider,
+    public readonly statusCode?: number,
+    public readonly retryable: boolean = false
+  ) {
+    super(message);
+    this.name = "LLMProviderError";
+  }
+}
+
+/**
+ * Whether an HTTP status from a provider is worth retrying
+ */
+export function isRetryableStatus(status: number | undefined): boolean {
+  if (status === undefined) return true; // Network failure
+  return status === 408 || status === 409 || status === 429 || status >= 500;
+}
@@ -0,0 +1,93 @@
+/**
+ * MFA Session Marker
+ *
+ * After a user passes the TOTP challenge, a signed cookie records that this
+ * browser completed the second factor for that user. Middleware checks it on
+ * dashboard and API routes. Uses Web Crypto so it runs in middleware as well
+ * as route handlers.
+ *
+ * Token format: `<userId>.<expiresAtSeconds>.<base64url HMAC-SHA256>`
+ */
+
+export const MFA_COOKIE_NAME = "kalyxi_mfa";
+
+// Users re-enter a code after this long
+export const MFA_SESSION_TTL_SECONDS = 12 * 60 * 60;
+
+function getSigningSecret(): string {
+  const secret = process.env.MFA_SESSION_SECRET || process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!secret) {
+    throw new Error("MFA_SESSION_SECRET is not configured");
+  }
+  return secret;
+}
+
+function toBase64Url(bytes: ArrayBuffer): string {
+  let binary = "";
+  for (const byte of new Uint8Array(bytes)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+async function sign(payload: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(getSigningSecret()),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  return toBase64Url(await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(payload)));
+}
+
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Signed marker for a user who just passed the second factor
+ */
+export async function createMfaToken(userId: string, now: number = Date.now()): Promise<string> {
+  const expiresAt = Math.floor(now / 1000) + MFA_SESSION_TTL_SECONDS;
+  const payload = `${userId}.${expiresAt}`;
+  return `${payload}.${await sign(payload)}`;
+}
+
+/**
+ * Whether a marker is valid, unexpired and issued to this user
+ */
+export async function verifyMfaToken(
+  token: string | undefined,
+  userId: string,
+  now: number = Date.now()
+): Promise<boolean> {
+  if (!token) return false;
+
+  const parts = token.split(".");
+  if (parts.length !== 3) return false;
+
+  const [tokenUserId, expiresAt, signature] = parts;
+  if (tokenUserId !== userId) return false;
+  if (!/^\d+$/.test(expiresAt) || Number(expiresAt) * 1000 <= now) return false;
+
+  return constantTimeEqual(signature, await sign(`${tokenUserId}.${expiresAt}`));
+}
+
+/**
+ * Cookie options for the marker
+ */
+export function mfaCookieOptions(maxAge: number = MFA_SESSION_TTL_SECONDS) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax" as const,
+    path: "/",
+    maxAge,
+  };
+}
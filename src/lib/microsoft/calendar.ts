@@ -0,0 +1,171 @@
+/**
+ * Outlook Calendar Mapping
+ *
+ * Maps Graph calendars and events onto the provider-neutral connector
+ * shapes, and runs calendar view delta queries as connector syncs. The
+ * delta link is the sync cursor.
+ */
+
+import {
+  SyncCursorExpiredError,
+  type CalendarEventChanges,
+  type ConnectorCalendar,
+  type ConnectorCalendarEvent,
+} from "@/lib/connectors/types";
+import { GraphAPIError, getEvent, listCalendarView, listCalendarViewDelta } from "./graph-client";
+import type { GraphCalendar, GraphDateTimeZone, GraphEvent } from "./types";
+
+// Graph calendar view delta needs an end date; events further out are
+// picked up by the next full sync
+const FULL_SYNC_HORIZON_DAYS = 365;
+
+/**
+ * Key a Teams meeting by its join URL, in the form sessions store as their
+ * meeting code: "teams:<thread id>" for classic meetup-join links, or
+ * "teams:meet:<id>" for short /meet/ links.
+ *
+ * @param joinUrl - Join URL from an event or online meeting
+ * @returns Meeting key, or null for URLs that aren't Teams meetings
+ */
+export function teamsMeetingKey(joinUrl: string | null | undefined): string | null {
+  if (!joinUrl) return null;
+
+  let url: URL;
+  try {
+    url = new URL(joinUrl);
+  } catch {
+    return null;
+  }
+
+  if (!/(^|\.)teams\.(microsoft|live)\.com$/i.test(url.hostname)) return null;
+
+  const meetupJoin = url.pathname.match(/\/l\/meetup-join\/([^/]+)/i);
+  if (meetupJoin) {
+    return `teams:${decodeURIComponent(meetupJoin[1]).toLowerCase()}`;
+  }
+
+  const meet = url.pathname.match(/\/meet\/([^/]+)/i);
+  if (meet) {
+    return `teams:meet:${decodeURIComponent(meet[1]).toLowerCase()}`;
+  }
+
+  return null;
+}
+
+/**
+ * Graph returns UTC times without an offset when asked for UTC
+ */
+function toIsoTime(value: GraphDateTimeZone | undefined, allDay: boolean): string {
+  if (!value?.dateTime) return "";
+  if (allDay) return value.dateTime.slice(0, 10);
+  return /[zZ]|[+-]\d{2}:\d{2}$/.test(value.dateTime) ? value.dateTime : `${value.dateTime}Z`;
+}
+
+export function toConnectorCalendar(calendar: GraphCalendar): ConnectorCalendar {
+  return {
+    id: calendar.id,
+    name: calendar.name,
+    description: null,
+    timeZone: null,
+    backgroundColor: calendar.hexColor || null,
+    foregroundColor: null,
+    accessRole: calendar.canEdit ? (calendar.isDefaultCalendar ? "owner" : "writer") : "reader",
+    primary: calendar.isDefaultCalendar || false,
+  };
+}
+
+/**
+ * Map a Graph event onto the neutral shape. Graph doesn't list the
+ * organizer among the attendees, so they're flagged by address.
+ */
+export function toConnectorEvent(event: GraphEvent): ConnectorCalendarEvent {
+  const allDay = !!event.isAllDay;
+  const organizerEmail = event.organizer?.emailAddress?.address || null;
+  const joinUrl = event.onlineMeeting?.joinUrl || null;
+
+  return {
+    id: event.id,
+    status:
+      event["@removed"] || event.isCancelled
+        ? "cancelled"
+        : event.showAs === "tentative"
+          ? "tentative"
+          : "confirmed",
+    title: event.subject || null,
+    description: event.bodyPreview || null,
+    start: toIsoTime(event.start, allDay),
+    end: toIsoTime(event.end, allDay),
+    allDay,
+    organizerEmail,
+    attendees: (event.attendees || [])
+      .filter((attendee) => attendee.type !== "resource" && !!attendee.emailAddress?.address)
+      .map((attendee) => ({
+        email: attendee.emailAddress.address!,
+        organizer:
+          !!organizerEmail &&
+          attendee.emailAddress.address!.toLowerCase() === organizerEmail.toLowerCase(),
+      })),
+    meetingCode: teamsMeetingKey(joinUrl),
+    hasVideoConference: !!(event.isOnlineMeeting || joinUrl),
+    properties: {},
+  };
+}
+
+/**
+ * Every event changed since a delta link, or every event from `windowStart`
+ * to the sync horizon for a full sync
+ */
+export async function listOutlookEventChanges(
+  accessToken: string,
+  calendarId: string,
+  from: { cursor: string } | { windowStart: Date }
+): Promise<CalendarEventChanges> {
+  const range =
+    "cursor" in from
+      ? { deltaLink: from.cursor }
+      : {
+          startDateTime: from.windowStart.toISOString(),
+          endDateTime: new Date(
+            Date.now() + FULL_SYNC_HORIZON_DAYS * 24 * 60 * 60 * 1000
+          ).toISOString(),
+        };
+
+  try {
+    const { events, deltaLink } = await listCalendarViewDelta(accessToken, calendarId, range);
+    return { events: events.map(toConnectorEvent), cursor: deltaLink };
+  } catch (error) {
+    if (error instanceof GraphAPIError && error.statusCode === 410) {
+      throw new SyncCursorExpiredError(error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Every event occurrence overlapping a window
+ */
+export async function listOutlookEventsInWindow(
+  accessToken: string,
+  calendarId: string,
+  windowStart: Date,
+  windowEnd: Date
+): Promise<ConnectorCalendarEvent[]> {
+  const events = await listCalendarView(
+    accessToken,
+    windowStart.toISOString(),
+    windowEnd.toISOString(),
+    calendarId
+  );
+  return events.map(toConnectorEvent);
+}
+
+/**
+ * Get a single event in the neutral shape. Graph event IDs are unique per
+ * mailbox, so the calendar isn't needed.
+ */
+export async function getOutlookEvent(
+  accessToken: string,
+  eventId: string
+): Promise<ConnectorCalendarEvent> {
+  return toConnectorEvent(await getEvent(accessToken, eventId));
+}
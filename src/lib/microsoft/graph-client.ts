@@ -0,0 +1,251 @@
+/**
+ * Microsoft Graph API Client
+ *
+ * Calendar and Teams online meeting calls against Microsoft Graph, all on
+ * behalf of the signed-in user (/me). Event times are requested in UTC.
+ *
+ * Environment Variables (optional):
+ * - MICROSOFT_GRAPH_API_BASE: Graph root, defaults to
+ *   https://graph.microsoft.com/v1.0 (the tests point it at a mock server)
+ *
+ * Holds no credentials of its own, so it isn't marked server-only and can
+ * run under the test runner.
+ */
+
+import type {
+  GraphCalendar,
+  GraphCallTranscript,
+  GraphCollection,
+  GraphEvent,
+  GraphOnlineMeeting,
+  GraphUser,
+} from "./types";
+
+const DEFAULT_GRAPH_API_BASE = "https://graph.microsoft.com/v1.0";
+
+// Graph returns event times in the mailbox's zone unless asked for UTC
+const PREFER_UTC = 'outlook.timezone="UTC"';
+
+/**
+ * A failed Graph request. 410 from a delta query means the delta link
+ * expired and a full sync is needed.
+ */
+export class GraphAPIError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number
+  ) {
+    super(message);
+    this.name = "GraphAPIError";
+  }
+}
+
+export function getGraphApiBase(): string {
+  return (process.env.MICROSOFT_GRAPH_API_BASE || DEFAULT_GRAPH_API_BASE).replace(/\/$/, "");
+}
+
+/**
+ * Make a Graph request. `pathOrUrl` is a path under the API root, or a full
+ * nextLink/deltaLink returned by a previous request.
+ */
+async function graphRequest(
+  accessToken: string,
+  pathOrUrl: string,
+  action: string,
+  headers: Record<string, string> = {}
+): Promise<Response> {
+  const url = pathOrUrl.startsWith("http") ? pathOrUrl : `${getGraphApiBase()}${pathOrUrl}`;
+
+  const response = await fetch(url, {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      ...headers,
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new GraphAPIError(`Failed to ${action}: ${response.status} - ${error}`, response.status);
+  }
+
+  return response;
+}
+
+async function graphJson<T>(
+  accessToken: string,
+  pathOrUrl: string,
+  action: string,
+  headers?: Record<string, string>
+): Promise<T> {
+  const response = await graphRequest(accessToken, pathOrUrl, action, headers);
+  return (await response.json()) as T;
+}
+
+/**
+ * Follow nextLinks to the end of a collection. Delta queries end with a
+ * deltaLink instead.
+ */
+async function listAllPages<T>(
+  accessToken: string,
+  pathOrUrl: string,
+  action: string,
+  headers?: Record<string, string>
+): Promise<{ items: T[]; deltaLink: string | null }> {
+  const items: T[] = [];
+  let next: string | undefined = pathOrUrl;
+  let deltaLink: string | null = null;
+
+  while (next) {
+    const page: GraphCollection<T> = await graphJson<GraphCollection<T>>(accessToken, next, action, headers);
+    items.push(...(page.value || []));
+    next = page["@odata.nextLink"];
+    deltaLink = page["@odata.deltaLink"] || deltaLink;
+  }
+
+  return { items, deltaLink };
+}
+
+// ============================================================================
+// USER
+// ============================================================================
+
+/**
+ * Get the signed-in user's profile
+ */
+export async function getMe(accessToken: string): Promise<GraphUser> {
+  return graphJson<GraphUser>(
+    accessToken,
+    "/me?$select=id,displayName,mail,userPrincipalName",
+    "fetch user profile"
+  );
+}
+
+// ============================================================================
+// CALENDARS
+// ============================================================================
+
+/**
+ * List all calendars the user has access to
+ */
+export async function listCalendars(accessToken: string): Promise<GraphCalendar[]> {
+  const { items } = await listAllPages<GraphCalendar>(accessToken, "/me/calendars", "list calendars");
+  return items;
+}
+
+/**
+ * Get a specific calendar by ID
+ */
+export async function getCalendar(accessToken: string, calendarId: string): Promise<GraphCalendar> {
+  return graphJson<GraphCalendar>(
+    accessToken,
+    `/me/calendars/${encodeURIComponent(calendarId)}`,
+    "get calendar"
+  );
+}
+
+/**
+ * Run a calendar view delta query, either from a saved delta link or over a
+ * new window, following every page. Occurrences of recurring events come
+ * back individually, and removed events only carry their ID and "@removed".
+ */
+export async function listCalendarViewDelta(
+  accessToken: string,
+  calendarId: string,
+  from: { deltaLink: string } | { startDateTime: string; endDateTime: string }
+): Promise<{ events: GraphEvent[]; deltaLink: string | null }> {
+  const url =
+    "deltaLink" in from
+      ? from.deltaLink
+      : `/me/calendars/${encodeURIComponent(calendarId)}/calendarView/delta?` +
+        new URLSearchParams({ startDateTime: from.startDateTime, endDateTime: from.endDateTime });
+
+  const { items, deltaLink } = await listAllPages<GraphEvent>(accessToken, url, "list event changes", {
+    Prefer: `${PREFER_UTC}, odata.maxpagesize=100`,
+  });
+
+  return { events: items, deltaLink };
+}
+
+/**
+ * Get a specific event by ID
+ */
+export async function getEvent(accessToken: string, eventId: string): Promise<GraphEvent> {
+  return graphJson<GraphEvent>(accessToken, `/me/events/${encodeURIComponent(eventId)}`, "get event", {
+    Prefer: PREFER_UTC,
+  });
+}
+
+/**
+ * List event occurrences within a window, in the given calendar or the
+ * user's default one
+ */
+export async function listCalendarView(
+  accessToken: string,
+  startDateTime: string,
+  endDateTime: string,
+  calendarId?: string
+): Promise<GraphEvent[]> {
+  const params = new URLSearchParams({ startDateTime, endDateTime, $top: "100" });
+  const calendar = calendarId ? `/me/calendars/${encodeURIComponent(calendarId)}` : "/me";
+  const { items } = await listAllPages<GraphEvent>(
+    accessToken,
+    `${calendar}/calendarView?${params.toString()}`,
+    "list calendar view",
+    { Prefer: PREFER_UTC }
+  );
+  return items;
+}
+
+// ============================================================================
+// ONLINE MEETINGS
+// ============================================================================
+
+/**
+ * Find the Teams meeting behind a join URL. Only meetings the user
+ * organized can be looked up.
+ */
+export async function findOnlineMeetingByJoinUrl(
+  accessToken: string,
+  joinUrl: string
+): Promise<GraphOnlineMeeting | null> {
+  const filter = `JoinWebUrl eq '${joinUrl.replace(/'/g, "''")}'`;
+  const page = await graphJson<GraphCollection<GraphOnlineMeeting>>(
+    accessToken,
+    `/me/onlineMeetings?${new URLSearchParams({ $filter: filter })}`,
+    "find online meeting"
+  );
+  return page.value?.[0] || null;
+}
+
+/**
+ * List the transcripts recorded for a meeting. Recurring meetings share one
+ * online meeting, so this spans every occurrence.
+ */
+export async function listMeetingTranscripts(
+  accessToken: string,
+  meetingId: string
+): Promise<GraphCallTranscript[]> {
+  const { items } = await listAllPages<GraphCallTranscript>(
+    accessToken,
+    `/me/onlineMeetings/${encodeURIComponent(meetingId)}/transcripts`,
+    "list meeting transcripts"
+  );
+  return items;
+}
+
+/**
+ * Download a transcript as WebVTT
+ */
+export async function getTranscriptContent(
+  accessToken: string,
+  meetingId: string,
+  transcriptId: string
+): Promise<string> {
+  const response = await graphRequest(
+    accessToken,
+    `/me/onlineMeetings/${encodeURIComponent(meetingId)}/transcripts/${encodeURIComponent(transcriptId)}/content?$format=text/vtt`,
+    "download transcript",
+    { Accept: "text/vtt" }
+  );
+  return response.text();
+}
@@ -0,0 +1,201 @@
+/**
+ * Microsoft OAuth Utilities
+ *
+ * Handles OAuth URL generation, state signing/verification, and token
+ * exchange against the Microsoft identity platform (v2.0 endpoints).
+ *
+ * Environment Variables Required:
+ * - MICROSOFT_OAUTH_CLIENT_ID
+ * - MICROSOFT_OAUTH_CLIENT_SECRET
+ * - MICROSOFT_OAUTH_REDIRECT_URL
+ * - OAUTH_STATE_HMAC_SECRET (for signing state)
+ *
+ * Optional:
+ * - MICROSOFT_OAUTH_TENANT: tenant ID or domain, defaults to "common"
+ *   (any work or school account)
+ */
+
+import "server-only";
+import {
+  createStatePayload,
+  signOAuthState,
+  verifyOAuthState,
+  type OAuthStatePayload,
+} from "@/lib/oauth-state";
+import type { MicrosoftTokenResponse } from "./types";
+
+const MICROSOFT_LOGIN_BASE = "https://login.microsoftonline.com";
+
+// Calendar read for links, online meetings and transcripts for Teams sync.
+// offline_access is what returns a refresh token.
+export const MICROSOFT_OAUTH_SCOPES = [
+  "openid",
+  "email",
+  "offline_access",
+  "User.Read",
+  "Calendars.Read",
+  "OnlineMeetings.Read",
+  "OnlineMeetingTranscript.Read.All",
+];
+
+/**
+ * Get OAuth configuration from environment variables.
+ * @throws Error if any required variable is missing
+ */
+export function getMicrosoftOAuthConfig() {
+  const clientId = process.env.MICROSOFT_OAUTH_CLIENT_ID;
+  const clientSecret = process.env.MICROSOFT_OAUTH_CLIENT_SECRET;
+  const redirectUrl = process.env.MICROSOFT_OAUTH_REDIRECT_URL;
+  const hmacSecret = process.env.OAUTH_STATE_HMAC_SECRET;
+
+  const missing: string[] = [];
+  if (!clientId) missing.push("MICROSOFT_OAUTH_CLIENT_ID");
+  if (!clientSecret) missing.push("MICROSOFT_OAUTH_CLIENT_SECRET");
+  if (!redirectUrl) missing.push("MICROSOFT_OAUTH_REDIRECT_URL");
+  if (!hmacSecret) missing.push("OAUTH_STATE_HMAC_SECRET");
+
+  if (missing.length > 0) {
+    throw new Error(
+      `Missing required environment variables: ${missing.join(", ")}. ` +
+        "Set these in your Vercel dashboard or .env.local file."
+    );
+  }
+
+  return {
+    clientId: clientId!,
+    clientSecret: clientSecret!,
+    redirectUrl: redirectUrl!,
+    hmacSecret: hmacSecret!,
+    tenant: process.env.MICROSOFT_OAUTH_TENANT || "common",
+  };
+}
+
+function getTokenUrl(tenant: string): string {
+  return `${MICROSOFT_LOGIN_BASE}/${encodeURIComponent(tenant)}/oauth2/v2.0/token`;
+}
+
+/**
+ * Verify and decode a signed OAuth state from the callback.
+ */
+export function verifyMicrosoftState(state: string): OAuthStatePayload {
+  return verifyOAuthState(state, getMicrosoftOAuthConfig().hmacSecret);
+}
+
+/**
+ * Build the Microsoft OAuth authorization URL.
+ *
+ * @param userId - The authenticated user's ID (for state)
+ * @param redirectUrl - Optional page to return to afterwards
+ * @returns Full authorization URL to redirect user to
+ */
+export function buildMicrosoftAuthUrl(userId: string, redirectUrl?: string): string {
+  const config = getMicrosoftOAuthConfig();
+  const state = signOAuthState(createStatePayload(userId, redirectUrl), config.hmacSecret);
+
+  const params = new URLSearchParams({
+    client_id: config.clientId,
+    redirect_uri: config.redirectUrl,
+    response_type: "code",
+    response_mode: "query",
+    scope: MICROSOFT_OAUTH_SCOPES.join(" "),
+    prompt: "select_account",
+    state,
+  });
+
+  return `${MICROSOFT_LOGIN_BASE}/${encodeURIComponent(config.tenant)}/oauth2/v2.0/authorize?${params.toString()}`;
+}
+
+/**
+ * POST to the token endpoint and parse errors into readable messages.
+ */
+async function requestTokens(
+  grant: Record<string, string>,
+  failure: string
+): Promise<MicrosoftTokenResponse> {
+  const config = getMicrosoftOAuthConfig();
+
+  const response = await fetch(getTokenUrl(config.tenant), {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: new URLSearchParams({
+      client_id: config.clientId,
+      client_secret: config.clientSecret,
+      scope: MICROSOFT_OAUTH_SCOPES.join(" "),
+      ...grant,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    let errorJson: { error?: string; error_description?: string } | null = null;
+    try {
+      errorJson = JSON.parse(errorText);
+    } catch {
+      // Not JSON; reported as text below
+    }
+
+    if (errorJson?.error === "invalid_grant" && grant.grant_type === "refresh_token") {
+      throw new Error(
+        "Refresh token is invalid or expired. User needs to reconnect their Microsoft account."
+      );
+    }
+
+    throw new Error(
+      errorJson
+        ? `${failure}: ${errorJson.error} - ${errorJson.error_description || ""}`
+        : `${failure}: ${response.status} - ${errorText}`
+    );
+  }
+
+  const tokens = (await response.json()) as MicrosoftTokenResponse;
+
+  if (!tokens.access_token) {
+    throw new Error(`${failure}: no access_token in response`);
+  }
+
+  return tokens;
+}
+
+/**
+ * Exchange an authorization code for access and refresh tokens.
+ *
+ * @param code - Authorization code from OAuth callback
+ * @throws Error if exchange fails
+ */
+export async function exchangeMicrosoftCode(code: string): Promise<MicrosoftTokenResponse> {
+  const { redirectUrl } = getMicrosoftOAuthConfig();
+  return requestTokens(
+    { code, grant_type: "authorization_code", redirect_uri: redirectUrl },
+    "Token exchange failed"
+  );
+}
+
+/**
+ * Refresh an access token. Microsoft rotates refresh tokens, so the
+ * response usually carries a new one.
+ *
+ * @param refreshToken - The refresh token
+ * @throws Error if refresh fails
+ */
+export async function refreshMicrosoftToken(refreshToken: string): Promise<MicrosoftTokenResponse> {
+  return requestTokens(
+    { refresh_token: refreshToken, grant_type: "refresh_token" },
+    "Token refresh failed"
+  );
+}
+
+/**
+ * Read the tenant ID from an ID token. The token comes straight from the
+ * token endpoint over TLS, so its signature isn't checked.
+ */
+export function getTenantIdFromIdToken(idToken: string | undefined): string | null {
+  if (!idToken) return null;
+  try {
+    const claims = JSON.parse(Buffer.from(idToken.split(".")[1], "base64url").toString("utf8"));
+    return typeof claims.tid === "string" ? claims.tid : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,300 @@
+/**
+ * Supabase Storage Helpers
+ *
+ * Server-only database operations for Microsoft connections and the Teams
+ * transcripts they sync into meet_transcripts. Refresh tokens are encrypted
+ * with the same key as Google's.
+ */
+
+import "server-only";
+import { createAdminClient } from "@/lib/supabase/server";
+import { encryptToken, decryptToken } from "@/lib/google/crypto";
+import type { MeetTranscript, SaveTranscriptInput } from "@/lib/google/types";
+import type { MicrosoftConnection, MicrosoftConnectionPublic } from "./types";
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+function validateUUID(uuid: string, fieldName: string): string {
+  if (!uuid || !UUID_REGEX.test(uuid)) {
+    throw new Error(`Invalid ${fieldName}: "${uuid}" is not a valid UUID`);
+  }
+  return uuid;
+}
+
+function toPublicConnection(
+  conn: Pick<
+    MicrosoftConnection,
+    "id" | "microsoft_email" | "scopes" | "last_sync_at" | "last_sync_error" | "created_at" | "token_expiry"
+  >
+): MicrosoftConnectionPublic {
+  return {
+    id: conn.id,
+    microsoft_email: conn.microsoft_email,
+    scopes: conn.scopes,
+    last_sync_at: conn.last_sync_at,
+    last_sync_error: conn.last_sync_error,
+    created_at: conn.created_at,
+    is_token_valid: new Date(conn.token_expiry) > new Date(),
+  };
+}
+
+// ============================================================================
+// CONNECTIONS
+// ============================================================================
+
+/**
+ * Create or update a Microsoft OAuth connection.
+ *
+ * @returns The created/updated connection (public fields only)
+ */
+export async function createOrUpdateMicrosoftConnection(input: {
+  userId: string;
+  microsoftEmail: string;
+  microsoftUserId: string;
+  tenantId: string | null;
+  accessToken: string;
+  refreshToken: string;
+  tokenExpiry: Date;
+  scopes: string[];
+}): Promise<MicrosoftConnectionPublic> {
+  const supabase = createAdminClient();
+  const encrypted = encryptToken(input.refreshToken);
+
+  const { data, error } = await supabase
+    .from("microsoft_connections")
+    .upsert(
+      {
+        user_id: input.userId,
+        microsoft_email: input.microsoftEmail,
+        microsoft_user_id: input.microsoftUserId,
+        tenant_id: input.tenantId,
+        access_token: input.accessToken,
+        refresh_token_encrypted: encrypted.ciphertext,
+        refresh_token_iv: encrypted.iv,
+        refresh_token_tag: encrypted.tag,
+        token_expiry: input.tokenExpiry.toISOString(),
+        scopes: input.scopes,
+        last_sync_error: null,
+      },
+      { onConflict: "user_id,microsoft_email" }
+    )
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save Microsoft connection: ${error.message}`);
+  }
+
+  return toPublicConnection(data as MicrosoftConnection);
+}
+
+/**
+ * Get a Microsoft connection by ID (with encrypted tokens for server use).
+ */
+export async function getMicrosoftConnection(
+  connectionId: string
+): Promise<MicrosoftConnection | null> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from("microsoft_connections")
+    .select("*")
+    .eq("id", validateUUID(connectionId, "connectionId"))
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to get Microsoft connection: ${error.message}`);
+  }
+
+  return data as MicrosoftConnection | null;
+}
+
+/**
+ * Get decrypted refresh token for a connection.
+ */
+export function getDecryptedMicrosoftRefreshToken(connection: MicrosoftConnection): string {
+  return decryptToken({
+    ciphertext: connection.refresh_token_encrypted,
+    iv: connection.refresh_token_iv,
+    tag: connection.refresh_token_tag,
+  });
+}
+
+/**
+ * List all Microsoft connections for a user (public fields only).
+ */
+export async function listUserMicrosoftConnections(
+  userId: string
+): Promise<MicrosoftConnectionPublic[]> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from("microsoft_connections")
+    .select("id, microsoft_email, scopes, last_sync_at, last_sync_error, created_at, token_expiry")
+    .eq("user_id", validateUUID(userId, "userId"))
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to list Microsoft connections: ${error.message}`);
+  }
+
+  return (data || []).map(toPublicConnection);
+}
+
+/**
+ * Delete a Microsoft connection. Its calendar links and transcripts go
+ * with it (ON DELETE CASCADE).
+ *
+ * @returns True if deleted
+ */
+export async function deleteMicrosoftConnection(
+  userId: string,
+  connectionId: string
+): Promise<boolean> {
+  const supabase = createAdminClient();
+
+  const { error, count } = await supabase
+    .from("microsoft_connections")
+    .delete({ count: "exact" })
+    .eq("id", validateUUID(connectionId, "connectionId"))
+    .eq("user_id", validateUUID(userId, "userId"));
+
+  if (error) {
+    throw new Error(`Failed to delete Microsoft connection: ${error.message}`);
+  }
+
+  return (count ?? 0) > 0;
+}
+
+/**
+ * Update connection tokens after refresh.
+ */
+export async function updateMicrosoftConnectionTokens(
+  connectionId: string,
+  accessToken: string,
+  tokenExpiry: Date,
+  refreshToken?: string
+): Promise<void> {
+  const supabase = createAdminClient();
+
+  const updateData: Record<string, string | null> = {
+    access_token: accessToken,
+    token_expiry: tokenExpiry.toISOString(),
+    last_sync_error: null,
+  };
+
+  if (refreshToken) {
+    const encrypted = encryptToken(refreshToken);
+    updateData.refresh_token_encrypted = encrypted.ciphertext;
+    updateData.refresh_token_iv = encrypted.iv;
+    updateData.refresh_token_tag = encrypted.tag;
+  }
+
+  const { error } = await supabase
+    .from("microsoft_connections")
+    .update(updateData)
+    .eq("id", connectionId);
+
+  if (error) {
+    throw new Error(`Failed to update connection tokens: ${error.message}`);
+  }
+}
+
+/**
+ * Record the outcome of a transcript sync on a connection.
+ */
+export async function updateMicrosoftSyncStatus(
+  connectionId: string,
+  error: string | null
+): Promise<void> {
+  const supabase = createAdminClient();
+
+  await supabase
+    .from("microsoft_connections")
+    .update({ last_sync_at: new Date().toISOString(), last_sync_error: error })
+    .eq("id", connectionId);
+}
+
+/**
+ * Get all connections (for cron sync), least recently synced first.
+ */
+export async function getAllMicrosoftConnections(): Promise<MicrosoftConnection[]> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from("microsoft_connections")
+    .select("*")
+    .order("last_sync_at", { ascending: true, nullsFirst: true });
+
+  if (error) {
+    throw new Error(`Failed to get all Microsoft connections: ${error.message}`);
+  }
+
+  return (data || []) as MicrosoftConnection[];
+}
+
+// ============================================================================
+// TEAMS TRANSCRIPTS
+// ============================================================================
+
+/**
+ * Save a Teams transcript to the shared transcript store.
+ * `input.connectionId` is the Microsoft connection.
+ */
+export async function saveTeamsTranscript(input: SaveTranscriptInput): Promise<MeetTranscript> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from("meet_transcripts")
+    .upsert(
+      {
+        user_id: input.userId,
+        provider: "microsoft",
+        connection_id: null,
+        microsoft_connection_id: input.connectionId,
+        meeting_code: input.meetingCode,
+        conference_record_name: input.conferenceRecordName,
+        transcript_name: input.transcriptName,
+        transcript_state: input.transcriptState,
+        docs_document_id: null,
+        text_content: input.textContent,
+        text_source: input.textSource,
+        entries_count: input.entriesCount || 0,
+        meeting_start_time: input.meetingStartTime || null,
+        meeting_end_time: input.meetingEndTime || null,
+        meeting_space_name: input.meetingSpaceName || null,
+        participants: input.participants || [],
+        entries: input.entries || [],
+        metadata: input.metadata || {},
+      },
+      { onConflict: "microsoft_connection_id,conference_record_name,transcript_name" }
+    )
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save transcript: ${error.message}`);
+  }
+
+  return data as MeetTranscript;
+}
+
+/**
+ * Check if a Teams transcript was already synced through a connection.
+ */
+export async function teamsTranscriptExists(
+  connectionId: string,
+  conferenceRecordName: string
+): Promise<boolean> {
+  const supabase = createAdminClient();
+
+  const { data } = await supabase
+    .from("meet_transcripts")
+    .select("id")
+    .eq("microsoft_connection_id", connectionId)
+    .eq("conference_record_name", conferenceRecordName)
+    .limit(1)
+    .maybeSingle();
+
+  return !!data;
+}
@@ -0,0 +1,74 @@
+/**
+ * Token Management
+ *
+ * Server-only utilities for managing Microsoft OAuth tokens.
+ * Handles token refresh and database updates.
+ */
+
+import "server-only";
+import { createAdminClient } from "@/lib/supabase/server";
+import { isTokenExpired } from "@/lib/google/tokens";
+import {
+  getMicrosoftConnection,
+  getDecryptedMicrosoftRefreshToken,
+  updateMicrosoftConnectionTokens,
+} from "./storage";
+import { refreshMicrosoftToken } from "./oauth";
+
+/**
+ * Get a valid access token for a Microsoft connection, refreshing it (and
+ * storing the rotated refresh token) when it's about to expire.
+ *
+ * @param connectionId - The Microsoft connection ID
+ * @returns Valid access token
+ * @throws Error if connection not found or refresh fails
+ */
+export async function getValidMicrosoftAccessToken(connectionId: string): Promise<string> {
+  const connection = await getMicrosoftConnection(connectionId);
+
+  if (!connection) {
+    throw new Error(`Microsoft connection not found: ${connectionId}`);
+  }
+
+  if (!isTokenExpired(connection.token_expiry)) {
+    return connection.access_token;
+  }
+
+  let refreshToken: string;
+  try {
+    refreshToken = getDecryptedMicrosoftRefreshToken(connection);
+  } catch (error) {
+    throw new Error(
+      `Failed to decrypt refresh token for connection ${connectionId}: ` +
+        (error instanceof Error ? error.message : "Unknown error")
+    );
+  }
+
+  let newTokens;
+  try {
+    newTokens = await refreshMicrosoftToken(refreshToken);
+  } catch (error) {
+    await createAdminClient()
+      .from("microsoft_connections")
+      .update({
+        last_sync_error: error instanceof Error ? error.message : "Token refresh failed",
+      })
+      .eq("id", connection.id);
+
+    throw error;
+  }
+
+  try {
+    await updateMicrosoftConnectionTokens(
+      connection.id,
+      newTokens.access_token,
+      new Date(Date.now() + newTokens.expires_in * 1000),
+      newTokens.refresh_token
+    );
+  } catch (error) {
+    console.error("Failed to update Microsoft token in database:", error);
+    // Still return the new token even if DB update failed
+  }
+
+  return newTokens.access_token;
+}
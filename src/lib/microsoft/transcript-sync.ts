@@ -0,0 +1,198 @@
+/**
+ * Teams Transcript Sync
+ *
+ * Server-only module that syncs Teams meeting transcripts into the shared
+ * transcript store. Teams has no "recent meetings" listing, so meetings are
+ * found through the user's calendar: ended events with a Teams join URL are
+ * looked up as online meetings and their transcripts downloaded as VTT.
+ */
+
+import "server-only";
+import { reconcileTranscript } from "@/lib/google/reconcile";
+import { resolveNamedParticipants } from "@/lib/google/participants";
+import type { Participant, SyncOptions, SyncResult } from "@/lib/google/types";
+import { getValidMicrosoftAccessToken } from "./tokens";
+import {
+  findOnlineMeetingByJoinUrl,
+  getTranscriptContent,
+  listCalendarView,
+  listMeetingTranscripts,
+} from "./graph-client";
+import { teamsMeetingKey, toConnectorEvent } from "./calendar";
+import { convertTeamsTranscript } from "./transcripts";
+import {
+  getMicrosoftConnection,
+  listUserMicrosoftConnections,
+  saveTeamsTranscript,
+  teamsTranscriptExists,
+  updateMicrosoftSyncStatus,
+} from "./storage";
+import type { MicrosoftConnection } from "./types";
+
+/**
+ * Transcript record name, unique per occurrence. Recurring meetings share
+ * one online meeting ID, so the transcript ID is part of it.
+ */
+function transcriptRecordName(meetingId: string, transcriptId: string): string {
+  return `onlineMeetings/${meetingId}/transcripts/${transcriptId}`;
+}
+
+/**
+ * Sync Teams transcripts for a single connection.
+ *
+ * @param connection - The Microsoft connection
+ * @param options - Sync options (windowHours, maxConferences)
+ * @returns Sync results; conferencesChecked counts online meetings
+ */
+export async function syncMicrosoftTranscripts(
+  connection: MicrosoftConnection,
+  options: SyncOptions = {}
+): Promise<SyncResult> {
+  const { windowHours = 24, maxConferences = 50 } = options;
+
+  const result: SyncResult = {
+    success: true,
+    connectionId: connection.id,
+    conferencesChecked: 0,
+    transcriptsFetched: 0,
+    transcriptsSaved: 0,
+    errors: [],
+    newTranscripts: [],
+  };
+
+  try {
+    const accessToken = await getValidMicrosoftAccessToken(connection.id);
+
+    const now = new Date();
+    const windowStart = new Date(now.getTime() - windowHours * 60 * 60 * 1000);
+    const events = await listCalendarView(accessToken, windowStart.toISOString(), now.toISOString());
+
+    // Occurrences of a recurring meeting share a join URL; look each up once
+    const joinUrls = new Set<string>();
+    for (const event of events) {
+      const joinUrl = event.onlineMeeting?.joinUrl;
+      const { end, status } = toConnectorEvent(event);
+      const ended = !!end && new Date(end) <= now;
+      if (joinUrl && ended && status !== "cancelled" && teamsMeetingKey(joinUrl)) {
+        joinUrls.add(joinUrl);
+      }
+    }
+
+    for (const joinUrl of Array.from(joinUrls).slice(0, maxConferences)) {
+      try {
+        // Meetings organized by someone else can't be read; theirs syncs it
+        const meeting = await findOnlineMeetingByJoinUrl(accessToken, joinUrl);
+        if (!meeting) continue;
+
+        result.conferencesChecked++;
+
+        const transcripts = await listMeetingTranscripts(accessToken, meeting.id);
+
+        for (const transcript of transcripts) {
+          if (new Date(transcript.createdDateTime) < windowStart) continue;
+
+          const recordName = transcriptRecordName(meeting.id, transcript.id);
+          if (await teamsTranscriptExists(connection.id, recordName)) continue;
+
+          const vtt = await getTranscriptContent(accessToken, meeting.id, transcript.id);
+          result.transcriptsFetched++;
+
+          const content = convertTeamsTranscript(vtt, transcript.createdDateTime, meeting);
+          if (!content.textContent.trim()) continue;
+
+          let participants: Participant[] = content.participants;
+          try {
+            participants = await resolveNamedParticipants(participants, connection.user_id);
+          } catch (participantsError) {
+            result.errors.push(
+              `Participant matching failed for ${recordName}: ${participantsError instanceof Error ? participantsError.message : "Unknown"}`
+            );
+          }
+
+          const saved = await saveTeamsTranscript({
+            userId: connection.user_id,
+            connectionId: connection.id,
+            meetingCode: teamsMeetingKey(joinUrl) || "unknown",
+            conferenceRecordName: recordName,
+            transcriptName: transcript.id,
+            transcriptState: "FILE_GENERATED",
+            textContent: content.textContent,
+            textSource: "entries",
+            entriesCount: content.entries.length,
+            meetingStartTime: transcript.createdDateTime,
+            meetingEndTime: transcript.endDateTime || undefined,
+            participants,
+            entries: content.entries,
+            metadata: {
+              online_meeting_id: meeting.id,
+              join_url: joinUrl,
+              subject: meeting.subject || null,
+            },
+          });
+
+          result.transcriptsSaved++;
+          result.newTranscripts.push(recordName);
+
+          // The cron sweep retries reconciliation that fails here
+          try {
+            await reconcileTranscript(saved);
+          } catch (reconcileError) {
+            result.errors.push(
+              `Reconcile failed for ${recordName}: ${reconcileError instanceof Error ? reconcileError.message : "Unknown"}`
+            );
+          }
+        }
+      } catch (meetingError) {
+        result.errors.push(
+          `Meeting ${joinUrl}: ${meetingError instanceof Error ? meetingError.message : "Unknown error"}`
+        );
+      }
+    }
+
+    await updateMicrosoftSyncStatus(connection.id, null);
+  } catch (error) {
+    result.success = false;
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    result.errors.push(errorMessage);
+
+    await updateMicrosoftSyncStatus(connection.id, errorMessage);
+  }
+
+  return result;
+}
+
+/**
+ * Sync Teams transcripts for a user (all their connections, or one).
+ *
+ * @param userId - The user ID
+ * @param options - Sync options (can specify connectionId to sync one)
+ * @returns Array of sync results
+ */
+export async function syncUserMicrosoftTranscripts(
+  userId: string,
+  options: SyncOptions = {}
+): Promise<SyncResult[]> {
+  if (options.connectionId) {
+    const connection = await getMicrosoftConnection(options.connectionId);
+
+    if (!connection) {
+      throw new Error("Connection not found");
+    }
+
+    if (connection.user_id !== userId) {
+      throw new Error("Connection does not belong to user");
+    }
+
+    return [await syncMicrosoftTranscripts(connection, options)];
+  }
+
+  const results: SyncResult[] = [];
+  for (const connPublic of await listUserMicrosoftConnections(userId)) {
+    const connection = await getMicrosoftConnection(connPublic.id);
+    if (!connection) continue;
+
+    results.push(await syncMicrosoftTranscripts(connection, options));
+  }
+
+  return results;
+}
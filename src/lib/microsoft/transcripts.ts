@@ -0,0 +1,46 @@
+/**
+ * Teams Transcript Conversion
+ *
+ * Turns a Teams WebVTT transcript into the transcript store's shape, with
+ * speaker emails taken from the online meeting's participants.
+ */
+
+import { parseVtt, mergeSpeakerTurns } from "@/lib/vtt";
+import { buildTranscriptContent, type TranscriptContent } from "@/lib/connectors/transcripts";
+import type { GraphOnlineMeeting } from "./types";
+
+/**
+ * Emails of the meeting's organizer and attendees, by display name
+ */
+function meetingEmailsByName(meeting: GraphOnlineMeeting | null): Map<string, string> {
+  const emails = new Map<string, string>();
+  const people = [meeting?.participants?.organizer, ...(meeting?.participants?.attendees || [])];
+
+  for (const person of people) {
+    const name = person?.identity?.user?.displayName;
+    if (name && person?.upn) {
+      emails.set(name.trim().toLowerCase(), person.upn);
+    }
+  }
+
+  return emails;
+}
+
+/**
+ * Convert a Teams VTT transcript.
+ *
+ * @param vtt - Transcript content as WebVTT
+ * @param recordingStart - When the transcript started (cue times are offsets from it)
+ * @param meeting - The online meeting, for attendee emails
+ */
+export function convertTeamsTranscript(
+  vtt: string,
+  recordingStart: string,
+  meeting: GraphOnlineMeeting | null = null
+): TranscriptContent {
+  return buildTranscriptContent(
+    mergeSpeakerTurns(parseVtt(vtt)),
+    recordingStart,
+    meetingEmailsByName(meeting)
+  );
+}
@@ -0,0 +1,147 @@
+/**
+ * Microsoft Graph TypeScript Types
+ * Types for OAuth connections, the Graph calendar and online meeting APIs,
+ * and database models.
+ */
+
+// ============================================================================
+// DATABASE MODELS
+// ============================================================================
+
+/**
+ * Microsoft OAuth connection stored in database
+ */
+export interface MicrosoftConnection {
+  id: string;
+  user_id: string;
+  microsoft_email: string;
+  microsoft_user_id: string | null;
+  tenant_id: string | null;
+  access_token: string;
+  refresh_token_encrypted: string;
+  refresh_token_iv: string;
+  refresh_token_tag: string;
+  token_expiry: string;
+  scopes: string[];
+  last_sync_at: string | null;
+  last_sync_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Microsoft connection for client display (no sensitive tokens)
+ */
+export interface MicrosoftConnectionPublic {
+  id: string;
+  microsoft_email: string;
+  scopes: string[];
+  last_sync_at: string | null;
+  last_sync_error: string | null;
+  created_at: string;
+  is_token_valid: boolean;
+}
+
+// ============================================================================
+// OAUTH TYPES
+// ============================================================================
+
+/**
+ * Microsoft identity platform token response
+ */
+export interface MicrosoftTokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in: number;
+  token_type: string;
+  scope: string;
+  id_token?: string;
+}
+
+// ============================================================================
+// GRAPH API TYPES
+// ============================================================================
+
+/**
+ * A page of a Graph collection
+ */
+export interface GraphCollection<T> {
+  value: T[];
+  "@odata.nextLink"?: string;
+  "@odata.deltaLink"?: string;
+}
+
+export interface GraphUser {
+  id: string;
+  displayName: string | null;
+  mail: string | null;
+  userPrincipalName: string;
+}
+
+export interface GraphEmailAddress {
+  name?: string;
+  address?: string;
+}
+
+export interface GraphCalendar {
+  id: string;
+  name: string;
+  color?: string;
+  hexColor?: string;
+  isDefaultCalendar?: boolean;
+  canEdit?: boolean;
+  owner?: GraphEmailAddress;
+}
+
+export interface GraphDateTimeZone {
+  dateTime: string;
+  timeZone: string;
+}
+
+export interface GraphEvent {
+  id: string;
+  subject?: string | null;
+  bodyPreview?: string | null;
+  body?: { contentType: "text" | "html"; content: string };
+  start?: GraphDateTimeZone;
+  end?: GraphDateTimeZone;
+  isAllDay?: boolean;
+  isCancelled?: boolean;
+  showAs?: "free" | "tentative" | "busy" | "oof" | "workingElsewhere" | "unknown";
+  organizer?: { emailAddress: GraphEmailAddress };
+  attendees?: Array<{
+    emailAddress: GraphEmailAddress;
+    type?: "required" | "optional" | "resource";
+  }>;
+  isOnlineMeeting?: boolean;
+  onlineMeetingProvider?: "teamsForBusiness" | "skypeForBusiness" | "skypeForConsumer" | "unknown";
+  onlineMeeting?: { joinUrl?: string } | null;
+  /** Present on delta results for events that were deleted or moved out of the window */
+  "@removed"?: { reason: "deleted" | "changed" };
+}
+
+export interface GraphMeetingParticipant {
+  upn?: string;
+  identity?: {
+    user?: { id?: string; displayName?: string | null };
+  };
+}
+
+export interface GraphOnlineMeeting {
+  id: string;
+  joinWebUrl: string;
+  subject?: string | null;
+  startDateTime?: string;
+  endDateTime?: string;
+  participants?: {
+    organizer?: GraphMeetingParticipant;
+    attendees?: GraphMeetingParticipant[];
+  };
+}
+
+export interface GraphCallTranscript {
+  id: string;
+  meetingId?: string;
+  createdDateTime: string;
+  endDateTime?: string | null;
+}
@@ -0,0 +1,612 @@
+/**
+ * Notification Engine
+ *
+ * Decides who gets which email and sends it:
+ * - New-call notices when a call is ingested (OrgSettings.notifications.emailOnNewCall)
+ * - Low-score alerts after analysis (emailOnLowScore, lowScoreThreshold)
+ * - A daily digest built from the dashboard stats (dailyDigest)
+ * - Scheduled reports, to the members each report schedule names
+ * - Usage warnings, to every admin, when a plan limit is 80% used
+ * - Dispute resolutions, to the agent whose disputed session was resolved
+ *
+ * Recipients of the first three are the org's active admins and managers,
+ * minus anyone who has opted out in notification_preferences. Every email is recorded in
+ * notification_log, whose unique (type, recipient, dedupe_key) index also
+ * stops the same alert or digest going out twice.
+ *
+ * Nothing here throws: a mail problem must not fail the call pipeline.
+ */
+
+import { createAdminClient } from "@/lib/supabase/server";
+import { getDashboardStats } from "@/lib/dashboard-stats";
+import type {
+  DisputeOutcome,
+  NotificationPreferences,
+  NotificationType,
+  OrgSettings,
+  UserRole,
+} from "@/types/database";
+import {
+  renderDailyDigestEmail,
+  renderDisputeResolvedEmail,
+  renderLowScoreEmail,
+  renderNewCallEmail,
+  renderUsageWarningEmail,
+  type RenderedEmail,
+} from "./templates";
+import { getEmailFrom, resolveEmailTransport } from "./transport";
+import type { EmailAttachment, EmailTransport } from "./types";
+
+// ============================================================================
+// SETTINGS & RECIPIENTS
+// ============================================================================
+
+export type NotificationSettings = OrgSettings["notifications"];
+
+// Same defaults new organizations are created with
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  emailOnNewCall: true,
+  emailOnLowScore: true,
+  lowScoreThreshold: 60,
+  dailyDigest: false,
+};
+
+export const NOTIFICATION_RECIPIENT_ROLES: UserRole[] = ["admin", "manager"];
+
+// Scheduled reports go to whoever the schedule names, usage warnings to
+// every admin and dispute resolutions to the agent who disputed, so none of
+// them has an opt-out
+export type OptionalNotificationType = Exclude<
+  NotificationType,
+  "scheduled_report" | "usage_warning" | "dispute_resolved"
+>;
+
+export const NOTIFICATION_PREFERENCE_COLUMNS: Record<
+  OptionalNotificationType,
+  "email_new_call" | "email_low_score" | "email_daily_digest"
+> = {
+  new_call: "email_new_call",
+  low_score: "email_low_score",
+  daily_digest: "email_daily_digest",
+};
+
+export function getNotificationSettings(settings: unknown): NotificationSettings {
+  const notifications = (settings as Partial<OrgSettings> | null)?.notifications;
+  return { ...DEFAULT_NOTIFICATION_SETTINGS, ...(notifications || {}) };
+}
+
+/**
+ * Scores strictly below the org's threshold trigger an alert
+ */
+export function isLowScore(score: number | null | undefined, threshold: number): boolean {
+  return typeof score === "number" && score < threshold;
+}
+
+export interface NotificationRecipient {
+  id: string;
+  email: string;
+  name?: string | null;
+  role: UserRole;
+  is_active: boolean;
+}
+
+type PreferenceRow = Pick<NotificationPreferences, "user_id"> &
+  Partial<Pick<NotificationPreferences, "email_new_call" | "email_low_score" | "email_daily_digest">>;
+
+export function selectRecipients(
+  users: NotificationRecipient[],
+  preferences: PreferenceRow[],
+  type: OptionalNotificationType
+): NotificationRecipient[] {
+  const column = NOTIFICATION_PREFERENCE_COLUMNS[type];
+  const optedOut = new Set(
+    preferences.filter((p) => p[column] === false).map((p) => p.user_id)
+  );
+
+  return users.filter(
+    (user) =>
+      user.is_active &&
+      !!user.email &&
+      NOTIFICATION_RECIPIENT_ROLES.includes(user.role) &&
+      !optedOut.has(user.id)
+  );
+}
+
+function getAppUrl(): string {
+  return (process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000").replace(/\/$/, "");
+}
+
+// ============================================================================
+// SENDING
+// ============================================================================
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+interface OrgContext {
+  id: string;
+  name: string;
+  settings: NotificationSettings;
+}
+
+export interface NotificationResult {
+  sent: number;
+  skipped: number;
+  failed: number;
+}
+
+const emptyResult = (): NotificationResult => ({ sent: 0, skipped: 0, failed: 0 });
+
+async function loadOrg(supabase: AdminClient, orgId: string): Promise<OrgContext | null> {
+  const { data: org } = await supabase
+    .from("organizations")
+    .select("id, name, settings_json")
+    .eq("id", orgId)
+    .single();
+
+  if (!org) return null;
+  return { id: org.id, name: org.name, settings: getNotificationSettings(org.settings_json) };
+}
+
+async function loadRecipients(
+  supabase: AdminClient,
+  orgId: string,
+  type: OptionalNotificationType
+): Promise<NotificationRecipient[]> {
+  const { data: users } = await supabase
+    .from("users")
+    .select("id, email, name, role, is_active")
+    .eq("org_id", orgId)
+    .eq("is_active", true)
+    .in("role", NOTIFICATION_RECIPIENT_ROLES);
+
+  if (!users || users.length === 0) return [];
+
+  const { data: preferences } = await supabase
+    .from("notification_preferences")
+    .select("user_id, email_new_call, email_low_score, email_daily_digest")
+    .in("user_id", users.map((u: NotificationRecipient) => u.id));
+
+  return selectRecipients(users, preferences || [], type);
+}
+
+/**
+ * Send one email per recipient, logging each. A recipient that already has
+ * a log row for this type and dedupe key is skipped.
+ */
+async function deliver(
+  supabase: AdminClient,
+  transport: EmailTransport,
+  options: {
+    orgId: string;
+    type: NotificationType;
+    dedupeKey: string;
+    entityType?: string;
+    entityId?: string;
+    email: RenderedEmail;
+    attachments?: EmailAttachment[];
+    recipients: Pick<NotificationRecipient, "id" | "email">[];
+  }
+): Promise<NotificationResult> {
+  const result = emptyResult();
+  const from = getEmailFrom();
+
+  for (const recipient of options.recipients) {
+    // Claim the (type, recipient, dedupe_key) slot before sending
+    const { data: logEntry, error: claimError } = await supabase
+      .from("notification_log")
+      .insert({
+        org_id: options.orgId,
+        user_id: recipient.id,
+        type: options.type,
+        recipient: recipient.email,
+        subject: options.email.subject,
+        status: "sending",
+        dedupe_key: options.dedupeKey,
+        entity_type: options.entityType || null,
+        entity_id: options.entityId || null,
+        transport: transport.name,
+      })
+      .select("id")
+      .single();
+
+    if (claimError || !logEntry) {
+      if (claimError?.code === "23505") {
+        result.skipped++;
+      } else {
+        console.error("Error logging notification:", claimError);
+        result.failed++;
+      }
+      continue;
+    }
+
+    try {
+      const { messageId } = await transport.send({
+        from,
+        to: [recipient.email],
+        subject: options.email.subject,
+        text: options.email.text,
+        html: options.email.html,
+        attachments: options.attachments,
+      });
+
+      await supabase
+        .from("notification_log")
+        .update({ status: "sent", message_id: messageId, sent_at: new Date().toISOString() })
+        .eq("id", logEntry.id);
+      result.sent++;
+    } catch (error) {
+      console.error(`Error sending ${options.type} email:`, error);
+      await supabase
+        .from("notification_log")
+        .update({
+          status: "failed",
+          error_message: error instanceof Error ? error.message : "Send failed",
+        })
+        .eq("id", logEntry.id);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
+
+function getTransport(): EmailTransport | null {
+  try {
+    return resolveEmailTransport();
+  } catch (error) {
+    console.error("Email transport misconfigured:", error);
+    return null;
+  }
+}
+
+// ============================================================================
+// NOTIFICATIONS
+// ============================================================================
+
+interface CallContext {
+  id: string;
+  org_id: string;
+  source: string;
+  customer_name: string | null;
+  customer_company: string | null;
+  caller: { name: string } | { name: string }[] | null;
+}
+
+async function loadCall(supabase: AdminClient, callId: string): Promise<CallContext | null> {
+  const { data: call } = await supabase
+    .from("calls")
+    .select("id, org_id, source, customer_name, customer_company, caller:callers(name)")
+    .eq("id", callId)
+    .single();
+  return call;
+}
+
+function callerName(call: CallContext): string {
+  const caller = Array.isArray(call.caller) ? call.caller[0] : call.caller;
+  return caller?.name || "Unknown caller";
+}
+
+/**
+ * Tell admins and managers a call came in
+ */
+export async function notifyNewCall(callId: string): Promise<NotificationResult> {
+  try {
+    const transport = getTransport();
+    if (!transport) return emptyResult();
+
+    const supabase = createAdminClient();
+    const call = await loadCall(supabase, callId);
+    if (!call) return emptyResult();
+
+    const org = await loadOrg(supabase, call.org_id);
+    if (!org || !org.settings.emailOnNewCall) return emptyResult();
+
+    const recipients = await loadRecipients(supabase, org.id, "new_call");
+    if (recipients.length === 0) return emptyResult();
+
+    const email = renderNewCallEmail({
+      orgName: org.name,
+      callerName: callerName(call),
+      customerName: call.customer_name,
+      customerCompany: call.customer_company,
+      source: call.source,
+      callUrl: `${getAppUrl()}/dashboard/calls/${call.id}`,
+    });
+
+    return await deliver(supabase, transport, {
+      orgId: org.id,
+      type: "new_call",
+      dedupeKey: call.id,
+      entityType: "call",
+      entityId: call.id,
+      email,
+      recipients,
+    });
+  } catch (error) {
+    console.error("Error sending new call notification:", error);
+    return emptyResult();
+  }
+}
+
+export interface LowScoreAlertInput {
+  callId: string;
+  analysisId: string;
+  score: number;
+  summary?: string | null;
+  improvements?: string[];
+}
+
+/**
+ * Alert admins and managers when an analyzed call scores below the org's
+ * threshold. Each analysis alerts at most once.
+ */
+export async function notifyLowScore(input: LowScoreAlertInput): Promise<NotificationResult> {
+  try {
+    const transport = getTransport();
+    if (!transport) return emptyResult();
+
+    const supabase = createAdminClient();
+    const call = await loadCall(supabase, input.callId);
+    if (!call) return emptyResult();
+
+    const org = await loadOrg(supabase, call.org_id);
+    if (!org || !org.settings.emailOnLowScore) return emptyResult();
+    if (!isLowScore(input.score, org.settings.lowScoreThreshold)) return emptyResult();
+
+    const recipients = await loadRecipients(supabase, org.id, "low_score");
+    if (recipients.length === 0) return emptyResult();
+
+    const email = renderLowScoreEmail({
+      orgName: org.name,
+      callerName: callerName(call),
+      customerName: call.customer_name,
+      score: input.score,
+      threshold: org.settings.lowScoreThreshold,
+      summary: input.summary,
+      improvements: input.improvements || [],
+      callUrl: `${getAppUrl()}/dashboard/calls/${call.id}`,
+    });
+
+    return await deliver(supabase, transport, {
+      orgId: org.id,
+      type: "low_score",
+      dedupeKey: input.analysisId,
+      entityType: "call",
+      entityId: call.id,
+      email,
+      recipients,
+    });
+  } catch (error) {
+    console.error("Error sending low score alert:", error);
+    return emptyResult();
+  }
+}
+
+export interface DailyDigestResult extends NotificationResult {
+  orgs: number;
+}
+
+/**
+ * Send the daily digest for every org that has it turned on (called by cron).
+ * Orgs with no calls in the last day get no email.
+ */
+export async function sendDailyDigests(
+  options: { date?: Date; deadline?: number } = {}
+): Promise<DailyDigestResult> {
+  const result: DailyDigestResult = { orgs: 0, ...emptyResult() };
+
+  const transport = getTransport();
+  if (!transport) return result;
+
+  const supabase = createAdminClient();
+  const digestDate = (options.date || new Date()).toISOString().split("T")[0];
+
+  const { data: orgs, error } = await supabase
+    .from("organizations")
+    .select("id, name, settings_json")
+    .eq("settings_json->notifications->>dailyDigest", "true");
+
+  if (error) {
+    console.error("Error loading digest organizations:", error);
+    return result;
+  }
+
+  for (const org of orgs || []) {
+    if (options.deadline && Date.now() > options.deadline) break;
+
+    try {
+      const stats = await getDashboardStats(supabase, org.id, {
+        period: "day",
+        includeRecentScores: true,
+      });
+      if (!stats || stats.totalCalls === 0) continue;
+
+      const recipients = await loadRecipients(supabase, org.id, "daily_digest");
+      if (recipients.length === 0) continue;
+
+      result.orgs++;
+
+      const email = renderDailyDigestEmail({
+        orgName: org.name,
+        date: digestDate,
+        stats,
+        dashboardUrl: `${getAppUrl()}/dashboard`,
+      });
+
+      const sent = await deliver(supabase, transport, {
+        orgId: org.id,
+        type: "daily_digest",
+        dedupeKey: digestDate,
+        email,
+        recipients,
+      });
+
+      result.sent += sent.sent;
+      result.skipped += sent.skipped;
+      result.failed += sent.failed;
+    } catch (orgError) {
+      console.error(`Error sending daily digest for org ${org.id}:`, orgError);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
+
+export interface ScheduledReportEmailInput {
+  orgId: string;
+  scheduleId: string;
+  /** The run being delivered; each recipient gets at most one email per run */
+  runId: string;
+  recipients: Pick<NotificationRecipient, "id" | "email">[];
+  email: RenderedEmail;
+  attachments?: EmailAttachment[];
+}
+
+/**
+ * Email a scheduled report to the members its schedule names. Unlike the
+ * other notifications a missing transport counts as a failure, since the
+ * run has nowhere else to go.
+ */
+export async function sendScheduledReportEmail(input: ScheduledReportEmailInput): Promise<NotificationResult> {
+  const transport = getTransport();
+  if (!transport) {
+    return { ...emptyResult(), failed: input.recipients.length };
+  }
+
+  try {
+    return await deliver(createAdminClient(), transport, {
+      orgId: input.orgId,
+      type: "scheduled_report",
+      dedupeKey: input.runId,
+      entityType: "report_schedule",
+      entityId: input.scheduleId,
+      email: input.email,
+      attachments: input.attachments,
+      recipients: input.recipients,
+    });
+  } catch (error) {
+    console.error("Error sending scheduled report email:", error);
+    return { ...emptyResult(), failed: input.recipients.length };
+  }
+}
+
+export interface UsageWarningInput {
+  orgId: string;
+  /** org_usage column, part of the dedupe key */
+  metric: string;
+  /** First day of the usage period, so each period warns once */
+  periodStart: string;
+  feature: string;
+  used: string;
+  limit: string;
+  percent: number;
+}
+
+/**
+ * Warn the org's admins that a plan limit is nearly used up
+ */
+export async function notifyUsageWarning(input: UsageWarningInput): Promise<NotificationResult> {
+  try {
+    const transport = getTransport();
+    if (!transport) return emptyResult();
+
+    const supabase = createAdminClient();
+    const org = await loadOrg(supabase, input.orgId);
+    if (!org) return emptyResult();
+
+    const { data: admins } = await supabase
+      .from("users")
+      .select("id, email")
+      .eq("org_id", org.id)
+      .eq("role", "admin")
+      .eq("is_active", true);
+
+    const recipients = ((admins || []) as Pick<NotificationRecipient, "id" | "email">[]).filter((a) => !!a.email);
+    if (recipients.length === 0) return emptyResult();
+
+    const email = renderUsageWarningEmail({
+      orgName: org.name,
+      feature: input.feature,
+      used: input.used,
+      limit: input.limit,
+      percent: input.percent,
+      usageUrl: `${getAppUrl()}/dashboard/usage`,
+    });
+
+    return await deliver(supabase, transport, {
+      orgId: org.id,
+      type: "usage_warning",
+      dedupeKey: `${input.metric}:${input.periodStart}`,
+      email,
+      recipients,
+    });
+  } catch (error) {
+    console.error("Error sending usage warning:", error);
+    return emptyResult();
+  }
+}
+
+export interface DisputeResolvedInput {
+  orgId: string;
+  sessionId: string;
+  agentId: string;
+  /** When the dispute was raised, so each dispute notifies once */
+  disputedAt: string;
+  templateName: string;
+  resolverName: string;
+  outcome: DisputeOutcome;
+  rationale: string;
+  previousScore: number | null;
+  newScore: number | null;
+  changes: string[];
+}
+
+/**
+ * Tell the agent how their dispute was resolved
+ */
+export async function notifyDisputeResolved(input: DisputeResolvedInput): Promise<NotificationResult> {
+  try {
+    const transport = getTransport();
+    if (!transport) return emptyResult();
+
+    const supabase = createAdminClient();
+    const org = await loadOrg(supabase, input.orgId);
+    if (!org) return emptyResult();
+
+    const { data: agent } = await supabase
+      .from("users")
+      .select("id, email")
+      .eq("id", input.agentId)
+      .eq("org_id", org.id)
+      .eq("is_active", true)
+      .single();
+
+    if (!agent?.email) return emptyResult();
+
+    const email = renderDisputeResolvedEmail({
+      orgName: org.name,
+      templateName: input.templateName,
+      resolverName: input.resolverName,
+      outcome: input.outcome,
+      rationale: input.rationale,
+      previousScore: input.previousScore,
+      newScore: input.newScore,
+      changes: input.changes,
+      sessionUrl: `${getAppUrl()}/dashboard/sessions/${input.sessionId}`,
+    });
+
+    return await deliver(supabase, transport, {
+      orgId: org.id,
+      type: "dispute_resolved",
+      dedupeKey: `${input.sessionId}:${input.disputedAt}`,
+      entityType: "session",
+      entityId: input.sessionId,
+      email,
+      recipients: [agent],
+    });
+  } catch (error) {
+    console.error("Error sending dispute resolution:", error);
+    return emptyResult();
+  }
+}
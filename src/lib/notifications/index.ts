@@ -0,0 +1,29 @@
+/**
+ * Email Notifications
+ *
+ * Resolves the configured email transport and exposes the notification
+ * engine (new-call notices, low-score alerts, daily digests, scheduled
+ * reports, usage warnings, dispute resolutions).
+ *
+ * Usage:
+ *   import { notifyLowScore } from '@/lib/notifications';
+ *   await notifyLowScore({ callId, analysisId, score, summary, improvements });
+ *
+ * Environment:
+ *   EMAIL_TRANSPORT   - smtp | file | console (defaults to smtp when SMTP_HOST
+ *                       is set, otherwise console outside production)
+ *   EMAIL_FROM        - From header, e.g. "Kalyxi <alerts@example.com>"
+ *   EMAIL_FILE_DIR    - where the file transport writes .eml files
+ *   SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASSWORD
+ *   SMTP_SECURE       - "true" for implicit TLS (default when SMTP_PORT=465)
+ *   SMTP_REQUIRE_TLS  - "true" to refuse sending without STARTTLS
+ */
+
+export * from "./types";
+export * from "./transport";
+export * from "./templates";
+export * from "./engine";
+export { SmtpTransport } from "./smtp";
+export type { SmtpTransportConfig } from "./smtp";
+export { FileTransport, ConsoleTransport } from "./local";
+export { buildMimeMessage } from "./mime";
@@ -0,0 +1,43 @@
+/**
+ * Local Transports
+ *
+ * For development and tests: the file transport writes each email as an
+ * .eml file (open it in any mail client), the console transport logs a
+ * summary. Neither sends anything.
+ */
+
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { buildMimeMessage, generateMessageId } from "./mime";
+import type { EmailMessage, EmailSendResult, EmailTransport } from "./types";
+
+export class FileTransport implements EmailTransport {
+  readonly name = "file" as const;
+
+  constructor(private readonly directory: string) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const messageId = generateMessageId(message.from);
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${messageId.slice(1, 9)}.eml`;
+
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(path.join(this.directory, fileName), buildMimeMessage(message, { messageId }), "utf8");
+
+    return { messageId };
+  }
+}
+
+export class ConsoleTransport implements EmailTransport {
+  readonly name = "console" as const;
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const messageId = generateMessageId(message.from);
+    const attachments = (message.attachments || []).map((a) => `${a.filename} (${a.content.length} bytes)`);
+    console.log(
+      `[Email] To: ${message.to.join(", ")} | Subject: ${message.subject}` +
+        (attachments.length > 0 ? ` | Attachments: ${attachments.join(", ")}` : "") +
+        `\n${message.text}`
+    );
+    return { messageId };
+  }
+}
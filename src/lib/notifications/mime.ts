@@ -0,0 +1,121 @@
+/**
+ * MIME Message Builder
+ *
+ * Builds the multipart/alternative (text + HTML) message that the SMTP
+ * transport sends and the file transport writes as .eml. Messages with
+ * attachments wrap it in multipart/mixed.
+ */
+
+import crypto from "crypto";
+import type { EmailAttachment, EmailMessage } from "./types";
+
+// RFC 2045 line length for base64 bodies
+const BASE64_LINE_LENGTH = 76;
+
+// Header values must not be able to start a new header
+function sanitizeHeader(value: string): string {
+  return value.replace(/[\r\n]+/g, " ").trim();
+}
+
+function encodeHeader(value: string): string {
+  const clean = sanitizeHeader(value);
+  if (/^[\x20-\x7e]*$/.test(clean)) return clean;
+  return `=?UTF-8?B?${Buffer.from(clean, "utf8").toString("base64")}?=`;
+}
+
+// Only the display name may need encoding; the address itself is ASCII
+function encodeAddress(value: string): string {
+  const match = value.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/);
+  if (!match || !match[1]) return sanitizeHeader(value);
+  return `${encodeHeader(match[1])} <${sanitizeHeader(match[2])}>`;
+}
+
+function encodeBody(value: string | Buffer): string {
+  const encoded = (typeof value === "string" ? Buffer.from(value, "utf8") : value).toString("base64");
+  const lines: string[] = [];
+  for (let i = 0; i < encoded.length; i += BASE64_LINE_LENGTH) {
+    lines.push(encoded.slice(i, i + BASE64_LINE_LENGTH));
+  }
+  return lines.join("\r\n");
+}
+
+/**
+ * Bare address from "Name <address>" or "address"
+ */
+export function extractAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return sanitizeHeader(match ? match[1] : value);
+}
+
+export function generateMessageId(from: string): string {
+  const domain = extractAddress(from).split("@")[1] || "localhost";
+  return `<${crypto.randomUUID()}@${domain}>`;
+}
+
+// Quoted filename parameter; non-ASCII names use the RFC 2231 form
+function filenameParameter(filename: string): string {
+  const clean = sanitizeHeader(filename).replace(/["\\]/g, "");
+  if (/^[\x20-\x7e]*$/.test(clean)) return `filename="${clean}"`;
+  return `filename*=UTF-8''${encodeURIComponent(clean)}`;
+}
+
+function attachmentPart(boundary: string, attachment: EmailAttachment): string {
+  return [
+    `--${boundary}`,
+    `Content-Type: ${sanitizeHeader(attachment.contentType)}`,
+    "Content-Transfer-Encoding: base64",
+    `Content-Disposition: attachment; ${filenameParameter(attachment.filename)}`,
+    "",
+    encodeBody(attachment.content),
+  ].join("\r\n");
+}
+
+export function buildMimeMessage(
+  message: EmailMessage,
+  options: { messageId: string; date?: Date }
+): string {
+  const boundary = `kalyxi-${crypto.randomBytes(12).toString("hex")}`;
+  const attachments = message.attachments || [];
+  const mixedBoundary = attachments.length > 0 ? `kalyxi-mixed-${crypto.randomBytes(12).toString("hex")}` : null;
+
+  const headers = [
+    `From: ${encodeAddress(message.from)}`,
+    `To: ${message.to.map(sanitizeHeader).join(", ")}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${(options.date || new Date()).toUTCString()}`,
+    `Message-ID: ${options.messageId}`,
+    "MIME-Version: 1.0",
+  ];
+
+  const part = (contentType: string, body: string) =>
+    [
+      `--${boundary}`,
+      `Content-Type: ${contentType}; charset=UTF-8`,
+      "Content-Transfer-Encoding: base64",
+      "",
+      encodeBody(body),
+    ].join("\r\n");
+
+  const alternative = [
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    part("text/plain", message.text),
+    part("text/html", message.html),
+    `--${boundary}--`,
+  ];
+
+  if (!mixedBoundary) {
+    return [...headers, ...alternative, ""].join("\r\n");
+  }
+
+  return [
+    ...headers,
+    `Content-Type: multipart/mixed; boundary="${mixedBoundary}"`,
+    "",
+    `--${mixedBoundary}`,
+    ...alternative,
+    ...attachments.map((attachment) => attachmentPart(mixedBoundary, attachment)),
+    `--${mixedBoundary}--`,
+    "",
+  ].join("\r\n");
+}
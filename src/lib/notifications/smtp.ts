@@ -0,0 +1,253 @@
+/**
+ * SMTP Transport
+ *
+ * A small SMTP client over node's net/tls so no mail library is needed.
+ * Supports implicit TLS (port 465), STARTTLS and AUTH PLAIN/LOGIN, which
+ * covers the usual relays (SES, SendGrid, Postmark, Mailgun, Gmail).
+ *
+ * Protocol reference: RFC 5321 (SMTP), RFC 3207 (STARTTLS), RFC 4954 (AUTH)
+ */
+
+import net from "net";
+import tls from "tls";
+import { once } from "events";
+import { buildMimeMessage, extractAddress, generateMessageId } from "./mime";
+import {
+  EmailTransportError,
+  type EmailMessage,
+  type EmailSendResult,
+  type EmailTransport,
+} from "./types";
+
+export interface SmtpTransportConfig {
+  host: string;
+  port: number;
+  /** Implicit TLS from the first byte (usually port 465) */
+  secure?: boolean;
+  user?: string;
+  password?: string;
+  /** Fail rather than send in plain text when STARTTLS isn't offered */
+  requireTLS?: boolean;
+  /** Never upgrade with STARTTLS (local relays and tests) */
+  ignoreTLS?: boolean;
+  /** Name sent with EHLO */
+  clientName?: string;
+  timeoutMs?: number;
+  tlsOptions?: tls.ConnectionOptions;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+/**
+ * One SMTP session: buffers the server's replies and hands them out in order
+ */
+class SmtpConnection {
+  private buffer = "";
+  private pendingLines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiters: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> = [];
+  private failure: Error | null = null;
+
+  private readonly onData = (chunk: Buffer | string) => this.receive(chunk.toString());
+  private readonly onError = (error: Error) => this.fail(error);
+  private readonly onClose = () => this.fail(new Error("Connection closed by server"));
+
+  constructor(
+    private socket: net.Socket,
+    private readonly timeoutMs: number
+  ) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket) {
+    this.socket = socket;
+    socket.on("data", this.onData);
+    socket.on("error", this.onError);
+    socket.on("close", this.onClose);
+    socket.setTimeout(this.timeoutMs, () => {
+      socket.destroy(new Error(`Timed out after ${this.timeoutMs / 1000}s`));
+    });
+  }
+
+  private detach() {
+    this.socket.off("data", this.onData);
+    this.socket.off("error", this.onError);
+    this.socket.off("close", this.onClose);
+    this.socket.setTimeout(0);
+    // A late reset on a socket we're done with must not crash the process
+    this.socket.on("error", () => undefined);
+  }
+
+  private receive(data: string) {
+    this.buffer += data;
+
+    let index: number;
+    while ((index = this.buffer.indexOf("\r\n")) !== -1) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.pendingLines.push(line);
+
+      // "250-..." continues a reply, "250 ..." ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = {
+          code: parseInt(line.slice(0, 3), 10),
+          lines: this.pendingLines.map((l) => l.slice(4)),
+        };
+        this.pendingLines = [];
+
+        const waiter = this.waiters.shift();
+        if (waiter) {
+          waiter.resolve(reply);
+        } else {
+          this.replies.push(reply);
+        }
+      }
+    }
+  }
+
+  private fail(error: Error) {
+    if (this.failure) return;
+    this.failure = error;
+    for (const waiter of this.waiters.splice(0)) {
+      waiter.reject(error);
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => this.waiters.push({ resolve, reject }));
+  }
+
+  async expect(expected: number[], command: string): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new EmailTransportError(
+        `SMTP ${command} failed: ${reply.code} ${reply.lines.join(" ")}`,
+        "smtp",
+        reply.code
+      );
+    }
+    return reply;
+  }
+
+  write(data: string) {
+    this.socket.write(data);
+  }
+
+  async command(line: string, expected: number[], label: string = line.split(" ")[0]): Promise<SmtpReply> {
+    this.write(`${line}\r\n`);
+    return this.expect(expected, label);
+  }
+
+  async upgrade(options: tls.ConnectionOptions): Promise<void> {
+    this.detach();
+    const secureSocket = tls.connect({ ...options, socket: this.socket });
+    await once(secureSocket, "secureConnect");
+    this.attach(secureSocket);
+  }
+
+  close() {
+    this.detach();
+    this.socket.end();
+    this.socket.destroy();
+  }
+}
+
+function hasExtension(ehlo: SmtpReply, name: string): boolean {
+  return ehlo.lines.some((line) => line.toUpperCase().split(" ")[0] === name);
+}
+
+function authMechanisms(ehlo: SmtpReply): string[] {
+  const line = ehlo.lines.find((l) => l.toUpperCase().startsWith("AUTH"));
+  return line ? line.toUpperCase().split(/[\s=]+/).slice(1) : [];
+}
+
+export class SmtpTransport implements EmailTransport {
+  readonly name = "smtp" as const;
+
+  constructor(private readonly config: SmtpTransportConfig) {}
+
+  private async connect(): Promise<net.Socket> {
+    const { host, port, secure, tlsOptions } = this.config;
+
+    const socket = secure
+      ? tls.connect({ host, port, servername: host, ...tlsOptions })
+      : net.connect({ host, port });
+
+    const timeoutMs = this.config.timeoutMs || DEFAULT_TIMEOUT_MS;
+    socket.setTimeout(timeoutMs, () => {
+      socket.destroy(new Error(`Could not connect to ${host}:${port} within ${timeoutMs / 1000}s`));
+    });
+
+    await once(socket, secure ? "secureConnect" : "connect");
+    return socket;
+  }
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const { host, secure, user, password, requireTLS, ignoreTLS, tlsOptions } = this.config;
+    const clientName = this.config.clientName || "localhost";
+    const messageId = generateMessageId(message.from);
+
+    let connection: SmtpConnection | null = null;
+
+    try {
+      connection = new SmtpConnection(await this.connect(), this.config.timeoutMs || DEFAULT_TIMEOUT_MS);
+      await connection.expect([220], "greeting");
+
+      let ehlo = await connection.command(`EHLO ${clientName}`, [250]);
+
+      if (!secure && !ignoreTLS && hasExtension(ehlo, "STARTTLS")) {
+        await connection.command("STARTTLS", [220]);
+        await connection.upgrade({ servername: host, ...tlsOptions });
+        ehlo = await connection.command(`EHLO ${clientName}`, [250]);
+      } else if (!secure && requireTLS) {
+        throw new EmailTransportError("SMTP server does not offer STARTTLS", "smtp");
+      }
+
+      if (user) {
+        const mechanisms = authMechanisms(ehlo);
+        if (mechanisms.includes("PLAIN")) {
+          const token = Buffer.from(`\0${user}\0${password || ""}`).toString("base64");
+          await connection.command(`AUTH PLAIN ${token}`, [235], "AUTH");
+        } else if (mechanisms.includes("LOGIN")) {
+          await connection.command("AUTH LOGIN", [334], "AUTH");
+          await connection.command(Buffer.from(user).toString("base64"), [334], "AUTH");
+          await connection.command(Buffer.from(password || "").toString("base64"), [235], "AUTH");
+        } else {
+          throw new EmailTransportError("SMTP server offers no supported AUTH mechanism", "smtp");
+        }
+      }
+
+      await connection.command(`MAIL FROM:<${extractAddress(message.from)}>`, [250], "MAIL FROM");
+      for (const recipient of message.to) {
+        await connection.command(`RCPT TO:<${extractAddress(recipient)}>`, [250, 251], "RCPT TO");
+      }
+
+      await connection.command("DATA", [354]);
+
+      // Lines starting with "." are escaped so they can't end the message early
+      const body = buildMimeMessage(message, { messageId }).replace(/\r\n\./g, "\r\n..");
+      connection.write(`${body}\r\n.\r\n`);
+      await connection.expect([250], "message");
+
+      await connection.command("QUIT", [221]).catch(() => undefined);
+
+      return { messageId };
+    } catch (error) {
+      if (error instanceof EmailTransportError) throw error;
+      throw new EmailTransportError(
+        error instanceof Error ? error.message : "SMTP send failed",
+        "smtp"
+      );
+    } finally {
+      connection?.close();
+    }
+  }
+}
@@ -0,0 +1,353 @@
+/**
+ * Notification Email Templates
+ *
+ * Each template returns a subject plus matching plain-text and HTML bodies.
+ * Everything interpolated into HTML goes through escapeHtml.
+ */
+
+import type { DashboardStats } from "@/lib/dashboard-stats";
+import type { DisputeOutcome } from "@/types/database";
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface NewCallEmailData {
+  orgName: string;
+  callerName: string;
+  customerName?: string | null;
+  customerCompany?: string | null;
+  source: string;
+  callUrl: string;
+}
+
+export interface LowScoreEmailData {
+  orgName: string;
+  callerName: string;
+  customerName?: string | null;
+  score: number;
+  threshold: number;
+  summary?: string | null;
+  improvements: string[];
+  callUrl: string;
+}
+
+export interface DailyDigestEmailData {
+  orgName: string;
+  date: string; // YYYY-MM-DD the digest covers
+  stats: DashboardStats;
+  dashboardUrl: string;
+}
+
+export interface ScheduledReportEmailData {
+  orgName: string;
+  scheduleName: string;
+  reportName: string;
+  dateFrom: string;
+  dateTo: string;
+  summary: { label: string; value: string | number | null }[];
+  /** Link to the file when it was too large to attach */
+  downloadUrl?: string | null;
+  reportsUrl: string;
+}
+
+export interface UsageWarningEmailData {
+  orgName: string;
+  feature: string;
+  used: string;
+  limit: string;
+  percent: number;
+  usageUrl: string;
+}
+
+export interface DisputeResolvedEmailData {
+  orgName: string;
+  templateName: string;
+  resolverName: string;
+  outcome: DisputeOutcome;
+  rationale: string;
+  previousScore: number | null;
+  newScore: number | null;
+  /** One line per disputed criterion, e.g. "Greeting: 40 -> 80" */
+  changes: string[];
+  sessionUrl: string;
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// ============================================================================
+// LAYOUT
+// ============================================================================
+
+const FOOTER_TEXT = "You can change which emails you get under Settings > Notifications.";
+
+function layout(
+  orgName: string,
+  title: string,
+  content: string,
+  action?: { label: string; url: string },
+  footer: string = FOOTER_TEXT
+): string {
+  const button = action
+    ? `<p style="margin:24px 0 0"><a href="${escapeHtml(action.url)}" style="display:inline-block;padding:10px 18px;border-radius:8px;background:#4f46e5;color:#ffffff;text-decoration:none;font-weight:600">${escapeHtml(action.label)}</a></p>`
+    : "";
+
+  return `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#f4f4f5;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;color:#18181b">
+<div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:12px;padding:28px">
+<p style="margin:0 0 4px;font-size:12px;color:#71717a;text-transform:uppercase;letter-spacing:0.05em">${escapeHtml(orgName)}</p>
+<h1 style="margin:0 0 16px;font-size:20px">${escapeHtml(title)}</h1>
+${content}
+${button}
+</div>
+<p style="max-width:560px;margin:16px auto 0;font-size:12px;color:#a1a1aa;text-align:center">${escapeHtml(footer).replace(/ &gt; /g, " &rarr; ")}</p>
+</body>
+</html>`;
+}
+
+function row(label: string, value: string): string {
+  return `<tr><td style="padding:4px 12px 4px 0;color:#71717a">${escapeHtml(label)}</td><td style="padding:4px 0;font-weight:600">${escapeHtml(value)}</td></tr>`;
+}
+
+function formatCustomer(name?: string | null, company?: string | null): string | null {
+  if (name && company) return `${name} (${company})`;
+  return name || company || null;
+}
+
+// ============================================================================
+// TEMPLATES
+// ============================================================================
+
+export function renderNewCallEmail(data: NewCallEmailData): RenderedEmail {
+  const customer = formatCustomer(data.customerName, data.customerCompany);
+  const subject = `New call from ${data.callerName}`;
+
+  const details: [string, string][] = [
+    ["Caller", data.callerName],
+    ...(customer ? [["Customer", customer] as [string, string]] : []),
+    ["Source", data.source],
+  ];
+
+  return {
+    subject,
+    text: [
+      `${data.orgName}: ${subject}`,
+      "",
+      ...details.map(([label, value]) => `${label}: ${value}`),
+      "",
+      `View the call: ${data.callUrl}`,
+      "",
+      FOOTER_TEXT,
+    ].join("\n"),
+    html: layout(
+      data.orgName,
+      subject,
+      `<table style="border-collapse:collapse;font-size:14px">${details.map(([l, v]) => row(l, v)).join("")}</table>`,
+      { label: "View call", url: data.callUrl }
+    ),
+  };
+}
+
+export function renderLowScoreEmail(data: LowScoreEmailData): RenderedEmail {
+  const score = Math.round(data.score);
+  const customer = formatCustomer(data.customerName);
+  const subject = `Low score alert: ${data.callerName} scored ${score}`;
+  const improvements = data.improvements.slice(0, 3);
+
+  const details: [string, string][] = [
+    ["Caller", data.callerName],
+    ...(customer ? [["Customer", customer] as [string, string]] : []),
+    ["Score", `${score} (alert threshold ${data.threshold})`],
+  ];
+
+  const html = [
+    `<table style="border-collapse:collapse;font-size:14px">${details.map(([l, v]) => row(l, v)).join("")}</table>`,
+    data.summary ? `<p style="font-size:14px;line-height:1.5">${escapeHtml(data.summary)}</p>` : "",
+    improvements.length > 0
+      ? `<p style="margin:16px 0 4px;font-size:14px;font-weight:600">Areas to improve</p><ul style="margin:0;padding-left:20px;font-size:14px;line-height:1.5">${improvements.map((i) => `<li>${escapeHtml(i)}</li>`).join("")}</ul>`
+      : "",
+  ].join("\n");
+
+  return {
+    subject,
+    text: [
+      `${data.orgName}: ${subject}`,
+      "",
+      ...details.map(([label, value]) => `${label}: ${value}`),
+      ...(data.summary ? ["", data.summary] : []),
+      ...(improvements.length > 0 ? ["", "Areas to improve:", ...improvements.map((i) => `- ${i}`)] : []),
+      "",
+      `Review the call: ${data.callUrl}`,
+      "",
+      FOOTER_TEXT,
+    ].join("\n"),
+    html: layout(data.orgName, subject, html, { label: "Review call", url: data.callUrl }),
+  };
+}
+
+export function renderDailyDigestEmail(data: DailyDigestEmailData): RenderedEmail {
+  const { stats } = data;
+  const subject = `Daily digest for ${data.date}`;
+  const failed = stats.callsByStatus.failed || 0;
+
+  const details: [string, string][] = [
+    ["Calls", String(stats.totalCalls)],
+    ["Analyzed", String(stats.analyzedCalls)],
+    ...(failed > 0 ? [["Failed", String(failed)] as [string, string]] : []),
+    ["Average score", stats.analyzedCalls > 0 ? String(stats.averageScore) : "-"],
+    ["Top score", stats.analyzedCalls > 0 ? String(stats.topScore) : "-"],
+    ["Sessions awaiting scoring", String(stats.totalActiveSessionsCount)],
+  ];
+
+  const top = stats.recentScores.slice(0, 3);
+
+  const html = [
+    `<table style="border-collapse:collapse;font-size:14px">${details.map(([l, v]) => row(l, v)).join("")}</table>`,
+    top.length > 0
+      ? `<p style="margin:16px 0 4px;font-size:14px;font-weight:600">Top calls</p><ol style="margin:0;padding-left:20px;font-size:14px;line-height:1.5">${top.map((s) => `<li>${escapeHtml(s.callerName)} &mdash; ${Math.round(s.score)}</li>`).join("")}</ol>`
+      : "",
+  ].join("\n");
+
+  return {
+    subject,
+    text: [
+      `${data.orgName}: ${subject}`,
+      "",
+      ...details.map(([label, value]) => `${label}: ${value}`),
+      ...(top.length > 0
+        ? ["", "Top calls:", ...top.map((s, i) => `${i + 1}. ${s.callerName} - ${Math.round(s.score)}`)]
+        : []),
+      "",
+      `Open the dashboard: ${data.dashboardUrl}`,
+      "",
+      FOOTER_TEXT,
+    ].join("\n"),
+    html: layout(data.orgName, subject, html, { label: "Open dashboard", url: data.dashboardUrl }),
+  };
+}
+
+export function renderScheduledReportEmail(data: ScheduledReportEmailData): RenderedEmail {
+  const subject = `${data.scheduleName}: ${data.dateFrom} to ${data.dateTo}`;
+  const footer = "You get this report because an admin added you to its schedule under Reports.";
+
+  const details: [string, string][] = data.summary.map(({ label, value }) => [
+    label,
+    value === null ? "-" : String(value),
+  ]);
+
+  const delivery = data.downloadUrl
+    ? "The report was too large to attach. The download link below expires in 7 days."
+    : "The report is attached.";
+
+  const html = [
+    `<p style="margin:0 0 16px;font-size:14px;line-height:1.5">${escapeHtml(data.reportName)}. ${escapeHtml(delivery)}</p>`,
+    details.length > 0
+      ? `<table style="border-collapse:collapse;font-size:14px">${details.map(([l, v]) => row(l, v)).join("")}</table>`
+      : "",
+  ].join("\n");
+
+  return {
+    subject,
+    text: [
+      `${data.orgName}: ${subject}`,
+      "",
+      `${data.reportName}. ${delivery}`,
+      ...(details.length > 0 ? ["", ...details.map(([label, value]) => `${label}: ${value}`)] : []),
+      "",
+      data.downloadUrl ? `Download: ${data.downloadUrl}` : `All reports: ${data.reportsUrl}`,
+      "",
+      footer,
+    ].join("\n"),
+    html: layout(
+      data.orgName,
+      subject,
+      html,
+      data.downloadUrl
+        ? { label: "Download report", url: data.downloadUrl }
+        : { label: "Open reports", url: data.reportsUrl },
+      footer
+    ),
+  };
+}
+
+export function renderUsageWarningEmail(data: UsageWarningEmailData): RenderedEmail {
+  const subject = `${data.feature}: ${data.percent}% of your plan used`;
+  const footer = "Every admin gets usage warnings. They go out once per feature each billing period.";
+  const message =
+    "Once the limit is reached, further requests are refused until the next period starts or the plan is upgraded.";
+
+  const details: [string, string][] = [
+    ["Used", data.used],
+    ["Limit", data.limit],
+  ];
+
+  const html = [
+    `<p style="margin:0 0 16px;font-size:14px;line-height:1.5">${escapeHtml(message)}</p>`,
+    `<table style="border-collapse:collapse;font-size:14px">${details.map(([l, v]) => row(l, v)).join("")}</table>`,
+  ].join("\n");
+
+  return {
+    subject,
+    text: [
+      `${data.orgName}: ${subject}`,
+      "",
+      message,
+      "",
+      ...details.map(([label, value]) => `${label}: ${value}`),
+      "",
+      `See usage: ${data.usageUrl}`,
+      "",
+      footer,
+    ].join("\n"),
+    html: layout(data.orgName, subject, html, { label: "View usage", url: data.usageUrl }, footer),
+  };
+}
+
+export function renderDisputeResolvedEmail(data: DisputeResolvedEmailData): RenderedEmail {
+  const subject =
+    data.outcome === "amended"
+      ? `Your dispute on ${data.templateName} was resolved: scores amended`
+      : `Your dispute on ${data.templateName} was resolved: scores upheld`;
+  const footer = "You get this email whenever a dispute you raised is resolved.";
+  const formatScore = (score: number | null) => (score === null ? "-" : `${Math.round(score)}%`);
+
+  const details: [string, string][] = [
+    ["Resolved by", data.resolverName],
+    ["Score", `${formatScore(data.previousScore)} -> ${formatScore(data.newScore)}`],
+  ];
+
+  const html = [
+    `<table style="border-collapse:collapse;font-size:14px">${details.map(([l, v]) => row(l, v)).join("")}</table>`,
+    `<p style="font-size:14px;line-height:1.5">${escapeHtml(data.rationale)}</p>`,
+    data.changes.length > 0
+      ? `<p style="margin:16px 0 4px;font-size:14px;font-weight:600">Criteria</p><ul style="margin:0;padding-left:20px;font-size:14px;line-height:1.5">${data.changes.map((c) => `<li>${escapeHtml(c)}</li>`).join("")}</ul>`
+      : "",
+  ].join("\n");
+
+  return {
+    subject,
+    text: [
+      `${data.orgName}: ${subject}`,
+      "",
+      ...details.map(([label, value]) => `${label}: ${value}`),
+      "",
+      data.rationale,
+      ...(data.changes.length > 0 ? ["", "Criteria:", ...data.changes.map((c) => `- ${c}`)] : []),
+      "",
+      `View the session: ${data.sessionUrl}`,
+      "",
+      footer,
+    ].join("\n"),
+    html: layout(data.orgName, subject, html, { label: "View session", url: data.sessionUrl }, footer),
+  };
+}
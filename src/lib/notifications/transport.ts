@@ -0,0 +1,70 @@
+/**
+ * Email Transport Resolution
+ * Picks the transport configured through the environment (see index.ts).
+ */
+
+import { ConsoleTransport, FileTransport } from "./local";
+import { SmtpTransport } from "./smtp";
+import { EmailTransportError, type EmailTransport, type EmailTransportName } from "./types";
+
+export const EMAIL_TRANSPORTS: EmailTransportName[] = ["smtp", "file", "console"];
+
+const DEFAULT_EMAIL_FROM = "Kalyxi <no-reply@localhost>";
+const DEFAULT_EMAIL_FILE_DIR = ".emails";
+
+export function getEmailFrom(): string {
+  return process.env.EMAIL_FROM || DEFAULT_EMAIL_FROM;
+}
+
+/**
+ * Create a transport by name from environment configuration
+ */
+export function createEmailTransport(name: EmailTransportName): EmailTransport {
+  switch (name) {
+    case "smtp": {
+      const host = process.env.SMTP_HOST;
+      if (!host) {
+        throw new EmailTransportError("SMTP_HOST is not configured", "smtp");
+      }
+      const port = parseInt(process.env.SMTP_PORT || "587", 10);
+      return new SmtpTransport({
+        host,
+        port,
+        secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+        requireTLS: process.env.SMTP_REQUIRE_TLS === "true",
+      });
+    }
+
+    case "file":
+      return new FileTransport(process.env.EMAIL_FILE_DIR || DEFAULT_EMAIL_FILE_DIR);
+
+    case "console":
+      return new ConsoleTransport();
+
+    default:
+      throw new EmailTransportError(`Unknown email transport: ${name}`, name);
+  }
+}
+
+/**
+ * The transport notifications go out through, or null when email isn't
+ * configured (production without SMTP), in which case nothing is sent.
+ */
+export function resolveEmailTransport(): EmailTransport | null {
+  const configured = process.env.EMAIL_TRANSPORT as EmailTransportName | undefined;
+
+  if (configured) {
+    if (!EMAIL_TRANSPORTS.includes(configured)) {
+      throw new EmailTransportError(`Unknown email transport: ${configured}`, configured);
+    }
+    return createEmailTransport(configured);
+  }
+
+  if (process.env.SMTP_HOST) {
+    return createEmailTransport("smtp");
+  }
+
+  return process.env.NODE_ENV === "production" ? null : createEmailTransport("console");
+}
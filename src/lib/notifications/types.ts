@@ -0,0 +1,45 @@
+/**
+ * Email Transport Types
+ * Transport-neutral message shape used by the notification engine.
+ */
+
+export type EmailTransportName = "smtp" | "file" | "console";
+
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface EmailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+  html: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailSendResult {
+  messageId: string;
+}
+
+export interface EmailTransport {
+  readonly name: EmailTransportName;
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
+
+/**
+ * Error raised by any transport. `code` is the SMTP reply code when the
+ * server rejected the message.
+ */
+export class EmailTransportError extends Error {
+  constructor(
+    message: string,
+    public readonly transport: EmailTransportName,
+    public readonly code?: number
+  ) {
+    super(message);
+    this.name = "EmailTransportError";
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * OAuth State Signing
+ *
+ * HMAC-SHA256 signed `state` values for CSRF protection on OAuth flows,
+ * shared by the Google and Microsoft connectors. States expire after
+ * 10 minutes.
+ */
+
+import "server-only";
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+const STATE_MAX_AGE_MS = 10 * 60 * 1000;
+
+/**
+ * OAuth state payload (signed with HMAC)
+ */
+export interface OAuthStatePayload {
+  userId: string;
+  nonce: string;
+  timestamp: number;
+  redirectUrl?: string;
+}
+
+/**
+ * Build a fresh state payload for a user starting an OAuth flow.
+ */
+export function createStatePayload(userId: string, redirectUrl?: string): OAuthStatePayload {
+  return {
+    userId,
+    nonce: randomBytes(16).toString("hex"),
+    timestamp: Date.now(),
+    redirectUrl,
+  };
+}
+
+/**
+ * Sign an OAuth state payload with HMAC-SHA256.
+ *
+ * @param payload - State data to sign
+ * @param secret - HMAC secret
+ * @returns Signed state string (base64 JSON + signature)
+ */
+export function signOAuthState(payload: OAuthStatePayload, secret: string): string {
+  const payloadBase64 = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  const signature = createHmac("sha256", secret).update(payloadBase64).digest("base64url");
+
+  return `${payloadBase64}.${signature}`;
+}
+
+/**
+ * Verify and decode a signed OAuth state.
+ *
+ * @param state - The signed state string from OAuth callback
+ * @param secret - HMAC secret it was signed with
+ * @returns Decoded payload if valid
+ * @throws Error if signature is invalid, state is malformed or expired
+ */
+export function verifyOAuthState(state: string, secret: string): OAuthStatePayload {
+  const parts = state.split(".");
+  if (parts.length !== 2) {
+    throw new Error("Invalid state format: expected 2 parts separated by dot");
+  }
+
+  const [payloadBase64, providedSignature] = parts;
+
+  const expected = Buffer.from(
+    createHmac("sha256", secret).update(payloadBase64).digest("base64url")
+  );
+  const provided = Buffer.from(providedSignature);
+
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    throw new Error("Invalid state signature: CSRF protection failed");
+  }
+
+  let payload: OAuthStatePayload;
+  try {
+    payload = JSON.parse(Buffer.from(payloadBase64, "base64url").toString("utf8")) as OAuthStatePayload;
+  } catch {
+    throw new Error("Invalid state payload: failed to parse JSON");
+  }
+
+  if (!payload.userId || !payload.nonce || !payload.timestamp) {
+    throw new Error("Invalid state payload: missing required fields");
+  }
+
+  if (Date.now() - payload.timestamp > STATE_MAX_AGE_MS) {
+    throw new Error("State expired: OAuth flow took too long");
+  }
+
+  return payload;
+}
@@ -1,25 +1,82 @@
 import OpenAI from "openai";
 
-export const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+// Lazy initialization to avoid import-time errors when OPENAI_API_KEY is not set
+let openaiClient: OpenAI | null = null;
 
-export async function transcribeAudio(audioBuffer: Buffer, filename: string): Promise<string> {
+export function getOpenAIClient(): OpenAI {
+  if (!openaiClient) {
+    openaiClient = new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+    });
+  }
+  return openaiClient;
+}
+
+// Diarizing model labels speakers A, B, ...; override for self-hosted or cheaper models
+const TRANSCRIPTION_MODEL = process.env.TRANSCRIPTION_MODEL || "gpt-4o-transcribe-diarize";
+
+export interface TranscriptSegment {
+  speaker: string | null;
+  start: number; // Seconds from start of the audio
+  end: number;
+  text: string;
+}
+
+export interface AudioTranscription {
+  text: string;
+  segments: TranscriptSegment[];
+  duration: number | null;
+  model: string;
+}
+
+export async function transcribeAudio(
+  audioBuffer: Buffer,
+  filename: string,
+  mimeType: string = "audio/mpeg"
+): Promise<AudioTranscription> {
   const uint8Array = new Uint8Array(audioBuffer);
-  const blob = new Blob([uint8Array], { type: "audio/mp3" });
-  const file = new File([blob], filename, { type: "audio/mp3" });
+  const blob = new Blob([uint8Array], { type: mimeType });
+  const file = new File([blob], filename, { type: mimeType });
+
+  if (TRANSCRIPTION_MODEL.includes("diarize")) {
+    // The SDK's overloads don't narrow diarized_json responses
+    const transcription = (await getOpenAIClient().audio.transcriptions.create({
+      file,
+      model: TRANSCRIPTION_MODEL,
+      response_format: "diarized_json",
+      chunking_strategy: "auto",
+    })) as unknown as OpenAI.Audio.TranscriptionDiarized;
+
+    return {
+      text: transcription.text,
+      segments: transcription.segments.map((segment) => ({
+        speaker: segment.speaker,
+        start: segment.start,
+        end: segment.end,
+        text: segment.text.trim(),
+      })),
+      duration: transcription.duration ?? null,
+      model: TRANSCRIPTION_MODEL,
+    };
+  }
 
-  const transcription = await openai.audio.transcriptions.create({
+  // Models without diarization return plain text
+  const transcription = await getOpenAIClient().audio.transcriptions.create({
     file,
-    model: "whisper-1",
-    response_format: "text",
+    model: TRANSCRIPTION_MODEL,
+    response_format: "json",
   });
 
-  return transcription;
+  return {
+    text: transcription.text,
+    segments: [],
+    duration: null,
+    model: TRANSCRIPTION_MODEL,
+  };
 }
 
 export async function analyzeCall(transcription: string): Promise<CallAnalysis> {
-  const response = await openai.chat.completions.create({
+  const response = await getOpenAIClient().chat.completions.create({
     model: "gpt-4-turbo-preview",
     messages: [
       {
@@ -1,6 +1,8 @@
 import { createClient } from "@/lib/supabase/server";
 import type { PlanLimits, PlanLimitCheck, PlanTier } from "@/types/analytics";
 
+const GB = 1024 * 1024 * 1024;
+
 // Default plan limits
 export const PLAN_LIMITS: Record<PlanTier, PlanLimits> = {
   free: {
@@ -8,6 +10,9 @@ export const PLAN_LIMITS: Record<PlanTier, PlanLimits> = {
     max_calls_per_month: 100,
     max_templates: 3,
     max_sessions_per_month: 50,
+    max_ai_analyses_per_month: 0,
+    max_storage_bytes: 1 * GB,
+    max_api_calls_per_month: 0,
     ai_analysis_enabled: false,
     calendar_sync_enabled: false,
     export_enabled: false,
@@ -20,6 +25,9 @@ export const PLAN_LIMITS: Record<PlanTier, PlanLimits> = {
     max_calls_per_month: 500,
     max_templates: 10,
     max_sessions_per_month: 200,
+    max_ai_analyses_per_month: 500,
+    max_storage_bytes: 10 * GB,
+    max_api_calls_per_month: 0,
     ai_analysis_enabled: true,
     calendar_sync_enabled: true,
     export_enabled: true,
@@ -32,6 +40,9 @@ export const PLAN_LIMITS: Record<PlanTier, PlanLimits> = {
     max_calls_per_month: 2000,
     max_templates: -1, // Unlimited
     max_sessions_per_month: -1, // Unlimited
+    max_ai_analyses_per_month: 2000,
+    max_storage_bytes: 100 * GB,
+    max_api_calls_per_month: 100000,
     ai_analysis_enabled: true,
     calendar_sync_enabled: true,
     export_enabled: true,
@@ -44,6 +55,9 @@ export const PLAN_LIMITS: Record<PlanTier, PlanLimits> = {
     max_calls_per_month: -1, // Unlimited
     max_templates: -1, // Unlimited
     max_sessions_per_month: -1, // Unlimited
+    max_ai_analyses_per_month: -1, // Unlimited
+    max_storage_bytes: -1, // Unlimited
+    max_api_calls_per_month: -1, // Unlimited
     ai_analysis_enabled: true,
     calendar_sync_enabled: true,
     export_enabled: true,
@@ -54,8 +68,11 @@ export const PLAN_LIMITS: Record<PlanTier, PlanLimits> = {
 };
 
 // Get organization plan limits
-export async function getOrgPlanLimits(orgId: string): Promise<PlanLimits> {
-  const supabase = await createClient();
+export async function getOrgPlanLimits(
+  orgId: string,
+  client?: Awaited<ReturnType<typeof createClient>>
+): Promise<PlanLimits> {
+  const supabase = client ?? (await createClient());
 
   const { data: org } = await supabase
     .from("organizations")
@@ -67,13 +84,16 @@ export async function getOrgPlanLimits(orgId: string): Promise<PlanLimits> {
     return PLAN_LIMITS.free;
   }
 
-  // Use custom plan_limits if set, otherwise use default for plan tier
+  const plan = (org.plan || "free") as PlanTier;
+  const defaults = PLAN_LIMITS[plan] || PLAN_LIMITS.free;
+
+  // Custom plan_limits win, but limits added since they were saved fall
+  // back to the tier default
   if (org.plan_limits) {
-    return org.plan_limits as PlanLimits;
+    return { ...defaults, ...(org.plan_limits as Partial<PlanLimits>) };
   }
 
-  const plan = (org.plan || "free") as PlanTier;
-  return PLAN_LIMITS[plan] || PLAN_LIMITS.free;
+  return defaults;
 }
 
 // Check if a feature is enabled for an organization
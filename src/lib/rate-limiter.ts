@@ -176,10 +176,12 @@ export const RATE_LIMITS = {
   auth: { limit: 10, windowMs: 60 * 1000 }, // 10 per minute
   register: { limit: 5, windowMs: 60 * 1000 }, // 5 per minute
   passwordReset: { limit: 3, windowMs: 60 * 1000 }, // 3 per minute
+  mfaChallenge: { limit: 5, windowMs: 5 * 60 * 1000 }, // 5 codes per 5 minutes
 
   // API endpoints - standard limits
   api: { limit: 100, windowMs: 60 * 1000 }, // 100 per minute
   apiWrite: { limit: 50, windowMs: 60 * 1000 }, // 50 writes per minute
+  apiKey: { limit: 120, windowMs: 60 * 1000 }, // per org API key unless the key sets its own
 
   // Webhook endpoints - higher limits
   webhook: { limit: 200, windowMs: 60 * 1000 }, // 200 per minute
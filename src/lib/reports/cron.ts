@@ -0,0 +1,185 @@
+/**
+ * Cron Expressions
+ *
+ * Standard five-field cron (minute hour day-of-month month day-of-week)
+ * evaluated in a time zone, for report schedules. Supports *, lists,
+ * ranges and steps, plus month and weekday names. As in Vixie cron, when
+ * both day fields are restricted a day matches if either does.
+ */
+
+import { addDays, formatZonedDate, fromZonedTime, toZonedTime } from "./timezone";
+
+export class CronExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CronExpressionError";
+  }
+}
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** False when the field was "*" */
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  namesStartAt?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: MONTH_NAMES, namesStartAt: 1 },
+  // 7 is accepted as Sunday and folded to 0
+  { name: "day of week", min: 0, max: 7, names: DAY_NAMES, namesStartAt: 0 },
+];
+
+// Far enough to reach any valid expression (Feb 29 every four years)
+const MAX_SEARCH_DAYS = 366 * 5;
+
+function parseValue(value: string, spec: FieldSpec): number {
+  const named = spec.names?.indexOf(value.toLowerCase()) ?? -1;
+  if (named >= 0) return named + (spec.namesStartAt || 0);
+
+  if (!/^\d+$/.test(value)) {
+    throw new CronExpressionError(`Invalid ${spec.name} value "${value}"`);
+  }
+
+  const number = parseInt(value, 10);
+  if (number < spec.min || number > spec.max) {
+    throw new CronExpressionError(`${spec.name} must be between ${spec.min} and ${spec.max}`);
+  }
+  return number;
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+
+    if (stepText !== undefined && (!/^\d+$/.test(stepText) || step < 1)) {
+      throw new CronExpressionError(`Invalid ${spec.name} step "${stepText}"`);
+    }
+
+    let start: number;
+    let end: number;
+
+    if (range === "*") {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (start > end) {
+        throw new CronExpressionError(`Invalid ${spec.name} range "${range}"`);
+      }
+    } else {
+      start = parseValue(range, spec);
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : spec.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a five-field cron expression
+ *
+ * @throws CronExpressionError if the expression is invalid
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new CronExpressionError("Cron expressions need five fields: minute hour day month weekday");
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) =>
+    parseField(field, FIELDS[i])
+  );
+
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: fields[2] !== "*",
+    dayOfWeekRestricted: fields[4] !== "*",
+  };
+}
+
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesDay(schedule: CronSchedule, dayOfMonth: number, dayOfWeek: number): boolean {
+  const domMatch = schedule.daysOfMonth.has(dayOfMonth);
+  const dowMatch = schedule.daysOfWeek.has(dayOfWeek);
+
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+/**
+ * The first time strictly after `after` that the expression fires, as wall
+ * clock time in `timeZone`
+ *
+ * @throws CronExpressionError if the expression is invalid or never fires
+ */
+export function getNextCronRun(expression: string, after: Date, timeZone: string): Date {
+  const schedule = parseCronExpression(expression);
+  const minutes = [...schedule.minutes].sort((a, b) => a - b);
+  const hours = [...schedule.hours].sort((a, b) => a - b);
+
+  let date = formatZonedDate(toZonedTime(after, timeZone));
+
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++, date = addDays(date, 1)) {
+    const [year, month, day] = date.split("-").map((part) => parseInt(part, 10));
+    const weekday = new Date(`${date}T00:00:00.000Z`).getUTCDay();
+
+    if (!schedule.months.has(month) || !matchesDay(schedule, day, weekday)) {
+      continue;
+    }
+
+    for (const hour of hours) {
+      for (const minute of minutes) {
+        const run = fromZonedTime({ year, month, day, hour, minute }, timeZone);
+        if (run.getTime() > after.getTime()) {
+          return run;
+        }
+      }
+    }
+  }
+
+  throw new CronExpressionError("Cron expression never fires");
+}
@@ -0,0 +1,40 @@
+/**
+ * CSV Export
+ *
+ * RFC 4180 quoting, CRLF line endings and a UTF-8 BOM so Excel opens
+ * non-ASCII names correctly. Text that a spreadsheet would run as a
+ * formula is prefixed with a quote.
+ */
+
+import type { ReportCell, ReportDocument } from "./types";
+
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export function formatCsvCell(value: ReportCell): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "number") return Number.isFinite(value) ? String(value) : "";
+
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvRow(cells: ReportCell[]): string {
+  return cells.map(formatCsvCell).join(",");
+}
+
+export function renderCsv(report: ReportDocument): Buffer {
+  const lines: string[] = [
+    csvRow([report.title]),
+    csvRow(["Organization", report.orgName]),
+    csvRow(["Period", `${report.dateFrom} to ${report.dateTo}`]),
+    csvRow(["Generated", report.generatedAt]),
+    "",
+    ...report.summary.map((item) => csvRow([item.label, item.value])),
+  ];
+
+  for (const table of report.tables) {
+    lines.push("", csvRow([table.title]), csvRow(table.columns), ...table.rows.map(csvRow));
+  }
+
+  return Buffer.from(`\uFEFF${lines.join("\r\n")}\r\n`, "utf8");
+}
@@ -0,0 +1,534 @@
+/**
+ * Report Data
+ *
+ * Builds the ReportDocument for each report type from coaching sessions,
+ * their criterion scores and AI call scores (call_score_results) over an
+ * inclusive date range. Sessions are placed by created_at and AI scores by
+ * scored_at, matching the analytics pages.
+ */
+
+import { createClient } from "@/lib/supabase/server";
+import type { SessionStatus, PassStatus } from "@/types/database";
+import type { ReportCell, ReportDocument, ReportParameters, ReportTable, ReportType } from "./types";
+import { addDays, fromZonedTime, resolveTimeZone } from "./timezone";
+
+type Client = Awaited<ReturnType<typeof createClient>>;
+
+export const REPORT_TITLES: Record<ReportType, string> = {
+  team_performance: "Team Performance Report",
+  caller: "Caller Report",
+  template: "Template Report",
+};
+
+export class ReportDataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReportDataError";
+  }
+}
+
+// ============================================================================
+// AGGREGATION
+// ============================================================================
+
+export interface ReportSession {
+  id: string;
+  template_id: string;
+  agent_id?: string | null;
+  coach_id?: string | null;
+  status: SessionStatus;
+  percentage_score?: number | null;
+  pass_status?: PassStatus | null;
+  has_auto_fail?: boolean | null;
+  created_at: string;
+  completed_at?: string | null;
+}
+
+export interface ReportScore {
+  session_id: string;
+  criteria_id: string;
+  normalized_score?: number | null;
+  is_na?: boolean | null;
+  is_auto_fail_triggered?: boolean | null;
+}
+
+export interface ReportCallScore {
+  call_id: string;
+  percentage_score: number;
+  scored_at: string;
+  caller_id: string | null;
+  customer_name?: string | null;
+}
+
+export interface SessionSummary {
+  total: number;
+  completed: number;
+  averageScore: number | null;
+  passRate: number | null;
+  autoFails: number;
+}
+
+const COMPLETED_STATUSES: SessionStatus[] = ["completed", "reviewed", "disputed"];
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? round1(values.reduce((a, b) => a + b, 0) / values.length) : null;
+}
+
+export function summarizeSessions(sessions: ReportSession[]): SessionSummary {
+  const completed = sessions.filter((s) => COMPLETED_STATUSES.includes(s.status));
+  const scored = completed
+    .map((s) => s.percentage_score)
+    .filter((score): score is number => typeof score === "number");
+  const decided = completed.filter((s) => s.pass_status === "pass" || s.pass_status === "fail");
+
+  return {
+    total: sessions.length,
+    completed: completed.length,
+    averageScore: average(scored),
+    passRate: decided.length > 0
+      ? round1((decided.filter((s) => s.pass_status === "pass").length / decided.length) * 100)
+      : null,
+    autoFails: completed.filter((s) => s.has_auto_fail).length,
+  };
+}
+
+export function groupBy<T>(items: T[], key: (item: T) => string | null | undefined): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    if (!k) continue;
+    const group = groups.get(k);
+    if (group) group.push(item);
+    else groups.set(k, [item]);
+  }
+  return groups;
+}
+
+export interface CriterionSummary {
+  criteriaId: string;
+  timesScored: number;
+  averageScore: number | null;
+  autoFails: number;
+}
+
+/** Average normalized score per criterion, ignoring N/A answers */
+export function summarizeCriteria(scores: ReportScore[]): CriterionSummary[] {
+  return [...groupBy(scores, (s) => s.criteria_id).entries()].map(([criteriaId, group]) => {
+    const values = group
+      .filter((s) => !s.is_na)
+      .map((s) => s.normalized_score)
+      .filter((v): v is number => typeof v === "number");
+    return {
+      criteriaId,
+      timesScored: values.length,
+      averageScore: average(values),
+      autoFails: group.filter((s) => s.is_auto_fail_triggered).length,
+    };
+  });
+}
+
+export const SCORE_RANGES = [
+  { range: "0-20", min: 0, max: 20 },
+  { range: "21-40", min: 20, max: 40 },
+  { range: "41-60", min: 40, max: 60 },
+  { range: "61-80", min: 60, max: 80 },
+  { range: "81-100", min: 80, max: 100 },
+];
+
+export function scoreDistribution(scores: number[]): { range: string; count: number }[] {
+  return SCORE_RANGES.map(({ range, min, max }) => ({
+    range,
+    count: scores.filter((score) => (min === 0 ? score >= 0 : score > min) && score <= max).length,
+  }));
+}
+
+function dateOnly(timestamp: string | null | undefined): string | null {
+  return timestamp ? timestamp.slice(0, 10) : null;
+}
+
+function byNumberDesc(index: number) {
+  return (a: ReportCell[], b: ReportCell[]) => ((b[index] as number) ?? -1) - ((a[index] as number) ?? -1);
+}
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+interface RangeBounds {
+  from: string;
+  to: string;
+}
+
+// Inclusive dates to timestamp bounds (end is the start of the next day in the zone)
+export function rangeBounds(dateFrom: string, dateTo: string, timeZone: string = "UTC"): RangeBounds {
+  const midnight = (date: string) => {
+    const [year, month, day] = date.split("-").map((part) => parseInt(part, 10));
+    return fromZonedTime({ year, month, day, hour: 0, minute: 0 }, timeZone).toISOString();
+  };
+  return { from: midnight(dateFrom), to: midnight(addDays(dateTo, 1)) };
+}
+
+async function loadSessions(
+  supabase: Client,
+  orgId: string,
+  bounds: RangeBounds,
+  filters: { agentId?: string; templateId?: string }
+): Promise<ReportSession[]> {
+  let query = supabase
+    .from("sessions")
+    .select("id, template_id, agent_id, coach_id, status, percentage_score, pass_status, has_auto_fail, created_at, completed_at")
+    .eq("org_id", orgId)
+    .neq("status", "cancelled")
+    .gte("created_at", bounds.from)
+    .lt("created_at", bounds.to)
+    .order("created_at", { ascending: false });
+
+  if (filters.agentId) query = query.eq("agent_id", filters.agentId);
+  if (filters.templateId) query = query.eq("template_id", filters.templateId);
+
+  const { data, error } = await query;
+  if (error) throw new ReportDataError(`Failed to load sessions: ${error.message}`);
+  return data || [];
+}
+
+async function loadScores(supabase: Client, sessionIds: string[]): Promise<ReportScore[]> {
+  if (sessionIds.length === 0) return [];
+
+  const scores: ReportScore[] = [];
+  // Keep the id list in the URL to a sane size
+  for (let i = 0; i < sessionIds.length; i += 200) {
+    const { data, error } = await supabase
+      .from("scores")
+      .select("session_id, criteria_id, normalized_score, is_na, is_auto_fail_triggered")
+      .in("session_id", sessionIds.slice(i, i + 200));
+    if (error) throw new ReportDataError(`Failed to load scores: ${error.message}`);
+    scores.push(...(data || []));
+  }
+  return scores;
+}
+
+async function loadCallScores(
+  supabase: Client,
+  orgId: string,
+  bounds: RangeBounds,
+  callerIds?: string[]
+): Promise<ReportCallScore[]> {
+  if (callerIds && callerIds.length === 0) return [];
+
+  let query = supabase
+    .from("call_score_results")
+    .select("call_id, percentage_score, scored_at, call:calls!inner(caller_id, customer_name)")
+    .eq("org_id", orgId)
+    .gte("scored_at", bounds.from)
+    .lt("scored_at", bounds.to)
+    .order("scored_at", { ascending: false });
+
+  if (callerIds) query = query.in("call.caller_id", callerIds);
+
+  const { data, error } = await query;
+  if (error) throw new ReportDataError(`Failed to load call scores: ${error.message}`);
+
+  return (data || []).map((row: {
+    call_id: string;
+    percentage_score: number;
+    scored_at: string;
+    call: { caller_id: string | null; customer_name: string | null } | { caller_id: string | null; customer_name: string | null }[] | null;
+  }) => {
+    const call = Array.isArray(row.call) ? row.call[0] : row.call;
+    return {
+      call_id: row.call_id,
+      percentage_score: Number(row.percentage_score),
+      scored_at: row.scored_at,
+      caller_id: call?.caller_id || null,
+      customer_name: call?.customer_name || null,
+    };
+  });
+}
+
+async function loadNames(supabase: Client, table: "users" | "templates" | "callers" | "criteria", ids: string[]) {
+  const unique = [...new Set(ids.filter(Boolean))];
+  if (unique.length === 0) return new Map<string, string>();
+
+  const { data } = await supabase.from(table).select("id, name").in("id", unique);
+  return new Map<string, string>((data || []).map((row: { id: string; name: string | null }) => [row.id, row.name || "Unknown"]));
+}
+
+// ============================================================================
+// REPORTS
+// ============================================================================
+
+function sessionSummaryItems(summary: SessionSummary): ReportDocument["summary"] {
+  return [
+    { label: "Sessions", value: summary.total },
+    { label: "Completed", value: summary.completed },
+    { label: "Average score (%)", value: summary.averageScore },
+    { label: "Pass rate (%)", value: summary.passRate },
+    { label: "Auto-fails", value: summary.autoFails },
+  ];
+}
+
+function callScoreItems(callScores: ReportCallScore[]): ReportDocument["summary"] {
+  return [
+    { label: "AI-scored calls", value: callScores.length },
+    { label: "Average AI score (%)", value: average(callScores.map((c) => c.percentage_score)) },
+  ];
+}
+
+function criteriaTable(scores: ReportScore[], criteriaNames: Map<string, string>): ReportTable {
+  return {
+    title: "Criteria",
+    columns: ["Criterion", "Times Scored", "Avg Score (%)", "Auto-fails"],
+    rows: summarizeCriteria(scores)
+      .map((c): ReportCell[] => [
+        criteriaNames.get(c.criteriaId) || "Deleted criterion",
+        c.timesScored,
+        c.averageScore,
+        c.autoFails,
+      ])
+      .sort(byNumberDesc(1)),
+  };
+}
+
+async function buildTeamPerformance(
+  supabase: Client,
+  orgId: string,
+  params: ReportParameters,
+  bounds: RangeBounds
+): Promise<Pick<ReportDocument, "summary" | "tables">> {
+  const sessions = await loadSessions(supabase, orgId, bounds, { templateId: params.templateId });
+  const callScores = await loadCallScores(supabase, orgId, bounds);
+
+  const [agents, templates, callers] = await Promise.all([
+    loadNames(supabase, "users", sessions.map((s) => s.agent_id || "")),
+    loadNames(supabase, "templates", sessions.map((s) => s.template_id)),
+    loadNames(supabase, "callers", callScores.map((c) => c.caller_id || "")),
+  ]);
+
+  const agentRows = [...groupBy(sessions, (s) => s.agent_id).entries()].map(([agentId, group]): ReportCell[] => {
+    const summary = summarizeSessions(group);
+    return [
+      agents.get(agentId) || "Unknown",
+      summary.total,
+      summary.completed,
+      summary.averageScore,
+      summary.passRate,
+      summary.autoFails,
+      dateOnly(group[0]?.created_at),
+    ];
+  });
+
+  const templateRows = [...groupBy(sessions, (s) => s.template_id).entries()].map(([templateId, group]): ReportCell[] => {
+    const summary = summarizeSessions(group);
+    return [templates.get(templateId) || "Deleted template", summary.total, summary.averageScore, summary.passRate];
+  });
+
+  const callerRows = [...groupBy(callScores, (c) => c.caller_id).entries()].map(([callerId, group]): ReportCell[] => {
+    const values = group.map((c) => c.percentage_score);
+    return [
+      callers.get(callerId) || "Unknown",
+      group.length,
+      average(values),
+      round1(Math.max(...values)),
+      round1(Math.min(...values)),
+    ];
+  });
+
+  return {
+    summary: [...sessionSummaryItems(summarizeSessions(sessions)), ...callScoreItems(callScores)],
+    tables: [
+      {
+        title: "Agent Performance",
+        columns: ["Agent", "Sessions", "Completed", "Avg Score (%)", "Pass Rate (%)", "Auto-fails", "Last Session"],
+        rows: agentRows.sort(byNumberDesc(3)),
+      },
+      {
+        title: "Templates",
+        columns: ["Template", "Sessions", "Avg Score (%)", "Pass Rate (%)"],
+        rows: templateRows.sort(byNumberDesc(1)),
+      },
+      {
+        title: "AI Call Scores",
+        columns: ["Caller", "Scored Calls", "Avg Score (%)", "Highest (%)", "Lowest (%)"],
+        rows: callerRows.sort(byNumberDesc(2)),
+      },
+    ],
+  };
+}
+
+async function buildCallerReport(
+  supabase: Client,
+  orgId: string,
+  params: ReportParameters,
+  bounds: RangeBounds
+): Promise<Pick<ReportDocument, "summary" | "tables"> & { subject: string }> {
+  const { data: agent } = await supabase
+    .from("users")
+    .select("id, name, email")
+    .eq("id", params.agentId!)
+    .eq("org_id", orgId)
+    .single();
+
+  if (!agent) throw new ReportDataError("Caller not found");
+
+  const sessions = await loadSessions(supabase, orgId, bounds, {
+    agentId: agent.id,
+    templateId: params.templateId,
+  });
+  const scores = await loadScores(supabase, sessions.map((s) => s.id));
+
+  // AI scores come from the caller records linked to this user
+  const { data: callerRecords } = await supabase
+    .from("callers")
+    .select("id")
+    .eq("org_id", orgId)
+    .eq("user_id", agent.id);
+  const callScores = await loadCallScores(
+    supabase,
+    orgId,
+    bounds,
+    (callerRecords || []).map((c: { id: string }) => c.id)
+  );
+
+  const [templates, coaches, criteria] = await Promise.all([
+    loadNames(supabase, "templates", sessions.map((s) => s.template_id)),
+    loadNames(supabase, "users", sessions.map((s) => s.coach_id || "")),
+    loadNames(supabase, "criteria", scores.map((s) => s.criteria_id)),
+  ]);
+
+  const subject = agent.name || agent.email;
+
+  return {
+    subject,
+    summary: [
+      { label: "Caller", value: subject },
+      ...sessionSummaryItems(summarizeSessions(sessions)),
+      ...callScoreItems(callScores),
+    ],
+    tables: [
+      {
+        title: "Sessions",
+        columns: ["Date", "Template", "Coach", "Status", "Score (%)", "Result"],
+        rows: sessions.map((s): ReportCell[] => [
+          dateOnly(s.created_at),
+          templates.get(s.template_id) || "Deleted template",
+          s.coach_id ? coaches.get(s.coach_id) || "Unknown" : null,
+          s.status,
+          s.percentage_score ?? null,
+          s.pass_status && s.pass_status !== "pending" ? s.pass_status : null,
+        ]),
+      },
+      criteriaTable(scores, criteria),
+      {
+        title: "AI Call Scores",
+        columns: ["Date", "Customer", "Score (%)"],
+        rows: callScores.map((c): ReportCell[] => [dateOnly(c.scored_at), c.customer_name || null, round1(c.percentage_score)]),
+      },
+    ],
+  };
+}
+
+async function buildTemplateReport(
+  supabase: Client,
+  orgId: string,
+  params: ReportParameters,
+  bounds: RangeBounds
+): Promise<Pick<ReportDocument, "summary" | "tables"> & { subject: string }> {
+  const { data: template } = await supabase
+    .from("templates")
+    .select("id, name, pass_threshold")
+    .eq("id", params.templateId!)
+    .eq("org_id", orgId)
+    .single();
+
+  if (!template) throw new ReportDataError("Template not found");
+
+  const sessions = await loadSessions(supabase, orgId, bounds, { templateId: template.id });
+  const scores = await loadScores(supabase, sessions.map((s) => s.id));
+
+  const [agents, criteria] = await Promise.all([
+    loadNames(supabase, "users", sessions.map((s) => s.agent_id || "")),
+    loadNames(supabase, "criteria", scores.map((s) => s.criteria_id)),
+  ]);
+
+  const agentRows = [...groupBy(sessions, (s) => s.agent_id).entries()].map(([agentId, group]): ReportCell[] => {
+    const summary = summarizeSessions(group);
+    return [agents.get(agentId) || "Unknown", summary.total, summary.averageScore, summary.passRate, summary.autoFails];
+  });
+
+  const completedScores = sessions
+    .filter((s) => COMPLETED_STATUSES.includes(s.status))
+    .map((s) => s.percentage_score)
+    .filter((score): score is number => typeof score === "number");
+
+  return {
+    subject: template.name,
+    summary: [
+      { label: "Template", value: template.name },
+      { label: "Pass threshold (%)", value: template.pass_threshold ?? null },
+      ...sessionSummaryItems(summarizeSessions(sessions)),
+    ],
+    tables: [
+      {
+        title: "Agents",
+        columns: ["Agent", "Sessions", "Avg Score (%)", "Pass Rate (%)", "Auto-fails"],
+        rows: agentRows.sort(byNumberDesc(2)),
+      },
+      criteriaTable(scores, criteria),
+      {
+        title: "Score Distribution",
+        columns: ["Score Range", "Sessions"],
+        rows: scoreDistribution(completedScores).map((bucket): ReportCell[] => [bucket.range, bucket.count]),
+      },
+    ],
+  };
+}
+
+/**
+ * Load and aggregate everything a report needs
+ *
+ * @throws ReportDataError when the caller or template doesn't exist or a query fails
+ */
+export async function buildReportDocument(
+  supabase: Client,
+  orgId: string,
+  params: ReportParameters,
+  options: { now?: Date } = {}
+): Promise<ReportDocument> {
+  const { data: org } = await supabase.from("organizations").select("name").eq("id", orgId).single();
+  const bounds = rangeBounds(params.dateFrom, params.dateTo, resolveTimeZone(params.timeZone));
+
+  let title = REPORT_TITLES[params.type];
+  let content: Pick<ReportDocument, "summary" | "tables">;
+
+  switch (params.type) {
+    case "caller": {
+      const report = await buildCallerReport(supabase, orgId, params, bounds);
+      title = `${title}: ${report.subject}`;
+      content = report;
+      break;
+    }
+    case "template": {
+      const report = await buildTemplateReport(supabase, orgId, params, bounds);
+      title = `${title}: ${report.subject}`;
+      content = report;
+      break;
+    }
+    case "team_performance":
+    default:
+      content = await buildTeamPerformance(supabase, orgId, params, bounds);
+  }
+
+  return {
+    title,
+    orgName: org?.name || "",
+    dateFrom: params.dateFrom,
+    dateTo: params.dateTo,
+    generatedAt: (options.now || new Date()).toISOString().replace("T", " ").slice(0, 16) + " UTC",
+    summary: content.summary,
+    tables: content.tables,
+  };
+}
@@ -0,0 +1,223 @@
+/**
+ * Reports
+ *
+ * Generates team performance, caller and template reports, renders them as
+ * PDF, CSV or XLSX and stores the file in the private "reports" bucket.
+ * Every report gets a report_exports row so the reports page can list the
+ * history and hand out signed download links.
+ *
+ * Exporting is a plan feature (export_enabled); callers check canUseExport
+ * before generating. Stored files count toward the org's storage limit.
+ */
+
+import { createClient, createAdminClient } from "@/lib/supabase/server";
+import type { ReportExport } from "@/types/database";
+import { consumeUsage, releaseUsage } from "@/lib/usage";
+import { buildReportDocument, REPORT_TITLES } from "./data";
+import { renderCsv } from "./csv";
+import { renderPdf } from "./pdf";
+import { renderXlsx } from "./xlsx";
+import type { RenderedReport, ReportDocument, ReportFormat, ReportParameters } from "./types";
+
+export * from "./types";
+export {
+  buildReportDocument,
+  summarizeSessions,
+  summarizeCriteria,
+  scoreDistribution,
+  rangeBounds,
+  ReportDataError,
+  REPORT_TITLES,
+} from "./data";
+export { renderCsv, formatCsvCell } from "./csv";
+export { renderPdf } from "./pdf";
+export { renderXlsx } from "./xlsx";
+export { getNextCronRun, isValidCronExpression, parseCronExpression, CronExpressionError } from "./cron";
+export { isValidTimeZone, resolveTimeZone } from "./timezone";
+
+type Client = Awaited<ReturnType<typeof createClient>>;
+
+export const REPORTS_BUCKET = "reports";
+
+// Long enough to start a download, short enough that a leaked link dies fast
+const DOWNLOAD_URL_TTL_SECONDS = 60;
+
+const CONTENT_TYPES: Record<ReportFormat, string> = {
+  pdf: "application/pdf",
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+export function renderReport(report: ReportDocument, format: ReportFormat): RenderedReport {
+  const body =
+    format === "pdf" ? renderPdf(report) : format === "xlsx" ? renderXlsx(report) : renderCsv(report);
+  return { body, contentType: CONTENT_TYPES[format], extension: format };
+}
+
+/** e.g. "Team Performance Report 2026-01-01 to 2026-01-31" */
+export function defaultReportName(title: string, params: Pick<ReportParameters, "dateFrom" | "dateTo">): string {
+  return `${title} ${params.dateFrom} to ${params.dateTo}`.slice(0, 255);
+}
+
+/** File name offered on download */
+export function reportFileName(report: Pick<ReportExport, "name" | "format">): string {
+  const base = report.name
+    .replace(/[^A-Za-z0-9._ -]+/g, "")
+    .trim()
+    .replace(/\s+/g, "-")
+    .toLowerCase();
+  return `${base || "report"}.${report.format}`;
+}
+
+export interface GenerateReportOptions {
+  orgId: string;
+  params: ReportParameters;
+  format: ReportFormat;
+  /** User who asked for it; null for scheduled runs */
+  createdBy: string | null;
+  /** Overrides the name derived from the report title */
+  name?: string;
+}
+
+export interface GeneratedReport {
+  report: ReportExport;
+  /** Set when the report is ready */
+  document: ReportDocument | null;
+  rendered: RenderedReport | null;
+}
+
+/**
+ * Generate a report, store it and record it in report_exports.
+ * Failures are recorded on the row (status "failed") rather than thrown.
+ *
+ * @param supabase - Client the report data is read with; pass the admin
+ *   client when there's no user session (scheduled runs)
+ */
+export async function generateReport(
+  supabase: Client,
+  options: GenerateReportOptions
+): Promise<ReportExport> {
+  return (await generateReportFile(supabase, options)).report;
+}
+
+/**
+ * generateReport, also handing back the built document and rendered file
+ * for callers that deliver it straight away
+ */
+export async function generateReportFile(
+  supabase: Client,
+  options: GenerateReportOptions
+): Promise<GeneratedReport> {
+  const { orgId, params, format, createdBy } = options;
+  const admin = createAdminClient();
+
+  const { data: report, error: insertError } = await admin
+    .from("report_exports")
+    .insert({
+      org_id: orgId,
+      name: options.name || defaultReportName(REPORT_TITLES[params.type], params),
+      report_type: params.type,
+      format,
+      parameters: params,
+      status: "generating",
+      created_by: createdBy,
+    })
+    .select()
+    .single();
+
+  if (insertError || !report) {
+    throw new Error(`Failed to create report record: ${insertError?.message || "no row returned"}`);
+  }
+
+  try {
+    const document = await buildReportDocument(supabase, orgId, params);
+    const rendered = renderReport(document, format);
+    const storagePath = `${orgId}/${report.id}.${rendered.extension}`;
+
+    const usage = await consumeUsage(orgId, "storage_bytes_used", rendered.body.length);
+    if (!usage.allowed) {
+      throw new Error(usage.error);
+    }
+
+    const { error: uploadError } = await admin.storage
+      .from(REPORTS_BUCKET)
+      .upload(storagePath, rendered.body, { contentType: rendered.contentType, upsert: true });
+
+    if (uploadError) {
+      await releaseUsage(orgId, "storage_bytes_used", rendered.body.length);
+      throw new Error(`Failed to store report: ${uploadError.message}`);
+    }
+
+    const { data: ready } = await admin
+      .from("report_exports")
+      .update({
+        name: options.name || defaultReportName(document.title, params),
+        status: "ready",
+        storage_path: storagePath,
+        file_size: rendered.body.length,
+        completed_at: new Date().toISOString(),
+      })
+      .eq("id", report.id)
+      .select()
+      .single();
+
+    return { report: ready || report, document, rendered };
+  } catch (error) {
+    console.error("Report generation error:", error);
+
+    const { data: failed } = await admin
+      .from("report_exports")
+      .update({
+        status: "failed",
+        error_message: error instanceof Error ? error.message : "Report generation failed",
+        completed_at: new Date().toISOString(),
+      })
+      .eq("id", report.id)
+      .select()
+      .single();
+
+    return { report: failed || { ...report, status: "failed" }, document: null, rendered: null };
+  }
+}
+
+/**
+ * Signed URL that downloads the stored file. Short-lived unless a longer
+ * expiry is asked for (links sent out with scheduled reports).
+ */
+export async function getReportDownloadUrl(
+  report: Pick<ReportExport, "name" | "format" | "storage_path">,
+  expiresInSeconds: number = DOWNLOAD_URL_TTL_SECONDS
+): Promise<string | null> {
+  if (!report.storage_path) return null;
+
+  const { data, error } = await createAdminClient()
+    .storage.from(REPORTS_BUCKET)
+    .createSignedUrl(report.storage_path, expiresInSeconds, {
+      download: reportFileName(report),
+    });
+
+  if (error || !data) {
+    console.error("Error signing report download:", error);
+    return null;
+  }
+
+  return data.signedUrl;
+}
+
+/**
+ * Remove the stored file and give its bytes back to the org's storage
+ * allowance (the caller deletes the row)
+ */
+export async function deleteReportFile(
+  report: Pick<ReportExport, "org_id" | "storage_path" | "file_size">
+): Promise<void> {
+  if (!report.storage_path) return;
+
+  const { error } = await createAdminClient().storage.from(REPORTS_BUCKET).remove([report.storage_path]);
+  if (error) {
+    console.error("Error deleting report file:", error);
+    return;
+  }
+
+  await releaseUsage(report.org_id, "storage_bytes_used", report.file_size || 0);
+}
@@ -0,0 +1,353 @@
+/**
+ * PDF Export
+ *
+ * A small PDF 1.4 writer for tabular reports using the standard Helvetica
+ * fonts, so nothing has to be embedded. Text outside WinAnsi (Latin-1 plus
+ * smart quotes and dashes) is replaced with "?". Tables paginate and repeat
+ * their header row on each page.
+ *
+ * Format reference: ISO 32000-1 (PDF 1.7), sections 7.5 (file structure)
+ * and 9 (text); font metrics from the Adobe Core 14 AFM files.
+ */
+
+import { deflateSync } from "zlib";
+import type { ReportCell, ReportDocument } from "./types";
+
+// ============================================================================
+// FONTS & TEXT
+// ============================================================================
+
+type Font = "regular" | "bold";
+
+const FONT_RESOURCE: Record<Font, string> = { regular: "F1", bold: "F2" };
+
+// Advance widths for ASCII 32..126 in 1/1000 em
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+const DEFAULT_WIDTH = 556;
+
+// WinAnsi code points for the characters outside Latin-1 worth keeping
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80, "…": 0x85, "‘": 0x91, "’": 0x92, "“": 0x93, "”": 0x94,
+  "•": 0x95, "–": 0x96, "—": 0x97, "™": 0x99,
+};
+
+/** Map a string to WinAnsi byte values, replacing anything unsupported */
+export function toWinAnsi(text: string): number[] {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (code === 9) bytes.push(32);
+    else if ((code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff)) bytes.push(code);
+    else if (WIN_ANSI_EXTRAS[char]) bytes.push(WIN_ANSI_EXTRAS[char]);
+    else if (code >= 32) bytes.push(63); // "?"
+  }
+  return bytes;
+}
+
+export function textWidth(text: string, font: Font, size: number): number {
+  const widths = font === "bold" ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (const byte of toWinAnsi(text)) {
+    total += byte >= 32 && byte <= 126 ? widths[byte - 32] : DEFAULT_WIDTH;
+  }
+  return (total * size) / 1000;
+}
+
+/** Shorten text with "..." until it fits the width */
+export function fitText(text: string, font: Font, size: number, maxWidth: number): string {
+  if (textWidth(text, font, size) <= maxWidth) return text;
+  let fitted = text;
+  while (fitted.length > 0 && textWidth(`${fitted}...`, font, size) > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return fitted ? `${fitted.trimEnd()}...` : "";
+}
+
+// PDF literal string with (, ) and \ escaped and non-ASCII as octal
+function pdfString(text: string): string {
+  return `(${toWinAnsi(text)
+    .map((byte) => {
+      if (byte === 0x28 || byte === 0x29 || byte === 0x5c) return `\\${String.fromCharCode(byte)}`;
+      if (byte > 126) return `\\${byte.toString(8).padStart(3, "0")}`;
+      return String.fromCharCode(byte);
+    })
+    .join("")})`;
+}
+
+function formatCell(value: ReportCell): string {
+  if (value === null || value === undefined) return "-";
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? String(value) : value.toFixed(1);
+  }
+  return value;
+}
+
+// ============================================================================
+// LAYOUT
+// ============================================================================
+
+const PAGE_WIDTH = 612; // US Letter
+const PAGE_HEIGHT = 792;
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_HEIGHT = 24;
+const BODY_SIZE = 9;
+const ROW_HEIGHT = 15;
+const CELL_PADDING = 4;
+
+class PageWriter {
+  pages: string[][] = [];
+  private ops: string[] = [];
+  y = 0;
+
+  constructor() {
+    this.newPage();
+  }
+
+  newPage() {
+    this.ops = [];
+    this.pages.push(this.ops);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  /** Start a new page unless there's this much room left */
+  ensureSpace(height: number): boolean {
+    if (this.y - height < MARGIN + FOOTER_HEIGHT) {
+      this.newPage();
+      return true;
+    }
+    return false;
+  }
+
+  text(value: string, x: number, y: number, font: Font, size: number, gray = 0) {
+    this.ops.push(
+      `BT ${gray} g /${FONT_RESOURCE[font]} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td ${pdfString(value)} Tj ET`
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, gray: number) {
+    this.ops.push(`${gray} g ${x.toFixed(2)} ${y.toFixed(2)} ${width.toFixed(2)} ${height.toFixed(2)} re f 0 g`);
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, gray: number) {
+    this.ops.push(`${gray} G 0.5 w ${x1.toFixed(2)} ${y1.toFixed(2)} m ${x2.toFixed(2)} ${y2.toFixed(2)} l S`);
+  }
+}
+
+/**
+ * Give each column its natural width, shrinking the widest ones first when
+ * the table doesn't fit the page
+ */
+function columnWidths(columns: string[], rows: string[][]): number[] {
+  const natural = columns.map((column, i) => {
+    const widest = Math.max(
+      textWidth(column, "bold", BODY_SIZE),
+      ...rows.map((row) => textWidth(row[i] || "", "regular", BODY_SIZE))
+    );
+    return Math.min(widest + CELL_PADDING * 2, CONTENT_WIDTH * 0.5);
+  });
+
+  const total = natural.reduce((a, b) => a + b, 0);
+  if (total <= CONTENT_WIDTH) {
+    // Spread the spare room evenly
+    const extra = (CONTENT_WIDTH - total) / columns.length;
+    return natural.map((w) => w + extra);
+  }
+
+  const minimum = Math.min(48, CONTENT_WIDTH / columns.length);
+  let widths = [...natural];
+  let overflow = total - CONTENT_WIDTH;
+  while (overflow > 0.5) {
+    const shrinkable = widths.filter((w) => w > minimum).length;
+    if (shrinkable === 0) break;
+    const cut = overflow / shrinkable;
+    widths = widths.map((w) => (w > minimum ? Math.max(minimum, w - cut) : w));
+    overflow = widths.reduce((a, b) => a + b, 0) - CONTENT_WIDTH;
+  }
+  return widths;
+}
+
+function drawTableHeader(page: PageWriter, columns: string[], widths: number[], numeric: boolean[]) {
+  page.rect(MARGIN, page.y - ROW_HEIGHT, CONTENT_WIDTH, ROW_HEIGHT, 0.93);
+  let x = MARGIN;
+  columns.forEach((column, i) => {
+    const label = fitText(column, "bold", BODY_SIZE, widths[i] - CELL_PADDING * 2);
+    const textX = numeric[i]
+      ? x + widths[i] - CELL_PADDING - textWidth(label, "bold", BODY_SIZE)
+      : x + CELL_PADDING;
+    page.text(label, textX, page.y - ROW_HEIGHT + 4.5, "bold", BODY_SIZE);
+    x += widths[i];
+  });
+  page.y -= ROW_HEIGHT;
+}
+
+// ============================================================================
+// DOCUMENT
+// ============================================================================
+
+function layoutReport(report: ReportDocument): string[][] {
+  const page = new PageWriter();
+
+  page.text(report.title, MARGIN, page.y - 18, "bold", 18);
+  page.y -= 34;
+  page.text(report.orgName, MARGIN, page.y, "regular", 10, 0.35);
+  page.y -= 14;
+  page.text(
+    `${report.dateFrom} to ${report.dateTo}  |  Generated ${report.generatedAt}`,
+    MARGIN,
+    page.y,
+    "regular",
+    10,
+    0.35
+  );
+  page.y -= 24;
+
+  // Summary as label/value pairs, two per line
+  const half = CONTENT_WIDTH / 2;
+  for (let i = 0; i < report.summary.length; i += 2) {
+    page.ensureSpace(16);
+    report.summary.slice(i, i + 2).forEach((item, j) => {
+      const x = MARGIN + j * half;
+      const label = `${item.label}: `;
+      page.text(label, x, page.y - 11, "regular", 10, 0.35);
+      page.text(
+        fitText(formatCell(item.value), "bold", 10, half - textWidth(label, "regular", 10) - 12),
+        x + textWidth(label, "regular", 10),
+        page.y - 11,
+        "bold",
+        10
+      );
+    });
+    page.y -= 16;
+  }
+
+  for (const table of report.tables) {
+    const rows = table.rows.map((row) => table.columns.map((_, i) => formatCell(row[i] ?? null)));
+    const numeric = table.columns.map(
+      (_, i) => table.rows.length > 0 && table.rows.every((row) => typeof row[i] === "number" || row[i] === null)
+    );
+    const widths = columnWidths(table.columns, rows);
+
+    // Keep the title with at least the header and a row
+    page.y -= 18;
+    page.ensureSpace(22 + ROW_HEIGHT * 2);
+    page.text(table.title, MARGIN, page.y - 12, "bold", 12);
+    page.y -= 20;
+    drawTableHeader(page, table.columns, widths, numeric);
+
+    if (rows.length === 0) {
+      page.text("No data for this period", MARGIN + CELL_PADDING, page.y - ROW_HEIGHT + 4.5, "regular", BODY_SIZE, 0.45);
+      page.y -= ROW_HEIGHT;
+      continue;
+    }
+
+    for (const row of rows) {
+      if (page.ensureSpace(ROW_HEIGHT)) {
+        page.text(`${table.title} (continued)`, MARGIN, page.y - 12, "bold", 12);
+        page.y -= 20;
+        drawTableHeader(page, table.columns, widths, numeric);
+      }
+
+      let x = MARGIN;
+      row.forEach((value, i) => {
+        const text = fitText(value, "regular", BODY_SIZE, widths[i] - CELL_PADDING * 2);
+        const textX = numeric[i]
+          ? x + widths[i] - CELL_PADDING - textWidth(text, "regular", BODY_SIZE)
+          : x + CELL_PADDING;
+        page.text(text, textX, page.y - ROW_HEIGHT + 4.5, "regular", BODY_SIZE);
+        x += widths[i];
+      });
+      page.line(MARGIN, page.y - ROW_HEIGHT, MARGIN + CONTENT_WIDTH, page.y - ROW_HEIGHT, 0.85);
+      page.y -= ROW_HEIGHT;
+    }
+  }
+
+  // Footers once the page count is known
+  page.pages.forEach((ops, i) => {
+    const label = `Page ${i + 1} of ${page.pages.length}`;
+    ops.push(
+      `BT 0.45 g /F1 8 Tf ${MARGIN} ${MARGIN - 12} Td ${pdfString(fitText(report.title, "regular", 8, CONTENT_WIDTH / 2))} Tj ET`,
+      `BT 0.45 g /F1 8 Tf ${(PAGE_WIDTH - MARGIN - textWidth(label, "regular", 8)).toFixed(2)} ${MARGIN - 12} Td ${pdfString(label)} Tj ET`
+    );
+  });
+
+  return page.pages;
+}
+
+export function renderPdf(report: ReportDocument): Buffer {
+  const pages = layoutReport(report);
+
+  // Object numbers: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a
+  // page object and a content stream per page
+  const pageObjectId = (i: number) => 6 + i * 2;
+  const contentObjectId = (i: number) => 7 + i * 2;
+
+  const objects: Buffer[] = [
+    Buffer.from("<< /Type /Catalog /Pages 2 0 R >>"),
+    Buffer.from(
+      `<< /Type /Pages /Kids [${pages.map((_, i) => `${pageObjectId(i)} 0 R`).join(" ")}] /Count ${pages.length} >>`
+    ),
+    Buffer.from("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>"),
+    Buffer.from("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>"),
+    Buffer.from(`<< /Title ${pdfString(report.title)} /Producer (Kalyxi) >>`),
+  ];
+
+  pages.forEach((ops, i) => {
+    const stream = deflateSync(Buffer.from(ops.join("\n"), "latin1"));
+    objects.push(
+      Buffer.from(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentObjectId(i)} 0 R >>`
+      ),
+      Buffer.concat([
+        Buffer.from(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`),
+        stream,
+        Buffer.from("\nendstream"),
+      ])
+    );
+  });
+
+  // Binary comment marks the file as binary for transfer tools
+  const parts: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+  let length = parts[0].length;
+  const offsets: number[] = [];
+
+  objects.forEach((body, i) => {
+    offsets.push(length);
+    const object = Buffer.concat([Buffer.from(`${i + 1} 0 obj\n`), body, Buffer.from("\nendobj\n")]);
+    parts.push(object);
+    length += object.length;
+  });
+
+  const xref = [
+    "xref",
+    `0 ${objects.length + 1}`,
+    "0000000000 65535 f ",
+    ...offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n `),
+    "trailer",
+    `<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>`,
+    "startxref",
+    String(length),
+    "%%EOF",
+  ].join("\n");
+
+  parts.push(Buffer.from(`${xref}\n`));
+  return Buffer.concat(parts);
+}
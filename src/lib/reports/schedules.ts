@@ -0,0 +1,569 @@
+/**
+ * Report Schedules
+ *
+ * A schedule is a report definition (type, caller or template filter and a
+ * relative date window such as "last 7 days") plus a cron cadence. Both are
+ * evaluated in the org's OrgSettings.timezone, so "Mondays at 08:00, last 7
+ * days" means the manager's Monday morning and their previous seven days.
+ *
+ * The cron job picks up schedules whose next_run_at has passed, claims the
+ * run through report_schedule_runs' unique (schedule_id, scheduled_for)
+ * index, generates the report and delivers it:
+ * - email: to the members the schedule names, with the file attached
+ * - webhook: a signed "report.scheduled" event with a download link, queued
+ *   for the schedule's subscription and sent by the webhook delivery worker
+ *
+ * A run that was missed (cron down) is made once, not once per missed slot.
+ * next_run_at is recomputed after every run, so a timezone change applies
+ * from the following run.
+ */
+
+import { createAdminClient, createClient } from "@/lib/supabase/server";
+import { getOrgPlanLimits } from "@/lib/plan-limits";
+import { sendScheduledReportEmail, renderScheduledReportEmail } from "@/lib/notifications";
+import { queueWebhookDelivery } from "@/lib/webhooks";
+import type {
+  OrgSettings,
+  ReportDateWindow,
+  ReportSchedule,
+  ReportScheduleRun,
+} from "@/types/database";
+import { CronExpressionError, getNextCronRun } from "./cron";
+import { addDays, formatZonedDate, resolveTimeZone, toZonedTime } from "./timezone";
+import { generateReportFile, getReportDownloadUrl, reportFileName } from "./index";
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+// ============================================================================
+// DATE WINDOWS
+// ============================================================================
+
+export const REPORT_DATE_WINDOWS: { value: ReportDateWindow; label: string }[] = [
+  { value: "yesterday", label: "Yesterday" },
+  { value: "last_7_days", label: "Last 7 days" },
+  { value: "last_30_days", label: "Last 30 days" },
+  { value: "previous_week", label: "Previous week (Mon-Sun)" },
+  { value: "previous_month", label: "Previous month" },
+  { value: "month_to_date", label: "Month to date" },
+];
+
+export function isReportDateWindow(value: string): value is ReportDateWindow {
+  return REPORT_DATE_WINDOWS.some((w) => w.value === value);
+}
+
+/**
+ * Inclusive dates a window covers for a run at `runAt`. Every window
+ * except month-to-date ends the day before the run, so a report never
+ * covers a partial day.
+ */
+export function resolveDateWindow(
+  window: ReportDateWindow,
+  runAt: Date,
+  timeZone: string
+): { dateFrom: string; dateTo: string } {
+  const local = toZonedTime(runAt, timeZone);
+  const today = formatZonedDate(local);
+  const yesterday = addDays(today, -1);
+  const monthStart = formatZonedDate({ ...local, day: 1 });
+
+  switch (window) {
+    case "yesterday":
+      return { dateFrom: yesterday, dateTo: yesterday };
+    case "last_7_days":
+      return { dateFrom: addDays(today, -7), dateTo: yesterday };
+    case "last_30_days":
+      return { dateFrom: addDays(today, -30), dateTo: yesterday };
+    case "previous_week": {
+      const monday = addDays(today, -((local.weekday + 6) % 7));
+      return { dateFrom: addDays(monday, -7), dateTo: addDays(monday, -1) };
+    }
+    case "previous_month": {
+      const lastDay = addDays(monthStart, -1);
+      return { dateFrom: `${lastDay.slice(0, 8)}01`, dateTo: lastDay };
+    }
+    case "month_to_date":
+      return { dateFrom: monthStart, dateTo: today };
+  }
+}
+
+// ============================================================================
+// TIMING
+// ============================================================================
+
+/**
+ * The org's timezone, falling back to UTC when unset or unknown
+ */
+export async function getOrgTimeZone(supabase: AdminClient, orgId: string): Promise<string> {
+  const { data: org } = await supabase
+    .from("organizations")
+    .select("settings_json")
+    .eq("id", orgId)
+    .single();
+
+  return resolveTimeZone((org?.settings_json as Partial<OrgSettings> | null)?.timezone);
+}
+
+/**
+ * When an active schedule should next run
+ *
+ * @throws CronExpressionError if the expression is invalid
+ */
+export function computeNextRunAt(cronExpression: string, timeZone: string, after: Date = new Date()): string {
+  return getNextCronRun(cronExpression, after, timeZone).toISOString();
+}
+
+// ============================================================================
+// DEFINITIONS
+// ============================================================================
+
+export type ReportScheduleDefinition = Pick<
+  ReportSchedule,
+  | "report_type"
+  | "agent_id"
+  | "template_id"
+  | "cron_expression"
+  | "delivery_channel"
+  | "recipient_ids"
+  | "webhook_subscription_id"
+>;
+
+// Most recipients one schedule can email
+export const MAX_SCHEDULE_RECIPIENTS = 50;
+
+/**
+ * Check a schedule's fields agree with each other
+ *
+ * @returns An error message, or null if the definition is consistent
+ */
+export function validateScheduleDefinition(definition: ReportScheduleDefinition): string | null {
+  if (definition.report_type === "caller" && !definition.agent_id) {
+    return "Caller reports need an agent_id";
+  }
+  if (definition.report_type === "template" && !definition.template_id) {
+    return "Template reports need a template_id";
+  }
+  try {
+    // Also rejects expressions that parse but never fire, like Feb 30
+    getNextCronRun(definition.cron_expression, new Date(), "UTC");
+  } catch (error) {
+    return error instanceof Error ? error.message : "Invalid cron expression";
+  }
+  if (definition.delivery_channel === "email" && definition.recipient_ids.length === 0) {
+    return "Choose at least one recipient";
+  }
+  if (definition.recipient_ids.length > MAX_SCHEDULE_RECIPIENTS) {
+    return `A schedule can email at most ${MAX_SCHEDULE_RECIPIENTS} recipients`;
+  }
+  if (definition.delivery_channel === "webhook" && !definition.webhook_subscription_id) {
+    return "Choose a webhook subscription to deliver to";
+  }
+  return null;
+}
+
+/**
+ * Check everything the schedule points at belongs to the org
+ *
+ * @returns An error message, or null if every reference is valid
+ */
+export async function verifyScheduleReferences(
+  supabase: AdminClient | Awaited<ReturnType<typeof createClient>>,
+  orgId: string,
+  definition: ReportScheduleDefinition
+): Promise<string | null> {
+  if (definition.agent_id) {
+    const { data: agent } = await supabase
+      .from("users")
+      .select("id")
+      .eq("id", definition.agent_id)
+      .eq("org_id", orgId)
+      .maybeSingle();
+    if (!agent) return "Agent not found";
+  }
+
+  if (definition.template_id) {
+    const { data: template } = await supabase
+      .from("templates")
+      .select("id")
+      .eq("id", definition.template_id)
+      .eq("org_id", orgId)
+      .maybeSingle();
+    if (!template) return "Template not found";
+  }
+
+  if (definition.delivery_channel === "webhook" && definition.webhook_subscription_id) {
+    const { data: subscription } = await supabase
+      .from("webhook_subscriptions")
+      .select("id")
+      .eq("id", definition.webhook_subscription_id)
+      .eq("org_id", orgId)
+      .maybeSingle();
+    if (!subscription) return "Webhook subscription not found";
+  }
+
+  if (definition.delivery_channel === "email" && definition.recipient_ids.length > 0) {
+    const { data: members } = await supabase
+      .from("users")
+      .select("id")
+      .eq("org_id", orgId)
+      .eq("is_active", true)
+      .in("id", definition.recipient_ids);
+    if ((members || []).length !== new Set(definition.recipient_ids).size) {
+      return "Recipients must be active members of your organization";
+    }
+  }
+
+  return null;
+}
+
+// ============================================================================
+// RUNNING
+// ============================================================================
+
+// Bigger files are linked instead of attached; most mail servers cap at 10-25 MB
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+// How long links sent out with a report keep working
+const DELIVERED_LINK_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+class ScheduleRunError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScheduleRunError";
+  }
+}
+
+async function finishRun(
+  supabase: AdminClient,
+  run: ReportScheduleRun,
+  outcome: Partial<ReportScheduleRun> & { status: "succeeded" | "failed" }
+): Promise<ReportScheduleRun> {
+  const completedAt = new Date().toISOString();
+
+  const { data: updated } = await supabase
+    .from("report_schedule_runs")
+    .update({ ...outcome, completed_at: completedAt })
+    .eq("id", run.id)
+    .select("*")
+    .single();
+
+  await supabase
+    .from("report_schedules")
+    .update({ last_run_at: completedAt, last_run_status: outcome.status })
+    .eq("id", run.schedule_id);
+
+  return (updated || { ...run, ...outcome, completed_at: completedAt }) as ReportScheduleRun;
+}
+
+async function deliverByEmail(
+  supabase: AdminClient,
+  schedule: ReportSchedule,
+  run: ReportScheduleRun,
+  generated: Awaited<ReturnType<typeof generateReportFile>>
+): Promise<{ recipients: number }> {
+  const { report, document, rendered } = generated;
+
+  const { data: users } = schedule.recipient_ids.length
+    ? await supabase
+        .from("users")
+        .select("id, email")
+        .eq("org_id", schedule.org_id)
+        .eq("is_active", true)
+        .in("id", schedule.recipient_ids)
+    : { data: [] };
+
+  const recipients = (users || []).filter((u: { email: string | null }) => !!u.email);
+  if (recipients.length === 0) {
+    throw new ScheduleRunError("None of the schedule's recipients are active members");
+  }
+
+  const attach = !!rendered && rendered.body.length <= MAX_ATTACHMENT_BYTES;
+  const downloadUrl = attach ? null : await getReportDownloadUrl(report, DELIVERED_LINK_TTL_SECONDS);
+  if (!attach && !downloadUrl) {
+    throw new ScheduleRunError("Failed to create a download link for the report");
+  }
+
+  const email = renderScheduledReportEmail({
+    orgName: document?.orgName || "",
+    scheduleName: schedule.name,
+    reportName: report.name,
+    dateFrom: run.date_from || "",
+    dateTo: run.date_to || "",
+    summary: document?.summary || [],
+    downloadUrl,
+    reportsUrl: `${(process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000").replace(/\/$/, "")}/dashboard/reports`,
+  });
+
+  const result = await sendScheduledReportEmail({
+    orgId: schedule.org_id,
+    scheduleId: schedule.id,
+    runId: run.id,
+    recipients,
+    email,
+    attachments:
+      attach && rendered
+        ? [{ filename: reportFileName(report), contentType: rendered.contentType, content: rendered.body }]
+        : undefined,
+  });
+
+  if (result.failed > 0) {
+    throw new ScheduleRunError(
+      `Failed to email ${result.failed} of ${recipients.length} recipient${recipients.length === 1 ? "" : "s"}`
+    );
+  }
+
+  return { recipients: result.sent + result.skipped };
+}
+
+async function deliverByWebhook(
+  supabase: AdminClient,
+  schedule: ReportSchedule,
+  run: ReportScheduleRun,
+  report: Awaited<ReturnType<typeof generateReportFile>>["report"]
+): Promise<{ deliveryId: string }> {
+  if (!schedule.webhook_subscription_id) {
+    throw new ScheduleRunError("The schedule's webhook subscription was deleted");
+  }
+
+  const { data: subscription } = await supabase
+    .from("webhook_subscriptions")
+    .select("id, is_active")
+    .eq("id", schedule.webhook_subscription_id)
+    .eq("org_id", schedule.org_id)
+    .maybeSingle();
+
+  if (!subscription || !subscription.is_active) {
+    throw new ScheduleRunError("The schedule's webhook subscription is disabled");
+  }
+
+  const downloadUrl = await getReportDownloadUrl(report, DELIVERED_LINK_TTL_SECONDS);
+  if (!downloadUrl) {
+    throw new ScheduleRunError("Failed to create a download link for the report");
+  }
+
+  const deliveryId = await queueWebhookDelivery(schedule.org_id, subscription.id, "report.scheduled", {
+    schedule_id: schedule.id,
+    schedule_name: schedule.name,
+    run_id: run.id,
+    report: {
+      id: report.id,
+      name: report.name,
+      report_type: report.report_type,
+      format: report.format,
+      date_from: run.date_from,
+      date_to: run.date_to,
+      file_size: report.file_size,
+    },
+    download_url: downloadUrl,
+    download_url_expires_at: new Date(Date.now() + DELIVERED_LINK_TTL_SECONDS * 1000).toISOString(),
+  });
+
+  if (!deliveryId) {
+    throw new ScheduleRunError("Failed to queue the webhook delivery");
+  }
+
+  return { deliveryId };
+}
+
+/**
+ * Generate and deliver one claimed run. Never throws; the outcome is
+ * recorded on the run and the schedule.
+ */
+async function executeRun(
+  supabase: AdminClient,
+  schedule: ReportSchedule,
+  run: ReportScheduleRun,
+  timeZone: string
+): Promise<ReportScheduleRun> {
+  try {
+    const limits = await getOrgPlanLimits(schedule.org_id, supabase);
+    if (!limits.export_enabled) {
+      throw new ScheduleRunError("Report export is not available on your plan");
+    }
+
+    const { dateFrom, dateTo } = resolveDateWindow(schedule.date_window, new Date(run.scheduled_for), timeZone);
+    run = { ...run, date_from: dateFrom, date_to: dateTo };
+    await supabase
+      .from("report_schedule_runs")
+      .update({ date_from: dateFrom, date_to: dateTo })
+      .eq("id", run.id);
+
+    const generated = await generateReportFile(supabase, {
+      orgId: schedule.org_id,
+      params: {
+        type: schedule.report_type,
+        dateFrom,
+        dateTo,
+        timeZone,
+        ...(schedule.agent_id && { agentId: schedule.agent_id }),
+        ...(schedule.template_id && { templateId: schedule.template_id }),
+      },
+      format: schedule.format,
+      createdBy: null,
+      name: `${schedule.name} ${dateFrom} to ${dateTo}`.slice(0, 255),
+    });
+
+    if (generated.report.status !== "ready") {
+      return await finishRun(supabase, run, {
+        status: "failed",
+        report_id: generated.report.id,
+        error_message: generated.report.error_message || "Report generation failed",
+      });
+    }
+
+    if (schedule.delivery_channel === "webhook") {
+      const { deliveryId } = await deliverByWebhook(supabase, schedule, run, generated.report);
+      return await finishRun(supabase, run, {
+        status: "succeeded",
+        report_id: generated.report.id,
+        webhook_delivery_id: deliveryId,
+        recipients_count: 1,
+      });
+    }
+
+    run = { ...run, report_id: generated.report.id };
+    const { recipients } = await deliverByEmail(supabase, schedule, run, generated);
+    return await finishRun(supabase, run, {
+      status: "succeeded",
+      report_id: generated.report.id,
+      recipients_count: recipients,
+    });
+  } catch (error) {
+    if (!(error instanceof ScheduleRunError)) {
+      console.error(`Report schedule ${schedule.id} run error:`, error);
+    }
+    return await finishRun(supabase, run, {
+      status: "failed",
+      report_id: run.report_id,
+      error_message: error instanceof Error ? error.message : "Scheduled report failed",
+    });
+  }
+}
+
+async function claimRun(
+  supabase: AdminClient,
+  schedule: ReportSchedule,
+  scheduledFor: string,
+  trigger: ReportScheduleRun["trigger"]
+): Promise<ReportScheduleRun | null> {
+  const { data: run, error } = await supabase
+    .from("report_schedule_runs")
+    .insert({
+      schedule_id: schedule.id,
+      org_id: schedule.org_id,
+      scheduled_for: scheduledFor,
+      trigger,
+      delivery_channel: schedule.delivery_channel,
+    })
+    .select("*")
+    .single();
+
+  if (error || !run) {
+    // Another worker already has this slot
+    if (error?.code !== "23505") {
+      console.error("Error claiming report schedule run:", error);
+    }
+    return null;
+  }
+
+  await supabase.from("report_schedules").update({ last_run_status: "running" }).eq("id", schedule.id);
+  return run as ReportScheduleRun;
+}
+
+export interface RunDueReportSchedulesOptions {
+  now?: Date;
+  maxSchedules?: number;
+  deadline?: number; // Epoch ms after which no new runs are started
+}
+
+export interface RunDueReportSchedulesResult {
+  due: number;
+  succeeded: number;
+  failed: number;
+  skipped: number;
+}
+
+/**
+ * Run every active schedule whose next_run_at has passed (called by cron)
+ */
+export async function runDueReportSchedules(
+  options: RunDueReportSchedulesOptions = {}
+): Promise<RunDueReportSchedulesResult> {
+  const { now = new Date(), maxSchedules = 25, deadline } = options;
+  const supabase = createAdminClient();
+  const result: RunDueReportSchedulesResult = { due: 0, succeeded: 0, failed: 0, skipped: 0 };
+
+  const { data: schedules, error } = await supabase
+    .from("report_schedules")
+    .select("*")
+    .eq("is_active", true)
+    .lte("next_run_at", now.toISOString())
+    .order("next_run_at", { ascending: true })
+    .limit(maxSchedules);
+
+  if (error) {
+    console.error("Error loading due report schedules:", error);
+    return result;
+  }
+
+  result.due = schedules?.length || 0;
+  const timeZones = new Map<string, string>();
+
+  for (const schedule of (schedules || []) as ReportSchedule[]) {
+    if (deadline && Date.now() > deadline) break;
+
+    try {
+      let timeZone = timeZones.get(schedule.org_id);
+      if (!timeZone) {
+        timeZone = await getOrgTimeZone(supabase, schedule.org_id);
+        timeZones.set(schedule.org_id, timeZone);
+      }
+
+      let nextRunAt: string | null;
+      try {
+        nextRunAt = computeNextRunAt(schedule.cron_expression, timeZone, now);
+      } catch (cronError) {
+        if (!(cronError instanceof CronExpressionError)) throw cronError;
+        nextRunAt = null;
+      }
+
+      const run = await claimRun(supabase, schedule, schedule.next_run_at!, "schedule");
+
+      // Move on to the next slot whether or not this worker got the run
+      await supabase
+        .from("report_schedules")
+        .update({ next_run_at: nextRunAt, ...(nextRunAt === null && { is_active: false }) })
+        .eq("id", schedule.id)
+        .eq("next_run_at", schedule.next_run_at!);
+
+      if (!run) {
+        result.skipped++;
+        continue;
+      }
+
+      const finished = await executeRun(supabase, schedule, run, timeZone);
+      if (finished.status === "succeeded") {
+        result.succeeded++;
+      } else {
+        result.failed++;
+      }
+    } catch (scheduleError) {
+      console.error(`Error running report schedule ${schedule.id}:`, scheduleError);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Run a schedule immediately ("Send now"), outside its cadence
+ */
+export async function runReportScheduleNow(schedule: ReportSchedule): Promise<ReportScheduleRun | null> {
+  const supabase = createAdminClient();
+  const timeZone = await getOrgTimeZone(supabase, schedule.org_id);
+
+  const run = await claimRun(supabase, schedule, new Date().toISOString(), "manual");
+  if (!run) return null;
+
+  return executeRun(supabase, schedule, run, timeZone);
+}
@@ -0,0 +1,126 @@
+/**
+ * Time Zone Helpers
+ *
+ * Converts between UTC instants and wall-clock time in an IANA zone using
+ * Intl only, so report date ranges and schedules follow the org's
+ * OrgSettings.timezone (including DST changes).
+ */
+
+export interface ZonedTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  /** 0 = Sunday */
+  weekday: number;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+      weekday: "short",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Falls back to UTC for a missing or unknown zone */
+export function resolveTimeZone(timeZone: string | null | undefined): string {
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : "UTC";
+}
+
+function zonedParts(date: Date, timeZone: string): ZonedTime & { second: number } {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: parseInt(parts.year, 10),
+    month: parseInt(parts.month, 10),
+    day: parseInt(parts.day, 10),
+    hour: parseInt(parts.hour, 10) % 24,
+    minute: parseInt(parts.minute, 10),
+    second: parseInt(parts.second, 10),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+/**
+ * Wall-clock time in the zone at the given instant
+ */
+export function toZonedTime(date: Date, timeZone: string): ZonedTime {
+  const { year, month, day, hour, minute, weekday } = zonedParts(date, timeZone);
+  return { year, month, day, hour, minute, weekday };
+}
+
+// Milliseconds the zone is ahead of UTC at the given instant
+function offsetAt(timestamp: number, timeZone: string): number {
+  const p = zonedParts(new Date(timestamp), timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(timestamp / 1000) * 1000;
+}
+
+/**
+ * The instant a wall-clock time in the zone happens. Times skipped by a DST
+ * jump resolve to the same offset as just before the jump (so 02:30 on a
+ * spring-forward day becomes 03:30); repeated times resolve to the first.
+ */
+export function fromZonedTime(
+  time: Pick<ZonedTime, "year" | "month" | "day" | "hour" | "minute">,
+  timeZone: string
+): Date {
+  const local = Date.UTC(time.year, time.month - 1, time.day, time.hour, time.minute);
+  const before = offsetAt(local - 12 * 60 * 60 * 1000, timeZone);
+  const after = offsetAt(local + 12 * 60 * 60 * 1000, timeZone);
+
+  // Try the earlier offset first so ambiguous times pick the first occurrence
+  for (const offset of before >= after ? [before, after] : [after, before]) {
+    const candidate = local - offset;
+    if (offsetAt(candidate, timeZone) === offset) {
+      return new Date(candidate);
+    }
+  }
+
+  return new Date(local - before);
+}
+
+/** YYYY-MM-DD for a zoned date */
+export function formatZonedDate(time: Pick<ZonedTime, "year" | "month" | "day">): string {
+  return [
+    String(time.year).padStart(4, "0"),
+    String(time.month).padStart(2, "0"),
+    String(time.day).padStart(2, "0"),
+  ].join("-");
+}
+
+/** Calendar arithmetic on a YYYY-MM-DD date */
+export function addDays(date: string, days: number): string {
+  const value = new Date(`${date}T00:00:00.000Z`);
+  value.setUTCDate(value.getUTCDate() + days);
+  return value.toISOString().slice(0, 10);
+}
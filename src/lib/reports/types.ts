@@ -0,0 +1,52 @@
+/**
+ * Report Types
+ *
+ * A report is built once as a format-neutral ReportDocument (summary metrics
+ * plus tables) and then rendered to PDF, CSV or XLSX.
+ */
+
+import type { ReportFormat, ReportType } from "@/types/database";
+
+export type { ReportFormat, ReportType };
+
+export const REPORT_TYPES: ReportType[] = ["team_performance", "caller", "template"];
+
+export const REPORT_FORMATS: ReportFormat[] = ["pdf", "csv", "xlsx"];
+
+export interface ReportParameters {
+  type: ReportType;
+  /** Inclusive range, YYYY-MM-DD */
+  dateFrom: string;
+  dateTo: string;
+  /** Required for caller reports: the agent's user id */
+  agentId?: string;
+  /** Required for template reports, optional filter for the others */
+  templateId?: string;
+  /** IANA zone the dates are days in; UTC when omitted */
+  timeZone?: string;
+}
+
+/** Numbers stay numbers so spreadsheets can sort and sum them */
+export type ReportCell = string | number | null;
+
+export interface ReportTable {
+  title: string;
+  columns: string[];
+  rows: ReportCell[][];
+}
+
+export interface ReportDocument {
+  title: string;
+  orgName: string;
+  dateFrom: string;
+  dateTo: string;
+  generatedAt: string;
+  summary: { label: string; value: ReportCell }[];
+  tables: ReportTable[];
+}
+
+export interface RenderedReport {
+  body: Buffer;
+  contentType: string;
+  extension: ReportFormat;
+}
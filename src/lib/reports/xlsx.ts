@@ -0,0 +1,187 @@
+/**
+ * XLSX Export
+ *
+ * Writes an Office Open XML workbook by hand: a Summary sheet followed by
+ * one sheet per report table. Strings are stored inline, so no shared
+ * strings part is needed, and header rows use a bold cell style.
+ *
+ * Format reference: ECMA-376 Part 1, SpreadsheetML (section 18)
+ */
+
+import { createZip } from "./zip";
+import type { ReportCell, ReportDocument } from "./types";
+
+interface Sheet {
+  name: string;
+  rows: ReportCell[][];
+  /** Row indexes rendered bold */
+  headerRows: number[];
+}
+
+const STYLE_BOLD = 1;
+
+export function escapeXml(value: string): string {
+  return value
+    // Characters XML 1.0 can't represent at all
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** 0 -> A, 25 -> Z, 26 -> AA */
+export function columnName(index: number): string {
+  let name = "";
+  let n = index + 1;
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    name = String.fromCharCode(65 + rem) + name;
+    n = Math.floor((n - 1) / 26);
+  }
+  return name;
+}
+
+/**
+ * Excel sheet names: at most 31 characters, none of []:*?/\ and unique
+ * (case-insensitively) within the workbook
+ */
+export function sheetName(title: string, used: Set<string>): string {
+  const base = title.replace(/[[\]:*?/\\]/g, " ").trim().slice(0, 31) || "Sheet";
+  let name = base;
+  for (let i = 2; used.has(name.toLowerCase()); i++) {
+    const suffix = ` (${i})`;
+    name = base.slice(0, 31 - suffix.length) + suffix;
+  }
+  used.add(name.toLowerCase());
+  return name;
+}
+
+function cellXml(value: ReportCell, ref: string, bold: boolean): string {
+  const style = bold ? ` s="${STYLE_BOLD}"` : "";
+  if (value === null || value === undefined) return "";
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? `<c r="${ref}"${style}><v>${value}</v></c>` : "";
+  }
+  return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+function sheetXml(sheet: Sheet): string {
+  const widths = new Map<number, number>();
+  sheet.rows.forEach((row) =>
+    row.forEach((value, col) => {
+      const length = value === null ? 0 : String(value).length;
+      widths.set(col, Math.max(widths.get(col) || 8, Math.min(length + 2, 60)));
+    })
+  );
+
+  const cols = widths.size
+    ? `<cols>${[...widths.entries()]
+        .map(([col, width]) => `<col min="${col + 1}" max="${col + 1}" width="${width}" customWidth="1"/>`)
+        .join("")}</cols>`
+    : "";
+
+  const rows = sheet.rows
+    .map((row, r) => {
+      const bold = sheet.headerRows.includes(r);
+      const cells = row.map((value, c) => cellXml(value, `${columnName(c)}${r + 1}`, bold)).join("");
+      return `<row r="${r + 1}">${cells}</row>`;
+    })
+    .join("");
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `${cols}<sheetData>${rows}</sheetData></worksheet>`
+  );
+}
+
+function buildSheets(report: ReportDocument): Sheet[] {
+  const used = new Set<string>();
+
+  const summary: Sheet = {
+    name: sheetName("Summary", used),
+    rows: [
+      [report.title],
+      ["Organization", report.orgName],
+      ["Period", `${report.dateFrom} to ${report.dateTo}`],
+      ["Generated", report.generatedAt],
+      [],
+      ...report.summary.map((item) => [item.label, item.value]),
+    ],
+    headerRows: [0],
+  };
+
+  return [
+    summary,
+    ...report.tables.map((table) => ({
+      name: sheetName(table.title, used),
+      rows: [table.columns, ...table.rows],
+      headerRows: [0],
+    })),
+  ];
+}
+
+export function renderXlsx(report: ReportDocument): Buffer {
+  const sheets = buildSheets(report);
+
+  const contentTypes =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    sheets
+      .map(
+        (_, i) =>
+          `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+      )
+      .join("") +
+    "</Types>";
+
+  const rootRels =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    "</Relationships>";
+
+  const workbook =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    `<sheets>${sheets
+      .map((sheet, i) => `<sheet name="${escapeXml(sheet.name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`)
+      .join("")}</sheets></workbook>`;
+
+  const workbookRels =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    sheets
+      .map(
+        (_, i) =>
+          `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`
+      )
+      .join("") +
+    `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+    "</Relationships>";
+
+  const styles =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+    '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+    '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+    '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+    '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+    "</styleSheet>";
+
+  return createZip([
+    { name: "[Content_Types].xml", data: contentTypes },
+    { name: "_rels/.rels", data: rootRels },
+    { name: "xl/workbook.xml", data: workbook },
+    { name: "xl/_rels/workbook.xml.rels", data: workbookRels },
+    { name: "xl/styles.xml", data: styles },
+    ...sheets.map((sheet, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, data: sheetXml(sheet) })),
+  ]);
+}
@@ -3,6 +3,7 @@
  *
  * Handles score calculation for different criteria types and scoring methods.
  * Supports: weighted, simple_average, pass_fail, points, custom_formula
+ * (formulas are parsed and evaluated by scoring-formula.ts)
  */
 
 import {
@@ -23,6 +24,12 @@ import {
   Template,
   CriteriaConfig,
 } from "@/types/database";
+import {
+  evaluateFormula,
+  getFormulaVariables,
+  FormulaGroupInput,
+  FormulaValue,
+} from "@/lib/scoring-formula";
 
 // ============================================================================
 // TYPES
@@ -47,6 +54,10 @@ export interface SessionScoreInput {
   template: Template;
   criteria: Criteria[];
   scores: ScoreInput[];
+  // Criteria groups, for group subtotals in custom formulas
+  groups?: FormulaGroupInput[];
+  // Formula from the session's template snapshot; overrides the template's
+  formula?: string | null;
 }
 
 // ============================================================================
@@ -309,6 +320,85 @@ export function calculateCriteriaScore(input: ScoreInput): CriteriaScoreResult {
   };
 }
 
+/**
+ * Weighted percentage of a set of criteria results (weighted method)
+ */
+function weightedPercentage(
+  results: CriteriaScoreResult[],
+  criteria: Criteria[]
+): number | null {
+  const ids = new Set(results.map((r) => r.criteriaId));
+  const totalWeight = criteria
+    .filter((c) => ids.has(c.id))
+    .reduce((sum, c) => sum + c.weight, 0);
+  if (totalWeight <= 0) return null;
+  const totalScore = results.reduce((sum, r) => sum + r.weightedScore, 0);
+  return (totalScore / totalWeight) * 100;
+}
+
+/**
+ * Values for every formula variable: criterion scores, group subtotals and
+ * the built-in weighted/average scores. N/A and unscored criteria are null.
+ */
+export function buildFormulaValues(
+  groups: FormulaGroupInput[],
+  criteria: Criteria[],
+  validResults: CriteriaScoreResult[]
+): Record<string, FormulaValue> {
+  const resultById = new Map(validResults.map((r) => [r.criteriaId, r]));
+  const values: Record<string, FormulaValue> = {
+    weighted: validResults.length > 0 ? weightedPercentage(validResults, criteria) ?? 0 : null,
+    average:
+      validResults.length > 0
+        ? validResults.reduce((sum, r) => sum + r.normalizedScore, 0) / validResults.length
+        : null,
+  };
+
+  for (const variable of getFormulaVariables(groups, criteria)) {
+    if (variable.kind === "criteria") {
+      values[variable.key] = resultById.get(variable.id!)?.normalizedScore ?? null;
+    } else if (variable.kind === "group") {
+      // Weighted subtotal of the group's scored criteria; plain average if unweighted
+      const groupResults = criteria
+        .filter((c) => c.group_id === variable.id)
+        .map((c) => resultById.get(c.id))
+        .filter((r): r is CriteriaScoreResult => r !== undefined);
+
+      values[variable.key] =
+        groupResults.length === 0
+          ? null
+          : weightedPercentage(groupResults, criteria) ??
+            groupResults.reduce((sum, r) => sum + r.normalizedScore, 0) / groupResults.length;
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Score a session with a custom formula, clamped to 0-100. Templates without
+ * a valid formula are scored by weight so a session can always complete.
+ */
+function calculateFormulaScore(
+  formula: string | null | undefined,
+  groups: FormulaGroupInput[],
+  criteria: Criteria[],
+  validResults: CriteriaScoreResult[]
+): { percentageScore: number; error?: string } {
+  const fallback = weightedPercentage(validResults, criteria) ?? 0;
+
+  if (!formula || !formula.trim()) {
+    return { percentageScore: fallback, error: "No scoring formula set; scored by weight" };
+  }
+
+  try {
+    const value = evaluateFormula(formula, buildFormulaValues(groups, criteria, validResults));
+    return { percentageScore: value === null ? 0 : Math.max(0, Math.min(100, value)) };
+  } catch (error) {
+    return { percentageScore: fallback, error: `${(error as Error).message}; scored by weight` };
+  }
+}
+
 /**
  * Calculate total session score based on scoring method
  */
@@ -349,6 +439,7 @@ export function calculateSessionScore(
   let totalScore = 0;
   let totalPossible = 0;
   let percentageScore = 0;
+  let formulaError: string | undefined;
 
   switch (scoringMethod) {
     case "weighted": {
@@ -398,15 +489,18 @@ export function calculateSessionScore(
     }
 
     case "custom_formula": {
-      // For custom formula, fall back to weighted for now
-      // Custom formulas would be evaluated separately
-      totalScore = validResults.reduce((sum, r) => sum + r.weightedScore, 0);
-      const validCriteriaIds = new Set(validResults.map((r) => r.criteriaId));
-      const totalWeight = criteria
-        .filter((c) => validCriteriaIds.has(c.id))
-        .reduce((sum, c) => sum + c.weight, 0);
-      totalPossible = totalWeight;
-      percentageScore = totalWeight > 0 ? (totalScore / totalWeight) * 100 : 0;
+      const formula =
+        input.formula !== undefined ? input.formula : template.scoring_formula;
+      const result = calculateFormulaScore(
+        formula,
+        input.groups || [],
+        criteria,
+        validResults
+      );
+      percentageScore = result.percentageScore;
+      totalScore = percentageScore;
+      totalPossible = 100;
+      formulaError = result.error;
       break;
     }
 
@@ -440,6 +534,7 @@ export function calculateSessionScore(
     pass_status: passStatus,
     has_auto_fail: hasAutoFail,
     auto_fail_criteria_ids: autoFailCriteriaIds,
+    ...(formulaError && { formula_error: formulaError }),
   };
 }
 
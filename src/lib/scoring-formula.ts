@@ -0,0 +1,625 @@
+/**
+ * Scoring Formula Language
+ *
+ * Small expression language for the `custom_formula` scoring method. Formulas
+ * are tokenized and parsed into an AST and evaluated by walking it; nothing is
+ * ever passed to eval/Function, and only the variables and functions listed
+ * here can be referenced.
+ *
+ * Variables:
+ *   - Criterion keys -> that criterion's normalized score (0-100)
+ *   - Group keys -> the group's weighted subtotal (0-100)
+ *   - `weighted`, `average` -> the template's weighted / simple average score
+ *
+ * N/A and unscored criteria are null. Arithmetic on null gives null,
+ * aggregates (min/max/avg/sum) skip nulls, if() treats null as false and
+ * coalesce() supplies a default.
+ *
+ * Example: if(compliance < 50, min(weighted, 60), avg(discovery, closing))
+ */
+
+import type { TemplateVersionSnapshot } from "@/types/database";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type FormulaValue = number | null;
+
+export type FormulaNode =
+  | { type: "number"; value: number }
+  | { type: "variable"; name: string; position: number }
+  | { type: "unary"; op: "-" | "!"; operand: FormulaNode }
+  | { type: "binary"; op: BinaryOperator; left: FormulaNode; right: FormulaNode }
+  | { type: "call"; name: string; args: FormulaNode[]; position: number };
+
+type BinaryOperator =
+  | "+"
+  | "-"
+  | "*"
+  | "/"
+  | "<"
+  | "<="
+  | ">"
+  | ">="
+  | "=="
+  | "!="
+  | "&&"
+  | "||";
+
+export interface FormulaGroupInput {
+  id: string;
+  name: string;
+  sort_order: number;
+}
+
+export interface FormulaCriteriaInput {
+  id: string;
+  name: string;
+  group_id?: string | null;
+  sort_order: number;
+}
+
+/**
+ * A name a formula can reference
+ */
+export interface FormulaVariable {
+  key: string;
+  kind: "criteria" | "group" | "builtin";
+  id?: string;
+  name: string;
+}
+
+export interface FormulaValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+/**
+ * Error for formulas that can't be parsed or reference unknown names
+ */
+export class FormulaError extends Error {
+  constructor(message: string, public readonly position?: number) {
+    super(position !== undefined ? `${message} (at position ${position + 1})` : message);
+    this.name = "FormulaError";
+  }
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const MAX_FORMULA_LENGTH = 2000;
+
+// Deep nesting is almost certainly a mistake and would risk the call stack
+const MAX_DEPTH = 64;
+
+export const BUILTIN_FORMULA_VARIABLES: FormulaVariable[] = [
+  { key: "weighted", kind: "builtin", name: "Weighted score" },
+  { key: "average", kind: "builtin", name: "Simple average score" },
+];
+
+// name -> [min args, max args]
+const FUNCTION_ARITY: Record<string, [number, number]> = {
+  min: [1, Infinity],
+  max: [1, Infinity],
+  avg: [1, Infinity],
+  sum: [1, Infinity],
+  coalesce: [1, Infinity],
+  if: [3, 3],
+  clamp: [3, 3],
+  round: [1, 2],
+  abs: [1, 1],
+};
+
+export const FORMULA_FUNCTIONS = Object.keys(FUNCTION_ARITY);
+
+// ============================================================================
+// TOKENIZER
+// ============================================================================
+
+type Token =
+  | { kind: "number"; value: number; position: number }
+  | { kind: "identifier"; value: string; position: number }
+  | { kind: "operator"; value: string; position: number }
+  | { kind: "end"; position: number };
+
+const OPERATORS = ["<=", ">=", "==", "!=", "&&", "||", "+", "-", "*", "/", "<", ">", "!", "(", ")", ","];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const numberMatch = /^(\d+(\.\d+)?|\.\d+)/.exec(source.slice(i));
+    if (numberMatch) {
+      tokens.push({ kind: "number", value: parseFloat(numberMatch[0]), position: i });
+      i += numberMatch[0].length;
+      continue;
+    }
+
+    const identifierMatch = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i));
+    if (identifierMatch) {
+      tokens.push({ kind: "identifier", value: identifierMatch[0], position: i });
+      i += identifierMatch[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, i));
+    if (operator) {
+      tokens.push({ kind: "operator", value: operator, position: i });
+      i += operator.length;
+      continue;
+    }
+
+    throw new FormulaError(`Unexpected character "${char}"`, i);
+  }
+
+  tokens.push({ kind: "end", position: source.length });
+  return tokens;
+}
+
+// ============================================================================
+// PARSER
+// ============================================================================
+
+/**
+ * Recursive-descent parser. Precedence, lowest first:
+ *   ||  &&  comparisons  + -  * /  unary - !
+ */
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): FormulaNode {
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next.kind !== "end") {
+      throw new FormulaError(`Unexpected "${this.describe(next)}"`, next.position);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private describe(token: Token): string {
+    return token.kind === "end" ? "end of formula" : String(token.value);
+  }
+
+  private matchOperator(...ops: string[]): string | null {
+    const token = this.peek();
+    if (token.kind === "operator" && ops.includes(token.value)) {
+      this.index++;
+      return token.value;
+    }
+    return null;
+  }
+
+  private expectOperator(op: string): void {
+    const token = this.peek();
+    if (token.kind !== "operator" || token.value !== op) {
+      throw new FormulaError(`Expected "${op}" but found "${this.describe(token)}"`, token.position);
+    }
+    this.index++;
+  }
+
+  private parseBinary(ops: string[], parseOperand: () => FormulaNode): FormulaNode {
+    let left = parseOperand();
+    let op = this.matchOperator(...ops);
+    while (op) {
+      const right = parseOperand();
+      left = { type: "binary", op: op as BinaryOperator, left, right };
+      op = this.matchOperator(...ops);
+    }
+    return left;
+  }
+
+  private parseOr(): FormulaNode {
+    this.depth++;
+    if (this.depth > MAX_DEPTH) {
+      throw new FormulaError("Formula is nested too deeply", this.peek().position);
+    }
+    const node = this.parseBinary(["||"], () => this.parseAnd());
+    this.depth--;
+    return node;
+  }
+
+  private parseAnd(): FormulaNode {
+    return this.parseBinary(["&&"], () => this.parseComparison());
+  }
+
+  private parseComparison(): FormulaNode {
+    return this.parseBinary(["<=", ">=", "==", "!=", "<", ">"], () => this.parseAdditive());
+  }
+
+  private parseAdditive(): FormulaNode {
+    return this.parseBinary(["+", "-"], () => this.parseMultiplicative());
+  }
+
+  private parseMultiplicative(): FormulaNode {
+    return this.parseBinary(["*", "/"], () => this.parseUnary());
+  }
+
+  private parseUnary(): FormulaNode {
+    const op = this.matchOperator("-", "!");
+    if (op) {
+      return { type: "unary", op: op as "-" | "!", operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): FormulaNode {
+    const token = this.next();
+
+    if (token.kind === "number") {
+      return { type: "number", value: token.value };
+    }
+
+    if (token.kind === "identifier") {
+      if (this.matchOperator("(")) {
+        const args: FormulaNode[] = [];
+        if (!this.matchOperator(")")) {
+          do {
+            args.push(this.parseOr());
+          } while (this.matchOperator(","));
+          this.expectOperator(")");
+        }
+        return { type: "call", name: token.value, args, position: token.position };
+      }
+      return { type: "variable", name: token.value, position: token.position };
+    }
+
+    if (token.kind === "operator" && token.value === "(") {
+      const node = this.parseOr();
+      this.expectOperator(")");
+      return node;
+    }
+
+    throw new FormulaError(`Unexpected "${this.describe(token)}"`, token.position);
+  }
+}
+
+/**
+ * Parse a formula into an AST.
+ *
+ * @throws FormulaError on syntax errors
+ */
+export function parseFormula(source: string): FormulaNode {
+  if (!source.trim()) {
+    throw new FormulaError("Formula is empty");
+  }
+  if (source.length > MAX_FORMULA_LENGTH) {
+    throw new FormulaError(`Formula must be at most ${MAX_FORMULA_LENGTH} characters`);
+  }
+  return new Parser(tokenize(source)).parse();
+}
+
+/**
+ * Syntax error message for a formula, or null if it parses. Used where the
+ * template's criteria aren't known yet (e.g. saving before criteria exist).
+ */
+export function getFormulaSyntaxError(source: string): string | null {
+  try {
+    parseFormula(source);
+    return null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+}
+
+// ============================================================================
+// VARIABLES
+// ============================================================================
+
+/**
+ * Turn a display name into a formula key: "Needs Discovery!" -> needs_discovery
+ */
+export function toFormulaKey(name: string): string {
+  const key = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+
+  if (!key) return "item";
+  return /^\d/.test(key) ? `_${key}` : key;
+}
+
+/**
+ * Assign formula keys to a template's groups and criteria.
+ *
+ * Keys come from names. Groups are keyed first, then criteria, each in sort
+ * order; a name that's already taken (or is a built-in or function name) gets
+ * a numeric suffix, e.g. `rapport_2`.
+ */
+export function getFormulaVariables(
+  groups: FormulaGroupInput[],
+  criteria: FormulaCriteriaInput[]
+): FormulaVariable[] {
+  const taken = new Set<string>([
+    ...BUILTIN_FORMULA_VARIABLES.map((v) => v.key),
+    ...FORMULA_FUNCTIONS,
+  ]);
+
+  const assignKey = (name: string): string => {
+    const base = toFormulaKey(name);
+    let key = base;
+    for (let n = 2; taken.has(key); n++) {
+      key = `${base}_${n}`;
+    }
+    taken.add(key);
+    return key;
+  };
+
+  const bySortOrder = <T extends { sort_order: number; id: string }>(a: T, b: T) =>
+    a.sort_order - b.sort_order || a.id.localeCompare(b.id);
+
+  const groupVariables: FormulaVariable[] = [...groups].sort(bySortOrder).map((g) => ({
+    key: assignKey(g.name),
+    kind: "group",
+    id: g.id,
+    name: g.name,
+  }));
+
+  const criteriaVariables: FormulaVariable[] = [...criteria].sort(bySortOrder).map((c) => ({
+    key: assignKey(c.name),
+    kind: "criteria",
+    id: c.id,
+    name: c.name,
+  }));
+
+  return [...BUILTIN_FORMULA_VARIABLES, ...groupVariables, ...criteriaVariables];
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+function collectErrors(node: FormulaNode, keys: Set<string>, errors: string[]): void {
+  switch (node.type) {
+    case "number":
+      return;
+    case "variable":
+      if (!keys.has(node.name)) {
+        errors.push(new FormulaError(`Unknown variable "${node.name}"`, node.position).message);
+      }
+      return;
+    case "unary":
+      collectErrors(node.operand, keys, errors);
+      return;
+    case "binary":
+      collectErrors(node.left, keys, errors);
+      collectErrors(node.right, keys, errors);
+      return;
+    case "call": {
+      const arity = FUNCTION_ARITY[node.name];
+      if (!arity) {
+        errors.push(new FormulaError(`Unknown function "${node.name}"`, node.position).message);
+      } else if (node.args.length < arity[0] || node.args.length > arity[1]) {
+        const expected =
+          arity[0] === arity[1]
+            ? `${arity[0]}`
+            : arity[1] === Infinity
+              ? `at least ${arity[0]}`
+              : `${arity[0]}-${arity[1]}`;
+        errors.push(
+          new FormulaError(
+            `${node.name}() takes ${expected} argument${expected === "1" ? "" : "s"}, got ${node.args.length}`,
+            node.position
+          ).message
+        );
+      }
+      node.args.forEach((arg) => collectErrors(arg, keys, errors));
+      return;
+    }
+  }
+}
+
+/**
+ * Check a formula's syntax and that every variable and function it uses
+ * exists.
+ *
+ * @param source - Formula text
+ * @param variables - Variables available to the template
+ */
+export function validateFormula(
+  source: string,
+  variables: FormulaVariable[]
+): FormulaValidationResult {
+  let ast: FormulaNode;
+  try {
+    ast = parseFormula(source);
+  } catch (error) {
+    return { valid: false, errors: [(error as Error).message] };
+  }
+
+  const errors: string[] = [];
+  collectErrors(ast, new Set(variables.map((v) => v.key)), errors);
+  return { valid: errors.length === 0, errors };
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+function truthy(value: FormulaValue): boolean {
+  return value !== null && value !== 0;
+}
+
+function present(values: FormulaValue[]): number[] {
+  return values.filter((v): v is number => v !== null);
+}
+
+function callFunction(name: string, args: FormulaValue[]): FormulaValue {
+  switch (name) {
+    case "min": {
+      const values = present(args);
+      return values.length ? Math.min(...values) : null;
+    }
+    case "max": {
+      const values = present(args);
+      return values.length ? Math.max(...values) : null;
+    }
+    case "sum": {
+      const values = present(args);
+      return values.length ? values.reduce((a, b) => a + b, 0) : null;
+    }
+    case "avg": {
+      const values = present(args);
+      return values.length ? values.reduce((a, b) => a + b, 0) / values.length : null;
+    }
+    case "coalesce":
+      return args.find((v) => v !== null) ?? null;
+    case "clamp": {
+      const [value, low, high] = args;
+      if (value === null || low === null || high === null) return null;
+      return Math.min(Math.max(value, low), high);
+    }
+    case "round": {
+      const [value, places = 0] = args;
+      if (value === null || places === null) return null;
+      const factor = Math.pow(10, Math.max(0, Math.min(10, Math.trunc(places))));
+      return Math.round(value * factor) / factor;
+    }
+    case "abs":
+      return args[0] === null ? null : Math.abs(args[0]);
+    default:
+      throw new FormulaError(`Unknown function "${name}"`);
+  }
+}
+
+function evaluateNode(node: FormulaNode, variables: Record<string, FormulaValue>): FormulaValue {
+  switch (node.type) {
+    case "number":
+      return node.value;
+
+    case "variable":
+      if (!(node.name in variables)) {
+        throw new FormulaError(`Unknown variable "${node.name}"`, node.position);
+      }
+      return variables[node.name];
+
+    case "unary": {
+      const operand = evaluateNode(node.operand, variables);
+      if (node.op === "!") return truthy(operand) ? 0 : 1;
+      return operand === null ? null : -operand;
+    }
+
+    case "binary": {
+      // Short-circuit logic so the untaken side may be null
+      if (node.op === "&&") {
+        return truthy(evaluateNode(node.left, variables)) && truthy(evaluateNode(node.right, variables)) ? 1 : 0;
+      }
+      if (node.op === "||") {
+        return truthy(evaluateNode(node.left, variables)) || truthy(evaluateNode(node.right, variables)) ? 1 : 0;
+      }
+
+      const left = evaluateNode(node.left, variables);
+      const right = evaluateNode(node.right, variables);
+      if (left === null || right === null) return null;
+
+      switch (node.op) {
+        case "+":
+          return left + right;
+        case "-":
+          return left - right;
+        case "*":
+          return left * right;
+        case "/":
+          return right === 0 ? null : left / right;
+        case "<":
+          return left < right ? 1 : 0;
+        case "<=":
+          return left <= right ? 1 : 0;
+        case ">":
+          return left > right ? 1 : 0;
+        case ">=":
+          return left >= right ? 1 : 0;
+        case "==":
+          return left === right ? 1 : 0;
+        case "!=":
+          return left !== right ? 1 : 0;
+      }
+      return null;
+    }
+
+    case "call": {
+      // if() only evaluates the branch it takes
+      if (node.name === "if") {
+        if (node.args.length !== 3) {
+          throw new FormulaError("if() takes 3 arguments", node.position);
+        }
+        const condition = evaluateNode(node.args[0], variables);
+        return evaluateNode(truthy(condition) ? node.args[1] : node.args[2], variables);
+      }
+      const arity = FUNCTION_ARITY[node.name];
+      if (!arity) {
+        throw new FormulaError(`Unknown function "${node.name}"`, node.position);
+      }
+      if (node.args.length < arity[0] || node.args.length > arity[1]) {
+        throw new FormulaError(`Wrong number of arguments to ${node.name}()`, node.position);
+      }
+      return callFunction(
+        node.name,
+        node.args.map((arg) => evaluateNode(arg, variables))
+      );
+    }
+  }
+}
+
+/**
+ * Evaluate a formula (text or parsed AST) against variable values.
+ *
+ * @returns The result, or null if it depends on N/A or unscored values
+ * @throws FormulaError on syntax errors or unknown names
+ */
+export function evaluateFormula(
+  formula: string | FormulaNode,
+  variables: Record<string, FormulaValue>
+): FormulaValue {
+  const ast = typeof formula === "string" ? parseFormula(formula) : formula;
+  const result = evaluateNode(ast, variables);
+  return result === null || Number.isFinite(result) ? result : null;
+}
+
+// ============================================================================
+// SNAPSHOTS
+// ============================================================================
+
+/**
+ * Formula recorded in a session's template snapshot.
+ *
+ * Snapshots are stored either as { template, groups, criteria } or (from
+ * calendar sync) with the template columns at the top level.
+ *
+ * @returns The formula, null if the template had none, or undefined if the
+ * snapshot predates formulas and the live template should be used
+ */
+export function getSnapshotFormula(
+  snapshot: TemplateVersionSnapshot | Record<string, unknown> | null | undefined
+): string | null | undefined {
+  if (!snapshot) return undefined;
+
+  const template = (snapshot as { template?: unknown }).template;
+  const source =
+    template && typeof template === "object"
+      ? (template as Record<string, unknown>)
+      : (snapshot as Record<string, unknown>);
+
+  if (!("scoring_formula" in source)) return undefined;
+  return typeof source.scoring_formula === "string" ? source.scoring_formula : null;
+}
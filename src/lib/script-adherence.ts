@@ -0,0 +1,296 @@
+/**
+ * Script Adherence
+ *
+ * Scores how closely a call followed the org's default script. Each script
+ * section is split into key phrases; a phrase's match is the best transcript
+ * window by word and word-pair recall, so paraphrases score partially and
+ * verbatim delivery scores fully. Section order is checked against the
+ * positions where covered sections were best matched.
+ *
+ * Everything here is computed from the text, so results are deterministic
+ * and independent of the analysis model.
+ */
+
+import type {
+  ScriptAdherenceResult,
+  ScriptSection,
+  ScriptSectionAdherence,
+} from "@/types/database";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// A section scoring at least this (0-100) counts as covered
+export const SECTION_COVERED_THRESHOLD = 50;
+
+// Transcript lines combined into one candidate window
+const WINDOW_LINES = 3;
+
+// Share of the overall score that comes from section order
+const ORDER_WEIGHT = 0.2;
+
+const MAX_EXCERPT_LENGTH = 280;
+
+// Phrases shorter than this (content words) are too generic to match on
+const MIN_PHRASE_WORDS = 2;
+
+const STOPWORDS = new Set([
+  "a", "an", "the", "and", "or", "but", "if", "so", "to", "of", "in", "on", "at", "for",
+  "with", "by", "from", "as", "is", "are", "was", "were", "be", "been", "am", "it", "its",
+  "this", "that", "these", "those", "i", "you", "we", "they", "he", "she", "me", "us",
+  "them", "my", "your", "our", "their", "do", "does", "did", "have", "has", "had", "will",
+  "would", "can", "could", "just", "about", "up", "out", "not", "no", "yes", "oh", "um",
+  "uh", "okay", "ok", "really", "very", "there", "here", "what", "which", "who",
+]);
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ScriptAdherenceOptions {
+  // Only score lines spoken by this speaker, when the transcript is labeled
+  repName?: string | null;
+}
+
+interface TranscriptLine {
+  index: number;
+  speaker: string | null;
+  text: string;
+}
+
+interface PhraseMatch {
+  score: number;
+  lineIndex: number;
+  size: number;
+  excerpt: string;
+}
+
+// ============================================================================
+// TEXT HELPERS
+// ============================================================================
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[’']/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+function contentWords(words: string[]): string[] {
+  return words.filter((w) => !STOPWORDS.has(w));
+}
+
+function bigrams(words: string[]): string[] {
+  const pairs: string[] = [];
+  for (let i = 0; i < words.length - 1; i++) {
+    pairs.push(`${words[i]} ${words[i + 1]}`);
+  }
+  return pairs;
+}
+
+function recall(needles: string[], haystack: Set<string>): number {
+  if (needles.length === 0) return 0;
+  return needles.filter((n) => haystack.has(n)).length / needles.length;
+}
+
+/**
+ * Split transcript text into lines, peeling off "[00:01:02]" timestamps and
+ * "Speaker:" labels as written by the Meet and transcription pipelines
+ */
+export function parseTranscriptLines(transcript: string): TranscriptLine[] {
+  return transcript
+    .split(/\r?\n/)
+    .map((raw) => raw.trim().replace(/^\[[\d:.]+\]\s*/, ""))
+    .filter(Boolean)
+    .map((line, index) => {
+      const label = /^([^:.!?]{1,40}):\s+(.+)$/.exec(line);
+      const speaker = label ? label[1].trim() : null;
+      const text = label ? label[2] : line;
+      return { index, speaker, text };
+    });
+}
+
+/**
+ * Key phrases of a section: its sentences, or the whole content if it has
+ * no sentence breaks
+ */
+export function getSectionPhrases(section: Pick<ScriptSection, "content">): string[] {
+  return section.content
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((p) => p.trim())
+    .filter((p) => contentWords(tokenize(p)).length >= MIN_PHRASE_WORDS);
+}
+
+/**
+ * How much of a phrase a window contains: content-word recall for coverage,
+ * word-pair recall for phrasing
+ */
+export function scorePhrase(phrase: string, windowText: string): number {
+  const phraseWords = tokenize(phrase);
+  const windowWords = tokenize(windowText);
+
+  const wordScore = recall(contentWords(phraseWords), new Set(windowWords));
+  const pairs = bigrams(phraseWords);
+  const pairScore = pairs.length > 0 ? recall(pairs, new Set(bigrams(windowWords))) : wordScore;
+
+  return wordScore * 0.6 + pairScore * 0.4;
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_EXCERPT_LENGTH ? `${text.slice(0, MAX_EXCERPT_LENGTH - 1)}…` : text;
+}
+
+function bestMatch(phrase: string, lines: TranscriptLine[]): PhraseMatch | null {
+  let best: PhraseMatch | null = null;
+
+  for (let start = 0; start < lines.length; start++) {
+    for (let size = 1; size <= WINDOW_LINES && start + size <= lines.length; size++) {
+      const window = lines.slice(start, start + size);
+      const text = window.map((l) => l.text).join(" ");
+      const score = scorePhrase(phrase, text);
+      // On ties prefer the tightest window, so lines that add nothing to the
+      // match don't pull the section's position earlier
+      if (!best || score > best.score || (score === best.score && size < best.size)) {
+        best = { score, lineIndex: window[0].index, size, excerpt: truncate(text) };
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Indices (into positions) of a longest strictly increasing subsequence
+ */
+function longestIncreasing(positions: number[]): Set<number> {
+  const n = positions.length;
+  const length = new Array<number>(n).fill(1);
+  const previous = new Array<number>(n).fill(-1);
+
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < i; j++) {
+      if (positions[j] < positions[i] && length[j] + 1 > length[i]) {
+        length[i] = length[j] + 1;
+        previous[i] = j;
+      }
+    }
+  }
+
+  let end = -1;
+  for (let i = 0; i < n; i++) {
+    if (end === -1 || length[i] > length[end]) end = i;
+  }
+
+  const result = new Set<number>();
+  for (let i = end; i !== -1; i = previous[i]) {
+    result.add(i);
+  }
+  return result;
+}
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+/**
+ * Score a transcript against a script's sections.
+ *
+ * @returns null when there's nothing to compare (no sections or no text)
+ */
+export function computeScriptAdherence(
+  sections: ScriptSection[],
+  transcript: string,
+  options: ScriptAdherenceOptions = {}
+): ScriptAdherenceResult | null {
+  const ordered = [...sections].sort((a, b) => a.order - b.order);
+  let lines = parseTranscriptLines(transcript);
+
+  if (options.repName) {
+    const repName = options.repName.toLowerCase();
+    const repLines = lines.filter((l) => l.speaker?.toLowerCase() === repName);
+    // Unlabeled transcripts and notes are scored as a whole
+    if (repLines.length > 0) lines = repLines;
+  }
+
+  if (ordered.length === 0 || lines.length === 0) {
+    return null;
+  }
+
+  const results: ScriptSectionAdherence[] = ordered.map((section) => {
+    const phrases = getSectionPhrases(section);
+    const matches = phrases.map((phrase) => ({ phrase, match: bestMatch(phrase, lines) }));
+
+    const scores = matches.map((m) => m.match?.score ?? 0);
+    const score = scores.length > 0
+      ? Math.round((scores.reduce((sum, s) => sum + s, 0) / scores.length) * 100)
+      : 0;
+
+    const strongest = matches.reduce<(typeof matches)[number] | null>(
+      (best, m) => (m.match && (!best?.match || m.match.score > best.match.score) ? m : best),
+      null
+    );
+
+    const covered = score >= SECTION_COVERED_THRESHOLD;
+    const excerpts = matches
+      .filter((m) => m.match && m.match.score * 100 >= SECTION_COVERED_THRESHOLD)
+      .map((m) => ({
+        phrase: m.phrase,
+        excerpt: m.match!.excerpt,
+        similarity: Math.round(m.match!.score * 100),
+      }));
+
+    return {
+      section_id: section.id,
+      section_name: section.name,
+      order: section.order,
+      score,
+      covered,
+      // Order is only judged for covered sections
+      position: covered && strongest?.match ? strongest.match.lineIndex : null,
+      in_order: covered ? true : null,
+      phrases_matched: excerpts.length,
+      phrases_total: phrases.length,
+      excerpts,
+    };
+  });
+
+  // Covered sections outside the longest in-order run are out of order
+  const coveredResults = results.filter((r) => r.position !== null);
+  const inOrder = longestIncreasing(coveredResults.map((r) => r.position!));
+  coveredResults.forEach((r, i) => {
+    r.in_order = inOrder.has(i);
+  });
+
+  const coverageScore = results.reduce((sum, r) => sum + r.score, 0) / results.length;
+  const orderScore = coveredResults.length > 0 ? inOrder.size / coveredResults.length : 0;
+
+  return {
+    overall_score: Math.round(coverageScore * (1 - ORDER_WEIGHT) + orderScore * 100 * ORDER_WEIGHT),
+    coverage_score: Math.round(coverageScore),
+    order_score: Math.round(orderScore * 100),
+    sections_covered: coveredResults.length,
+    sections_total: results.length,
+    sections: results,
+  };
+}
+
+/**
+ * Script summary for the analysis prompt, so feedback can reference it
+ */
+export function describeScript(name: string, sections: ScriptSection[]): string {
+  const ordered = [...sections].sort((a, b) => a.order - b.order);
+  if (ordered.length === 0) return "";
+
+  const lines = ordered.map((s, i) => {
+    const content = s.content.length > 300 ? `${s.content.slice(0, 299)}…` : s.content;
+    return `${i + 1}. ${s.name}: ${content}`;
+  });
+
+  return `## Call Script (${name}):
+The rep is expected to cover these sections in order:
+${lines.join("\n")}
+
+`;
+}
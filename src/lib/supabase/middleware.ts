@@ -1,5 +1,8 @@
 import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { createClient as createSupabaseClient } from "@supabase/supabase-js";
 import { NextResponse, type NextRequest } from "next/server";
+import { MFA_COOKIE_NAME, verifyMfaToken } from "@/lib/mfa-session";
+import { isApiKeyFormat } from "@/lib/api-keys";
 
 // Sanitize UUID by removing any trailing suffix (e.g., `:1`)
 function sanitizeUUID(uuid: string): string {
@@ -59,6 +62,70 @@ function addSecurityHeaders(response: NextResponse): NextResponse {
   return response;
 }
 
+// Routes reachable before the second factor: the challenge/enrollment page,
+// the 2FA API and the OAuth/magic-link callback
+const mfaExemptPrefixes = ["/two-factor", "/api/auth/", "/auth/"];
+
+interface MfaStatus {
+  enrolled: boolean;
+  required: boolean;
+}
+
+/**
+ * Block users who haven't passed the second factor in this browser: pages
+ * redirect to /two-factor, API routes get a 403 with a machine-readable code
+ */
+async function enforceMfa(
+  request: NextRequest,
+  supabase: { rpc: (fn: string) => PromiseLike<{ data: unknown; error: unknown }> },
+  userId: string
+): Promise<NextResponse | null> {
+  const marker = request.cookies.get(MFA_COOKIE_NAME)?.value;
+  if (await verifyMfaToken(marker, userId)) {
+    return null;
+  }
+
+  const { data, error } = await supabase.rpc("mfa_status");
+
+  // Fail closed: a failed check is treated as enrolled, so the second
+  // factor can't be skipped by making the lookup error. No data means the
+  // user has no profile row yet, which enrollment needs.
+  if (error) {
+    console.error("MFA status check failed:", error);
+  }
+
+  const status: MfaStatus = error
+    ? { enrolled: true, required: false }
+    : ((data as MfaStatus | null) ?? { enrolled: false, required: false });
+  if (!status.enrolled && !status.required) {
+    return null;
+  }
+
+  const code = status.enrolled ? "MFA_REQUIRED" : "MFA_ENROLLMENT_REQUIRED";
+
+  if (request.nextUrl.pathname.startsWith("/api/")) {
+    return addSecurityHeaders(
+      NextResponse.json(
+        {
+          error: "Two-factor authentication required",
+          message: status.enrolled
+            ? "Enter your authentication code to continue"
+            : "Your organization requires two-factor authentication",
+          code,
+        },
+        { status: 403 }
+      )
+    );
+  }
+
+  const redirectUrl = new URL("/two-factor", request.url);
+  redirectUrl.searchParams.set("redirect", request.nextUrl.pathname + request.nextUrl.search);
+  if (!status.enrolled) {
+    redirectUrl.searchParams.set("enroll", "1");
+  }
+  return NextResponse.redirect(redirectUrl);
+}
+
 export async function updateSession(request: NextRequest) {
   let response = NextResponse.next({
     request: {
@@ -108,7 +175,7 @@ export async function updateSession(request: NextRequest) {
   } = await supabase.auth.getUser();
 
   // Protected routes
-  const protectedRoutes = ["/dashboard", "/settings", "/admin"];
+  const protectedRoutes = ["/dashboard", "/settings", "/admin", "/two-factor"];
   const isProtectedRoute = protectedRoutes.some((route) =>
     request.nextUrl.pathname.startsWith(route)
   );
@@ -119,8 +186,15 @@ export async function updateSession(request: NextRequest) {
     request.nextUrl.pathname.startsWith(route)
   );
 
-  // Webhook routes (should bypass auth)
-  const isWebhookRoute = request.nextUrl.pathname.startsWith("/api/webhook");
+  // Inbound webhook routes (should bypass auth). The trailing slash keeps
+  // /api/webhooks (outbound subscription management) behind auth and 2FA.
+  // The billing and Zoom webhooks are verified by their provider signatures
+  // instead, and the calendar webhook by its channel token.
+  const isWebhookRoute =
+    request.nextUrl.pathname.startsWith("/api/webhook/") ||
+    request.nextUrl.pathname === "/api/billing/webhook" ||
+    request.nextUrl.pathname === "/api/calendar/webhook" ||
+    request.nextUrl.pathname === "/api/zoom/webhook";
 
   if (isWebhookRoute) {
     return response;
@@ -136,6 +210,39 @@ export async function updateSession(request: NextRequest) {
     return NextResponse.redirect(new URL("/dashboard", request.url));
   }
 
+  // Second factor, for cookie sessions and Supabase access tokens alike
+  const pathname = request.nextUrl.pathname;
+  const isApiRoute = pathname.startsWith("/api/");
+  const isMfaExempt = mfaExemptPrefixes.some((prefix) => pathname.startsWith(prefix));
+
+  if ((isProtectedRoute || isApiRoute) && !isMfaExempt) {
+    if (user) {
+      const mfaResponse = await enforceMfa(request, supabase, user.id);
+      if (mfaResponse) return mfaResponse;
+    } else if (isApiRoute) {
+      const authHeader = request.headers.get("authorization");
+      // Org API keys have no user session; requireAuthOrApiKey checks them
+      if (authHeader?.startsWith("Bearer ") && !isApiKeyFormat(authHeader.slice("Bearer ".length))) {
+        const tokenClient = createSupabaseClient(
+          process.env.NEXT_PUBLIC_SUPABASE_URL!,
+          process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+          {
+            global: { headers: { Authorization: authHeader } },
+            auth: { autoRefreshToken: false, persistSession: false },
+          }
+        );
+        // Non-JWT bearer tokens (extension tokens) resolve to no user here
+        const {
+          data: { user: tokenUser },
+        } = await tokenClient.auth.getUser(authHeader.slice("Bearer ".length));
+        if (tokenUser) {
+          const mfaResponse = await enforceMfa(request, tokenClient, tokenUser.id);
+          if (mfaResponse) return mfaResponse;
+        }
+      }
+    }
+  }
+
   // Admin routes - check for superadmin role
   if (request.nextUrl.pathname.startsWith("/admin")) {
     if (!user) {
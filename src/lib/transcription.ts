@@ -0,0 +1,406 @@
+/**
+ * Audio Transcription Worker
+ *
+ * Turns recordings uploaded via /api/calls/upload into speaker-labelled
+ * transcripts, then hands the call to the analysis queue.
+ *
+ * Call status: pending -> transcribing -> processing -> analyzed
+ *
+ * The transcription API accepts at most 25MB per request, while uploads may
+ * be up to 50MB. Larger MP3 and WAV files are split on frame/sample
+ * boundaries; other containers cannot be cut without re-encoding.
+ */
+
+import { createAdminClient } from "@/lib/supabase/server";
+import { transcribeAudio, type TranscriptSegment } from "@/lib/openai";
+import { computeCallMetrics } from "@/lib/call-metrics";
+import { emitWebhookEvent } from "@/lib/webhooks";
+
+// Stay under the 25MB API limit with room for multipart overhead
+export const MAX_TRANSCRIPTION_CHUNK_BYTES = 24 * 1024 * 1024;
+
+const RECORDINGS_BUCKET = "call-recordings";
+
+interface UploadMetadata {
+  storage_path?: string;
+  upload_filename?: string;
+  upload_type?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Error for recordings that can't be transcribed no matter how often we retry
+ */
+export class TranscriptionError extends Error {
+  constructor(message: string, public readonly retryable: boolean = true) {
+    super(message);
+    this.name = "TranscriptionError";
+  }
+}
+
+// ============================================================================
+// CHUNKING
+// ============================================================================
+
+/**
+ * Find the next MPEG audio frame sync (11 set bits) at or after `from`
+ */
+function findMp3FrameSync(buffer: Buffer, from: number): number {
+  for (let i = from; i < buffer.length - 1; i++) {
+    if (buffer[i] === 0xff && (buffer[i + 1] & 0xe0) === 0xe0) {
+      return i;
+    }
+  }
+  return buffer.length;
+}
+
+/**
+ * Split an MP3 at frame boundaries. Decoders resync on the next frame,
+ * so each piece is independently playable.
+ */
+function splitMp3(buffer: Buffer, maxBytes: number): Buffer[] {
+  const chunks: Buffer[] = [];
+  let start = 0;
+
+  while (start < buffer.length) {
+    if (buffer.length - start <= maxBytes) {
+      chunks.push(buffer.subarray(start));
+      break;
+    }
+
+    // Back off from the hard limit so the frame search can't overshoot it
+    let end = findMp3FrameSync(buffer, start + maxBytes - 4096);
+    if (end - start > maxBytes || end <= start) {
+      end = start + maxBytes;
+    }
+
+    chunks.push(buffer.subarray(start, end));
+    start = end;
+  }
+
+  return chunks;
+}
+
+/**
+ * Split a RIFF/WAVE file into several valid WAV files, each with a copy of
+ * the original fmt chunk and a slice of the sample data.
+ */
+function splitWav(buffer: Buffer, maxBytes: number): Buffer[] {
+  if (buffer.toString("ascii", 0, 4) !== "RIFF" || buffer.toString("ascii", 8, 12) !== "WAVE") {
+    throw new TranscriptionError("Invalid WAV file", false);
+  }
+
+  let fmtChunk: Buffer | null = null;
+  let blockAlign = 1;
+  let dataStart = -1;
+  let dataLength = 0;
+
+  for (let offset = 12; offset + 8 <= buffer.length; ) {
+    const id = buffer.toString("ascii", offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+
+    if (id === "fmt ") {
+      fmtChunk = buffer.subarray(offset, offset + 8 + size);
+      blockAlign = buffer.readUInt16LE(offset + 8 + 12) || 1;
+    } else if (id === "data") {
+      dataStart = offset + 8;
+      dataLength = Math.min(size, buffer.length - dataStart);
+      break;
+    }
+
+    offset += 8 + size + (size % 2); // Chunks are word-aligned
+  }
+
+  if (!fmtChunk || dataStart < 0) {
+    throw new TranscriptionError("WAV file is missing fmt or data chunk", false);
+  }
+
+  const headerSize = 12 + fmtChunk.length + 8;
+  const samplesPerChunk = Math.floor((maxBytes - headerSize) / blockAlign) * blockAlign;
+  const chunks: Buffer[] = [];
+
+  for (let pos = 0; pos < dataLength; pos += samplesPerChunk) {
+    const data = buffer.subarray(dataStart + pos, dataStart + Math.min(pos + samplesPerChunk, dataLength));
+
+    const header = Buffer.alloc(12);
+    header.write("RIFF", 0, "ascii");
+    header.writeUInt32LE(4 + fmtChunk.length + 8 + data.length, 4);
+    header.write("WAVE", 8, "ascii");
+
+    const dataHeader = Buffer.alloc(8);
+    dataHeader.write("data", 0, "ascii");
+    dataHeader.writeUInt32LE(data.length, 4);
+
+    chunks.push(Buffer.concat([header, fmtChunk, dataHeader, data]));
+  }
+
+  return chunks;
+}
+
+/**
+ * Split audio into pieces the transcription API will accept.
+ *
+ * @param buffer - The full recording
+ * @param mimeType - MIME type recorded at upload
+ * @param maxBytes - Maximum size of each piece
+ */
+export function splitAudioForTranscription(
+  buffer: Buffer,
+  mimeType: string,
+  maxBytes: number = MAX_TRANSCRIPTION_CHUNK_BYTES
+): Buffer[] {
+  if (buffer.length <= maxBytes) {
+    return [buffer];
+  }
+
+  switch (mimeType) {
+    case "audio/mpeg":
+    case "audio/mp3":
+      return splitMp3(buffer, maxBytes);
+    case "audio/wav":
+    case "audio/x-wav":
+    case "audio/wave":
+      return splitWav(buffer, maxBytes);
+    default:
+      throw new TranscriptionError(
+        `Recordings over ${Math.floor(maxBytes / (1024 * 1024))}MB must be MP3 or WAV to be transcribed`,
+        false
+      );
+  }
+}
+
+// ============================================================================
+// TRANSCRIPT ASSEMBLY
+// ============================================================================
+
+/**
+ * Render segments as "Speaker A: ..." lines, merging consecutive segments
+ * from the same speaker.
+ */
+export function formatSpeakerTranscript(segments: TranscriptSegment[]): string {
+  const lines: string[] = [];
+  let currentSpeaker: string | null | undefined;
+
+  for (const segment of segments) {
+    if (!segment.text) continue;
+
+    if (segment.speaker === currentSpeaker && lines.length > 0) {
+      lines[lines.length - 1] += ` ${segment.text}`;
+    } else {
+      lines.push(segment.speaker ? `Speaker ${segment.speaker}: ${segment.text}` : segment.text);
+      currentSpeaker = segment.speaker;
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Transcribe a recording, chunking if needed, and shift each chunk's
+ * timestamps so segments are relative to the start of the whole file.
+ * Speaker labels are assigned per chunk by the model.
+ */
+export async function transcribeRecording(
+  buffer: Buffer,
+  filename: string,
+  mimeType: string
+): Promise<{ text: string; segments: TranscriptSegment[]; duration: number; model: string; chunkCount: number }> {
+  const chunks = splitAudioForTranscription(buffer, mimeType);
+  const segments: TranscriptSegment[] = [];
+  const plainText: string[] = [];
+  let offset = 0;
+  let model = "";
+
+  for (let i = 0; i < chunks.length; i++) {
+    const chunkName = chunks.length > 1 ? filename.replace(/(\.[^.]+)?$/, `.part${i + 1}$1`) : filename;
+    const result = await transcribeAudio(chunks[i], chunkName, mimeType);
+    model = result.model;
+
+    for (const segment of result.segments) {
+      segments.push({ ...segment, start: segment.start + offset, end: segment.end + offset });
+    }
+    plainText.push(result.text.trim());
+
+    const lastEnd = result.segments[result.segments.length - 1]?.end || 0;
+    offset += result.duration ?? lastEnd;
+  }
+
+  return {
+    text: segments.length > 0 ? formatSpeakerTranscript(segments) : plainText.join("\n"),
+    segments,
+    duration: offset,
+    model,
+    chunkCount: chunks.length,
+  };
+}
+
+// ============================================================================
+// QUEUE JOB
+// ============================================================================
+
+/**
+ * Process a 'transcription' job from processing_queue. On success the call
+ * gets its transcript and an 'analysis' job is queued for it.
+ *
+ * @param queueItemId - processing_queue row already claimed by the worker
+ */
+export async function processTranscriptionJob(queueItemId: string): Promise<boolean> {
+  const supabase = createAdminClient();
+
+  const { data: queueItem, error: queueError } = await supabase
+    .from("processing_queue")
+    .select("*, call:calls(id, org_id, metadata)")
+    .eq("id", queueItemId)
+    .single();
+
+  if (queueError || !queueItem) {
+    console.error("Queue item not found:", queueItemId);
+    return false;
+  }
+
+  const call = queueItem.call as { id: string; org_id: string; metadata: UploadMetadata | null };
+
+  await supabase
+    .from("calls")
+    .update({ status: "transcribing" })
+    .eq("id", call.id);
+
+  try {
+    const metadata = call.metadata || {};
+    if (!metadata.storage_path) {
+      throw new TranscriptionError("Call has no uploaded recording", false);
+    }
+
+    const { data: file, error: downloadError } = await supabase.storage
+      .from(RECORDINGS_BUCKET)
+      .download(metadata.storage_path);
+
+    if (downloadError || !file) {
+      throw new TranscriptionError(`Failed to download recording: ${downloadError?.message || "not found"}`);
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const filename = metadata.upload_filename || metadata.storage_path.split("/").pop() || "recording.mp3";
+    const mimeType = metadata.upload_type || file.type || "audio/mpeg";
+
+    const result = await transcribeRecording(buffer, filename, mimeType);
+    if (!result.text.trim()) {
+      throw new TranscriptionError("Transcription returned no speech", false);
+    }
+
+    // Diarized segments give exact talk-time metrics (rep unknown: "Speaker A/B")
+    const callMetrics = computeCallMetrics(
+      result.segments.map((segment) => ({
+        speaker: segment.speaker || "Unknown",
+        start: segment.start,
+        end: segment.end,
+        text: segment.text,
+      })),
+      {
+        speakerNames: new Map(
+          result.segments
+            .filter((segment) => segment.speaker)
+            .map((segment) => [segment.speaker!, `Speaker ${segment.speaker}`])
+        ),
+      }
+    );
+
+    // Save transcript and move on to analysis
+    const { error: updateError } = await supabase
+      .from("calls")
+      .update({
+        transcription: result.text,
+        status: "processing",
+        metadata: {
+          ...metadata,
+          requires_transcription: false,
+          transcription: {
+            model: result.model,
+            duration_seconds: Math.round(result.duration),
+            chunk_count: result.chunkCount,
+            segments: result.segments,
+            completed_at: new Date().toISOString(),
+          },
+          call_metrics: callMetrics,
+        },
+      })
+      .eq("id", call.id);
+
+    if (updateError) {
+      throw new TranscriptionError("Failed to save transcription");
+    }
+
+    await supabase
+      .from("processing_queue")
+      .update({
+        status: "completed",
+        completed_at: new Date().toISOString(),
+        locked_by: null,
+      })
+      .eq("id", queueItemId);
+
+    const { error: enqueueError } = await supabase.from("processing_queue").insert({
+      org_id: call.org_id,
+      call_id: call.id,
+      job_type: "analysis",
+      status: "queued",
+      priority: queueItem.priority,
+    });
+
+    if (enqueueError) {
+      console.error("Failed to queue analysis after transcription:", enqueueError);
+    }
+
+    return true;
+  } catch (error) {
+    console.error("Transcription job error:", error);
+
+    const message = error instanceof Error ? error.message : "Unknown error";
+    const retryable = !(error instanceof TranscriptionError) || error.retryable;
+    const newAttempts = (queueItem.attempts || 0) + 1;
+    const maxAttempts = queueItem.max_attempts || 3;
+
+    if (!retryable || newAttempts >= maxAttempts) {
+      await supabase
+        .from("processing_queue")
+        .update({
+          status: "failed",
+          attempts: newAttempts,
+          locked_by: null,
+          last_error: message,
+        })
+        .eq("id", queueItemId);
+
+      await supabase
+        .from("calls")
+        .update({ status: "failed" })
+        .eq("id", call.id);
+
+      await emitWebhookEvent(call.org_id, "call.failed", {
+        call_id: call.id,
+        error: message,
+        attempts: newAttempts,
+      });
+    } else {
+      // Schedule retry with exponential backoff
+      const retryDelay = Math.pow(2, newAttempts) * 60000; // 2^n minutes
+      await supabase
+        .from("processing_queue")
+        .update({
+          status: "queued",
+          attempts: newAttempts,
+          locked_by: null,
+          last_error: message,
+          scheduled_at: new Date(Date.now() + retryDelay).toISOString(),
+        })
+        .eq("id", queueItemId);
+
+      await supabase
+        .from("calls")
+        .update({ status: "pending" })
+        .eq("id", call.id);
+    }
+
+    return false;
+  }
+}
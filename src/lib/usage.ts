@@ -0,0 +1,272 @@
+/**
+ * Usage Metering
+ *
+ * Counts what an org uses against its plan in org_usage, one row per usage
+ * period (the billing period, or the calendar month without one):
+ * - calls_count: calls ingested from any source
+ * - ai_analyses_count: analysis runs (a queue retry is a new run)
+ * - storage_bytes_used: recordings and report files, carried between periods
+ * - api_calls_count: requests made with an API key
+ * - sessions_count: counted by a trigger on sessions, shown for reference
+ *
+ * consumeUsage checks and increments in one statement (consume_usage), so
+ * concurrent requests can't overshoot a limit, and warns the org's admins
+ * once per period when a counter passes 80% of its limit.
+ */
+
+import { createAdminClient } from "@/lib/supabase/server";
+import { getOrgPlanLimits } from "@/lib/plan-limits";
+import { notifyUsageWarning } from "@/lib/notifications";
+import type { OrgUsage, PlanLimits } from "@/types/analytics";
+
+// ============================================================================
+// METRICS
+// ============================================================================
+
+export type UsageMetric = keyof OrgUsage;
+
+export const USAGE_WARNING_PERCENT = 80;
+
+interface UsageMetricDefinition {
+  label: string;
+  /** Plural noun used in limit messages */
+  noun: string;
+  limit: keyof PlanLimits;
+  /** Feature flag that must be on for the limit to apply at all */
+  feature?: keyof PlanLimits;
+  unit: "count" | "bytes";
+}
+
+export const USAGE_METRICS: Record<UsageMetric, UsageMetricDefinition> = {
+  calls_count: { label: "Calls", noun: "calls", limit: "max_calls_per_month", unit: "count" },
+  sessions_count: { label: "Sessions", noun: "sessions", limit: "max_sessions_per_month", unit: "count" },
+  ai_analyses_count: {
+    label: "AI analyses",
+    noun: "AI analyses",
+    limit: "max_ai_analyses_per_month",
+    feature: "ai_analysis_enabled",
+    unit: "count",
+  },
+  storage_bytes_used: { label: "Storage", noun: "storage", limit: "max_storage_bytes", unit: "bytes" },
+  api_calls_count: {
+    label: "API calls",
+    noun: "API calls",
+    limit: "max_api_calls_per_month",
+    feature: "api_access_enabled",
+    unit: "count",
+  },
+};
+
+/**
+ * The limit that applies to a metric: -1 is unlimited, and a disabled
+ * feature has none to spend
+ */
+export function resolveUsageLimit(limits: PlanLimits, metric: UsageMetric): number {
+  const definition = USAGE_METRICS[metric];
+  if (definition.feature && limits[definition.feature] === false) return 0;
+
+  const limit = limits[definition.limit];
+  return typeof limit === "number" ? limit : -1;
+}
+
+/**
+ * Whether going from previous to used passed the warning threshold
+ */
+export function crossedUsageWarning(previous: number, used: number, limit: number): boolean {
+  if (limit <= 0) return false;
+  const threshold = (limit * USAGE_WARNING_PERCENT) / 100;
+  return previous < threshold && used >= threshold;
+}
+
+export function formatUsageValue(metric: UsageMetric, value: number): string {
+  if (value < 0) return "Unlimited";
+  if (USAGE_METRICS[metric].unit === "count") return value.toLocaleString("en-US");
+
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let size = value;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? size : Number(size.toFixed(1))} ${units[unit]}`;
+}
+
+export function describeUsageLimit(metric: UsageMetric, limit: number, used: number): string {
+  const { noun, unit } = USAGE_METRICS[metric];
+
+  if (limit === 0) {
+    return `Your plan doesn't include ${noun}`;
+  }
+  if (unit === "bytes") {
+    return `Plan storage limit reached: ${formatUsageValue(metric, used)} of ${formatUsageValue(metric, limit)} used`;
+  }
+  return `Plan limit reached: ${formatUsageValue(metric, used)} of ${formatUsageValue(metric, limit)} ${noun} used this billing period`;
+}
+
+// ============================================================================
+// METERING
+// ============================================================================
+
+export interface UsageCheck {
+  allowed: boolean;
+  metric: UsageMetric;
+  limit: number;
+  used: number;
+  error?: string;
+}
+
+/**
+ * Count usage against the org's plan. Nothing is added when the amount
+ * would take the counter past its limit.
+ *
+ * A metering outage lets the request through: losing a count is better
+ * than refusing calls we can't prove are over the limit.
+ */
+export async function consumeUsage(orgId: string, metric: UsageMetric, amount: number = 1): Promise<UsageCheck> {
+  const supabase = createAdminClient();
+  const limit = resolveUsageLimit(await getOrgPlanLimits(orgId, supabase), metric);
+
+  const { data, error } = await supabase.rpc("consume_usage", {
+    p_org_id: orgId,
+    p_metric: metric,
+    p_amount: amount,
+    p_limit: limit,
+  });
+
+  if (error || !data) {
+    console.error(`Failed to meter ${metric} for org ${orgId}:`, error);
+    return { allowed: true, metric, limit, used: 0 };
+  }
+
+  const used = Number(data.used);
+
+  if (!data.allowed) {
+    return { allowed: false, metric, limit, used, error: describeUsageLimit(metric, limit, used) };
+  }
+
+  if (crossedUsageWarning(used - amount, used, limit)) {
+    await notifyUsageWarning({
+      orgId,
+      metric,
+      periodStart: data.period_start,
+      feature: USAGE_METRICS[metric].label,
+      used: formatUsageValue(metric, used),
+      limit: formatUsageValue(metric, limit),
+      percent: Math.floor((used / limit) * 100),
+    });
+  }
+
+  return { allowed: true, metric, limit, used };
+}
+
+/**
+ * Give back usage that was consumed for work that didn't happen, or for
+ * stored files that have been deleted
+ */
+export async function releaseUsage(orgId: string, metric: UsageMetric, amount: number = 1): Promise<void> {
+  if (amount <= 0) return;
+
+  const { error } = await createAdminClient().rpc("consume_usage", {
+    p_org_id: orgId,
+    p_metric: metric,
+    p_amount: -amount,
+    p_limit: -1,
+  });
+
+  if (error) {
+    console.error(`Failed to release ${metric} for org ${orgId}:`, error);
+  }
+}
+
+// ============================================================================
+// REPORTING
+// ============================================================================
+
+export interface UsageSummaryItem {
+  metric: UsageMetric;
+  label: string;
+  unit: "count" | "bytes";
+  used: number;
+  limit: number;
+  /** Share of the limit used, null when there's no finite limit */
+  percent: number | null;
+  status: "ok" | "warning" | "exceeded" | "unlimited" | "not_included";
+}
+
+export interface CurrentUsage {
+  period: { start: string; end: string };
+  counters: OrgUsage;
+}
+
+const EMPTY_USAGE: OrgUsage = {
+  calls_count: 0,
+  sessions_count: 0,
+  ai_analyses_count: 0,
+  storage_bytes_used: 0,
+  api_calls_count: 0,
+};
+
+/**
+ * Each metric's use against its limit, in USAGE_METRICS order
+ */
+export function summarizeUsage(counters: OrgUsage, limits: PlanLimits): UsageSummaryItem[] {
+  return (Object.keys(USAGE_METRICS) as UsageMetric[]).map((metric) => {
+    const used = Number(counters[metric]) || 0;
+    const limit = resolveUsageLimit(limits, metric);
+    const percent = limit > 0 ? Math.round((used / limit) * 1000) / 10 : null;
+
+    let status: UsageSummaryItem["status"];
+    if (limit < 0) status = "unlimited";
+    else if (limit === 0) status = used > 0 ? "exceeded" : "not_included";
+    else if (used >= limit) status = "exceeded";
+    else if (percent! >= USAGE_WARNING_PERCENT) status = "warning";
+    else status = "ok";
+
+    return { metric, label: USAGE_METRICS[metric].label, unit: USAGE_METRICS[metric].unit, used, limit, percent, status };
+  });
+}
+
+/**
+ * The org's counters for the current usage period. Before anything is
+ * metered in a new period its row doesn't exist yet, but storage still
+ * carries over from the previous one.
+ */
+export async function getCurrentUsage(orgId: string): Promise<CurrentUsage> {
+  const supabase = createAdminClient();
+
+  const { data: periods, error } = await supabase.rpc("get_usage_period", { p_org_id: orgId });
+  if (error || !periods?.[0]) {
+    throw new Error(`Failed to resolve usage period: ${error?.message || "no period returned"}`);
+  }
+
+  const period = { start: periods[0].period_start as string, end: periods[0].period_end as string };
+
+  const { data: latest } = await supabase
+    .from("org_usage")
+    .select("period_start, calls_count, sessions_count, ai_analyses_count, storage_bytes_used, api_calls_count")
+    .eq("org_id", orgId)
+    .lte("period_start", period.start)
+    .order("period_start", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (!latest) {
+    return { period, counters: { ...EMPTY_USAGE } };
+  }
+
+  if (latest.period_start !== period.start) {
+    return { period, counters: { ...EMPTY_USAGE, storage_bytes_used: Number(latest.storage_bytes_used) || 0 } };
+  }
+
+  return {
+    period,
+    counters: {
+      calls_count: latest.calls_count || 0,
+      sessions_count: latest.sessions_count || 0,
+      ai_analyses_count: latest.ai_analyses_count || 0,
+      storage_bytes_used: Number(latest.storage_bytes_used) || 0,
+      api_calls_count: latest.api_calls_count || 0,
+    },
+  };
+}
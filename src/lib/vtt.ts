@@ -0,0 +1,108 @@
+/**
+ * WebVTT Transcript Parsing
+ *
+ * Parses WebVTT transcripts (as exported by Teams and Zoom) into timed cues
+ * with speakers, and merges consecutive cues into speaker turns. Teams marks
+ * speakers with voice spans (`<v Alex Smith>Hello</v>`); Zoom prefixes the
+ * cue text instead (`Alex Smith: Hello`).
+ */
+
+export interface VttCue {
+  /** Seconds from the start of the recording */
+  start: number;
+  end: number;
+  speaker: string | null;
+  text: string;
+}
+
+// h:mm:ss.fff with optional hours; Teams has also emitted unpadded "0:0:1.5"
+const TIMESTAMP = /(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?/;
+const TIMING_LINE = new RegExp(`^\\s*${TIMESTAMP.source}\\s+-->\\s+${TIMESTAMP.source}`);
+const VOICE_TAG = /<v(?:\.[^\s>]+)*\s+([^>]+)>/i;
+const SPEAKER_PREFIX = /^([^:]{1,100}):\s+(.+)$/;
+
+export interface ParseVttOptions {
+  /** Read a leading "Name: " as the speaker when the cue has no voice span */
+  speakerPrefixes?: boolean;
+}
+
+function toSeconds(hours: string | undefined, minutes: string, seconds: string, fraction?: string) {
+  return (
+    Number(hours || 0) * 3600 +
+    Number(minutes) * 60 +
+    Number(seconds) +
+    (fraction ? Number(fraction.padEnd(3, "0")) / 1000 : 0)
+  );
+}
+
+function stripTags(text: string): string {
+  return text
+    .replace(/<[^>]+>/g, "")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&nbsp;/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Parse a WebVTT document into cues. Blocks without a timing line (the
+ * header, NOTE, STYLE) and cues without text are skipped.
+ */
+export function parseVtt(content: string, options: ParseVttOptions = {}): VttCue[] {
+  const cues: VttCue[] = [];
+  const blocks = content.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n").split(/\n\s*\n/);
+
+  for (const block of blocks) {
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex((line) => TIMING_LINE.test(line));
+    if (timingIndex === -1) continue;
+
+    const timing = lines[timingIndex].match(TIMING_LINE)!;
+    const payload = lines.slice(timingIndex + 1).join(" ");
+
+    let text = stripTags(payload);
+    let speaker = payload.match(VOICE_TAG)?.[1].trim() || null;
+
+    if (!speaker && options.speakerPrefixes) {
+      const prefixed = text.match(SPEAKER_PREFIX);
+      if (prefixed) {
+        speaker = prefixed[1].trim();
+        text = prefixed[2];
+      }
+    }
+
+    if (!text) continue;
+
+    cues.push({
+      start: toSeconds(timing[1], timing[2], timing[3], timing[4]),
+      end: toSeconds(timing[5], timing[6], timing[7], timing[8]),
+      speaker,
+      text,
+    });
+  }
+
+  return cues;
+}
+
+/**
+ * Merge consecutive cues from the same speaker into one turn. Captions
+ * split a sentence across several cues; a turn is what the speaker said
+ * before someone else spoke.
+ */
+export function mergeSpeakerTurns(cues: VttCue[]): VttCue[] {
+  const turns: VttCue[] = [];
+
+  for (const cue of cues) {
+    const last = turns[turns.length - 1];
+    if (last && last.speaker === cue.speaker) {
+      last.end = Math.max(last.end, cue.end);
+      last.text = `${last.text} ${cue.text}`;
+    } else {
+      turns.push({ ...cue });
+    }
+  }
+
+  return turns;
+}
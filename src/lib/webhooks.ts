@@ -0,0 +1,677 @@
+/**
+ * Outbound Webhooks
+ *
+ * Orgs subscribe HTTPS endpoints to lifecycle events. Emitting an event
+ * writes one webhook_deliveries row per matching subscription; the delivery
+ * worker (cron) POSTs them, signed with the subscription secret using the
+ * same HMAC-SHA256 scheme inbound webhooks are verified with, and retries
+ * failures on a backoff schedule. Admins can replay any delivery.
+ */
+
+import crypto from "crypto";
+import dns from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+import { createAdminClient } from "@/lib/supabase/server";
+import type { WebhookDelivery, WebhookSubscription } from "@/types/database";
+
+// ============================================================================
+// EVENTS
+// ============================================================================
+
+export const WEBHOOK_EVENTS = [
+  { type: "call.analyzed", description: "A call finished AI analysis" },
+  { type: "call.failed", description: "A call could not be transcribed or analyzed" },
+  { type: "session.completed", description: "A coaching session was scored and completed" },
+  { type: "session.disputed", description: "An agent disputed a session score" },
+  { type: "session.dispute_resolved", description: "A coach or manager resolved a disputed session" },
+  { type: "session.reviewed", description: "A completed session was reviewed" },
+  { type: "template.published", description: "A grading template version was published" },
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENTS)[number]["type"];
+
+export function isWebhookEventType(type: string): type is WebhookEventType {
+  return WEBHOOK_EVENTS.some((e) => e.type === type);
+}
+
+/**
+ * Events sent straight to one subscription rather than to everyone
+ * subscribed (e.g. a report schedule delivering to its chosen endpoint),
+ * so they can't be picked when subscribing
+ */
+export type DirectWebhookEventType = "report.scheduled";
+
+/**
+ * Body sent to subscribers
+ */
+export interface WebhookEventPayload {
+  id: string;
+  type: WebhookEventType | DirectWebhookEventType;
+  created_at: string;
+  org_id: string;
+  data: Record<string, unknown>;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Wait before retry n (after the nth failed attempt); the last failure is final
+export const WEBHOOK_RETRY_DELAYS_MS = [
+  60 * 1000, // 1 minute
+  5 * 60 * 1000, // 5 minutes
+  30 * 60 * 1000, // 30 minutes
+  2 * 60 * 60 * 1000, // 2 hours
+  6 * 60 * 60 * 1000, // 6 hours
+];
+
+export const WEBHOOK_MAX_ATTEMPTS = WEBHOOK_RETRY_DELAYS_MS.length + 1;
+
+const DELIVERY_TIMEOUT_MS = 10000;
+
+// Stored for the delivery log; receivers' full responses aren't needed
+const MAX_RESPONSE_BODY_LENGTH = 2000;
+
+// ============================================================================
+// SIGNING
+// ============================================================================
+
+/**
+ * Hex HMAC-SHA256 of the raw body, sent as X-Webhook-Signature
+ */
+export function signWebhookPayload(body: string, secret: string): string {
+  return crypto.createHmac("sha256", secret).update(body).digest("hex");
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString("hex")}`;
+}
+
+export function buildWebhookPayload(
+  orgId: string,
+  type: WebhookEventType | DirectWebhookEventType,
+  data: Record<string, unknown>,
+  eventId: string = crypto.randomUUID(),
+  createdAt: string = new Date().toISOString()
+): WebhookEventPayload {
+  return { id: eventId, type, created_at: createdAt, org_id: orgId, data };
+}
+
+export function buildWebhookHeaders(
+  body: string,
+  secret: string,
+  delivery: { id: string; event_id: string; event_type: string }
+): Record<string, string> {
+  return {
+    "Content-Type": "application/json",
+    "User-Agent": "Kalyxi-Webhooks/1.0",
+    "X-Webhook-Signature": signWebhookPayload(body, secret),
+    "X-Webhook-Event": delivery.event_type,
+    "X-Webhook-Event-Id": delivery.event_id,
+    "X-Webhook-Delivery": delivery.id,
+  };
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+// Names that only resolve inside a network; addresses are checked below
+const PRIVATE_HOST_PATTERNS = [/^localhost$/, /\.localhost$/, /\.internal$/, /\.local$/];
+
+// Loopback, private, link-local (incl. cloud metadata), CGNAT, multicast and reserved
+const PRIVATE_IPV4 = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  PRIVATE_IPV4.addSubnet(network, prefix, "ipv4");
+}
+
+// Unique local, link-local and multicast; :: and ::1 are caught as embedded IPv4
+const PRIVATE_IPV6 = new net.BlockList();
+PRIVATE_IPV6.addSubnet("fc00::", 7, "ipv6");
+PRIVATE_IPV6.addSubnet("fe80::", 10, "ipv6");
+PRIVATE_IPV6.addSubnet("ff00::", 8, "ipv6");
+
+/**
+ * The eight 16-bit groups of a valid IPv6 address, with any trailing dotted
+ * IPv4 part folded in
+ */
+function ipv6Groups(address: string): number[] {
+  let text = address;
+  const dotted = text.match(/^(.*:)(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(2).map(Number);
+    text = `${dotted[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const [head, tail] = text.split("::");
+  const headGroups = head ? head.split(":") : [];
+  const tailGroups = tail ? tail.split(":") : [];
+  const zeros = tail === undefined ? 0 : 8 - headGroups.length - tailGroups.length;
+
+  return [...headGroups, ...Array<string>(zeros).fill("0"), ...tailGroups].map((group) =>
+    parseInt(group, 16)
+  );
+}
+
+/**
+ * IPv4 address carried inside an IPv6 one: mapped (::ffff:a.b.c.d),
+ * compatible (::a.b.c.d) or NAT64 (64:ff9b::a.b.c.d)
+ */
+function embeddedIPv4(groups: number[]): string | null {
+  const prefixZero = groups.slice(0, 5).every((group) => group === 0);
+  const mapped = prefixZero && (groups[5] === 0xffff || groups[5] === 0);
+  const nat64 = groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((group) => group === 0);
+
+  if (!mapped && !nat64) return null;
+  return [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff].join(".");
+}
+
+/**
+ * Whether an IP address (IPv6 with or without brackets) can reach an
+ * internal service. Anything that isn't an IP address is not private.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.replace(/^\[|\]$/g, "").split("%")[0];
+
+  switch (net.isIP(ip)) {
+    case 4:
+      return PRIVATE_IPV4.check(ip, "ipv4");
+    case 6: {
+      const groups = ipv6Groups(ip);
+      const ipv4 = embeddedIPv4(groups);
+      return ipv4 ? PRIVATE_IPV4.check(ipv4, "ipv4") : PRIVATE_IPV6.check(ip, "ipv6");
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Check a subscriber URL. Production only accepts public HTTPS endpoints so
+ * subscriptions can't be pointed at internal services. Hostnames are
+ * resolved again at delivery time, see lookupPublicAddress.
+ *
+ * @returns An error message, or null if the URL is acceptable
+ */
+export function validateWebhookUrl(
+  url: string,
+  options: { allowPrivate?: boolean } = {}
+): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "Invalid URL";
+  }
+
+  const allowPrivate = options.allowPrivate ?? process.env.NODE_ENV !== "production";
+
+  if (parsed.protocol !== "https:" && !(allowPrivate && parsed.protocol === "http:")) {
+    return "Webhook URLs must use HTTPS";
+  }
+
+  if (parsed.username || parsed.password) {
+    return "Webhook URLs can't contain credentials";
+  }
+
+  const host = parsed.hostname.toLowerCase();
+  if (!allowPrivate && (PRIVATE_HOST_PATTERNS.some((pattern) => pattern.test(host)) || isPrivateAddress(host))) {
+    return "Webhook URLs must point to a public host";
+  }
+
+  return null;
+}
+
+/**
+ * DNS lookup used for deliveries in production. Refuses hosts that resolve
+ * to any private address, and the connection uses the addresses checked
+ * here, so a public name can't be pointed (or rebound) at an internal
+ * service after the subscription was validated.
+ */
+export const lookupPublicAddress: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, "");
+      return;
+    }
+
+    if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+      callback(Object.assign(new Error(`${hostname} resolves to a private address`), { code: "EPRIVATE" }), "");
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/**
+ * Delay before the next attempt, or null when attempts are used up
+ */
+export function getRetryDelayMs(attempts: number, maxAttempts: number = WEBHOOK_MAX_ATTEMPTS): number | null {
+  if (attempts >= maxAttempts) return null;
+  return WEBHOOK_RETRY_DELAYS_MS[Math.min(attempts, WEBHOOK_RETRY_DELAYS_MS.length) - 1];
+}
+
+// ============================================================================
+// EMITTING
+// ============================================================================
+
+/**
+ * Queue an event for every active subscription that wants it. Never throws:
+ * webhook problems must not fail the action that triggered them.
+ *
+ * @returns Number of deliveries queued
+ */
+export async function emitWebhookEvent(
+  orgId: string,
+  type: WebhookEventType,
+  data: Record<string, unknown>
+): Promise<number> {
+  try {
+    const supabase = createAdminClient();
+
+    const { data: subscriptions, error } = await supabase
+      .from("webhook_subscriptions")
+      .select("id")
+      .eq("org_id", orgId)
+      .eq("is_active", true)
+      .contains("events", [type]);
+
+    if (error) {
+      console.error("Error loading webhook subscriptions:", error);
+      return 0;
+    }
+
+    if (!subscriptions || subscriptions.length === 0) {
+      return 0;
+    }
+
+    const payload = buildWebhookPayload(orgId, type, data);
+
+    const { error: insertError } = await supabase.from("webhook_deliveries").insert(
+      subscriptions.map((subscription: { id: string }) => ({
+        org_id: orgId,
+        subscription_id: subscription.id,
+        event_id: payload.id,
+        event_type: type,
+        payload,
+        max_attempts: WEBHOOK_MAX_ATTEMPTS,
+      }))
+    );
+
+    if (insertError) {
+      console.error("Error queueing webhook deliveries:", insertError);
+      return 0;
+    }
+
+    return subscriptions.length;
+  } catch (error) {
+    console.error(`Error emitting webhook event ${type}:`, error);
+    return 0;
+  }
+}
+
+/**
+ * Queue an event for one subscription, whatever events it lists. Never throws.
+ *
+ * @returns The queued delivery's id, or null if it couldn't be queued
+ */
+export async function queueWebhookDelivery(
+  orgId: string,
+  subscriptionId: string,
+  type: DirectWebhookEventType,
+  data: Record<string, unknown>
+): Promise<string | null> {
+  try {
+    const payload = buildWebhookPayload(orgId, type, data);
+
+    const { data: delivery, error } = await createAdminClient()
+      .from("webhook_deliveries")
+      .insert({
+        org_id: orgId,
+        subscription_id: subscriptionId,
+        event_id: payload.id,
+        event_type: type,
+        payload,
+        max_attempts: WEBHOOK_MAX_ATTEMPTS,
+      })
+      .select("id")
+      .single();
+
+    if (error || !delivery) {
+      console.error("Error queueing webhook delivery:", error);
+      return null;
+    }
+
+    return delivery.id;
+  } catch (error) {
+    console.error(`Error queueing webhook event ${type}:`, error);
+    return null;
+  }
+}
+
+// ============================================================================
+// DELIVERY
+// ============================================================================
+
+export interface DeliveryAttemptResult {
+  ok: boolean;
+  status: number | null;
+  body: string | null;
+  error: string | null;
+  durationMs: number;
+}
+
+/**
+ * POST a body without following redirects. In production the host must
+ * resolve to public addresses only.
+ */
+function postWebhook(
+  url: URL,
+  headers: Record<string, string>,
+  body: string,
+  allowPrivate: boolean
+): Promise<{ status: number; body: string }> {
+  return new Promise((resolve, reject) => {
+    const client = url.protocol === "http:" ? http : https;
+
+    const request = client.request(
+      url,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": Buffer.byteLength(body).toString() },
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+        ...(!allowPrivate && { lookup: lookupPublicAddress }),
+      },
+      (response) => {
+        let received = "";
+        response.setEncoding("utf8");
+
+        const finish = () => resolve({ status: response.statusCode ?? 0, body: received });
+
+        response.on("data", (chunk: string) => {
+          received = (received + chunk).slice(0, MAX_RESPONSE_BODY_LENGTH);
+          // Stop reading once there's enough for the delivery log
+          if (received.length >= MAX_RESPONSE_BODY_LENGTH) {
+            finish();
+            response.destroy();
+          }
+        });
+        response.on("end", finish);
+        response.on("error", reject);
+      }
+    );
+
+    request.on("error", reject);
+    request.end(body);
+  });
+}
+
+/**
+ * POST one delivery to its endpoint. Any 2xx counts as delivered.
+ */
+export async function sendWebhookRequest(
+  url: string,
+  secret: string,
+  delivery: Pick<WebhookDelivery, "id" | "event_id" | "event_type"> & { payload: unknown },
+  options: { allowPrivate?: boolean } = {}
+): Promise<DeliveryAttemptResult> {
+  const body = JSON.stringify(delivery.payload);
+  const startTime = Date.now();
+  const allowPrivate = options.allowPrivate ?? process.env.NODE_ENV !== "production";
+
+  // Subscriptions saved before the current rules are held to them too
+  const invalid = validateWebhookUrl(url, { allowPrivate });
+  if (invalid) {
+    return { ok: false, status: null, body: null, error: invalid, durationMs: 0 };
+  }
+
+  try {
+    const response = await postWebhook(
+      new URL(url),
+      buildWebhookHeaders(body, secret, delivery),
+      body,
+      allowPrivate
+    );
+    const ok = response.status >= 200 && response.status < 300;
+
+    return {
+      ok,
+      status: response.status,
+      body: response.body,
+      error: ok ? null : `Endpoint responded with ${response.status}`,
+      durationMs: Date.now() - startTime,
+    };
+  } catch (error) {
+    const timedOut = error instanceof Error && error.name === "AbortError";
+    return {
+      ok: false,
+      status: null,
+      body: null,
+      error: timedOut
+        ? `Timed out after ${DELIVERY_TIMEOUT_MS / 1000}s`
+        : error instanceof Error
+          ? error.message
+          : "Request failed",
+      durationMs: Date.now() - startTime,
+    };
+  }
+}
+
+/**
+ * Attempt a claimed delivery and record the outcome: succeeded, rescheduled
+ * with backoff, or failed once attempts are used up.
+ */
+export async function attemptWebhookDelivery(delivery: WebhookDelivery): Promise<boolean> {
+  const supabase = createAdminClient();
+
+  const { data: subscription } = await supabase
+    .from("webhook_subscriptions")
+    .select("id, url, secret, is_active")
+    .eq("id", delivery.subscription_id)
+    .maybeSingle();
+
+  const attempts = delivery.attempts + 1;
+  const now = new Date();
+
+  if (!subscription || !subscription.is_active) {
+    await supabase
+      .from("webhook_deliveries")
+      .update({
+        status: "failed",
+        attempts,
+        error_message: "Subscription is disabled",
+        locked_by: null,
+      })
+      .eq("id", delivery.id);
+    return false;
+  }
+
+  const result = await sendWebhookRequest(subscription.url, subscription.secret, delivery);
+  const retryDelay = result.ok ? null : getRetryDelayMs(attempts, delivery.max_attempts);
+
+  const status = result.ok ? "succeeded" : retryDelay !== null ? "pending" : "failed";
+
+  await supabase
+    .from("webhook_deliveries")
+    .update({
+      status,
+      attempts,
+      last_attempt_at: now.toISOString(),
+      response_status: result.status,
+      response_body: result.body,
+      error_message: result.error,
+      duration_ms: result.durationMs,
+      locked_by: null,
+      ...(retryDelay !== null && {
+        next_attempt_at: new Date(now.getTime() + retryDelay).toISOString(),
+      }),
+    })
+    .eq("id", delivery.id);
+
+  await supabase
+    .from("webhook_subscriptions")
+    .update({
+      last_delivery_at: now.toISOString(),
+      last_delivery_status: result.ok ? "succeeded" : "failed",
+    })
+    .eq("id", subscription.id);
+
+  return result.ok;
+}
+
+/**
+ * Re-send an earlier delivery's payload now, as a new delivery row
+ */
+export async function replayWebhookDelivery(
+  deliveryId: string,
+  orgId: string
+): Promise<WebhookDelivery | null> {
+  const supabase = createAdminClient();
+
+  const { data: original } = await supabase
+    .from("webhook_deliveries")
+    .select("*")
+    .eq("id", deliveryId)
+    .eq("org_id", orgId)
+    .maybeSingle();
+
+  if (!original) {
+    return null;
+  }
+
+  const { data: replay, error } = await supabase
+    .from("webhook_deliveries")
+    .insert({
+      org_id: orgId,
+      subscription_id: original.subscription_id,
+      event_id: original.event_id,
+      event_type: original.event_type,
+      payload: original.payload,
+      status: "delivering",
+      last_attempt_at: new Date().toISOString(),
+      max_attempts: WEBHOOK_MAX_ATTEMPTS,
+      replay_of: original.id,
+      locked_by: "replay",
+    })
+    .select("*")
+    .single();
+
+  if (error || !replay) {
+    console.error("Error creating webhook replay:", error);
+    return null;
+  }
+
+  await attemptWebhookDelivery(replay as WebhookDelivery);
+
+  const { data: updated } = await supabase
+    .from("webhook_deliveries")
+    .select("*")
+    .eq("id", replay.id)
+    .single();
+
+  return (updated || replay) as WebhookDelivery;
+}
+
+export interface ProcessWebhookDeliveriesOptions {
+  maxItems?: number;
+  workerId?: string;
+  deadline?: number; // Epoch ms after which no new deliveries are started
+}
+
+export interface ProcessWebhookDeliveriesResult {
+  claimed: number;
+  succeeded: number;
+  failed: number;
+  released: number;
+}
+
+// Deliveries left in "delivering" longer than this are handed back
+const STUCK_DELIVERY_TIMEOUT_SECONDS = 5 * 60;
+
+// Deliver due webhooks (called by cron)
+export async function processWebhookDeliveries(
+  options: ProcessWebhookDeliveriesOptions = {}
+): Promise<ProcessWebhookDeliveriesResult> {
+  const { maxItems = 25, workerId = `webhooks-${crypto.randomUUID()}`, deadline } = options;
+  const supabase = createAdminClient();
+  const result: ProcessWebhookDeliveriesResult = { claimed: 0, succeeded: 0, failed: 0, released: 0 };
+
+  const { data: items, error } = await supabase.rpc("claim_webhook_deliveries", {
+    p_worker_id: workerId,
+    p_max_items: maxItems,
+  });
+
+  if (error) {
+    console.error("Webhook delivery claim error:", error);
+    return result;
+  }
+
+  const deliveries = (items || []) as WebhookDelivery[];
+  result.claimed = deliveries.length;
+
+  for (const delivery of deliveries) {
+    // Out of time: hand the delivery back instead of leaving it for the reaper
+    if (deadline && Date.now() > deadline) {
+      await supabase
+        .from("webhook_deliveries")
+        .update({ status: "pending", locked_by: null })
+        .eq("id", delivery.id)
+        .eq("locked_by", workerId);
+      result.released++;
+      continue;
+    }
+
+    if (await attemptWebhookDelivery(delivery)) {
+      result.succeeded++;
+    } else {
+      result.failed++;
+    }
+  }
+
+  return result;
+}
+
+export async function reapStuckWebhookDeliveries(
+  staleAfterSeconds: number = STUCK_DELIVERY_TIMEOUT_SECONDS
+): Promise<number> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase.rpc("reap_stuck_webhook_deliveries", {
+    p_stale_after_seconds: staleAfterSeconds,
+  });
+
+  if (error) {
+    console.error("Webhook delivery reaper error:", error);
+    return 0;
+  }
+
+  return (data as number) || 0;
+}
+
+/**
+ * Subscription as returned to the browser (secret masked)
+ */
+export function maskWebhookSubscription(subscription: WebhookSubscription) {
+  return {
+    ...subscription,
+    secret: `${subscription.secret.slice(0, 10)}${"•".repeat(8)}`,
+  };
+}
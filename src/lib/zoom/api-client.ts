@@ -0,0 +1,112 @@
+/**
+ * Zoom API Client
+ *
+ * Zoom REST API calls used by the connector: the connecting user's profile,
+ * a meeting's cloud recordings, and recording file downloads.
+ *
+ * Environment Variables (optional):
+ * - ZOOM_API_BASE: API root, defaults to https://api.zoom.us/v2 (the tests
+ *   point it at a local stand-in)
+ *
+ * Holds no credentials of its own, so it isn't marked server-only and can
+ * run under the test runner.
+ */
+
+import type { ZoomRecordingMeeting, ZoomUser } from "./types";
+
+const DEFAULT_ZOOM_API_BASE = "https://api.zoom.us/v2";
+
+/**
+ * A failed Zoom API request
+ */
+export class ZoomAPIError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number
+  ) {
+    super(message);
+    this.name = "ZoomAPIError";
+  }
+}
+
+export function getZoomApiBase(): string {
+  return (process.env.ZOOM_API_BASE || DEFAULT_ZOOM_API_BASE).replace(/\/$/, "");
+}
+
+/**
+ * Make a Zoom request. `pathOrUrl` is a path under the API root, or a full
+ * URL such as a recording file's download_url.
+ */
+async function zoomRequest(
+  accessToken: string,
+  pathOrUrl: string,
+  action: string
+): Promise<Response> {
+  const url = pathOrUrl.startsWith("http") ? pathOrUrl : `${getZoomApiBase()}${pathOrUrl}`;
+
+  const response = await fetch(url, {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new ZoomAPIError(`Failed to ${action}: ${response.status} - ${error}`, response.status);
+  }
+
+  return response;
+}
+
+/**
+ * Encode a meeting UUID for a path. Zoom requires UUIDs that start with "/"
+ * or contain "//" to be encoded twice.
+ */
+export function encodeMeetingUuid(uuid: string): string {
+  const encoded = encodeURIComponent(uuid);
+  return uuid.startsWith("/") || uuid.includes("//") ? encodeURIComponent(encoded) : encoded;
+}
+
+// ============================================================================
+// USERS
+// ============================================================================
+
+/**
+ * Get the authorizing user's profile, including their account ID
+ */
+export async function getZoomMe(accessToken: string): Promise<ZoomUser> {
+  const response = await zoomRequest(accessToken, "/users/me", "fetch user profile");
+  return (await response.json()) as ZoomUser;
+}
+
+// ============================================================================
+// RECORDINGS
+// ============================================================================
+
+/**
+ * Get a meeting instance's cloud recording and its files
+ *
+ * @param meetingUuid - Meeting instance UUID (not the reusable meeting ID)
+ */
+export async function getMeetingRecordings(
+  accessToken: string,
+  meetingUuid: string
+): Promise<ZoomRecordingMeeting> {
+  const response = await zoomRequest(
+    accessToken,
+    `/meetings/${encodeMeetingUuid(meetingUuid)}/recordings`,
+    "fetch meeting recordings"
+  );
+  return (await response.json()) as ZoomRecordingMeeting;
+}
+
+/**
+ * Download a recording file as text (transcripts are VTT).
+ *
+ * @param downloadUrl - The file's download_url
+ * @param token - The webhook's download_token, or an OAuth access token
+ */
+export async function downloadRecordingFile(downloadUrl: string, token: string): Promise<string> {
+  const response = await zoomRequest(token, downloadUrl, "download recording file");
+  return response.text();
+}
@@ -0,0 +1,248 @@
+/**
+ * Zoom Recording Ingestion
+ *
+ * Server-only module that turns a recording webhook into a `zoom` call: the
+ * meeting's host is mapped to a caller by email, the VTT transcript is
+ * downloaded and parsed into speaker turns, and the call is created with
+ * its speakers and computed metrics. Analysis is queued when the
+ * connection's auto_analyze is on (the auto_queue_call trigger skips Zoom
+ * calls).
+ */
+
+import "server-only";
+import { createAdminClient } from "@/lib/supabase/server";
+import { computeCallMetrics, meetEntriesToUtterances } from "@/lib/call-metrics";
+import { notifyNewCall } from "@/lib/notifications";
+import { consumeUsage, releaseUsage } from "@/lib/usage";
+import { buildSpeakerNameMap, resolveNamedParticipants } from "@/lib/google/participants";
+import { buildCallSpeakers, resolveCallerForUser } from "@/lib/google/reconcile";
+import { downloadRecordingFile } from "./api-client";
+import {
+  convertZoomTranscript,
+  pickTranscriptFile,
+  recordingDurationSeconds,
+  zoomCallExternalId,
+} from "./recordings";
+import { getZoomConnectionByAccountId, updateZoomEventStatus } from "./storage";
+import { getValidZoomAccessToken } from "./tokens";
+import type { ZoomRecordingEvent } from "./types";
+
+export type ZoomIngestStatus =
+  | "created"
+  | "duplicate"
+  | "no_connection"
+  | "no_transcript"
+  | "no_caller"
+  | "over_limit";
+
+export interface ZoomIngestResult {
+  status: ZoomIngestStatus;
+  callId?: string;
+  queuedForAnalysis?: boolean;
+}
+
+interface HostCaller {
+  callerId: string;
+  userId: string | null;
+  name: string | null;
+}
+
+/**
+ * Map a meeting host's email to a caller in the org: an active caller with
+ * that email, or else the org user with that email (creating their caller
+ * record if needed). Hosts who are neither aren't scored.
+ */
+async function resolveHostCaller(orgId: string, hostEmail: string): Promise<HostCaller | null> {
+  const supabase = createAdminClient();
+
+  const { data: caller } = await supabase
+    .from("callers")
+    .select("id, name, user_id")
+    .eq("org_id", orgId)
+    .eq("is_active", true)
+    .ilike("email", hostEmail)
+    .limit(1)
+    .maybeSingle();
+
+  if (caller) {
+    return { callerId: caller.id, userId: caller.user_id, name: caller.name };
+  }
+
+  const { data: user } = await supabase
+    .from("users")
+    .select("id, name")
+    .eq("org_id", orgId)
+    .ilike("email", hostEmail)
+    .limit(1)
+    .maybeSingle();
+
+  if (!user) {
+    return null;
+  }
+
+  const callerId = await resolveCallerForUser(orgId, user.id);
+  return callerId ? { callerId, userId: user.id, name: user.name } : null;
+}
+
+/**
+ * Create a call from a recording webhook. Safe to call for both recording
+ * events and for Zoom's retries: a meeting instance only ever becomes one
+ * call.
+ *
+ * @param event - Verified recording.completed or recording.transcript_completed event
+ * @returns What happened to the recording
+ */
+export async function ingestZoomRecording(event: ZoomRecordingEvent): Promise<ZoomIngestResult> {
+  const connection = await getZoomConnectionByAccountId(event.payload.account_id);
+  if (!connection) {
+    return { status: "no_connection" };
+  }
+
+  try {
+    const result = await ingestForConnection(event, connection.id, connection.org_id, {
+      autoAnalyze: connection.auto_analyze,
+      directoryUserId: connection.connected_by,
+    });
+    await updateZoomEventStatus(connection.id, null);
+    return result;
+  } catch (error) {
+    await updateZoomEventStatus(
+      connection.id,
+      error instanceof Error ? error.message : "Failed to ingest recording"
+    );
+    throw error;
+  }
+}
+
+async function ingestForConnection(
+  event: ZoomRecordingEvent,
+  connectionId: string,
+  orgId: string,
+  options: { autoAnalyze: boolean; directoryUserId: string }
+): Promise<ZoomIngestResult> {
+  const supabase = createAdminClient();
+  const meeting = event.payload.object;
+
+  const file = pickTranscriptFile(meeting);
+  if (!file) {
+    return { status: "no_transcript" };
+  }
+
+  const externalId = zoomCallExternalId(meeting.uuid);
+
+  const { data: existing } = await supabase
+    .from("calls")
+    .select("id")
+    .eq("org_id", orgId)
+    .eq("external_id", externalId)
+    .limit(1)
+    .maybeSingle();
+
+  if (existing) {
+    return { status: "duplicate", callId: existing.id };
+  }
+
+  const host = meeting.host_email ? await resolveHostCaller(orgId, meeting.host_email) : null;
+  if (!host) {
+    return { status: "no_caller" };
+  }
+
+  // The webhook's download token is scoped to this recording; fall back to
+  // the connection's token when Zoom didn't send one
+  const token = event.download_token || (await getValidZoomAccessToken(connectionId));
+  const vtt = await downloadRecordingFile(file.download_url, token);
+
+  const emailsByName = new Map<string, string>();
+  if (host.name) {
+    emailsByName.set(host.name.trim().toLowerCase(), meeting.host_email);
+  }
+
+  const content = convertZoomTranscript(
+    vtt,
+    file.recording_start || meeting.start_time,
+    emailsByName
+  );
+
+  if (!content.textContent) {
+    return { status: "no_transcript" };
+  }
+
+  const participants = await resolveNamedParticipants(content.participants, options.directoryUserId);
+  const repParticipant = participants.find(
+    (p) =>
+      p.callerId === host.callerId ||
+      (!!host.userId && p.userId === host.userId) ||
+      p.email?.toLowerCase() === meeting.host_email.toLowerCase()
+  );
+  const callMetrics = computeCallMetrics(meetEntriesToUtterances(content.entries), {
+    repSpeaker: repParticipant?.participantId,
+    speakerNames: buildSpeakerNameMap(participants),
+  });
+
+  const usage = await consumeUsage(orgId, "calls_count");
+  if (!usage.allowed) {
+    return { status: "over_limit" };
+  }
+
+  const { data: call, error: callError } = await supabase
+    .from("calls")
+    .insert({
+      org_id: orgId,
+      caller_id: host.callerId,
+      raw_notes: content.textContent,
+      source: "zoom",
+      status: "pending",
+      external_id: externalId,
+      duration: recordingDurationSeconds(meeting, file),
+      call_timestamp: meeting.start_time,
+      metadata: {
+        zoom_meeting_id: String(meeting.id),
+        zoom_meeting_uuid: meeting.uuid,
+        zoom_recording_file_id: file.id,
+        topic: meeting.topic || null,
+        host_email: meeting.host_email,
+        speakers: buildCallSpeakers(participants, host.userId, host.callerId),
+        call_metrics: callMetrics,
+      },
+    })
+    .select("id")
+    .single();
+
+  if (callError || !call) {
+    await releaseUsage(orgId, "calls_count");
+
+    // The other event for this recording got there first
+    if (callError?.code === "23505") {
+      const { data: winner } = await supabase
+        .from("calls")
+        .select("id")
+        .eq("org_id", orgId)
+        .eq("external_id", externalId)
+        .maybeSingle();
+      return { status: "duplicate", callId: winner?.id };
+    }
+
+    throw new Error(`Failed to create call: ${callError?.message || "no row returned"}`);
+  }
+
+  let queuedForAnalysis = false;
+  if (options.autoAnalyze) {
+    const { error: queueError } = await supabase.from("processing_queue").insert({
+      org_id: orgId,
+      call_id: call.id,
+      job_type: "analysis",
+      status: "queued",
+      priority: 0,
+    });
+
+    if (queueError) {
+      console.error("Failed to queue analysis for Zoom call:", queueError);
+    } else {
+      queuedForAnalysis = true;
+    }
+  }
+
+  await notifyNewCall(call.id);
+
+  return { status: "created", callId: call.id, queuedForAnalysis };
+}
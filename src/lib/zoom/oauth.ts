@@ -0,0 +1,191 @@
+/**
+ * Zoom OAuth Utilities
+ *
+ * Handles OAuth URL generation, state signing/verification, and token
+ * exchange for the Zoom OAuth app. Scopes are configured on the app in the
+ * Zoom Marketplace (user profile and cloud recording read), not requested
+ * per authorization.
+ *
+ * Environment Variables Required:
+ * - ZOOM_OAUTH_CLIENT_ID
+ * - ZOOM_OAUTH_CLIENT_SECRET
+ * - ZOOM_OAUTH_REDIRECT_URL
+ * - OAUTH_STATE_HMAC_SECRET (for signing state)
+ *
+ * Optional:
+ * - ZOOM_OAUTH_BASE: defaults to https://zoom.us
+ */
+
+import "server-only";
+import {
+  createStatePayload,
+  signOAuthState,
+  verifyOAuthState,
+  type OAuthStatePayload,
+} from "@/lib/oauth-state";
+import type { ZoomTokenResponse } from "./types";
+
+const DEFAULT_ZOOM_OAUTH_BASE = "https://zoom.us";
+
+/**
+ * Get OAuth configuration from environment variables.
+ * @throws Error if any required variable is missing
+ */
+export function getZoomOAuthConfig() {
+  const clientId = process.env.ZOOM_OAUTH_CLIENT_ID;
+  const clientSecret = process.env.ZOOM_OAUTH_CLIENT_SECRET;
+  const redirectUrl = process.env.ZOOM_OAUTH_REDIRECT_URL;
+  const hmacSecret = process.env.OAUTH_STATE_HMAC_SECRET;
+
+  const missing: string[] = [];
+  if (!clientId) missing.push("ZOOM_OAUTH_CLIENT_ID");
+  if (!clientSecret) missing.push("ZOOM_OAUTH_CLIENT_SECRET");
+  if (!redirectUrl) missing.push("ZOOM_OAUTH_REDIRECT_URL");
+  if (!hmacSecret) missing.push("OAUTH_STATE_HMAC_SECRET");
+
+  if (missing.length > 0) {
+    throw new Error(
+      `Missing required environment variables: ${missing.join(", ")}. ` +
+        "Set these in your Vercel dashboard or .env.local file."
+    );
+  }
+
+  return {
+    clientId: clientId!,
+    clientSecret: clientSecret!,
+    redirectUrl: redirectUrl!,
+    hmacSecret: hmacSecret!,
+    oauthBase: (process.env.ZOOM_OAUTH_BASE || DEFAULT_ZOOM_OAUTH_BASE).replace(/\/$/, ""),
+  };
+}
+
+/**
+ * Verify and decode a signed OAuth state from the callback.
+ */
+export function verifyZoomState(state: string): OAuthStatePayload {
+  return verifyOAuthState(state, getZoomOAuthConfig().hmacSecret);
+}
+
+/**
+ * Build the Zoom OAuth authorization URL.
+ *
+ * @param userId - The authenticated user's ID (for state)
+ * @param redirectUrl - Optional page to return to afterwards
+ * @returns Full authorization URL to redirect user to
+ */
+export function buildZoomAuthUrl(userId: string, redirectUrl?: string): string {
+  const config = getZoomOAuthConfig();
+  const state = signOAuthState(createStatePayload(userId, redirectUrl), config.hmacSecret);
+
+  const params = new URLSearchParams({
+    response_type: "code",
+    client_id: config.clientId,
+    redirect_uri: config.redirectUrl,
+    state,
+  });
+
+  return `${config.oauthBase}/oauth/authorize?${params.toString()}`;
+}
+
+/**
+ * POST to the token endpoint (client credentials in a Basic header) and
+ * parse errors into readable messages.
+ */
+async function requestTokens(
+  grant: Record<string, string>,
+  failure: string
+): Promise<ZoomTokenResponse> {
+  const config = getZoomOAuthConfig();
+  const credentials = Buffer.from(`${config.clientId}:${config.clientSecret}`).toString("base64");
+
+  const response = await fetch(`${config.oauthBase}/oauth/token`, {
+    method: "POST",
+    headers: {
+      Authorization: `Basic ${credentials}`,
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: new URLSearchParams(grant),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    let errorJson: { error?: string; reason?: string; error_description?: string } | null = null;
+    try {
+      errorJson = JSON.parse(errorText);
+    } catch {
+      // Not JSON; reported as text below
+    }
+
+    if (errorJson?.error === "invalid_grant" && grant.grant_type === "refresh_token") {
+      throw new Error(
+        "Refresh token is invalid or expired. An admin needs to reconnect the Zoom account."
+      );
+    }
+
+    throw new Error(
+      errorJson
+        ? `${failure}: ${errorJson.error} - ${errorJson.reason || errorJson.error_description || ""}`
+        : `${failure}: ${response.status} - ${errorText}`
+    );
+  }
+
+  const tokens = (await response.json()) as ZoomTokenResponse;
+
+  if (!tokens.access_token) {
+    throw new Error(`${failure}: no access_token in response`);
+  }
+
+  return tokens;
+}
+
+/**
+ * Exchange an authorization code for access and refresh tokens.
+ *
+ * @param code - Authorization code from OAuth callback
+ * @throws Error if exchange fails
+ */
+export async function exchangeZoomCode(code: string): Promise<ZoomTokenResponse> {
+  const { redirectUrl } = getZoomOAuthConfig();
+  return requestTokens(
+    { code, grant_type: "authorization_code", redirect_uri: redirectUrl },
+    "Token exchange failed"
+  );
+}
+
+/**
+ * Refresh an access token. Zoom rotates refresh tokens on every refresh,
+ * so the new one must be stored.
+ *
+ * @param refreshToken - The refresh token
+ * @throws Error if refresh fails
+ */
+export async function refreshZoomToken(refreshToken: string): Promise<ZoomTokenResponse> {
+  return requestTokens(
+    { refresh_token: refreshToken, grant_type: "refresh_token" },
+    "Token refresh failed"
+  );
+}
+
+/**
+ * Revoke a token, which uninstalls the app from the Zoom account.
+ * Best-effort: returns false rather than throwing.
+ */
+export async function revokeZoomToken(token: string): Promise<boolean> {
+  try {
+    const config = getZoomOAuthConfig();
+    const credentials = Buffer.from(`${config.clientId}:${config.clientSecret}`).toString("base64");
+
+    const response = await fetch(`${config.oauthBase}/oauth/revoke`, {
+      method: "POST",
+      headers: {
+        Authorization: `Basic ${credentials}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: new URLSearchParams({ token }),
+    });
+    return response.ok;
+  } catch (error) {
+    console.warn("[Zoom] Token revocation failed:", error);
+    return false;
+  }
+}
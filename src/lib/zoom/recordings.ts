@@ -0,0 +1,72 @@
+/**
+ * Zoom Recording Helpers
+ *
+ * Picks the transcript out of a cloud recording and converts Zoom's VTT
+ * (speakers as "Name: text" prefixes) into speaker turns and labelled text.
+ */
+
+import { parseVtt, mergeSpeakerTurns } from "@/lib/vtt";
+import { buildTranscriptContent, type TranscriptContent } from "@/lib/connectors/transcripts";
+import type { ZoomRecordingFile, ZoomRecordingMeeting } from "./types";
+
+/**
+ * The meeting's finished VTT transcript file, if it has one yet.
+ * recording.completed often arrives before the transcript is processed;
+ * recording.transcript_completed follows with it.
+ */
+export function pickTranscriptFile(meeting: ZoomRecordingMeeting): ZoomRecordingFile | null {
+  return (
+    (meeting.recording_files || []).find(
+      (file) =>
+        file.file_type === "TRANSCRIPT" &&
+        (!file.file_extension || file.file_extension.toUpperCase() === "VTT") &&
+        (!file.status || file.status === "completed") &&
+        !!file.download_url
+    ) || null
+  );
+}
+
+/**
+ * External ID for the call created from a meeting instance. Both recording
+ * events carry the same UUID, so whichever arrives second is a duplicate.
+ */
+export function zoomCallExternalId(meetingUuid: string): string {
+  return `zoom:${meetingUuid}`;
+}
+
+/**
+ * Call duration in seconds: the transcript's span when Zoom reports it,
+ * otherwise the meeting's scheduled minutes.
+ */
+export function recordingDurationSeconds(
+  meeting: ZoomRecordingMeeting,
+  file: ZoomRecordingFile | null
+): number | null {
+  if (file?.recording_start && file.recording_end) {
+    const seconds = Math.round(
+      (new Date(file.recording_end).getTime() - new Date(file.recording_start).getTime()) / 1000
+    );
+    if (seconds > 0) return seconds;
+  }
+
+  return meeting.duration ? meeting.duration * 60 : null;
+}
+
+/**
+ * Convert a Zoom VTT transcript.
+ *
+ * @param vtt - Transcript content as WebVTT
+ * @param recordingStart - When the recording started (cue times are offsets from it)
+ * @param emailsByName - Known speaker emails by lowercased display name
+ */
+export function convertZoomTranscript(
+  vtt: string,
+  recordingStart: string,
+  emailsByName?: Map<string, string>
+): TranscriptContent {
+  return buildTranscriptContent(
+    mergeSpeakerTurns(parseVtt(vtt, { speakerPrefixes: true })),
+    recordingStart,
+    emailsByName
+  );
+}
@@ -0,0 +1,291 @@
+/**
+ * Supabase Storage Helpers
+ *
+ * Server-only database operations for org Zoom connections. Refresh tokens
+ * are encrypted with the same key as the other connectors'.
+ */
+
+import "server-only";
+import { createAdminClient } from "@/lib/supabase/server";
+import { encryptToken, decryptToken } from "@/lib/google/crypto";
+import type { ZoomConnection, ZoomConnectionPublic } from "./types";
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+const PUBLIC_COLUMNS =
+  "id, zoom_email, zoom_account_id, auto_analyze, last_event_at, last_error, created_at, token_expiry";
+
+function validateUUID(uuid: string, fieldName: string): string {
+  if (!uuid || !UUID_REGEX.test(uuid)) {
+    throw new Error(`Invalid ${fieldName}: "${uuid}" is not a valid UUID`);
+  }
+  return uuid;
+}
+
+function toPublicConnection(
+  conn: Pick<
+    ZoomConnection,
+    | "id"
+    | "zoom_email"
+    | "zoom_account_id"
+    | "auto_analyze"
+    | "last_event_at"
+    | "last_error"
+    | "created_at"
+    | "token_expiry"
+  >
+): ZoomConnectionPublic {
+  return {
+    id: conn.id,
+    zoom_email: conn.zoom_email,
+    zoom_account_id: conn.zoom_account_id,
+    auto_analyze: conn.auto_analyze,
+    last_event_at: conn.last_event_at,
+    last_error: conn.last_error,
+    created_at: conn.created_at,
+    is_token_valid: new Date(conn.token_expiry) > new Date(),
+  };
+}
+
+// ============================================================================
+// CONNECTIONS
+// ============================================================================
+
+/**
+ * Create or update an org's connection to a Zoom account. A Zoom account
+ * feeds one org, so connecting an account another org already holds fails.
+ *
+ * @returns The created/updated connection (public fields only)
+ */
+export async function createOrUpdateZoomConnection(input: {
+  orgId: string;
+  connectedBy: string;
+  zoomAccountId: string;
+  zoomUserId: string;
+  zoomEmail: string;
+  accessToken: string;
+  refreshToken: string;
+  tokenExpiry: Date;
+  scopes: string[];
+}): Promise<ZoomConnectionPublic> {
+  const supabase = createAdminClient();
+
+  const existing = await getZoomConnectionByAccountId(input.zoomAccountId);
+  if (existing && existing.org_id !== input.orgId) {
+    throw new Error("This Zoom account is already connected to another organization");
+  }
+
+  const encrypted = encryptToken(input.refreshToken);
+
+  const { data, error } = await supabase
+    .from("zoom_connections")
+    .upsert(
+      {
+        org_id: input.orgId,
+        connected_by: input.connectedBy,
+        zoom_account_id: input.zoomAccountId,
+        zoom_user_id: input.zoomUserId,
+        zoom_email: input.zoomEmail,
+        access_token: input.accessToken,
+        refresh_token_encrypted: encrypted.ciphertext,
+        refresh_token_iv: encrypted.iv,
+        refresh_token_tag: encrypted.tag,
+        token_expiry: input.tokenExpiry.toISOString(),
+        scopes: input.scopes,
+        last_error: null,
+      },
+      { onConflict: "zoom_account_id" }
+    )
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save Zoom connection: ${error.message}`);
+  }
+
+  return toPublicConnection(data as ZoomConnection);
+}
+
+/**
+ * Get a Zoom connection by ID (with encrypted tokens for server use).
+ */
+export async function getZoomConnection(connectionId: string): Promise<ZoomConnection | null> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from("zoom_connections")
+    .select("*")
+    .eq("id", validateUUID(connectionId, "connectionId"))
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to get Zoom connection: ${error.message}`);
+  }
+
+  return data as ZoomConnection | null;
+}
+
+/**
+ * Get the connection a webhook's Zoom account belongs to.
+ */
+export async function getZoomConnectionByAccountId(
+  zoomAccountId: string
+): Promise<ZoomConnection | null> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from("zoom_connections")
+    .select("*")
+    .eq("zoom_account_id", zoomAccountId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to get Zoom connection: ${error.message}`);
+  }
+
+  return data as ZoomConnection | null;
+}
+
+/**
+ * Get decrypted refresh token for a connection.
+ */
+export function getDecryptedZoomRefreshToken(connection: ZoomConnection): string {
+  return decryptToken({
+    ciphertext: connection.refresh_token_encrypted,
+    iv: connection.refresh_token_iv,
+    tag: connection.refresh_token_tag,
+  });
+}
+
+/**
+ * List an org's Zoom connections (public fields only).
+ */
+export async function listOrgZoomConnections(orgId: string): Promise<ZoomConnectionPublic[]> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from("zoom_connections")
+    .select(PUBLIC_COLUMNS)
+    .eq("org_id", validateUUID(orgId, "orgId"))
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to list Zoom connections: ${error.message}`);
+  }
+
+  return (data || []).map(toPublicConnection);
+}
+
+/**
+ * Turn analysis queueing on or off for calls from a connection.
+ *
+ * @returns The updated connection, or null if the org has no such connection
+ */
+export async function updateZoomConnectionSettings(
+  orgId: string,
+  connectionId: string,
+  settings: { autoAnalyze: boolean }
+): Promise<ZoomConnectionPublic | null> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from("zoom_connections")
+    .update({ auto_analyze: settings.autoAnalyze })
+    .eq("id", validateUUID(connectionId, "connectionId"))
+    .eq("org_id", validateUUID(orgId, "orgId"))
+    .select(PUBLIC_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update Zoom connection: ${error.message}`);
+  }
+
+  return data ? toPublicConnection(data) : null;
+}
+
+/**
+ * Delete an org's Zoom connection. Calls already created from it are kept.
+ *
+ * @returns True if deleted
+ */
+export async function deleteZoomConnection(orgId: string, connectionId: string): Promise<boolean> {
+  const supabase = createAdminClient();
+
+  const { error, count } = await supabase
+    .from("zoom_connections")
+    .delete({ count: "exact" })
+    .eq("id", validateUUID(connectionId, "connectionId"))
+    .eq("org_id", validateUUID(orgId, "orgId"));
+
+  if (error) {
+    throw new Error(`Failed to delete Zoom connection: ${error.message}`);
+  }
+
+  return (count ?? 0) > 0;
+}
+
+/**
+ * Delete the connection for a Zoom account that uninstalled the app
+ * (app_deauthorized webhook).
+ */
+export async function deleteZoomConnectionByAccountId(zoomAccountId: string): Promise<void> {
+  const supabase = createAdminClient();
+
+  const { error } = await supabase
+    .from("zoom_connections")
+    .delete()
+    .eq("zoom_account_id", zoomAccountId);
+
+  if (error) {
+    throw new Error(`Failed to delete Zoom connection: ${error.message}`);
+  }
+}
+
+/**
+ * Update connection tokens after refresh.
+ */
+export async function updateZoomConnectionTokens(
+  connectionId: string,
+  accessToken: string,
+  tokenExpiry: Date,
+  refreshToken?: string
+): Promise<void> {
+  const supabase = createAdminClient();
+
+  const updateData: Record<string, string | null> = {
+    access_token: accessToken,
+    token_expiry: tokenExpiry.toISOString(),
+    last_error: null,
+  };
+
+  if (refreshToken) {
+    const encrypted = encryptToken(refreshToken);
+    updateData.refresh_token_encrypted = encrypted.ciphertext;
+    updateData.refresh_token_iv = encrypted.iv;
+    updateData.refresh_token_tag = encrypted.tag;
+  }
+
+  const { error } = await supabase
+    .from("zoom_connections")
+    .update(updateData)
+    .eq("id", connectionId);
+
+  if (error) {
+    throw new Error(`Failed to update connection tokens: ${error.message}`);
+  }
+}
+
+/**
+ * Record the outcome of handling a recording webhook on a connection.
+ */
+export async function updateZoomEventStatus(
+  connectionId: string,
+  error: string | null
+): Promise<void> {
+  const supabase = createAdminClient();
+
+  await supabase
+    .from("zoom_connections")
+    .update({ last_event_at: new Date().toISOString(), last_error: error })
+    .eq("id", connectionId);
+}
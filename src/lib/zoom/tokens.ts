@@ -0,0 +1,75 @@
+/**
+ * Token Management
+ *
+ * Server-only utilities for managing Zoom OAuth tokens.
+ * Handles token refresh and database updates.
+ */
+
+import "server-only";
+import { createAdminClient } from "@/lib/supabase/server";
+import { isTokenExpired } from "@/lib/google/tokens";
+import {
+  getZoomConnection,
+  getDecryptedZoomRefreshToken,
+  updateZoomConnectionTokens,
+} from "./storage";
+import { refreshZoomToken } from "./oauth";
+
+/**
+ * Get a valid access token for a Zoom connection, refreshing it (and
+ * storing the rotated refresh token) when it's about to expire.
+ *
+ * @param connectionId - The Zoom connection ID
+ * @returns Valid access token
+ * @throws Error if connection not found or refresh fails
+ */
+export async function getValidZoomAccessToken(connectionId: string): Promise<string> {
+  const connection = await getZoomConnection(connectionId);
+
+  if (!connection) {
+    throw new Error(`Zoom connection not found: ${connectionId}`);
+  }
+
+  if (!isTokenExpired(connection.token_expiry)) {
+    return connection.access_token;
+  }
+
+  let refreshToken: string;
+  try {
+    refreshToken = getDecryptedZoomRefreshToken(connection);
+  } catch (error) {
+    throw new Error(
+      `Failed to decrypt refresh token for connection ${connectionId}: ` +
+        (error instanceof Error ? error.message : "Unknown error")
+    );
+  }
+
+  let newTokens;
+  try {
+    newTokens = await refreshZoomToken(refreshToken);
+  } catch (error) {
+    await createAdminClient()
+      .from("zoom_connections")
+      .update({
+        last_error: error instanceof Error ? error.message : "Token refresh failed",
+      })
+      .eq("id", connection.id);
+
+    throw error;
+  }
+
+  // Zoom invalidates the old refresh token as soon as a new one is issued,
+  // so losing this write means reconnecting; still return the fresh token
+  try {
+    await updateZoomConnectionTokens(
+      connection.id,
+      newTokens.access_token,
+      new Date(Date.now() + newTokens.expires_in * 1000),
+      newTokens.refresh_token
+    );
+  } catch (error) {
+    console.error("Failed to update Zoom token in database:", error);
+  }
+
+  return newTokens.access_token;
+}
@@ -0,0 +1,148 @@
+/**
+ * Zoom TypeScript Types
+ * Types for OAuth connections, the Zoom REST API, recording webhooks and
+ * database models.
+ */
+
+// ============================================================================
+// DATABASE MODELS
+// ============================================================================
+
+/**
+ * Zoom OAuth connection stored in database. Owned by the org; recording
+ * webhooks are routed to it by Zoom account ID.
+ */
+export interface ZoomConnection {
+  id: string;
+  org_id: string;
+  connected_by: string;
+  zoom_account_id: string;
+  zoom_user_id: string;
+  zoom_email: string;
+  access_token: string;
+  refresh_token_encrypted: string;
+  refresh_token_iv: string;
+  refresh_token_tag: string;
+  token_expiry: string;
+  scopes: string[];
+  auto_analyze: boolean;
+  last_event_at: string | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Zoom connection for client display (no sensitive tokens)
+ */
+export interface ZoomConnectionPublic {
+  id: string;
+  zoom_email: string;
+  zoom_account_id: string;
+  auto_analyze: boolean;
+  last_event_at: string | null;
+  last_error: string | null;
+  created_at: string;
+  is_token_valid: boolean;
+}
+
+// ============================================================================
+// OAUTH TYPES
+// ============================================================================
+
+/**
+ * Zoom OAuth token response
+ */
+export interface ZoomTokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in: number;
+  token_type: string;
+  scope: string;
+}
+
+// ============================================================================
+// ZOOM API TYPES
+// ============================================================================
+
+export interface ZoomUser {
+  id: string;
+  email: string;
+  account_id: string;
+  first_name?: string;
+  last_name?: string;
+  display_name?: string;
+}
+
+/**
+ * A file in a cloud recording. Transcripts are file_type "TRANSCRIPT"
+ * (recording_type "audio_transcript") in VTT format.
+ */
+export interface ZoomRecordingFile {
+  id: string;
+  meeting_id?: string;
+  recording_start?: string;
+  recording_end?: string;
+  file_type: string;
+  file_extension?: string;
+  file_size?: number;
+  download_url: string;
+  status?: string;
+  recording_type?: string;
+}
+
+/**
+ * A meeting's cloud recording, as returned by the recordings API and
+ * carried in recording webhooks
+ */
+export interface ZoomRecordingMeeting {
+  uuid: string;
+  id: number | string;
+  account_id?: string;
+  host_id: string;
+  host_email: string;
+  topic?: string;
+  start_time: string;
+  /** Minutes */
+  duration?: number;
+  recording_files?: ZoomRecordingFile[];
+}
+
+// ============================================================================
+// WEBHOOK TYPES
+// ============================================================================
+
+export type ZoomRecordingEventName = "recording.completed" | "recording.transcript_completed";
+
+/**
+ * Zoom webhook envelope
+ */
+export interface ZoomWebhookEvent {
+  event: string;
+  event_ts: number;
+  payload: Record<string, unknown>;
+  /** Short-lived token for downloading recording files (recording events only) */
+  download_token?: string;
+}
+
+/**
+ * recording.completed / recording.transcript_completed
+ */
+export interface ZoomRecordingEvent extends ZoomWebhookEvent {
+  event: ZoomRecordingEventName;
+  payload: {
+    account_id: string;
+    object: ZoomRecordingMeeting;
+  };
+}
+
+/**
+ * endpoint.url_validation, sent when the webhook URL is saved and
+ * periodically after
+ */
+export interface ZoomUrlValidationEvent extends ZoomWebhookEvent {
+  event: "endpoint.url_validation";
+  payload: {
+    plainToken: string;
+  };
+}
@@ -14,6 +14,7 @@ import {
   CriteriaType,
   CriteriaConfig,
 } from "@/types/database";
+import { getFormulaVariables, validateFormula } from "@/lib/scoring-formula";
 
 // ============================================================================
 // TYPES
@@ -24,6 +25,7 @@ export interface DraftTemplate {
   name: string;
   description: string;
   scoring_method: ScoringMethod;
+  scoring_formula: string;
   use_case: TemplateUseCase;
   pass_threshold: number;
   max_total_score: number;
@@ -155,6 +157,7 @@ const defaultTemplate: DraftTemplate = {
   name: "New Template",
   description: "",
   scoring_method: "weighted",
+  scoring_formula: "",
   use_case: "sales_call",
   pass_threshold: 70,
   max_total_score: 100,
@@ -214,6 +217,7 @@ export const useTemplateBuilderStore = create<TemplateBuilderState>()(
           name: template.name,
           description: template.description || "",
           scoring_method: template.scoring_method,
+          scoring_formula: template.scoring_formula || "",
           use_case: template.use_case,
           pass_threshold: template.pass_threshold,
           max_total_score: template.max_total_score,
@@ -511,6 +515,21 @@ export const useTemplateBuilderStore = create<TemplateBuilderState>()(
         }
       }
 
+      // Formula must parse and only reference this template's criteria/groups
+      if (template.scoring_method === "custom_formula") {
+        if (!template.scoring_formula.trim()) {
+          errors.push({ field: "scoring_formula", message: "Scoring formula is required" });
+        } else {
+          const result = validateFormula(
+            template.scoring_formula,
+            getFormulaVariables(groups, criteria)
+          );
+          result.errors.forEach((message) =>
+            errors.push({ field: "scoring_formula", message: `Formula: ${message}` })
+          );
+        }
+      }
+
       // At least one criteria required
       if (criteria.length === 0) {
         errors.push({ field: "criteria", message: "At least one criterion is required" });
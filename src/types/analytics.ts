@@ -152,6 +152,9 @@ export interface PlanLimits {
   max_calls_per_month: number;
   max_templates: number;
   max_sessions_per_month: number;
+  max_ai_analyses_per_month: number;
+  max_storage_bytes: number;
+  max_api_calls_per_month: number;
   ai_analysis_enabled: boolean;
   calendar_sync_enabled: boolean;
   export_enabled: boolean;
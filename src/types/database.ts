@@ -8,8 +8,9 @@ export type Json =
 
 // Enums
 export type UserRole = "caller" | "admin" | "superadmin" | "manager" | "coach";
-export type CallStatus = "pending" | "processing" | "analyzed" | "failed";
-export type CallSource = "webhook" | "google_notes" | "manual" | "api" | "calendar";
+export type CallStatus = "pending" | "transcribing" | "processing" | "analyzed" | "failed";
+export type QueueJobType = "transcription" | "analysis";
+export type CallSource = "webhook" | "google_notes" | "manual" | "api" | "calendar" | "microsoft_teams" | "zoom";
 export type GradingFieldType = "score" | "text" | "checklist" | "boolean" | "percentage";
 export type ImportanceLevel = "high" | "medium" | "low";
 export type PlanType = "free" | "starter" | "professional" | "enterprise";
@@ -18,6 +19,36 @@ export type ScriptStatus = "draft" | "active" | "archived";
 export type ScorecardStatus = "draft" | "active" | "archived";
 export type InsightCategory = "general" | "coaching" | "performance" | "compliance" | "custom";
 export type InsightOutputFormat = "text" | "bullets" | "numbered" | "json";
+export type CallInsightStatus = "completed" | "failed";
+export type WebhookDeliveryStatus = "pending" | "delivering" | "succeeded" | "failed";
+export type NotificationType =
+  | "new_call"
+  | "low_score"
+  | "daily_digest"
+  | "scheduled_report"
+  | "usage_warning"
+  | "dispute_resolved";
+export type NotificationStatus = "sending" | "sent" | "failed";
+export type ReportType = "team_performance" | "caller" | "template";
+export type ReportFormat = "pdf" | "csv" | "xlsx";
+export type ReportExportStatus = "generating" | "ready" | "failed";
+export type ReportDateWindow =
+  | "yesterday"
+  | "last_7_days"
+  | "last_30_days"
+  | "previous_week"
+  | "previous_month"
+  | "month_to_date";
+export type ReportDeliveryChannel = "email" | "webhook";
+export type ReportScheduleRunStatus = "running" | "succeeded" | "failed";
+export type BillingProviderName = "stripe" | "local";
+export type BillingInterval = "month" | "year";
+export type SubscriptionStatus = "active" | "past_due" | "canceled" | "trialing" | "paused";
+// none: paid up; grace: payment failed, plan still on; restricted: degraded to free limits
+export type DunningState = "none" | "grace" | "restricted";
+export type BillingInvoiceStatus = "draft" | "open" | "paid" | "void" | "uncollectible";
+// Strings for bullets/numbered output, objects for json output
+export type InsightItem = string | Record<string, unknown>;
 export type ScoredBy = "ai" | "manual" | "hybrid";
 
 // New Coaching Platform Enums
@@ -41,7 +72,13 @@ export type SessionStatus =
   | "disputed"
   | "cancelled";
 export type PassStatus = "pass" | "fail" | "pending";
+export type DisputeOutcome = "upheld" | "amended";
 export type SyncDirection = "calendar_to_sessions" | "bidirectional";
+export type ConnectorProvider = "google" | "microsoft";
+export type CalendarEventReviewStatus = "pending" | "assigned" | "dismissed";
+export type CalendarSyncType = "cron" | "manual" | "push";
+export type CalendarSyncMode = "full" | "incremental";
+export type CalendarSyncStatus = "started" | "completed" | "failed";
 export type SessionAuditAction =
   | "created"
   | "started"
@@ -51,7 +88,8 @@ export type SessionAuditAction =
   | "disputed"
   | "dispute_resolved"
   | "cancelled"
-  | "reopened";
+  | "reopened"
+  | "rescheduled";
 
 // Grading criteria configuration
 export interface GradingCriterion {
@@ -98,6 +136,13 @@ export interface ScorecardCriterion {
   order: number;
 }
 
+// Where a criteria_optimizations row's scores come from: coaching session
+// scores on a template criterion, or AI call scores on a scorecard criterion
+export type CriterionInsightSource = "template" | "scorecard";
+
+// Calibration problems found by the criteria insights job
+export type CriterionInsightFlag = "always_max" | "always_min" | "ai_disagreement";
+
 // ============================================================================
 // COACHING PLATFORM TYPES
 // ============================================================================
@@ -266,6 +311,9 @@ export interface CriterionScoreResult {
   improvements?: string[];
 }
 
+// LLM backend used for call analysis (see src/lib/llm)
+export type AIProvider = "openai" | "anthropic" | "local" | "fixture";
+
 // Organization settings
 export interface OrgSettings {
   branding: {
@@ -281,7 +329,8 @@ export interface OrgSettings {
     dailyDigest: boolean;
   };
   ai: {
-    model: "gpt-4o" | "gpt-4o-mini" | "gpt-4-turbo";
+    provider?: AIProvider; // Defaults to "openai" for orgs created before providers existed
+    model: string;
     temperature: number;
     customPromptPrefix?: string;
   };
@@ -290,6 +339,9 @@ export interface OrgSettings {
     autoAnalyze: boolean;
     competitorTracking: boolean;
   };
+  security?: {
+    require2fa?: boolean;
+  };
 }
 
 // Grading results from AI
@@ -305,6 +357,7 @@ export interface GradingResult {
 
 export interface AnalysisResults {
   overallScore: number;
+  criteriaScores?: Record<string, CriterionScoreResult>; // Scorecard-based analyses
   gradingResults: GradingResult[];
   compositeScore: number;
   strengths: string[];
@@ -329,10 +382,103 @@ export interface AnalysisResults {
     questionCount: number;
     interruptionCount: number;
     silenceDuration: number;
+    // Present when computed from transcript timestamps (see ComputedCallMetrics)
+    longestMonologueSeconds?: number;
+    wordsPerMinute?: number;
+    gapCount?: number;
+    computed?: boolean;
   };
   recommendations: string[];
 }
 
+// Per-speaker metrics computed from a timestamped transcript
+export interface SpeakerMetrics {
+  speaker: string;
+  name: string;
+  isRep: boolean;
+  talkTimeSeconds: number;
+  talkRatio: number; // 0-1 share of total talk time
+  turns: number;
+  words: number;
+  wordsPerMinute: number;
+  questionCount: number;
+  longestMonologueSeconds: number;
+  interruptions: number; // Times this speaker talked over someone
+}
+
+// Call metrics computed from a timestamped transcript (calls.metadata.call_metrics)
+export interface ComputedCallMetrics {
+  source: "transcript_timestamps";
+  durationSeconds: number;
+  talkTimeSeconds: number;
+  repSpeaker: string | null;
+  talkRatio: number | null; // Rep's share; null when the rep isn't known
+  questionCount: number;
+  interruptionCount: number;
+  longestMonologueSeconds: number;
+  longestMonologueSpeaker: string;
+  gapCount: number;
+  silenceDuration: number;
+  longestGapSeconds: number;
+  wordsPerMinute: number;
+  // Lexicon-based, seconds from call start; absent on calls measured before it existed
+  sentimentProgression?: Array<{ timestamp: number; sentiment: number }>;
+  speakers: SpeakerMetrics[];
+}
+
+export type AnalysisStatus = "completed" | "failed";
+
+// A model response rejected by schema validation (analyses.validation_errors)
+export interface AnalysisValidationFailure {
+  attempt: number;
+  model: string;
+  issues: string[];
+  at: string;
+}
+
+// A named speaker on a call (calls.metadata.speakers), used to tell the
+// analysis which participant is the rep being evaluated
+export interface CallSpeaker {
+  name: string;
+  email?: string | null;
+  user_id?: string | null;
+  caller_id?: string | null;
+  is_rep: boolean;
+  entries_count?: number;
+}
+
+// A transcript excerpt matched to a script phrase
+export interface ScriptPhraseExcerpt {
+  phrase: string;
+  excerpt: string;
+  similarity: number;
+}
+
+// Per-section script adherence (call_script_adherence.sections)
+export interface ScriptSectionAdherence {
+  section_id: string;
+  section_name: string;
+  order: number;
+  score: number;
+  covered: boolean;
+  // Transcript line where the section was best matched (covered sections only)
+  position: number | null;
+  in_order: boolean | null;
+  phrases_matched: number;
+  phrases_total: number;
+  excerpts: ScriptPhraseExcerpt[];
+}
+
+// Script adherence computed from a call transcript (see src/lib/script-adherence)
+export interface ScriptAdherenceResult {
+  overall_score: number;
+  coverage_score: number;
+  order_score: number;
+  sections_covered: number;
+  sections_total: number;
+  sections: ScriptSectionAdherence[];
+}
+
 // Report JSON structure
 export interface ReportJson {
   version: string;
@@ -559,6 +705,9 @@ export interface Database {
             total: number;
           };
           error_message?: string;
+          status: AnalysisStatus;
+          validation_attempts: number;
+          validation_errors: AnalysisValidationFailure[];
           created_at: string;
         };
         Insert: {
@@ -575,6 +724,9 @@ export interface Database {
             total: number;
           };
           error_message?: string;
+          status?: AnalysisStatus;
+          validation_attempts?: number;
+          validation_errors?: AnalysisValidationFailure[];
           created_at?: string;
         };
         Update: {
@@ -591,6 +743,9 @@ export interface Database {
             total: number;
           };
           error_message?: string;
+          status?: AnalysisStatus;
+          validation_attempts?: number;
+          validation_errors?: AnalysisValidationFailure[];
           created_at?: string;
         };
       };
@@ -740,6 +895,433 @@ export interface Database {
           created_at?: string;
         };
       };
+      webhook_subscriptions: {
+        Row: {
+          id: string;
+          org_id: string;
+          name: string;
+          url: string;
+          secret: string;
+          events: string[];
+          is_active: boolean;
+          last_delivery_at: string | null;
+          last_delivery_status: string | null;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          org_id: string;
+          name: string;
+          url: string;
+          secret: string;
+          events?: string[];
+          is_active?: boolean;
+          last_delivery_at?: string | null;
+          last_delivery_status?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          org_id?: string;
+          name?: string;
+          url?: string;
+          secret?: string;
+          events?: string[];
+          is_active?: boolean;
+          last_delivery_at?: string | null;
+          last_delivery_status?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      webhook_deliveries: {
+        Row: {
+          id: string;
+          org_id: string;
+          subscription_id: string;
+          event_id: string;
+          event_type: string;
+          payload: Json;
+          status: WebhookDeliveryStatus;
+          attempts: number;
+          max_attempts: number;
+          next_attempt_at: string;
+          last_attempt_at: string | null;
+          response_status: number | null;
+          response_body: string | null;
+          error_message: string | null;
+          duration_ms: number | null;
+          replay_of: string | null;
+          locked_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          org_id: string;
+          subscription_id: string;
+          event_id: string;
+          event_type: string;
+          payload: Json;
+          status?: WebhookDeliveryStatus;
+          attempts?: number;
+          max_attempts?: number;
+          next_attempt_at?: string;
+          last_attempt_at?: string | null;
+          response_status?: number | null;
+          response_body?: string | null;
+          error_message?: string | null;
+          duration_ms?: number | null;
+          replay_of?: string | null;
+          locked_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          org_id?: string;
+          subscription_id?: string;
+          event_id?: string;
+          event_type?: string;
+          payload?: Json;
+          status?: WebhookDeliveryStatus;
+          attempts?: number;
+          max_attempts?: number;
+          next_attempt_at?: string;
+          last_attempt_at?: string | null;
+          response_status?: number | null;
+          response_body?: string | null;
+          error_message?: string | null;
+          duration_ms?: number | null;
+          replay_of?: string | null;
+          locked_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      notification_preferences: {
+        Row: {
+          user_id: string;
+          org_id: string;
+          email_new_call: boolean;
+          email_low_score: boolean;
+          email_daily_digest: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          org_id: string;
+          email_new_call?: boolean;
+          email_low_score?: boolean;
+          email_daily_digest?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          org_id?: string;
+          email_new_call?: boolean;
+          email_low_score?: boolean;
+          email_daily_digest?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      notification_log: {
+        Row: {
+          id: string;
+          org_id: string;
+          user_id: string | null;
+          type: NotificationType;
+          recipient: string;
+          subject: string;
+          status: NotificationStatus;
+          dedupe_key: string;
+          entity_type: string | null;
+          entity_id: string | null;
+          transport: string | null;
+          message_id: string | null;
+          error_message: string | null;
+          sent_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          org_id: string;
+          user_id?: string | null;
+          type: NotificationType;
+          recipient: string;
+          subject: string;
+          status?: NotificationStatus;
+          dedupe_key: string;
+          entity_type?: string | null;
+          entity_id?: string | null;
+          transport?: string | null;
+          message_id?: string | null;
+          error_message?: string | null;
+          sent_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          org_id?: string;
+          user_id?: string | null;
+          type?: NotificationType;
+          recipient?: string;
+          subject?: string;
+          status?: NotificationStatus;
+          dedupe_key?: string;
+          entity_type?: string | null;
+          entity_id?: string | null;
+          transport?: string | null;
+          message_id?: string | null;
+          error_message?: string | null;
+          sent_at?: string | null;
+          created_at?: string;
+        };
+      };
+      report_exports: {
+        Row: {
+          id: string;
+          org_id: string;
+          name: string;
+          report_type: ReportType;
+          format: ReportFormat;
+          parameters: Json;
+          status: ReportExportStatus;
+          storage_path: string | null;
+          file_size: number | null;
+          error_message: string | null;
+          created_by: string | null;
+          completed_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          org_id: string;
+          name: string;
+          report_type: ReportType;
+          format: ReportFormat;
+          parameters?: Json;
+          status?: ReportExportStatus;
+          storage_path?: string | null;
+          file_size?: number | null;
+          error_message?: string | null;
+          created_by?: string | null;
+          completed_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          org_id?: string;
+          name?: string;
+          report_type?: ReportType;
+          format?: ReportFormat;
+          parameters?: Json;
+          status?: ReportExportStatus;
+          storage_path?: string | null;
+          file_size?: number | null;
+          error_message?: string | null;
+          created_by?: string | null;
+          completed_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      report_schedules: {
+        Row: {
+          id: string;
+          org_id: string;
+          name: string;
+          report_type: ReportType;
+          format: ReportFormat;
+          agent_id: string | null;
+          template_id: string | null;
+          date_window: ReportDateWindow;
+          cron_expression: string;
+          delivery_channel: ReportDeliveryChannel;
+          recipient_ids: string[];
+          webhook_subscription_id: string | null;
+          is_active: boolean;
+          next_run_at: string | null;
+          last_run_at: string | null;
+          last_run_status: ReportScheduleRunStatus | null;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          org_id: string;
+          name: string;
+          report_type: ReportType;
+          format: ReportFormat;
+          agent_id?: string | null;
+          template_id?: string | null;
+          date_window: ReportDateWindow;
+          cron_expression: string;
+          delivery_channel: ReportDeliveryChannel;
+          recipient_ids?: string[];
+          webhook_subscription_id?: string | null;
+          is_active?: boolean;
+          next_run_at?: string | null;
+          last_run_at?: string | null;
+          last_run_status?: ReportScheduleRunStatus | null;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          org_id?: string;
+          name?: string;
+          report_type?: ReportType;
+          format?: ReportFormat;
+          agent_id?: string | null;
+          template_id?: string | null;
+          date_window?: ReportDateWindow;
+          cron_expression?: string;
+          delivery_channel?: ReportDeliveryChannel;
+          recipient_ids?: string[];
+          webhook_subscription_id?: string | null;
+          is_active?: boolean;
+          next_run_at?: string | null;
+          last_run_at?: string | null;
+          last_run_status?: ReportScheduleRunStatus | null;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      report_schedule_runs: {
+        Row: {
+          id: string;
+          schedule_id: string;
+          org_id: string;
+          scheduled_for: string;
+          status: ReportScheduleRunStatus;
+          trigger: "schedule" | "manual";
+          date_from: string | null;
+          date_to: string | null;
+          report_id: string | null;
+          delivery_channel: ReportDeliveryChannel;
+          recipients_count: number;
+          webhook_delivery_id: string | null;
+          error_message: string | null;
+          started_at: string;
+          completed_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          schedule_id: string;
+          org_id: string;
+          scheduled_for: string;
+          status?: ReportScheduleRunStatus;
+          trigger?: "schedule" | "manual";
+          date_from?: string | null;
+          date_to?: string | null;
+          report_id?: string | null;
+          delivery_channel: ReportDeliveryChannel;
+          recipients_count?: number;
+          webhook_delivery_id?: string | null;
+          error_message?: string | null;
+          started_at?: string;
+          completed_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          schedule_id?: string;
+          org_id?: string;
+          scheduled_for?: string;
+          status?: ReportScheduleRunStatus;
+          trigger?: "schedule" | "manual";
+          date_from?: string | null;
+          date_to?: string | null;
+          report_id?: string | null;
+          delivery_channel?: ReportDeliveryChannel;
+          recipients_count?: number;
+          webhook_delivery_id?: string | null;
+          error_message?: string | null;
+          started_at?: string;
+          completed_at?: string | null;
+          created_at?: string;
+        };
+      };
+      billing_invoices: {
+        Row: {
+          id: string;
+          org_id: string;
+          provider: BillingProviderName;
+          provider_invoice_id: string;
+          number: string | null;
+          status: BillingInvoiceStatus;
+          amount_due: number;
+          amount_paid: number;
+          currency: string;
+          period_start: string | null;
+          period_end: string | null;
+          hosted_invoice_url: string | null;
+          invoice_pdf_url: string | null;
+          attempt_count: number;
+          next_payment_attempt: string | null;
+          issued_at: string;
+          paid_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          org_id: string;
+          provider: BillingProviderName;
+          provider_invoice_id: string;
+          number?: string | null;
+          status: BillingInvoiceStatus;
+          amount_due: number;
+          amount_paid?: number;
+          currency: string;
+          period_start?: string | null;
+          period_end?: string | null;
+          hosted_invoice_url?: string | null;
+          invoice_pdf_url?: string | null;
+          attempt_count?: number;
+          next_payment_attempt?: string | null;
+          issued_at: string;
+          paid_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          org_id?: string;
+          provider?: BillingProviderName;
+          provider_invoice_id?: string;
+          number?: string | null;
+          status?: BillingInvoiceStatus;
+          amount_due?: number;
+          amount_paid?: number;
+          currency?: string;
+          period_start?: string | null;
+          period_end?: string | null;
+          hosted_invoice_url?: string | null;
+          invoice_pdf_url?: string | null;
+          attempt_count?: number;
+          next_payment_attempt?: string | null;
+          issued_at?: string;
+          paid_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
       invitations: {
         Row: {
           id: string;
@@ -816,6 +1398,56 @@ export interface Database {
           created_at?: string;
         };
       };
+      api_keys: {
+        Row: {
+          id: string;
+          org_id: string;
+          name: string;
+          key_hash: string;
+          key_prefix: string;
+          scopes: string[];
+          rate_limit_per_minute: number | null;
+          last_used_at: string | null;
+          expires_at: string | null;
+          is_active: boolean;
+          revoked_at: string | null;
+          revoked_by: string | null;
+          created_by: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          org_id: string;
+          name: string;
+          key_hash: string;
+          key_prefix: string;
+          scopes?: string[];
+          rate_limit_per_minute?: number | null;
+          last_used_at?: string | null;
+          expires_at?: string | null;
+          is_active?: boolean;
+          revoked_at?: string | null;
+          revoked_by?: string | null;
+          created_by: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          org_id?: string;
+          name?: string;
+          key_hash?: string;
+          key_prefix?: string;
+          scopes?: string[];
+          rate_limit_per_minute?: number | null;
+          last_used_at?: string | null;
+          expires_at?: string | null;
+          is_active?: boolean;
+          revoked_at?: string | null;
+          revoked_by?: string | null;
+          created_by?: string;
+          created_at?: string;
+        };
+      };
       processing_queue: {
         Row: {
           id: string;
@@ -829,6 +1461,8 @@ export interface Database {
           scheduled_at: string;
           started_at?: string;
           completed_at?: string;
+          locked_by?: string;
+          job_type: QueueJobType;
           created_at: string;
         };
         Insert: {
@@ -843,6 +1477,8 @@ export interface Database {
           scheduled_at?: string;
           started_at?: string;
           completed_at?: string;
+          locked_by?: string;
+          job_type?: QueueJobType;
           created_at?: string;
         };
         Update: {
@@ -857,6 +1493,8 @@ export interface Database {
           scheduled_at?: string;
           started_at?: string;
           completed_at?: string;
+          locked_by?: string;
+          job_type?: QueueJobType;
           created_at?: string;
         };
       };
@@ -1069,12 +1707,126 @@ export interface Database {
           updated_at?: string;
         };
       };
+      call_script_adherence: {
+        Row: {
+          id: string;
+          org_id: string;
+          call_id: string;
+          script_id?: string | null;
+          script_name: string;
+          script_version: number;
+          overall_score: number;
+          coverage_score: number;
+          order_score: number;
+          sections_covered: number;
+          sections_total: number;
+          sections: ScriptSectionAdherence[];
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          org_id: string;
+          call_id: string;
+          script_id?: string | null;
+          script_name: string;
+          script_version: number;
+          overall_score: number;
+          coverage_score: number;
+          order_score: number;
+          sections_covered: number;
+          sections_total: number;
+          sections?: ScriptSectionAdherence[];
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          org_id?: string;
+          call_id?: string;
+          script_id?: string | null;
+          script_name?: string;
+          script_version?: number;
+          overall_score?: number;
+          coverage_score?: number;
+          order_score?: number;
+          sections_covered?: number;
+          sections_total?: number;
+          sections?: ScriptSectionAdherence[];
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      call_insights: {
+        Row: {
+          id: string;
+          org_id: string;
+          call_id: string;
+          analysis_id?: string | null;
+          insight_template_id?: string | null;
+          template_name: string;
+          category: InsightCategory;
+          output_format: InsightOutputFormat;
+          prompt: string;
+          content?: string | null;
+          items: InsightItem[];
+          status: CallInsightStatus;
+          error?: string | null;
+          ai_model?: string | null;
+          token_usage?: { prompt: number; completion: number; total: number } | null;
+          generated_at: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          org_id: string;
+          call_id: string;
+          analysis_id?: string | null;
+          insight_template_id?: string | null;
+          template_name: string;
+          category?: InsightCategory;
+          output_format?: InsightOutputFormat;
+          prompt: string;
+          content?: string | null;
+          items?: InsightItem[];
+          status?: CallInsightStatus;
+          error?: string | null;
+          ai_model?: string | null;
+          token_usage?: { prompt: number; completion: number; total: number } | null;
+          generated_at?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          org_id?: string;
+          call_id?: string;
+          analysis_id?: string | null;
+          insight_template_id?: string | null;
+          template_name?: string;
+          category?: InsightCategory;
+          output_format?: InsightOutputFormat;
+          prompt?: string;
+          content?: string | null;
+          items?: InsightItem[];
+          status?: CallInsightStatus;
+          error?: string | null;
+          ai_model?: string | null;
+          token_usage?: { prompt: number; completion: number; total: number } | null;
+          generated_at?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
       criteria_optimizations: {
         Row: {
           id: string;
           org_id: string;
           criterion_name: string;
-          criterion_id?: string;
+          criterion_id: string;
+          source: CriterionInsightSource;
+          source_id: string;
           total_evaluations: number;
           total_score: number;
           average_score: number;
@@ -1082,6 +1834,13 @@ export interface Database {
           trend_data: Array<{ date: string; avg: number; count: number }>;
           common_strengths: string[];
           common_improvements: string[];
+          max_score_rate: number | null;
+          min_score_rate: number | null;
+          score_stddev: number | null;
+          ai_comparisons: number;
+          ai_average_score: number | null;
+          ai_mean_abs_diff: number | null;
+          flags: CriterionInsightFlag[];
           period_start: string;
           period_end: string;
           last_calculated_at: string;
@@ -1092,13 +1851,22 @@ export interface Database {
           id?: string;
           org_id: string;
           criterion_name: string;
-          criterion_id?: string;
+          criterion_id: string;
+          source: CriterionInsightSource;
+          source_id: string;
           total_evaluations?: number;
           total_score?: number;
           score_distribution?: Record<string, number>;
           trend_data?: Array<{ date: string; avg: number; count: number }>;
           common_strengths?: string[];
           common_improvements?: string[];
+          max_score_rate?: number | null;
+          min_score_rate?: number | null;
+          score_stddev?: number | null;
+          ai_comparisons?: number;
+          ai_average_score?: number | null;
+          ai_mean_abs_diff?: number | null;
+          flags?: CriterionInsightFlag[];
           period_start: string;
           period_end: string;
           last_calculated_at?: string;
@@ -1110,12 +1878,21 @@ export interface Database {
           org_id?: string;
           criterion_name?: string;
           criterion_id?: string;
+          source?: CriterionInsightSource;
+          source_id?: string;
           total_evaluations?: number;
           total_score?: number;
           score_distribution?: Record<string, number>;
           trend_data?: Array<{ date: string; avg: number; count: number }>;
           common_strengths?: string[];
           common_improvements?: string[];
+          max_score_rate?: number | null;
+          min_score_rate?: number | null;
+          score_stddev?: number | null;
+          ai_comparisons?: number;
+          ai_average_score?: number | null;
+          ai_mean_abs_diff?: number | null;
+          flags?: CriterionInsightFlag[];
           period_start?: string;
           period_end?: string;
           last_calculated_at?: string;
@@ -1137,6 +1914,7 @@ export interface Database {
           pass_threshold: number;
           max_total_score: number;
           settings: TemplateSettings;
+          scoring_formula?: string | null;
           status: TemplateStatus;
           version: number;
           is_default: boolean;
@@ -1157,6 +1935,7 @@ export interface Database {
           pass_threshold?: number;
           max_total_score?: number;
           settings?: TemplateSettings;
+          scoring_formula?: string | null;
           status?: TemplateStatus;
           version?: number;
           is_default?: boolean;
@@ -1177,6 +1956,7 @@ export interface Database {
           pass_threshold?: number;
           max_total_score?: number;
           settings?: TemplateSettings;
+          scoring_formula?: string | null;
           status?: TemplateStatus;
           version?: number;
           is_default?: boolean;
@@ -1299,6 +2079,9 @@ export interface Database {
           google_event_start?: string;
           google_event_end?: string;
           google_calendar_link_id?: string;
+          google_meet_code?: string;
+          google_event_writeback_at?: string;
+          google_event_writeback_error?: string;
           total_score?: number;
           total_possible?: number;
           percentage_score?: number;
@@ -1314,6 +2097,10 @@ export interface Database {
           dispute_reason?: string;
           dispute_resolved_at?: string;
           dispute_resolution?: string;
+          disputed_by?: string;
+          disputed_criteria_ids?: string[];
+          dispute_resolved_by?: string;
+          dispute_outcome?: DisputeOutcome;
           template_version?: number;
           template_snapshot?: TemplateVersionSnapshot;
           created_at: string;
@@ -1335,6 +2122,9 @@ export interface Database {
           google_event_start?: string;
           google_event_end?: string;
           google_calendar_link_id?: string;
+          google_meet_code?: string;
+          google_event_writeback_at?: string;
+          google_event_writeback_error?: string;
           total_score?: number;
           total_possible?: number;
           percentage_score?: number;
@@ -1350,6 +2140,10 @@ export interface Database {
           dispute_reason?: string;
           dispute_resolved_at?: string;
           dispute_resolution?: string;
+          disputed_by?: string;
+          disputed_criteria_ids?: string[];
+          dispute_resolved_by?: string;
+          dispute_outcome?: DisputeOutcome;
           template_version?: number;
           template_snapshot?: TemplateVersionSnapshot;
           created_at?: string;
@@ -1371,6 +2165,9 @@ export interface Database {
           google_event_start?: string;
           google_event_end?: string;
           google_calendar_link_id?: string;
+          google_meet_code?: string;
+          google_event_writeback_at?: string;
+          google_event_writeback_error?: string;
           total_score?: number;
           total_possible?: number;
           percentage_score?: number;
@@ -1386,6 +2183,10 @@ export interface Database {
           dispute_reason?: string;
           dispute_resolved_at?: string;
           dispute_resolution?: string;
+          disputed_by?: string;
+          disputed_criteria_ids?: string[];
+          dispute_resolved_by?: string;
+          dispute_outcome?: DisputeOutcome;
           template_version?: number;
           template_snapshot?: TemplateVersionSnapshot;
           created_at?: string;
@@ -1453,6 +2254,8 @@ export interface Database {
           id: string;
           org_id: string;
           template_id: string;
+          provider: ConnectorProvider;
+          microsoft_connection_id: string | null;
           calendar_id: string;
           calendar_name?: string;
           google_account_email: string;
@@ -1469,9 +2272,13 @@ export interface Database {
           webhook_channel_id?: string;
           webhook_resource_id?: string;
           webhook_expiration?: string;
+          webhook_channel_token?: string;
+          webhook_last_notification_at?: string;
+          webhook_error?: string;
           last_sync_at?: string;
           last_sync_error?: string;
           sync_cursor?: string;
+          last_full_sync_at?: string;
           agent_mapping: AgentMapping;
           created_by?: string;
           created_at: string;
@@ -1481,6 +2288,8 @@ export interface Database {
           id?: string;
           org_id: string;
           template_id: string;
+          provider?: ConnectorProvider;
+          microsoft_connection_id?: string | null;
           calendar_id: string;
           calendar_name?: string;
           google_account_email: string;
@@ -1497,9 +2306,13 @@ export interface Database {
           webhook_channel_id?: string;
           webhook_resource_id?: string;
           webhook_expiration?: string;
+          webhook_channel_token?: string;
+          webhook_last_notification_at?: string;
+          webhook_error?: string;
           last_sync_at?: string;
           last_sync_error?: string;
           sync_cursor?: string;
+          last_full_sync_at?: string;
           agent_mapping?: AgentMapping;
           created_by?: string;
           created_at?: string;
@@ -1509,6 +2322,8 @@ export interface Database {
           id?: string;
           org_id?: string;
           template_id?: string;
+          provider?: ConnectorProvider;
+          microsoft_connection_id?: string | null;
           calendar_id?: string;
           calendar_name?: string;
           google_account_email?: string;
@@ -1525,15 +2340,137 @@ export interface Database {
           webhook_channel_id?: string;
           webhook_resource_id?: string;
           webhook_expiration?: string;
+          webhook_channel_token?: string;
+          webhook_last_notification_at?: string;
+          webhook_error?: string;
           last_sync_at?: string;
           last_sync_error?: string;
           sync_cursor?: string;
+          last_full_sync_at?: string;
           agent_mapping?: AgentMapping;
           created_by?: string;
           created_at?: string;
           updated_at?: string;
         };
       };
+      calendar_sync_logs: {
+        Row: {
+          id: string;
+          org_id: string;
+          calendar_link_id: string;
+          sync_type: CalendarSyncType;
+          sync_mode?: CalendarSyncMode;
+          full_sync_reason?: string;
+          status: CalendarSyncStatus;
+          events_checked: number;
+          sessions_created: number;
+          sessions_updated: number;
+          sessions_cancelled: number;
+          sessions_skipped: number;
+          events_queued: number;
+          error_message?: string;
+          error_details?: Json;
+          started_at: string;
+          completed_at?: string;
+          duration_ms?: number;
+        };
+        Insert: {
+          id?: string;
+          org_id: string;
+          calendar_link_id: string;
+          sync_type: CalendarSyncType;
+          sync_mode?: CalendarSyncMode;
+          full_sync_reason?: string;
+          status?: CalendarSyncStatus;
+          events_checked?: number;
+          sessions_created?: number;
+          sessions_updated?: number;
+          sessions_cancelled?: number;
+          sessions_skipped?: number;
+          events_queued?: number;
+          error_message?: string;
+          error_details?: Json;
+          started_at?: string;
+          completed_at?: string;
+          duration_ms?: number;
+        };
+        Update: {
+          id?: string;
+          org_id?: string;
+          calendar_link_id?: string;
+          sync_type?: CalendarSyncType;
+          sync_mode?: CalendarSyncMode;
+          full_sync_reason?: string;
+          status?: CalendarSyncStatus;
+          events_checked?: number;
+          sessions_created?: number;
+          sessions_updated?: number;
+          sessions_cancelled?: number;
+          sessions_skipped?: number;
+          events_queued?: number;
+          error_message?: string;
+          error_details?: Json;
+          started_at?: string;
+          completed_at?: string;
+          duration_ms?: number;
+        };
+      };
+      calendar_event_reviews: {
+        Row: {
+          id: string;
+          org_id: string;
+          calendar_link_id: string;
+          google_event_id: string;
+          event_title?: string;
+          event_start?: string;
+          event_end?: string;
+          organizer_email?: string;
+          attendee_emails: string[];
+          reason: string;
+          status: CalendarEventReviewStatus;
+          session_id?: string;
+          resolved_by?: string;
+          resolved_at?: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          org_id: string;
+          calendar_link_id: string;
+          google_event_id: string;
+          event_title?: string;
+          event_start?: string;
+          event_end?: string;
+          organizer_email?: string;
+          attendee_emails?: string[];
+          reason: string;
+          status?: CalendarEventReviewStatus;
+          session_id?: string;
+          resolved_by?: string;
+          resolved_at?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          org_id?: string;
+          calendar_link_id?: string;
+          google_event_id?: string;
+          event_title?: string;
+          event_start?: string;
+          event_end?: string;
+          organizer_email?: string;
+          attendee_emails?: string[];
+          reason?: string;
+          status?: CalendarEventReviewStatus;
+          session_id?: string;
+          resolved_by?: string;
+          resolved_at?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
       session_audit_log: {
         Row: {
           id: string;
@@ -1665,8 +2602,19 @@ export type ScorecardConfigInsert = Database["public"]["Tables"]["scorecard_conf
 export type Report = Database["public"]["Tables"]["reports"]["Row"];
 export type ReportInsert = Database["public"]["Tables"]["reports"]["Insert"];
 export type WebhookLog = Database["public"]["Tables"]["webhook_logs"]["Row"];
+export type WebhookSubscription = Database["public"]["Tables"]["webhook_subscriptions"]["Row"];
+export type WebhookDelivery = Database["public"]["Tables"]["webhook_deliveries"]["Row"];
+export type NotificationPreferences = Database["public"]["Tables"]["notification_preferences"]["Row"];
+export type NotificationLog = Database["public"]["Tables"]["notification_log"]["Row"];
+export type ReportExport = Database["public"]["Tables"]["report_exports"]["Row"];
+export type ReportSchedule = Database["public"]["Tables"]["report_schedules"]["Row"];
+export type BillingInvoice = Database["public"]["Tables"]["billing_invoices"]["Row"];
+export type ReportScheduleRun = Database["public"]["Tables"]["report_schedule_runs"]["Row"];
+export type CalendarEventReview = Database["public"]["Tables"]["calendar_event_reviews"]["Row"];
+export type CalendarSyncLog = Database["public"]["Tables"]["calendar_sync_logs"]["Row"];
 export type Invitation = Database["public"]["Tables"]["invitations"]["Row"];
 export type AuditLog = Database["public"]["Tables"]["audit_logs"]["Row"];
+export type ApiKey = Omit<Database["public"]["Tables"]["api_keys"]["Row"], "key_hash">;
 export type ProcessingQueueItem = Database["public"]["Tables"]["processing_queue"]["Row"];
 
 // New types for Scripts, Scorecards, Insights
@@ -1682,6 +2630,12 @@ export type InsightTemplate = Database["public"]["Tables"]["insight_templates"][
 export type InsightTemplateInsert = Database["public"]["Tables"]["insight_templates"]["Insert"];
 export type InsightTemplateUpdate = Database["public"]["Tables"]["insight_templates"]["Update"];
 
+export type CallInsight = Database["public"]["Tables"]["call_insights"]["Row"];
+export type CallInsightInsert = Database["public"]["Tables"]["call_insights"]["Insert"];
+
+export type CallScriptAdherence = Database["public"]["Tables"]["call_script_adherence"]["Row"];
+export type CallScriptAdherenceInsert = Database["public"]["Tables"]["call_script_adherence"]["Insert"];
+
 export type CallScoreResult = Database["public"]["Tables"]["call_score_results"]["Row"];
 export type CallScoreResultInsert = Database["public"]["Tables"]["call_score_results"]["Insert"];
 export type CallScoreResultUpdate = Database["public"]["Tables"]["call_score_results"]["Update"];
@@ -1752,4 +2706,6 @@ export interface SessionScoreResult {
   pass_status: PassStatus;
   has_auto_fail: boolean;
   auto_fail_criteria_ids: string[];
+  // custom_formula only: why the formula couldn't be used
+  formula_error?: string;
 }
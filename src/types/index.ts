@@ -1,12 +1,14 @@
 // Re-export database types
 export * from "./database";
 
+import type { CallScriptAdherence } from "./database";
+
 // Legacy types for compatibility with existing components
 export interface Call {
   id: string;
   title?: string;
   raw_notes?: string;
-  status: "pending" | "processing" | "analyzed" | "failed";
+  status: "pending" | "transcribing" | "processing" | "analyzed" | "failed";
   source: "manual" | "webhook" | "upload";
   duration?: number;
   call_timestamp: string;
@@ -26,6 +28,8 @@ export interface Call {
     team?: string;
   };
   analyses?: Analysis[];
+  // One-to-one embed; PostgREST may return it as a single-item array
+  script_adherence?: CallScriptAdherence | CallScriptAdherence[] | null;
 }
 
 export interface Analysis {
@@ -0,0 +1,130 @@
+-- ============================================================================
+-- Migration 010: Processing Queue Worker
+-- ============================================================================
+-- Adds:
+-- - Lock ownership columns on processing_queue
+-- - Row-level claiming with per-org concurrency caps
+-- - Reaper for items stuck in 'processing'
+-- ============================================================================
+
+-- ============================================================================
+-- 1. LOCK OWNERSHIP
+-- ============================================================================
+
+-- Identifier of the runner that claimed the item (for debugging stuck rows)
+ALTER TABLE processing_queue ADD COLUMN IF NOT EXISTS locked_by TEXT;
+
+-- Index for the reaper (items currently being processed)
+CREATE INDEX IF NOT EXISTS idx_processing_queue_processing
+    ON processing_queue(started_at) WHERE status = 'processing';
+
+-- Index for per-org in-flight counts
+CREATE INDEX IF NOT EXISTS idx_processing_queue_org_status
+    ON processing_queue(org_id, status);
+
+-- Index for ranking due items per org when claiming
+CREATE INDEX IF NOT EXISTS idx_processing_queue_due_by_org
+    ON processing_queue(org_id, priority DESC, scheduled_at) WHERE status = 'queued';
+
+-- ============================================================================
+-- 2. CLAIM FUNCTION
+-- ============================================================================
+-- Atomically moves up to p_max_items due rows from 'queued' to 'processing'.
+-- Rows locked by another transaction are skipped, and no org ever has more
+-- than p_max_per_org rows in 'processing' at once. Due rows are ranked per
+-- org before the overall limit is applied, so one org's backlog can't fill
+-- the batch and starve the others.
+
+CREATE OR REPLACE FUNCTION claim_processing_queue_items(
+    p_worker_id TEXT,
+    p_max_items INTEGER DEFAULT 10,
+    p_max_per_org INTEGER DEFAULT 2
+)
+RETURNS SETOF processing_queue AS $$
+BEGIN
+    -- Serialize claimers so per-org in-flight counts can't race
+    PERFORM pg_advisory_xact_lock(hashtext('claim_processing_queue_items'));
+
+    RETURN QUERY
+    WITH in_flight AS (
+        SELECT p.org_id, COUNT(*) AS active
+        FROM processing_queue p
+        WHERE p.status = 'processing'
+        GROUP BY p.org_id
+    ),
+    ranked AS (
+        SELECT
+            q.id,
+            q.priority,
+            q.scheduled_at,
+            ROW_NUMBER() OVER (
+                PARTITION BY q.org_id
+                ORDER BY q.priority DESC, q.scheduled_at ASC
+            ) + COALESCE(f.active, 0) AS org_slot
+        FROM processing_queue q
+        LEFT JOIN in_flight f ON f.org_id = q.org_id
+        WHERE q.status = 'queued'
+        AND q.scheduled_at <= NOW()
+    ),
+    eligible AS (
+        SELECT r.id
+        FROM ranked r
+        WHERE r.org_slot <= p_max_per_org
+        ORDER BY r.priority DESC, r.scheduled_at ASC
+        LIMIT p_max_items
+    ),
+    chosen AS (
+        -- Window functions can't be combined with FOR UPDATE, so lock here
+        SELECT q.id
+        FROM processing_queue q
+        JOIN eligible e ON e.id = q.id
+        WHERE q.status = 'queued'
+        FOR UPDATE OF q SKIP LOCKED
+    )
+    UPDATE processing_queue q
+    SET
+        status = 'processing',
+        started_at = NOW(),
+        locked_by = p_worker_id
+    FROM chosen
+    WHERE q.id = chosen.id
+    RETURNING q.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 3. STUCK ITEM REAPER
+-- ============================================================================
+-- Items left in 'processing' longer than p_stale_after_seconds (e.g. the
+-- runner hit its timeout) count as a failed attempt. They are re-queued,
+-- or marked failed once max_attempts is reached.
+
+CREATE OR REPLACE FUNCTION reap_stuck_processing_queue_items(
+    p_stale_after_seconds INTEGER DEFAULT 900
+)
+RETURNS TABLE (id UUID, call_id UUID, status queue_status) AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE processing_queue q
+    SET
+        attempts = q.attempts + 1,
+        status = CASE
+            WHEN q.attempts + 1 >= q.max_attempts THEN 'failed'::queue_status
+            ELSE 'queued'::queue_status
+        END,
+        last_error = 'Processing timed out (claimed by ' || COALESCE(q.locked_by, 'unknown') || ')',
+        scheduled_at = NOW(),
+        locked_by = NULL
+    WHERE q.status = 'processing'
+    AND q.started_at < NOW() - (p_stale_after_seconds || ' seconds')::INTERVAL
+    RETURNING q.id, q.call_id, q.status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the service role runs the worker
+REVOKE EXECUTE ON FUNCTION claim_processing_queue_items(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reap_stuck_processing_queue_items(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
@@ -0,0 +1,37 @@
+-- ============================================================================
+-- Migration 011: Analysis Output Validation
+-- ============================================================================
+-- Adds:
+-- - Status on analyses so runs whose output never validated are kept
+-- - Per-run record of schema validation failures and repair attempts
+-- ============================================================================
+
+-- ============================================================================
+-- 1. ANALYSIS STATUS
+-- ============================================================================
+
+-- 'failed' rows hold the validation history of runs that never produced
+-- usable output; readers of scores only look at 'completed' rows
+ALTER TABLE analyses ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'completed'
+    CHECK (status IN ('completed', 'failed'));
+
+-- ============================================================================
+-- 2. VALIDATION HISTORY
+-- ============================================================================
+
+-- Number of model responses needed (1 = valid on first try)
+ALTER TABLE analyses ADD COLUMN IF NOT EXISTS validation_attempts INTEGER NOT NULL DEFAULT 1;
+
+-- One entry per rejected response: { attempt, model, issues[], at }
+ALTER TABLE analyses ADD COLUMN IF NOT EXISTS validation_errors JSONB NOT NULL DEFAULT '[]';
+
+-- Drift reporting: model vs. failed/repaired runs
+CREATE INDEX IF NOT EXISTS idx_analyses_model_created
+    ON analyses(ai_model, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_analyses_failed
+    ON analyses(created_at DESC) WHERE status = 'failed';
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
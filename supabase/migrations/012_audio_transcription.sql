@@ -0,0 +1,58 @@
+-- ============================================================================
+-- Migration 012: Audio Transcription Jobs
+-- ============================================================================
+-- Adds:
+-- - 'transcribing' call status (pending -> transcribing -> processing -> analyzed)
+-- - Job type on processing_queue so uploads are transcribed before analysis
+-- - auto_queue_call skips uploads awaiting transcription
+-- ============================================================================
+
+-- ============================================================================
+-- 1. CALL STATUS
+-- ============================================================================
+
+ALTER TYPE call_status ADD VALUE IF NOT EXISTS 'transcribing' BEFORE 'processing';
+
+-- ============================================================================
+-- 2. QUEUE JOB TYPE
+-- ============================================================================
+
+-- 'transcription' jobs turn an uploaded recording into calls.transcription
+-- and then enqueue an 'analysis' job for the same call
+ALTER TABLE processing_queue ADD COLUMN IF NOT EXISTS job_type VARCHAR(20) NOT NULL DEFAULT 'analysis'
+    CHECK (job_type IN ('transcription', 'analysis'));
+
+CREATE INDEX IF NOT EXISTS idx_processing_queue_call_job
+    ON processing_queue(call_id, job_type);
+
+-- ============================================================================
+-- 3. AUTO-QUEUE
+-- ============================================================================
+-- Uploaded recordings get a transcription job from /api/calls/upload; don't
+-- also queue an analysis of the placeholder notes.
+
+CREATE OR REPLACE FUNCTION auto_queue_call()
+RETURNS TRIGGER AS $$
+DECLARE
+    org_settings JSONB;
+BEGIN
+    IF (NEW.metadata->>'requires_transcription')::boolean IS TRUE THEN
+        RETURN NEW;
+    END IF;
+
+    -- Get org settings
+    SELECT settings_json INTO org_settings FROM organizations WHERE id = NEW.org_id;
+
+    -- If auto_analyze is enabled, queue the call
+    IF (org_settings->'features'->>'autoAnalyze')::boolean = TRUE THEN
+        INSERT INTO processing_queue (org_id, call_id, status, priority)
+        VALUES (NEW.org_id, NEW.id, 'queued', 0);
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
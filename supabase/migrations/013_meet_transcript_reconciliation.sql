@@ -0,0 +1,46 @@
+-- ============================================================================
+-- Migration 013: Meet Transcript Reconciliation
+-- ============================================================================
+-- Adds:
+-- - Meet code on calendar-created sessions (already written by calendar sync)
+-- - Links from synced Meet transcripts to the call and session created for them
+-- ============================================================================
+
+-- ============================================================================
+-- 1. SESSION MEET CODE
+-- ============================================================================
+
+-- Normalized "abc-mnop-xyz" code from the event's hangoutLink/conferenceData
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS google_meet_code TEXT;
+
+-- Reconciliation looks up open sessions by Meet code
+CREATE INDEX IF NOT EXISTS idx_sessions_google_meet_code
+    ON sessions(google_meet_code)
+    WHERE google_meet_code IS NOT NULL;
+
+-- ============================================================================
+-- 2. TRANSCRIPT LINKS
+-- ============================================================================
+
+-- Call created from this transcript (source 'google_notes')
+ALTER TABLE meet_transcripts ADD COLUMN IF NOT EXISTS call_id UUID
+    REFERENCES calls(id) ON DELETE SET NULL;
+
+-- Calendar session the transcript was matched to
+ALTER TABLE meet_transcripts ADD COLUMN IF NOT EXISTS session_id UUID
+    REFERENCES sessions(id) ON DELETE SET NULL;
+
+-- Set once a call has been created or linked
+ALTER TABLE meet_transcripts ADD COLUMN IF NOT EXISTS reconciled_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_meet_transcripts_call_id
+    ON meet_transcripts(call_id);
+
+-- Cron sweep for transcripts synced before their session existed
+CREATE INDEX IF NOT EXISTS idx_meet_transcripts_unreconciled
+    ON meet_transcripts(meeting_code, created_at DESC)
+    WHERE reconciled_at IS NULL;
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
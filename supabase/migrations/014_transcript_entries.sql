@@ -0,0 +1,19 @@
+-- ============================================================================
+-- Migration 014: Timestamped Transcript Entries
+-- ============================================================================
+-- Adds:
+-- - Timestamped Meet transcript entries, kept alongside the plain text so
+--   call metrics (talk ratio, interruptions, gaps...) can be computed exactly
+-- ============================================================================
+
+-- ============================================================================
+-- 1. TRANSCRIPT ENTRIES
+-- ============================================================================
+
+-- [{ participant, text, startTime, endTime }] from the Meet API, in order.
+-- Empty when only the Google Docs export could be fetched.
+ALTER TABLE meet_transcripts ADD COLUMN IF NOT EXISTS entries JSONB NOT NULL DEFAULT '[]'::JSONB;
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
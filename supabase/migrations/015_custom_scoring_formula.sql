@@ -0,0 +1,24 @@
+-- ============================================================================
+-- Migration 015: Custom Scoring Formulas
+-- ============================================================================
+-- Adds:
+-- - Formula text for templates using the 'custom_formula' scoring method
+-- ============================================================================
+
+-- ============================================================================
+-- 1. TEMPLATE FORMULA
+-- ============================================================================
+
+-- Expression over criteria/group keys, e.g. "min(weighted, compliance)".
+-- Copied into template_versions.snapshot and sessions.template_snapshot with
+-- the rest of the template so past sessions keep the formula they were
+-- scored with.
+ALTER TABLE templates ADD COLUMN IF NOT EXISTS scoring_formula TEXT;
+
+ALTER TABLE templates DROP CONSTRAINT IF EXISTS templates_scoring_formula_length;
+ALTER TABLE templates ADD CONSTRAINT templates_scoring_formula_length
+    CHECK (scoring_formula IS NULL OR char_length(scoring_formula) <= 2000);
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
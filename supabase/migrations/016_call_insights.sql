@@ -0,0 +1,78 @@
+-- ============================================================================
+-- Migration 016: Call Insights
+-- ============================================================================
+-- Adds:
+-- - Stored output of each active insight template for each analyzed call
+-- ============================================================================
+
+-- ============================================================================
+-- 1. CALL INSIGHTS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS call_insights (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    call_id UUID NOT NULL REFERENCES calls(id) ON DELETE CASCADE,
+    analysis_id UUID REFERENCES analyses(id) ON DELETE SET NULL,
+    insight_template_id UUID REFERENCES insight_templates(id) ON DELETE SET NULL,
+
+    -- Copied from the template so output survives template edits/deletion
+    template_name VARCHAR(255) NOT NULL,
+    category VARCHAR(50) NOT NULL DEFAULT 'general'
+        CHECK (category IN ('general', 'coaching', 'performance', 'compliance', 'custom')),
+    output_format VARCHAR(20) NOT NULL DEFAULT 'text'
+        CHECK (output_format IN ('text', 'bullets', 'numbered', 'json')),
+
+    -- Rendered prompt and model output
+    prompt TEXT NOT NULL,
+    content TEXT,
+    -- Parsed items for bullets/numbered (strings) and json (objects)
+    items JSONB NOT NULL DEFAULT '[]'::jsonb,
+
+    status VARCHAR(20) NOT NULL DEFAULT 'completed'
+        CHECK (status IN ('completed', 'failed')),
+    error TEXT,
+    ai_model VARCHAR(100),
+    token_usage JSONB,
+
+    generated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- One result per template per call; regenerating replaces it
+CREATE UNIQUE INDEX IF NOT EXISTS idx_call_insights_call_template
+    ON call_insights(call_id, insight_template_id);
+CREATE INDEX IF NOT EXISTS idx_call_insights_org_category
+    ON call_insights(org_id, category, generated_at DESC);
+
+-- ============================================================================
+-- 2. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE call_insights ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "call_insights_select_own_org" ON call_insights
+    FOR SELECT USING (
+        org_id = user_org_id() OR is_superadmin()
+    );
+
+CREATE POLICY "call_insights_delete_admin" ON call_insights
+    FOR DELETE USING (
+        org_id = user_org_id() AND user_role() IN ('admin', 'superadmin')
+    );
+
+-- Inserts and updates come from the insight runner (service role)
+CREATE POLICY "Service role full access to call_insights"
+    ON call_insights FOR ALL
+    USING (auth.jwt() ->> 'role' = 'service_role');
+
+DROP TRIGGER IF EXISTS update_call_insights_updated_at ON call_insights;
+CREATE TRIGGER update_call_insights_updated_at
+    BEFORE UPDATE ON call_insights
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
@@ -0,0 +1,66 @@
+-- ============================================================================
+-- Migration 017: Call Script Adherence
+-- ============================================================================
+-- Adds:
+-- - Per-call adherence to the org's default script, computed during analysis
+-- ============================================================================
+
+-- ============================================================================
+-- 1. CALL SCRIPT ADHERENCE TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS call_script_adherence (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    call_id UUID NOT NULL REFERENCES calls(id) ON DELETE CASCADE,
+    script_id UUID REFERENCES scripts(id) ON DELETE SET NULL,
+
+    -- Copied from the script so results survive script edits/deletion
+    script_name VARCHAR(255) NOT NULL,
+    script_version INTEGER NOT NULL DEFAULT 1,
+
+    -- 0-100 scores
+    overall_score INTEGER NOT NULL CHECK (overall_score BETWEEN 0 AND 100),
+    coverage_score INTEGER NOT NULL CHECK (coverage_score BETWEEN 0 AND 100),
+    order_score INTEGER NOT NULL CHECK (order_score BETWEEN 0 AND 100),
+    sections_covered INTEGER NOT NULL DEFAULT 0,
+    sections_total INTEGER NOT NULL DEFAULT 0,
+
+    -- Per-section scores with matched transcript excerpts
+    sections JSONB NOT NULL DEFAULT '[]'::jsonb,
+
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- One result per call; re-analysis replaces it
+CREATE UNIQUE INDEX IF NOT EXISTS idx_call_script_adherence_call
+    ON call_script_adherence(call_id);
+CREATE INDEX IF NOT EXISTS idx_call_script_adherence_org_script
+    ON call_script_adherence(org_id, script_id);
+
+-- ============================================================================
+-- 2. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE call_script_adherence ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "call_script_adherence_select_own_org" ON call_script_adherence
+    FOR SELECT USING (
+        org_id = user_org_id() OR is_superadmin()
+    );
+
+-- Written by the analysis pipeline (service role)
+CREATE POLICY "Service role full access to call_script_adherence"
+    ON call_script_adherence FOR ALL
+    USING (auth.jwt() ->> 'role' = 'service_role');
+
+DROP TRIGGER IF EXISTS update_call_script_adherence_updated_at ON call_script_adherence;
+CREATE TRIGGER update_call_script_adherence_updated_at
+    BEFORE UPDATE ON call_script_adherence
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
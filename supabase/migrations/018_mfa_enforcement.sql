@@ -0,0 +1,103 @@
+-- ============================================================================
+-- Migration 018: MFA Enforcement
+-- ============================================================================
+-- Adds:
+-- - user_mfa table holding TOTP secrets and hashed recovery codes
+-- - mfa_status() for the middleware's second-factor check
+--
+-- The TOTP columns added to users in migration 008 are moved out: users can
+-- read and update their own users row, so a password alone was enough to
+-- read the secret or switch 2FA off.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. USER MFA TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS user_mfa (
+    user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    totp_secret TEXT,
+    enabled BOOLEAN NOT NULL DEFAULT FALSE,
+    verified_at TIMESTAMPTZ,
+    -- SHA-256 hex digests; a code is removed once redeemed
+    recovery_codes JSONB NOT NULL DEFAULT '[]'::jsonb,
+    last_challenge_at TIMESTAMPTZ,
+    -- TOTP time step of the last accepted code; a code is never accepted twice
+    last_totp_step BIGINT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_mfa_enabled ON user_mfa(user_id) WHERE enabled = TRUE;
+
+-- ============================================================================
+-- 2. MIGRATE EXISTING ENROLLMENTS
+-- ============================================================================
+
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'users' AND column_name = 'totp_secret'
+    ) THEN
+        INSERT INTO user_mfa (user_id, totp_secret, enabled, verified_at, recovery_codes)
+        SELECT
+            u.id,
+            u.totp_secret,
+            COALESCE(u.totp_enabled, FALSE),
+            u.totp_verified_at,
+            COALESCE(
+                (SELECT jsonb_agg(encode(sha256(convert_to(upper(code), 'UTF8')), 'hex'))
+                 FROM jsonb_array_elements_text(u.recovery_codes) AS code),
+                '[]'::jsonb
+            )
+        FROM users u
+        WHERE u.totp_secret IS NOT NULL
+        ON CONFLICT (user_id) DO NOTHING;
+    END IF;
+END $$;
+
+DROP INDEX IF EXISTS idx_users_totp_enabled;
+ALTER TABLE users DROP COLUMN IF EXISTS totp_secret;
+ALTER TABLE users DROP COLUMN IF EXISTS totp_enabled;
+ALTER TABLE users DROP COLUMN IF EXISTS totp_verified_at;
+ALTER TABLE users DROP COLUMN IF EXISTS recovery_codes;
+
+-- ============================================================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE user_mfa ENABLE ROW LEVEL SECURITY;
+
+-- Only the 2FA API routes (service role) touch this table
+CREATE POLICY "Service role full access to user_mfa"
+    ON user_mfa FOR ALL
+    USING (auth.jwt() ->> 'role' = 'service_role');
+
+DROP TRIGGER IF EXISTS update_user_mfa_updated_at ON user_mfa;
+CREATE TRIGGER update_user_mfa_updated_at
+    BEFORE UPDATE ON user_mfa
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 4. MFA STATUS FUNCTION
+-- ============================================================================
+-- Whether the current user has 2FA enabled and whether their org requires it
+-- (settings_json.security.require2fa), without exposing user_mfa itself.
+
+CREATE OR REPLACE FUNCTION public.mfa_status()
+RETURNS JSONB AS $$
+    SELECT jsonb_build_object(
+        'enrolled', COALESCE((SELECT m.enabled FROM user_mfa m WHERE m.user_id = u.id), FALSE),
+        'required', COALESCE((o.settings_json -> 'security' ->> 'require2fa')::boolean, FALSE)
+    )
+    FROM users u
+    -- Users not yet in an org still get their enrollment reported
+    LEFT JOIN organizations o ON o.id = u.org_id
+    WHERE u.id = auth.uid()
+$$ LANGUAGE SQL STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
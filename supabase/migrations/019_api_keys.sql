@@ -0,0 +1,44 @@
+-- ============================================================================
+-- Migration 019: Org API Keys
+-- ============================================================================
+-- Prepares the api_keys table from migration 001 for bearer-key access:
+-- - Scopes become resource:action strings (calls:write, analytics:read, ...)
+-- - Per-key rate limit and revocation bookkeeping
+-- - Unique hash lookup for authentication
+-- - Service role access for the request-time key check
+-- ============================================================================
+
+-- ============================================================================
+-- 1. COLUMNS
+-- ============================================================================
+
+-- NULL means the default API key limit
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS rate_limit_per_minute INTEGER
+    CHECK (rate_limit_per_minute IS NULL OR rate_limit_per_minute > 0);
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMPTZ;
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS revoked_by UUID REFERENCES users(id) ON DELETE SET NULL;
+
+-- New keys get exactly the scopes they are issued with. Keys that still carry
+-- the old ["read", "write"] default keep working as read/write on every resource.
+ALTER TABLE api_keys ALTER COLUMN scopes SET DEFAULT '[]'::jsonb;
+
+-- ============================================================================
+-- 2. INDEXES
+-- ============================================================================
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_api_keys_key_hash ON api_keys(key_hash);
+CREATE INDEX IF NOT EXISTS idx_api_keys_org_id ON api_keys(org_id, created_at DESC);
+
+-- ============================================================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================================================
+
+-- Bearer keys are checked before any user session exists
+DROP POLICY IF EXISTS "Service role full access to api_keys" ON api_keys;
+CREATE POLICY "Service role full access to api_keys"
+    ON api_keys FOR ALL
+    USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
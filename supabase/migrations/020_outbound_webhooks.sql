@@ -0,0 +1,170 @@
+-- ============================================================================
+-- Migration 020: Outbound Webhooks
+-- ============================================================================
+-- Adds:
+-- - webhook_subscriptions: org endpoints and the events they receive
+-- - webhook_deliveries: one row per event per endpoint, with attempts,
+--   backoff schedule and the last response (the outbound counterpart of
+--   webhook_logs)
+-- - Claim / reap functions for the delivery worker
+-- ============================================================================
+
+-- ============================================================================
+-- 1. SUBSCRIPTIONS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    url TEXT NOT NULL,
+    -- Signs deliveries with HMAC-SHA256, same scheme as inbound webhooks
+    secret TEXT NOT NULL,
+    -- Event types, e.g. ["call.analyzed", "session.completed"]
+    events JSONB NOT NULL DEFAULT '[]'::jsonb,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    last_delivery_at TIMESTAMPTZ,
+    last_delivery_status VARCHAR(20),
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_subscriptions_org
+    ON webhook_subscriptions(org_id) WHERE is_active = TRUE;
+
+-- ============================================================================
+-- 2. DELIVERIES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    subscription_id UUID NOT NULL REFERENCES webhook_subscriptions(id) ON DELETE CASCADE,
+    -- Shared by every delivery of the same event so receivers can dedupe
+    event_id UUID NOT NULL,
+    event_type VARCHAR(100) NOT NULL,
+    payload JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'delivering', 'succeeded', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 6,
+    next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    last_attempt_at TIMESTAMPTZ,
+    response_status INTEGER,
+    response_body TEXT,
+    error_message TEXT,
+    duration_ms INTEGER,
+    -- Set when an admin replays an earlier delivery
+    replay_of UUID REFERENCES webhook_deliveries(id) ON DELETE SET NULL,
+    locked_by TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due
+    ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_delivering
+    ON webhook_deliveries(last_attempt_at) WHERE status = 'delivering';
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_org_created
+    ON webhook_deliveries(org_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_subscription
+    ON webhook_deliveries(subscription_id, created_at DESC);
+
+-- ============================================================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE webhook_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage webhook subscriptions"
+    ON webhook_subscriptions FOR ALL
+    USING (org_id = public.user_org_id() AND public.user_role() IN ('admin', 'superadmin'));
+
+CREATE POLICY "Admins can view webhook deliveries"
+    ON webhook_deliveries FOR SELECT
+    USING (org_id = public.user_org_id() AND public.user_role() IN ('admin', 'superadmin'));
+
+-- Deliveries are created and updated by the server (service role)
+CREATE POLICY "Service role full access to webhook_subscriptions"
+    ON webhook_subscriptions FOR ALL
+    USING (auth.jwt() ->> 'role' = 'service_role');
+
+CREATE POLICY "Service role full access to webhook_deliveries"
+    ON webhook_deliveries FOR ALL
+    USING (auth.jwt() ->> 'role' = 'service_role');
+
+DROP TRIGGER IF EXISTS update_webhook_subscriptions_updated_at ON webhook_subscriptions;
+CREATE TRIGGER update_webhook_subscriptions_updated_at
+    BEFORE UPDATE ON webhook_subscriptions
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_webhook_deliveries_updated_at ON webhook_deliveries;
+CREATE TRIGGER update_webhook_deliveries_updated_at
+    BEFORE UPDATE ON webhook_deliveries
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 4. WORKER FUNCTIONS
+-- ============================================================================
+-- Same shape as the processing queue worker (migration 010): due rows move
+-- from 'pending' to 'delivering' in one statement, skipping rows another
+-- worker holds.
+
+CREATE OR REPLACE FUNCTION claim_webhook_deliveries(
+    p_worker_id TEXT,
+    p_max_items INTEGER DEFAULT 25
+)
+RETURNS SETOF webhook_deliveries AS $$
+BEGIN
+    RETURN QUERY
+    WITH chosen AS (
+        SELECT d.id
+        FROM webhook_deliveries d
+        WHERE d.status = 'pending'
+        AND d.next_attempt_at <= NOW()
+        ORDER BY d.next_attempt_at ASC
+        LIMIT p_max_items
+        FOR UPDATE SKIP LOCKED
+    )
+    UPDATE webhook_deliveries d
+    SET
+        status = 'delivering',
+        last_attempt_at = NOW(),
+        locked_by = p_worker_id
+    FROM chosen
+    WHERE d.id = chosen.id
+    RETURNING d.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Deliveries left in 'delivering' (worker timed out) go back to 'pending'
+CREATE OR REPLACE FUNCTION reap_stuck_webhook_deliveries(
+    p_stale_after_seconds INTEGER DEFAULT 300
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    UPDATE webhook_deliveries d
+    SET
+        status = 'pending',
+        next_attempt_at = NOW(),
+        locked_by = NULL
+    WHERE d.status = 'delivering'
+    AND d.last_attempt_at < NOW() - (p_stale_after_seconds || ' seconds')::INTERVAL;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION claim_webhook_deliveries(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reap_stuck_webhook_deliveries(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
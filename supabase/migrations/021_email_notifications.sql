@@ -0,0 +1,98 @@
+-- ============================================================================
+-- Migration 021: Email Notifications
+-- ============================================================================
+-- Backs the OrgSettings.notifications flags with an actual sender:
+-- - notification_preferences: per-user opt-outs from each email type
+-- - notification_log: every email sent (or failed), also used to make sure
+--   the same alert or digest isn't sent twice
+-- ============================================================================
+
+-- ============================================================================
+-- 1. PREFERENCES
+-- ============================================================================
+
+-- No row means the user receives everything their org has turned on
+CREATE TABLE IF NOT EXISTS notification_preferences (
+    user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    email_new_call BOOLEAN NOT NULL DEFAULT TRUE,
+    email_low_score BOOLEAN NOT NULL DEFAULT TRUE,
+    email_daily_digest BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_preferences_org
+    ON notification_preferences(org_id);
+
+-- ============================================================================
+-- 2. LOG
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS notification_log (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    type VARCHAR(50) NOT NULL
+        CHECK (type IN ('new_call', 'low_score', 'daily_digest')),
+    recipient VARCHAR(255) NOT NULL,
+    subject TEXT NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'sending'
+        CHECK (status IN ('sending', 'sent', 'failed')),
+    -- What the email is about, e.g. the call id or the digest date
+    dedupe_key VARCHAR(255) NOT NULL,
+    entity_type VARCHAR(50),
+    entity_id UUID,
+    transport VARCHAR(20),
+    message_id TEXT,
+    error_message TEXT,
+    sent_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- One email per recipient per subject matter
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notification_log_dedupe
+    ON notification_log(type, recipient, dedupe_key);
+CREATE INDEX IF NOT EXISTS idx_notification_log_org_created
+    ON notification_log(org_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notification_log_user_created
+    ON notification_log(user_id, created_at DESC);
+
+-- ============================================================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own notification preferences"
+    ON notification_preferences FOR ALL
+    USING (user_id = auth.uid())
+    WITH CHECK (user_id = auth.uid() AND org_id = public.user_org_id());
+
+CREATE POLICY "Users can view own notifications"
+    ON notification_log FOR SELECT
+    USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can view org notifications"
+    ON notification_log FOR SELECT
+    USING (org_id = public.user_org_id() AND public.user_role() IN ('admin', 'superadmin'));
+
+-- Emails are sent by the server (service role)
+CREATE POLICY "Service role full access to notification_preferences"
+    ON notification_preferences FOR ALL
+    USING (auth.jwt() ->> 'role' = 'service_role');
+
+CREATE POLICY "Service role full access to notification_log"
+    ON notification_log FOR ALL
+    USING (auth.jwt() ->> 'role' = 'service_role');
+
+DROP TRIGGER IF EXISTS update_notification_preferences_updated_at ON notification_preferences;
+CREATE TRIGGER update_notification_preferences_updated_at
+    BEFORE UPDATE ON notification_preferences
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
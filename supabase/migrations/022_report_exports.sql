@@ -0,0 +1,69 @@
+-- ============================================================================
+-- Migration 022: Report Exports
+-- ============================================================================
+-- Adds:
+-- - report_exports: every generated report (team performance, caller,
+--   template) with its parameters, format and where the file is stored
+-- - The private "reports" storage bucket the files live in. Only the
+--   server touches it; users download through short-lived signed URLs.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. REPORT EXPORTS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS report_exports (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    report_type VARCHAR(50) NOT NULL
+        CHECK (report_type IN ('team_performance', 'caller', 'template')),
+    format VARCHAR(10) NOT NULL
+        CHECK (format IN ('pdf', 'csv', 'xlsx')),
+    -- { "dateFrom": "2026-01-01", "dateTo": "2026-01-31", "agentId": ..., "templateId": ... }
+    parameters JSONB NOT NULL DEFAULT '{}'::jsonb,
+    status VARCHAR(20) NOT NULL DEFAULT 'generating'
+        CHECK (status IN ('generating', 'ready', 'failed')),
+    storage_path TEXT,
+    file_size INTEGER,
+    error_message TEXT,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_exports_org_created
+    ON report_exports(org_id, created_at DESC);
+
+-- ============================================================================
+-- 2. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE report_exports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage report exports"
+    ON report_exports FOR ALL
+    USING (org_id = public.user_org_id() AND public.user_role() IN ('admin', 'superadmin'));
+
+CREATE POLICY "Service role full access to report_exports"
+    ON report_exports FOR ALL
+    USING (auth.jwt() ->> 'role' = 'service_role');
+
+DROP TRIGGER IF EXISTS update_report_exports_updated_at ON report_exports;
+CREATE TRIGGER update_report_exports_updated_at
+    BEFORE UPDATE ON report_exports
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 3. STORAGE
+-- ============================================================================
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('reports', 'reports', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
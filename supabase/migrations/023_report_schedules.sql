@@ -0,0 +1,127 @@
+-- ============================================================================
+-- Migration 023: Report Schedules
+-- ============================================================================
+-- Adds:
+-- - report_schedules: a report definition (type, caller or template filter,
+--   relative date window) plus a cron cadence evaluated in the org's
+--   timezone, and where to deliver it (emailed to chosen members, or POSTed
+--   to one outbound webhook subscription)
+-- - report_schedule_runs: one row per run with the generated report and
+--   the delivery outcome. Unique per schedule and scheduled time, so
+--   overlapping cron invocations can't run a schedule twice.
+-- - 'scheduled_report' as a notification_log type for the delivery emails
+-- ============================================================================
+
+-- ============================================================================
+-- 1. SCHEDULES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS report_schedules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    report_type VARCHAR(50) NOT NULL
+        CHECK (report_type IN ('team_performance', 'caller', 'template')),
+    format VARCHAR(10) NOT NULL
+        CHECK (format IN ('pdf', 'csv', 'xlsx')),
+    agent_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    template_id UUID REFERENCES templates(id) ON DELETE SET NULL,
+    date_window VARCHAR(30) NOT NULL
+        CHECK (date_window IN (
+            'yesterday', 'last_7_days', 'last_30_days',
+            'previous_week', 'previous_month', 'month_to_date'
+        )),
+    -- Five-field cron, e.g. '0 8 * * 1' for Mondays at 08:00 org time
+    cron_expression VARCHAR(100) NOT NULL,
+    delivery_channel VARCHAR(20) NOT NULL
+        CHECK (delivery_channel IN ('email', 'webhook')),
+    recipient_ids UUID[] NOT NULL DEFAULT '{}',
+    webhook_subscription_id UUID REFERENCES webhook_subscriptions(id) ON DELETE SET NULL,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    next_run_at TIMESTAMPTZ,
+    last_run_at TIMESTAMPTZ,
+    last_run_status VARCHAR(20)
+        CHECK (last_run_status IN ('running', 'succeeded', 'failed')),
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_schedules_org
+    ON report_schedules(org_id);
+CREATE INDEX IF NOT EXISTS idx_report_schedules_due
+    ON report_schedules(next_run_at)
+    WHERE is_active = TRUE;
+
+-- ============================================================================
+-- 2. RUNS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS report_schedule_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    schedule_id UUID NOT NULL REFERENCES report_schedules(id) ON DELETE CASCADE,
+    org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    scheduled_for TIMESTAMPTZ NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'running'
+        CHECK (status IN ('running', 'succeeded', 'failed')),
+    trigger VARCHAR(20) NOT NULL DEFAULT 'schedule'
+        CHECK (trigger IN ('schedule', 'manual')),
+    date_from DATE,
+    date_to DATE,
+    report_id UUID REFERENCES report_exports(id) ON DELETE SET NULL,
+    delivery_channel VARCHAR(20) NOT NULL
+        CHECK (delivery_channel IN ('email', 'webhook')),
+    recipients_count INTEGER NOT NULL DEFAULT 0,
+    webhook_delivery_id UUID REFERENCES webhook_deliveries(id) ON DELETE SET NULL,
+    error_message TEXT,
+    started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_report_schedule_runs_slot
+    ON report_schedule_runs(schedule_id, scheduled_for);
+CREATE INDEX IF NOT EXISTS idx_report_schedule_runs_schedule_created
+    ON report_schedule_runs(schedule_id, created_at DESC);
+
+-- ============================================================================
+-- 3. NOTIFICATION LOG
+-- ============================================================================
+
+ALTER TABLE notification_log DROP CONSTRAINT IF EXISTS notification_log_type_check;
+ALTER TABLE notification_log ADD CONSTRAINT notification_log_type_check
+    CHECK (type IN ('new_call', 'low_score', 'daily_digest', 'scheduled_report'));
+
+-- ============================================================================
+-- 4. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE report_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE report_schedule_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage report schedules"
+    ON report_schedules FOR ALL
+    USING (org_id = public.user_org_id() AND public.user_role() IN ('admin', 'superadmin'));
+
+CREATE POLICY "Admins can view report schedule runs"
+    ON report_schedule_runs FOR SELECT
+    USING (org_id = public.user_org_id() AND public.user_role() IN ('admin', 'superadmin'));
+
+-- Runs are written by the cron job (service role)
+CREATE POLICY "Service role full access to report_schedules"
+    ON report_schedules FOR ALL
+    USING (auth.jwt() ->> 'role' = 'service_role');
+
+CREATE POLICY "Service role full access to report_schedule_runs"
+    ON report_schedule_runs FOR ALL
+    USING (auth.jwt() ->> 'role' = 'service_role');
+
+DROP TRIGGER IF EXISTS update_report_schedules_updated_at ON report_schedules;
+CREATE TRIGGER update_report_schedules_updated_at
+    BEFORE UPDATE ON report_schedules
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
@@ -0,0 +1,67 @@
+-- ============================================================================
+-- Migration 024: Criteria Insights
+-- ============================================================================
+-- Makes criteria_optimizations writable by the criteria insights job:
+-- - Rows are keyed by the criterion's source (a template or a scorecard)
+--   instead of by name, since two templates can share a criterion name
+-- - Calibration columns: how often a criterion lands on its max or min,
+--   score spread, and how far coaches and the AI score it apart
+-- - flags for criteria that need rewriting (always_max, always_min,
+--   ai_disagreement)
+--
+-- Nothing wrote this table before, so rows without a criterion_id are
+-- dropped rather than backfilled.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. SOURCE COLUMNS
+-- ============================================================================
+
+ALTER TABLE criteria_optimizations
+    ADD COLUMN IF NOT EXISTS source VARCHAR(20) NOT NULL DEFAULT 'template'
+        CHECK (source IN ('template', 'scorecard')),
+    ADD COLUMN IF NOT EXISTS source_id UUID;
+
+DELETE FROM criteria_optimizations WHERE criterion_id IS NULL OR source_id IS NULL;
+
+ALTER TABLE criteria_optimizations
+    ALTER COLUMN criterion_id SET NOT NULL,
+    ALTER COLUMN source_id SET NOT NULL;
+
+ALTER TABLE criteria_optimizations DROP CONSTRAINT IF EXISTS unique_criteria_optimization;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_criteria_optimizations_unique
+    ON criteria_optimizations(org_id, source_id, criterion_id, period_start, period_end);
+
+CREATE INDEX IF NOT EXISTS idx_criteria_optimizations_source
+    ON criteria_optimizations(org_id, source, source_id);
+
+-- ============================================================================
+-- 2. CALIBRATION COLUMNS
+-- ============================================================================
+-- Scores are normalized to 0-100 before aggregating
+
+ALTER TABLE criteria_optimizations
+    ADD COLUMN IF NOT EXISTS max_score_rate DECIMAL(5,2),
+    ADD COLUMN IF NOT EXISTS min_score_rate DECIMAL(5,2),
+    ADD COLUMN IF NOT EXISTS score_stddev DECIMAL(6,2),
+    -- Session scores paired with an AI score for the same-named criterion
+    -- on the session's call
+    ADD COLUMN IF NOT EXISTS ai_comparisons INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS ai_average_score DECIMAL(5,2),
+    ADD COLUMN IF NOT EXISTS ai_mean_abs_diff DECIMAL(5,2),
+    ADD COLUMN IF NOT EXISTS flags TEXT[] NOT NULL DEFAULT '{}';
+
+-- ============================================================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================================================
+
+-- Written by the cron job and on-demand refreshes (service role)
+DROP POLICY IF EXISTS "Service role full access to criteria_optimizations" ON criteria_optimizations;
+CREATE POLICY "Service role full access to criteria_optimizations"
+    ON criteria_optimizations FOR ALL
+    USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
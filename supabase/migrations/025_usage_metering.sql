@@ -0,0 +1,174 @@
+-- ============================================================================
+-- Migration 025: Usage Metering
+-- ============================================================================
+-- Makes org_usage the single meter for plan limits:
+-- - get_usage_period(): the org's billing period while it's current,
+--   otherwise the calendar month (current_period_* never advanced before
+--   billing was wired up, so every org was stuck in its first period)
+-- - consume_usage(): atomically adds to a counter only if the result stays
+--   within the given limit, so concurrent requests can't overshoot it
+-- - increment_usage() and get_current_usage() use the same period, and
+--   storage_bytes_used carries over into each new period since stored
+--   files don't go away when the month ends
+-- - The calls insert trigger is dropped: the app now meters calls itself,
+--   before inserting, so they'd otherwise be counted twice
+-- - 'usage_warning' as a notification_log type for the 80% warning emails
+-- ============================================================================
+
+-- ============================================================================
+-- 1. USAGE PERIOD
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_usage_period(p_org_id UUID)
+RETURNS TABLE (period_start DATE, period_end DATE) AS $$
+DECLARE
+    v_start TIMESTAMPTZ;
+    v_end TIMESTAMPTZ;
+BEGIN
+    SELECT current_period_start, current_period_end
+    INTO v_start, v_end
+    FROM organizations
+    WHERE id = p_org_id;
+
+    IF v_start IS NOT NULL AND v_end IS NOT NULL AND v_start <= NOW() AND NOW() < v_end THEN
+        RETURN QUERY SELECT v_start::DATE, v_end::DATE;
+    ELSE
+        RETURN QUERY SELECT
+            DATE_TRUNC('month', NOW())::DATE,
+            (DATE_TRUNC('month', NOW()) + INTERVAL '1 month')::DATE;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- Create the org's row for the current period, carrying storage over from
+-- the latest earlier period
+CREATE OR REPLACE FUNCTION ensure_usage_row(p_org_id UUID)
+RETURNS DATE AS $$
+DECLARE
+    v_period_start DATE;
+    v_period_end DATE;
+BEGIN
+    SELECT period_start, period_end
+    INTO v_period_start, v_period_end
+    FROM get_usage_period(p_org_id);
+
+    INSERT INTO org_usage (org_id, period_start, period_end, storage_bytes_used)
+    VALUES (
+        p_org_id,
+        v_period_start,
+        v_period_end,
+        COALESCE((
+            SELECT storage_bytes_used FROM org_usage
+            WHERE org_id = p_org_id AND period_start < v_period_start
+            ORDER BY period_start DESC
+            LIMIT 1
+        ), 0)
+    )
+    ON CONFLICT (org_id, period_start) DO NOTHING;
+
+    RETURN v_period_start;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 2. METERING FUNCTIONS
+-- ============================================================================
+
+-- Add p_amount to a counter if it stays within p_limit (-1 = unlimited).
+-- Negative amounts release usage and never take a counter below zero.
+CREATE OR REPLACE FUNCTION consume_usage(
+    p_org_id UUID,
+    p_metric TEXT,
+    p_amount BIGINT,
+    p_limit BIGINT DEFAULT -1
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_period_start DATE;
+    v_used BIGINT;
+BEGIN
+    IF p_metric NOT IN ('calls_count', 'sessions_count', 'ai_analyses_count', 'storage_bytes_used', 'api_calls_count') THEN
+        RAISE EXCEPTION 'Unknown usage metric: %', p_metric;
+    END IF;
+
+    v_period_start := ensure_usage_row(p_org_id);
+
+    EXECUTE format(
+        'UPDATE org_usage SET %I = GREATEST(0, COALESCE(%I, 0) + $1), updated_at = NOW()
+         WHERE org_id = $2 AND period_start = $3
+           AND ($4 < 0 OR $1 <= 0 OR COALESCE(%I, 0) + $1 <= $4)
+         RETURNING %I',
+        p_metric, p_metric, p_metric, p_metric
+    ) INTO v_used USING p_amount, p_org_id, v_period_start, p_limit;
+
+    IF v_used IS NOT NULL THEN
+        RETURN jsonb_build_object('allowed', true, 'used', v_used, 'period_start', v_period_start);
+    END IF;
+
+    EXECUTE format(
+        'SELECT COALESCE(%I, 0) FROM org_usage WHERE org_id = $1 AND period_start = $2',
+        p_metric
+    ) INTO v_used USING p_org_id, v_period_start;
+
+    RETURN jsonb_build_object('allowed', false, 'used', COALESCE(v_used, 0), 'period_start', v_period_start);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Unconditional increment, kept for the sessions trigger and older callers
+CREATE OR REPLACE FUNCTION increment_usage(
+    p_org_id UUID,
+    p_metric TEXT,
+    p_amount INTEGER DEFAULT 1
+)
+RETURNS VOID AS $$
+BEGIN
+    PERFORM consume_usage(p_org_id, p_metric, p_amount, -1);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_current_usage(
+    p_org_id UUID,
+    p_metric TEXT
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_usage INTEGER := 0;
+    v_period_start DATE;
+BEGIN
+    SELECT period_start INTO v_period_start FROM get_usage_period(p_org_id);
+
+    EXECUTE format(
+        'SELECT COALESCE(%I, 0) FROM org_usage WHERE org_id = $1 AND period_start = $2',
+        p_metric
+    ) INTO v_usage USING p_org_id, v_period_start;
+
+    RETURN COALESCE(v_usage, 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- These take any org and consume_usage takes negative amounts, so only the
+-- service role may call them; triggers reach them as SECURITY DEFINER
+REVOKE EXECUTE ON FUNCTION get_usage_period(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION ensure_usage_row(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION consume_usage(UUID, TEXT, BIGINT, BIGINT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION increment_usage(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_current_usage(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- 3. TRIGGERS
+-- ============================================================================
+
+DROP TRIGGER IF EXISTS trigger_track_call_usage ON calls;
+DROP FUNCTION IF EXISTS track_call_usage();
+
+-- ============================================================================
+-- 4. NOTIFICATION LOG
+-- ============================================================================
+
+ALTER TABLE notification_log DROP CONSTRAINT IF EXISTS notification_log_type_check;
+ALTER TABLE notification_log ADD CONSTRAINT notification_log_type_check
+    CHECK (type IN ('new_call', 'low_score', 'daily_digest', 'scheduled_report', 'usage_warning'));
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
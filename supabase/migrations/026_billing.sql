@@ -0,0 +1,138 @@
+-- ============================================================================
+-- Migration 026: Billing
+-- ============================================================================
+-- Lets org admins pay for their plan through a payment provider:
+-- - Billing state on organizations: provider, interval, pending
+--   cancellation and dunning (grace, then restricted to free-tier limits)
+-- - Provider price ids on plan_definitions, used to start checkout
+-- - billing_invoices: invoice history, kept in sync from provider webhooks
+-- - billing_events: every webhook event received, so redeliveries are
+--   applied once
+--
+-- stripe_customer_id and stripe_subscription_id (migration 009) hold the
+-- provider's ids whichever provider is configured.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. ORGANIZATION BILLING STATE
+-- ============================================================================
+
+ALTER TABLE organizations
+    ADD COLUMN IF NOT EXISTS billing_provider VARCHAR(20)
+        CHECK (billing_provider IN ('stripe', 'local')),
+    ADD COLUMN IF NOT EXISTS billing_interval VARCHAR(10)
+        CHECK (billing_interval IN ('month', 'year')),
+    ADD COLUMN IF NOT EXISTS cancel_at_period_end BOOLEAN NOT NULL DEFAULT FALSE,
+    ADD COLUMN IF NOT EXISTS dunning_state VARCHAR(20) NOT NULL DEFAULT 'none'
+        CHECK (dunning_state IN ('none', 'grace', 'restricted')),
+    ADD COLUMN IF NOT EXISTS past_due_since TIMESTAMPTZ;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_organizations_billing_customer
+    ON organizations(billing_provider, stripe_customer_id)
+    WHERE stripe_customer_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_organizations_past_due
+    ON organizations(past_due_since)
+    WHERE subscription_status = 'past_due';
+
+-- ============================================================================
+-- 2. PLAN PRICES
+-- ============================================================================
+
+ALTER TABLE plan_definitions
+    ADD COLUMN IF NOT EXISTS stripe_price_id_monthly TEXT,
+    ADD COLUMN IF NOT EXISTS stripe_price_id_yearly TEXT;
+
+-- ============================================================================
+-- 3. INVOICES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS billing_invoices (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    provider VARCHAR(20) NOT NULL CHECK (provider IN ('stripe', 'local')),
+    provider_invoice_id TEXT NOT NULL,
+    number TEXT,
+    status VARCHAR(20) NOT NULL
+        CHECK (status IN ('draft', 'open', 'paid', 'void', 'uncollectible')),
+
+    -- Minor units (cents) in the invoice currency
+    amount_due BIGINT NOT NULL DEFAULT 0,
+    amount_paid BIGINT NOT NULL DEFAULT 0,
+    currency VARCHAR(3) NOT NULL DEFAULT 'usd',
+
+    period_start TIMESTAMPTZ,
+    period_end TIMESTAMPTZ,
+    hosted_invoice_url TEXT,
+    invoice_pdf_url TEXT,
+    attempt_count INTEGER NOT NULL DEFAULT 0,
+    next_payment_attempt TIMESTAMPTZ,
+
+    issued_at TIMESTAMPTZ NOT NULL,
+    paid_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    UNIQUE (provider, provider_invoice_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_billing_invoices_org_issued
+    ON billing_invoices(org_id, issued_at DESC);
+
+DROP TRIGGER IF EXISTS update_billing_invoices_updated_at ON billing_invoices;
+CREATE TRIGGER update_billing_invoices_updated_at
+    BEFORE UPDATE ON billing_invoices
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 4. WEBHOOK EVENTS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS billing_events (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    provider VARCHAR(20) NOT NULL CHECK (provider IN ('stripe', 'local')),
+    event_id TEXT NOT NULL,
+    type TEXT NOT NULL,
+    org_id UUID REFERENCES organizations(id) ON DELETE SET NULL,
+    payload JSONB NOT NULL DEFAULT '{}'::JSONB,
+    error_message TEXT,
+    processed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    UNIQUE (provider, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_billing_events_org_created
+    ON billing_events(org_id, created_at DESC);
+
+-- ============================================================================
+-- 5. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE billing_invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE billing_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view org invoices" ON billing_invoices;
+DROP POLICY IF EXISTS "Service role full access to billing_invoices" ON billing_invoices;
+DROP POLICY IF EXISTS "Service role full access to billing_events" ON billing_events;
+
+-- Invoices are written from webhooks only
+CREATE POLICY "Admins can view org invoices"
+    ON billing_invoices FOR SELECT
+    USING (
+        (org_id = public.user_org_id() AND public.user_role() IN ('admin', 'superadmin'))
+        OR public.user_role() = 'superadmin'
+    );
+
+CREATE POLICY "Service role full access to billing_invoices"
+    ON billing_invoices FOR ALL
+    USING (auth.jwt() ->> 'role' = 'service_role');
+
+CREATE POLICY "Service role full access to billing_events"
+    ON billing_events FOR ALL
+    USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
@@ -0,0 +1,45 @@
+-- ============================================================================
+-- Migration 027: Dispute Resolution
+-- ============================================================================
+-- Completes the session dispute workflow:
+-- - disputed_by and disputed_criteria_ids, which the dispute endpoint has
+--   been writing without the columns existing
+-- - dispute_resolved_by and dispute_outcome, set when a coach or manager
+--   resolves the dispute (upheld: every disputed score stands, amended: at
+--   least one was changed)
+-- - A partial index for the open-disputes SLA view, oldest first
+-- - 'dispute_resolved' as a notification_log type for the email to the agent
+-- ============================================================================
+
+-- ============================================================================
+-- 1. SESSION COLUMNS
+-- ============================================================================
+
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS disputed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS disputed_criteria_ids UUID[] DEFAULT ARRAY[]::UUID[];
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS dispute_resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS dispute_outcome TEXT;
+
+ALTER TABLE sessions DROP CONSTRAINT IF EXISTS sessions_dispute_outcome_check;
+ALTER TABLE sessions ADD CONSTRAINT sessions_dispute_outcome_check
+    CHECK (dispute_outcome IS NULL OR dispute_outcome IN ('upheld', 'amended'));
+
+-- ============================================================================
+-- 2. INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_sessions_open_disputes
+    ON sessions(org_id, disputed_at)
+    WHERE status = 'disputed';
+
+-- ============================================================================
+-- 3. NOTIFICATION LOG
+-- ============================================================================
+
+ALTER TABLE notification_log DROP CONSTRAINT IF EXISTS notification_log_type_check;
+ALTER TABLE notification_log ADD CONSTRAINT notification_log_type_check
+    CHECK (type IN ('new_call', 'low_score', 'daily_digest', 'scheduled_report', 'usage_warning', 'dispute_resolved'));
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
@@ -0,0 +1,33 @@
+-- ============================================================================
+-- Migration 028: Calendar Push Channels
+-- ============================================================================
+-- Google Calendar watch channels for calendar links. The webhook_* columns
+-- have existed since 005 but nothing registered a channel; links now get one
+-- when created, it's renewed before it expires and stopped when the link is
+-- deleted, paused or its Google account disconnected.
+-- - webhook_channel_token: secret sent back by Google as X-Goog-Channel-Token
+--   on every notification, so forged notifications can be refused
+-- - webhook_last_notification_at: channel health for the calendar settings
+-- - webhook_error: why the last registration or renewal failed
+-- ============================================================================
+
+-- ============================================================================
+-- 1. CALENDAR LINK COLUMNS
+-- ============================================================================
+
+ALTER TABLE google_calendar_links ADD COLUMN IF NOT EXISTS webhook_channel_token TEXT;
+ALTER TABLE google_calendar_links ADD COLUMN IF NOT EXISTS webhook_last_notification_at TIMESTAMPTZ;
+ALTER TABLE google_calendar_links ADD COLUMN IF NOT EXISTS webhook_error TEXT;
+
+-- ============================================================================
+-- 2. INDEXES
+-- ============================================================================
+
+-- Notifications look links up by channel id
+CREATE UNIQUE INDEX IF NOT EXISTS idx_calendar_links_webhook_channel
+    ON google_calendar_links(webhook_channel_id)
+    WHERE webhook_channel_id IS NOT NULL;
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
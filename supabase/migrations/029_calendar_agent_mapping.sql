@@ -0,0 +1,77 @@
+-- ============================================================================
+-- Migration 029: Calendar Agent Mapping & Bidirectional Sync
+-- ============================================================================
+-- Calendar sync now resolves each event's agent through the link's
+-- agent_mapping (attendee email, organizer or a custom extended property),
+-- and links with sync_direction = 'bidirectional' write session status back
+-- to their events and follow events that move or are cancelled.
+-- Adds:
+-- - calendar_event_reviews: events whose agent couldn't be resolved, held
+--   for a manager to assign an agent (creating the session) or dismiss
+-- - sessions.google_event_writeback_at / google_event_writeback_error: when
+--   the session was last written back to its event, and why it last failed
+-- ============================================================================
+
+-- ============================================================================
+-- 1. REVIEW QUEUE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS calendar_event_reviews (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    calendar_link_id UUID NOT NULL REFERENCES google_calendar_links(id) ON DELETE CASCADE,
+    google_event_id TEXT NOT NULL,
+    event_title TEXT,
+    event_start TIMESTAMPTZ,
+    event_end TIMESTAMPTZ,
+    organizer_email TEXT,
+    attendee_emails TEXT[] NOT NULL DEFAULT '{}',
+    -- Why the agent couldn't be resolved, e.g. 'No attendee matches a member'
+    reason TEXT NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'assigned', 'dismissed')),
+    session_id UUID REFERENCES sessions(id) ON DELETE SET NULL,
+    resolved_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    resolved_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+    -- One entry per event, however often it's synced
+    UNIQUE(calendar_link_id, google_event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_event_reviews_pending
+    ON calendar_event_reviews(org_id, event_start)
+    WHERE status = 'pending';
+
+-- ============================================================================
+-- 2. SESSION WRITE-BACK STATE
+-- ============================================================================
+
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS google_event_writeback_at TIMESTAMPTZ;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS google_event_writeback_error TEXT;
+
+-- ============================================================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE calendar_event_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can manage calendar event reviews"
+    ON calendar_event_reviews FOR ALL
+    USING (org_id = public.user_org_id() AND public.user_role() IN ('admin', 'superadmin', 'manager'));
+
+-- Entries are queued by calendar sync (service role)
+CREATE POLICY "Service role full access to calendar_event_reviews"
+    ON calendar_event_reviews FOR ALL
+    USING (auth.jwt() ->> 'role' = 'service_role');
+
+DROP TRIGGER IF EXISTS update_calendar_event_reviews_updated_at ON calendar_event_reviews;
+CREATE TRIGGER update_calendar_event_reviews_updated_at
+    BEFORE UPDATE ON calendar_event_reviews
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
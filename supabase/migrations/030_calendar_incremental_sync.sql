@@ -0,0 +1,77 @@
+-- ============================================================================
+-- Migration 030: Incremental Calendar Sync
+-- ============================================================================
+-- Calendar links now sync incrementally: sync_cursor holds Google's
+-- nextSyncToken, so each run only fetches events that changed since the
+-- last one. A full sync (the lookback window) runs for new links, when
+-- forced, and when Google expires the token (410 Gone).
+-- Adds:
+-- - google_calendar_links.last_full_sync_at
+-- - calendar_sync_logs: one row per sync run of a link, like sync_logs for
+--   Meet transcripts, with what the run found and changed
+-- ============================================================================
+
+-- ============================================================================
+-- 1. CALENDAR LINK COLUMNS
+-- ============================================================================
+
+ALTER TABLE google_calendar_links ADD COLUMN IF NOT EXISTS last_full_sync_at TIMESTAMPTZ;
+
+-- ============================================================================
+-- 2. SYNC LOGS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS calendar_sync_logs (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    calendar_link_id UUID NOT NULL REFERENCES google_calendar_links(id) ON DELETE CASCADE,
+
+    -- Sync info
+    sync_type TEXT NOT NULL
+        CHECK (sync_type IN ('cron', 'manual', 'push')),
+    sync_mode TEXT
+        CHECK (sync_mode IN ('full', 'incremental')),
+    -- Why a full sync ran: 'initial', 'forced' or 'token_expired'
+    full_sync_reason TEXT,
+    status TEXT NOT NULL DEFAULT 'started'
+        CHECK (status IN ('started', 'completed', 'failed')),
+
+    -- Results
+    events_checked INTEGER DEFAULT 0,
+    sessions_created INTEGER DEFAULT 0,
+    sessions_updated INTEGER DEFAULT 0,
+    sessions_cancelled INTEGER DEFAULT 0,
+    sessions_skipped INTEGER DEFAULT 0,
+    events_queued INTEGER DEFAULT 0,
+
+    -- Errors
+    error_message TEXT,
+    error_details JSONB,
+
+    -- Timing
+    started_at TIMESTAMPTZ DEFAULT NOW(),
+    completed_at TIMESTAMPTZ,
+    duration_ms INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_sync_logs_link_started
+    ON calendar_sync_logs(calendar_link_id, started_at DESC);
+
+-- ============================================================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE calendar_sync_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view calendar sync logs"
+    ON calendar_sync_logs FOR SELECT
+    USING (org_id = public.user_org_id());
+
+-- Written by calendar sync (service role)
+CREATE POLICY "Service role full access to calendar_sync_logs"
+    ON calendar_sync_logs FOR ALL
+    USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
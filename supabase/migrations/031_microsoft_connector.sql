@@ -0,0 +1,135 @@
+-- ============================================================================
+-- Migration 031: Microsoft 365 Connector
+-- ============================================================================
+-- Outlook calendars and Teams transcripts, alongside Google. Calendar links
+-- and the transcript store are shared between providers rather than
+-- duplicated: a provider column says which connection a row belongs to.
+-- Adds:
+-- - microsoft_connections: OAuth connections to Microsoft 365 accounts,
+--   mirroring google_connections (refresh tokens AES-256-GCM encrypted)
+-- - google_calendar_links.provider / microsoft_connection_id
+-- - meet_transcripts.provider / microsoft_connection_id, with connection_id
+--   now only set for Google transcripts
+-- - call_source 'microsoft_teams'
+--
+-- Outlook links reuse the sessions.google_event_* columns for their events,
+-- and google_meet_code holds the Teams meeting key ("teams:<thread id>") so
+-- transcripts reconcile to sessions the same way Meet transcripts do.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. MICROSOFT CONNECTIONS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS microsoft_connections (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+    -- Microsoft account info
+    microsoft_email TEXT NOT NULL,
+    microsoft_user_id TEXT, -- Graph user ID
+    tenant_id TEXT,
+
+    -- OAuth tokens (refresh_token is encrypted)
+    access_token TEXT NOT NULL,
+    refresh_token_encrypted TEXT NOT NULL,
+    refresh_token_iv TEXT NOT NULL,
+    refresh_token_tag TEXT NOT NULL,
+
+    -- Token metadata
+    token_expiry TIMESTAMPTZ NOT NULL,
+    scopes TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+
+    -- Sync state (Teams transcripts)
+    last_sync_at TIMESTAMPTZ,
+    last_sync_error TEXT,
+
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    UNIQUE(user_id, microsoft_email)
+);
+
+CREATE INDEX IF NOT EXISTS idx_microsoft_connections_user_id
+    ON microsoft_connections(user_id);
+CREATE INDEX IF NOT EXISTS idx_microsoft_connections_last_sync
+    ON microsoft_connections(last_sync_at);
+
+DROP TRIGGER IF EXISTS update_microsoft_connections_updated_at ON microsoft_connections;
+CREATE TRIGGER update_microsoft_connections_updated_at
+    BEFORE UPDATE ON microsoft_connections
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 2. CALENDAR LINKS
+-- ============================================================================
+
+ALTER TABLE google_calendar_links ADD COLUMN IF NOT EXISTS provider TEXT NOT NULL DEFAULT 'google'
+    CHECK (provider IN ('google', 'microsoft'));
+ALTER TABLE google_calendar_links ADD COLUMN IF NOT EXISTS microsoft_connection_id UUID
+    REFERENCES microsoft_connections(id) ON DELETE CASCADE;
+
+-- Outlook links have no Google connection
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'google_calendar_links' AND column_name = 'google_connection_id'
+    ) THEN
+        ALTER TABLE google_calendar_links ALTER COLUMN google_connection_id DROP NOT NULL;
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_google_calendar_links_microsoft_connection
+    ON google_calendar_links(microsoft_connection_id)
+    WHERE microsoft_connection_id IS NOT NULL;
+
+-- ============================================================================
+-- 3. TRANSCRIPT STORE
+-- ============================================================================
+
+ALTER TABLE meet_transcripts ADD COLUMN IF NOT EXISTS provider TEXT NOT NULL DEFAULT 'google'
+    CHECK (provider IN ('google', 'microsoft'));
+ALTER TABLE meet_transcripts ADD COLUMN IF NOT EXISTS microsoft_connection_id UUID
+    REFERENCES microsoft_connections(id) ON DELETE CASCADE;
+ALTER TABLE meet_transcripts ALTER COLUMN connection_id DROP NOT NULL;
+
+ALTER TABLE meet_transcripts DROP CONSTRAINT IF EXISTS meet_transcripts_one_connection;
+ALTER TABLE meet_transcripts ADD CONSTRAINT meet_transcripts_one_connection CHECK (
+    (provider = 'google' AND connection_id IS NOT NULL AND microsoft_connection_id IS NULL) OR
+    (provider = 'microsoft' AND microsoft_connection_id IS NOT NULL AND connection_id IS NULL)
+);
+
+-- Upsert target for Teams transcripts (Google rows have NULL here and never conflict)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_meet_transcripts_microsoft_unique
+    ON meet_transcripts(microsoft_connection_id, conference_record_name, transcript_name);
+
+-- ============================================================================
+-- 4. CALL SOURCE
+-- ============================================================================
+
+ALTER TYPE call_source ADD VALUE IF NOT EXISTS 'microsoft_teams';
+
+-- ============================================================================
+-- 5. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE microsoft_connections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own microsoft connections"
+    ON microsoft_connections FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own microsoft connections"
+    ON microsoft_connections FOR DELETE
+    USING (auth.uid() = user_id);
+
+-- Tokens are written by the OAuth callback and refresh (service role)
+CREATE POLICY "Service role full access to microsoft_connections"
+    ON microsoft_connections FOR ALL
+    USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
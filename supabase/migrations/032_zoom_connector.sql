@@ -0,0 +1,142 @@
+-- ============================================================================
+-- Migration 032: Zoom Connector
+-- ============================================================================
+-- Zoom cloud recording transcripts become calls. Unlike the Google and
+-- Microsoft connectors, a Zoom connection belongs to the org: an admin
+-- connects the Zoom account once, and the recording webhooks Zoom sends for
+-- that account are matched to callers by host email.
+-- Adds:
+-- - zoom_connections: OAuth connections to Zoom accounts (refresh tokens
+--   AES-256-GCM encrypted, same key as the other connectors)
+-- - call_source 'zoom'
+-- - auto_queue_call skips Zoom calls; the connector queues analysis itself
+--   according to zoom_connections.auto_analyze
+-- - One call per external_id in an org, so concurrent deliveries of the
+--   same recording webhook can't both create a call
+-- ============================================================================
+
+-- ============================================================================
+-- 1. ZOOM CONNECTIONS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS zoom_connections (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    connected_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+    -- Zoom account info (webhooks identify the account, not the user)
+    zoom_account_id TEXT NOT NULL UNIQUE,
+    zoom_user_id TEXT NOT NULL,
+    zoom_email TEXT NOT NULL,
+
+    -- OAuth tokens (refresh_token is encrypted)
+    access_token TEXT NOT NULL,
+    refresh_token_encrypted TEXT NOT NULL,
+    refresh_token_iv TEXT NOT NULL,
+    refresh_token_tag TEXT NOT NULL,
+
+    -- Token metadata
+    token_expiry TIMESTAMPTZ NOT NULL,
+    scopes TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+
+    -- Queue AI analysis for calls created from recordings
+    auto_analyze BOOLEAN NOT NULL DEFAULT TRUE,
+
+    -- Last recording webhook handled
+    last_event_at TIMESTAMPTZ,
+    last_error TEXT,
+
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_zoom_connections_org_id
+    ON zoom_connections(org_id);
+
+DROP TRIGGER IF EXISTS update_zoom_connections_updated_at ON zoom_connections;
+CREATE TRIGGER update_zoom_connections_updated_at
+    BEFORE UPDATE ON zoom_connections
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 2. CALL SOURCE
+-- ============================================================================
+
+ALTER TYPE call_source ADD VALUE IF NOT EXISTS 'zoom';
+
+-- ============================================================================
+-- 3. AUTO-QUEUE
+-- ============================================================================
+-- Zoom calls are queued by the connector when the connection's auto_analyze
+-- is on, whatever the org's autoAnalyze setting. The source is compared as
+-- text because the enum value above can't be used in the same transaction.
+
+CREATE OR REPLACE FUNCTION auto_queue_call()
+RETURNS TRIGGER AS $$
+DECLARE
+    org_settings JSONB;
+BEGIN
+    IF (NEW.metadata->>'requires_transcription')::boolean IS TRUE THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.source::text = 'zoom' THEN
+        RETURN NEW;
+    END IF;
+
+    -- Get org settings
+    SELECT settings_json INTO org_settings FROM organizations WHERE id = NEW.org_id;
+
+    -- If auto_analyze is enabled, queue the call
+    IF (org_settings->'features'->>'autoAnalyze')::boolean = TRUE THEN
+        INSERT INTO processing_queue (org_id, call_id, status, priority)
+        VALUES (NEW.org_id, NEW.id, 'queued', 0);
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- 4. EXTERNAL ID UNIQUENESS
+-- ============================================================================
+-- Zoom sends recording.completed and recording.transcript_completed for the
+-- same meeting, often at once; inbound webhooks and Meet/Teams
+-- reconciliation already check external_id before inserting but can race
+-- the same way. Calls that slipped through keep their row but lose the
+-- external_id, oldest first wins.
+
+UPDATE calls
+SET external_id = NULL
+WHERE id IN (
+    SELECT id
+    FROM (
+        SELECT
+            id,
+            ROW_NUMBER() OVER (PARTITION BY org_id, external_id ORDER BY created_at, id) AS copy
+        FROM calls
+        WHERE external_id IS NOT NULL
+    ) copies
+    WHERE copies.copy > 1
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_calls_org_external_id
+    ON calls(org_id, external_id)
+    WHERE external_id IS NOT NULL;
+
+-- ============================================================================
+-- 5. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE zoom_connections ENABLE ROW LEVEL SECURITY;
+
+-- Tokens are read and written server-side only (service role); the API
+-- returns connections without them
+CREATE POLICY "Service role full access to zoom_connections"
+    ON zoom_connections FOR ALL
+    USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
@@ -0,0 +1,285 @@
+/**
+ * Analysis Output Schema Tests
+ *
+ * Tests validation of model output against scorecard and legacy criteria:
+ * - Missing criteriaScores / criteria
+ * - Scores above max_score
+ * - Invented criterion IDs
+ * - Authoritative max_score/weight/weighted_score
+ * - Repair prompt contents
+ *
+ * Run: npx tsx tests/ai/analysis-schema-tests.ts
+ */
+
+import { TestReporter, measureTest } from "../config";
+import {
+  buildLegacyAnalysisSchema,
+  buildRepairPrompt,
+  buildScorecardAnalysisSchema,
+  validateAnalysisOutput,
+} from "../../src/lib/analysis-schema";
+import { GradingCriterion, ScorecardCriterion } from "../../src/types/database";
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+const scorecardCriteria: ScorecardCriterion[] = [
+  {
+    id: "opening",
+    name: "Opening",
+    description: "Rapport and agenda",
+    weight: 40,
+    max_score: 10,
+    scoring_guide: "1-10",
+    order: 1,
+  },
+  {
+    id: "discovery",
+    name: "Discovery",
+    description: "Needs analysis",
+    weight: 60,
+    max_score: 5,
+    scoring_guide: "1-5",
+    order: 2,
+  },
+];
+
+const legacyCriteria: GradingCriterion[] = [
+  {
+    id: "rapport",
+    name: "Rapport",
+    description: "Built rapport",
+    type: "score",
+    weight: 50,
+    isRequired: true,
+    order: 1,
+  },
+  {
+    id: "next_steps",
+    name: "Next Steps",
+    description: "Agreed next steps",
+    type: "boolean",
+    weight: 50,
+    isRequired: false,
+    order: 2,
+  },
+];
+
+function validOutput(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    overallScore: 72,
+    criteriaScores: {
+      opening: { name: "Opening", score: 8, max_score: 10, weight: 40, weighted_score: 32 },
+      discovery: { name: "Discovery", score: 3, max_score: 5, weight: 60, weighted_score: 36 },
+    },
+    strengths: ["Good opener"],
+    improvements: ["Ask more questions"],
+    executiveSummary: "Solid call.",
+    ...overrides,
+  };
+}
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+async function runAnalysisSchemaTests(): Promise<void> {
+  const reporter = new TestReporter();
+  const scorecardSchema = buildScorecardAnalysisSchema(scorecardCriteria);
+
+  console.log("\n" + "=".repeat(60));
+  console.log("ANALYSIS OUTPUT SCHEMA TESTS");
+  console.log("=".repeat(60));
+
+  // =========================================================================
+  // SECTION 1: SCORECARD OUTPUT
+  // =========================================================================
+  reporter.setCategory("Scorecard Output");
+
+  {
+    const { result, duration } = await measureTest("Scorecard: valid output", async () => {
+      const validation = validateAnalysisOutput(JSON.stringify(validOutput()), scorecardSchema);
+      return validation.success
+        ? { ok: validation.data.actionItems.length === 0 && validation.data.compositeScore === 72, detail: "valid" }
+        : { ok: false, detail: validation.issues.join("; ") };
+    });
+
+    reporter.log({
+      name: "Scorecard: valid output passes and optional lists default to []",
+      passed: result.ok,
+      expected: "valid",
+      actual: result.detail,
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Scorecard: missing criteriaScores", async () => {
+      const output = validOutput();
+      delete output.criteriaScores;
+      const validation = validateAnalysisOutput(JSON.stringify(output), scorecardSchema);
+      return validation.success ? [] : validation.issues;
+    });
+
+    reporter.log({
+      name: "Scorecard: missing criteriaScores is rejected",
+      passed: result.some((issue) => issue.startsWith("criteriaScores")),
+      expected: "criteriaScores issue",
+      actual: result.join("; ") || "Accepted",
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Scorecard: score above max", async () => {
+      const output = validOutput();
+      (output.criteriaScores as Record<string, { score: number }>).discovery.score = 9;
+      const validation = validateAnalysisOutput(JSON.stringify(output), scorecardSchema);
+      return validation.success ? [] : validation.issues;
+    });
+
+    reporter.log({
+      name: "Scorecard: score above max_score is rejected",
+      passed: result.some((issue) => issue.startsWith("criteriaScores.discovery.score")),
+      expected: "criteriaScores.discovery.score issue",
+      actual: result.join("; ") || "Accepted",
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Scorecard: invented criterion", async () => {
+      const output = validOutput();
+      (output.criteriaScores as Record<string, unknown>).closing = { score: 5 };
+      const validation = validateAnalysisOutput(JSON.stringify(output), scorecardSchema);
+      return validation.success ? [] : validation.issues;
+    });
+
+    reporter.log({
+      name: "Scorecard: invented criterion ID is rejected",
+      passed: result.some((issue) => issue.includes("closing")),
+      expected: "Unrecognized key closing",
+      actual: result.join("; ") || "Accepted",
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Scorecard: authoritative weights", async () => {
+      const output = validOutput();
+      (output.criteriaScores as Record<string, Record<string, number>>).opening = {
+        score: 5,
+        max_score: 100,
+        weight: 99,
+        weighted_score: 99,
+      };
+      const validation = validateAnalysisOutput(JSON.stringify(output), scorecardSchema);
+      return validation.success ? validation.data.criteriaScores?.opening : undefined;
+    });
+
+    reporter.log({
+      name: "Scorecard: max_score/weight/weighted_score come from the scorecard",
+      passed: result?.max_score === 10 && result.weight === 40 && result.weighted_score === 20,
+      expected: "max_score 10, weight 40, weighted_score 20",
+      actual: result ? `${result.max_score}, ${result.weight}, ${result.weighted_score}` : "Rejected",
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Scorecard: invalid JSON", async () => {
+      const validation = validateAnalysisOutput("{ not json", scorecardSchema);
+      return validation.success ? [] : validation.issues;
+    });
+
+    reporter.log({
+      name: "Scorecard: non-JSON response is reported, not thrown",
+      passed: result.length === 1 && result[0] === "Response is not valid JSON",
+      expected: "Response is not valid JSON",
+      actual: result.join("; ") || "Accepted",
+      duration,
+      severity: "high",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 2: LEGACY OUTPUT
+  // =========================================================================
+  reporter.setCategory("Legacy Output");
+
+  {
+    const { result, duration } = await measureTest("Legacy: required criterion", async () => {
+      const schema = buildLegacyAnalysisSchema(legacyCriteria);
+      const output = validOutput({
+        criteriaScores: undefined,
+        gradingResults: [
+          { criterionId: "next_steps", criterionName: "Next Steps", type: "boolean", value: true, score: 100 },
+          { criterionId: "made_up", criterionName: "Made Up", type: "score", value: 5, score: 50 },
+        ],
+      });
+      const validation = validateAnalysisOutput(JSON.stringify(output), schema);
+      return validation.success ? [] : validation.issues;
+    });
+
+    reporter.log({
+      name: "Legacy: missing required criterion and unknown ID are rejected",
+      passed:
+        result.some((issue) => issue.includes('"rapport"')) &&
+        result.some((issue) => issue.startsWith("gradingResults.1.criterionId")),
+      expected: "rapport missing, made_up unknown",
+      actual: result.join("; ") || "Accepted",
+      duration,
+      severity: "high",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 3: REPAIR PROMPT
+  // =========================================================================
+  reporter.setCategory("Repair Prompt");
+
+  {
+    const { result, duration } = await measureTest("Repair: prompt contents", async () => {
+      return buildRepairPrompt(
+        ["criteriaScores.discovery.score: Too big: expected number to be <=5"],
+        ["opening", "discovery"]
+      );
+    });
+
+    reporter.log({
+      name: "Repair: prompt lists issues and allowed criterion IDs",
+      passed:
+        result.includes("- criteriaScores.discovery.score") && result.includes("opening, discovery"),
+      expected: "Issues and IDs listed",
+      actual: result.split("\n")[1],
+      duration,
+      severity: "medium",
+    });
+  }
+
+  // =========================================================================
+  // PRINT SUMMARY
+  // =========================================================================
+  reporter.printSummary();
+
+  const exitCode = reporter.getExitCode();
+  if (exitCode !== 0) {
+    console.log("\n⚠️  Some tests failed. Review issues above.");
+  } else {
+    console.log("\n✅ All analysis schema tests passed!");
+  }
+
+  process.exit(exitCode);
+}
+
+// Run the tests
+runAnalysisSchemaTests().catch((error) => {
+  console.error("Test suite crashed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,386 @@
+/**
+ * Call Metrics Tests
+ *
+ * Tests metrics computed from timestamped transcripts:
+ * - Talk ratio per speaker and for the rep
+ * - Longest monologue across consecutive entries
+ * - Overlap-based interruptions
+ * - Silent gaps, question counts and words per minute
+ * - Sentiment progression from the other party's words
+ * - Overriding the model's callMetrics and sentiment progression
+ *
+ * Run: npx tsx tests/ai/call-metrics-tests.ts
+ */
+
+import { TestReporter, measureTest } from "../config";
+import {
+  applyComputedMetrics,
+  computeCallMetrics,
+  computeSentimentProgression,
+  meetEntriesToUtterances,
+  type TimedUtterance,
+} from "../../src/lib/call-metrics";
+import type { AnalysisResults } from "../../src/types/database";
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+const REP = "conferenceRecords/c1/participants/rep";
+const PROSPECT = "conferenceRecords/c1/participants/prospect";
+
+/**
+ * A short call, seconds from start:
+ *   0-10   rep        (monologue part 1)
+ *   10-20  rep        (monologue part 2, 20s total)
+ *   19-25  prospect   (starts 1s before rep finishes -> interruption)
+ *   30-34  rep        (5s gap before)
+ *   34-40  prospect
+ */
+const sampleCall: TimedUtterance[] = [
+  { speaker: REP, start: 0, end: 10, text: "Thanks for joining today, I wanted to walk through the proposal." },
+  { speaker: REP, start: 10, end: 20, text: "Does the timeline we discussed still work for your team?" },
+  { speaker: PROSPECT, start: 19, end: 25, text: "Mostly yes, but legal needs another week." },
+  { speaker: REP, start: 30, end: 34, text: "Understood. Who else should be on the next call?" },
+  { speaker: PROSPECT, start: 34, end: 40, text: "Our CFO, Dana." },
+];
+
+/**
+ * Two minutes where the prospect cools off, in 30s windows:
+ *   0-30   positive ("great", "thanks"); the rep's "great" is ignored
+ *   30-60  nothing said with sentiment
+ *   60-90  negative ("unfortunately", "problem")
+ *   90-120 negated positive ("not happy")
+ */
+const coolingCall: TimedUtterance[] = [
+  { speaker: REP, start: 0, end: 5, text: "Great to meet you, great agenda today." },
+  { speaker: PROSPECT, start: 5, end: 12, text: "This looks great, thanks for the demo." },
+  { speaker: REP, start: 35, end: 50, text: "Let me show you pricing." },
+  { speaker: PROSPECT, start: 65, end: 75, text: "Unfortunately the price is a problem for us." },
+  { speaker: PROSPECT, start: 100, end: 120, text: "I'm not happy with that." },
+];
+
+const speakerNames = new Map([
+  [REP, "Sam Rep"],
+  [PROSPECT, "Pat Prospect"],
+]);
+
+function baseAnalysis(): AnalysisResults {
+  return {
+    overallScore: 70,
+    gradingResults: [],
+    compositeScore: 70,
+    strengths: [],
+    improvements: [],
+    executiveSummary: "Summary",
+    actionItems: [],
+    objections: [],
+    competitorMentions: [],
+    sentiment: { overall: "neutral", score: 0, progression: [] },
+    callMetrics: { talkRatio: 0.5, questionCount: 9, interruptionCount: 9, silenceDuration: 99 },
+    recommendations: [],
+  };
+}
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+async function runCallMetricsTests(): Promise<void> {
+  const reporter = new TestReporter();
+
+  console.log("\n" + "=".repeat(60));
+  console.log("CALL METRICS TESTS");
+  console.log("=".repeat(60));
+
+  const metrics = computeCallMetrics(sampleCall, { repSpeaker: REP, speakerNames });
+  const rep = metrics?.speakers.find((s) => s.speaker === REP);
+  const prospect = metrics?.speakers.find((s) => s.speaker === PROSPECT);
+
+  // =========================================================================
+  // SECTION 1: TALK TIME
+  // =========================================================================
+  reporter.setCategory("Talk Time");
+
+  {
+    const { result, duration } = await measureTest("Talk time: rep share", async () => {
+      return { rep: rep?.talkRatio, overall: metrics?.talkRatio, names: metrics?.speakers.map((s) => s.name) };
+    });
+
+    // Rep 24s, prospect 12s
+    reporter.log({
+      name: "Talk time: talk ratio is the rep's share of total talk time",
+      passed: result.rep === 0.667 && result.overall === 0.667 && result.names?.[0] === "Sam Rep",
+      expected: "0.667 for Sam Rep",
+      actual: `${result.overall} (${result.names?.join(", ")})`,
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Talk time: pace", async () => {
+      return { rep: rep?.wordsPerMinute, prospect: prospect?.wordsPerMinute, overall: metrics?.wordsPerMinute };
+    });
+
+    // Rep 30 words in 24s, prospect 10 words in 12s
+    reporter.log({
+      name: "Talk time: words per minute from words and talk time",
+      passed: result.rep === 75 && result.prospect === 50 && result.overall === 75,
+      expected: "rep 75, prospect 50",
+      actual: `rep ${result.rep}, prospect ${result.prospect}`,
+      duration,
+      severity: "medium",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 2: TURN TAKING
+  // =========================================================================
+  reporter.setCategory("Turn Taking");
+
+  {
+    const { result, duration } = await measureTest("Turns: longest monologue", async () => {
+      return { seconds: metrics?.longestMonologueSeconds, speaker: metrics?.longestMonologueSpeaker };
+    });
+
+    reporter.log({
+      name: "Turns: consecutive entries by one speaker form one monologue",
+      passed: result.seconds === 20 && result.speaker === REP,
+      expected: "20s by rep",
+      actual: `${result.seconds}s by ${result.speaker}`,
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Turns: interruptions", async () => {
+      return { prospect: prospect?.interruptions, rep: rep?.interruptions, overall: metrics?.interruptionCount };
+    });
+
+    reporter.log({
+      name: "Turns: overlapping start counts as an interruption by the overlapping speaker",
+      passed: result.prospect === 1 && result.rep === 0 && result.overall === 0,
+      expected: "prospect 1, rep 0 (rep's count reported)",
+      actual: `prospect ${result.prospect}, rep ${result.rep}, reported ${result.overall}`,
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Turns: crosstalk threshold", async () => {
+      const brief = computeCallMetrics([
+        { speaker: "A", start: 0, end: 5, text: "Let me explain the pricing." },
+        { speaker: "B", start: 4.8, end: 5.2, text: "Mm-hm." },
+      ]);
+      return brief?.interruptionCount;
+    });
+
+    reporter.log({
+      name: "Turns: overlap under 0.5s is not an interruption",
+      passed: result === 0,
+      expected: "0",
+      actual: String(result),
+      duration,
+      severity: "medium",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Turns: gaps and questions", async () => {
+      return {
+        gaps: metrics?.gapCount,
+        silence: metrics?.silenceDuration,
+        questions: metrics?.questionCount,
+        prospectQuestions: prospect?.questionCount,
+      };
+    });
+
+    reporter.log({
+      name: "Turns: silent gaps and rep questions are counted",
+      passed: result.gaps === 1 && result.silence === 5 && result.questions === 2 && result.prospectQuestions === 0,
+      expected: "1 gap (5s), 2 rep questions",
+      actual: `${result.gaps} gap (${result.silence}s), ${result.questions} rep questions`,
+      duration,
+      severity: "high",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 3: SENTIMENT
+  // =========================================================================
+  reporter.setCategory("Sentiment");
+
+  {
+    const { result, duration } = await measureTest("Sentiment: progression", async () => {
+      return computeSentimentProgression(coolingCall, REP);
+    });
+
+    reporter.log({
+      name: "Sentiment: the prospect's words are scored per 30s window, negations flip",
+      passed: JSON.stringify(result) ===
+        JSON.stringify([
+          { timestamp: 0, sentiment: 1 },
+          { timestamp: 30, sentiment: 0 },
+          { timestamp: 60, sentiment: -1 },
+          { timestamp: 90, sentiment: -1 },
+        ]),
+      expected: "0s +1, 30s 0, 60s -1, 90s -1",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Sentiment: windows", async () => {
+      return {
+        short: computeSentimentProgression(sampleCall, REP).length,
+        everyone: computeSentimentProgression(coolingCall, null)[0].sentiment,
+        empty: computeSentimentProgression([]).length,
+      };
+    });
+
+    reporter.log({
+      name: "Sentiment: short calls get one point, unknown reps count everyone, no turns no points",
+      passed: result.short === 1 && result.everyone === 1 && result.empty === 0,
+      expected: "1 point, first window +1 with rep words, 0 points",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "medium",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 4: INPUTS AND OVERRIDES
+  // =========================================================================
+  reporter.setCategory("Inputs and Overrides");
+
+  {
+    const { result, duration } = await measureTest("Inputs: Meet entries", async () => {
+      return meetEntriesToUtterances([
+        {
+          participant: REP,
+          text: "Hello",
+          startTime: "2026-03-01T15:00:05.500Z",
+          endTime: "2026-03-01T15:00:07Z",
+        },
+        {
+          participant: PROSPECT,
+          text: "Hi",
+          startTime: "2026-03-01T15:00:08Z",
+          endTime: "not a time",
+        },
+      ]);
+    });
+
+    reporter.log({
+      name: "Inputs: Meet entries become seconds from the first entry",
+      passed: result.length === 1 && result[0].start === 0 && result[0].end === 1.5,
+      expected: "1 utterance, 0-1.5s",
+      actual: result.map((u) => `${u.start}-${u.end}s`).join(", "),
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Overrides: rep known", async () => {
+      return applyComputedMetrics(baseAnalysis(), metrics).callMetrics;
+    });
+
+    reporter.log({
+      name: "Overrides: computed values replace the model's callMetrics",
+      passed:
+        result.talkRatio === 0.667 &&
+        result.questionCount === 2 &&
+        result.interruptionCount === 0 &&
+        result.silenceDuration === 5 &&
+        result.longestMonologueSeconds === 20 &&
+        result.computed === true,
+      expected: "0.667 / 2 / 0 / 5s / 20s, computed",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Overrides: rep unknown", async () => {
+      const anonymous = computeCallMetrics(sampleCall);
+      return applyComputedMetrics(baseAnalysis(), anonymous).callMetrics;
+    });
+
+    reporter.log({
+      name: "Overrides: model talk ratio kept when the rep isn't identified",
+      passed: result.talkRatio === 0.5 && result.questionCount === 2 && result.interruptionCount === 1,
+      expected: "talkRatio 0.5, totals for questions/interruptions",
+      actual: `talkRatio ${result.talkRatio}, questions ${result.questionCount}, interruptions ${result.interruptionCount}`,
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Overrides: no timestamps", async () => {
+      return computeCallMetrics([]) === null && applyComputedMetrics(baseAnalysis(), null).callMetrics.questionCount === 9;
+    });
+
+    reporter.log({
+      name: "Overrides: analysis untouched when there are no timestamps",
+      passed: result,
+      expected: "null metrics, model values kept",
+      actual: result ? "Unchanged" : "Changed",
+      duration,
+      severity: "medium",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Overrides: sentiment progression", async () => {
+      const model = baseAnalysis();
+      model.sentiment = { overall: "positive", score: 0.6, progression: [{ timestamp: 1, sentiment: 0.9 }] };
+      const computed = computeCallMetrics(coolingCall, { repSpeaker: REP });
+      return {
+        replaced: applyComputedMetrics(model, computed).sentiment,
+        legacy: applyComputedMetrics(model, { ...computed!, sentimentProgression: undefined }).sentiment,
+      };
+    });
+
+    reporter.log({
+      name: "Overrides: computed progression replaces the model's; overall sentiment and older metrics keep the model's",
+      passed:
+        result.replaced.progression.length === 4 &&
+        result.replaced.progression[2].sentiment === -1 &&
+        result.replaced.overall === "positive" &&
+        result.replaced.score === 0.6 &&
+        result.legacy.progression[0].sentiment === 0.9,
+      expected: "4 computed points, overall positive/0.6 kept, legacy keeps model progression",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  // =========================================================================
+  // PRINT SUMMARY
+  // =========================================================================
+  reporter.printSummary();
+
+  const exitCode = reporter.getExitCode();
+  if (exitCode !== 0) {
+    console.log("\n⚠️  Some tests failed. Review issues above.");
+  } else {
+    console.log("\n✅ All call metrics tests passed!");
+  }
+
+  process.exit(exitCode);
+}
+
+// Run the tests
+runCallMetricsTests().catch((error) => {
+  console.error("Test suite crashed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,294 @@
+/**
+ * Insight Runner Tests
+ *
+ * Tests running insight templates against a call:
+ * - Filling {variables} from call, caller and analysis data
+ * - Output format instructions in the prompt
+ * - Parsing text, bullet, numbered and JSON output
+ * - A full template run through the fixture provider
+ *
+ * Run: npx tsx tests/ai/insight-runner-tests.ts
+ */
+
+import { TestReporter, measureTest } from "../config";
+import {
+  InsightOutputError,
+  buildInsightMessages,
+  buildInsightVariables,
+  parseInsightOutput,
+  renderInsightPrompt,
+  type InsightContext,
+} from "../../src/lib/insight-runner";
+import { FixtureProvider } from "../../src/lib/llm";
+import type { AnalysisResults } from "../../src/types/database";
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function sampleAnalysis(): AnalysisResults {
+  return {
+    overallScore: 72,
+    gradingResults: [],
+    compositeScore: 68,
+    strengths: ["Clear agenda", "Good rapport"],
+    improvements: ["Ask about budget"],
+    executiveSummary: "Solid discovery call with a clear next step.",
+    actionItems: ["Send pricing"],
+    objections: [{ objection: "Too expensive", response: "Offered annual plan", effectiveness: 0.7 }],
+    competitorMentions: ["Acme"],
+    sentiment: { overall: "positive", score: 0.6, progression: [] },
+    callMetrics: { talkRatio: 0.42, questionCount: 6, interruptionCount: 1, silenceDuration: 12 },
+    recommendations: ["Confirm decision makers earlier"],
+  };
+}
+
+function sampleContext(): InsightContext {
+  return {
+    call: {
+      id: "call-1",
+      customer_name: "Dana Buyer",
+      customer_company: "Globex",
+      call_timestamp: "2026-03-04T15:30:00Z",
+      duration: 1800,
+      source: "google_meet",
+    },
+    caller: { name: "Sam Rep", team: "East" },
+    analysis: sampleAnalysis(),
+  };
+}
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+async function runInsightRunnerTests(): Promise<void> {
+  const reporter = new TestReporter();
+
+  console.log("\n" + "=".repeat(60));
+  console.log("INSIGHT RUNNER TESTS");
+  console.log("=".repeat(60));
+
+  // =========================================================================
+  // SECTION 1: PROMPT RENDERING
+  // =========================================================================
+  reporter.setCategory("Prompt Rendering");
+
+  {
+    const { result, duration } = await measureTest("Rendering: variables", async () => {
+      const vars = buildInsightVariables(sampleContext(), 3);
+      return renderInsightPrompt(
+        "Coach {caller_name} on the {call_date} call with {customer_company} ({call_duration} min, score {overall_score}, talk {talk_ratio}%). Competitors: {competitors}. Give {max_insights} tips.",
+        vars
+      );
+    });
+
+    const expected =
+      "Coach Sam Rep on the 2026-03-04 call with Globex (30 min, score 72, talk 42%). Competitors: Acme. Give 3 tips.";
+    reporter.log({
+      name: "Rendering: placeholders filled from call, caller and analysis",
+      passed: result === expected,
+      expected,
+      actual: result,
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Rendering: unknown placeholders", async () => {
+      return renderInsightPrompt("Use {caller_name} and {not_a_variable} as JSON {}", buildInsightVariables(sampleContext()));
+    });
+
+    reporter.log({
+      name: "Rendering: unknown placeholders are left as written",
+      passed: result === "Use Sam Rep and {not_a_variable} as JSON {}",
+      expected: "Use Sam Rep and {not_a_variable} as JSON {}",
+      actual: result,
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Rendering: missing analysis", async () => {
+      const vars = buildInsightVariables({ ...sampleContext(), caller: null, analysis: null });
+      return { caller: vars.caller_name, score: vars.overall_score, strengths: vars.strengths };
+    });
+
+    reporter.log({
+      name: "Rendering: fallbacks when caller or analysis are missing",
+      passed: result.caller === "the rep" && result.score === "" && result.strengths === "none",
+      expected: "the rep / '' / none",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "medium",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Rendering: format instructions", async () => {
+      const transcript = "x".repeat(70000);
+      const { messages } = buildInsightMessages(
+        { prompt_template: "List coaching tips for {caller_name}", output_format: "bullets", max_insights: 4 },
+        sampleContext(),
+        transcript
+      );
+      return { system: messages[0].content, user: messages[1].content };
+    });
+
+    reporter.log({
+      name: "Rendering: output format and max_insights go in the system prompt",
+      passed:
+        result.system.includes("at most 4 bullet points") &&
+        result.user.startsWith("List coaching tips for Sam Rep") &&
+        result.user.includes("[transcript truncated]"),
+      expected: "bullet instructions, rendered prompt, truncated transcript",
+      actual: result.system.split("\n").pop() || "",
+      duration,
+      severity: "high",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 2: OUTPUT PARSING
+  // =========================================================================
+  reporter.setCategory("Output Parsing");
+
+  {
+    const { result, duration } = await measureTest("Parsing: bullets", async () => {
+      return parseInsightOutput("Here you go:\n- One\n* Two\n- Three\n- Four", "bullets", 3).items;
+    });
+
+    reporter.log({
+      name: "Parsing: bullet items extracted and capped at max_insights",
+      passed: JSON.stringify(result) === JSON.stringify(["One", "Two", "Three"]),
+      expected: '["One","Two","Three"]',
+      actual: JSON.stringify(result),
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Parsing: numbered", async () => {
+      return parseInsightOutput("1. First\n2) Second", "numbered", 5).items;
+    });
+
+    reporter.log({
+      name: "Parsing: numbered items extracted",
+      passed: JSON.stringify(result) === JSON.stringify(["First", "Second"]),
+      expected: '["First","Second"]',
+      actual: JSON.stringify(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Parsing: JSON", async () => {
+      const fenced = parseInsightOutput(
+        '```json\n{"insights": [{"title": "A", "detail": "a"}, {"title": "B", "detail": "b"}]}\n```',
+        "json",
+        1
+      );
+      const bare = parseInsightOutput('[{"title": "C"}, "D"]', "json", 5);
+      return { fenced: fenced.items, bare: bare.items };
+    });
+
+    reporter.log({
+      name: "Parsing: JSON object or array, code fences stripped",
+      passed:
+        result.fenced.length === 1 &&
+        (result.fenced[0] as { title: string }).title === "A" &&
+        result.bare.length === 2 &&
+        result.bare[1] === "D",
+      expected: "1 fenced item, 2 bare items",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Parsing: invalid output", async () => {
+      const errors: string[] = [];
+      for (const [raw, format] of [
+        ["not json", "json"],
+        ['{"tips": []}', "json"],
+        ["   ", "text"],
+      ] as const) {
+        try {
+          parseInsightOutput(raw, format);
+        } catch (error) {
+          if (error instanceof InsightOutputError) errors.push(error.message);
+        }
+      }
+      return errors;
+    });
+
+    reporter.log({
+      name: "Parsing: invalid JSON, missing insights array and empty output rejected",
+      passed: result.length === 3,
+      expected: "3 InsightOutputErrors",
+      actual: result.join(" | "),
+      duration,
+      severity: "high",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 3: PROVIDER ROUND TRIP
+  // =========================================================================
+  reporter.setCategory("Provider Round Trip");
+
+  {
+    const { result, duration } = await measureTest("Round trip: fixture provider", async () => {
+      const provider = new FixtureProvider({
+        fixtures: [
+          {
+            match: "Risks on the Globex deal",
+            response: { insights: [{ title: "Budget", detail: "Budget not confirmed", importance: "high" }] },
+          },
+        ],
+      });
+      const template = {
+        prompt_template: "Risks on the {customer_company} deal",
+        output_format: "json" as const,
+        max_insights: 3,
+      };
+      const { messages } = buildInsightMessages(template, sampleContext(), "Rep: hi");
+      const response = await provider.complete({ model: "fixture-v1", messages, jsonMode: true });
+      return parseInsightOutput(response.content, template.output_format, template.max_insights).items;
+    });
+
+    reporter.log({
+      name: "Round trip: rendered prompt reaches the provider and output is parsed",
+      passed: result.length === 1 && (result[0] as { title: string }).title === "Budget",
+      expected: "1 insight titled Budget",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  // =========================================================================
+  // PRINT SUMMARY
+  // =========================================================================
+  reporter.printSummary();
+
+  const exitCode = reporter.getExitCode();
+  if (exitCode !== 0) {
+    console.log("\n⚠️  Some tests failed. Review issues above.");
+  } else {
+    console.log("\n✅ All insight runner tests passed!");
+  }
+
+  process.exit(exitCode);
+}
+
+// Run the tests
+runInsightRunnerTests().catch((error) => {
+  console.error("Test suite crashed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,411 @@
+/**
+ * LLM Provider Tests
+ *
+ * Runs without any API key. Verifies:
+ * - Fixture provider determinism and synthetic analysis shape
+ * - Provider resolution from org settings
+ * - Anthropic and OpenAI-compatible request/response mapping against a
+ *   local stand-in server
+ * - Error mapping (status codes, retryable flag)
+ *
+ * Run: npx tsx tests/ai/llm-provider-tests.ts
+ */
+
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { TestReporter, measureTest } from "../config";
+import {
+  AnthropicProvider,
+  FixtureProvider,
+  FIXTURE_MODEL,
+  LLMProviderError,
+  OpenAIProvider,
+  resolveLLMProvider,
+  type LLMMessage,
+} from "../../src/lib/llm";
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+const scorecardPrompt = `You are an expert sales call analyst.
+
+## Scorecard Criteria to Evaluate:
+- Opening (opening): Rapport and agenda
+    Score: 0 to 10
+    Weight: 40%
+    Scoring Guide: 1-3 poor, 4-7 ok, 8-10 great
+
+- Discovery (discovery): Needs analysis
+    Score: 0 to 5
+    Weight: 60%
+    Scoring Guide: 1-5`;
+
+const messages: LLMMessage[] = [
+  { role: "system", content: scorecardPrompt },
+  { role: "user", content: "## Call Notes/Transcription:\nRep: Hi, how are you? Prospect: Fine." },
+];
+
+interface RecordedRequest {
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: Record<string, unknown>;
+}
+
+/**
+ * Start a local HTTP server that records requests and replies with the
+ * given status and JSON body.
+ */
+async function startStubServer(
+  reply: (req: RecordedRequest) => { status: number; body: unknown }
+): Promise<{ url: string; requests: RecordedRequest[]; close: () => Promise<void> }> {
+  const requests: RecordedRequest[] = [];
+
+  const server = http.createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      const recorded: RecordedRequest = {
+        path: req.url || "",
+        headers: req.headers,
+        body: raw ? JSON.parse(raw) : {},
+      };
+      requests.push(recorded);
+      const { status, body } = reply(recorded);
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+async function captureError(fn: () => Promise<unknown>): Promise<LLMProviderError | null> {
+  try {
+    await fn();
+    return null;
+  } catch (error) {
+    return error instanceof LLMProviderError ? error : null;
+  }
+}
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+async function runLLMProviderTests(): Promise<void> {
+  const reporter = new TestReporter();
+
+  console.log("\n" + "=".repeat(60));
+  console.log("LLM PROVIDER TESTS");
+  console.log("=".repeat(60));
+
+  // =========================================================================
+  // SECTION 1: FIXTURE PROVIDER
+  // =========================================================================
+  reporter.setCategory("Fixture Provider");
+
+  {
+    const { result, duration } = await measureTest("Fixture: deterministic", async () => {
+      const provider = new FixtureProvider();
+      const first = await provider.complete({ model: "any", messages, jsonMode: true });
+      const second = await provider.complete({ model: "any", messages, jsonMode: true });
+      return first.content === second.content && first.usage.total === second.usage.total;
+    });
+
+    reporter.log({
+      name: "Fixture: same request yields identical content and usage",
+      passed: result,
+      expected: "Identical responses",
+      actual: result ? "Identical" : "Responses differ",
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Fixture: synthetic analysis", async () => {
+      const provider = new FixtureProvider();
+      const response = await provider.complete({ model: "any", messages, jsonMode: true });
+      const parsed = JSON.parse(response.content);
+      const opening = parsed.criteriaScores?.opening;
+      const discovery = parsed.criteriaScores?.discovery;
+
+      return {
+        ok:
+          response.model === FIXTURE_MODEL &&
+          opening?.max_score === 10 &&
+          opening?.weight === 40 &&
+          discovery?.max_score === 5 &&
+          discovery?.score >= 3 &&
+          discovery?.score <= 4.75 &&
+          parsed.gradingResults.length === 2 &&
+          parsed.overallScore >= 60 &&
+          parsed.overallScore <= 95,
+        keys: Object.keys(parsed.criteriaScores || {}).join(","),
+      };
+    });
+
+    reporter.log({
+      name: "Fixture: builds criteriaScores from prompt criteria",
+      passed: result.ok,
+      expected: "opening,discovery with max_score/weight from prompt",
+      actual: result.keys,
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Fixture: registered fixture", async () => {
+      const provider = new FixtureProvider({
+        fixtures: [{ match: /how are you/, response: { overallScore: 42 } }],
+      });
+      const response = await provider.complete({ model: "any", messages, jsonMode: true });
+      return JSON.parse(response.content).overallScore;
+    });
+
+    reporter.log({
+      name: "Fixture: matching fixture overrides synthetic response",
+      passed: result === 42,
+      expected: "42",
+      actual: String(result),
+      duration,
+      severity: "medium",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 2: PROVIDER RESOLUTION
+  // =========================================================================
+  reporter.setCategory("Provider Resolution");
+
+  {
+    const { result, duration } = await measureTest("Resolve: legacy settings", async () => {
+      const resolved = resolveLLMProvider({ model: "gpt-4o-mini", temperature: 0.3 });
+      return `${resolved.provider.name}:${resolved.model}`;
+    });
+
+    reporter.log({
+      name: "Resolve: settings without provider default to OpenAI",
+      passed: result === "openai:gpt-4o-mini",
+      expected: "openai:gpt-4o-mini",
+      actual: result,
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Resolve: local without base URL", async () => {
+      const previous = process.env.LOCAL_LLM_BASE_URL;
+      delete process.env.LOCAL_LLM_BASE_URL;
+      const error = await captureError(async () => resolveLLMProvider({ provider: "local" }));
+      if (previous !== undefined) process.env.LOCAL_LLM_BASE_URL = previous;
+      return error?.provider === "local";
+    });
+
+    reporter.log({
+      name: "Resolve: local provider requires LOCAL_LLM_BASE_URL",
+      passed: result,
+      expected: "LLMProviderError",
+      actual: result ? "Rejected" : "Accepted",
+      duration,
+      severity: "medium",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Resolve: fixture in production", async () => {
+      const env = process.env as Record<string, string | undefined>;
+      const previous = env.NODE_ENV;
+      env.NODE_ENV = "production";
+      const error = await captureError(async () => resolveLLMProvider({ provider: "fixture" }));
+      env.NODE_ENV = previous;
+      return error !== null;
+    });
+
+    reporter.log({
+      name: "Resolve: fixture provider is blocked in production",
+      passed: result,
+      expected: "LLMProviderError",
+      actual: result ? "Blocked" : "Allowed",
+      duration,
+      severity: "high",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 3: ANTHROPIC PROVIDER
+  // =========================================================================
+  reporter.setCategory("Anthropic Provider");
+
+  {
+    const stub = await startStubServer(() => ({
+      status: 200,
+      body: {
+        model: "claude-test",
+        content: [{ type: "text", text: '```json\n{"overallScore": 81}\n```' }],
+        stop_reason: "end_turn",
+        usage: { input_tokens: 120, output_tokens: 30 },
+      },
+    }));
+
+    const { result, duration } = await measureTest("Anthropic: request mapping", async () => {
+      const provider = new AnthropicProvider({ apiKey: "test-key", baseURL: stub.url });
+      const response = await provider.complete({
+        model: "claude-test",
+        messages,
+        jsonMode: true,
+        temperature: 0.2,
+      });
+      const sent = stub.requests[0];
+      const sentMessages = sent.body.messages as LLMMessage[];
+
+      return {
+        ok:
+          sent.path === "/messages" &&
+          sent.headers["x-api-key"] === "test-key" &&
+          typeof sent.body.system === "string" &&
+          (sent.body.system as string).includes("Scorecard Criteria") &&
+          sentMessages.every((m) => m.role !== "system") &&
+          sent.body.max_tokens === 4096 &&
+          JSON.parse(response.content).overallScore === 81 &&
+          response.usage.total === 150,
+        content: response.content,
+      };
+    });
+    await stub.close();
+
+    reporter.log({
+      name: "Anthropic: system prompt, JSON extraction and usage mapped",
+      passed: result.ok,
+      expected: '{"overallScore": 81} with 150 tokens',
+      actual: result.content,
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const stub = await startStubServer(() => ({
+      status: 529,
+      body: { type: "error", error: { type: "overloaded_error", message: "Overloaded" } },
+    }));
+
+    const { result, duration } = await measureTest("Anthropic: overload error", async () => {
+      const provider = new AnthropicProvider({ apiKey: "test-key", baseURL: stub.url });
+      return captureError(() => provider.complete({ model: "claude-test", messages }));
+    });
+    await stub.close();
+
+    reporter.log({
+      name: "Anthropic: 529 maps to retryable LLMProviderError",
+      passed: result?.statusCode === 529 && result.retryable && result.message === "Overloaded",
+      expected: "529, retryable, Overloaded",
+      actual: result ? `${result.statusCode}, ${result.retryable}, ${result.message}` : "No error",
+      duration,
+      severity: "high",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 4: OPENAI-COMPATIBLE LOCAL ENDPOINT
+  // =========================================================================
+  reporter.setCategory("OpenAI-Compatible Endpoint");
+
+  {
+    const stub = await startStubServer(() => ({
+      status: 200,
+      body: {
+        id: "chatcmpl-1",
+        object: "chat.completion",
+        created: 0,
+        model: "llama3.1",
+        choices: [
+          {
+            index: 0,
+            message: { role: "assistant", content: '{"overallScore": 64}' },
+            finish_reason: "stop",
+          },
+        ],
+        usage: { prompt_tokens: 90, completion_tokens: 10, total_tokens: 100 },
+      },
+    }));
+
+    const { result, duration } = await measureTest("Local: request mapping", async () => {
+      const provider = new OpenAIProvider({ name: "local", baseURL: stub.url, apiKey: "not-needed" });
+      const response = await provider.complete({ model: "llama3.1", messages, jsonMode: true });
+      const sent = stub.requests[0];
+
+      return {
+        ok:
+          sent.path === "/chat/completions" &&
+          (sent.body.response_format as { type?: string })?.type === "json_object" &&
+          response.model === "llama3.1" &&
+          response.usage.total === 100 &&
+          JSON.parse(response.content).overallScore === 64,
+        path: sent.path,
+      };
+    });
+    await stub.close();
+
+    reporter.log({
+      name: "Local: chat completion sent to configured base URL",
+      passed: result.ok,
+      expected: "/chat/completions with json_object",
+      actual: result.path,
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const stub = await startStubServer(() => ({
+      status: 401,
+      body: { error: { message: "Invalid API key", type: "invalid_request_error" } },
+    }));
+
+    const { result, duration } = await measureTest("Local: auth error", async () => {
+      const provider = new OpenAIProvider({ name: "local", baseURL: stub.url, apiKey: "bad" });
+      return captureError(() => provider.complete({ model: "llama3.1", messages }));
+    });
+    await stub.close();
+
+    reporter.log({
+      name: "Local: 401 maps to non-retryable LLMProviderError",
+      passed: result?.statusCode === 401 && !result.retryable && result.provider === "local",
+      expected: "401, not retryable",
+      actual: result ? `${result.statusCode}, ${result.retryable}` : "No error",
+      duration,
+      severity: "medium",
+    });
+  }
+
+  // =========================================================================
+  // PRINT SUMMARY
+  // =========================================================================
+  reporter.printSummary();
+
+  const exitCode = reporter.getExitCode();
+  if (exitCode !== 0) {
+    console.log("\n⚠️  Some tests failed. Review issues above.");
+  } else {
+    console.log("\n✅ All LLM provider tests passed!");
+  }
+
+  process.exit(exitCode);
+}
+
+// Run the tests
+runLLMProviderTests().catch((error) => {
+  console.error("Test suite crashed:", error);
+  process.exit(1);
+});
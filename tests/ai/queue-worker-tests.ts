@@ -0,0 +1,413 @@
+/**
+ * Processing Queue Worker Tests
+ *
+ * Runs the queue worker against a mock Supabase REST API and the fixture
+ * LLM provider, so no database or API key is needed.
+ * Verifies:
+ * - Claimed items are counted by outcome: analyzed, failed or deferred
+ * - An analysis that was counted but never produced is given back
+ * - Items claimed past the deadline are handed back to the queue
+ * - The reaper fails calls whose items used up their attempts and puts
+ *   re-queued calls back to pending
+ *
+ * Run: npx tsx tests/ai/queue-worker-tests.ts
+ */
+
+import http from "http";
+import type { AddressInfo } from "net";
+import { TestReporter, measureTest } from "../config";
+import { processQueue, reapStuckQueueItems } from "../../src/lib/ai-engine";
+import type { ScorecardCriterion } from "../../src/types/database";
+
+// ============================================================================
+// MOCK SUPABASE
+// ============================================================================
+
+interface MockRequest {
+  method: string;
+  /** Table name, or rpc/<function> */
+  path: string;
+  query: URLSearchParams;
+  body: unknown;
+}
+
+/**
+ * Answer a request, or return undefined for the default: reads find
+ * nothing, writes echo their body back with an id, RPCs return null
+ */
+type MockRoute = (request: MockRequest) => unknown;
+
+async function startMockSupabase() {
+  const requests: MockRequest[] = [];
+  let route: MockRoute = () => undefined;
+
+  const server = http.createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      const url = new URL(req.url || "/", "http://localhost");
+      const request: MockRequest = {
+        method: req.method || "GET",
+        path: url.pathname.replace(/^\/rest\/v1\//, ""),
+        query: url.searchParams,
+        body: raw ? JSON.parse(raw) : null,
+      };
+      requests.push(request);
+
+      let value = route(request);
+      if (value === undefined) {
+        if (request.path.startsWith("rpc/")) value = null;
+        else if (request.method === "GET") value = [];
+        else {
+          const rows = Array.isArray(request.body) ? request.body : [request.body];
+          value = rows.map((row, i) => ({ id: `row-${requests.length}-${i}`, ...(row as object) }));
+        }
+      }
+
+      // .single() asks for one object and gets a 406 when there's none
+      if ((req.headers.accept || "").includes("vnd.pgrst.object")) {
+        const row = Array.isArray(value) ? value[0] : value;
+        if (row === undefined || row === null) {
+          res.writeHead(406, { "Content-Type": "application/json" });
+          return res.end(JSON.stringify({ code: "PGRST116", message: "No rows returned" }));
+        }
+        value = row;
+      }
+
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(value));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    setRoute: (next: MockRoute) => {
+      route = next;
+      requests.length = 0;
+    },
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+const ORG_ID = "00000000-0000-4000-8000-00000000000a";
+
+const CRITERIA: ScorecardCriterion[] = [
+  {
+    id: "discovery",
+    name: "Discovery",
+    description: "Asks about needs",
+    weight: 60,
+    max_score: 10,
+    scoring_guide: "10 = thorough discovery",
+    order: 1,
+  },
+  {
+    id: "next_steps",
+    name: "Next Steps",
+    description: "Agrees a next step",
+    weight: 40,
+    max_score: 10,
+    scoring_guide: "10 = clear next step",
+    order: 2,
+  },
+];
+
+function queueItem(id: string, jobType: "analysis" | "transcription" = "analysis") {
+  return { id, org_id: ORG_ID, call_id: `call-${id}`, job_type: jobType, attempts: 0, max_attempts: 3 };
+}
+
+/**
+ * An org on the fixture provider with an active scorecard, whose plan
+ * allows the analysis unless `overLimit`
+ */
+function analysisRoute(
+  items: ReturnType<typeof queueItem>[],
+  options: { overLimit?: boolean; provider?: string } = {}
+): MockRoute {
+  const callOf = (item: ReturnType<typeof queueItem>) => ({
+    id: item.call_id,
+    org_id: ORG_ID,
+    caller_id: null,
+    raw_notes: "Rep: What are you using today? Customer: Spreadsheets. Rep: Demo Tuesday?",
+    metadata: null,
+  });
+
+  return ({ method, path, query }) => {
+    if (path === "rpc/claim_processing_queue_items") return items;
+
+    if (path === "processing_queue" && method === "GET") {
+      const item = items.find((i) => query.get("id") === `eq.${i.id}`);
+      return item ? [{ ...item, call: callOf(item) }] : [];
+    }
+
+    if (path === "calls" && method === "GET") {
+      const item = items.find((i) => query.get("id") === `eq.${i.call_id}`);
+      return item ? [callOf(item)] : [];
+    }
+
+    if (path === "organizations" && method === "GET") {
+      return [
+        { settings_json: { ai: { provider: options.provider || "fixture" } }, plan: "professional", plan_limits: null },
+      ];
+    }
+
+    if (path === "scorecards" && method === "GET") {
+      return [{ id: "scorecard-1", version: 1, criteria: CRITERIA }];
+    }
+
+    if (path === "rpc/consume_usage") {
+      return options.overLimit
+        ? { allowed: false, used: 100, period_start: "2026-10-01" }
+        : { allowed: true, used: 1, period_start: "2026-10-01" };
+    }
+
+    return undefined;
+  };
+}
+
+function queueUpdates(requests: MockRequest[]) {
+  return requests
+    .filter((r) => r.method === "PATCH" && r.path === "processing_queue")
+    .map((r) => ({ id: r.query.get("id"), lockedBy: r.query.get("locked_by"), ...(r.body as object) }));
+}
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+async function runQueueWorkerTests(): Promise<void> {
+  const reporter = new TestReporter();
+
+  console.log("\n" + "=".repeat(60));
+  console.log("PROCESSING QUEUE WORKER TESTS");
+  console.log("=".repeat(60));
+
+  const supabase = await startMockSupabase();
+  process.env.NEXT_PUBLIC_SUPABASE_URL = supabase.url;
+
+  try {
+    // =======================================================================
+    // SECTION 1: CLAIM OUTCOMES
+    // =======================================================================
+    reporter.setCategory("Claim Outcomes");
+
+    {
+      const { result, duration } = await measureTest("Outcomes: analyzed", async () => {
+        supabase.setRoute(analysisRoute([queueItem("q1")]));
+        const counts = await processQueue({ workerId: "worker-1", maxItems: 5, maxPerOrg: 2 });
+        const claim = supabase.requests.find((r) => r.path === "rpc/claim_processing_queue_items");
+        return { counts, claim: claim?.body, updates: queueUpdates(supabase.requests) };
+      });
+
+      const completed = result.updates.find((u) => "status" in u && u.status === "completed");
+      reporter.log({
+        name: "Outcomes: an analyzed call counts as processed and its item is completed and unlocked",
+        passed:
+          result.counts.claimed === 1 &&
+          result.counts.processed === 1 &&
+          result.counts.failed === 0 &&
+          JSON.stringify(result.claim) ===
+            JSON.stringify({ p_worker_id: "worker-1", p_max_items: 5, p_max_per_org: 2 }) &&
+          !!completed &&
+          "locked_by" in completed &&
+          completed.locked_by === null,
+        expected: "claimed 1, processed 1, completed with locked_by null",
+        actual: JSON.stringify(result),
+        duration,
+        severity: "blocker",
+      });
+    }
+
+    {
+      const { result, duration } = await measureTest("Outcomes: deferred and failed", async () => {
+        // q-gone was deleted after it was claimed, so it can't be loaded
+        const items = [queueItem("q1"), queueItem("q-gone")];
+        const route = analysisRoute([queueItem("q1")], { overLimit: true });
+        supabase.setRoute((request) =>
+          request.path === "rpc/claim_processing_queue_items" ? items : route(request)
+        );
+
+        const counts = await processQueue({ workerId: "worker-1" });
+        return { counts, updates: queueUpdates(supabase.requests) };
+      });
+
+      const deferral = result.updates.find((u) => u.id === "eq.q1" && "scheduled_at" in u);
+      reporter.log({
+        name: "Outcomes: plan-limited calls are deferred without an attempt; unloadable items fail",
+        passed:
+          result.counts.claimed === 2 &&
+          result.counts.processed === 0 &&
+          result.counts.deferred === 1 &&
+          result.counts.failed === 1 &&
+          !!deferral &&
+          "status" in deferral &&
+          deferral.status === "queued" &&
+          !("attempts" in deferral),
+        expected: "deferred 1 (re-queued, attempts untouched), failed 1",
+        actual: JSON.stringify(result),
+        duration,
+        severity: "critical",
+      });
+    }
+
+    {
+      const { result, duration } = await measureTest("Outcomes: provider error", async () => {
+        // OpenAI without a key fails at the provider call, after metering
+        delete process.env.OPENAI_API_KEY;
+        supabase.setRoute(analysisRoute([queueItem("q1")], { provider: "openai" }));
+        const counts = await processQueue({ workerId: "worker-1" });
+        const metered = supabase.requests
+          .filter((r) => r.path === "rpc/consume_usage")
+          .map((r) => r.body as { p_metric: string; p_amount: number })
+          .map((b) => `${b.p_metric}:${b.p_amount}`);
+        return { counts, metered };
+      });
+
+      reporter.log({
+        name: "Outcomes: a provider error fails the item and gives the counted analysis back",
+        passed:
+          result.counts.failed === 1 &&
+          JSON.stringify(result.metered) === JSON.stringify(["ai_analyses_count:1", "ai_analyses_count:-1"]),
+        expected: "failed 1, ai_analyses_count consumed then released",
+        actual: JSON.stringify(result),
+        duration,
+        severity: "critical",
+      });
+    }
+
+    // =======================================================================
+    // SECTION 2: DEADLINE
+    // =======================================================================
+    reporter.setCategory("Deadline");
+
+    {
+      const { result, duration } = await measureTest("Deadline: release", async () => {
+        supabase.setRoute(analysisRoute([queueItem("q1"), queueItem("q2", "transcription")]));
+        const counts = await processQueue({ workerId: "worker-1", deadline: Date.now() - 1 });
+        return {
+          counts,
+          updates: queueUpdates(supabase.requests),
+          loaded: supabase.requests.some((r) => r.method === "GET" && r.path === "processing_queue"),
+        };
+      });
+
+      reporter.log({
+        name: "Deadline: items claimed after the deadline go back to the queue, still held by this worker only",
+        passed:
+          result.counts.claimed === 2 &&
+          result.counts.released === 2 &&
+          result.counts.processed + result.counts.failed === 0 &&
+          !result.loaded &&
+          result.updates.length === 2 &&
+          result.updates.every(
+            (u) =>
+              u.lockedBy === "eq.worker-1" &&
+              "status" in u &&
+              u.status === "queued" &&
+              "locked_by" in u &&
+              u.locked_by === null &&
+              "started_at" in u &&
+              u.started_at === null
+          ),
+        expected: "released 2, each re-queued where locked_by = worker-1",
+        actual: JSON.stringify(result),
+        duration,
+        severity: "critical",
+      });
+    }
+
+    // =======================================================================
+    // SECTION 3: REAPER
+    // =======================================================================
+    reporter.setCategory("Reaper");
+
+    {
+      const { result, duration } = await measureTest("Reaper: failed and re-queued", async () => {
+        supabase.setRoute(({ method, path, query }) => {
+          if (path === "rpc/reap_stuck_processing_queue_items") {
+            return [
+              { id: "q-out", call_id: "call-out", status: "failed" },
+              { id: "q-retry", call_id: "call-retry", status: "queued" },
+            ];
+          }
+          if (path === "calls" && method === "PATCH" && query.get("id") === "in.(call-out)") {
+            return [{ id: "call-out", org_id: ORG_ID }];
+          }
+          return undefined;
+        });
+
+        const counts = await reapStuckQueueItems(600);
+        const calls = supabase.requests
+          .filter((r) => r.method === "PATCH" && r.path === "calls")
+          .map((r) => ({ ids: r.query.get("id"), ...(r.body as { status: string }) }));
+        const reap = supabase.requests.find((r) => r.path === "rpc/reap_stuck_processing_queue_items");
+        const webhookLookups = supabase.requests.filter(
+          (r) => r.path === "webhook_subscriptions" && r.query.get("org_id") === `eq.${ORG_ID}`
+        ).length;
+        return { counts, calls, reap: reap?.body, webhookLookups };
+      });
+
+      reporter.log({
+        name: "Reaper: calls out of attempts fail (with call.failed), the rest go back to pending",
+        passed:
+          result.counts.failed === 1 &&
+          result.counts.requeued === 1 &&
+          JSON.stringify(result.reap) === JSON.stringify({ p_stale_after_seconds: 600 }) &&
+          result.calls.some((c) => c.ids === "in.(call-out)" && c.status === "failed") &&
+          result.calls.some((c) => c.ids === "in.(call-retry)" && c.status === "pending") &&
+          result.webhookLookups === 1,
+        expected: "failed 1, requeued 1, call-out failed, call-retry pending, one call.failed emitted",
+        actual: JSON.stringify(result),
+        duration,
+        severity: "critical",
+      });
+    }
+
+    {
+      const { result, duration } = await measureTest("Reaper: nothing stuck", async () => {
+        supabase.setRoute(({ path }) => (path === "rpc/reap_stuck_processing_queue_items" ? [] : undefined));
+        const counts = await reapStuckQueueItems();
+        return { counts, writes: supabase.requests.filter((r) => r.method !== "POST").length };
+      });
+
+      reporter.log({
+        name: "Reaper: with nothing stuck no calls are touched",
+        passed: result.counts.failed === 0 && result.counts.requeued === 0 && result.writes === 0,
+        expected: "0, 0, no call updates",
+        actual: JSON.stringify(result),
+        duration,
+        severity: "medium",
+      });
+    }
+  } finally {
+    await supabase.close();
+  }
+
+  // =========================================================================
+  // PRINT SUMMARY
+  // =========================================================================
+  reporter.printSummary();
+
+  const exitCode = reporter.getExitCode();
+  if (exitCode !== 0) {
+    console.log("\n⚠️  Some tests failed. Review issues above.");
+  } else {
+    console.log("\n✅ All queue worker tests passed!");
+  }
+
+  process.exit(exitCode);
+}
+
+// Run the tests
+runQueueWorkerTests().catch((error) => {
+  console.error("Test suite crashed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,320 @@
+/**
+ * Script Adherence Tests
+ *
+ * Tests scoring a transcript against the org's default script:
+ * - Parsing timestamped and speaker-labeled transcript lines
+ * - Verbatim, paraphrased and missing sections
+ * - Section order detection
+ * - Restricting matches to the rep's lines
+ *
+ * Run: npx tsx tests/ai/script-adherence-tests.ts
+ */
+
+import { TestReporter, measureTest } from "../config";
+import {
+  SECTION_COVERED_THRESHOLD,
+  computeScriptAdherence,
+  describeScript,
+  getSectionPhrases,
+  parseTranscriptLines,
+  scorePhrase,
+} from "../../src/lib/script-adherence";
+import type { ScriptSection } from "../../src/types/database";
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+const sections: ScriptSection[] = [
+  {
+    id: "intro",
+    name: "Introduction",
+    content: "Hi, this is Sam calling from Northwind Analytics. Is now still a good time to talk?",
+    order: 1,
+  },
+  {
+    id: "discovery",
+    name: "Discovery",
+    content: "How does your team currently track pipeline forecasts? What happens when a forecast is missed?",
+    order: 2,
+  },
+  {
+    id: "pricing",
+    name: "Pricing",
+    content: "Our standard plan starts at forty dollars per seat per month, billed annually.",
+    order: 3,
+  },
+  {
+    id: "close",
+    name: "Next Steps",
+    content: "Can we book a thirty minute demo with your sales operations lead next week?",
+    order: 4,
+  },
+];
+
+const inOrderTranscript = [
+  "[00:00:01] Sam Rep: Hi, this is Sam calling from Northwind Analytics. Is now still a good time to talk?",
+  "[00:00:06] Pat Prospect: Sure, I have a few minutes.",
+  "[00:00:09] Sam Rep: Great. How does your team currently track pipeline forecasts today?",
+  "[00:00:15] Pat Prospect: Mostly spreadsheets, honestly.",
+  "[00:00:20] Sam Rep: And what happens when a forecast is missed?",
+  "[00:00:26] Pat Prospect: We scramble at quarter end.",
+  "[00:00:40] Sam Rep: Can we book a thirty minute demo with your sales operations lead next week?",
+].join("\n");
+
+// Next steps asked before discovery; pricing never mentioned
+const outOfOrderTranscript = [
+  "Sam Rep: Hi, this is Sam calling from Northwind Analytics. Is now still a good time to talk?",
+  "Sam Rep: Can we book a thirty minute demo with your sales operations lead next week?",
+  "Pat Prospect: Maybe, what is this about?",
+  "Sam Rep: How does your team currently track pipeline forecasts? What happens when a forecast is missed?",
+].join("\n");
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+async function runScriptAdherenceTests(): Promise<void> {
+  const reporter = new TestReporter();
+
+  console.log("\n" + "=".repeat(60));
+  console.log("SCRIPT ADHERENCE TESTS");
+  console.log("=".repeat(60));
+
+  // =========================================================================
+  // SECTION 1: PARSING
+  // =========================================================================
+  reporter.setCategory("Parsing");
+
+  {
+    const { result, duration } = await measureTest("Parsing: transcript lines", async () => {
+      return parseTranscriptLines("[00:00:01] Sam Rep: Hello there\nSpeaker A: Hi\n\njust notes, no label");
+    });
+
+    reporter.log({
+      name: "Parsing: timestamps and speaker labels peeled off",
+      passed:
+        result.length === 3 &&
+        result[0].speaker === "Sam Rep" &&
+        result[0].text === "Hello there" &&
+        result[1].speaker === "Speaker A" &&
+        result[2].speaker === null,
+      expected: "Sam Rep / Speaker A / unlabeled",
+      actual: result.map((l) => `${l.speaker}: ${l.text}`).join(" | "),
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Parsing: key phrases", async () => {
+      return getSectionPhrases({ content: "Ask about budget. Confirm timeline! Ok." });
+    });
+
+    reporter.log({
+      name: "Parsing: sections split into sentences, filler dropped",
+      passed: JSON.stringify(result) === JSON.stringify(["Ask about budget.", "Confirm timeline!"]),
+      expected: '["Ask about budget.","Confirm timeline!"]',
+      actual: JSON.stringify(result),
+      duration,
+      severity: "medium",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 2: PHRASE MATCHING
+  // =========================================================================
+  reporter.setCategory("Phrase Matching");
+
+  {
+    const { result, duration } = await measureTest("Matching: verbatim vs paraphrase", async () => {
+      const phrase = "Our standard plan starts at forty dollars per seat per month";
+      return {
+        verbatim: scorePhrase(phrase, "So, our standard plan starts at forty dollars per seat per month."),
+        paraphrase: scorePhrase(phrase, "Pricing is about forty dollars a month for each seat on the standard plan."),
+        unrelated: scorePhrase(phrase, "We scramble at quarter end."),
+      };
+    });
+
+    reporter.log({
+      name: "Matching: verbatim > paraphrase > unrelated",
+      passed:
+        result.verbatim === 1 &&
+        result.paraphrase > 0.3 &&
+        result.paraphrase < result.verbatim &&
+        result.unrelated === 0,
+      expected: "1 > paraphrase > 0",
+      actual: `${result.verbatim.toFixed(2)} / ${result.paraphrase.toFixed(2)} / ${result.unrelated.toFixed(2)}`,
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 3: SECTION SCORING
+  // =========================================================================
+  reporter.setCategory("Section Scoring");
+
+  const inOrder = computeScriptAdherence(sections, inOrderTranscript, { repName: "Sam Rep" });
+
+  {
+    const { result, duration } = await measureTest("Scoring: coverage", async () => {
+      return inOrder?.sections.map((s) => `${s.section_id}:${s.covered ? "covered" : "missed"}:${s.score}`);
+    });
+
+    const covered = inOrder?.sections.filter((s) => s.covered).map((s) => s.section_id);
+    reporter.log({
+      name: "Scoring: covered and missed sections detected",
+      passed:
+        JSON.stringify(covered) === JSON.stringify(["intro", "discovery", "close"]) &&
+        inOrder?.sections_covered === 3 &&
+        inOrder.sections_total === 4,
+      expected: "intro, discovery, close covered; pricing missed",
+      actual: result?.join(", ") || "null",
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Scoring: excerpts", async () => {
+      return inOrder?.sections.find((s) => s.section_id === "discovery");
+    });
+
+    reporter.log({
+      name: "Scoring: phrases split across lines each get an excerpt",
+      passed:
+        result?.phrases_matched === 2 &&
+        result.excerpts[0].excerpt.includes("track pipeline forecasts") &&
+        result.excerpts[1].excerpt.includes("forecast is missed"),
+      expected: "2 excerpts from separate lines",
+      actual: JSON.stringify(result?.excerpts.map((e) => e.excerpt)),
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Scoring: in order", async () => {
+      return {
+        order: inOrder?.order_score,
+        flags: inOrder?.sections.map((s) => s.in_order),
+        overall: inOrder?.overall_score,
+        coverage: inOrder?.coverage_score,
+      };
+    });
+
+    reporter.log({
+      name: "Scoring: sections delivered in script order",
+      passed:
+        result.order === 100 &&
+        JSON.stringify(result.flags) === JSON.stringify([true, true, null, true]) &&
+        result.overall !== undefined &&
+        result.coverage !== undefined &&
+        result.overall > result.coverage,
+      expected: "order 100, pricing not judged",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Scoring: out of order", async () => {
+      const adherence = computeScriptAdherence(sections, outOfOrderTranscript);
+      return {
+        flags: adherence?.sections.map((s) => s.in_order),
+        order: adherence?.order_score,
+      };
+    });
+
+    reporter.log({
+      name: "Scoring: section delivered early is flagged out of order",
+      passed:
+        JSON.stringify(result.flags) === JSON.stringify([true, true, null, false]) &&
+        result.order === 67,
+      expected: "close out of order, order 67",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Scoring: rep lines only", async () => {
+      const transcript = [
+        "Sam Rep: Thanks for taking the call.",
+        "Pat Prospect: Our standard plan starts at forty dollars per seat per month, billed annually.",
+      ].join("\n");
+      const repOnly = computeScriptAdherence(sections, transcript, { repName: "sam rep" });
+      const everyone = computeScriptAdherence(sections, transcript);
+      const pricing = (r: typeof repOnly) => r?.sections.find((s) => s.section_id === "pricing")?.covered;
+      return { repOnly: pricing(repOnly), everyone: pricing(everyone) };
+    });
+
+    reporter.log({
+      name: "Scoring: prospect's lines don't count when the rep is known",
+      passed: result.repOnly === false && result.everyone === true,
+      expected: "rep-only: missed, all speakers: covered",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Scoring: nothing to compare", async () => {
+      return {
+        noSections: computeScriptAdherence([], inOrderTranscript),
+        noText: computeScriptAdherence(sections, "  \n "),
+      };
+    });
+
+    reporter.log({
+      name: "Scoring: null without sections or transcript text",
+      passed: result.noSections === null && result.noText === null,
+      expected: "null / null",
+      actual: `${result.noSections} / ${result.noText}`,
+      duration,
+      severity: "medium",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Prompt: script description", async () => {
+      return describeScript("Outbound v2", [...sections].reverse());
+    });
+
+    reporter.log({
+      name: "Prompt: sections listed in script order for the analysis",
+      passed:
+        result.includes("## Call Script (Outbound v2)") &&
+        result.indexOf("1. Introduction") < result.indexOf("4. Next Steps") &&
+        SECTION_COVERED_THRESHOLD === 50,
+      expected: "Introduction listed first",
+      actual: result.split("\n").slice(0, 3).join(" | "),
+      duration,
+      severity: "medium",
+    });
+  }
+
+  // =========================================================================
+  // PRINT SUMMARY
+  // =========================================================================
+  reporter.printSummary();
+
+  const exitCode = reporter.getExitCode();
+  if (exitCode !== 0) {
+    console.log("\n⚠️  Some tests failed. Review issues above.");
+  } else {
+    console.log("\n✅ All script adherence tests passed!");
+  }
+
+  process.exit(exitCode);
+}
+
+// Run the tests
+runScriptAdherenceTests().catch((error) => {
+  console.error("Test suite crashed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,212 @@
+/**
+ * Audio Transcription Tests
+ *
+ * Tests the parts of the transcription worker that don't call the API:
+ * - Splitting MP3 and WAV recordings under the request size limit
+ * - Rejecting oversized containers that can't be split
+ * - Speaker-labelled transcript formatting
+ *
+ * Run: npx tsx tests/ai/transcription-tests.ts
+ */
+
+import { TestReporter, measureTest } from "../config";
+import {
+  formatSpeakerTranscript,
+  splitAudioForTranscription,
+  TranscriptionError,
+} from "../../src/lib/transcription";
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Build a fake MP3: repeated 418-byte frames starting with a frame sync
+ */
+function buildMp3(frameCount: number): Buffer {
+  const frame = Buffer.alloc(418, 0x11);
+  frame[0] = 0xff;
+  frame[1] = 0xfb;
+  return Buffer.concat(Array.from({ length: frameCount }, () => frame));
+}
+
+/**
+ * Build a 16-bit stereo PCM WAV with the given number of data bytes
+ */
+function buildWav(dataBytes: number): Buffer {
+  const header = Buffer.alloc(44);
+  header.write("RIFF", 0, "ascii");
+  header.writeUInt32LE(36 + dataBytes, 4);
+  header.write("WAVE", 8, "ascii");
+  header.write("fmt ", 12, "ascii");
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(2, 22); // Channels
+  header.writeUInt32LE(16000, 24); // Sample rate
+  header.writeUInt32LE(16000 * 4, 28); // Byte rate
+  header.writeUInt16LE(4, 32); // Block align
+  header.writeUInt16LE(16, 34); // Bits per sample
+  header.write("data", 36, "ascii");
+  header.writeUInt32LE(dataBytes, 40);
+  return Buffer.concat([header, Buffer.alloc(dataBytes, 0x22)]);
+}
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+async function runTranscriptionTests(): Promise<void> {
+  const reporter = new TestReporter();
+
+  console.log("\n" + "=".repeat(60));
+  console.log("AUDIO TRANSCRIPTION TESTS");
+  console.log("=".repeat(60));
+
+  // =========================================================================
+  // SECTION 1: CHUNKING
+  // =========================================================================
+  reporter.setCategory("Chunking");
+
+  {
+    const { result, duration } = await measureTest("Chunking: small file untouched", async () => {
+      const audio = buildMp3(10);
+      const chunks = splitAudioForTranscription(audio, "audio/mpeg", 10000);
+      return chunks.length === 1 && chunks[0] === audio;
+    });
+
+    reporter.log({
+      name: "Chunking: files under the limit are sent as-is",
+      passed: result,
+      expected: "1 chunk",
+      actual: result ? "1 chunk" : "Split",
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Chunking: MP3 frame boundaries", async () => {
+      const audio = buildMp3(200); // 83,600 bytes
+      const maxBytes = 20000;
+      const chunks = splitAudioForTranscription(audio, "audio/mpeg", maxBytes);
+      const total = chunks.reduce((sum, c) => sum + c.length, 0);
+
+      return {
+        ok:
+          chunks.length > 1 &&
+          total === audio.length &&
+          chunks.every((c) => c.length <= maxBytes && c[0] === 0xff && (c[1] & 0xe0) === 0xe0),
+        sizes: chunks.map((c) => c.length).join(", "),
+      };
+    });
+
+    reporter.log({
+      name: "Chunking: MP3 is split on frame syncs under the limit with no bytes lost",
+      passed: result.ok,
+      expected: "Each chunk starts with a frame sync",
+      actual: result.sizes,
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Chunking: WAV headers", async () => {
+      const dataBytes = 50000;
+      const audio = buildWav(dataBytes);
+      const maxBytes = 12000;
+      const chunks = splitAudioForTranscription(audio, "audio/wav", maxBytes);
+      const totalData = chunks.reduce((sum, c) => sum + c.readUInt32LE(40), 0);
+
+      return {
+        ok:
+          chunks.length === 5 &&
+          totalData === dataBytes &&
+          chunks.every(
+            (c) =>
+              c.length <= maxBytes &&
+              c.toString("ascii", 0, 4) === "RIFF" &&
+              c.readUInt32LE(4) === c.length - 8 &&
+              c.readUInt32LE(40) % 4 === 0
+          ),
+        detail: `${chunks.length} chunks, ${totalData} data bytes`,
+      };
+    });
+
+    reporter.log({
+      name: "Chunking: WAV pieces are valid files aligned to sample blocks",
+      passed: result.ok,
+      expected: "5 chunks, 50000 data bytes",
+      actual: result.detail,
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Chunking: unsplittable format", async () => {
+      try {
+        splitAudioForTranscription(Buffer.alloc(5000), "audio/webm", 1000);
+        return "accepted";
+      } catch (error) {
+        return error instanceof TranscriptionError && !error.retryable ? "rejected" : "wrong error";
+      }
+    });
+
+    reporter.log({
+      name: "Chunking: oversized WebM is rejected without retry",
+      passed: result === "rejected",
+      expected: "rejected",
+      actual: result,
+      duration,
+      severity: "high",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 2: TRANSCRIPT FORMATTING
+  // =========================================================================
+  reporter.setCategory("Transcript Formatting");
+
+  {
+    const { result, duration } = await measureTest("Formatting: speaker turns", async () => {
+      return formatSpeakerTranscript([
+        { speaker: "A", start: 0, end: 2, text: "Hi, this is Sam." },
+        { speaker: "A", start: 2, end: 4, text: "Do you have a minute?" },
+        { speaker: "B", start: 4, end: 5, text: "Sure." },
+        { speaker: "A", start: 5, end: 7, text: "Great." },
+      ]);
+    });
+
+    const expected = "Speaker A: Hi, this is Sam. Do you have a minute?\nSpeaker B: Sure.\nSpeaker A: Great.";
+
+    reporter.log({
+      name: "Formatting: consecutive segments merge into one speaker turn",
+      passed: result === expected,
+      expected: JSON.stringify(expected),
+      actual: JSON.stringify(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  // =========================================================================
+  // PRINT SUMMARY
+  // =========================================================================
+  reporter.printSummary();
+
+  const exitCode = reporter.getExitCode();
+  if (exitCode !== 0) {
+    console.log("\n⚠️  Some tests failed. Review issues above.");
+  } else {
+    console.log("\n✅ All transcription tests passed!");
+  }
+
+  process.exit(exitCode);
+}
+
+// Run the tests
+runTranscriptionTests().catch((error) => {
+  console.error("Test suite crashed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,301 @@
+/**
+ * Two-Factor Authentication Tests
+ *
+ * Tests the pieces behind the login challenge:
+ * - TOTP codes against the RFC 6238 reference vector
+ * - Clock-drift window
+ * - Replay of an already-accepted code
+ * - Recovery code normalization and one-time redemption
+ * - Signed "mfa verified" session markers
+ *
+ * Run: npx tsx tests/auth/two-factor-tests.ts
+ */
+
+import { TestReporter, measureTest } from "../config";
+import {
+  generateRecoveryCodes,
+  generateTOTP,
+  generateTOTPSecret,
+  hashRecoveryCode,
+  matchTOTPStep,
+  redeemRecoveryCode,
+  verifyTOTP,
+} from "../../src/lib/totp";
+import { MFA_SESSION_TTL_SECONDS, createMfaToken, verifyMfaToken } from "../../src/lib/mfa-session";
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+// RFC 6238 appendix B secret ("12345678901234567890") in base32
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+const USER_ID = "8b0f3f5e-3c1d-4e0a-9a57-2f1c6d1e4b10";
+const OTHER_USER_ID = "1d7c9a2b-5e4f-4a3b-8c6d-0e9f8a7b6c5d";
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+async function runTwoFactorTests(): Promise<void> {
+  const reporter = new TestReporter();
+
+  process.env.MFA_SESSION_SECRET = process.env.MFA_SESSION_SECRET || "two-factor-test-secret";
+
+  console.log("\n" + "=".repeat(60));
+  console.log("TWO-FACTOR AUTHENTICATION TESTS");
+  console.log("=".repeat(60));
+
+  // =========================================================================
+  // SECTION 1: TOTP
+  // =========================================================================
+  reporter.setCategory("TOTP");
+
+  {
+    const { result, duration } = await measureTest("TOTP: RFC 6238 vector", async () => {
+      return {
+        code: generateTOTP(RFC_SECRET, 1),
+        verified: verifyTOTP("287082", RFC_SECRET, { now: 59_000, window: 0 }),
+      };
+    });
+
+    reporter.log({
+      name: "TOTP: matches the RFC 6238 SHA-1 vector at T=59s",
+      passed: result.code === "287082" && result.verified,
+      expected: "287082, verified",
+      actual: `${result.code}, ${result.verified ? "verified" : "rejected"}`,
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("TOTP: drift window", async () => {
+      const now = 1_700_000_000_000;
+      const step = Math.floor(now / 30_000);
+      return {
+        previous: verifyTOTP(generateTOTP(RFC_SECRET, step - 1), RFC_SECRET, { now }),
+        next: verifyTOTP(generateTOTP(RFC_SECRET, step + 1), RFC_SECRET, { now }),
+        stale: verifyTOTP(generateTOTP(RFC_SECRET, step - 3), RFC_SECRET, { now }),
+      };
+    });
+
+    reporter.log({
+      name: "TOTP: accepts one step of drift and rejects older codes",
+      passed: result.previous && result.next && !result.stale,
+      expected: "previous/next accepted, 3 steps old rejected",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "critical",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("TOTP: replay", async () => {
+      const now = 1_700_000_000_000;
+      const step = Math.floor(now / 30_000);
+      const code = generateTOTP(RFC_SECRET, step);
+      const accepted = matchTOTPStep(code, RFC_SECRET, { now });
+      return {
+        accepted,
+        // Same code, still inside the drift window one step later
+        replayed: matchTOTPStep(code, RFC_SECRET, { now: now + 30_000, after: accepted }),
+        next: matchTOTPStep(generateTOTP(RFC_SECRET, step + 1), RFC_SECRET, { now, after: accepted }),
+        step,
+      };
+    });
+
+    reporter.log({
+      name: "TOTP: a code is refused once its step has been accepted; later steps still pass",
+      passed: result.accepted === result.step && result.replayed === null && result.next === result.step + 1,
+      expected: "accepted at its step, replay refused, next step accepted",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "critical",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("TOTP: malformed input", async () => {
+      return {
+        short: verifyTOTP("12345", RFC_SECRET),
+        letters: verifyTOTP("12a456", RFC_SECRET),
+        noSecret: verifyTOTP("287082", "", { now: 59_000 }),
+      };
+    });
+
+    reporter.log({
+      name: "TOTP: malformed codes and missing secrets never verify",
+      passed: !result.short && !result.letters && !result.noSecret,
+      expected: "all rejected",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("TOTP: generated secrets", async () => {
+      const secret = generateTOTPSecret();
+      return { secret, valid: /^[A-Z2-7]{32}$/.test(secret), unique: secret !== generateTOTPSecret() };
+    });
+
+    reporter.log({
+      name: "TOTP: new secrets are 32 random base32 characters",
+      passed: result.valid && result.unique,
+      expected: "32 base32 chars, unique",
+      actual: result.secret,
+      duration,
+      severity: "high",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 2: RECOVERY CODES
+  // =========================================================================
+  reporter.setCategory("Recovery Codes");
+
+  {
+    const { result, duration } = await measureTest("Recovery: burn on use", async () => {
+      const codes = generateRecoveryCodes();
+      const stored = codes.map(hashRecoveryCode);
+      const remaining = redeemRecoveryCode(codes[3], stored);
+      const reused = remaining ? redeemRecoveryCode(codes[3], remaining) : "not redeemed";
+      return { count: codes.length, remaining: remaining?.length, reused };
+    });
+
+    reporter.log({
+      name: "Recovery: a redeemed code is removed and can't be used again",
+      passed: result.count === 10 && result.remaining === 9 && result.reused === null,
+      expected: "10 codes, 9 left, reuse rejected",
+      actual: `${result.count} codes, ${result.remaining} left, reuse ${result.reused === null ? "rejected" : "accepted"}`,
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Recovery: normalization", async () => {
+      const stored = [hashRecoveryCode("A1B2C3D4")];
+      return {
+        dashed: redeemRecoveryCode("a1b2-c3d4", stored)?.length,
+        spaced: redeemRecoveryCode(" A1B2 C3D4 ", stored)?.length,
+        wrong: redeemRecoveryCode("A1B2C3D5", stored),
+      };
+    });
+
+    reporter.log({
+      name: "Recovery: case, spaces and dashes are ignored",
+      passed: result.dashed === 0 && result.spaced === 0 && result.wrong === null,
+      expected: "formatted variants redeem, wrong code rejected",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "medium",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Recovery: stored as digests", async () => {
+      const code = "A1B2C3D4";
+      const hash = hashRecoveryCode(code);
+      return { hash, plainLeak: hash.includes(code) };
+    });
+
+    reporter.log({
+      name: "Recovery: stored form is a SHA-256 digest, not the code",
+      passed: /^[0-9a-f]{64}$/.test(result.hash) && !result.plainLeak,
+      expected: "64 hex chars",
+      actual: result.hash,
+      duration,
+      severity: "critical",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 3: SESSION MARKER
+  // =========================================================================
+  reporter.setCategory("Session Marker");
+
+  {
+    const { result, duration } = await measureTest("Marker: round trip", async () => {
+      const token = await createMfaToken(USER_ID);
+      return {
+        own: await verifyMfaToken(token, USER_ID),
+        other: await verifyMfaToken(token, OTHER_USER_ID),
+        missing: await verifyMfaToken(undefined, USER_ID),
+      };
+    });
+
+    reporter.log({
+      name: "Marker: valid only for the user it was issued to",
+      passed: result.own && !result.other && !result.missing,
+      expected: "own accepted, other user and missing rejected",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Marker: expiry", async () => {
+      const issuedAt = Date.now();
+      const token = await createMfaToken(USER_ID, issuedAt);
+      return {
+        beforeExpiry: await verifyMfaToken(token, USER_ID, issuedAt + (MFA_SESSION_TTL_SECONDS - 60) * 1000),
+        afterExpiry: await verifyMfaToken(token, USER_ID, issuedAt + (MFA_SESSION_TTL_SECONDS + 1) * 1000),
+      };
+    });
+
+    reporter.log({
+      name: "Marker: expires after the session TTL",
+      passed: result.beforeExpiry && !result.afterExpiry,
+      expected: "valid before TTL, rejected after",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "critical",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Marker: tampering", async () => {
+      const token = await createMfaToken(USER_ID);
+      const [userId, expiresAt, signature] = token.split(".");
+      const extended = `${userId}.${Number(expiresAt) + 86400}.${signature}`;
+      const swapped = `${OTHER_USER_ID}.${expiresAt}.${signature}`;
+      return {
+        extended: await verifyMfaToken(extended, USER_ID),
+        swapped: await verifyMfaToken(swapped, OTHER_USER_ID),
+        garbage: await verifyMfaToken("not-a-token", USER_ID),
+      };
+    });
+
+    reporter.log({
+      name: "Marker: edited expiry or user id invalidates the signature",
+      passed: !result.extended && !result.swapped && !result.garbage,
+      expected: "all rejected",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  // =========================================================================
+  // PRINT SUMMARY
+  // =========================================================================
+  reporter.printSummary();
+
+  const exitCode = reporter.getExitCode();
+  if (exitCode !== 0) {
+    console.log("\n⚠️  Some tests failed. Review issues above.");
+  } else {
+    console.log("\n✅ All two-factor tests passed!");
+  }
+
+  process.exit(exitCode);
+}
+
+// Run the tests
+runTwoFactorTests().catch((error) => {
+  console.error("Test suite crashed:", error);
+  process.exit(1);
+});
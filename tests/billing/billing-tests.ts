@@ -0,0 +1,483 @@
+/**
+ * Billing Tests
+ *
+ * Tests the billing provider layer and the engine's pure rules:
+ * - Webhook signatures: valid, tampered, stale and malformed headers
+ * - Stripe request encoding, event normalization and unusable events
+ * - Local provider: checkout, signed events, proration and failed payments
+ * - Plan limits by billing state, and the dunning schedule
+ *
+ * Run: npx tsx tests/billing/billing-tests.ts
+ */
+
+import { TestReporter, measureTest } from "../config";
+import {
+  BillingProviderError,
+  LocalBillingProvider,
+  StripeProvider,
+  calculateProration,
+  createLocalBillingStore,
+  encodeStripeForm,
+  nextDunningState,
+  resolveBillingLimits,
+  signBillingPayload,
+  verifyBillingSignature,
+  type BillingEvent,
+  type BillingPrice,
+} from "../../src/lib/billing";
+import { PLAN_LIMITS } from "../../src/lib/plan-limits";
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+const SECRET = "whsec_test_secret";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const STARTER_MONTHLY: BillingPrice = { plan: "starter", interval: "month", amount: 2900, currency: "usd" };
+const PROFESSIONAL_MONTHLY: BillingPrice = { plan: "professional", interval: "month", amount: 9900, currency: "usd" };
+
+function createLocalProvider(clock: { now: Date }) {
+  return new LocalBillingProvider({
+    webhookSecret: SECRET,
+    appUrl: "https://app.example.com/",
+    store: createLocalBillingStore(),
+    now: () => clock.now,
+  });
+}
+
+function parseAll(provider: LocalBillingProvider): BillingEvent[] {
+  return provider.takeEvents().map((envelope) => provider.parseWebhookEvent(envelope.body, envelope.signature));
+}
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+async function runBillingTests(): Promise<void> {
+  const reporter = new TestReporter();
+
+  console.log("\n" + "=".repeat(60));
+  console.log("BILLING TESTS");
+  console.log("=".repeat(60));
+
+  // =========================================================================
+  // SECTION 1: SIGNATURES
+  // =========================================================================
+  reporter.setCategory("Signatures");
+
+  {
+    const { result, duration } = await measureTest("Signatures: verification", async () => {
+      const body = JSON.stringify({ id: "evt_1", type: "invoice.paid" });
+      const now = 1_700_000_000;
+      const header = signBillingPayload(body, SECRET, now);
+
+      return {
+        valid: verifyBillingSignature(body, header, SECRET, now + 10),
+        tampered: verifyBillingSignature(body.replace("evt_1", "evt_2"), header, SECRET, now),
+        wrongSecret: verifyBillingSignature(body, header, "whsec_other", now),
+        stale: verifyBillingSignature(body, header, SECRET, now + 301),
+        // Stripe sends extra v1 entries while a secret is being rolled
+        rolled: verifyBillingSignature(body, `${header},v1=${"0".repeat(64)}`, SECRET, now),
+        missing: verifyBillingSignature(body, null, SECRET, now),
+        malformed: verifyBillingSignature(body, "v1=abc", SECRET, now),
+      };
+    });
+
+    reporter.log({
+      name: "Signatures: only an untampered, recent body signed with the secret verifies",
+      passed:
+        result.valid.valid &&
+        !result.tampered.valid &&
+        !result.wrongSecret.valid &&
+        !result.stale.valid &&
+        result.rolled.valid &&
+        !result.missing.valid &&
+        !result.malformed.valid,
+      expected: "valid, rolled ok; tampered, wrong secret, stale, missing, malformed rejected",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "critical",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 2: STRIPE
+  // =========================================================================
+  reporter.setCategory("Stripe");
+
+  {
+    const { result, duration } = await measureTest("Stripe: form encoding", async () => {
+      return encodeStripeForm({
+        customer: "cus_1",
+        line_items: [{ price: "price_1", quantity: 1 }],
+        subscription_data: { metadata: { org_id: "org 1" } },
+        email: null,
+        expand: ["invoice_settings.default_payment_method"],
+      });
+    });
+
+    reporter.log({
+      name: "Stripe: nested params use bracket notation and skip empty values",
+      passed:
+        result ===
+        "customer=cus_1&line_items%5B0%5D%5Bprice%5D=price_1&line_items%5B0%5D%5Bquantity%5D=1" +
+          "&subscription_data%5Bmetadata%5D%5Borg_id%5D=org%201&expand%5B0%5D=invoice_settings.default_payment_method",
+      expected: "customer=cus_1&line_items[0][price]=price_1&...",
+      actual: decodeURIComponent(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Stripe: webhook events", async () => {
+      const stripe = new StripeProvider({ secretKey: "sk_test", webhookSecret: SECRET });
+      const sign = (event: object) => {
+        const body = JSON.stringify(event);
+        return { body, signature: signBillingPayload(body, SECRET) };
+      };
+
+      const subscription = sign({
+        id: "evt_sub",
+        type: "customer.subscription.updated",
+        created: 1_700_000_000,
+        data: {
+          object: {
+            id: "sub_1",
+            customer: "cus_1",
+            status: "unpaid",
+            cancel_at_period_end: true,
+            metadata: { org_id: "org-1", plan: "professional" },
+            // Newer API versions put the period on the item
+            items: { data: [{ current_period_start: 1_700_000_000, current_period_end: 1_731_536_000, price: { recurring: { interval: "year" } } }] },
+          },
+        },
+      });
+      const invoice = sign({
+        id: "evt_inv",
+        type: "invoice.payment_failed",
+        created: 1_700_000_000,
+        data: {
+          object: {
+            id: "in_1",
+            customer: "cus_1",
+            parent: { subscription_details: { subscription: "sub_1" } },
+            status: "open",
+            amount_due: 9900,
+            amount_paid: 0,
+            currency: "usd",
+            attempt_count: 2,
+            created: 1_700_000_000,
+          },
+        },
+      });
+      const other = sign({ id: "evt_other", type: "charge.refunded", created: 1_700_000_000, data: { object: {} } });
+
+      let tamperedError: string | null = null;
+      try {
+        stripe.parseWebhookEvent(subscription.body.replace("unpaid", "active"), subscription.signature);
+      } catch (error) {
+        tamperedError = (error as Error).message;
+      }
+
+      return {
+        subscription: stripe.parseWebhookEvent(subscription.body, subscription.signature),
+        invoice: stripe.parseWebhookEvent(invoice.body, invoice.signature),
+        other: stripe.parseWebhookEvent(other.body, other.signature),
+        tamperedError,
+      };
+    });
+
+    const sub = result.subscription.type === "subscription.updated" ? result.subscription.subscription : null;
+    const inv = result.invoice.type === "invoice.payment_failed" ? result.invoice.invoice : null;
+
+    reporter.log({
+      name: "Stripe: events are verified and normalized to the provider-neutral shape",
+      passed:
+        sub?.status === "past_due" &&
+        sub.plan === "professional" &&
+        sub.orgId === "org-1" &&
+        sub.interval === "year" &&
+        sub.cancelAtPeriodEnd &&
+        sub.currentPeriodStart === new Date(1_700_000_000_000).toISOString() &&
+        inv?.subscriptionId === "sub_1" &&
+        inv.amountDue === 9900 &&
+        inv.attemptCount === 2 &&
+        result.other.type === "ignored" &&
+        result.tamperedError === "Signature mismatch",
+      expected: "unpaid -> past_due, item period, invoice parent subscription, other events ignored",
+      actual: JSON.stringify({ sub, inv, other: result.other.type, tamperedError: result.tamperedError }),
+      duration,
+      severity: "critical",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Stripe: unprocessable events", async () => {
+      const stripe = new StripeProvider({ secretKey: "sk_test", webhookSecret: SECRET });
+      const statusOf = (body: string, signature = signBillingPayload(body, SECRET)) => {
+        try {
+          stripe.parseWebhookEvent(body, signature);
+          return "parsed";
+        } catch (error) {
+          return error instanceof BillingProviderError ? error.statusCode : "threw";
+        }
+      };
+
+      return {
+        notJson: statusOf("{not json"),
+        noType: statusOf(JSON.stringify({ id: "evt_1", data: { object: {} } })),
+        noObject: statusOf(JSON.stringify({ id: "evt_2", type: "invoice.paid", data: {} })),
+        badSignature: statusOf("{}", "t=1,v1=00"),
+      };
+    });
+
+    reporter.log({
+      name: "Stripe: signed events that can't be processed are 422, bad signatures stay 400",
+      passed: result.notJson === 422 && result.noType === 422 && result.noObject === 422 && result.badSignature === 400,
+      expected: "422, 422, 422, 400",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 3: LOCAL PROVIDER
+  // =========================================================================
+  reporter.setCategory("Local Provider");
+
+  {
+    const { result, duration } = await measureTest("Local Provider: checkout", async () => {
+      const clock = { now: new Date("2026-03-01T00:00:00Z") };
+      const provider = createLocalProvider(clock);
+
+      const { customerId } = await provider.createCustomer({ orgId: "org-1", name: "Acme" });
+      const session = await provider.createCheckoutSession({
+        customerId,
+        orgId: "org-1",
+        price: STARTER_MONTHLY,
+        successUrl: "https://app.example.com/dashboard/settings?tab=billing&checkout=success",
+        cancelUrl: "https://app.example.com/dashboard/settings?tab=billing&checkout=canceled",
+      });
+      const beforeCompletion = provider.takeEvents().length;
+
+      const completed = provider.completeCheckout(session.id);
+      const events = parseAll(provider);
+      const again = provider.completeCheckout(session.id);
+
+      return { session, beforeCompletion, completed, events, again, eventsAfterRepeat: provider.takeEvents().length };
+    });
+
+    const paid = result.events.find((e) => e.type === "invoice.paid");
+    const updated = result.events.find((e) => e.type === "subscription.updated");
+
+    reporter.log({
+      name: "Local Provider: completing checkout starts the subscription and signs its events",
+      passed:
+        result.session.url === `https://app.example.com/api/billing/local-checkout?session_id=${result.session.id}` &&
+        result.beforeCompletion === 0 &&
+        result.completed.successUrl.endsWith("checkout=success") &&
+        paid?.type === "invoice.paid" &&
+        paid.invoice.amountPaid === 2900 &&
+        updated?.type === "subscription.updated" &&
+        updated.subscription.plan === "starter" &&
+        updated.subscription.orgId === "org-1" &&
+        updated.subscription.currentPeriodEnd === "2026-04-01T00:00:00.000Z" &&
+        result.again.subscription.id === result.completed.subscription.id &&
+        result.eventsAfterRepeat === 0,
+      expected: "invoice.paid (2900) and subscription.updated (starter, one month); repeat is a no-op",
+      actual: JSON.stringify(result.events.map((e) => e.type)),
+      duration,
+      severity: "critical",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Local Provider: proration", async () => {
+      const math = calculateProration({
+        fromAmount: 2900,
+        toAmount: 9900,
+        periodStart: new Date("2026-03-01T00:00:00Z"),
+        periodEnd: new Date("2026-03-31T00:00:00Z"),
+        at: new Date("2026-03-16T00:00:00Z"),
+      });
+      const downgrade = calculateProration({
+        fromAmount: 9900,
+        toAmount: 2900,
+        periodStart: new Date("2026-03-01T00:00:00Z"),
+        periodEnd: new Date("2026-03-31T00:00:00Z"),
+        at: new Date("2026-03-16T00:00:00Z"),
+      });
+
+      const clock = { now: new Date("2026-03-01T00:00:00Z") };
+      const provider = createLocalProvider(clock);
+      const { customerId } = await provider.createCustomer({ orgId: "org-1", name: "Acme" });
+      const session = await provider.createCheckoutSession({
+        customerId,
+        orgId: "org-1",
+        price: STARTER_MONTHLY,
+        successUrl: "https://app.example.com/ok",
+        cancelUrl: "https://app.example.com/cancel",
+      });
+      const { subscription } = provider.completeCheckout(session.id);
+      provider.takeEvents();
+
+      // Halfway through March (31 days)
+      clock.now = new Date("2026-03-16T12:00:00Z");
+      const change = { subscriptionId: subscription.id, orgId: "org-1", price: PROFESSIONAL_MONTHLY };
+      const preview = await provider.previewChange(change);
+      const changed = await provider.changeSubscription(change);
+      const events = parseAll(provider);
+
+      return { math, downgrade, preview, changed, events };
+    });
+
+    const invoice = result.events.find((e) => e.type === "invoice.paid");
+
+    reporter.log({
+      name: "Local Provider: an upgrade credits unused time and charges the rest of the period now",
+      passed:
+        JSON.stringify(result.math) === JSON.stringify({ charge: 4950, credit: 1450, amountDue: 3500 }) &&
+        result.downgrade.amountDue === 0 &&
+        result.downgrade.credit === 4950 &&
+        result.preview.charge === 4950 &&
+        result.preview.credit === 1450 &&
+        result.preview.amountDue === 3500 &&
+        result.changed.plan === "professional" &&
+        result.changed.currentPeriodEnd === "2026-04-01T00:00:00.000Z" &&
+        invoice?.type === "invoice.paid" &&
+        invoice.invoice.amountDue === 3500,
+      expected: "half period: charge 4950, credit 1450, due 3500; period unchanged",
+      actual: JSON.stringify({ math: result.math, preview: result.preview }),
+      duration,
+      severity: "critical",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Local Provider: failed payment", async () => {
+      const clock = { now: new Date("2026-03-01T00:00:00Z") };
+      const provider = createLocalProvider(clock);
+      const { customerId } = await provider.createCustomer({ orgId: "org-1", name: "Acme" });
+      const session = await provider.createCheckoutSession({
+        customerId,
+        orgId: "org-1",
+        price: STARTER_MONTHLY,
+        successUrl: "https://app.example.com/ok",
+        cancelUrl: "https://app.example.com/cancel",
+      });
+      const { subscription } = provider.completeCheckout(session.id);
+      provider.takeEvents();
+
+      clock.now = new Date("2026-04-01T00:00:00Z");
+      provider.failNextPayment(customerId);
+      const invoice = provider.renewSubscription(subscription.id);
+      const failedEvents = parseAll(provider);
+
+      clock.now = new Date("2026-04-03T00:00:00Z");
+      provider.payInvoice(invoice.id);
+      const paidEvents = parseAll(provider);
+
+      return { invoice, failedEvents, paidEvents };
+    });
+
+    const failedSub = result.failedEvents.find((e) => e.type === "subscription.updated");
+    const recovered = result.paidEvents.find((e) => e.type === "subscription.updated");
+
+    reporter.log({
+      name: "Local Provider: a failed renewal leaves the invoice open and the subscription past due until paid",
+      passed:
+        result.invoice.status === "open" &&
+        result.invoice.amountPaid === 0 &&
+        result.failedEvents[0]?.type === "invoice.payment_failed" &&
+        failedSub?.type === "subscription.updated" &&
+        failedSub.subscription.status === "past_due" &&
+        result.paidEvents[0]?.type === "invoice.paid" &&
+        recovered?.type === "subscription.updated" &&
+        recovered.subscription.status === "active",
+      expected: "payment_failed + past_due, then invoice.paid + active",
+      actual: JSON.stringify({
+        failed: result.failedEvents.map((e) => e.type),
+        paid: result.paidEvents.map((e) => e.type),
+      }),
+      duration,
+      severity: "high",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 4: PLAN STATE
+  // =========================================================================
+  reporter.setCategory("Plan State");
+
+  {
+    const { result, duration } = await measureTest("Plan State: limits", async () => {
+      return {
+        active: resolveBillingLimits("professional", "active", "none"),
+        grace: resolveBillingLimits("professional", "past_due", "grace"),
+        restricted: resolveBillingLimits("professional", "past_due", "restricted"),
+        canceled: resolveBillingLimits("starter", "canceled", "none"),
+        paused: resolveBillingLimits("starter", "paused", "none"),
+      };
+    });
+
+    reporter.log({
+      name: "Plan State: plans keep their limits in grace and degrade to free once restricted or ended",
+      passed:
+        result.active === PLAN_LIMITS.professional &&
+        result.grace === PLAN_LIMITS.professional &&
+        result.restricted === PLAN_LIMITS.free &&
+        result.canceled === PLAN_LIMITS.free &&
+        result.paused === PLAN_LIMITS.free,
+      expected: "professional, professional, free, free, free",
+      actual: JSON.stringify(Object.fromEntries(Object.entries(result).map(([k, v]) => [k, v.max_calls_per_month]))),
+      duration,
+      severity: "critical",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Plan State: dunning schedule", async () => {
+      const since = new Date("2026-04-01T00:00:00Z");
+      const at = (days: number) => nextDunningState(since, new Date(since.getTime() + days * DAY_MS));
+      return { day1: at(1), day6: at(6.9), day7: at(7), day20: at(20), day21: at(21) };
+    });
+
+    reporter.log({
+      name: "Plan State: grace for a week, restricted after 7 days, canceled after 21",
+      passed:
+        result.day1.state === "grace" &&
+        !result.day1.cancel &&
+        result.day6.state === "grace" &&
+        result.day7.state === "restricted" &&
+        !result.day20.cancel &&
+        result.day21.cancel,
+      expected: "grace, grace, restricted, restricted, cancel",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  // =========================================================================
+  // PRINT SUMMARY
+  // =========================================================================
+  reporter.printSummary();
+
+  const exitCode = reporter.getExitCode();
+  if (exitCode !== 0) {
+    console.log("\n⚠️  Some tests failed. Review issues above.");
+  } else {
+    console.log("\n✅ All billing tests passed!");
+  }
+
+  process.exit(exitCode);
+}
+
+// Run the tests
+runBillingTests().catch((error) => {
+  console.error("Test suite crashed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,236 @@
+/**
+ * Usage Metering Tests
+ *
+ * Tests the plan-limit logic behind consumeUsage and the usage page:
+ * - Which limit applies to each metered counter, feature flags included
+ * - The one-off 80% warning threshold
+ * - Limit messages, byte formatting and the warning email
+ * - Per-metric status on the usage page
+ *
+ * Run: npx tsx tests/billing/usage-metering-tests.ts
+ */
+
+import { TestReporter, measureTest } from "../config";
+import {
+  USAGE_METRICS,
+  crossedUsageWarning,
+  describeUsageLimit,
+  formatUsageValue,
+  resolveUsageLimit,
+  summarizeUsage,
+} from "../../src/lib/usage";
+import { PLAN_LIMITS } from "../../src/lib/plan-limits";
+import { renderUsageWarningEmail } from "../../src/lib/notifications";
+import type { OrgUsage } from "../../src/types/analytics";
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function counters(overrides: Partial<OrgUsage> = {}): OrgUsage {
+  return {
+    calls_count: 0,
+    sessions_count: 0,
+    ai_analyses_count: 0,
+    storage_bytes_used: 0,
+    api_calls_count: 0,
+    ...overrides,
+  };
+}
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+async function runUsageMeteringTests(): Promise<void> {
+  const reporter = new TestReporter();
+
+  console.log("\n" + "=".repeat(60));
+  console.log("USAGE METERING TESTS");
+  console.log("=".repeat(60));
+
+  // =========================================================================
+  // SECTION 1: LIMITS
+  // =========================================================================
+  reporter.setCategory("Limits");
+
+  {
+    const { result, duration } = await measureTest("Limits: per plan", async () => {
+      return {
+        free: (Object.keys(USAGE_METRICS) as (keyof OrgUsage)[]).map((m) => resolveUsageLimit(PLAN_LIMITS.free, m)),
+        starter: resolveUsageLimit(PLAN_LIMITS.starter, "ai_analyses_count"),
+        enterprise: resolveUsageLimit(PLAN_LIMITS.enterprise, "storage_bytes_used"),
+        // A custom limit doesn't count while the feature itself is off
+        aiOff: resolveUsageLimit(
+          { ...PLAN_LIMITS.professional, ai_analysis_enabled: false, max_ai_analyses_per_month: 5000 },
+          "ai_analyses_count"
+        ),
+        apiOff: resolveUsageLimit({ ...PLAN_LIMITS.enterprise, api_access_enabled: false }, "api_calls_count"),
+      };
+    });
+
+    reporter.log({
+      name: "Limits: each counter maps to its plan limit, and disabled features allow none",
+      passed:
+        JSON.stringify(result.free) === JSON.stringify([100, 50, 0, 1024 * 1024 * 1024, 0]) &&
+        result.starter === 500 &&
+        result.enterprise === -1 &&
+        result.aiOff === 0 &&
+        result.apiOff === 0,
+      expected: "free [100,50,0,1GB,0]; starter AI 500; enterprise storage unlimited; disabled features 0",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "critical",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Limits: warning threshold", async () => {
+      return {
+        crossing: crossedUsageWarning(79, 80, 100),
+        jumpPast: crossedUsageWarning(50, 95, 100),
+        alreadyPast: crossedUsageWarning(80, 81, 100),
+        below: crossedUsageWarning(78, 79, 100),
+        fractional: crossedUsageWarning(3, 4, 5),
+        unlimited: crossedUsageWarning(0, 1_000_000, -1),
+        notIncluded: crossedUsageWarning(0, 1, 0),
+      };
+    });
+
+    reporter.log({
+      name: "Limits: the 80% warning fires only on the increment that crosses it",
+      passed:
+        result.crossing &&
+        result.jumpPast &&
+        !result.alreadyPast &&
+        !result.below &&
+        result.fractional &&
+        !result.unlimited &&
+        !result.notIncluded,
+      expected: "true, true, false, false, true, false, false",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 2: MESSAGES
+  // =========================================================================
+  reporter.setCategory("Messages");
+
+  {
+    const { result, duration } = await measureTest("Messages: limits and values", async () => {
+      return {
+        calls: describeUsageLimit("calls_count", 100, 100),
+        ai: describeUsageLimit("ai_analyses_count", 0, 0),
+        storage: describeUsageLimit("storage_bytes_used", 1024 * 1024 * 1024, 1020 * 1024 * 1024),
+        bytes: [512, 1536, 5 * 1024 * 1024].map((v) => formatUsageValue("storage_bytes_used", v)),
+        count: formatUsageValue("api_calls_count", 100000),
+        unlimited: formatUsageValue("calls_count", -1),
+      };
+    });
+
+    reporter.log({
+      name: "Messages: 402 messages name the limit in the metric's own unit",
+      passed:
+        result.calls === "Plan limit reached: 100 of 100 calls used this billing period" &&
+        result.ai === "Your plan doesn't include AI analyses" &&
+        result.storage === "Plan storage limit reached: 1020 MB of 1 GB used" &&
+        JSON.stringify(result.bytes) === JSON.stringify(["512 B", "1.5 KB", "5 MB"]) &&
+        result.count === "100,000" &&
+        result.unlimited === "Unlimited",
+      expected: "Readable limit messages and values",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "medium",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Messages: warning email", async () => {
+      return renderUsageWarningEmail({
+        orgName: "Acme <Sales>",
+        feature: "AI analyses",
+        used: "400",
+        limit: "500",
+        percent: 80,
+        usageUrl: "https://app.example.com/dashboard/usage",
+      });
+    });
+
+    reporter.log({
+      name: "Messages: the warning email says how much is used and links to the usage page",
+      passed:
+        result.subject === "AI analyses: 80% of your plan used" &&
+        result.text.includes("Used: 400") &&
+        result.text.includes("Limit: 500") &&
+        result.text.includes("https://app.example.com/dashboard/usage") &&
+        result.html.includes("Acme &lt;Sales&gt;") &&
+        !result.html.includes("<Sales>"),
+      expected: "Subject with percent, used/limit rows, escaped org name",
+      actual: result.subject,
+      duration,
+      severity: "medium",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 3: USAGE PAGE
+  // =========================================================================
+  reporter.setCategory("Usage Page");
+
+  {
+    const { result, duration } = await measureTest("Usage Page: statuses", async () => {
+      const starter = summarizeUsage(
+        counters({ calls_count: 500, sessions_count: 170, ai_analyses_count: 100, storage_bytes_used: 0, api_calls_count: 0 }),
+        PLAN_LIMITS.starter
+      );
+      const enterprise = summarizeUsage(counters({ calls_count: 12345 }), PLAN_LIMITS.enterprise);
+      return {
+        starter: starter.map((item) => `${item.metric}:${item.status}:${item.percent}`),
+        enterprise: enterprise[0],
+      };
+    });
+
+    reporter.log({
+      name: "Usage Page: each feature shows used vs. limit with a status",
+      passed:
+        JSON.stringify(result.starter) ===
+          JSON.stringify([
+            "calls_count:exceeded:100",
+            "sessions_count:warning:85",
+            "ai_analyses_count:ok:20",
+            "storage_bytes_used:ok:0",
+            "api_calls_count:not_included:null",
+          ]) &&
+        result.enterprise.status === "unlimited" &&
+        result.enterprise.used === 12345 &&
+        result.enterprise.percent === null,
+      expected: "exceeded at the limit, warning from 80%, not_included at 0, unlimited at -1",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  // =========================================================================
+  // PRINT SUMMARY
+  // =========================================================================
+  reporter.printSummary();
+
+  const exitCode = reporter.getExitCode();
+  if (exitCode !== 0) {
+    console.log("\n⚠️  Some tests failed. Review issues above.");
+  } else {
+    console.log("\n✅ All usage metering tests passed!");
+  }
+
+  process.exit(exitCode);
+}
+
+// Run the tests
+runUsageMeteringTests().catch((error) => {
+  console.error("Test suite crashed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,195 @@
+/**
+ * Calendar Channel Token Tests
+ *
+ * Pure checks applied to Google Calendar push notifications. No database
+ * or Google account needed.
+ * Verifies:
+ * - Channel tokens are random and only the stored token verifies
+ * - Notifications for unknown channels, bad tokens or other resources are refused
+ * - Tokens are dropped from links sent to the browser
+ *
+ * Run: npx tsx tests/integrations/calendar-channel-tests.ts
+ */
+
+import { TestReporter, measureTest } from "../config";
+import {
+  checkChannelNotification,
+  generateChannelToken,
+  redactChannelToken,
+  verifyChannelToken,
+} from "../../src/lib/google/channel-tokens";
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+const TOKEN = "a".repeat(64);
+
+const LINK = {
+  id: "link-1",
+  webhook_resource_id: "resource-1",
+  webhook_channel_token: TOKEN,
+};
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+async function runCalendarChannelTests(): Promise<void> {
+  const reporter = new TestReporter();
+
+  console.log("\n" + "=".repeat(60));
+  console.log("CALENDAR CHANNEL TOKEN TESTS");
+  console.log("=".repeat(60));
+
+  // =========================================================================
+  // SECTION 1: TOKENS
+  // =========================================================================
+  reporter.setCategory("Tokens");
+
+  {
+    const { result, duration } = await measureTest("Tokens: generation", async () => {
+      return [generateChannelToken(), generateChannelToken()];
+    });
+
+    reporter.log({
+      name: "Tokens: 32 random bytes, hex encoded, never repeated",
+      passed: result.every((token) => /^[0-9a-f]{64}$/.test(token)) && result[0] !== result[1],
+      expected: "two distinct 64-char hex tokens",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Tokens: verification", async () => {
+      return {
+        match: verifyChannelToken(TOKEN, TOKEN),
+        wrong: verifyChannelToken(TOKEN, "b".repeat(64)),
+        prefix: verifyChannelToken(TOKEN, TOKEN.slice(0, 32)),
+        missing: verifyChannelToken(TOKEN, null),
+        empty: verifyChannelToken(TOKEN, ""),
+        noStored: verifyChannelToken(null, TOKEN),
+        bothEmpty: verifyChannelToken("", ""),
+      };
+    });
+
+    const { match, ...rejected } = result;
+
+    reporter.log({
+      name: "Tokens: only the exact stored token verifies; missing tokens never do",
+      passed: match && Object.values(rejected).every((ok) => !ok),
+      expected: "match only",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 2: NOTIFICATIONS
+  // =========================================================================
+  reporter.setCategory("Notifications");
+
+  {
+    const { result, duration } = await measureTest("Notifications: checks", async () => {
+      return {
+        valid: checkChannelNotification(LINK, { resourceId: "resource-1", token: TOKEN }),
+        unknown: checkChannelNotification(null, { resourceId: "resource-1", token: TOKEN }),
+        badToken: checkChannelNotification(LINK, { resourceId: "resource-1", token: "forged" }),
+        noToken: checkChannelNotification(LINK, { resourceId: "resource-1", token: null }),
+        otherResource: checkChannelNotification(LINK, { resourceId: "resource-2", token: TOKEN }),
+      };
+    });
+
+    reporter.log({
+      name: "Notifications: unknown channels, bad tokens and other resources are refused",
+      passed:
+        result.valid.ok &&
+        result.valid.linkId === "link-1" &&
+        !result.unknown.ok &&
+        result.unknown.reason === "unknown_channel" &&
+        !result.badToken.ok &&
+        result.badToken.reason === "invalid_token" &&
+        !result.noToken.ok &&
+        result.noToken.reason === "invalid_token" &&
+        !result.otherResource.ok &&
+        result.otherResource.reason === "resource_mismatch",
+      expected: "valid -> link-1; unknown_channel, invalid_token x2, resource_mismatch",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Notifications: tokenless links", async () => {
+      return {
+        // Links from before channel tokens can't be verified, so they're refused
+        legacy: checkChannelNotification(
+          { ...LINK, webhook_channel_token: null },
+          { resourceId: "resource-1", token: null }
+        ),
+        // The resource ID arrives with the first notification after registration
+        noResourceYet: checkChannelNotification(
+          { ...LINK, webhook_resource_id: null },
+          { resourceId: "resource-9", token: TOKEN }
+        ),
+      };
+    });
+
+    reporter.log({
+      name: "Notifications: links without a token are refused; links without a resource ID accept any",
+      passed: !result.legacy.ok && result.noResourceYet.ok,
+      expected: "legacy refused, noResourceYet ok",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 3: REDACTION
+  // =========================================================================
+  reporter.setCategory("Redaction");
+
+  {
+    const { result, duration } = await measureTest("Redaction: browser payload", async () => {
+      const link = { ...LINK, calendar_id: "primary" };
+      return { redacted: redactChannelToken(link), original: link };
+    });
+
+    reporter.log({
+      name: "Redaction: the token is dropped without touching the stored link",
+      passed:
+        !("webhook_channel_token" in result.redacted) &&
+        result.redacted.calendar_id === "primary" &&
+        result.original.webhook_channel_token === TOKEN,
+      expected: "no token in redacted copy, original unchanged",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "critical",
+    });
+  }
+
+  // =========================================================================
+  // PRINT SUMMARY
+  // =========================================================================
+  reporter.printSummary();
+
+  const exitCode = reporter.getExitCode();
+  if (exitCode !== 0) {
+    console.log("\n⚠️  Some tests failed. Review issues above.");
+  } else {
+    console.log("\n✅ All calendar channel tests passed!");
+  }
+
+  process.exit(exitCode);
+}
+
+// Run the tests
+runCalendarChannelTests().catch((error) => {
+  console.error("Test suite crashed:", error);
+  process.exit(1);
+});
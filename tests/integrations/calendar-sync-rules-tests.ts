@@ -0,0 +1,473 @@
+/**
+ * Calendar Sync Rules Tests
+ *
+ * Pure rules applied when calendar events become sessions and when sessions
+ * are written back to their events. No database or calendar account needed.
+ * Verifies:
+ * - Agent resolution by attendee, organizer and custom property
+ * - Organizer fallback and the reasons given for unresolved events
+ * - The description block attendees see carries no score
+ * - Incremental fetches pick up events coming into the session horizon
+ * - Expired cursors fall back to a full sync
+ *
+ * Run: npx tsx tests/integrations/calendar-sync-rules-tests.ts
+ */
+
+import { TestReporter, measureTest } from "../config";
+import { DEFAULT_AGENT_MAPPING, resolveEventAgent } from "../../src/lib/connectors/agent-mapping";
+import { formatScore, withSessionBlock, type WritebackSession } from "../../src/lib/google/session-block";
+import {
+  SESSION_HORIZON_HOURS,
+  fetchEventChanges,
+  isInSessionRange,
+  mergeEventLists,
+} from "../../src/lib/connectors/calendar-events";
+import {
+  SyncCursorExpiredError,
+  type CalendarConnector,
+  type ConnectorCalendarEvent,
+} from "../../src/lib/connectors/types";
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+const MEMBERS = new Map([
+  ["alex@acme.com", "user-alex"],
+  ["sam@acme.com", "user-sam"],
+]);
+
+function event(overrides: Partial<ConnectorCalendarEvent> = {}): ConnectorCalendarEvent {
+  return {
+    id: "evt-1",
+    status: "confirmed",
+    title: "Discovery call",
+    description: null,
+    start: "2026-10-19T15:00:00Z",
+    end: "2026-10-19T15:30:00Z",
+    allDay: false,
+    organizerEmail: "sam@acme.com",
+    attendees: [
+      { email: "sam@acme.com", organizer: true },
+      { email: "pat@customer.com", organizer: false },
+      { email: "Alex@Acme.com", organizer: false },
+    ],
+    meetingCode: "abc-mnop-xyz",
+    hasVideoConference: true,
+    properties: {},
+    ...overrides,
+  };
+}
+
+const SCORED_SESSION: WritebackSession = {
+  id: "session-1",
+  status: "completed",
+  percentage_score: 82.4,
+  pass_status: "pass",
+};
+
+const NOW = new Date("2026-10-19T12:00:00Z");
+const WINDOW_START = new Date(NOW.getTime() - 24 * 60 * 60 * 1000);
+const HORIZON = new Date(NOW.getTime() + SESSION_HORIZON_HOURS * 60 * 60 * 1000);
+
+type FetchConnector = Pick<CalendarConnector, "listEventChanges" | "listEventsInWindow">;
+
+// Records what was asked of it; the cursor "expired" is rejected like a stale sync token
+function fakeConnector(changed: ConnectorCalendarEvent[], inWindow: ConnectorCalendarEvent[]) {
+  const calls: string[] = [];
+  const connector: FetchConnector = {
+    listEventChanges: async (_accessToken, _calendarId, from) => {
+      if ("cursor" in from) {
+        calls.push(`changes:${from.cursor}`);
+        if (from.cursor === "expired") throw new SyncCursorExpiredError("Sync token is no longer valid");
+        return { events: changed, cursor: "cursor-2" };
+      }
+      calls.push(`full:${from.windowStart.toISOString()}`);
+      return { events: [...changed, ...inWindow], cursor: "cursor-full" };
+    },
+    listEventsInWindow: async (_accessToken, _calendarId, windowStart, windowEnd) => {
+      calls.push(`window:${windowStart.toISOString()}..${windowEnd.toISOString()}`);
+      return inWindow;
+    },
+  };
+  return { connector, calls };
+}
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+async function runCalendarSyncRulesTests(): Promise<void> {
+  const reporter = new TestReporter();
+
+  console.log("\n" + "=".repeat(60));
+  console.log("CALENDAR SYNC RULES TESTS");
+  console.log("=".repeat(60));
+
+  // =========================================================================
+  // SECTION 1: AGENT MAPPING
+  // =========================================================================
+  reporter.setCategory("Agent Mapping");
+
+  {
+    const { result, duration } = await measureTest("Agent: attendee email", async () => {
+      return {
+        explicit: resolveEventAgent(event(), DEFAULT_AGENT_MAPPING, MEMBERS),
+        unset: resolveEventAgent(event(), null, MEMBERS),
+      };
+    });
+
+    reporter.log({
+      name: "Agent: the first non-organizer attendee who is a member, by default",
+      passed:
+        result.explicit.agentId === "user-alex" &&
+        result.unset.agentId === "user-alex" &&
+        "source" in result.unset &&
+        result.unset.source === "attendee_email",
+      expected: "user-alex via attendee_email",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Agent: organizer", async () => {
+      const mapping = { ...DEFAULT_AGENT_MAPPING, type: "organizer" as const };
+      return {
+        member: resolveEventAgent(event(), mapping, MEMBERS),
+        outsider: resolveEventAgent(event({ organizerEmail: "pat@customer.com" }), mapping, MEMBERS),
+        none: resolveEventAgent(event({ organizerEmail: null }), mapping, MEMBERS),
+      };
+    });
+
+    reporter.log({
+      name: "Agent: organizer mapping uses the organizer and says why when it can't",
+      passed:
+        result.member.agentId === "user-sam" &&
+        result.outsider.agentId === null &&
+        "reason" in result.outsider &&
+        result.outsider.reason.includes("pat@customer.com") &&
+        result.none.agentId === null &&
+        "reason" in result.none &&
+        result.none.reason === "Event has no organizer",
+      expected: "user-sam; outsider and missing organizer unresolved with reasons",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Agent: custom field", async () => {
+      const mapping = { type: "custom_field" as const, field: "rep", fallback_to_organizer: false };
+      return {
+        byEmail: resolveEventAgent(event({ properties: { rep: " ALEX@acme.com " } }), mapping, MEMBERS),
+        byUserId: resolveEventAgent(event({ properties: { rep: "user-sam" } }), mapping, MEMBERS),
+        unknown: resolveEventAgent(event({ properties: { rep: "someone@else.com" } }), mapping, MEMBERS),
+        missing: resolveEventAgent(event(), mapping, MEMBERS),
+      };
+    });
+
+    reporter.log({
+      name: "Agent: a custom property may hold a member's email or user ID",
+      passed:
+        result.byEmail.agentId === "user-alex" &&
+        result.byUserId.agentId === "user-sam" &&
+        result.unknown.agentId === null &&
+        result.missing.agentId === null &&
+        "reason" in result.missing &&
+        result.missing.reason === 'Event has no "rep" property',
+      expected: "user-alex, user-sam, unresolved, unresolved",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Agent: organizer fallback", async () => {
+      const outsiders = event({
+        attendees: [
+          { email: "sam@acme.com", organizer: true },
+          { email: "pat@customer.com", organizer: false },
+        ],
+      });
+      return {
+        withFallback: resolveEventAgent(
+          outsiders,
+          { ...DEFAULT_AGENT_MAPPING, fallback_to_organizer: true },
+          MEMBERS
+        ),
+        withoutFallback: resolveEventAgent(outsiders, DEFAULT_AGENT_MAPPING, MEMBERS),
+      };
+    });
+
+    reporter.log({
+      name: "Agent: unresolved events fall back to the organizer only when enabled",
+      passed:
+        result.withFallback.agentId === "user-sam" &&
+        "source" in result.withFallback &&
+        result.withFallback.source === "organizer_fallback" &&
+        result.withoutFallback.agentId === null &&
+        "reason" in result.withoutFallback &&
+        result.withoutFallback.reason === "No attendee matches a member",
+      expected: "fallback -> user-sam, otherwise unresolved",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 2: WRITE-BACK
+  // =========================================================================
+  reporter.setCategory("Write-Back");
+
+  {
+    const { result, duration } = await measureTest("Write-back: description", async () => {
+      return withSessionBlock("Agenda: pricing", SCORED_SESSION);
+    });
+
+    reporter.log({
+      name: "Write-back: attendees see the status and link but not the score",
+      passed:
+        result.startsWith("Agenda: pricing\n\n") &&
+        result.includes("Status: Completed") &&
+        result.includes("/dashboard/sessions/session-1") &&
+        !result.includes("82") &&
+        !/pass|score/i.test(result),
+      expected: "organizer text, status and link; no score or pass/fail",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Write-back: rewrite", async () => {
+      const first = withSessionBlock("Agenda: pricing", { ...SCORED_SESSION, status: "in_progress" });
+      return {
+        description: withSessionBlock(`${first}\nNotes added later`, SCORED_SESSION),
+        score: formatScore(SCORED_SESSION),
+      };
+    });
+
+    reporter.log({
+      name: "Write-back: the block is replaced, not stacked, and the private score keeps pass/fail",
+      passed:
+        result.description.split("--- Kalyxi session ---").length === 2 &&
+        result.description.includes("Notes added later") &&
+        result.description.includes("Status: Completed") &&
+        !result.description.includes("In progress") &&
+        result.score === "82% (pass)",
+      expected: "one block, organizer notes kept, score 82% (pass)",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 3: FETCHING
+  // =========================================================================
+  reporter.setCategory("Fetching");
+
+  {
+    const { result, duration } = await measureTest("Fetch: session range", async () => {
+      const at = (start: string, end: string) =>
+        isInSessionRange(event({ start, end }), WINDOW_START, HORIZON);
+      return {
+        today: at("2026-10-19T15:00:00Z", "2026-10-19T15:30:00Z"),
+        atHorizon: at("2026-10-20T12:00:00Z", "2026-10-20T12:30:00Z"),
+        pastHorizon: at("2026-10-20T12:01:00Z", "2026-10-20T12:30:00Z"),
+        nextMonth: at("2026-11-19T15:00:00Z", "2026-11-19T15:30:00Z"),
+        endedBeforeWindow: at("2026-10-18T10:00:00Z", "2026-10-18T11:00:00Z"),
+      };
+    });
+
+    reporter.log({
+      name: `Fetch: sessions are only created for events starting within ${SESSION_HORIZON_HOURS}h`,
+      passed:
+        result.today &&
+        result.atHorizon &&
+        !result.pastHorizon &&
+        !result.nextMonth &&
+        !result.endedBeforeWindow,
+      expected: "today and at the horizon in range; later or long-past events not",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Fetch: incremental", async () => {
+      // Edited yesterday and now in range; tomorrow's event was never edited
+      const edited = event({ id: "edited", title: "Renamed call" });
+      const stale = event({ id: "edited", title: "Old title" });
+      const upcoming = event({ id: "upcoming", start: "2026-10-20T09:00:00Z", end: "2026-10-20T09:30:00Z" });
+      const { connector, calls } = fakeConnector([edited], [stale, upcoming]);
+
+      const fetched = await fetchEventChanges(connector, "token", "primary", {
+        cursor: "cursor-1",
+        forceFullSync: false,
+        windowStart: WINDOW_START,
+        horizon: HORIZON,
+      });
+      return { fetched, calls };
+    });
+
+    const { fetched, calls } = result;
+    reporter.log({
+      name: "Fetch: incremental runs add the window up to the horizon; changed events win",
+      passed:
+        fetched.syncMode === "incremental" &&
+        fetched.fullSyncReason === null &&
+        fetched.changes.cursor === "cursor-2" &&
+        fetched.changes.events.map((e) => e.id).join(",") === "edited,upcoming" &&
+        fetched.changes.events[0].title === "Renamed call" &&
+        calls[1] === `window:${WINDOW_START.toISOString()}..${HORIZON.toISOString()}`,
+      expected: "incremental, cursor-2, edited (renamed) + upcoming, window bounded by the horizon",
+      actual: JSON.stringify({ ...fetched, changes: fetched.changes.events.map((e) => e.id), calls }),
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Fetch: expired cursor", async () => {
+      const { connector, calls } = fakeConnector([event({ id: "a" })], [event({ id: "b" })]);
+      const fetched = await fetchEventChanges(connector, "token", "primary", {
+        cursor: "expired",
+        forceFullSync: false,
+        windowStart: WINDOW_START,
+        horizon: HORIZON,
+      });
+      return { fetched, calls };
+    });
+
+    const { fetched, calls } = result;
+    reporter.log({
+      name: "Fetch: an expired cursor falls back to a full sync from the window start",
+      passed:
+        fetched.syncMode === "full" &&
+        fetched.fullSyncReason === "token_expired" &&
+        fetched.changes.cursor === "cursor-full" &&
+        fetched.changes.events.length === 2 &&
+        calls.join(" ") === `changes:expired full:${WINDOW_START.toISOString()}`,
+      expected: "full, token_expired, cursor-full, no window listing",
+      actual: JSON.stringify({ mode: fetched.syncMode, reason: fetched.fullSyncReason, calls }),
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Fetch: full sync reasons", async () => {
+      const initial = fakeConnector([], []);
+      const forced = fakeConnector([], []);
+      const options = { windowStart: WINDOW_START, horizon: HORIZON };
+      return {
+        initial: await fetchEventChanges(initial.connector, "token", "primary", {
+          ...options,
+          cursor: null,
+          forceFullSync: false,
+        }),
+        forced: await fetchEventChanges(forced.connector, "token", "primary", {
+          ...options,
+          cursor: "cursor-1",
+          forceFullSync: true,
+        }),
+        calls: [...initial.calls, ...forced.calls].map((call) => call.split(":")[0]),
+      };
+    });
+
+    reporter.log({
+      name: "Fetch: links without a cursor, and forced syncs, run full without using the cursor",
+      passed:
+        result.initial.syncMode === "full" &&
+        result.initial.fullSyncReason === "initial" &&
+        result.forced.syncMode === "full" &&
+        result.forced.fullSyncReason === "forced" &&
+        result.calls.every((call) => call === "full"),
+      expected: "initial and forced full syncs only",
+      actual: JSON.stringify({
+        initial: result.initial.fullSyncReason,
+        forced: result.forced.fullSyncReason,
+        calls: result.calls,
+      }),
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Fetch: other errors", async () => {
+      const connector: FetchConnector = {
+        listEventChanges: async () => {
+          throw new Error("Failed to list events: 500");
+        },
+        listEventsInWindow: async () => [],
+      };
+      try {
+        await fetchEventChanges(connector, "token", "primary", {
+          cursor: "cursor-1",
+          forceFullSync: false,
+          windowStart: WINDOW_START,
+          horizon: HORIZON,
+        });
+        return null;
+      } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+      }
+    });
+
+    reporter.log({
+      name: "Fetch: provider errors other than an expired cursor aren't turned into full syncs",
+      passed: result === "Failed to list events: 500",
+      expected: "Failed to list events: 500",
+      actual: String(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Fetch: merge", async () => {
+      return mergeEventLists(
+        [event({ id: "x", status: "cancelled" })],
+        [event({ id: "x" }), event({ id: "y" })]
+      ).map((e) => `${e.id}:${e.status}`);
+    });
+
+    reporter.log({
+      name: "Fetch: a cancellation in the changes isn't undone by the window listing",
+      passed: result.join(",") === "x:cancelled,y:confirmed",
+      expected: "x:cancelled,y:confirmed",
+      actual: result.join(","),
+      duration,
+      severity: "high",
+    });
+  }
+
+  // =========================================================================
+  // PRINT SUMMARY
+  // =========================================================================
+  reporter.printSummary();
+
+  const exitCode = reporter.getExitCode();
+  if (exitCode !== 0) {
+    console.log("\n⚠️  Some tests failed. Review issues above.");
+  } else {
+    console.log("\n✅ All calendar sync rules tests passed!");
+  }
+
+  process.exit(exitCode);
+}
+
+// Run the tests
+runCalendarSyncRulesTests().catch((error) => {
+  console.error("Test suite crashed:", error);
+  process.exit(1);
+});
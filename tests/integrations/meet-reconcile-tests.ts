@@ -0,0 +1,280 @@
+/**
+ * Transcript Session Matching Tests
+ *
+ * Pure matching rules used when synced Meet and Teams transcripts become
+ * calls. No database or Google account needed.
+ * Verifies:
+ * - Meet code normalization across calendar and Meet API formats
+ * - Session selection by event overlap and closeness to the meeting start
+ * - Sessions in other orgs sharing the meeting code are never matched
+ *
+ * Run: npx tsx tests/integrations/meet-reconcile-tests.ts
+ */
+
+import { TestReporter, measureTest } from "../config";
+import {
+  SESSION_MATCH_TOLERANCE_MINUTES,
+  normalizeMeetCode,
+  selectSessionForMeeting,
+  type SessionCandidate,
+} from "../../src/lib/google/session-match";
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+const ORG_A = "00000000-0000-4000-8000-00000000000a";
+const ORG_B = "00000000-0000-4000-8000-00000000000b";
+
+function session(
+  id: string,
+  start: string,
+  end: string | null,
+  overrides: Partial<SessionCandidate> = {}
+): SessionCandidate {
+  return {
+    id,
+    org_id: ORG_A,
+    call_id: null,
+    agent_id: null,
+    coach_id: null,
+    google_event_id: `evt-${id}`,
+    google_event_title: "Discovery call",
+    google_event_start: start,
+    google_event_end: end,
+    ...overrides,
+  };
+}
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+async function runMeetReconcileTests(): Promise<void> {
+  const reporter = new TestReporter();
+
+  console.log("\n" + "=".repeat(60));
+  console.log("TRANSCRIPT SESSION MATCHING TESTS");
+  console.log("=".repeat(60));
+
+  // =========================================================================
+  // SECTION 1: MEET CODES
+  // =========================================================================
+  reporter.setCategory("Meet Codes");
+
+  {
+    const { result, duration } = await measureTest("Meet code: formats", async () => {
+      return [
+        normalizeMeetCode("abc-mnop-xyz"),
+        normalizeMeetCode("ABC-MNOP-XYZ"),
+        normalizeMeetCode("abcmnopxyz"),
+        normalizeMeetCode(" abc mnop xyz "),
+      ];
+    });
+
+    reporter.log({
+      name: "Meet code: case, spacing and hyphenation normalize to abc-mnop-xyz",
+      passed: result.every((code) => code === "abc-mnop-xyz"),
+      expected: "all abc-mnop-xyz",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "critical",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Meet code: other keys", async () => {
+      return {
+        teams: normalizeMeetCode("teams:19:meeting_NjA3YzE2@thread.v2"),
+        empty: normalizeMeetCode(""),
+        blank: normalizeMeetCode("   "),
+        nullish: normalizeMeetCode(null),
+      };
+    });
+
+    reporter.log({
+      name: "Meet code: non-Meet keys are lowercased as-is, empty codes are null",
+      passed:
+        result.teams === "teams:19:meeting_nja3yze2@thread.v2" &&
+        result.empty === null &&
+        result.blank === null &&
+        result.nullish === null,
+      expected: "teams key lowercased, nulls for empty input",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 2: SESSION SELECTION
+  // =========================================================================
+  reporter.setCategory("Session Selection");
+
+  {
+    const { result, duration } = await measureTest("Selection: recurring series", async () => {
+      // Weekly instances of one series share a Meet code
+      const sessions = [
+        session("week-1", "2026-10-12T15:00:00Z", "2026-10-12T15:30:00Z"),
+        session("week-2", "2026-10-19T15:00:00Z", "2026-10-19T15:30:00Z"),
+        session("week-3", "2026-10-26T15:00:00Z", "2026-10-26T15:30:00Z"),
+      ];
+      return selectSessionForMeeting(sessions, ORG_A, "2026-10-19T15:04:00Z", "2026-10-19T15:41:00Z");
+    });
+
+    reporter.log({
+      name: "Selection: the instance overlapping the meeting is picked",
+      passed: result?.id === "week-2",
+      expected: "week-2",
+      actual: String(result?.id),
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Selection: closest start", async () => {
+      // Back-to-back events both within tolerance of an early-started meeting
+      const sessions = [
+        session("first", "2026-10-19T14:00:00Z", "2026-10-19T14:30:00Z"),
+        session("second", "2026-10-19T14:30:00Z", "2026-10-19T15:00:00Z"),
+      ];
+      return selectSessionForMeeting(sessions, ORG_A, "2026-10-19T14:27:00Z", "2026-10-19T14:58:00Z");
+    });
+
+    reporter.log({
+      name: "Selection: among overlapping events the closest scheduled start wins",
+      passed: result?.id === "second",
+      expected: "second",
+      actual: String(result?.id),
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Selection: tolerance", async () => {
+      const sessions = [session("only", "2026-10-19T15:00:00Z", "2026-10-19T15:30:00Z")];
+      const minutesAfterEnd = (minutes: number) =>
+        new Date(Date.parse("2026-10-19T15:30:00Z") + minutes * 60 * 1000).toISOString();
+
+      return {
+        inside: selectSessionForMeeting(
+          sessions,
+          ORG_A,
+          minutesAfterEnd(SESSION_MATCH_TOLERANCE_MINUTES - 1),
+          null
+        )?.id,
+        outside: selectSessionForMeeting(
+          sessions,
+          ORG_A,
+          minutesAfterEnd(SESSION_MATCH_TOLERANCE_MINUTES + 1),
+          null
+        )?.id,
+        custom: selectSessionForMeeting(sessions, ORG_A, minutesAfterEnd(10), null, 5)?.id,
+      };
+    });
+
+    reporter.log({
+      name: "Selection: meetings within the tolerance match, later ones don't",
+      passed: result.inside === "only" && result.outside === undefined && result.custom === undefined,
+      expected: "inside=only, outside and custom 5-minute tolerance unmatched",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Selection: unusable sessions", async () => {
+      const sessions = [
+        session("linked", "2026-10-19T15:00:00Z", "2026-10-19T15:30:00Z", { call_id: "call-1" }),
+        session("unscheduled", "", null, { google_event_start: null }),
+      ];
+      return {
+        withSessions: selectSessionForMeeting(sessions, ORG_A, "2026-10-19T15:00:00Z", null),
+        noStart: selectSessionForMeeting(
+          [session("open", "2026-10-19T15:00:00Z", null)],
+          ORG_A,
+          null,
+          null
+        ),
+      };
+    });
+
+    reporter.log({
+      name: "Selection: sessions with a call or no event time, and meetings with no start, don't match",
+      passed: result.withSessions === null && result.noStart === null,
+      expected: "null, null",
+      actual: `${result.withSessions?.id ?? null}, ${result.noStart?.id ?? null}`,
+      duration,
+      severity: "high",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 3: ORG ISOLATION
+  // =========================================================================
+  reporter.setCategory("Org Isolation");
+
+  {
+    const { result, duration } = await measureTest("Isolation: shared meeting", async () => {
+      // Org A's rep and org B's customer both put the meeting on their calendars
+      const sessions = [
+        session("org-b", "2026-10-19T15:00:00Z", "2026-10-19T15:30:00Z", { org_id: ORG_B }),
+        session("org-a", "2026-10-19T15:10:00Z", "2026-10-19T15:40:00Z"),
+      ];
+      return {
+        syncedByA: selectSessionForMeeting(sessions, ORG_A, "2026-10-19T15:00:00Z", "2026-10-19T15:30:00Z")?.id,
+        syncedByB: selectSessionForMeeting(sessions, ORG_B, "2026-10-19T15:00:00Z", "2026-10-19T15:30:00Z")?.id,
+      };
+    });
+
+    reporter.log({
+      name: "Isolation: each org's transcript matches only its own session, even when another org's is closer",
+      passed: result.syncedByA === "org-a" && result.syncedByB === "org-b",
+      expected: "A -> org-a, B -> org-b",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Isolation: no own session", async () => {
+      const sessions = [
+        session("org-b", "2026-10-19T15:00:00Z", "2026-10-19T15:30:00Z", { org_id: ORG_B }),
+      ];
+      return selectSessionForMeeting(sessions, ORG_A, "2026-10-19T15:00:00Z", "2026-10-19T15:30:00Z");
+    });
+
+    reporter.log({
+      name: "Isolation: a transcript never lands on another org's session",
+      passed: result === null,
+      expected: "null",
+      actual: String(result?.id ?? null),
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  // =========================================================================
+  // PRINT SUMMARY
+  // =========================================================================
+  reporter.printSummary();
+
+  const exitCode = reporter.getExitCode();
+  if (exitCode !== 0) {
+    console.log("\n⚠️  Some tests failed. Review issues above.");
+  } else {
+    console.log("\n✅ All transcript session matching tests passed!");
+  }
+
+  process.exit(exitCode);
+}
+
+// Run the tests
+runMeetReconcileTests().catch((error) => {
+  console.error("Test suite crashed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,548 @@
+/**
+ * Microsoft Graph Connector Tests
+ *
+ * Runs against a local mock Graph server, no Microsoft account needed.
+ * Verifies:
+ * - Graph client paging, delta links and error mapping
+ * - Outlook event mapping onto the neutral calendar shape
+ * - Teams meeting keys from join URLs
+ * - Online meeting lookup, transcript listing and VTT download
+ * - VTT parsing and conversion into stored transcript entries
+ *
+ * Run: npx tsx tests/integrations/microsoft-graph-tests.ts
+ */
+
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { TestReporter, measureTest } from "../config";
+import {
+  GraphAPIError,
+  findOnlineMeetingByJoinUrl,
+  getTranscriptContent,
+  listCalendars,
+  listCalendarView,
+  listMeetingTranscripts,
+} from "../../src/lib/microsoft/graph-client";
+import {
+  listOutlookEventChanges,
+  getOutlookEvent,
+  teamsMeetingKey,
+  toConnectorEvent,
+} from "../../src/lib/microsoft/calendar";
+import { convertTeamsTranscript } from "../../src/lib/microsoft/transcripts";
+import { SyncCursorExpiredError } from "../../src/lib/connectors/types";
+import { parseVtt, mergeSpeakerTurns } from "../../src/lib/vtt";
+import type { GraphEvent, GraphOnlineMeeting } from "../../src/lib/microsoft/types";
+
+// ============================================================================
+// MOCK GRAPH SERVER
+// ============================================================================
+
+const ACCESS_TOKEN = "graph-test-token";
+
+const JOIN_URL =
+  "https://teams.microsoft.com/l/meetup-join/19%3ameeting_NjA3YzE2%40thread.v2/0?context=%7b%22Tid%22%3a%22t1%22%7d";
+
+const TRANSCRIPT_VTT = [
+  "\uFEFFWEBVTT",
+  "",
+  "0f2c1b7e-1/15-0",
+  "00:00:01.000 --> 00:00:04.500",
+  "<v Alex Rep>Thanks for joining today.</v>",
+  "",
+  "0f2c1b7e-1/15-1",
+  "00:00:04.500 --> 00:00:06.000",
+  "<v Alex Rep>Shall we start with your goals?</v>",
+  "",
+  "00:00:07.250 --> 00:00:10.000",
+  "<v Pat Prospect>Sure &amp; thanks.</v>",
+  "",
+].join("\r\n");
+
+const EVENT: GraphEvent = {
+  id: "evt-1",
+  subject: "Discovery call",
+  bodyPreview: "Agenda",
+  start: { dateTime: "2026-10-19T15:00:00.0000000", timeZone: "UTC" },
+  end: { dateTime: "2026-10-19T15:30:00.0000000", timeZone: "UTC" },
+  isAllDay: false,
+  isCancelled: false,
+  showAs: "busy",
+  organizer: { emailAddress: { name: "Alex Rep", address: "alex@example.com" } },
+  attendees: [
+    { emailAddress: { name: "Alex Rep", address: "Alex@example.com" }, type: "required" },
+    { emailAddress: { name: "Pat Prospect", address: "pat@customer.com" }, type: "required" },
+    { emailAddress: { name: "Room 4", address: "room4@example.com" }, type: "resource" },
+  ],
+  isOnlineMeeting: true,
+  onlineMeetingProvider: "teamsForBusiness",
+  onlineMeeting: { joinUrl: JOIN_URL },
+};
+
+const MEETING: GraphOnlineMeeting = {
+  id: "meeting-1",
+  joinWebUrl: JOIN_URL,
+  subject: "Discovery call",
+  participants: {
+    organizer: { upn: "alex@example.com", identity: { user: { displayName: "Alex Rep" } } },
+    attendees: [{ upn: "pat@customer.com", identity: { user: { displayName: "Pat Prospect" } } }],
+  },
+};
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  headers: http.IncomingHttpHeaders;
+}
+
+/**
+ * Start a mock Graph server. Paged collections link to their next page, and
+ * delta queries end with a deltaLink; delta token "expired" answers 410.
+ */
+async function startMockGraph(): Promise<{
+  url: string;
+  requests: RecordedRequest[];
+  close: () => Promise<void>;
+}> {
+  const requests: RecordedRequest[] = [];
+  let base = "";
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || "/", base);
+    requests.push({ method: req.method || "GET", path: url.pathname + url.search, headers: req.headers });
+
+    const json = (status: number, body: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.headers.authorization !== `Bearer ${ACCESS_TOKEN}`) {
+      return json(401, { error: { code: "InvalidAuthenticationToken" } });
+    }
+
+    const path = url.pathname;
+
+    if (path === "/me/calendars") {
+      return url.searchParams.get("page") === "2"
+        ? json(200, { value: [{ id: "cal-2", name: "Team", canEdit: false }] })
+        : json(200, {
+            value: [{ id: "cal-1", name: "Calendar", isDefaultCalendar: true, canEdit: true, hexColor: "#0078d4" }],
+            "@odata.nextLink": `${base}/me/calendars?page=2`,
+          });
+    }
+
+    if (path === "/me/calendars/cal-1/calendarView/delta") {
+      const token = url.searchParams.get("$deltatoken");
+      const skip = url.searchParams.get("$skiptoken");
+
+      if (token === "expired") {
+        return json(410, { error: { code: "SyncStateNotFound", message: "Delta token expired" } });
+      }
+      if (token === "next") {
+        return json(200, {
+          value: [{ id: "evt-1", "@removed": { reason: "deleted" } }],
+          "@odata.deltaLink": `${base}/me/calendars/cal-1/calendarView/delta?$deltatoken=after-next`,
+        });
+      }
+      if (skip === "page-2") {
+        return json(200, {
+          value: [{ ...EVENT, id: "evt-2", isCancelled: true }],
+          "@odata.deltaLink": `${base}/me/calendars/cal-1/calendarView/delta?$deltatoken=next`,
+        });
+      }
+      return json(200, {
+        value: [EVENT],
+        "@odata.nextLink": `${base}/me/calendars/cal-1/calendarView/delta?$skiptoken=page-2`,
+      });
+    }
+
+    if (path === "/me/events/evt-1") {
+      return json(200, EVENT);
+    }
+
+    if (path === "/me/calendarView") {
+      return json(200, { value: [EVENT] });
+    }
+
+    if (path === "/me/onlineMeetings") {
+      const filter = url.searchParams.get("$filter") || "";
+      return json(200, { value: filter === `JoinWebUrl eq '${JOIN_URL}'` ? [MEETING] : [] });
+    }
+
+    if (path === "/me/onlineMeetings/meeting-1/transcripts") {
+      return json(200, {
+        value: [
+          {
+            id: "tr-1",
+            meetingId: "meeting-1",
+            createdDateTime: "2026-10-19T15:01:00Z",
+            endDateTime: "2026-10-19T15:29:00Z",
+          },
+        ],
+      });
+    }
+
+    if (path === "/me/onlineMeetings/meeting-1/transcripts/tr-1/content") {
+      res.writeHead(200, { "Content-Type": "text/vtt" });
+      return res.end(TRANSCRIPT_VTT);
+    }
+
+    return json(404, { error: { code: "ResourceNotFound", message: `No route for ${path}` } });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  base = `http://127.0.0.1:${port}`;
+
+  return {
+    url: base,
+    requests,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+async function runMicrosoftGraphTests(): Promise<void> {
+  const reporter = new TestReporter();
+
+  console.log("\n" + "=".repeat(60));
+  console.log("MICROSOFT GRAPH CONNECTOR TESTS");
+  console.log("=".repeat(60));
+
+  const graph = await startMockGraph();
+  process.env.MICROSOFT_GRAPH_API_BASE = graph.url;
+
+  // =========================================================================
+  // SECTION 1: GRAPH CLIENT
+  // =========================================================================
+  reporter.setCategory("Graph Client");
+
+  {
+    const { result, duration } = await measureTest("Calendars: paging", async () => {
+      const calendars = await listCalendars(ACCESS_TOKEN);
+      return calendars.map((cal) => cal.id).join(",");
+    });
+
+    reporter.log({
+      name: "Calendars: follows @odata.nextLink across pages",
+      passed: result === "cal-1,cal-2",
+      expected: "cal-1,cal-2",
+      actual: result,
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Client: error mapping", async () => {
+      try {
+        await listCalendars("wrong-token");
+        return null;
+      } catch (error) {
+        return error instanceof GraphAPIError ? error.statusCode : null;
+      }
+    });
+
+    reporter.log({
+      name: "Client: failed request throws GraphAPIError with status",
+      passed: result === 401,
+      expected: "401",
+      actual: String(result),
+      duration,
+      severity: "medium",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Calendar view: UTC", async () => {
+      graph.requests.length = 0;
+      const events = await listCalendarView(ACCESS_TOKEN, "2026-10-19T00:00:00Z", "2026-10-20T00:00:00Z");
+      return {
+        count: events.length,
+        prefer: String(graph.requests[0]?.headers.prefer || ""),
+      };
+    });
+
+    reporter.log({
+      name: "Calendar view: requests event times in UTC",
+      passed: result.count === 1 && result.prefer.includes('outlook.timezone="UTC"'),
+      expected: "1 event, Prefer outlook.timezone=UTC",
+      actual: `${result.count} event(s), Prefer: ${result.prefer}`,
+      duration,
+      severity: "high",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 2: OUTLOOK CALENDAR SYNC
+  // =========================================================================
+  reporter.setCategory("Outlook Calendar Sync");
+
+  {
+    const { result, duration } = await measureTest("Delta: full sync", async () => {
+      const changes = await listOutlookEventChanges(ACCESS_TOKEN, "cal-1", {
+        windowStart: new Date("2026-10-12T00:00:00Z"),
+      });
+      return {
+        ids: changes.events.map((e) => `${e.id}:${e.status}`).join(","),
+        cursor: changes.cursor,
+      };
+    });
+
+    reporter.log({
+      name: "Delta: full sync pages to the deltaLink and returns it as the cursor",
+      passed:
+        result.ids === "evt-1:confirmed,evt-2:cancelled" &&
+        !!result.cursor?.endsWith("$deltatoken=next"),
+      expected: "evt-1:confirmed,evt-2:cancelled, cursor ...$deltatoken=next",
+      actual: `${result.ids}, cursor ${result.cursor}`,
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Delta: incremental", async () => {
+      const changes = await listOutlookEventChanges(ACCESS_TOKEN, "cal-1", {
+        cursor: `${graph.url}/me/calendars/cal-1/calendarView/delta?$deltatoken=next`,
+      });
+      return changes.events.map((e) => `${e.id}:${e.status}`).join(",");
+    });
+
+    reporter.log({
+      name: "Delta: removed events come back as cancelled",
+      passed: result === "evt-1:cancelled",
+      expected: "evt-1:cancelled",
+      actual: result,
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Delta: expired cursor", async () => {
+      try {
+        await listOutlookEventChanges(ACCESS_TOKEN, "cal-1", {
+          cursor: `${graph.url}/me/calendars/cal-1/calendarView/delta?$deltatoken=expired`,
+        });
+        return "no error";
+      } catch (error) {
+        return error instanceof SyncCursorExpiredError ? "SyncCursorExpiredError" : String(error);
+      }
+    });
+
+    reporter.log({
+      name: "Delta: 410 maps to SyncCursorExpiredError (full sync fallback)",
+      passed: result === "SyncCursorExpiredError",
+      expected: "SyncCursorExpiredError",
+      actual: result,
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Event: mapping", async () => {
+      const event = await getOutlookEvent(ACCESS_TOKEN, "evt-1");
+      return event;
+    });
+
+    const attendees = result.attendees.map((a) => `${a.email}${a.organizer ? "*" : ""}`).join(",");
+
+    reporter.log({
+      name: "Event: maps times, organizer and attendees (resources dropped)",
+      passed:
+        result.start === "2026-10-19T15:00:00.0000000Z" &&
+        new Date(result.end).toISOString() === "2026-10-19T15:30:00.000Z" &&
+        result.organizerEmail === "alex@example.com" &&
+        attendees === "Alex@example.com*,pat@customer.com" &&
+        result.hasVideoConference,
+      expected: "UTC times, organizer flagged, no room",
+      actual: `${result.start} - ${result.end}, ${attendees}`,
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Event: all-day and tentative", async () => {
+      const event = toConnectorEvent({
+        id: "evt-3",
+        isAllDay: true,
+        showAs: "tentative",
+        start: { dateTime: "2026-10-20T00:00:00.0000000", timeZone: "UTC" },
+        end: { dateTime: "2026-10-21T00:00:00.0000000", timeZone: "UTC" },
+      });
+      return `${event.status}|${event.allDay}|${event.start}|${event.meetingCode}`;
+    });
+
+    reporter.log({
+      name: "Event: all-day events use dates; tentative is kept",
+      passed: result === "tentative|true|2026-10-20|null",
+      expected: "tentative|true|2026-10-20|null",
+      actual: result,
+      duration,
+      severity: "medium",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Teams: meeting keys", async () => {
+      return [
+        teamsMeetingKey(JOIN_URL),
+        teamsMeetingKey("https://teams.microsoft.com/meet/2345678901?p=abc"),
+        teamsMeetingKey("https://meet.google.com/abc-defg-hij"),
+        teamsMeetingKey("not a url"),
+      ];
+    });
+
+    reporter.log({
+      name: "Teams: join URLs key by thread ID; other URLs have no key",
+      passed:
+        result[0] === "teams:19:meeting_nja3yze2@thread.v2" &&
+        result[1] === "teams:meet:2345678901" &&
+        result[2] === null &&
+        result[3] === null,
+      expected: "teams:19:meeting_nja3yze2@thread.v2, teams:meet:2345678901, null, null",
+      actual: result.join(", "),
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 3: TEAMS TRANSCRIPTS
+  // =========================================================================
+  reporter.setCategory("Teams Transcripts");
+
+  {
+    const { result, duration } = await measureTest("Meetings: join URL lookup", async () => {
+      const found = await findOnlineMeetingByJoinUrl(ACCESS_TOKEN, JOIN_URL);
+      const missing = await findOnlineMeetingByJoinUrl(
+        ACCESS_TOKEN,
+        "https://teams.microsoft.com/l/meetup-join/other"
+      );
+      return `${found?.id}|${missing}`;
+    });
+
+    reporter.log({
+      name: "Meetings: finds the online meeting by JoinWebUrl filter",
+      passed: result === "meeting-1|null",
+      expected: "meeting-1|null",
+      actual: result,
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Transcripts: list and download", async () => {
+      graph.requests.length = 0;
+      const transcripts = await listMeetingTranscripts(ACCESS_TOKEN, "meeting-1");
+      const vtt = await getTranscriptContent(ACCESS_TOKEN, "meeting-1", transcripts[0].id);
+      const download = graph.requests.find((r) => r.path.includes("/content"));
+      return {
+        ids: transcripts.map((t) => t.id).join(","),
+        isVtt: vtt.includes("WEBVTT"),
+        accept: String(download?.headers.accept || ""),
+        format: download?.path.includes("$format=text/vtt") || false,
+      };
+    });
+
+    reporter.log({
+      name: "Transcripts: lists transcripts and downloads content as VTT",
+      passed: result.ids === "tr-1" && result.isVtt && result.accept === "text/vtt" && result.format,
+      expected: "tr-1, WEBVTT body, Accept text/vtt",
+      actual: `${result.ids}, vtt=${result.isVtt}, accept=${result.accept}`,
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("VTT: parsing", async () => {
+      const cues = parseVtt(TRANSCRIPT_VTT);
+      return cues.map((c) => `${c.start}-${c.end}:${c.speaker}:${c.text}`);
+    });
+
+    reporter.log({
+      name: "VTT: parses cues with voice tags, cue IDs, CRLF and entities",
+      passed:
+        result.length === 3 &&
+        result[0] === "1-4.5:Alex Rep:Thanks for joining today." &&
+        result[2] === "7.25-10:Pat Prospect:Sure & thanks.",
+      expected: "3 cues, speakers and decoded text",
+      actual: result.join(" | "),
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("VTT: speaker turns", async () => {
+      const turns = mergeSpeakerTurns(
+        parseVtt("WEBVTT\n\n0:0:1.5 --> 0:0:3\n<v A>One</v>\n\n0:0:3 --> 0:0:4\nNo voice\n")
+      );
+      return turns.map((t) => `${t.start}-${t.end}:${t.speaker}`).join(",");
+    });
+
+    reporter.log({
+      name: "VTT: unpadded timestamps and cues without a speaker",
+      passed: result === "1.5-3:A,3-4:null",
+      expected: "1.5-3:A,3-4:null",
+      actual: result,
+      duration,
+      severity: "medium",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Transcripts: conversion", async () => {
+      return convertTeamsTranscript(TRANSCRIPT_VTT, "2026-10-19T15:01:00Z", MEETING);
+    });
+
+    const participants = result.participants
+      .map((p) => `${p.name}<${p.email}>x${p.entriesCount}`)
+      .join(",");
+
+    reporter.log({
+      name: "Transcripts: merges turns into timed entries, speakers and labelled text",
+      passed:
+        result.entries.length === 2 &&
+        result.entries[0].startTime === "2026-10-19T15:01:01.000Z" &&
+        result.entries[0].endTime === "2026-10-19T15:01:06.000Z" &&
+        result.entries[1].participant === "Pat Prospect" &&
+        participants === "Alex Rep<alex@example.com>x1,Pat Prospect<pat@customer.com>x1" &&
+        result.textContent.startsWith("[00:01] Alex Rep: Thanks for joining today. Shall we start"),
+      expected: "2 entries from 15:01:01, emails from meeting participants",
+      actual: `${result.entries.length} entries, ${participants}, "${result.textContent.split("\n")[0]}"`,
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  await graph.close();
+
+  // =========================================================================
+  // PRINT SUMMARY
+  // =========================================================================
+  reporter.printSummary();
+
+  const exitCode = reporter.getExitCode();
+  if (exitCode !== 0) {
+    console.log("\n⚠️  Some tests failed. Review issues above.");
+  } else {
+    console.log("\n✅ All Microsoft Graph connector tests passed!");
+  }
+
+  process.exit(exitCode);
+}
+
+// Run the tests
+runMicrosoftGraphTests().catch((error) => {
+  console.error("Test suite crashed:", error);
+  process.exit(1);
+});
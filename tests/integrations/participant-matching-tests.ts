@@ -0,0 +1,282 @@
+/**
+ * Meet Participant Matching Tests
+ *
+ * Pure rules that turn transcript speakers into org users and callers. No
+ * database or Google account needed.
+ * Verifies:
+ * - Signed-in participants matched through connected Google accounts
+ * - Name and email fallbacks, and ambiguous names left unmatched
+ * - Named (Teams/Zoom) speakers matched by email before name
+ * - Speaker label maps and per-participant entry counts
+ *
+ * Run: npx tsx tests/integrations/participant-matching-tests.ts
+ */
+
+import { TestReporter, measureTest } from "../config";
+import {
+  buildSpeakerNameMap,
+  getParticipantDisplayName,
+  matchNamedParticipants,
+  matchParticipants,
+  withEntryCounts,
+  type ParticipantDirectory,
+} from "../../src/lib/google/participant-matching";
+import type { ConferenceParticipant, TranscriptEntry } from "../../src/lib/google/types";
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+const CONFERENCE = "conferenceRecords/conf-1";
+
+const DIRECTORY: ParticipantDirectory = {
+  connections: [{ googleUserId: "111", userId: "user-alex", email: "alex@acme.com" }],
+  users: [
+    { id: "user-alex", name: "Alex Rep", email: "alex.rep@acme.com" },
+    { id: "user-sam", name: "Sam Coach", email: "sam@acme.com" },
+    { id: "user-jo-1", name: "Jo Smith", email: "jo.smith@acme.com" },
+    { id: "user-jo-2", name: "Jo Smith", email: "jo.s@acme.com" },
+  ],
+  callers: [
+    { id: "caller-alex", name: "Alex Rep", email: "alex.rep@acme.com", userId: "user-alex" },
+    { id: "caller-lee", name: "Lee Outbound", email: "lee@acme.com", userId: null },
+  ],
+};
+
+function participant(
+  id: string,
+  kind: "signed_in" | "anonymous" | "phone",
+  displayName: string,
+  googleUserId?: string
+): ConferenceParticipant {
+  const name = `${CONFERENCE}/participants/${id}`;
+  if (kind === "signed_in") {
+    return { name, signedinUser: { user: `users/${googleUserId}`, displayName } };
+  }
+  if (kind === "phone") {
+    return { name, phoneUser: { displayName } };
+  }
+  return { name, anonymousUser: { displayName } };
+}
+
+function entry(participantId: string, text: string): TranscriptEntry {
+  return {
+    name: `${CONFERENCE}/transcripts/t1/entries/${text.length}`,
+    participant: `${CONFERENCE}/participants/${participantId}`,
+    text,
+    languageCode: "en-US",
+    startTime: "2026-10-19T15:00:00Z",
+    endTime: "2026-10-19T15:00:05Z",
+  };
+}
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+async function runParticipantMatchingTests(): Promise<void> {
+  const reporter = new TestReporter();
+
+  console.log("\n" + "=".repeat(60));
+  console.log("MEET PARTICIPANT MATCHING TESTS");
+  console.log("=".repeat(60));
+
+  // =========================================================================
+  // SECTION 1: MEET PARTICIPANTS
+  // =========================================================================
+  reporter.setCategory("Meet Participants");
+
+  {
+    const { result, duration } = await measureTest("Meet: signed-in by Google ID", async () => {
+      // Display name differs from the org profile; the Google ID still matches
+      return matchParticipants([participant("p1", "signed_in", "Alex R.", "111")], DIRECTORY)[0];
+    });
+
+    reporter.log({
+      name: "Meet: signed-in participants match their connected account's user and caller",
+      passed:
+        result.userId === "user-alex" &&
+        result.callerId === "caller-alex" &&
+        result.email === "alex@acme.com" &&
+        result.kind === "signed_in" &&
+        result.googleUserId === "111" &&
+        result.participantId === `${CONFERENCE}/participants/p1`,
+      expected: "user-alex / caller-alex via connection email alex@acme.com",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Meet: name fallbacks", async () => {
+      return matchParticipants(
+        [
+          participant("p2", "anonymous", "sam coach"),
+          participant("p3", "phone", "Lee Outbound"),
+          participant("p4", "anonymous", "Pat Prospect"),
+        ],
+        DIRECTORY
+      );
+    });
+
+    const [sam, lee, pat] = result;
+    reporter.log({
+      name: "Meet: others match users or callers by exact name, case-insensitively",
+      passed:
+        sam.userId === "user-sam" &&
+        sam.email === "sam@acme.com" &&
+        sam.callerId === undefined &&
+        lee.userId === undefined &&
+        lee.callerId === "caller-lee" &&
+        lee.email === "lee@acme.com" &&
+        lee.kind === "phone" &&
+        pat.userId === undefined &&
+        pat.callerId === undefined &&
+        pat.name === "Pat Prospect",
+      expected: "sam -> user-sam, lee -> caller-lee, pat unmatched",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "critical",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Meet: ambiguous names", async () => {
+      return matchParticipants([participant("p5", "anonymous", "Jo Smith")], DIRECTORY)[0];
+    });
+
+    reporter.log({
+      name: "Meet: a name shared by two users isn't guessed",
+      passed: result.userId === undefined && result.callerId === undefined,
+      expected: "no userId or callerId",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Meet: unknown Google ID", async () => {
+      return {
+        unknown: matchParticipants([participant("p6", "signed_in", "Sam Coach", "999")], DIRECTORY)[0],
+        unnamed: getParticipantDisplayName({ name: `${CONFERENCE}/participants/p7` }),
+      };
+    });
+
+    reporter.log({
+      name: "Meet: signed-in users without a connection fall back to their name; nameless ones are Unknown",
+      passed: result.unknown.userId === "user-sam" && result.unnamed === "Unknown",
+      expected: "user-sam, Unknown",
+      actual: `${result.unknown.userId}, ${result.unnamed}`,
+      duration,
+      severity: "medium",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 2: NAMED SPEAKERS
+  // =========================================================================
+  reporter.setCategory("Named Speakers");
+
+  {
+    const { result, duration } = await measureTest("Named: email first", async () => {
+      return matchNamedParticipants(
+        [
+          // Email wins over an ambiguous name
+          { name: "Jo Smith", email: "JO.S@acme.com", participantId: "Jo Smith" },
+          { name: "Alex Rep", participantId: "Alex Rep" },
+          { name: "Pat Prospect", email: "pat@customer.com", participantId: "Pat Prospect" },
+        ],
+        DIRECTORY
+      );
+    });
+
+    const [jo, alex, pat] = result;
+    reporter.log({
+      name: "Named: speakers match by email, then by name; outsiders keep what they had",
+      passed:
+        jo.userId === "user-jo-2" &&
+        jo.email === "JO.S@acme.com" &&
+        alex.userId === "user-alex" &&
+        alex.callerId === "caller-alex" &&
+        alex.email === "alex.rep@acme.com" &&
+        pat.userId === undefined &&
+        pat.email === "pat@customer.com",
+      expected: "jo -> user-jo-2, alex -> user-alex/caller-alex, pat unmatched",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "critical",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 3: LABELS AND COUNTS
+  // =========================================================================
+  reporter.setCategory("Labels and Counts");
+
+  {
+    const { result, duration } = await measureTest("Labels: speaker name map", async () => {
+      const matched = matchParticipants(
+        [participant("p1", "signed_in", "Alex Rep", "111"), participant("p2", "anonymous", "Pat Prospect")],
+        DIRECTORY
+      );
+      return buildSpeakerNameMap([...matched, { name: "No Id" }, { participantId: "no-name" }]);
+    });
+
+    reporter.log({
+      name: "Labels: participant IDs map to display names; incomplete speakers are left out",
+      passed:
+        result.size === 2 &&
+        result.get(`${CONFERENCE}/participants/p1`) === "Alex Rep" &&
+        result.get(`${CONFERENCE}/participants/p2`) === "Pat Prospect",
+      expected: "2 entries: p1 -> Alex Rep, p2 -> Pat Prospect",
+      actual: JSON.stringify([...result.entries()]),
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Counts: entries per participant", async () => {
+      const matched = matchParticipants(
+        [participant("p1", "signed_in", "Alex Rep", "111"), participant("p2", "anonymous", "Pat Prospect")],
+        DIRECTORY
+      );
+      return withEntryCounts(
+        [...matched, { name: "Dial-in" }],
+        [entry("p1", "Hi"), entry("p2", "Hello"), entry("p1", "Agenda?")]
+      );
+    });
+
+    reporter.log({
+      name: "Counts: entries are counted per participant, speakers without an ID get 0",
+      passed:
+        result[0].entriesCount === 2 && result[1].entriesCount === 1 && result[2].entriesCount === 0,
+      expected: "2, 1, 0",
+      actual: result.map((p) => p.entriesCount).join(", "),
+      duration,
+      severity: "medium",
+    });
+  }
+
+  // =========================================================================
+  // PRINT SUMMARY
+  // =========================================================================
+  reporter.printSummary();
+
+  const exitCode = reporter.getExitCode();
+  if (exitCode !== 0) {
+    console.log("\n⚠️  Some tests failed. Review issues above.");
+  } else {
+    console.log("\n✅ All participant matching tests passed!");
+  }
+
+  process.exit(exitCode);
+}
+
+// Run the tests
+runParticipantMatchingTests().catch((error) => {
+  console.error("Test suite crashed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,575 @@
+/**
+ * Zoom Connector Tests
+ *
+ * Runs against a local stand-in for the Zoom API, no Zoom account needed.
+ * Verifies:
+ * - Webhook signature and freshness checks, and URL validation responses
+ * - Recording event detection and transcript file selection
+ * - API client requests (user profile, recordings, file downloads)
+ * - Zoom VTT parsing ("Name: text" speakers) into speaker turns
+ * - Transcript conversion into call text and participants
+ *
+ * Run: npx tsx tests/integrations/zoom-connector-tests.ts
+ */
+
+import http from "node:http";
+import crypto from "node:crypto";
+import type { AddressInfo } from "node:net";
+import { TestReporter, measureTest } from "../config";
+import {
+  ZoomAPIError,
+  downloadRecordingFile,
+  encodeMeetingUuid,
+  getMeetingRecordings,
+  getZoomMe,
+} from "../../src/lib/zoom/api-client";
+import {
+  buildUrlValidationResponse,
+  isRecordingEvent,
+  isUrlValidationEvent,
+  verifyZoomWebhook,
+} from "../../src/lib/zoom/webhook";
+import {
+  convertZoomTranscript,
+  pickTranscriptFile,
+  recordingDurationSeconds,
+  zoomCallExternalId,
+} from "../../src/lib/zoom/recordings";
+import { parseVtt, mergeSpeakerTurns } from "../../src/lib/vtt";
+import type { ZoomRecordingMeeting, ZoomWebhookEvent } from "../../src/lib/zoom/types";
+
+// ============================================================================
+// ZOOM API STAND-IN
+// ============================================================================
+
+const ACCESS_TOKEN = "zoom-test-token";
+const DOWNLOAD_TOKEN = "zoom-download-token";
+const WEBHOOK_SECRET = "zoom-webhook-secret";
+
+const MEETING_UUID = "/ajXp112QmuoKj4854875==";
+
+const TRANSCRIPT_VTT = [
+  "WEBVTT",
+  "",
+  "1",
+  "00:00:02.000 --> 00:00:05.000",
+  "Alex Rep: Thanks for making time today.",
+  "",
+  "2",
+  "00:00:05.000 --> 00:00:08.500",
+  "Alex Rep: What does your current process look like?",
+  "",
+  "3",
+  "00:00:09.000 --> 00:01:12.000",
+  "Pat Prospect: Mostly spreadsheets: one per team.",
+  "",
+  "4",
+  "00:01:12.000 --> 00:01:13.000",
+  "Got it.",
+  "",
+].join("\n");
+
+function recordingMeeting(downloadBase: string): ZoomRecordingMeeting {
+  return {
+    uuid: MEETING_UUID,
+    id: 85746065432,
+    account_id: "acct-1",
+    host_id: "host-1",
+    host_email: "Alex@example.com",
+    topic: "Discovery call",
+    start_time: "2026-10-19T15:00:00Z",
+    duration: 30,
+    recording_files: [
+      {
+        id: "file-mp4",
+        file_type: "MP4",
+        file_extension: "MP4",
+        download_url: `${downloadBase}/rec/download/mp4`,
+        status: "completed",
+        recording_type: "shared_screen_with_speaker_view",
+      },
+      {
+        id: "file-vtt",
+        file_type: "TRANSCRIPT",
+        file_extension: "VTT",
+        download_url: `${downloadBase}/rec/download/vtt`,
+        status: "completed",
+        recording_type: "audio_transcript",
+        recording_start: "2026-10-19T15:01:00Z",
+        recording_end: "2026-10-19T15:25:30Z",
+      },
+    ],
+  };
+}
+
+interface RecordedRequest {
+  path: string;
+  headers: http.IncomingHttpHeaders;
+}
+
+/**
+ * Start a stand-in Zoom API. API calls need the OAuth token; recording
+ * downloads accept the OAuth token or the webhook download token.
+ */
+async function startZoomStub(): Promise<{
+  url: string;
+  requests: RecordedRequest[];
+  close: () => Promise<void>;
+}> {
+  const requests: RecordedRequest[] = [];
+  let base = "";
+
+  const server = http.createServer((req, res) => {
+    const rawPath = req.url || "/";
+    requests.push({ path: rawPath, headers: req.headers });
+
+    const json = (status: number, body: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+    const token = req.headers.authorization?.replace(/^Bearer /, "");
+
+    if (rawPath.startsWith("/rec/download/")) {
+      if (token !== ACCESS_TOKEN && token !== DOWNLOAD_TOKEN) {
+        return json(401, { code: 124, message: "Invalid access token." });
+      }
+      res.writeHead(200, { "Content-Type": "text/vtt" });
+      return res.end(TRANSCRIPT_VTT);
+    }
+
+    if (token !== ACCESS_TOKEN) {
+      return json(401, { code: 124, message: "Invalid access token." });
+    }
+
+    if (rawPath === "/users/me") {
+      return json(200, {
+        id: "host-1",
+        email: "alex@example.com",
+        account_id: "acct-1",
+        first_name: "Alex",
+        last_name: "Rep",
+      });
+    }
+
+    if (rawPath === `/meetings/${encodeMeetingUuid(MEETING_UUID)}/recordings`) {
+      return json(200, recordingMeeting(base));
+    }
+
+    return json(404, { code: 3301, message: "This recording does not exist." });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  base = `http://127.0.0.1:${port}`;
+
+  return {
+    url: base,
+    requests,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+/**
+ * Sign a webhook body the way Zoom does
+ */
+function signWebhook(body: string, timestamp: string, secret: string = WEBHOOK_SECRET): string {
+  return `v0=${crypto.createHmac("sha256", secret).update(`v0:${timestamp}:${body}`).digest("hex")}`;
+}
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+async function runZoomConnectorTests(): Promise<void> {
+  const reporter = new TestReporter();
+
+  console.log("\n" + "=".repeat(60));
+  console.log("ZOOM CONNECTOR TESTS");
+  console.log("=".repeat(60));
+
+  const zoom = await startZoomStub();
+  process.env.ZOOM_API_BASE = zoom.url;
+
+  const now = Date.now();
+  const timestamp = String(Math.floor(now / 1000));
+  const recordingEvent = {
+    event: "recording.transcript_completed",
+    event_ts: now,
+    payload: { account_id: "acct-1", object: recordingMeeting(zoom.url) },
+    download_token: DOWNLOAD_TOKEN,
+  };
+  const recordingBody = JSON.stringify(recordingEvent);
+
+  // =========================================================================
+  // SECTION 1: WEBHOOK VERIFICATION
+  // =========================================================================
+  reporter.setCategory("Webhook Verification");
+
+  {
+    const { result, duration } = await measureTest("Signature: valid", async () => {
+      return verifyZoomWebhook(
+        recordingBody,
+        timestamp,
+        signWebhook(recordingBody, timestamp),
+        WEBHOOK_SECRET,
+        now
+      );
+    });
+
+    reporter.log({
+      name: "Signature: correctly signed request is accepted",
+      passed: result === true,
+      expected: "true",
+      actual: String(result),
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Signature: rejections", async () => {
+      const signature = signWebhook(recordingBody, timestamp);
+      return {
+        tampered: verifyZoomWebhook(recordingBody.replace("acct-1", "acct-2"), timestamp, signature, WEBHOOK_SECRET, now),
+        wrongSecret: verifyZoomWebhook(
+          recordingBody,
+          timestamp,
+          signWebhook(recordingBody, timestamp, "other-secret"),
+          WEBHOOK_SECRET,
+          now
+        ),
+        missing: verifyZoomWebhook(recordingBody, timestamp, null, WEBHOOK_SECRET, now),
+        truncated: verifyZoomWebhook(recordingBody, timestamp, signature.slice(0, 20), WEBHOOK_SECRET, now),
+      };
+    });
+
+    reporter.log({
+      name: "Signature: tampered body, wrong secret, missing or short signature are rejected",
+      passed: !result.tampered && !result.wrongSecret && !result.missing && !result.truncated,
+      expected: "all false",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Signature: replay window", async () => {
+      const stale = String(Math.floor(now / 1000) - 6 * 60);
+      return {
+        stale: verifyZoomWebhook(recordingBody, stale, signWebhook(recordingBody, stale), WEBHOOK_SECRET, now),
+        malformed: verifyZoomWebhook(recordingBody, "soon", signWebhook(recordingBody, "soon"), WEBHOOK_SECRET, now),
+      };
+    });
+
+    reporter.log({
+      name: "Signature: stale or malformed timestamps are rejected even when signed",
+      passed: !result.stale && !result.malformed,
+      expected: "both false",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("URL validation", async () => {
+      const event: ZoomWebhookEvent = {
+        event: "endpoint.url_validation",
+        event_ts: now,
+        payload: { plainToken: "qgg8vlvZRS6UYooatFL8Aw" },
+      };
+      return {
+        detected: isUrlValidationEvent(event),
+        response: isUrlValidationEvent(event)
+          ? buildUrlValidationResponse(event.payload.plainToken, WEBHOOK_SECRET)
+          : null,
+      };
+    });
+
+    const expectedToken = crypto
+      .createHmac("sha256", WEBHOOK_SECRET)
+      .update("qgg8vlvZRS6UYooatFL8Aw")
+      .digest("hex");
+
+    reporter.log({
+      name: "URL validation: answers with the plain token and its HMAC",
+      passed:
+        result.detected &&
+        result.response?.plainToken === "qgg8vlvZRS6UYooatFL8Aw" &&
+        result.response?.encryptedToken === expectedToken,
+      expected: `encryptedToken ${expectedToken}`,
+      actual: JSON.stringify(result.response),
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Events: detection", async () => {
+      return {
+        transcript: isRecordingEvent(recordingEvent as ZoomWebhookEvent),
+        completed: isRecordingEvent({ ...recordingEvent, event: "recording.completed" } as ZoomWebhookEvent),
+        other: isRecordingEvent({ ...recordingEvent, event: "meeting.ended" } as ZoomWebhookEvent),
+        noAccount: isRecordingEvent({
+          ...recordingEvent,
+          payload: { object: recordingEvent.payload.object },
+        } as ZoomWebhookEvent),
+      };
+    });
+
+    reporter.log({
+      name: "Events: both recording events are handled; others and malformed payloads are not",
+      passed: result.transcript && result.completed && !result.other && !result.noAccount,
+      expected: "true, true, false, false",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 2: RECORDINGS
+  // =========================================================================
+  reporter.setCategory("Recordings");
+
+  {
+    const { result, duration } = await measureTest("Recordings: transcript file", async () => {
+      const meeting = recordingMeeting(zoom.url);
+      const processing: ZoomRecordingMeeting = {
+        ...meeting,
+        recording_files: meeting.recording_files!.map((file) => ({ ...file, status: "processing" })),
+      };
+      const videoOnly: ZoomRecordingMeeting = {
+        ...meeting,
+        recording_files: meeting.recording_files!.filter((file) => file.file_type === "MP4"),
+      };
+      return [pickTranscriptFile(meeting)?.id, pickTranscriptFile(processing), pickTranscriptFile(videoOnly)];
+    });
+
+    reporter.log({
+      name: "Recordings: picks the finished VTT transcript, not video or processing files",
+      passed: result[0] === "file-vtt" && result[1] === null && result[2] === null,
+      expected: "file-vtt, null, null",
+      actual: result.join(", "),
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Recordings: duration and external ID", async () => {
+      const meeting = recordingMeeting(zoom.url);
+      return {
+        fromTranscript: recordingDurationSeconds(meeting, pickTranscriptFile(meeting)),
+        fromMeeting: recordingDurationSeconds(meeting, null),
+        externalId: zoomCallExternalId(meeting.uuid),
+      };
+    });
+
+    reporter.log({
+      name: "Recordings: duration from the transcript span; one external ID per meeting instance",
+      passed:
+        result.fromTranscript === 1470 &&
+        result.fromMeeting === 1800 &&
+        result.externalId === `zoom:${MEETING_UUID}`,
+      expected: "1470, 1800, zoom:<uuid>",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "medium",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 3: API CLIENT
+  // =========================================================================
+  reporter.setCategory("API Client");
+
+  {
+    const { result, duration } = await measureTest("API: user profile", async () => {
+      const me = await getZoomMe(ACCESS_TOKEN);
+      return `${me.id}|${me.email}|${me.account_id}`;
+    });
+
+    reporter.log({
+      name: "API: fetches the authorizing user and their account ID",
+      passed: result === "host-1|alex@example.com|acct-1",
+      expected: "host-1|alex@example.com|acct-1",
+      actual: result,
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("API: recordings by UUID", async () => {
+      zoom.requests.length = 0;
+      const meeting = await getMeetingRecordings(ACCESS_TOKEN, MEETING_UUID);
+      return {
+        files: meeting.recording_files?.length || 0,
+        path: zoom.requests[0]?.path,
+      };
+    });
+
+    reporter.log({
+      name: "API: meeting UUIDs starting with / are double-encoded",
+      passed: result.files === 2 && result.path === "/meetings/%252FajXp112QmuoKj4854875%253D%253D/recordings",
+      expected: "2 files from /meetings/%252F...%253D%253D/recordings",
+      actual: `${result.files} files from ${result.path}`,
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("API: transcript download", async () => {
+      zoom.requests.length = 0;
+      const file = pickTranscriptFile(recordingMeeting(zoom.url))!;
+      const vtt = await downloadRecordingFile(file.download_url, DOWNLOAD_TOKEN);
+      return {
+        isVtt: vtt.startsWith("WEBVTT"),
+        auth: String(zoom.requests[0]?.headers.authorization || ""),
+      };
+    });
+
+    reporter.log({
+      name: "API: downloads the transcript with the webhook download token",
+      passed: result.isVtt && result.auth === `Bearer ${DOWNLOAD_TOKEN}`,
+      expected: `WEBVTT body, Bearer ${DOWNLOAD_TOKEN}`,
+      actual: `vtt=${result.isVtt}, ${result.auth}`,
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("API: error mapping", async () => {
+      try {
+        await getMeetingRecordings("expired-token", MEETING_UUID);
+        return null;
+      } catch (error) {
+        return error instanceof ZoomAPIError ? error.statusCode : null;
+      }
+    });
+
+    reporter.log({
+      name: "API: failed request throws ZoomAPIError with status",
+      passed: result === 401,
+      expected: "401",
+      actual: String(result),
+      duration,
+      severity: "medium",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 4: TRANSCRIPTS
+  // =========================================================================
+  reporter.setCategory("Transcripts");
+
+  {
+    const { result, duration } = await measureTest("VTT: Zoom speakers", async () => {
+      const cues = parseVtt(TRANSCRIPT_VTT, { speakerPrefixes: true });
+      return cues.map((c) => `${c.speaker}:${c.text}`);
+    });
+
+    reporter.log({
+      name: "VTT: reads 'Name: text' speakers; colons later in the text are kept",
+      passed:
+        result.length === 4 &&
+        result[0] === "Alex Rep:Thanks for making time today." &&
+        result[2] === "Pat Prospect:Mostly spreadsheets: one per team." &&
+        result[3] === "null:Got it.",
+      expected: "4 cues, Pat's text keeps its colon, last cue has no speaker",
+      actual: result.join(" | "),
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("VTT: prefixes off by default", async () => {
+      const cues = parseVtt("WEBVTT\n\n00:00:01.000 --> 00:00:02.000\nNote: this is caption text\n");
+      return `${cues[0]?.speaker}|${cues[0]?.text}`;
+    });
+
+    reporter.log({
+      name: "VTT: without speakerPrefixes a leading 'Word:' stays in the text",
+      passed: result === "null|Note: this is caption text",
+      expected: "null|Note: this is caption text",
+      actual: result,
+      duration,
+      severity: "medium",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("VTT: speaker turns", async () => {
+      const turns = mergeSpeakerTurns(parseVtt(TRANSCRIPT_VTT, { speakerPrefixes: true }));
+      return turns.map((t) => `${t.speaker}@${t.start}-${t.end}`).join(",");
+    });
+
+    reporter.log({
+      name: "VTT: consecutive cues from one speaker merge into a turn",
+      passed: result === "Alex Rep@2-8.5,Pat Prospect@9-72,null@72-73",
+      expected: "Alex Rep@2-8.5,Pat Prospect@9-72,null@72-73",
+      actual: result,
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Transcripts: conversion", async () => {
+      return convertZoomTranscript(
+        TRANSCRIPT_VTT,
+        "2026-10-19T15:01:00Z",
+        new Map([["alex rep", "Alex@example.com"]])
+      );
+    });
+
+    const participants = result.participants
+      .map((p) => `${p.name}<${p.email || ""}>x${p.entriesCount}`)
+      .join(",");
+    const lines = result.textContent.split("\n");
+
+    reporter.log({
+      name: "Transcripts: timed entries, host email on the host's speaker, labelled call text",
+      passed:
+        result.entries.length === 3 &&
+        result.entries[0].startTime === "2026-10-19T15:01:02.000Z" &&
+        result.entries[1].endTime === "2026-10-19T15:02:12.000Z" &&
+        participants ===
+          "Alex Rep<Alex@example.com>x1,Pat Prospect<>x1,Unknown speaker<>x1" &&
+        lines[0] === "[00:02] Alex Rep: Thanks for making time today. What does your current process look like?" &&
+        lines[1] === "[00:09] Pat Prospect: Mostly spreadsheets: one per team.",
+      expected: "3 entries from 15:01:02, host email matched, [mm:ss] labelled lines",
+      actual: `${result.entries.length} entries, ${participants}, "${lines[0]}"`,
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  await zoom.close();
+
+  // =========================================================================
+  // PRINT SUMMARY
+  // =========================================================================
+  reporter.printSummary();
+
+  const exitCode = reporter.getExitCode();
+  if (exitCode !== 0) {
+    console.log("\n⚠️  Some tests failed. Review issues above.");
+  } else {
+    console.log("\n✅ All Zoom connector tests passed!");
+  }
+
+  process.exit(exitCode);
+}
+
+// Run the tests
+runZoomConnectorTests().catch((error) => {
+  console.error("Test suite crashed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,608 @@
+/**
+ * Email Notification Tests
+ *
+ * Tests the parts of email notifications that don't need a database:
+ * - Templates render the right subject and escape user content
+ * - MIME message shape
+ * - SMTP transport against a local fake SMTP server
+ * - File transport output
+ * - Recipient selection, opt-outs and low-score threshold
+ * - Transport resolution from the environment
+ *
+ * Run: npx tsx tests/notifications/email-notification-tests.ts
+ */
+
+import net from "net";
+import os from "os";
+import path from "path";
+import { mkdtemp, readdir, readFile, rm } from "fs/promises";
+import type { AddressInfo } from "net";
+import { TestReporter, measureTest } from "../config";
+import {
+  EmailTransportError,
+  FileTransport,
+  SmtpTransport,
+  buildMimeMessage,
+  getNotificationSettings,
+  isLowScore,
+  renderDailyDigestEmail,
+  renderLowScoreEmail,
+  renderNewCallEmail,
+  resolveEmailTransport,
+  selectRecipients,
+  type EmailMessage,
+  type NotificationRecipient,
+} from "../../src/lib/notifications";
+import type { DashboardStats } from "../../src/lib/dashboard-stats";
+
+// ============================================================================
+// FAKE SMTP SERVER
+// ============================================================================
+
+interface SmtpSession {
+  commands: string[];
+  data: string;
+}
+
+/**
+ * Speaks just enough SMTP for the transport: EHLO, AUTH PLAIN, MAIL, RCPT,
+ * DATA and QUIT. Rejects recipients on the reject list.
+ */
+async function withSmtpServer<T>(
+  options: { rejectRecipient?: string; password?: string },
+  fn: (port: number, sessions: SmtpSession[]) => Promise<T>
+): Promise<T> {
+  const sessions: SmtpSession[] = [];
+
+  const server = net.createServer((socket) => {
+    const session: SmtpSession = { commands: [], data: "" };
+    sessions.push(session);
+
+    let buffer = "";
+    let inData = false;
+
+    socket.write("220 fake.smtp ESMTP ready\r\n");
+
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString();
+
+      while (true) {
+        if (inData) {
+          const end = buffer.indexOf("\r\n.\r\n");
+          if (end === -1) return;
+          session.data = buffer.slice(0, end);
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          socket.write("250 2.0.0 queued\r\n");
+          continue;
+        }
+
+        const index = buffer.indexOf("\r\n");
+        if (index === -1) return;
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        session.commands.push(line);
+
+        const verb = line.split(" ")[0].toUpperCase();
+        if (verb === "EHLO") {
+          socket.write("250-fake.smtp\r\n250-AUTH PLAIN LOGIN\r\n250 8BITMIME\r\n");
+        } else if (verb === "AUTH") {
+          const [, user, password] = Buffer.from(line.split(" ")[2] || "", "base64").toString().split("\0");
+          const ok = user === "mailer" && password === (options.password || "secret");
+          socket.write(ok ? "235 2.7.0 accepted\r\n" : "535 5.7.8 bad credentials\r\n");
+        } else if (verb === "MAIL") {
+          socket.write("250 2.1.0 ok\r\n");
+        } else if (verb === "RCPT") {
+          const rejected = options.rejectRecipient && line.includes(options.rejectRecipient);
+          socket.write(rejected ? "550 5.1.1 no such user\r\n" : "250 2.1.5 ok\r\n");
+        } else if (verb === "DATA") {
+          inData = true;
+          socket.write("354 end with .\r\n");
+        } else if (verb === "QUIT") {
+          socket.end("221 2.0.0 bye\r\n");
+        } else {
+          socket.write("502 5.5.2 not implemented\r\n");
+        }
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    return await fn(port, sessions);
+  } finally {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+}
+
+const message: EmailMessage = {
+  from: "Kalyxi <alerts@kalyxi.test>",
+  to: ["manager@acme.test"],
+  subject: "Low score alert: Zoë scored 42",
+  text: "Line one\n.starts with a dot\nLine three",
+  html: "<p>Hello</p>",
+};
+
+const stats: DashboardStats = {
+  totalCalls: 12,
+  analyzedCalls: 10,
+  averageScore: 71,
+  topScore: 94,
+  callsByStatus: { analyzed: 10, failed: 2 },
+  scoreDistribution: [],
+  callsOverTime: [],
+  recentScores: [
+    { callerId: "c1", callerName: "Ana", score: 94, date: "2026-10-18T10:00:00Z" },
+    { callerId: "c2", callerName: "Ben <script>", score: 88, date: "2026-10-18T11:00:00Z" },
+  ],
+  period: "day",
+  pendingSessionsCount: 3,
+  inProgressSessionsCount: 1,
+  completedSessionsCount: 5,
+  totalActiveSessionsCount: 4,
+};
+
+// Body parts are base64 encoded in the MIME output
+function decodeParts(raw: string): string {
+  const parts: string[] = [];
+  let current: string[] = [];
+
+  for (const line of raw.split("\r\n")) {
+    if (/^[A-Za-z0-9+/=]+$/.test(line)) {
+      current.push(line);
+    } else if (current.length > 0) {
+      parts.push(Buffer.from(current.join(""), "base64").toString("utf8"));
+      current = [];
+    }
+  }
+
+  return parts.join("\n");
+}
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+async function runEmailNotificationTests(): Promise<void> {
+  const reporter = new TestReporter();
+
+  console.log("\n" + "=".repeat(60));
+  console.log("EMAIL NOTIFICATION TESTS");
+  console.log("=".repeat(60));
+
+  // =========================================================================
+  // SECTION 1: TEMPLATES
+  // =========================================================================
+  reporter.setCategory("Templates");
+
+  {
+    const { result, duration } = await measureTest("Templates: low score", async () => {
+      return renderLowScoreEmail({
+        orgName: "Acme & Co",
+        callerName: "Jo <b>",
+        customerName: "Initech",
+        score: 41.6,
+        threshold: 60,
+        summary: "Rushed the close",
+        improvements: ["Ask more questions", "Confirm next steps", "Slow down", "Extra"],
+        callUrl: "https://app.test/dashboard/calls/1?a=1&b=2",
+      });
+    });
+
+    reporter.log({
+      name: "Templates: low score alert has score, threshold and top 3 improvements",
+      passed:
+        result.subject === "Low score alert: Jo <b> scored 42" &&
+        result.text.includes("42 (alert threshold 60)") &&
+        result.text.includes("- Slow down") &&
+        !result.text.includes("Extra") &&
+        result.text.includes("https://app.test/dashboard/calls/1?a=1&b=2"),
+      expected: "subject, threshold, 3 improvements, link",
+      actual: result.subject,
+      duration,
+      severity: "high",
+    });
+
+    reporter.log({
+      name: "Templates: user content is escaped in HTML",
+      passed:
+        result.html.includes("Jo &lt;b&gt;") &&
+        !result.html.includes("Jo <b>") &&
+        result.html.includes("Acme &amp; Co") &&
+        result.html.includes("a=1&amp;b=2"),
+      expected: "escaped caller, org and URL",
+      actual: result.html.match(/Jo [^ ]+/)?.[0] || "",
+      duration: 0,
+      severity: "critical",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Templates: new call and digest", async () => {
+      return {
+        newCall: renderNewCallEmail({
+          orgName: "Acme",
+          callerName: "Ana",
+          customerName: "Pat",
+          customerCompany: "Globex",
+          source: "webhook",
+          callUrl: "https://app.test/dashboard/calls/2",
+        }),
+        digest: renderDailyDigestEmail({
+          orgName: "Acme",
+          date: "2026-10-18",
+          stats,
+          dashboardUrl: "https://app.test/dashboard",
+        }),
+      };
+    });
+
+    reporter.log({
+      name: "Templates: new call notice and daily digest render their stats",
+      passed:
+        result.newCall.subject === "New call from Ana" &&
+        result.newCall.text.includes("Customer: Pat (Globex)") &&
+        result.digest.subject === "Daily digest for 2026-10-18" &&
+        result.digest.text.includes("Calls: 12") &&
+        result.digest.text.includes("Failed: 2") &&
+        result.digest.text.includes("1. Ana - 94") &&
+        result.digest.html.includes("Ben &lt;script&gt;"),
+      expected: "subjects, counts, top calls",
+      actual: `${result.newCall.subject} | ${result.digest.subject}`,
+      duration,
+      severity: "medium",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 2: MIME
+  // =========================================================================
+  reporter.setCategory("MIME");
+
+  {
+    const { result, duration } = await measureTest("MIME: message", async () => {
+      return buildMimeMessage(message, {
+        messageId: "<abc@kalyxi.test>",
+        date: new Date("2026-10-18T07:00:00Z"),
+      });
+    });
+
+    const decoded = decodeParts(result);
+
+    reporter.log({
+      name: "MIME: multipart/alternative with encoded subject and CRLF line endings",
+      passed:
+        result.includes("Message-ID: <abc@kalyxi.test>") &&
+        result.includes("Subject: =?UTF-8?B?") &&
+        result.includes("multipart/alternative") &&
+        !/[^\r]\n/.test(result) &&
+        decoded.includes(".starts with a dot") &&
+        decoded.includes("<p>Hello</p>"),
+      expected: "headers, both parts, CRLF",
+      actual: result.split("\r\n").slice(0, 6).join(" | "),
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("MIME: header injection", async () => {
+      return buildMimeMessage(
+        { ...message, subject: "Hi\r\nBcc: victim@evil.test" },
+        { messageId: "<abc@kalyxi.test>" }
+      );
+    });
+
+    reporter.log({
+      name: "MIME: newlines in headers can't inject extra headers",
+      passed: !/\r\nBcc:/i.test(result),
+      expected: "no Bcc header",
+      actual: result.split("\r\n").filter((l) => /^Subject|^Bcc/i.test(l)).join(" | "),
+      duration,
+      severity: "critical",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 3: SMTP TRANSPORT
+  // =========================================================================
+  reporter.setCategory("SMTP Transport");
+
+  {
+    const { result, duration } = await measureTest("SMTP: send", async () => {
+      return withSmtpServer({}, async (port, sessions) => {
+        const transport = new SmtpTransport({
+          host: "127.0.0.1",
+          port,
+          user: "mailer",
+          password: "secret",
+          ignoreTLS: true,
+          timeoutMs: 5000,
+        });
+        const sent = await transport.send(message);
+        return { sent, session: sessions[0] };
+      });
+    });
+
+    const verbs = result.session.commands.map((c) => c.split(" ")[0].toUpperCase());
+
+    reporter.log({
+      name: "SMTP: EHLO, AUTH, MAIL, RCPT, DATA, QUIT with the message delivered",
+      passed:
+        JSON.stringify(verbs) === JSON.stringify(["EHLO", "AUTH", "MAIL", "RCPT", "DATA", "QUIT"]) &&
+        result.session.commands[2] === "MAIL FROM:<alerts@kalyxi.test>" &&
+        result.session.commands[3] === "RCPT TO:<manager@acme.test>" &&
+        result.session.data.includes(`Message-ID: ${result.sent.messageId}`),
+      expected: "full session",
+      actual: JSON.stringify(verbs),
+      duration,
+      severity: "critical",
+    });
+
+    const body = decodeParts(result.session.data);
+
+    reporter.log({
+      name: "SMTP: text and HTML bodies arrive intact",
+      passed: body.includes("Line one\n.starts with a dot\nLine three") && body.includes("<p>Hello</p>"),
+      expected: "both bodies",
+      actual: JSON.stringify(body.slice(0, 80)),
+      duration: 0,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("SMTP: bad credentials", async () => {
+      return withSmtpServer({ password: "other" }, async (port) => {
+        const transport = new SmtpTransport({
+          host: "127.0.0.1",
+          port,
+          user: "mailer",
+          password: "secret",
+          ignoreTLS: true,
+          timeoutMs: 5000,
+        });
+        return transport.send(message).then(() => null, (error: unknown) => error);
+      });
+    });
+
+    reporter.log({
+      name: "SMTP: rejected AUTH throws EmailTransportError with the reply code",
+      passed: result instanceof EmailTransportError && result.code === 535,
+      expected: "EmailTransportError 535",
+      actual: result instanceof Error ? `${result.name}: ${result.message}` : String(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("SMTP: rejected recipient", async () => {
+      return withSmtpServer({ rejectRecipient: "manager@acme.test" }, async (port) => {
+        const transport = new SmtpTransport({ host: "127.0.0.1", port, ignoreTLS: true, timeoutMs: 5000 });
+        return transport.send(message).then(() => null, (error: unknown) => error);
+      });
+    });
+
+    reporter.log({
+      name: "SMTP: rejected recipient fails the send",
+      passed: result instanceof EmailTransportError && result.code === 550,
+      expected: "EmailTransportError 550",
+      actual: result instanceof Error ? result.message : String(result),
+      duration,
+      severity: "medium",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("SMTP: requireTLS", async () => {
+      return withSmtpServer({}, async (port) => {
+        const transport = new SmtpTransport({ host: "127.0.0.1", port, requireTLS: true, timeoutMs: 5000 });
+        return transport.send(message).then(() => null, (error: unknown) => error);
+      });
+    });
+
+    reporter.log({
+      name: "SMTP: requireTLS refuses to send when STARTTLS isn't offered",
+      passed: result instanceof EmailTransportError && /STARTTLS/.test(result.message),
+      expected: "STARTTLS error",
+      actual: result instanceof Error ? result.message : String(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("SMTP: unreachable", async () => {
+      // Bind and release a port so nothing is listening on it
+      const port = await withSmtpServer({}, async (p) => p);
+      const transport = new SmtpTransport({ host: "127.0.0.1", port, timeoutMs: 5000 });
+      return transport.send(message).then(() => null, (error: unknown) => error);
+    });
+
+    reporter.log({
+      name: "SMTP: connection errors surface as EmailTransportError",
+      passed: result instanceof EmailTransportError && result.transport === "smtp",
+      expected: "EmailTransportError",
+      actual: result instanceof Error ? result.message : String(result),
+      duration,
+      severity: "medium",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 4: FILE TRANSPORT
+  // =========================================================================
+  reporter.setCategory("File Transport");
+
+  {
+    const { result, duration } = await measureTest("File: writes .eml", async () => {
+      const directory = await mkdtemp(path.join(os.tmpdir(), "kalyxi-emails-"));
+      try {
+        const sent = await new FileTransport(path.join(directory, "out")).send(message);
+        const files = await readdir(path.join(directory, "out"));
+        const content = await readFile(path.join(directory, "out", files[0]), "utf8");
+        return { sent, files, content };
+      } finally {
+        await rm(directory, { recursive: true, force: true });
+      }
+    });
+
+    reporter.log({
+      name: "File: each email is written as an .eml file in the directory",
+      passed:
+        result.files.length === 1 &&
+        result.files[0].endsWith(".eml") &&
+        result.content.includes(`Message-ID: ${result.sent.messageId}`) &&
+        result.content.includes("To: manager@acme.test"),
+      expected: "one .eml with headers",
+      actual: JSON.stringify(result.files),
+      duration,
+      severity: "medium",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 5: RECIPIENTS & SETTINGS
+  // =========================================================================
+  reporter.setCategory("Recipients");
+
+  const users: NotificationRecipient[] = [
+    { id: "u1", email: "admin@acme.test", role: "admin", is_active: true },
+    { id: "u2", email: "manager@acme.test", role: "manager", is_active: true },
+    { id: "u3", email: "caller@acme.test", role: "caller", is_active: true },
+    { id: "u4", email: "gone@acme.test", role: "admin", is_active: false },
+    { id: "u5", email: "coach@acme.test", role: "coach", is_active: true },
+  ];
+
+  {
+    const { result, duration } = await measureTest("Recipients: selection", async () => {
+      const preferences = [
+        { user_id: "u2", email_new_call: false, email_low_score: true, email_daily_digest: true },
+      ];
+      return {
+        newCall: selectRecipients(users, preferences, "new_call").map((u) => u.id),
+        lowScore: selectRecipients(users, preferences, "low_score").map((u) => u.id),
+      };
+    });
+
+    reporter.log({
+      name: "Recipients: active admins and managers only, minus opt-outs per type",
+      passed:
+        JSON.stringify(result.newCall) === JSON.stringify(["u1"]) &&
+        JSON.stringify(result.lowScore) === JSON.stringify(["u1", "u2"]),
+      expected: 'new_call ["u1"], low_score ["u1","u2"]',
+      actual: JSON.stringify(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Settings: defaults and threshold", async () => {
+      return {
+        defaults: getNotificationSettings(null),
+        merged: getNotificationSettings({ notifications: { lowScoreThreshold: 75 } }),
+        below: isLowScore(59, 60),
+        at: isLowScore(60, 60),
+        missing: isLowScore(null, 60),
+      };
+    });
+
+    reporter.log({
+      name: "Settings: defaults fill gaps and only scores below the threshold alert",
+      passed:
+        result.defaults.emailOnLowScore === true &&
+        result.defaults.lowScoreThreshold === 60 &&
+        result.defaults.dailyDigest === false &&
+        result.merged.lowScoreThreshold === 75 &&
+        result.merged.emailOnNewCall === true &&
+        result.below &&
+        !result.at &&
+        !result.missing,
+      expected: "defaults, merge, strict threshold",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 6: TRANSPORT RESOLUTION
+  // =========================================================================
+  reporter.setCategory("Transport Resolution");
+
+  {
+    const { result, duration } = await measureTest("Resolution: environment", async () => {
+      const env = process.env as Record<string, string | undefined>;
+      const saved = {
+        EMAIL_TRANSPORT: env.EMAIL_TRANSPORT,
+        SMTP_HOST: env.SMTP_HOST,
+        NODE_ENV: env.NODE_ENV,
+      };
+
+      const resolveWith = (vars: Record<string, string>) => {
+        for (const key of Object.keys(saved)) delete env[key];
+        Object.assign(env, { NODE_ENV: "development" }, vars);
+        try {
+          return resolveEmailTransport()?.name ?? null;
+        } catch (error) {
+          return error instanceof EmailTransportError ? "error" : "unexpected";
+        }
+      };
+
+      try {
+        return {
+          dev: resolveWith({}),
+          production: resolveWith({ NODE_ENV: "production" }),
+          smtpHost: resolveWith({ SMTP_HOST: "smtp.example.com", NODE_ENV: "production" }),
+          explicitFile: resolveWith({ EMAIL_TRANSPORT: "file", SMTP_HOST: "smtp.example.com" }),
+          unknown: resolveWith({ EMAIL_TRANSPORT: "carrier-pigeon" }),
+          smtpWithoutHost: resolveWith({ EMAIL_TRANSPORT: "smtp" }),
+        };
+      } finally {
+        for (const [key, value] of Object.entries(saved)) {
+          if (value === undefined) delete env[key];
+          else env[key] = value;
+        }
+      }
+    });
+
+    reporter.log({
+      name: "Resolution: console in dev, nothing in production without SMTP, explicit choice wins",
+      passed:
+        result.dev === "console" &&
+        result.production === null &&
+        result.smtpHost === "smtp" &&
+        result.explicitFile === "file" &&
+        result.unknown === "error" &&
+        result.smtpWithoutHost === "error",
+      expected: "console, null, smtp, file, error, error",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  // =========================================================================
+  // PRINT SUMMARY
+  // =========================================================================
+  reporter.printSummary();
+
+  const exitCode = reporter.getExitCode();
+  if (exitCode !== 0) {
+    console.log("\n⚠️  Some tests failed. Review issues above.");
+  } else {
+    console.log("\n✅ All email notification tests passed!");
+  }
+
+  process.exit(exitCode);
+}
+
+// Run the tests
+runEmailNotificationTests().catch((error) => {
+  console.error("Test suite crashed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,458 @@
+/**
+ * Report Export Tests
+ *
+ * Tests the parts of report generation that don't need a database:
+ * - Session, criteria and score-distribution aggregation
+ * - CSV quoting and formula escaping
+ * - XLSX package structure (zip entries, CRCs, sheets)
+ * - PDF structure (xref offsets, pagination, text)
+ *
+ * Run: npx tsx tests/reports/report-export-tests.ts
+ */
+
+import { inflateRawSync, inflateSync } from "zlib";
+import { TestReporter, measureTest } from "../config";
+import {
+  formatCsvCell,
+  rangeBounds,
+  renderCsv,
+  renderPdf,
+  renderReport,
+  renderXlsx,
+  reportFileName,
+  scoreDistribution,
+  summarizeCriteria,
+  summarizeSessions,
+  type ReportDocument,
+} from "../../src/lib/reports";
+import { crc32 } from "../../src/lib/reports/zip";
+import { fitText, textWidth, toWinAnsi } from "../../src/lib/reports/pdf";
+import { columnName, sheetName } from "../../src/lib/reports/xlsx";
+import type { ReportSession } from "../../src/lib/reports/data";
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+function session(overrides: Partial<ReportSession>): ReportSession {
+  return {
+    id: Math.random().toString(36).slice(2),
+    template_id: "t1",
+    agent_id: "a1",
+    status: "completed",
+    percentage_score: 80,
+    pass_status: "pass",
+    has_auto_fail: false,
+    created_at: "2026-10-01T10:00:00Z",
+    ...overrides,
+  };
+}
+
+function sampleReport(rows = 3): ReportDocument {
+  return {
+    title: "Team Performance Report",
+    orgName: "Acme & Söhne",
+    dateFrom: "2026-09-01",
+    dateTo: "2026-09-30",
+    generatedAt: "2026-10-01 08:00 UTC",
+    summary: [
+      { label: "Sessions", value: 42 },
+      { label: "Average score (%)", value: 76.4 },
+      { label: "Pass rate (%)", value: null },
+    ],
+    tables: [
+      {
+        title: "Agent Performance",
+        columns: ["Agent", "Sessions", "Avg Score (%)"],
+        rows: Array.from({ length: rows }, (_, i) => [
+          i === 0 ? 'Zoë "Z" O\'Neil, Jr.' : `Agent ${i}`,
+          i + 1,
+          i === 1 ? null : 70 + i / 10,
+        ]),
+      },
+      {
+        title: "Criteria: Opening / Close [v2]",
+        columns: ["Criterion", "Avg"],
+        rows: [["=HYPERLINK(\"http://evil\")", 50]],
+      },
+    ],
+  };
+}
+
+// Reads every entry out of a ZIP via its central directory
+function readZip(buffer: Buffer): Map<string, { data: Buffer; crcOk: boolean }> {
+  const entries = new Map<string, { data: Buffer; crcOk: boolean }>();
+  const endOffset = buffer.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const count = buffer.readUInt16LE(endOffset + 10);
+  let offset = buffer.readUInt32LE(endOffset + 16);
+
+  for (let i = 0; i < count; i++) {
+    const crc = buffer.readUInt32LE(offset + 16);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.subarray(offset + 46, offset + 46 + nameLength).toString("utf8");
+
+    const localNameLength = buffer.readUInt16LE(localOffset + 26);
+    const localExtraLength = buffer.readUInt16LE(localOffset + 28);
+    const start = localOffset + 30 + localNameLength + localExtraLength;
+    const data = inflateRawSync(buffer.subarray(start, start + compressedSize));
+
+    entries.set(name, { data, crcOk: crc32(data) === crc });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+// Decompressed content streams of a PDF
+function pdfStreams(pdf: Buffer): string[] {
+  const text = pdf.toString("latin1");
+  const streams: string[] = [];
+  const pattern = /<< \/Length (\d+) \/Filter \/FlateDecode >>\nstream\n/g;
+  let match;
+  while ((match = pattern.exec(text))) {
+    const start = match.index + match[0].length;
+    streams.push(inflateSync(pdf.subarray(start, start + parseInt(match[1], 10))).toString("latin1"));
+  }
+  return streams;
+}
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+async function runReportExportTests(): Promise<void> {
+  const reporter = new TestReporter();
+
+  console.log("\n" + "=".repeat(60));
+  console.log("REPORT EXPORT TESTS");
+  console.log("=".repeat(60));
+
+  // =========================================================================
+  // SECTION 1: AGGREGATION
+  // =========================================================================
+  reporter.setCategory("Aggregation");
+
+  {
+    const { result, duration } = await measureTest("Aggregation: sessions", async () => {
+      return summarizeSessions([
+        session({ percentage_score: 90, pass_status: "pass" }),
+        session({ percentage_score: 50, pass_status: "fail", has_auto_fail: true }),
+        session({ status: "reviewed", percentage_score: 70, pass_status: "pass" }),
+        session({ status: "pending", percentage_score: null, pass_status: "pending" }),
+        session({ status: "in_progress", percentage_score: 10, pass_status: null }),
+      ]);
+    });
+
+    reporter.log({
+      name: "Aggregation: averages and pass rate only count completed sessions",
+      passed:
+        result.total === 5 &&
+        result.completed === 3 &&
+        result.averageScore === 70 &&
+        result.passRate === 66.7 &&
+        result.autoFails === 1,
+      expected: "total 5, completed 3, avg 70, pass 66.7, auto-fails 1",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Aggregation: criteria and distribution", async () => {
+      return {
+        criteria: summarizeCriteria([
+          { session_id: "s1", criteria_id: "c1", normalized_score: 100 },
+          { session_id: "s2", criteria_id: "c1", normalized_score: 50 },
+          { session_id: "s3", criteria_id: "c1", normalized_score: 0, is_na: true },
+          { session_id: "s1", criteria_id: "c2", normalized_score: 0, is_auto_fail_triggered: true },
+        ]),
+        distribution: scoreDistribution([0, 20, 20.5, 60, 80.1, 100]).map((b) => b.count),
+        empty: summarizeSessions([]),
+      };
+    });
+
+    const c1 = result.criteria.find((c) => c.criteriaId === "c1");
+    const c2 = result.criteria.find((c) => c.criteriaId === "c2");
+
+    reporter.log({
+      name: "Aggregation: N/A answers are skipped and every score lands in one bucket",
+      passed:
+        c1?.timesScored === 2 &&
+        c1.averageScore === 75 &&
+        c2?.autoFails === 1 &&
+        JSON.stringify(result.distribution) === JSON.stringify([2, 1, 1, 0, 2]) &&
+        result.empty.averageScore === null &&
+        result.empty.passRate === null,
+      expected: "c1 75 over 2, buckets [2,1,1,0,2], empty -> null",
+      actual: JSON.stringify({ c1, c2, distribution: result.distribution }),
+      duration,
+      severity: "medium",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Aggregation: date range", async () => {
+      return {
+        bounds: rangeBounds("2026-02-01", "2026-02-28"),
+        fileName: reportFileName({ name: "Caller Report: Zoë / Q3 2026", format: "xlsx" }),
+      };
+    });
+
+    reporter.log({
+      name: "Aggregation: the end date is inclusive and file names are safe",
+      passed:
+        result.bounds.from === "2026-02-01T00:00:00.000Z" &&
+        result.bounds.to === "2026-03-01T00:00:00.000Z" &&
+        result.fileName === "caller-report-zo-q3-2026.xlsx",
+      expected: "2026-02-01 .. 2026-03-01, caller-report-zo-q3-2026.xlsx",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "medium",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 2: CSV
+  // =========================================================================
+  reporter.setCategory("CSV");
+
+  {
+    const { result, duration } = await measureTest("CSV: render", async () => {
+      return renderCsv(sampleReport()).toString("utf8");
+    });
+
+    const lines = result.split("\r\n");
+
+    reporter.log({
+      name: "CSV: BOM, CRLF rows, quoted commas and doubled quotes",
+      passed:
+        result.startsWith("﻿") &&
+        lines.includes('"Zoë ""Z"" O\'Neil, Jr.",1,70') &&
+        lines.includes("Agent 1,2,") &&
+        lines.includes("Agent Performance") &&
+        lines.includes("Sessions,42"),
+      expected: "escaped rows",
+      actual: JSON.stringify(lines.slice(0, 12)),
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("CSV: formulas", async () => {
+      return ["=1+1", "+SUM(A1)", "-2", "@cmd", "plain"].map(formatCsvCell).concat(formatCsvCell(-2));
+    });
+
+    reporter.log({
+      name: "CSV: text that looks like a formula is neutralised, numbers are not",
+      passed: JSON.stringify(result) === JSON.stringify(["'=1+1", "'+SUM(A1)", "'-2", "'@cmd", "plain", "-2"]),
+      expected: "quote-prefixed text, raw -2 number",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "critical",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 3: XLSX
+  // =========================================================================
+  reporter.setCategory("XLSX");
+
+  {
+    const { result, duration } = await measureTest("XLSX: package", async () => {
+      return readZip(renderXlsx(sampleReport()));
+    });
+
+    const workbook = result.get("xl/workbook.xml")?.data.toString("utf8") || "";
+    const agents = result.get("xl/worksheets/sheet2.xml")?.data.toString("utf8") || "";
+    const criteria = result.get("xl/worksheets/sheet3.xml")?.data.toString("utf8") || "";
+
+    reporter.log({
+      name: "XLSX: all package parts present with valid CRCs",
+      passed:
+        ["[Content_Types].xml", "_rels/.rels", "xl/workbook.xml", "xl/_rels/workbook.xml.rels", "xl/styles.xml"].every(
+          (name) => result.has(name)
+        ) &&
+        result.size === 8 &&
+        [...result.values()].every((entry) => entry.crcOk),
+      expected: "8 entries, CRCs ok",
+      actual: JSON.stringify([...result.keys()]),
+      duration,
+      severity: "critical",
+    });
+
+    reporter.log({
+      name: "XLSX: one sheet per table, numbers stay numeric, text is escaped",
+      passed:
+        workbook.includes('<sheet name="Summary"') &&
+        workbook.includes('<sheet name="Agent Performance"') &&
+        workbook.includes('<sheet name="Criteria  Opening   Close  v2"') &&
+        agents.includes('<c r="B2"><v>1</v></c>') &&
+        agents.includes("Zoë &quot;Z&quot; O'Neil, Jr.") &&
+        !agents.includes('r="C3"') &&
+        criteria.includes("=HYPERLINK(&quot;http://evil&quot;)") &&
+        criteria.includes('t="inlineStr"'),
+      expected: "sheets, numeric cells, escaped strings",
+      actual: workbook.match(/<sheets>.*<\/sheets>/)?.[0] || workbook,
+      duration: 0,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("XLSX: naming", async () => {
+      const used = new Set<string>();
+      return {
+        columns: [0, 25, 26, 701, 702].map(columnName),
+        names: [
+          sheetName("Summary", used),
+          sheetName("summary", used),
+          sheetName("A very long table title that keeps going past the limit", used),
+          sheetName("A very long table title that keeps going past the limit", used),
+        ],
+      };
+    });
+
+    reporter.log({
+      name: "XLSX: column letters and unique 31-character sheet names",
+      passed:
+        JSON.stringify(result.columns) === JSON.stringify(["A", "Z", "AA", "ZZ", "AAA"]) &&
+        result.names[1] === "summary (2)" &&
+        result.names.every((name) => name.length <= 31) &&
+        result.names[2] !== result.names[3],
+      expected: "A, Z, AA, ZZ, AAA and unique names",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "medium",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 4: PDF
+  // =========================================================================
+  reporter.setCategory("PDF");
+
+  {
+    const { result, duration } = await measureTest("PDF: structure", async () => {
+      return renderPdf(sampleReport(120));
+    });
+
+    const text = result.toString("latin1");
+    const startxref = parseInt(text.match(/startxref\n(\d+)\n%%EOF/)?.[1] || "-1", 10);
+    const xrefEntries = [...text.matchAll(/^(\d{10}) 00000 n $/gm)].map((m) => parseInt(m[1], 10));
+    const offsetsOk = xrefEntries.every((offset, i) => text.startsWith(`${i + 1} 0 obj`, offset));
+    const pageCount = parseInt(text.match(/\/Type \/Pages .* \/Count (\d+)/)?.[1] || "0", 10);
+    const streams = pdfStreams(result);
+
+    reporter.log({
+      name: "PDF: header, trailer and every xref offset points at its object",
+      passed:
+        text.startsWith("%PDF-1.4") &&
+        text.trimEnd().endsWith("%%EOF") &&
+        text.startsWith("xref", startxref) &&
+        xrefEntries.length > 0 &&
+        offsetsOk,
+      expected: "valid xref",
+      actual: `startxref=${startxref} objects=${xrefEntries.length} offsetsOk=${offsetsOk}`,
+      duration,
+      severity: "critical",
+    });
+
+    reporter.log({
+      name: "PDF: long tables paginate and repeat their header",
+      passed:
+        pageCount >= 2 &&
+        streams.length === pageCount &&
+        streams[1].includes("(Agent Performance \\(continued\\)) Tj") &&
+        streams[pageCount - 1].includes(`(Page ${pageCount} of ${pageCount}) Tj`),
+      expected: ">= 2 pages with continued header and page numbers",
+      actual: `pages=${pageCount}`,
+      duration: 0,
+      severity: "high",
+    });
+
+    reporter.log({
+      name: "PDF: text is escaped and non-ASCII is WinAnsi encoded",
+      passed:
+        streams[0].includes("(Acme & S\\366hne) Tj") &&
+        streams[0].includes('(Zo\\353 "Z" O\'Neil, Jr.) Tj') &&
+        streams[0].includes("(Team Performance Report) Tj"),
+      expected: "octal escapes for ö and ë",
+      actual: streams[0].split("\n").slice(0, 4).join(" | "),
+      duration: 0,
+      severity: "medium",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("PDF: text helpers", async () => {
+      return {
+        ansi: toWinAnsi("a€—日"),
+        width: textWidth("Hello", "regular", 10),
+        fitted: fitText("A rather long agent name", "regular", 9, 50),
+      };
+    });
+
+    reporter.log({
+      name: "PDF: WinAnsi mapping, Helvetica metrics and truncation",
+      passed:
+        JSON.stringify(result.ansi) === JSON.stringify([97, 0x80, 0x97, 63]) &&
+        Math.abs(result.width - 22.78) < 0.01 &&
+        result.fitted.endsWith("...") &&
+        textWidth(result.fitted, "regular", 9) <= 50,
+      expected: "[97,128,151,63], 22.78, fitted within 50pt",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "medium",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Render: formats", async () => {
+      const report = sampleReport();
+      return (["pdf", "csv", "xlsx"] as const).map((format) => {
+        const rendered = renderReport(report, format);
+        return { format, contentType: rendered.contentType, magic: rendered.body.subarray(0, 4).toString("latin1") };
+      });
+    });
+
+    reporter.log({
+      name: "Render: each format has its content type and file signature",
+      passed:
+        result[0].magic === "%PDF" &&
+        result[0].contentType === "application/pdf" &&
+        result[1].contentType.startsWith("text/csv") &&
+        result[2].magic === "PK\x03\x04" &&
+        result[2].contentType.includes("spreadsheetml"),
+      expected: "%PDF, text/csv, PK zip",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  // =========================================================================
+  // PRINT SUMMARY
+  // =========================================================================
+  reporter.printSummary();
+
+  const exitCode = reporter.getExitCode();
+  if (exitCode !== 0) {
+    console.log("\n⚠️  Some tests failed. Review issues above.");
+  } else {
+    console.log("\n✅ All report export tests passed!");
+  }
+
+  process.exit(exitCode);
+}
+
+// Run the tests
+runReportExportTests().catch((error) => {
+  console.error("Test suite crashed:", error);
+  process.exit(1);
+});
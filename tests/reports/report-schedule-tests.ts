@@ -0,0 +1,415 @@
+/**
+ * Report Schedule Tests
+ *
+ * Tests the parts of scheduled reports that don't need a database:
+ * - Cron parsing and next-run calculation across DST changes
+ * - Org timezone conversions and date windows
+ * - Schedule definition validation
+ * - Email attachments and the scheduled report email
+ *
+ * Run: npx tsx tests/reports/report-schedule-tests.ts
+ */
+
+import { TestReporter, measureTest } from "../config";
+import {
+  CronExpressionError,
+  getNextCronRun,
+  parseCronExpression,
+  rangeBounds,
+} from "../../src/lib/reports";
+import { fromZonedTime, resolveTimeZone, toZonedTime } from "../../src/lib/reports/timezone";
+import {
+  resolveDateWindow,
+  validateScheduleDefinition,
+  type ReportScheduleDefinition,
+} from "../../src/lib/reports/schedules";
+import { buildMimeMessage, renderScheduledReportEmail } from "../../src/lib/notifications";
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+function definition(overrides: Partial<ReportScheduleDefinition>): ReportScheduleDefinition {
+  return {
+    report_type: "team_performance",
+    agent_id: null,
+    template_id: null,
+    cron_expression: "0 8 * * 1",
+    delivery_channel: "email",
+    recipient_ids: ["00000000-0000-0000-0000-000000000001"],
+    webhook_subscription_id: null,
+    ...overrides,
+  };
+}
+
+function throwsCronError(fn: () => unknown): boolean {
+  try {
+    fn();
+    return false;
+  } catch (error) {
+    return error instanceof CronExpressionError;
+  }
+}
+
+// Splits a MIME message into its parts' headers and decoded bodies
+function mimeParts(message: string, boundary: string): { headers: string; body: Buffer }[] {
+  return message
+    .split(`--${boundary}`)
+    .slice(1, -1)
+    .map((chunk) => {
+      const [headers, ...rest] = chunk.trim().split("\r\n\r\n");
+      return { headers, body: Buffer.from(rest.join("\r\n\r\n").replace(/\r\n/g, ""), "base64") };
+    });
+}
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+async function runReportScheduleTests(): Promise<void> {
+  const reporter = new TestReporter();
+
+  console.log("\n" + "=".repeat(60));
+  console.log("REPORT SCHEDULE TESTS");
+  console.log("=".repeat(60));
+
+  // =========================================================================
+  // SECTION 1: CRON EXPRESSIONS
+  // =========================================================================
+  reporter.setCategory("Cron");
+
+  {
+    const { result, duration } = await measureTest("Cron: parsing", async () => {
+      const business = parseCronExpression("*/15 9-17 * * mon-fri");
+      const sunday = parseCronExpression("0 8 * jan,jul 7");
+      return {
+        minutes: [...business.minutes].sort((a, b) => a - b),
+        hours: business.hours.size,
+        weekdays: [...business.daysOfWeek].sort(),
+        months: [...sunday.months].sort((a, b) => a - b),
+        sunday: [...sunday.daysOfWeek],
+      };
+    });
+
+    reporter.log({
+      name: "Cron: steps, ranges, names and 7 as Sunday",
+      passed:
+        result.minutes.join(",") === "0,15,30,45" &&
+        result.hours === 9 &&
+        result.weekdays.join(",") === "1,2,3,4,5" &&
+        result.months.join(",") === "1,7" &&
+        result.sunday.join(",") === "0",
+      expected: "minutes 0,15,30,45; 9 hours; Mon-Fri; Jan and Jul; Sunday 0",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const invalid = ["* * * *", "60 * * * *", "0 24 * * *", "0 8 * * 8", "0 8 0 * *", "a b c d e", "*/0 * * * *", "5-1 * * * *"];
+    const { result, duration } = await measureTest("Cron: invalid expressions", async () => {
+      return invalid.filter((expression) => !throwsCronError(() => parseCronExpression(expression)));
+    });
+
+    reporter.log({
+      name: "Cron: malformed and out-of-range expressions are rejected",
+      passed: result.length === 0,
+      expected: "All rejected with CronExpressionError",
+      actual: result.length === 0 ? "All rejected" : `Accepted: ${result.join(" | ")}`,
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Cron: next run", async () => {
+      return {
+        // A run exactly at the boundary is not "after" it
+        weekly: getNextCronRun("0 8 * * 1", new Date("2026-10-19T08:00:00Z"), "UTC").toISOString(),
+        // Day-of-month and day-of-week match either way when both are set
+        either: getNextCronRun("0 0 1 * 1", new Date("2026-10-27T00:00:00Z"), "UTC").toISOString(),
+        zoned: getNextCronRun("0 8 * * *", new Date("2026-10-19T00:00:00Z"), "Asia/Tokyo").toISOString(),
+        never: throwsCronError(() => getNextCronRun("0 0 30 2 *", new Date("2026-10-19T00:00:00Z"), "UTC")),
+      };
+    });
+
+    reporter.log({
+      name: "Cron: next run is strictly later, in the schedule's timezone",
+      passed:
+        result.weekly === "2026-10-26T08:00:00.000Z" &&
+        result.either === "2026-11-01T00:00:00.000Z" &&
+        result.zoned === "2026-10-19T23:00:00.000Z" &&
+        result.never,
+      expected: "Oct 26 08:00Z, Nov 1 00:00Z, Oct 19 23:00Z (08:00 JST), Feb 30 never fires",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Cron: DST", async () => {
+      const zone = "America/New_York";
+      return {
+        // Clocks go forward on Mar 8: 08:00 is EST before and EDT after
+        beforeSpring: getNextCronRun("0 8 * * *", new Date("2026-03-07T00:00:00Z"), zone).toISOString(),
+        afterSpring: getNextCronRun("0 8 * * *", new Date("2026-03-07T14:00:00Z"), zone).toISOString(),
+        // 02:30 doesn't exist on Mar 8, so it runs at 03:30 EDT
+        gap: getNextCronRun("30 2 * * *", new Date("2026-03-08T00:00:00Z"), zone).toISOString(),
+        // 01:30 happens twice on Nov 1; the run happens once, at the first
+        overlap: getNextCronRun("30 1 * * *", new Date("2026-11-01T00:00:00Z"), zone).toISOString(),
+        afterOverlap: getNextCronRun("30 1 * * *", new Date("2026-11-01T05:30:00Z"), zone).toISOString(),
+      };
+    });
+
+    reporter.log({
+      name: "Cron: wall-clock runs survive DST gaps and overlaps",
+      passed:
+        result.beforeSpring === "2026-03-07T13:00:00.000Z" &&
+        result.afterSpring === "2026-03-08T12:00:00.000Z" &&
+        result.gap === "2026-03-08T07:30:00.000Z" &&
+        result.overlap === "2026-11-01T05:30:00.000Z" &&
+        result.afterOverlap === "2026-11-02T06:30:00.000Z",
+      expected: "13:00Z, 12:00Z, 07:30Z, 05:30Z then next day 06:30Z",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "critical",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 2: TIMEZONES AND DATE WINDOWS
+  // =========================================================================
+  reporter.setCategory("Timezones");
+
+  {
+    const { result, duration } = await measureTest("Timezones: conversions", async () => {
+      return {
+        tokyo: toZonedTime(new Date("2026-10-19T23:30:00Z"), "Asia/Tokyo"),
+        roundTrip: fromZonedTime({ year: 2026, month: 10, day: 20, hour: 8, minute: 30 }, "Asia/Tokyo").toISOString(),
+        unknown: resolveTimeZone("Mars/Olympus_Mons"),
+        empty: resolveTimeZone(null),
+        known: resolveTimeZone("Europe/Berlin"),
+        bounds: rangeBounds("2026-10-01", "2026-10-31", "America/New_York"),
+      };
+    });
+
+    reporter.log({
+      name: "Timezones: wall clock conversions, UTC fallback and report bounds",
+      passed:
+        result.tokyo.day === 20 &&
+        result.tokyo.hour === 8 &&
+        result.tokyo.minute === 30 &&
+        result.tokyo.weekday === 2 &&
+        result.roundTrip === "2026-10-19T23:30:00.000Z" &&
+        result.unknown === "UTC" &&
+        result.empty === "UTC" &&
+        result.known === "Europe/Berlin" &&
+        // Oct 1 is EDT (-4), Nov 1 midnight is still EDT
+        result.bounds.from === "2026-10-01T04:00:00.000Z" &&
+        result.bounds.to === "2026-11-01T04:00:00.000Z",
+      expected: "Tue Oct 20 08:30 JST, UTC fallback, New York midnights",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Timezones: date windows", async () => {
+      // Monday Oct 19 2026, 06:00 UTC
+      const runAt = new Date("2026-10-19T06:00:00Z");
+      return {
+        yesterday: resolveDateWindow("yesterday", runAt, "UTC"),
+        last7: resolveDateWindow("last_7_days", runAt, "UTC"),
+        last30: resolveDateWindow("last_30_days", runAt, "UTC"),
+        week: resolveDateWindow("previous_week", runAt, "UTC"),
+        month: resolveDateWindow("previous_month", runAt, "UTC"),
+        mtd: resolveDateWindow("month_to_date", runAt, "UTC"),
+        // Sunday evening in Los Angeles; six hours later it's Tuesday in Auckland
+        auckland: resolveDateWindow("yesterday", new Date("2026-10-19T12:00:00Z"), "Pacific/Auckland"),
+        losAngeles: resolveDateWindow("previous_week", runAt, "America/Los_Angeles"),
+        january: resolveDateWindow("previous_month", new Date("2026-01-05T12:00:00Z"), "UTC"),
+      };
+    });
+
+    const range = (window: { dateFrom: string; dateTo: string }) => `${window.dateFrom}..${window.dateTo}`;
+
+    reporter.log({
+      name: "Timezones: date windows end yesterday in the org's timezone",
+      passed:
+        range(result.yesterday) === "2026-10-18..2026-10-18" &&
+        range(result.last7) === "2026-10-12..2026-10-18" &&
+        range(result.last30) === "2026-09-19..2026-10-18" &&
+        range(result.week) === "2026-10-12..2026-10-18" &&
+        range(result.month) === "2026-09-01..2026-09-30" &&
+        range(result.mtd) === "2026-10-01..2026-10-19" &&
+        range(result.auckland) === "2026-10-19..2026-10-19" &&
+        range(result.losAngeles) === "2026-10-05..2026-10-11" &&
+        range(result.january) === "2025-12-01..2025-12-31",
+      expected: "Windows relative to the local date of the run",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 3: SCHEDULE DEFINITIONS
+  // =========================================================================
+  reporter.setCategory("Definitions");
+
+  {
+    const { result, duration } = await measureTest("Definitions: validation", async () => {
+      return {
+        valid: validateScheduleDefinition(definition({})),
+        caller: validateScheduleDefinition(definition({ report_type: "caller" })),
+        template: validateScheduleDefinition(definition({ report_type: "template" })),
+        cron: validateScheduleDefinition(definition({ cron_expression: "0 8 * *" })),
+        never: validateScheduleDefinition(definition({ cron_expression: "0 8 31 4 *" })),
+        noRecipients: validateScheduleDefinition(definition({ recipient_ids: [] })),
+        tooMany: validateScheduleDefinition(
+          definition({ recipient_ids: Array.from({ length: 51 }, (_, i) => `r${i}`) })
+        ),
+        webhook: validateScheduleDefinition(definition({ delivery_channel: "webhook", recipient_ids: [] })),
+        webhookOk: validateScheduleDefinition(
+          definition({
+            delivery_channel: "webhook",
+            recipient_ids: [],
+            webhook_subscription_id: "00000000-0000-0000-0000-000000000002",
+          })
+        ),
+      };
+    });
+
+    reporter.log({
+      name: "Definitions: each inconsistent definition gets its own error",
+      passed:
+        result.valid === null &&
+        result.webhookOk === null &&
+        !!result.caller?.includes("agent_id") &&
+        !!result.template?.includes("template_id") &&
+        !!result.cron &&
+        result.never === "Cron expression never fires" &&
+        !!result.noRecipients?.includes("recipient") &&
+        !!result.tooMany?.includes("50") &&
+        !!result.webhook?.includes("webhook"),
+      expected: "null for valid definitions, a message for each invalid one",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 4: DELIVERY EMAIL
+  // =========================================================================
+  reporter.setCategory("Email");
+
+  {
+    const pdf = Buffer.from("%PDF-1.4 fake report body ÿ", "latin1");
+    const { result, duration } = await measureTest("Email: attachments", async () => {
+      const message = {
+        from: "Kalyxi <alerts@kalyxi.test>",
+        to: ["manager@kalyxi.test"],
+        subject: "Weekly scores",
+        text: "Attached.",
+        html: "<p>Attached.</p>",
+      };
+      return {
+        plain: buildMimeMessage(message, { messageId: "<a@kalyxi.test>" }),
+        withFiles: buildMimeMessage(
+          {
+            ...message,
+            attachments: [
+              { filename: "weekly.pdf", contentType: "application/pdf", content: pdf },
+              { filename: "Übersicht.csv", contentType: "text/csv; charset=utf-8", content: Buffer.from("a,b\n") },
+            ],
+          },
+          { messageId: "<b@kalyxi.test>" }
+        ),
+      };
+    });
+
+    const mixedBoundary = result.withFiles.match(/multipart\/mixed; boundary="([^"]+)"/)?.[1] || "";
+    const parts = mixedBoundary ? mimeParts(result.withFiles, mixedBoundary) : [];
+    const pdfPart = parts.find((p) => p.headers.includes('filename="weekly.pdf"'));
+    const csvPart = parts.find((p) => p.headers.includes("filename*=UTF-8''%C3%9Cbersicht.csv"));
+
+    reporter.log({
+      name: "Email: attachments are wrapped in multipart/mixed and round-trip intact",
+      passed:
+        !result.plain.includes("multipart/mixed") &&
+        parts.length === 3 &&
+        parts[0].headers.includes("multipart/alternative") &&
+        !!pdfPart &&
+        pdfPart.headers.includes("Content-Disposition: attachment") &&
+        pdfPart.body.equals(pdf) &&
+        csvPart?.body.toString() === "a,b\n",
+      expected: "No mixed part without files; alternative + 2 attachments with it",
+      actual: `parts=${parts.length}, pdf=${!!pdfPart && pdfPart.body.equals(pdf)}, csv=${!!csvPart}`,
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Email: scheduled report", async () => {
+      const data = {
+        orgName: "Acme",
+        scheduleName: "Weekly <team> scores",
+        reportName: "Team Performance Report",
+        dateFrom: "2026-10-12",
+        dateTo: "2026-10-18",
+        summary: [
+          { label: "Sessions", value: 42 },
+          { label: "Pass rate (%)", value: null },
+        ],
+        reportsUrl: "https://app.kalyxi.test/dashboard/reports",
+      };
+      return {
+        attached: renderScheduledReportEmail(data),
+        linked: renderScheduledReportEmail({ ...data, downloadUrl: "https://files.kalyxi.test/r.pdf?token=1&x=2" }),
+      };
+    });
+
+    reporter.log({
+      name: "Email: scheduled report says how the file was delivered",
+      passed:
+        result.attached.subject === "Weekly <team> scores: 2026-10-12 to 2026-10-18" &&
+        result.attached.text.includes("The report is attached.") &&
+        result.attached.text.includes("Pass rate (%): -") &&
+        result.attached.html.includes("Weekly &lt;team&gt; scores") &&
+        !result.attached.html.includes("<team>") &&
+        result.attached.html.includes("Open reports") &&
+        result.linked.text.includes("Download: https://files.kalyxi.test/r.pdf?token=1&x=2") &&
+        result.linked.html.includes("Download report") &&
+        result.linked.html.includes("token=1&amp;x=2"),
+      expected: "Escaped subject in HTML, attached vs download link wording",
+      actual: result.attached.subject,
+      duration,
+      severity: "medium",
+    });
+  }
+
+  // =========================================================================
+  // PRINT SUMMARY
+  // =========================================================================
+  reporter.printSummary();
+
+  const exitCode = reporter.getExitCode();
+  if (exitCode !== 0) {
+    console.log("\n⚠️  Some tests failed. Review issues above.");
+  } else {
+    console.log("\n✅ All report schedule tests passed!");
+  }
+
+  process.exit(exitCode);
+}
+
+// Run the tests
+runReportScheduleTests().catch((error) => {
+  console.error("Test suite crashed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,258 @@
+/**
+ * Criteria Insights Tests
+ *
+ * Tests the per-criterion aggregation behind criteria_optimizations:
+ * - Distribution, weekly trend and spread
+ * - always_max / always_min flags and their minimum sample size
+ * - Coach vs AI disagreement
+ * - Common feedback themes and the insight window
+ *
+ * Run: npx tsx tests/scoring/criteria-insights-tests.ts
+ */
+
+import { TestReporter, measureTest } from "../config";
+import {
+  AI_DISAGREEMENT_POINTS,
+  MIN_AI_COMPARISONS,
+  MIN_EVALUATIONS_FOR_FLAGS,
+  commonThemes,
+  getInsightWindow,
+  normalizeAiScore,
+  summarizeCriterion,
+  weekStart,
+  type CriterionObservation,
+} from "../../src/lib/criteria-insights";
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function observations(scores: number[], overrides: Partial<CriterionObservation> = {}): CriterionObservation[] {
+  return scores.map((score, i) => ({
+    score,
+    // One a day from Monday Oct 5 2026
+    scoredAt: new Date(Date.UTC(2026, 9, 5 + i, 12)).toISOString(),
+    ...overrides,
+  }));
+}
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+async function runCriteriaInsightsTests(): Promise<void> {
+  const reporter = new TestReporter();
+
+  console.log("\n" + "=".repeat(60));
+  console.log("CRITERIA INSIGHTS TESTS");
+  console.log("=".repeat(60));
+
+  // =========================================================================
+  // SECTION 1: AGGREGATION
+  // =========================================================================
+  reporter.setCategory("Aggregation");
+
+  {
+    const { result, duration } = await measureTest("Aggregation: summary", async () => {
+      return summarizeCriterion(observations([0, 20, 50, 50, 80, 100, 100, 100, 120, -5]));
+    });
+
+    reporter.log({
+      name: "Aggregation: distribution, trend and spread of normalized scores",
+      passed:
+        result.total_evaluations === 10 &&
+        result.total_score === 600 &&
+        JSON.stringify(result.score_distribution) ===
+          JSON.stringify({ "0-20": 3, "21-40": 0, "41-60": 2, "61-80": 1, "81-100": 4 }) &&
+        result.trend_data.length === 2 &&
+        result.trend_data[0].date === "2026-10-05" &&
+        result.trend_data[0].count === 7 &&
+        result.trend_data[1].date === "2026-10-12" &&
+        result.trend_data[1].avg === 66.67 &&
+        result.max_score_rate === 40 &&
+        result.min_score_rate === 20 &&
+        result.score_stddev !== null &&
+        result.score_stddev > 35 &&
+        result.ai_comparisons === 0 &&
+        result.ai_mean_abs_diff === null,
+      expected: "Out-of-range scores clamped, 2 weekly points, 40% max, 20% min",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Aggregation: week boundaries", async () => {
+      return [
+        weekStart("2026-10-18T23:59:00Z"), // Sunday
+        weekStart("2026-10-19T00:00:00Z"), // Monday
+        weekStart("2026-11-01T10:00:00Z"), // Sunday across a month
+      ];
+    });
+
+    reporter.log({
+      name: "Aggregation: trend weeks start on Monday (UTC)",
+      passed: result.join(",") === "2026-10-12,2026-10-19,2026-10-26",
+      expected: "2026-10-12,2026-10-19,2026-10-26",
+      actual: result.join(","),
+      duration,
+      severity: "medium",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 2: CALIBRATION FLAGS
+  // =========================================================================
+  reporter.setCategory("Flags");
+
+  {
+    const { result, duration } = await measureTest("Flags: extremes", async () => {
+      const many = MIN_EVALUATIONS_FOR_FLAGS * 2;
+      return {
+        alwaysMax: summarizeCriterion(observations(Array(many).fill(100))).flags,
+        alwaysMin: summarizeCriterion(observations(Array(many).fill(0))).flags,
+        // One dissenting score in twenty still counts as "always"
+        nearlyMax: summarizeCriterion(observations([...Array(many - 1).fill(100), 50])).flags,
+        spread: summarizeCriterion(observations(Array.from({ length: many }, (_, i) => (i % 5) * 25))).flags,
+        tooFew: summarizeCriterion(observations(Array(MIN_EVALUATIONS_FOR_FLAGS - 1).fill(100))).flags,
+      };
+    });
+
+    reporter.log({
+      name: "Flags: criteria that never discriminate are flagged once there's enough data",
+      passed:
+        result.alwaysMax.join() === "always_max" &&
+        result.alwaysMin.join() === "always_min" &&
+        result.nearlyMax.join() === "always_max" &&
+        result.spread.length === 0 &&
+        result.tooFew.length === 0,
+      expected: "always_max, always_min, always_max, none, none",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Flags: AI disagreement", async () => {
+      const coach = [80, 90, 70, 85, 75, 80];
+      return {
+        disagree: summarizeCriterion(
+          coach.map((score, i) => ({ ...observations([score])[0], aiScore: i % 2 === 0 ? 30 : 40 }))
+        ),
+        agree: summarizeCriterion(coach.map((score) => ({ ...observations([score])[0], aiScore: score - 5 }))),
+        fewCalls: summarizeCriterion(
+          coach
+            .slice(0, MIN_AI_COMPARISONS - 1)
+            .map((score) => ({ ...observations([score])[0], aiScore: 0 }))
+        ),
+        // Sessions without an AI-scored call don't count toward agreement
+        unpaired: summarizeCriterion([
+          ...observations([100, 100, 100]),
+          ...observations([90], { aiScore: 90 }),
+        ]),
+      };
+    });
+
+    reporter.log({
+      name: "Flags: coach/AI gap is averaged over paired scores only",
+      passed:
+        result.disagree.flags.includes("ai_disagreement") &&
+        result.disagree.ai_comparisons === 6 &&
+        result.disagree.ai_mean_abs_diff! >= AI_DISAGREEMENT_POINTS &&
+        result.disagree.ai_average_score === 35 &&
+        result.agree.flags.length === 0 &&
+        result.agree.ai_mean_abs_diff === 5 &&
+        !result.fewCalls.flags.includes("ai_disagreement") &&
+        result.unpaired.ai_comparisons === 1 &&
+        result.unpaired.ai_mean_abs_diff === 0,
+      expected: "Flag at >= 25 pts over >= 5 calls; unpaired sessions ignored",
+      actual: JSON.stringify({
+        disagree: [result.disagree.ai_mean_abs_diff, result.disagree.flags],
+        agree: result.agree.ai_mean_abs_diff,
+        fewCalls: result.fewCalls.flags,
+        unpaired: [result.unpaired.ai_comparisons, result.unpaired.ai_mean_abs_diff],
+      }),
+      duration,
+      severity: "high",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 3: INPUTS
+  // =========================================================================
+  reporter.setCategory("Inputs");
+
+  {
+    const { result, duration } = await measureTest("Inputs: AI scores and themes", async () => {
+      return {
+        normalized: [
+          normalizeAiScore({ score: 8, max_score: 10 }),
+          normalizeAiScore({ score: 12, max_score: 10 }),
+          normalizeAiScore({ score: 3, max_score: 0 }),
+          normalizeAiScore({ score: Number.NaN, max_score: 10 }),
+        ],
+        themes: commonThemes([
+          "Ask about budget earlier.",
+          "ask about budget earlier",
+          "Ask about budget earlier!",
+          "Confirm next steps",
+          "confirm next steps.",
+          "Mention pricing",
+          "  ",
+        ]),
+      };
+    });
+
+    reporter.log({
+      name: "Inputs: AI scores normalize to 0-100 and repeated feedback is grouped",
+      passed:
+        JSON.stringify(result.normalized) === JSON.stringify([80, 100, null, null]) &&
+        JSON.stringify(result.themes) === JSON.stringify(["Ask about budget earlier.", "Confirm next steps"]),
+      expected: "[80,100,null,null]; 2 themes, most frequent first, singletons dropped",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "medium",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Inputs: window", async () => {
+      return getInsightWindow(new Date("2026-10-19T15:30:00Z"));
+    });
+
+    reporter.log({
+      name: "Inputs: the window is 90 whole days ending yesterday",
+      passed:
+        result.periodStart === "2026-07-21" &&
+        result.periodEnd === "2026-10-18" &&
+        result.from === "2026-07-21T00:00:00.000Z" &&
+        result.to === "2026-10-19T00:00:00.000Z",
+      expected: "2026-07-21 to 2026-10-18",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "medium",
+    });
+  }
+
+  // =========================================================================
+  // PRINT SUMMARY
+  // =========================================================================
+  reporter.printSummary();
+
+  const exitCode = reporter.getExitCode();
+  if (exitCode !== 0) {
+    console.log("\n⚠️  Some tests failed. Review issues above.");
+  } else {
+    console.log("\n✅ All criteria insights tests passed!");
+  }
+
+  process.exit(exitCode);
+}
+
+// Run the tests
+runCriteriaInsightsTests().catch((error) => {
+  console.error("Test suite crashed:", error);
+  process.exit(1);
+});
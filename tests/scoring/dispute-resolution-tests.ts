@@ -0,0 +1,320 @@
+/**
+ * Dispute Resolution Tests
+ *
+ * Tests resolving a disputed session:
+ * - Upholding keeps scores and marks the outcome upheld
+ * - Amending recomputes the session score through calculateSessionScore
+ * - Decisions must cover exactly the disputed criteria
+ * - Invalid amended values are rejected
+ * - SLA ages, statuses and age buckets for open disputes
+ *
+ * Run: npx tsx tests/scoring/dispute-resolution-tests.ts
+ */
+
+import { TestReporter, measureTest } from "../config";
+import {
+  resolveDispute,
+  getDisputeAge,
+  summarizeDisputeSla,
+  DisputeResolutionError,
+  DISPUTE_SLA_HOURS,
+  type DisputedScore,
+  type DisputeDecision,
+} from "../../src/lib/disputes";
+import { Criteria, Template } from "../../src/types/database";
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function createCriteria(id: string, name: string, weight: number): Criteria {
+  return {
+    id,
+    template_id: "template-1",
+    name,
+    criteria_type: "percentage",
+    config: { thresholds: [] },
+    weight,
+    max_score: 100,
+    sort_order: 0,
+    is_required: false,
+    is_auto_fail: false,
+    keywords: [],
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+  } as Criteria;
+}
+
+const template = {
+  id: "template-1",
+  org_id: "org-1",
+  name: "QA Review",
+  scoring_method: "weighted",
+  use_case: "qa_review",
+  pass_threshold: 70,
+  max_total_score: 100,
+  settings: {
+    allow_na: true,
+    require_comments_below_threshold: false,
+    comments_threshold: 70,
+    auto_calculate: true,
+    show_weights_to_agents: false,
+    allow_partial_submission: true,
+  },
+  status: "active",
+  version: 1,
+  is_default: false,
+  created_at: new Date().toISOString(),
+  updated_at: new Date().toISOString(),
+} as Template;
+
+const criteria = [
+  createCriteria("c1", "Greeting", 50),
+  createCriteria("c2", "Discovery", 25),
+  createCriteria("c3", "Closing", 25),
+];
+
+// Greeting 40, Discovery 80, Closing 80: weighted 60%, a fail
+const scores: DisputedScore[] = [
+  { criteria_id: "c1", value: { value: 40 }, is_na: false, comment: "Rushed", normalized_score: 40 },
+  { criteria_id: "c2", value: { value: 80 }, is_na: false, comment: null, normalized_score: 80 },
+  { criteria_id: "c3", value: { value: 80 }, is_na: false, comment: null, normalized_score: 80 },
+];
+
+function resolve(disputedCriteriaIds: string[], decisions: DisputeDecision[]) {
+  return resolveDispute({ template, criteria, scores, disputedCriteriaIds, decisions });
+}
+
+function resolveError(disputedCriteriaIds: string[], decisions: DisputeDecision[]): string | null {
+  try {
+    resolve(disputedCriteriaIds, decisions);
+    return null;
+  } catch (error) {
+    return error instanceof DisputeResolutionError ? error.message : `unexpected: ${error}`;
+  }
+}
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+async function runDisputeResolutionTests(): Promise<void> {
+  const reporter = new TestReporter();
+
+  console.log("\n" + "=".repeat(60));
+  console.log("DISPUTE RESOLUTION TESTS");
+  console.log("=".repeat(60));
+
+  // =========================================================================
+  // SECTION 1: RESOLUTION
+  // =========================================================================
+  reporter.setCategory("Resolution");
+
+  {
+    const { result, duration } = await measureTest("Resolution: uphold", async () =>
+      resolve(["c1"], [{ criteria_id: "c1", action: "uphold" }])
+    );
+
+    reporter.log({
+      name: "Resolution: upholding every disputed criterion keeps the score",
+      passed:
+        result.outcome === "upheld" &&
+        result.amendedScores.length === 0 &&
+        result.scoreResult.percentage_score === 60 &&
+        result.changes[0]?.previous_score === 40 &&
+        result.changes[0]?.new_score === 40,
+      expected: "upheld, no amendments, 60%",
+      actual: `${result.outcome}, ${result.amendedScores.length} amended, ${result.scoreResult.percentage_score}%`,
+      duration,
+      severity: "critical",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Resolution: amend", async () =>
+      resolve(
+        ["c1", "c2"],
+        [
+          { criteria_id: "c1", action: "amend", value: { value: 80 } },
+          { criteria_id: "c2", action: "uphold" },
+        ]
+      )
+    );
+
+    const amended = result.amendedScores[0];
+    reporter.log({
+      name: "Resolution: amending a score recomputes the session total",
+      passed:
+        result.outcome === "amended" &&
+        result.amendedScores.length === 1 &&
+        amended.criteria_id === "c1" &&
+        amended.normalized_score === 80 &&
+        amended.comment === "Rushed" &&
+        result.scoreResult.percentage_score === 80 &&
+        result.scoreResult.pass_status === "pass",
+      expected: "amended c1 to 80 (comment kept), 80% pass",
+      actual: `${result.outcome}, ${JSON.stringify(amended)}, ${result.scoreResult.percentage_score}% ${result.scoreResult.pass_status}`,
+      duration,
+      severity: "critical",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Resolution: amend to N/A", async () =>
+      resolve(["c1"], [{ criteria_id: "c1", action: "amend", is_na: true, comment: "Not applicable to inbound" }])
+    );
+
+    reporter.log({
+      name: "Resolution: amending to N/A drops the criterion from the total",
+      passed:
+        result.amendedScores[0]?.is_na === true &&
+        result.amendedScores[0]?.comment === "Not applicable to inbound" &&
+        result.changes[0]?.new_score === null &&
+        result.scoreResult.percentage_score === 80,
+      expected: "c1 N/A, 80%",
+      actual: `${JSON.stringify(result.changes[0])}, ${result.scoreResult.percentage_score}%`,
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Resolution: whole-session dispute", async () => [
+      resolve([], []).outcome,
+      resolve([], [{ criteria_id: "c3", action: "amend", value: { value: 100 } }]).scoreResult.percentage_score,
+    ]);
+
+    reporter.log({
+      name: "Resolution: a whole-session dispute can be upheld outright or amended anywhere",
+      passed: result[0] === "upheld" && result[1] === 65,
+      expected: "upheld, 65%",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 2: VALIDATION
+  // =========================================================================
+  reporter.setCategory("Validation");
+
+  {
+    const { result, duration } = await measureTest("Validation: coverage", async () => [
+      resolveError(["c1", "c2"], [{ criteria_id: "c1", action: "uphold" }]),
+      resolveError(["c1"], [
+        { criteria_id: "c1", action: "uphold" },
+        { criteria_id: "c3", action: "uphold" },
+      ]),
+      resolveError(["c1"], [
+        { criteria_id: "c1", action: "uphold" },
+        { criteria_id: "c1", action: "amend", value: { value: 90 } },
+      ]),
+      resolveError([], [{ criteria_id: "missing", action: "uphold" }]),
+    ]);
+
+    reporter.log({
+      name: "Validation: decisions must cover exactly the disputed criteria, once each",
+      passed:
+        !!result[0]?.includes("Missing decisions") &&
+        !!result[0]?.includes("Discovery") &&
+        !!result[1]?.includes("was not disputed") &&
+        !!result[2]?.includes("More than one decision") &&
+        !!result[3]?.includes("Criterion not found"),
+      expected: "missing, not disputed, duplicate and unknown criteria rejected",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "critical",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Validation: values", async () => [
+      resolveError(["c1"], [{ criteria_id: "c1", action: "amend" }]),
+      resolveError(["c1"], [{ criteria_id: "c1", action: "amend", value: { value: 150 } }]),
+    ]);
+
+    reporter.log({
+      name: "Validation: an amendment needs a value that's valid for the criterion",
+      passed: !!result[0]?.includes("needs a value") && !!result[1]?.includes("Invalid score"),
+      expected: "missing and out-of-range values rejected",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 3: SLA
+  // =========================================================================
+  reporter.setCategory("SLA");
+
+  const now = new Date("2026-03-10T12:00:00Z");
+  const hoursAgo = (h: number) => new Date(now.getTime() - h * 60 * 60 * 1000).toISOString();
+
+  {
+    const { result, duration } = await measureTest("SLA: age and status", async () => [
+      getDisputeAge(hoursAgo(5), now),
+      getDisputeAge(hoursAgo(50), now),
+      getDisputeAge(hoursAgo(DISPUTE_SLA_HOURS), now),
+    ]);
+
+    reporter.log({
+      name: "SLA: disputes are on track, then at risk, then breached as they age",
+      passed:
+        result[0].ageHours === 5 &&
+        result[0].slaStatus === "on_track" &&
+        result[0].dueAt === new Date(now.getTime() + (DISPUTE_SLA_HOURS - 5) * 60 * 60 * 1000).toISOString() &&
+        result[1].slaStatus === "at_risk" &&
+        result[2].slaStatus === "breached",
+      expected: "on_track at 5h, at_risk at 50h, breached at the SLA",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("SLA: summary", async () => ({
+      some: summarizeDisputeSla([hoursAgo(2), hoursAgo(30), hoursAgo(60), hoursAgo(100), hoursAgo(200)], now),
+      none: summarizeDisputeSla([], now),
+    }));
+
+    reporter.log({
+      name: "SLA: summary counts statuses and age buckets",
+      passed:
+        result.some.open === 5 &&
+        result.some.onTrack === 2 &&
+        result.some.atRisk === 1 &&
+        result.some.breached === 2 &&
+        result.some.oldestHours === 200 &&
+        result.some.buckets.map((b) => b.count).join(",") === "1,1,1,2" &&
+        result.none.open === 0 &&
+        result.none.oldestHours === null,
+      expected: "5 open (2/1/2), oldest 200h, buckets 1,1,1,2; empty summary",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "medium",
+    });
+  }
+
+  // =========================================================================
+  // PRINT SUMMARY
+  // =========================================================================
+  reporter.printSummary();
+
+  const exitCode = reporter.getExitCode();
+  if (exitCode !== 0) {
+    console.log("\n⚠️  Some tests failed. Review issues above.");
+  } else {
+    console.log("\n✅ All dispute resolution tests passed!");
+  }
+
+  process.exit(exitCode);
+}
+
+// Run the tests
+runDisputeResolutionTests().catch((error) => {
+  console.error("Test suite crashed:", error);
+  process.exit(1);
+});
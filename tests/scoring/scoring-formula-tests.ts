@@ -0,0 +1,475 @@
+/**
+ * Scoring Formula Tests
+ *
+ * Tests the custom_formula scoring method:
+ * - Parsing, precedence and built-in functions
+ * - N/A (null) handling
+ * - Validation of syntax, names and argument counts
+ * - Key assignment for criteria and groups
+ * - Session scores from formulas, group subtotals and snapshot formulas
+ *
+ * Run: npx tsx tests/scoring/scoring-formula-tests.ts
+ */
+
+import { TestReporter, measureTest } from "../config";
+import { calculateSessionScore, ScoreInput } from "../../src/lib/scoring-engine";
+import {
+  evaluateFormula,
+  getFormulaVariables,
+  getSnapshotFormula,
+  parseFormula,
+  validateFormula,
+  FormulaError,
+} from "../../src/lib/scoring-formula";
+import { Criteria, CriteriaGroup, Template } from "../../src/types/database";
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function createCriteria(
+  id: string,
+  name: string,
+  weight: number,
+  groupId?: string,
+  sortOrder: number = 0
+): Criteria {
+  return {
+    id,
+    template_id: "template-1",
+    group_id: groupId,
+    name,
+    criteria_type: "percentage",
+    config: { thresholds: [] },
+    weight,
+    max_score: 100,
+    sort_order: sortOrder,
+    is_required: false,
+    is_auto_fail: false,
+    keywords: [],
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+  } as Criteria;
+}
+
+function createGroup(id: string, name: string, sortOrder: number): CriteriaGroup {
+  return {
+    id,
+    template_id: "template-1",
+    name,
+    sort_order: sortOrder,
+    weight: 0,
+    is_required: false,
+    is_collapsed_by_default: false,
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+  } as CriteriaGroup;
+}
+
+function createTemplate(formula: string | null): Template {
+  return {
+    id: "template-1",
+    org_id: "org-1",
+    name: "Formula Template",
+    scoring_method: "custom_formula",
+    scoring_formula: formula,
+    use_case: "sales_call",
+    pass_threshold: 70,
+    max_total_score: 100,
+    settings: {
+      allow_na: true,
+      require_comments_below_threshold: false,
+      comments_threshold: 70,
+      auto_calculate: true,
+      show_weights_to_agents: false,
+      allow_partial_submission: true,
+    },
+    status: "active",
+    version: 1,
+    is_default: false,
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+  } as Template;
+}
+
+// Two groups of two criteria, scored as percentages
+const groups = [createGroup("g1", "Discovery", 0), createGroup("g2", "Closing", 1)];
+const criteria = [
+  createCriteria("c1", "Open Questions", 30, "g1", 0),
+  createCriteria("c2", "Pain Identified", 10, "g1", 1),
+  createCriteria("c3", "Next Steps", 40, "g2", 0),
+  createCriteria("c4", "Compliance", 20, "g2", 1),
+];
+
+function scoresFor(values: Record<string, number | "na">): ScoreInput[] {
+  return criteria
+    .filter((c) => c.id in values)
+    .map((c) => ({
+      criteria: c,
+      value: { value: values[c.id] === "na" ? 0 : (values[c.id] as number) },
+      isNa: values[c.id] === "na",
+    }));
+}
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+async function runScoringFormulaTests(): Promise<void> {
+  const reporter = new TestReporter();
+
+  console.log("\n" + "=".repeat(60));
+  console.log("SCORING FORMULA TESTS");
+  console.log("=".repeat(60));
+
+  // =========================================================================
+  // SECTION 1: EXPRESSIONS
+  // =========================================================================
+  reporter.setCategory("Expressions");
+
+  {
+    const { result, duration } = await measureTest("Expressions: precedence", async () => {
+      return [
+        evaluateFormula("2 + 3 * 4", {}),
+        evaluateFormula("(2 + 3) * 4", {}),
+        evaluateFormula("-2 * 3 + 10 / 4", {}),
+        evaluateFormula("1 + 2 > 2 && 0 || 1 < 2", {}),
+      ];
+    });
+
+    reporter.log({
+      name: "Expressions: arithmetic, comparison and logic precedence",
+      passed: JSON.stringify(result) === JSON.stringify([14, 20, -3.5, 1]),
+      expected: "[14,20,-3.5,1]",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Expressions: functions", async () => {
+      const vars = { a: 80, b: 40 };
+      return [
+        evaluateFormula("min(a, b, 60)", vars),
+        evaluateFormula("max(a, b)", vars),
+        evaluateFormula("avg(a, b)", vars),
+        evaluateFormula("sum(a, b)", vars),
+        evaluateFormula("if(b < 50, 0, a)", vars),
+        evaluateFormula("clamp(a * 2, 0, 100)", vars),
+        evaluateFormula("round(a / 3, 1)", vars),
+        evaluateFormula("abs(b - a)", vars),
+      ];
+    });
+
+    reporter.log({
+      name: "Expressions: min/max/avg/sum/if/clamp/round/abs",
+      passed: JSON.stringify(result) === JSON.stringify([40, 80, 60, 120, 0, 100, 26.7, 40]),
+      expected: "[40,80,60,120,0,100,26.7,40]",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Expressions: N/A values", async () => {
+      const vars = { a: 80, b: null };
+      return [
+        evaluateFormula("a + b", vars),
+        evaluateFormula("avg(a, b)", vars),
+        evaluateFormula("coalesce(b, 0) + a", vars),
+        evaluateFormula("if(b > 50, 1, 2)", vars),
+        evaluateFormula("a / 0", vars),
+      ];
+    });
+
+    reporter.log({
+      name: "Expressions: null propagates through arithmetic, aggregates skip it",
+      passed: JSON.stringify(result) === JSON.stringify([null, 80, 80, 2, null]),
+      expected: "[null,80,80,2,null]",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Expressions: only the taken branch runs", async () => {
+      // The untaken branch divides by zero and calls an unknown function
+      return evaluateFormula("if(1, 5, nope(1) / 0)", {});
+    });
+
+    reporter.log({
+      name: "Expressions: if() evaluates lazily",
+      passed: result === 5,
+      expected: "5",
+      actual: String(result),
+      duration,
+      severity: "medium",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 2: VALIDATION AND SANDBOXING
+  // =========================================================================
+  reporter.setCategory("Validation");
+
+  {
+    const { result, duration } = await measureTest("Validation: syntax errors", async () => {
+      const attempts = ["1 +", "min(1, 2", "a b", "process.exit(1)", "this['constructor']", ""];
+      return attempts.map((source) => {
+        try {
+          parseFormula(source);
+          return "parsed";
+        } catch (error) {
+          return error instanceof FormulaError ? "rejected" : "crashed";
+        }
+      });
+    });
+
+    reporter.log({
+      name: "Validation: malformed and JavaScript-like input is rejected",
+      passed: result.every((r) => r === "rejected"),
+      expected: "all rejected",
+      actual: result.join(", "),
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Validation: names and arity", async () => {
+      const variables = getFormulaVariables(groups, criteria);
+      return {
+        ok: validateFormula("min(weighted, compliance) + discovery * 0", variables),
+        bad: validateFormula("avg(open_question) + clamp(1, 2) + eval(1)", variables),
+      };
+    });
+
+    reporter.log({
+      name: "Validation: unknown variables/functions and wrong argument counts are reported",
+      passed:
+        result.ok.valid &&
+        !result.bad.valid &&
+        result.bad.errors.length === 3 &&
+        result.bad.errors[0].includes("open_question") &&
+        result.bad.errors[1].includes("clamp() takes 3 arguments") &&
+        result.bad.errors[2].includes("eval"),
+      expected: "valid formula accepted, 3 errors for the bad one",
+      actual: JSON.stringify(result.bad.errors),
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Validation: nesting limit", async () => {
+      try {
+        parseFormula("(".repeat(200) + "1" + ")".repeat(200));
+        return "parsed";
+      } catch (error) {
+        return (error as Error).message;
+      }
+    });
+
+    reporter.log({
+      name: "Validation: deeply nested formulas are rejected",
+      passed: result.includes("nested too deeply"),
+      expected: "nested too deeply",
+      actual: result,
+      duration,
+      severity: "medium",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 3: KEYS
+  // =========================================================================
+  reporter.setCategory("Keys");
+
+  {
+    const { result, duration } = await measureTest("Keys: assignment", async () => {
+      const variables = getFormulaVariables(
+        [createGroup("g1", "Rapport", 0)],
+        [
+          createCriteria("c1", "Rapport", 50, "g1", 0),
+          createCriteria("c2", "1st Impression!", 25, "g1", 1),
+          createCriteria("c3", "Weighted", 25, undefined, 2),
+        ]
+      );
+      return variables.map((v) => `${v.kind}:${v.key}`);
+    });
+
+    reporter.log({
+      name: "Keys: names are slugged, clashes and reserved names get suffixes",
+      passed:
+        JSON.stringify(result) ===
+        JSON.stringify([
+          "builtin:weighted",
+          "builtin:average",
+          "group:rapport",
+          "criteria:rapport_2",
+          "criteria:_1st_impression",
+          "criteria:weighted_2",
+        ]),
+      expected: "rapport, rapport_2, _1st_impression, weighted_2",
+      actual: result.join(", "),
+      duration,
+      severity: "high",
+    });
+  }
+
+  // =========================================================================
+  // SECTION 4: SESSION SCORES
+  // =========================================================================
+  reporter.setCategory("Session Scores");
+
+  {
+    const { result, duration } = await measureTest("Session: criteria and group keys", async () => {
+      // Discovery = (90*30 + 50*10) / 40 = 80, Closing = (60*40 + 100*20) / 60 = 73.33
+      return calculateSessionScore({
+        template: createTemplate("min(discovery, closing, compliance)"),
+        criteria,
+        groups,
+        scores: scoresFor({ c1: 90, c2: 50, c3: 60, c4: 100 }),
+      });
+    });
+
+    reporter.log({
+      name: "Session: group keys are weighted subtotals",
+      passed:
+        result.percentage_score === 73.33 &&
+        result.total_possible === 100 &&
+        result.pass_status === "pass" &&
+        result.formula_error === undefined,
+      expected: "73.33%, pass",
+      actual: `${result.percentage_score}%, ${result.pass_status}`,
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Session: gate and clamp", async () => {
+      const scores = scoresFor({ c1: 100, c2: 100, c3: 100, c4: 40 });
+      return {
+        gated: calculateSessionScore({
+          template: createTemplate("if(compliance < 50, min(weighted, 60), weighted)"),
+          criteria,
+          groups,
+          scores,
+        }).percentage_score,
+        clamped: calculateSessionScore({
+          template: createTemplate("weighted * 2"),
+          criteria,
+          groups,
+          scores,
+        }).percentage_score,
+      };
+    });
+
+    reporter.log({
+      name: "Session: conditional caps and results clamped to 0-100",
+      passed: result.gated === 60 && result.clamped === 100,
+      expected: "gated 60, clamped 100",
+      actual: `gated ${result.gated}, clamped ${result.clamped}`,
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Session: N/A criteria", async () => {
+      return calculateSessionScore({
+        template: createTemplate("avg(open_questions, pain_identified, next_steps)"),
+        criteria,
+        groups,
+        scores: scoresFor({ c1: 90, c2: "na", c3: 60 }),
+      }).percentage_score;
+    });
+
+    reporter.log({
+      name: "Session: N/A criteria are skipped by aggregates",
+      passed: result === 75,
+      expected: "75",
+      actual: String(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Session: invalid formula", async () => {
+      return calculateSessionScore({
+        template: createTemplate("min(missing_key, 10)"),
+        criteria,
+        groups,
+        scores: scoresFor({ c1: 100, c2: 100, c3: 50, c4: 50 }),
+      });
+    });
+
+    // Weighted: (30 + 10 + 20 + 10) / 100 = 70%
+    reporter.log({
+      name: "Session: broken formula falls back to weighted with an error",
+      passed: result.percentage_score === 70 && !!result.formula_error?.includes("missing_key"),
+      expected: "70% with formula_error",
+      actual: `${result.percentage_score}% (${result.formula_error})`,
+      duration,
+      severity: "blocker",
+    });
+  }
+
+  {
+    const { result, duration } = await measureTest("Session: snapshot formula", async () => {
+      const snapshot = {
+        template: { id: "template-1", scoring_formula: "compliance" },
+        groups: [],
+        criteria: [],
+      };
+      const formula = getSnapshotFormula(snapshot);
+      const score = calculateSessionScore({
+        template: createTemplate("weighted"),
+        criteria,
+        groups,
+        scores: scoresFor({ c1: 100, c2: 100, c3: 100, c4: 20 }),
+        formula,
+      }).percentage_score;
+
+      return {
+        score,
+        flat: getSnapshotFormula({ id: "template-1", scoring_formula: "x", criteria: [] }),
+        legacy: getSnapshotFormula({ template: { id: "template-1" }, groups: [], criteria: [] }),
+      };
+    });
+
+    reporter.log({
+      name: "Session: the formula a session was created with is used over the live one",
+      passed: result.score === 20 && result.flat === "x" && result.legacy === undefined,
+      expected: "20, flat snapshot read, legacy undefined",
+      actual: JSON.stringify(result),
+      duration,
+      severity: "high",
+    });
+  }
+
+  // =========================================================================
+  // PRINT SUMMARY
+  // =========================================================================
+  reporter.printSummary();
+
+  const exitCode = reporter.getExitCode();
+  if (exitCode !== 0) {
+    console.log("\n⚠️  Some tests failed. Review issues above.");
+  } else {
+    console.log("\n✅ All scoring formula tests passed!");
+  }
+
+  process.exit(exitCode);
+}
+
+// Run the tests
+runScoringFormulaTests().catch((error) => {
+  console.error("Test suite crashed:", error);
+  process.exit(1);
+});